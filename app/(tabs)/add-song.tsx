@@ -1,11 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { StyleSheet, View, Text, TextInput, TouchableOpacity, ActivityIndicator, ScrollView } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '@/constants/Colors';
 import { GangSwitch } from '@/components/ui/filters';
 import { PageHeader } from '@/components/ui/PageHeader';
-import { TheorySection, TheoryMetricsRow, TheoryChipGroup, TheoryChordSection, AddChordModal } from '@/components/ui/theory';
+import { TheorySection, TheoryMetricsRow, TheoryChipGroup, TheoryChordSection, TheoryProgressionSection, TransposeControl, KeyCheckBanner, ArrangementPanel, ScaleFretboardModal, AddChordModal } from '@/components/ui/theory';
 import { Mic, BookOpen, Target, StickyNote, Search, Save, Music, Clock, Hash, ExternalLink, Guitar, Headphones } from 'lucide-react-native';
 import { FilterOption, Instrument } from '@/types/filters';
 import * as Haptics from 'expo-haptics';
@@ -18,22 +18,33 @@ import { AchievementGrid } from '@/components/ui/practice/AchievementGrid';
 import { AchievementModal } from '@/components/ui/practice/AchievementModal';
 import { PracticeCompleteModal } from '@/components/ui/practice/PracticeCompleteModal';
 import { PracticePlayerModal } from '@/components/ui/practice/PracticePlayerModal';
+import { SyncedLyricsView } from '@/components/ui/lyrics';
+import { ChordSheetPanel } from '@/components/ui/chordSheet';
 import { SkillTree } from '@/components/ui/mastery';
 import { MilestoneModal } from '@/components/ui/milestones';
 import { DailyGoalModal } from '@/components/ui/streaks';
 import { usePracticeData } from '@/hooks/usePracticeData';
 import { useSongMastery } from '@/hooks/useSongMastery';
+import { usePracticePlayer } from '@/hooks/usePracticePlayer';
 import { Achievement } from '@/types/practice';
 import { LifetimeMilestone } from '@/types/milestones';
+import type { SongArrangement } from '@/types/arrangement';
 import { StreakUpdateResult } from '@/types/streak';
 import { instrumentOptions } from '@/config/filterOptions';
 import { analyzeVideoWithGemini, getMockGeminiResponse } from '@/utils/gemini';
 import { fetchAlbumArtwork } from '@/utils/artwork';
 import { fetchLyrics } from '@/utils/lyrics';
+import { parseChordPro, serializeChordPro, transposeChordSheet } from '@/utils/chordSheet';
+import { isArrangementMapped, parseArrangement, transposeArrangement } from '@/utils/arrangement';
+import { parseTempo } from '@/utils/metronome';
+import { transposeSong, suggestCapoPositions } from '@/utils/transpose';
+import { analyzeProgression } from '@/utils/progressions';
+import { checkKeyAgainstChords } from '@/utils/keyDetection';
 import { supabase } from '@/utils/supabase/client';
 import { useStyledAlert } from '@/hooks/useStyledAlert';
 
 type AddSongTab = 'Basics' | 'Theory' | 'Practice' | 'Lyrics';
+type LyricsView = 'lyrics' | 'chart';
 
 interface InstrumentAnalysisData {
   videoUrl: string;
@@ -88,6 +99,9 @@ export default function AddSongScreen() {
   const [isVideoModalVisible, setIsVideoModalVisible] = useState(false); // Video player modal
   const [lyrics, setLyrics] = useState<string | null>(null);
   const [isLoadingLyrics, setIsLoadingLyrics] = useState(false);
+  const [chordSheet, setChordSheet] = useState<string | null>(null);
+  const [arrangement, setArrangement] = useState<SongArrangement | null>(null);
+  const [lyricsView, setLyricsView] = useState<LyricsView>('lyrics');
   const [achievementModalVisible, setAchievementModalVisible] = useState(false);
   const [practiceCompleteModalVisible, setPracticeCompleteModalVisible] = useState(false);
   const [addChordModalVisible, setAddChordModalVisible] = useState(false);
@@ -95,6 +109,11 @@ export default function AddSongScreen() {
   const [lastPracticeSeconds, setLastPracticeSeconds] = useState(0);
   const [newlyUnlockedAchievements, setNewlyUnlockedAchievements] = useState<Achievement[]>([]);
   const [practiceNotes, setPracticeNotes] = useState('');
+  // Transposition (view-only until applied) and selected capo position
+  const [transposeSemitones, setTransposeSemitones] = useState(0);
+  const [capoFret, setCapoFret] = useState<number | null>(null);
+  const [selectedScale, setSelectedScale] = useState<string | null>(null);
+  const [keyCheckDismissed, setKeyCheckDismissed] = useState(false);
   // Celebration modal states
   const [dailyGoalModalVisible, setDailyGoalModalVisible] = useState(false);
   const [lastStreakUpdate, setLastStreakUpdate] = useState<StreakUpdateResult | null>(null);
@@ -113,8 +132,68 @@ export default function AddSongScreen() {
     getNodeStatus,
     getCompletedNodeIds,
     checkTheoryProgress,
+    completeTheoryNode,
   } = useSongMastery(songId, practiceSeconds);
 
+  // Practice player - shared by the player modal and lyrics follow mode
+  const practicePlayer = usePracticePlayer();
+  const { unload: unloadPracticeAudio } = practicePlayer;
+
+  // Another song's audio shouldn't carry over
+  useEffect(() => {
+    unloadPracticeAudio();
+  }, [songId, unloadPracticeAudio]);
+
+  // Transposed theory data for the current instrument
+  const currentTheory = instrumentData[currentInstrument]?.theoryData;
+  const transposedTheory = useMemo(() => {
+    if (!currentTheory) return null;
+    return transposeSong(currentTheory, transposeSemitones);
+  }, [currentTheory, transposeSemitones]);
+
+  // Capo suggestions only make sense for guitar
+  const capoSuggestions = useMemo(() => {
+    if (!transposedTheory || currentInstrument !== 'Guitar') return [];
+    return suggestCapoPositions(transposedTheory.chords, transposedTheory.key);
+  }, [transposedTheory, currentInstrument]);
+
+  // With a capo, chords and scales are shown as the shapes to play
+  const displayedTheory = useMemo(() => {
+    if (!transposedTheory || !capoFret) return transposedTheory;
+    return transposeSong(transposedTheory, -capoFret);
+  }, [transposedTheory, capoFret]);
+
+  const isTransposed = transposeSemitones !== 0 || capoFret !== null;
+
+  // The chord chart follows the transposition and capo shown on the Theory tab
+  const chordSheetShiftLabel = isTransposed
+    ? [
+        transposeSemitones !== 0 ? `IN ${transposedTheory?.key}` : null,
+        capoFret ? `CAPO ${capoFret}` : null,
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    : null;
+
+  // Roman-numeral analysis of the chords as shown (numerals don't change with transposition)
+  const progressionAnalysis = useMemo(() => {
+    if (!displayedTheory) return null;
+    return analyzeProgression(displayedTheory.chords, displayedTheory.key);
+  }, [displayedTheory]);
+
+  // Compare the detected key with the key the chords suggest
+  const keyCheck = useMemo(() => {
+    if (!currentTheory) return null;
+    return checkKeyAgainstChords(currentTheory.key, currentTheory.chords);
+  }, [currentTheory]);
+
+  // Reset transposition and the key warning when switching songs or instruments
+  useEffect(() => {
+    setTransposeSemitones(0);
+    setCapoFret(null);
+    setKeyCheckDismissed(false);
+  }, [songId, currentInstrument]);
+
   // Load existing song data when songId is provided
   useEffect(() => {
     if (songId) {
@@ -175,6 +254,8 @@ export default function AddSongScreen() {
       if (data.lyrics) {
         setLyrics(data.lyrics);
       }
+      setChordSheet(data.chord_sheet || null);
+      setArrangement(parseArrangement(data.song_structure));
 
       // Force form re-render
       setFormKey(prev => prev + 1);
@@ -288,6 +369,7 @@ export default function AddSongScreen() {
         ...prev,
         [analysisResult.instrument]: analyzedData,
       }));
+      setKeyCheckDismissed(false);
 
       // Force form re-render to ensure TextInputs update on iOS
       setFormKey(prev => prev + 1);
@@ -361,6 +443,8 @@ export default function AddSongScreen() {
         scales: currentData.theoryData.scales,
         techniques: currentData.practiceData.techniques,
         lyrics: lyrics || null,
+        chord_sheet: chordSheet || null,
+        song_structure: arrangement,
       };
 
       // 3. Save to Supabase
@@ -426,6 +510,8 @@ export default function AddSongScreen() {
         scales: currentData?.theoryData?.scales,
         techniques: currentData?.practiceData?.techniques,
         lyrics: lyrics || null,
+        chord_sheet: chordSheet || null,
+        song_structure: arrangement,
       };
 
       const { error } = await supabase
@@ -463,6 +549,70 @@ export default function AddSongScreen() {
     }
   };
 
+  // Save lyrics after tap-along timing (for existing songs)
+  const handleLyricsChange = async (newLyrics: string) => {
+    setLyrics(newLyrics);
+    if (!songId) return;
+
+    try {
+      const { error } = await supabase
+        .from('songs')
+        .update({ lyrics: newLyrics })
+        .eq('id', songId);
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Auto-save lyrics error:', err);
+      showError('Error', 'Failed to save lyric timings');
+    }
+  };
+
+  // Save the chord chart (auto-saves for existing songs)
+  const handleChordSheetSave = async (source: string) => {
+    setChordSheet(source);
+    if (!songId) return;
+
+    try {
+      const { error } = await supabase
+        .from('songs')
+        .update({ chord_sheet: source })
+        .eq('id', songId);
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Auto-save chord chart error:', err);
+      showError('Error', 'Failed to save chord chart');
+    }
+  };
+
+  // Save the arrangement (auto-saves for existing songs)
+  // A full arrangement completes the "Full Structure" mastery node
+  const handleArrangementSave = async (next: SongArrangement) => {
+    setArrangement(next);
+    if (!songId) return;
+
+    try {
+      const { error } = await supabase
+        .from('songs')
+        .update({ song_structure: next })
+        .eq('id', songId);
+
+      if (error) throw error;
+    } catch (err) {
+      console.error('Auto-save arrangement error:', err);
+      showError('Error', 'Failed to save arrangement');
+      return;
+    }
+
+    if (isArrangementMapped(next) && getNodeStatus('theory_structure') !== 'completed') {
+      try {
+        await completeTheoryNode('theory_structure');
+      } catch (err) {
+        console.error('Error marking structure mapped:', err);
+      }
+    }
+  };
+
   // Add chord to current instrument
   const handleAddChord = async (chordName: string) => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -554,6 +704,135 @@ export default function AddSongScreen() {
     );
   };
 
+  // Using the transposer completes the "Transpose Ready" mastery node
+  const markTransposePracticed = async () => {
+    if (!songId || getNodeStatus('theory_transpose') === 'completed') return;
+    try {
+      await completeTheoryNode('theory_transpose');
+    } catch (err) {
+      console.error('Error marking transpose practiced:', err);
+    }
+  };
+
+  // Open the fretboard view for a scale chip
+  const handleScalePress = useCallback(async (scale: string) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelectedScale(scale);
+  }, []);
+
+  const handleTransposeChange = (semitones: number) => {
+    setTransposeSemitones(semitones);
+    setCapoFret(null);
+    if (semitones !== 0) markTransposePracticed();
+  };
+
+  const handleSelectCapo = (capo: number | null) => {
+    setCapoFret(capo);
+    if (capo !== null) markTransposePracticed();
+  };
+
+  // Save the transposed key, chords and scales as the song's own
+  const handleApplyTranspose = () => {
+    if (!transposedTheory) return;
+
+    showConfirm(
+      'Change Song Key',
+      `Save this song in ${transposedTheory.key}? Chords, scales, chord chart and arrangement will be transposed.`,
+      async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        const { key, chords, scales } = transposedTheory;
+        const transposedSheet = chordSheet
+          ? serializeChordPro(
+              transposeChordSheet(parseChordPro(chordSheet), transposeSemitones, currentTheory?.key)
+            )
+          : null;
+        const transposedArrangement =
+          arrangement && currentTheory
+            ? transposeArrangement(arrangement, transposeSemitones, currentTheory.key)
+            : arrangement;
+
+        setInstrumentData((prev) => {
+          const current = prev[currentInstrument];
+          if (!current) return prev;
+          return {
+            ...prev,
+            [currentInstrument]: {
+              ...current,
+              theoryData: { ...current.theoryData, key, chords, scales },
+            },
+          };
+        });
+        setChordSheet(transposedSheet);
+        setArrangement(transposedArrangement);
+        setTransposeSemitones(0);
+        setCapoFret(null);
+
+        // Auto-save if editing existing song
+        if (songId) {
+          try {
+            const { error } = await supabase
+              .from('songs')
+              .update({
+                key,
+                chords,
+                scales,
+                chord_sheet: transposedSheet,
+                song_structure: transposedArrangement,
+              })
+              .eq('id', songId);
+
+            if (error) throw error;
+          } catch (err) {
+            console.error('Auto-save transpose error:', err);
+            showError('Error', 'Failed to save the new key');
+          }
+        }
+      },
+      'Save',
+      'Cancel'
+    );
+  };
+
+  // Replace the detected key with one suggested by the chords
+  const handleSelectSuggestedKey = (key: string) => {
+    showConfirm(
+      'Change Song Key',
+      `Use ${key} as this song's key? Chords and scales stay as they are.`,
+      async () => {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+        setInstrumentData((prev) => {
+          const current = prev[currentInstrument];
+          if (!current) return prev;
+          return {
+            ...prev,
+            [currentInstrument]: {
+              ...current,
+              theoryData: { ...current.theoryData, key },
+            },
+          };
+        });
+
+        // Auto-save if editing existing song
+        if (songId) {
+          try {
+            const { error } = await supabase
+              .from('songs')
+              .update({ key })
+              .eq('id', songId);
+
+            if (error) throw error;
+          } catch (err) {
+            console.error('Auto-save key error:', err);
+            showError('Error', 'Failed to save the new key');
+          }
+        }
+      },
+      'Use Key',
+      'Cancel'
+    );
+  };
+
   const tabLoadingStates: Record<AddSongTab, boolean> = {
     Basics: false,
     Theory: isAnalyzing,
@@ -766,32 +1045,71 @@ export default function AddSongScreen() {
                   <TheorySection label="SONG METRICS">
                     <TheoryMetricsRow
                       tuning={instrumentData[currentInstrument]?.theoryData.tuning || 'Standard'}
-                      keyValue={instrumentData[currentInstrument]?.theoryData.key || 'Unknown'}
+                      keyValue={transposedTheory?.key || 'Unknown'}
                       tempo={instrumentData[currentInstrument]?.theoryData.tempo || 'Unknown'}
                       timeSignature={instrumentData[currentInstrument]?.theoryData.timeSignature || '4/4'}
                       songTitle={instrumentData[currentInstrument]?.title}
                       artist={instrumentData[currentInstrument]?.artist}
+                      chords={transposedTheory?.chords}
+                      onTempoPress={songId ? () => router.push(`/metronome?songId=${songId}`) : undefined}
+                      onTuningPress={songId ? () => router.push(`/tuner?songId=${songId}`) : undefined}
                     />
+                    {keyCheck && !keyCheck.agrees && !keyCheckDismissed && !isTransposed && (
+                      <KeyCheckBanner
+                        check={keyCheck}
+                        detectedKey={currentTheory?.key || 'Unknown'}
+                        onSelectKey={handleSelectSuggestedKey}
+                        onDismiss={() => setKeyCheckDismissed(true)}
+                      />
+                    )}
                   </TheorySection>
 
                   {/* HARMONY - Chords and Scales */}
                   <TheorySection label="HARMONY">
+                    <TransposeControl
+                      semitones={transposeSemitones}
+                      transposedKey={transposedTheory?.key || 'Unknown'}
+                      capoSuggestions={capoSuggestions}
+                      activeCapo={capoFret}
+                      onChangeSemitones={handleTransposeChange}
+                      onSelectCapo={handleSelectCapo}
+                      onApply={handleApplyTranspose}
+                    />
+                    <View style={styles.innerDivider} />
                     <TheoryChordSection
-                      label="CHORDS"
-                      chords={instrumentData[currentInstrument]?.theoryData.chords || []}
+                      label={capoFret ? `CHORDS (CAPO ${capoFret})` : 'CHORDS'}
+                      chords={displayedTheory?.chords || []}
                       instrument={currentInstrument.toLowerCase() as 'guitar' | 'bass'}
+                      tuning={instrumentData[currentInstrument]?.theoryData.tuning}
                       chipColor={Colors.vermilion}
                       emptyText="No chords detected"
-                      editable={true}
+                      editable={!isTransposed}
                       onAddChord={() => setAddChordModalVisible(true)}
                       onDeleteChord={handleDeleteChord}
                     />
                     <View style={styles.innerDivider} />
+                    <TheoryProgressionSection
+                      analysis={progressionAnalysis}
+                      onEarTrainingPress={songId ? () => router.push(`/ear-training?songId=${songId}`) : undefined}
+                    />
+                    <View style={styles.innerDivider} />
                     <TheoryChipGroup
                       label="SCALES"
-                      items={instrumentData[currentInstrument]?.theoryData.scales || []}
+                      items={displayedTheory?.scales || []}
                       chipColor={Colors.charcoal}
                       emptyText="No scales detected"
+                      onItemPress={handleScalePress}
+                    />
+                  </TheorySection>
+
+                  {/* STRUCTURE - Arrangement sections */}
+                  <TheorySection label="STRUCTURE">
+                    <ArrangementPanel
+                      arrangement={arrangement}
+                      songKey={currentTheory?.key || 'Unknown'}
+                      semitones={transposeSemitones - (capoFret ?? 0)}
+                      editable={!isTransposed}
+                      onSave={handleArrangementSave}
                     />
                   </TheorySection>
 
@@ -924,14 +1242,62 @@ export default function AddSongScreen() {
               )}
             </ScrollView>
           ) : activeTab === 'Lyrics' ? (
-            <ScrollView style={styles.lyricsContainer} showsVerticalScrollIndicator={false}>
-              {isLoadingLyrics ? (
+            <View style={styles.lyricsContainer}>
+              {/* Lyrics or chord chart */}
+              <View style={styles.lyricsViewRow}>
+                {([
+                  { value: 'lyrics', label: 'LYRICS' },
+                  { value: 'chart', label: 'CHORD CHART' },
+                ] as const).map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.lyricsViewChip,
+                      lyricsView === option.value && styles.lyricsViewChipActive,
+                    ]}
+                    onPress={() => setLyricsView(option.value)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected: lyricsView === option.value }}
+                  >
+                    <Text
+                      style={[
+                        styles.lyricsViewChipText,
+                        lyricsView === option.value && styles.lyricsViewChipTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {lyricsView === 'chart' ? (
+                <ScrollView style={styles.lyricsContainer} showsVerticalScrollIndicator={false}>
+                  <ChordSheetPanel
+                    source={chordSheet}
+                    lyrics={lyrics}
+                    songTitle={songTitle}
+                    artist={artist}
+                    songKey={currentTheory?.key}
+                    songChords={currentTheory?.chords || []}
+                    instrument={currentInstrument === 'Bass' ? 'bass' : 'guitar'}
+                    semitones={transposeSemitones - (capoFret ?? 0)}
+                    shiftLabel={chordSheetShiftLabel}
+                    onSave={handleChordSheetSave}
+                  />
+                </ScrollView>
+              ) : isLoadingLyrics ? (
                 <View style={styles.lyricsLoadingContainer}>
                   <ActivityIndicator size="small" color={Colors.vermilion} />
                   <Text style={styles.lyricsLoadingText}>Searching for lyrics...</Text>
                 </View>
               ) : lyrics ? (
-                <Text style={styles.lyricsText}>{lyrics}</Text>
+                <SyncedLyricsView
+                  lyrics={lyrics}
+                  player={practicePlayer}
+                  onLyricsChange={handleLyricsChange}
+                  onOpenPlayer={() => setPracticePlayerModalVisible(true)}
+                />
               ) : instrumentData[currentInstrument]?.analyzed ? (
                 <View style={styles.noLyricsContainer}>
                   <Text style={styles.noLyricsText}>No lyrics found for this song</Text>
@@ -956,7 +1322,7 @@ export default function AddSongScreen() {
                   </Text>
                 </View>
               )}
-            </ScrollView>
+            </View>
           ) : (
             <Text style={styles.placeholderText}>Unknown tab</Text>
           )}
@@ -1007,11 +1373,27 @@ export default function AddSongScreen() {
         existingChords={instrumentData[currentInstrument]?.theoryData.chords || []}
       />
 
+      {/* Scale Fretboard Modal */}
+      <ScaleFretboardModal
+        visible={selectedScale !== null}
+        onClose={() => setSelectedScale(null)}
+        scaleName={selectedScale || ''}
+        songKey={transposedTheory?.key}
+        tuning={currentTheory?.tuning}
+        instrument={currentInstrument === 'Bass' ? 'bass' : 'guitar'}
+      />
+
       {/* Practice Player Modal */}
       <PracticePlayerModal
         visible={practicePlayerModalVisible}
         onClose={() => setPracticePlayerModalVisible(false)}
         songTitle={songTitle || 'Practice Player'}
+        songId={songId}
+        player={practicePlayer}
+        arrangement={arrangement}
+        songBpm={parseTempo(currentTheory?.tempo)}
+        songTimeSignature={currentTheory?.timeSignature ?? null}
+        onArrangementChange={songId ? handleArrangementSave : undefined}
         initialNotes={practiceNotes}
         onNotesChange={(notes) => setPracticeNotes(notes)}
       />
@@ -1317,12 +1699,28 @@ const styles = StyleSheet.create({
     fontFamily: 'LexendDecaRegular',
     color: Colors.graphite,
   },
-  lyricsText: {
-    fontSize: 14,
-    fontFamily: 'LexendDecaRegular',
-    color: Colors.charcoal,
-    lineHeight: 24,
-    paddingBottom: 20,
+  lyricsViewRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginBottom: 12,
+  },
+  lyricsViewChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.alloy,
+  },
+  lyricsViewChipActive: {
+    backgroundColor: Colors.charcoal,
+  },
+  lyricsViewChipText: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  lyricsViewChipTextActive: {
+    color: Colors.softWhite,
   },
   noLyricsContainer: {
     flex: 1,
@@ -0,0 +1,221 @@
+/**
+ * Ear Training Screen
+ *
+ * Interval, chord-quality and progression quizzes.
+ * Features:
+ * - Intervals (minor 2nd to octave), triads (major/minor/dim/aug) and 7ths (maj7/7/m7)
+ * - Diatonic progressions in the key of a song from the library (?songId=)
+ * - Questions synthesized on the device, replayable before answering
+ * - Quiz time counts toward today's practice log and streak
+ */
+
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { View, StyleSheet, Text, ScrollView } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { PageHeader } from '@/components/ui/PageHeader';
+import { DeviceCasing } from '@/components/ui/DeviceCasing';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
+import { GangSwitch } from '@/components/ui/filters/GangSwitch';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import { EarTrainingQuestionPanel, EarTrainingResultPanel } from '@/components/ui/earTraining';
+import { useEarTrainingAudio, useEarTrainingQuiz } from '@/hooks/earTraining';
+import { useSongsQuery } from '@/hooks/queries/useSongsQuery';
+import { useStreakData } from '@/hooks/useStreakData';
+import { useStyledAlert } from '@/hooks/useStyledAlert';
+import { useSongDetails } from '@/hooks/useSongDetails';
+import { Colors } from '@/constants/Colors';
+import { EAR_TRAINING_CATEGORIES } from '@/constants/EarTrainingConfig';
+import { parseEarTrainingKey } from '@/utils/earTraining';
+import { EAR_TRAINING_SONG_COLUMNS } from '@/utils/songDetails';
+import type { EarTrainingCategory, EarTrainingResult } from '@/types/earTraining';
+
+export default function EarTrainingScreen() {
+  const params = useLocalSearchParams<{ songId?: string }>();
+  const { showError } = useStyledAlert();
+
+  const [category, setCategory] = useState<EarTrainingCategory>(
+    params.songId ? 'progression' : 'interval'
+  );
+  const [songId, setSongId] = useState(params.songId ?? '');
+  const [loggedMinutes, setLoggedMinutes] = useState<number | null>(null);
+
+  const { songs } = useSongsQuery();
+  const { song } = useSongDetails(songId || undefined, EAR_TRAINING_SONG_COLUMNS);
+  const key = useMemo(() => parseEarTrainingKey(song?.key), [song?.key]);
+
+  const songOptions = useMemo(
+    () => [
+      { value: '', label: 'NONE' },
+      ...songs.map((librarySong) => ({ value: librarySong.id, label: librarySong.title })),
+    ],
+    [songs]
+  );
+
+  const quiz = useEarTrainingQuiz(category, key);
+  const audio = useEarTrainingAudio();
+  const { recordPractice } = useStreakData();
+
+  // Show error if playback fails
+  useEffect(() => {
+    if (audio.error) {
+      showError('Playback Error', audio.error);
+    }
+  }, [audio.error, showError]);
+
+  // Play each new question
+  const { play, stop } = audio;
+  useEffect(() => {
+    if (quiz.question) {
+      play(quiz.question.sequence);
+    }
+  }, [quiz.question, play]);
+
+  // Stop playback when leaving the screen
+  useEffect(() => stop, [stop]);
+
+  // Log each finished quiz once, rounded up to whole minutes like song practice
+  const loggedResultRef = useRef<EarTrainingResult | null>(null);
+  const { result } = quiz;
+  useEffect(() => {
+    if (!result || result.durationSeconds <= 0 || loggedResultRef.current === result) return;
+    loggedResultRef.current = result;
+
+    const minutes = Math.ceil(result.durationSeconds / 60);
+    recordPractice(minutes)
+      .then(() => setLoggedMinutes(minutes))
+      .catch(() => {
+        showError('Practice Not Logged', "Could not add this quiz to today's practice.");
+      });
+  }, [result, recordPractice, showError]);
+
+  const { reset, start } = quiz;
+  const handleCategoryChange = useCallback(
+    (newCategory: EarTrainingCategory | null) => {
+      if (!newCategory) return;
+      stop();
+      reset();
+      setCategory(newCategory);
+    },
+    [stop, reset]
+  );
+
+  const handleSongChange = useCallback(
+    (newSongId: string) => {
+      stop();
+      reset();
+      setSongId(newSongId);
+    },
+    [stop, reset]
+  );
+
+  const handleStart = useCallback(() => {
+    setLoggedMinutes(null);
+    start();
+  }, [start]);
+
+  const handleReplay = useCallback(() => {
+    if (quiz.question) {
+      play(quiz.question.sequence);
+    }
+  }, [quiz.question, play]);
+
+  const needsKey = category === 'progression' && !key;
+
+  return (
+    <View style={styles.container}>
+      <PageHeader />
+
+      <DeviceCasing title="EAR TRAINING">
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentWrapper}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Category */}
+          <View style={styles.section}>
+            <GangSwitch
+              label="QUIZ"
+              value={category}
+              options={EAR_TRAINING_CATEGORIES}
+              onChange={handleCategoryChange}
+              allowDeselect={false}
+            />
+          </View>
+
+          {/* Song key for progressions */}
+          {category === 'progression' && (
+            <View style={styles.section}>
+              <FrequencyTuner
+                label="SONG"
+                value={songId}
+                options={songOptions}
+                onChange={handleSongChange}
+                size="compact"
+              />
+              <Text style={styles.hint}>
+                {key
+                  ? `Progressions in ${key.root} ${key.quality}`
+                  : song
+                    ? 'This song has no key yet. Analyze it first'
+                    : 'Pick a song to practice progressions in its key'}
+              </Text>
+            </View>
+          )}
+
+          {quiz.question ? (
+            <EarTrainingQuestionPanel
+              question={quiz.question}
+              questionNumber={quiz.questionNumber}
+              totalQuestions={quiz.totalQuestions}
+              correctCount={quiz.correctCount}
+              selectedAnswer={quiz.selectedAnswer}
+              isPlaying={audio.isPlaying}
+              onReplay={handleReplay}
+              onAnswer={quiz.answer}
+              onNext={quiz.next}
+            />
+          ) : result ? (
+            <EarTrainingResultPanel
+              result={result}
+              loggedMinutes={loggedMinutes}
+              onRestart={handleStart}
+            />
+          ) : (
+            <PrimaryButton
+              label="START QUIZ"
+              onPress={handleStart}
+              disabled={needsKey}
+              accessibilityLabel="Start the ear training quiz"
+              accessibilityHint={`${quiz.totalQuestions} questions; time spent counts as practice`}
+            />
+          )}
+        </ScrollView>
+      </DeviceCasing>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.ink,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentWrapper: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 24,
+  },
+  section: {
+    marginBottom: 20,
+    gap: 8,
+  },
+  hint: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    fontStyle: 'italic',
+  },
+});
@@ -1,11 +1,11 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { StyleSheet, View, Text, FlatList, Pressable, TouchableOpacity, RefreshControl } from 'react-native';
 import { Image } from 'expo-image';
 import { useRouter } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import { Colors } from '@/constants/Colors';
 import { SHADOWS, BEVELS, ICON_SIZES, TOUCH_TARGETS } from '@/constants/Styles';
-import { Plus, Music, Clock, Trash2, Edit2 } from 'lucide-react-native';
+import { Plus, Music, Clock, Trash2, Edit2, FileInput } from 'lucide-react-native';
 import { PrimaryButton } from '@/components/ui/PrimaryButton';
 import { LibraryHeader } from '@/components/ui/LibraryHeader';
 import { PageHeader } from '@/components/ui/PageHeader';
@@ -17,9 +17,11 @@ import { GlassOverlay } from '@/components/ui/GlassOverlay';
 import { InsetShadowOverlay } from '@/components/skia/primitives/InsetShadowOverlay';
 import { SurfaceTextureOverlay } from '@/components/skia/primitives/SurfaceTextureOverlay';
 import { SongCardSkeletonList } from '@/components/ui/skeleton';
+import { SongImportModal } from '@/components/ui/modals';
 import { instrumentOptions, genreOptions } from '@/config/filterOptions';
 import { useSearch } from '@/hooks/useSearch';
 import { useSongsQuery } from '@/hooks/queries/useSongsQuery';
+import { useSongImport } from '@/hooks/useSongImport';
 import { supabase } from '@/utils/supabase/client';
 import { useStyledAlert } from '@/hooks/useStyledAlert';
 import type { Instrument, Genre } from '@/types/filters';
@@ -123,7 +125,7 @@ const SongCard = React.memo(({ song, onDelete, onEdit, onPress }: {
 
 export default function SetListScreen() {
   const router = useRouter();
-  const { showInfo, showError, showConfirm } = useStyledAlert();
+  const { showInfo, showError, showSuccess, showConfirm } = useStyledAlert();
   const [instrument, setInstrument] = useState<Instrument>('Guitar');
   const [genre, setGenre] = useState<Genre>('All');
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -137,6 +139,31 @@ export default function SetListScreen() {
     invalidate,
   } = useSongsQuery();
 
+  // Import songs from chart files, checking for duplicates in the library
+  const {
+    items: importItems,
+    isReading: isReadingImport,
+    isSaving: isSavingImport,
+    error: importError,
+    pickFiles,
+    toggleItem: toggleImportItem,
+    importSelected,
+    clear: clearImport,
+  } = useSongImport(songs);
+
+  // Errors with no preview open (e.g., the picker failed)
+  useEffect(() => {
+    if (importError && importItems.length === 0) showError('Import Failed', importError);
+  }, [importError, importItems.length, showError]);
+
+  const handleConfirmImport = useCallback(async () => {
+    const count = await importSelected(instrument);
+    if (count > 0) {
+      invalidate();
+      showSuccess('Imported', `Added ${count} ${count === 1 ? 'song' : 'songs'} to your library`);
+    }
+  }, [importSelected, instrument, invalidate, showSuccess]);
+
   // Pull-to-refresh handler
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
@@ -330,7 +357,7 @@ export default function SetListScreen() {
           />
         )}
 
-        {/* Hero Action Button - centered at bottom */}
+        {/* Hero Action Button - centered at bottom, with chart file import beside it */}
         <View style={styles.fabContainer}>
           <PrimaryButton
             onPress={() => router.push('/add-song')}
@@ -341,8 +368,29 @@ export default function SetListScreen() {
             accessibilityLabel="Add new song"
             accessibilityHint="Opens the add song screen"
           />
+          <PrimaryButton
+            onPress={pickFiles}
+            icon={<FileInput size={ICON_SIZES.md} color="#FFFFFF" />}
+            label="IMPORT"
+            variant="secondary"
+            size="compact"
+            loading={isReadingImport}
+            accessibilityLabel="Import songs from files"
+            accessibilityHint="Pick ChordPro, text chart or MusicXML files to add"
+          />
         </View>
       </DeviceCasing>
+
+      <SongImportModal
+        visible={importItems.length > 0}
+        items={importItems}
+        instrument={instrument}
+        isSaving={isSavingImport}
+        error={importError}
+        onToggle={toggleImportItem}
+        onImport={handleConfirmImport}
+        onClose={clearImport}
+      />
     </View>
   );
 }
@@ -465,7 +513,10 @@ const styles = StyleSheet.create({
     bottom: 24,
     left: 0,
     right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
     alignItems: 'center',
+    gap: 12,
     zIndex: 100,
   },
 
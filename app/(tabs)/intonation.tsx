@@ -0,0 +1,285 @@
+/**
+ * Intonation Screen
+ *
+ * Guided intonation setup for guitar and bass.
+ * Features:
+ * - Compares each string's fretted 12th-fret note against its 12th-fret harmonic
+ * - Tells which way to move the saddle (forward/back)
+ * - Saves results per instrument with a date to compare setups over time
+ * - Opens with the tuner's instrument and tuning (?instrument=&tuningId=)
+ */
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { View, StyleSheet, Text, TextInput, ScrollView } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { PageHeader } from '@/components/ui/PageHeader';
+import { DeviceCasing } from '@/components/ui/DeviceCasing';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import { IntonationPanel, IntonationResults, IntonationHistory } from '@/components/ui/tuner';
+import { useIntonationCheck, useIntonationChecks, useCustomTunings } from '@/hooks/tuner';
+import { useSettings } from '@/hooks/useSettings';
+import { useStyledAlert } from '@/hooks/useStyledAlert';
+import { Colors } from '@/constants/Colors';
+import {
+  INSTRUMENT_TYPES,
+  getInstrumentName,
+  type InstrumentType,
+} from '@/constants/TunerConfig';
+import { getTuningsForInstrument, getStandardTuning, getReferenceStrings } from '@/utils/tuning';
+import type { IntonationCheck } from '@/types/tuner';
+
+/** Longest instrument name (matches the intonation_checks constraint) */
+const MAX_NAME_LENGTH = 40;
+
+const instrumentOptions: { value: InstrumentType; label: string }[] = INSTRUMENT_TYPES.map(
+  (type) => ({ value: type, label: getInstrumentName(type) })
+);
+
+export default function IntonationScreen() {
+  const params = useLocalSearchParams<{ instrument?: string; tuningId?: string }>();
+  const { settings } = useSettings();
+  const referencePitch = settings.tunerReferencePitch;
+  const { showError, showConfirm, showSuccess } = useStyledAlert();
+
+  const [instrument, setInstrument] = useState<InstrumentType>(
+    INSTRUMENT_TYPES.find((type) => type === params.instrument) ?? 'guitar'
+  );
+  const [tuningId, setTuningId] = useState(params.tuningId ?? 'standard');
+  const [instrumentName, setInstrumentName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const customTunings = useCustomTunings();
+  const tunings = useMemo(
+    () => getTuningsForInstrument(instrument, customTunings.tunings),
+    [instrument, customTunings.tunings]
+  );
+  const tuning = useMemo(
+    () => tunings.find((t) => t.id === tuningId) ?? getStandardTuning(instrument),
+    [tunings, tuningId, instrument]
+  );
+  const strings = useMemo(
+    () => getReferenceStrings(tuning.strings, referencePitch),
+    [tuning.strings, referencePitch]
+  );
+
+  const check = useIntonationCheck(strings, referencePitch);
+  const history = useIntonationChecks();
+
+  // Show error if pitch detection fails
+  useEffect(() => {
+    if (check.error) {
+      showError('Tuner Error', check.error);
+    }
+  }, [check.error, showError]);
+
+  const handleInstrumentChange = useCallback((newInstrument: InstrumentType) => {
+    setInstrument(newInstrument);
+    setTuningId('standard');
+  }, []);
+
+  const { isListening, start, stop } = check;
+  const handleToggle = useCallback(() => {
+    if (isListening) {
+      stop();
+    } else {
+      start();
+    }
+  }, [isListening, start, stop]);
+
+  const { saveCheck, deleteCheck } = history;
+  const handleSave = useCallback(async () => {
+    if (!instrumentName.trim() || check.results.length === 0 || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await saveCheck({
+        instrumentName,
+        instrument,
+        tuningName: tuning.name,
+        referencePitch,
+        results: check.results,
+      });
+      showSuccess('Check Saved', `Intonation saved for ${instrumentName.trim()}.`);
+    } catch (err) {
+      showError('Save Failed', err instanceof Error ? err.message : 'Could not save this check.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [
+    instrumentName,
+    check.results,
+    isSaving,
+    saveCheck,
+    instrument,
+    tuning.name,
+    referencePitch,
+    showSuccess,
+    showError,
+  ]);
+
+  const handleDelete = useCallback(
+    (saved: IntonationCheck) => {
+      showConfirm('Delete Check', `Delete this ${saved.instrumentName} check?`, () => {
+        deleteCheck(saved.id).catch(() => {
+          showError('Delete Failed', 'Could not delete this check.');
+        });
+      }, 'Delete');
+    },
+    [deleteCheck, showConfirm, showError]
+  );
+
+  const canSave = !!instrumentName.trim() && check.results.length > 0 && !isSaving;
+
+  return (
+    <View style={styles.container}>
+      <PageHeader />
+
+      <DeviceCasing title="INTONATION">
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentWrapper}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Instrument & Tuning */}
+          <View style={styles.selectorRow}>
+            <View style={styles.selector}>
+              <FrequencyTuner
+                label="INSTRUMENT"
+                value={instrument}
+                options={instrumentOptions}
+                onChange={handleInstrumentChange}
+                size="compact"
+              />
+            </View>
+            <View style={styles.selector}>
+              <FrequencyTuner
+                label="TUNING"
+                value={tuning.id}
+                options={tunings.map((t) => ({ value: t.id, label: t.name }))}
+                onChange={setTuningId}
+                size="compact"
+              />
+            </View>
+          </View>
+
+          {/* Guided step */}
+          <View style={styles.section}>
+            <IntonationPanel
+              currentString={check.currentString}
+              step={check.step}
+              liveCents={check.liveCents}
+              captureProgress={check.captureProgress}
+              isListening={check.isListening}
+              isReady={check.isReady}
+              onToggle={handleToggle}
+              onSkip={check.skipString}
+              onRestart={check.reset}
+            />
+          </View>
+
+          {/* Results */}
+          <View style={styles.section}>
+            <IntonationResults
+              strings={strings}
+              results={check.results}
+              currentStringNumber={check.currentString?.number ?? null}
+              onRedo={check.redoString}
+            />
+          </View>
+
+          {/* Save */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>SAVE FOR INSTRUMENT</Text>
+            <View style={styles.saveRow}>
+              <TextInput
+                style={styles.input}
+                value={instrumentName}
+                onChangeText={setInstrumentName}
+                placeholder="e.g. Black Strat"
+                placeholderTextColor={Colors.graphite}
+                maxLength={MAX_NAME_LENGTH}
+                returnKeyType="done"
+              />
+              <PrimaryButton
+                label={isSaving ? 'SAVING...' : 'SAVE'}
+                onPress={handleSave}
+                disabled={!canSave}
+                size="compact"
+                accessibilityLabel="Save intonation check"
+              />
+            </View>
+            {!check.isComplete && check.results.length > 0 && (
+              <Text style={styles.hint}>
+                {check.results.length} of {strings.length} strings checked
+              </Text>
+            )}
+          </View>
+
+          {/* History */}
+          <IntonationHistory
+            checks={history.checks}
+            isLoading={history.isLoading}
+            onDelete={handleDelete}
+          />
+        </ScrollView>
+      </DeviceCasing>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.ink,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentWrapper: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 24,
+  },
+  selectorRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  selector: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: 20,
+    gap: 8,
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  input: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 14,
+    color: Colors.softWhite,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  hint: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    fontStyle: 'italic',
+  },
+});
@@ -5,6 +5,16 @@
  * Features:
  * - Tempo control (20-300 BPM)
  * - Tap tempo
+ * - Time signatures (2/4 to 12/8, odd meters like 7/8 as 2+2+3)
+ * - Eighth, triplet and sixteenth subdivisions
+ * - Per-beat accent levels, including silent beats
+ * - Selectable accent and beat click sounds (saved in settings)
+ * - Speed trainer (tempo ramp) and gap click modes
+ * - Tempo progress per song when opened from a song (?songId=)
+ * - Load a song's tempo and time signature
+ * - Jump to or loop a section of the song's arrangement, with its tempo and meter
+ * - Setlist mode (?setlistId=): step through a setlist's songs in order for rehearsal
+ * - Opens the setlists screen to pick a setlist to rehearse
  * - VU meter visualization with beat indicators
  * - Haptic feedback on each beat
  *
@@ -12,19 +22,113 @@
  * See hooks/metronome/useMetronomeAudio.ts for implementation details.
  */
 
-import React, { useEffect } from 'react';
-import { View, StyleSheet, Text } from 'react-native';
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, Text, ScrollView } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { PageHeader } from '@/components/ui/PageHeader';
 import { DeviceCasing } from '@/components/ui/DeviceCasing';
-import { MetronomeControls } from '@/components/ui/metronome';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import {
+  MetronomeControls,
+  MetronomeSectionPanel,
+  MetronomeSongPanel,
+  MetronomeTrainerControls,
+  TempoProgressPanel,
+} from '@/components/ui/metronome';
 import { VUMeterDisplay } from '@/components/ui/practice/VUMeterDisplay';
-import { useMetronome } from '@/hooks/metronome';
+import {
+  useMetronome,
+  useMetronomeSetlist,
+  useTempoProgress,
+} from '@/hooks/metronome';
+import { useSongDetails } from '@/hooks/useSongDetails';
+import { getSetlistStep, toMetronomeSong } from '@/utils/metronome';
+import { METRONOME_SONG_COLUMNS, toMetronomeSongDetails } from '@/utils/songDetails';
+import { MIN_LOGGED_SESSION_SECONDS } from '@/constants/MetronomeConfig';
 import { Colors } from '@/constants/Colors';
 import { useStyledAlert } from '@/hooks/useStyledAlert';
+import type { MetronomeSessionSummary } from '@/types/metronome';
 
 export default function MetronomeScreen() {
-  const metronome = useMetronome();
-  const { showError } = useStyledAlert();
+  const router = useRouter();
+  const { songId, setlistId } = useLocalSearchParams<{ songId?: string; setlistId?: string }>();
+  const { song: linkedSong } = useSongDetails(
+    setlistId ? undefined : songId,
+    METRONOME_SONG_COLUMNS,
+    toMetronomeSongDetails
+  );
+  const { setlist } = useMetronomeSetlist(setlistId);
+  const { showError, showWarning } = useStyledAlert();
+
+  // Setlist mode: the current song is the one at setlistIndex
+  const [setlistIndex, setSetlistIndex] = useState(0);
+  const setlistSongs = useMemo(() => (setlist ? setlist.songs.map(toMetronomeSong) : []), [setlist]);
+  const song = setlist ? setlistSongs[setlistIndex] ?? null : linkedSong;
+  const progressSongId = song?.id ?? songId;
+  const tempoProgress = useTempoProgress(progressSongId);
+
+  // Log sessions started from a song so tempo progress can be tracked
+  const { logSession } = tempoProgress;
+  const handleSessionEnd = useCallback(
+    (summary: MetronomeSessionSummary) => {
+      if (!progressSongId || summary.durationSeconds < MIN_LOGGED_SESSION_SECONDS) return;
+      logSession(summary).catch(() => {
+        showError('Save Failed', 'Could not save this session to the song\'s tempo progress.');
+      });
+    },
+    [progressSongId, logSession, showError]
+  );
+
+  const metronome = useMetronome({ onSessionEnd: handleSessionEnd });
+
+  // Load the current song's tempo and time signature
+  const { loadSong } = metronome;
+  const handleLoadSong = useCallback(() => {
+    if (song && !loadSong(song)) {
+      showWarning('No Tempo', `${song.title} has no tempo or time signature to load.`);
+    }
+  }, [song, loadSong, showWarning]);
+
+  // Jump to or loop a section of the song's arrangement
+  const { setSectionPlayback } = metronome;
+  const songSections = useMemo(() => song?.sections ?? [], [song]);
+  const handleSelectSection = useCallback(
+    (index: number, loop: boolean) => {
+      setSectionPlayback({ sections: songSections, startIndex: index, loop });
+    },
+    [songSections, setSectionPlayback]
+  );
+  const handleClearSections = useCallback(() => setSectionPlayback(null), [setSectionPlayback]);
+
+  // Another song's sections don't apply
+  useEffect(() => {
+    setSectionPlayback(null);
+  }, [song?.id]);
+
+  // Step through the setlist, counting in each song at its own tempo.
+  // The running session is logged against the outgoing song before switching.
+  const { endSession } = metronome;
+  const handleSetlistStep = useCallback(
+    (delta: number) => {
+      const step = getSetlistStep(setlistSongs, setlistIndex, delta);
+      if (!step) return;
+      endSession();
+      setSetlistIndex(step.index);
+      loadSong(step.song);
+    },
+    [setlistIndex, setlistSongs, loadSong, endSession]
+  );
+
+  // Start a newly loaded setlist at its first song
+  const loadedSetlistRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!setlist || loadedSetlistRef.current === setlist.id) return;
+    loadedSetlistRef.current = setlist.id;
+    setSetlistIndex(0);
+    if (setlistSongs.length > 0) {
+      loadSong(setlistSongs[0]);
+    }
+  }, [setlist, setlistSongs, loadSong]);
 
   // Show error if audio initialization fails
   useEffect(() => {
@@ -65,13 +169,51 @@ export default function MetronomeScreen() {
                   metronomeAngle={metronome.pendulumAngle}
                   currentBeat={metronome.currentBeat}
                   isMetronomePlaying={metronome.isPlaying}
+                  beatsPerBar={metronome.timeSignature.beats}
+                  accents={metronome.accents}
                   showTimeDisplay={false}
                   embedded
                 />
               </View>
 
               {/* Controls */}
-              <View style={styles.controlsSection}>
+              <ScrollView
+                style={styles.controlsScroll}
+                contentContainerStyle={styles.controlsSection}
+                showsVerticalScrollIndicator={false}
+              >
+                {/* Song / setlist */}
+                {(song || setlist) && (
+                  <View style={styles.songSection}>
+                    <MetronomeSongPanel
+                      song={song}
+                      onLoad={handleLoadSong}
+                      setlist={
+                        setlist
+                          ? {
+                              name: setlist.name,
+                              index: setlistIndex,
+                              songCount: setlistSongs.length,
+                              previousSong: setlistSongs[setlistIndex - 1] ?? null,
+                              nextSong: setlistSongs[setlistIndex + 1] ?? null,
+                              onPrevious: () => handleSetlistStep(-1),
+                              onNext: () => handleSetlistStep(1),
+                            }
+                          : undefined
+                      }
+                    />
+                    {songSections.length > 0 && (
+                      <MetronomeSectionPanel
+                        sections={songSections}
+                        playback={metronome.sectionPlayback}
+                        position={metronome.sectionPosition}
+                        onSelect={handleSelectSection}
+                        onClear={handleClearSections}
+                      />
+                    )}
+                  </View>
+                )}
+
                 <MetronomeControls
                   bpm={metronome.bpm}
                   isPlaying={metronome.isPlaying}
@@ -80,8 +222,50 @@ export default function MetronomeScreen() {
                   onTap={metronome.handleTapTempo}
                   onToggle={metronome.toggle}
                   tapCount={metronome.tapCount}
+                  currentBeat={metronome.currentBeat}
+                  timeSignature={metronome.timeSignature}
+                  subdivision={metronome.subdivision}
+                  accents={metronome.accents}
+                  onTimeSignatureChange={metronome.setTimeSignature}
+                  onSubdivisionChange={metronome.setSubdivision}
+                  onCycleAccent={metronome.cycleAccent}
+                  clickSounds={metronome.clickSounds}
+                  unavailableClickSounds={metronome.unavailableClickSounds}
+                  onClickSoundChange={metronome.setClickSound}
                 />
-              </View>
+
+                {/* Practice modes */}
+                <View style={styles.trainerSection}>
+                  <MetronomeTrainerControls
+                    trainer={metronome.trainer}
+                    gapClick={metronome.gapClick}
+                    songBpm={song?.tempoBpm ?? null}
+                    bpm={metronome.bpm}
+                    onTrainerChange={metronome.setTrainer}
+                    onGapClickChange={metronome.setGapClick}
+                    disabled={!metronome.isAudioReady}
+                  />
+                  {song && (
+                    <TempoProgressPanel
+                      song={song}
+                      sessions={tempoProgress.sessions}
+                      bestBpm={tempoProgress.bestBpm}
+                    />
+                  )}
+                </View>
+
+                {/* Setlist rehearsal */}
+                <View style={styles.setlistsSection}>
+                  <PrimaryButton
+                    label="SETLISTS"
+                    onPress={() => router.push('/setlists')}
+                    variant="secondary"
+                    size="compact"
+                    accessibilityLabel="Open setlists"
+                    accessibilityHint="Pick a band setlist to rehearse song by song"
+                  />
+                </View>
+              </ScrollView>
             </>
           )}
         </View>
@@ -129,8 +313,25 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 16,
   },
-  controlsSection: {
+  controlsScroll: {
     flex: 1,
+  },
+  controlsSection: {
+    flexGrow: 1,
     justifyContent: 'center',
   },
+  songSection: {
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  trainerSection: {
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingTop: 24,
+  },
+  setlistsSection: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
 });
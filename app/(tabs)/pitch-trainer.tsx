@@ -0,0 +1,382 @@
+/**
+ * Pitch Trainer Screen
+ *
+ * Ear and pitch-accuracy training for singers and fretless bass.
+ * Features:
+ * - Plays a target note, or steps through the song's scale (?songId=)
+ * - Scores how closely and how steadily the note is held within a cent window
+ * - Scrolling pitch trace against the target and window
+ * - Saves each session's scores to track progress per instrument
+ */
+
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { View, StyleSheet, Text, ScrollView } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { PageHeader } from '@/components/ui/PageHeader';
+import { DeviceCasing } from '@/components/ui/DeviceCasing';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
+import { GangSwitch } from '@/components/ui/filters/GangSwitch';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import { PitchTrace, PitchTrainerPanel, PitchTrainerHistory } from '@/components/ui/tuner';
+import { usePitchTrainer, usePitchTrainingSessions } from '@/hooks/tuner';
+import { useSongDetails } from '@/hooks/useSongDetails';
+import { useSettings } from '@/hooks/useSettings';
+import { useStyledAlert } from '@/hooks/useStyledAlert';
+import { Colors } from '@/constants/Colors';
+import { PITCH_TRAINER_CONFIG, PITCH_TRAINER_RANGES } from '@/constants/TunerConfig';
+import { getTrainerNotes, getScaleTrainerNotes, getSessionAverage } from '@/utils/tuning';
+import { TUNER_SONG_COLUMNS, toTunerSong } from '@/utils/songDetails';
+import type { FilterOption } from '@/types/filters';
+import type { PitchTrainingSession, TrainerInstrument, TrainerTargetSource } from '@/types/tuner';
+
+const TRACE_SIZE = { width: 300, height: 120 };
+
+const instrumentOptions: FilterOption<TrainerInstrument>[] = (
+  Object.keys(PITCH_TRAINER_RANGES) as TrainerInstrument[]
+).map((type) => ({ value: type, label: PITCH_TRAINER_RANGES[type].label }));
+
+const sourceOptions: FilterOption<TrainerTargetSource>[] = [
+  { value: 'note', label: 'NOTE' },
+  { value: 'scale', label: 'SCALE' },
+];
+
+const windowOptions: FilterOption<string>[] = PITCH_TRAINER_CONFIG.windowOptions.map((cents) => ({
+  value: String(cents),
+  label: `±${cents}¢`,
+}));
+
+export default function PitchTrainerScreen() {
+  const { songId } = useLocalSearchParams<{ songId?: string }>();
+  const { song } = useSongDetails(songId, TUNER_SONG_COLUMNS, toTunerSong);
+  const { settings } = useSettings();
+  const referencePitch = settings.tunerReferencePitch;
+  const { showError, showConfirm, showSuccess } = useStyledAlert();
+
+  const [instrument, setInstrument] = useState<TrainerInstrument>('vocals');
+  const [source, setSource] = useState<TrainerTargetSource>('note');
+  const [noteMidi, setNoteMidi] = useState<number | null>(null);
+  const [scaleName, setScaleName] = useState<string | null>(null);
+  const [scaleIndex, setScaleIndex] = useState(0);
+  const [windowCents, setWindowCents] = useState(PITCH_TRAINER_CONFIG.defaultWindowCents);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Bass songs start on the fretless range
+  useEffect(() => {
+    if (song?.instrument === 'Bass') {
+      setInstrument('bass');
+    }
+  }, [song?.instrument]);
+
+  const songScales = useMemo(() => song?.scales ?? [], [song?.scales]);
+  const activeScale = scaleName ?? songScales[0] ?? null;
+
+  const notes = useMemo(
+    () => getTrainerNotes(instrument, referencePitch),
+    [instrument, referencePitch]
+  );
+  const scaleNotes = useMemo(
+    () =>
+      activeScale
+        ? getScaleTrainerNotes(activeScale, song?.key ?? null, instrument, referencePitch)
+        : [],
+    [activeScale, song?.key, instrument, referencePitch]
+  );
+
+  const target = useMemo(() => {
+    if (source === 'scale') {
+      return scaleNotes.length > 0 ? scaleNotes[scaleIndex % scaleNotes.length] : null;
+    }
+    return notes.find((note) => note.midi === noteMidi) ?? notes[Math.floor(notes.length / 2)];
+  }, [source, scaleNotes, scaleIndex, notes, noteMidi]);
+
+  const trainer = usePitchTrainer(target, instrument, windowCents, referencePitch);
+  const history = usePitchTrainingSessions();
+
+  // Show error if pitch detection or the reference tone fails
+  useEffect(() => {
+    if (trainer.error) {
+      showError('Trainer Error', trainer.error);
+    }
+  }, [trainer.error, showError]);
+
+  const handleInstrumentChange = useCallback((newInstrument: TrainerInstrument | null) => {
+    if (!newInstrument) return;
+    setInstrument(newInstrument);
+    setNoteMidi(null);
+    setScaleIndex(0);
+  }, []);
+
+  const handleSourceChange = useCallback((newSource: TrainerTargetSource | null) => {
+    if (newSource) setSource(newSource);
+  }, []);
+
+  const handleScaleChange = useCallback((newScale: string) => {
+    setScaleName(newScale);
+    setScaleIndex(0);
+  }, []);
+
+  const handleWindowChange = useCallback((value: string | null) => {
+    if (value) setWindowCents(Number(value));
+  }, []);
+
+  // Scale practice moves to the next scale note, then starts once the new target is in place
+  const pendingStartRef = useRef(false);
+  const { phase, startAttempt } = trainer;
+  const handleStart = useCallback(() => {
+    if (source === 'scale' && phase === 'scored' && scaleNotes.length > 1) {
+      pendingStartRef.current = true;
+      setScaleIndex((index) => (index + 1) % scaleNotes.length);
+      return;
+    }
+    startAttempt();
+  }, [source, phase, scaleNotes.length, startAttempt]);
+
+  useEffect(() => {
+    if (!pendingStartRef.current) return;
+    pendingStartRef.current = false;
+    startAttempt();
+  }, [target, startAttempt]);
+
+  const { saveSession, deleteSession } = history;
+  const { attempts, resetSession } = trainer;
+  const handleSave = useCallback(async () => {
+    if (attempts.length === 0 || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await saveSession({
+        instrument,
+        windowCents,
+        referencePitch,
+        songTitle: song?.title ?? null,
+        attempts,
+      });
+      resetSession();
+      showSuccess('Session Saved', `Average score ${saved.averageScore} over ${attempts.length} tries.`);
+    } catch (err) {
+      showError('Save Failed', err instanceof Error ? err.message : 'Could not save this session.');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [
+    attempts,
+    isSaving,
+    saveSession,
+    instrument,
+    windowCents,
+    referencePitch,
+    song?.title,
+    resetSession,
+    showSuccess,
+    showError,
+  ]);
+
+  const handleDelete = useCallback(
+    (saved: PitchTrainingSession) => {
+      showConfirm('Delete Session', 'Delete this training session?', () => {
+        deleteSession(saved.id).catch(() => {
+          showError('Delete Failed', 'Could not delete this session.');
+        });
+      }, 'Delete');
+    },
+    [deleteSession, showConfirm, showError]
+  );
+
+  return (
+    <View style={styles.container}>
+      <PageHeader />
+
+      <DeviceCasing title="PITCH TRAINER">
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.contentWrapper}
+          showsVerticalScrollIndicator={false}
+        >
+          {song && (
+            <Text style={styles.songLabel} numberOfLines={1}>
+              {song.title}
+              {song.key ? ` · ${song.key}` : ''}
+            </Text>
+          )}
+
+          {/* Instrument & target source */}
+          <View style={styles.selectorRow}>
+            <View style={styles.selector}>
+              <GangSwitch
+                label="INSTRUMENT"
+                value={instrument}
+                options={instrumentOptions}
+                onChange={handleInstrumentChange}
+                allowDeselect={false}
+              />
+            </View>
+            <View style={styles.selector}>
+              <GangSwitch
+                label="TARGET"
+                value={source}
+                options={sourceOptions}
+                onChange={handleSourceChange}
+                disabled={songScales.length === 0}
+                allowDeselect={false}
+              />
+            </View>
+          </View>
+
+          {/* Target note */}
+          <View style={styles.selectorRow}>
+            {source === 'scale' ? (
+              <>
+                <View style={styles.selector}>
+                  <FrequencyTuner
+                    label="SCALE"
+                    value={activeScale ?? ''}
+                    options={songScales.map((scale) => ({ value: scale, label: scale }))}
+                    onChange={handleScaleChange}
+                    size="compact"
+                  />
+                </View>
+                <View style={styles.selector}>
+                  <FrequencyTuner
+                    label="NOTE"
+                    value={String(scaleNotes.length > 0 ? scaleIndex % scaleNotes.length : 0)}
+                    options={scaleNotes.map((note, i) => ({
+                      value: String(i),
+                      label: `${note.note}${note.octave}`,
+                    }))}
+                    onChange={(value) => setScaleIndex(Number(value))}
+                    size="compact"
+                  />
+                </View>
+              </>
+            ) : (
+              <View style={styles.selector}>
+                <FrequencyTuner
+                  label="NOTE"
+                  value={String(target?.midi ?? '')}
+                  options={notes.map((note) => ({
+                    value: String(note.midi),
+                    label: `${note.note}${note.octave}`,
+                  }))}
+                  onChange={(value) => setNoteMidi(Number(value))}
+                  size="compact"
+                />
+              </View>
+            )}
+          </View>
+
+          {source === 'scale' && scaleNotes.length === 0 && (
+            <Text style={styles.hint}>
+              No notes of this scale fit the {PITCH_TRAINER_RANGES[instrument].label.toLowerCase()} range
+            </Text>
+          )}
+
+          {/* Cent window */}
+          <View style={styles.section}>
+            <GangSwitch
+              label="WINDOW"
+              value={String(windowCents)}
+              options={windowOptions}
+              onChange={handleWindowChange}
+              allowDeselect={false}
+            />
+          </View>
+
+          {/* Pitch trace */}
+          <View style={styles.traceWindow}>
+            <PitchTrace
+              trace={trainer.trace}
+              windowCents={windowCents}
+              isListening={trainer.isListening}
+              {...TRACE_SIZE}
+            />
+          </View>
+
+          {/* Attempt */}
+          <View style={styles.section}>
+            <PitchTrainerPanel
+              target={target}
+              phase={trainer.phase}
+              holdProgress={trainer.holdProgress}
+              lastAttempt={trainer.lastAttempt}
+              attemptCount={attempts.length}
+              sessionAverage={getSessionAverage(attempts)}
+              isReady={trainer.isReady}
+              isListening={trainer.isListening}
+              onStart={handleStart}
+              onPlayTone={trainer.playTone}
+              onStop={trainer.stop}
+            />
+          </View>
+
+          {/* Save */}
+          <View style={styles.section}>
+            <PrimaryButton
+              label={isSaving ? 'SAVING...' : 'SAVE SESSION'}
+              onPress={handleSave}
+              disabled={attempts.length === 0 || isSaving}
+              variant="secondary"
+              size="compact"
+              accessibilityLabel="Save training session"
+            />
+          </View>
+
+          {/* History */}
+          <PitchTrainerHistory
+            sessions={history.sessions}
+            instrument={instrument}
+            isLoading={history.isLoading}
+            onDelete={handleDelete}
+          />
+        </ScrollView>
+      </DeviceCasing>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.ink,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  contentWrapper: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 24,
+  },
+  songLabel: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.warmGray,
+    letterSpacing: 1,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  selectorRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  selector: {
+    flex: 1,
+  },
+  section: {
+    marginBottom: 20,
+    gap: 8,
+  },
+  traceWindow: {
+    alignSelf: 'center',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 20,
+  },
+  hint: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    fontStyle: 'italic',
+    marginBottom: 20,
+  },
+});
@@ -1,15 +1,94 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+/**
+ * Setlists Screen
+ *
+ * Setlists of the user's bands, grouped by band.
+ * Features:
+ * - Expand a band to see its setlists
+ * - Rehearse a setlist: opens the metronome stepping through its songs in order
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { useRouter } from 'expo-router';
 import { PageHeader } from '@/components/ui/PageHeader';
+import { BandCard, SetlistCard } from '@/components/ui/bands';
 import { Colors } from '@/constants/Colors';
+import { useBands } from '@/hooks/useBands';
+import { useSetlists } from '@/hooks/useSetlists';
+import { getSetlistRehearsalRoute } from '@/utils/metronome';
+
+interface BandSetlistsProps {
+  bandId: string;
+}
+
+/**
+ * Setlists of one band, each with a rehearse action
+ */
+const BandSetlists: React.FC<BandSetlistsProps> = ({ bandId }) => {
+  const router = useRouter();
+  const { setlists, isLoading, error } = useSetlists(bandId);
+
+  if (isLoading) {
+    return <Text style={styles.message}>Loading setlists...</Text>;
+  }
+
+  if (error) {
+    return <Text style={styles.message}>{error}</Text>;
+  }
+
+  if (setlists.length === 0) {
+    return <Text style={styles.message}>No setlists yet</Text>;
+  }
+
+  return (
+    <>
+      {setlists.map((setlist) => {
+        const rehearse = () => router.push(getSetlistRehearsalRoute(setlist.id));
+        return (
+          <SetlistCard
+            key={setlist.id}
+            setlist={setlist}
+            onPress={rehearse}
+            onRehearse={rehearse}
+            compact
+          />
+        );
+      })}
+    </>
+  );
+};
 
 export default function SetlistsScreen() {
+  const { bands, isLoading, error } = useBands();
+  const [expandedBandId, setExpandedBandId] = useState<string | null>(null);
+
+  const toggleBand = (bandId: string) => {
+    setExpandedBandId((current) => (current === bandId ? null : bandId));
+  };
+
   return (
     <View style={styles.container}>
       <PageHeader />
-      <View style={styles.content}>
-        <Text style={styles.placeholder}>Setlists coming soon</Text>
-      </View>
+      {isLoading || error || bands.length === 0 ? (
+        <View style={styles.content}>
+          <Text style={styles.placeholder}>
+            {isLoading ? 'Loading bands...' : error || 'Join a band to see its setlists'}
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.list} showsVerticalScrollIndicator={false}>
+          {bands.map((band) => (
+            <BandCard
+              key={band.id}
+              band={band}
+              onPress={() => toggleBand(band.id)}
+              expanded={expandedBandId === band.id}
+            >
+              {expandedBandId === band.id && <BandSetlists bandId={band.id} />}
+            </BandCard>
+          ))}
+        </ScrollView>
+      )}
     </View>
   );
 }
@@ -29,4 +108,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: Colors.graphite,
   },
+  list: {
+    padding: 16,
+  },
+  message: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.graphite,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+  },
 });
@@ -3,27 +3,116 @@
  *
  * Professional-grade chromatic tuner for guitar and bass.
  * Features:
- * - Needle-style meter with Kalman-filtered smoothing
+ * - Needle-style meter or strobe (remembered between sessions) with Kalman-filtered smoothing
+ * - Strum check: every open string sharp/flat at once from the spectrum of a strummed chord
+ * - Chord recognition: names the strummed chord with its diagram, and practices the song's chords
  * - Multi-rate processing for bass frequencies (<100Hz)
- * - Guitar (6-string) and Bass (4/5-string) support
- * - Standard tuning reference
+ * - Guitar (6/7-string) and Bass (4/5/6-string) support
+ * - Tuning library (drop, open and down-tuned) plus custom tunings saved per account
+ * - Preselects the song's tuning when opened from a song (?songId=)
+ * - Calibrated A4 reference (415-466 Hz) with auto-calibration from a sustained A
+ * - Opens the guided intonation check with the current instrument and tuning
+ * - Opens the pitch trainer (with the song, so its scale can be practiced) and ear training
  *
  * Uses pitchy library for autocorrelation-based pitch detection.
  * iOS uses .measurement mode to disable high-pass filter for bass.
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useCallback } from 'react';
 import { View, StyleSheet, Text, ScrollView } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { PageHeader } from '@/components/ui/PageHeader';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
 import { DeviceCasing } from '@/components/ui/DeviceCasing';
-import { TunerDisplay, TunerControls } from '@/components/ui/tuner';
-import { useTuner } from '@/hooks/tuner';
+import {
+  TunerDisplay,
+  TunerControls,
+  TunerReferenceControls,
+  StrumCheckDisplay,
+  ChordRecognitionDisplay,
+  ChordPracticePanel,
+} from '@/components/ui/tuner';
+import { useTuner, useChordPractice } from '@/hooks/tuner';
+import { useSongDetails } from '@/hooks/useSongDetails';
 import { useStyledAlert } from '@/hooks/useStyledAlert';
 import { Colors } from '@/constants/Colors';
+import { getSongTunerInstrument, getChordDiagramInstrument } from '@/utils/tuning';
+import { TUNER_SONG_COLUMNS, toTunerSong } from '@/utils/songDetails';
+import type { StringConfig, TunerTuning } from '@/constants/TunerConfig';
 
 export default function TunerScreen() {
-  const tuner = useTuner();
-  const { showError } = useStyledAlert();
+  const { songId } = useLocalSearchParams<{ songId?: string }>();
+  const { song } = useSongDetails(songId, TUNER_SONG_COLUMNS, toTunerSong);
+  const tuner = useTuner({
+    songTuning: song?.tuning,
+    songInstrument: song ? getSongTunerInstrument(song.instrument) : undefined,
+  });
+  const practice = useChordPractice(song?.chords, tuner.chroma, tuner.isListening);
+  const { showError, showConfirm, showWarning } = useStyledAlert();
+  const router = useRouter();
+  const diagramInstrument = getChordDiagramInstrument(tuner.state.instrument);
+
+  // Save a custom tuning; rethrow so the editor stays open on failure
+  const { saveCustomTuning, deleteCustomTuning } = tuner;
+  const handleSaveCustomTuning = useCallback(
+    async (name: string, strings: StringConfig[]) => {
+      try {
+        await saveCustomTuning(name, strings);
+      } catch (err) {
+        showError('Save Failed', err instanceof Error ? err.message : 'Could not save this tuning.');
+        throw err;
+      }
+    },
+    [saveCustomTuning, showError]
+  );
+
+  const handleDeleteCustomTuning = useCallback(
+    (tuning: TunerTuning) => {
+      showConfirm('Delete Tuning', `Delete your "${tuning.name}" tuning?`, () => {
+        deleteCustomTuning(tuning.id).catch(() => {
+          showError('Delete Failed', 'Could not delete this tuning.');
+        });
+      }, 'Delete');
+    },
+    [deleteCustomTuning, showConfirm, showError]
+  );
+
+  // Intonation check uses its own pitch detection, so release the tuner's first
+  const { stop } = tuner;
+  const instrument = tuner.state.instrument;
+  const tuningId = tuner.tuning.id;
+  const handleOpenIntonation = useCallback(() => {
+    stop();
+    router.push(`/intonation?instrument=${instrument}&tuningId=${encodeURIComponent(tuningId)}`);
+  }, [stop, router, instrument, tuningId]);
+
+  // Pitch trainer also uses its own pitch detection
+  const handleOpenPitchTrainer = useCallback(() => {
+    stop();
+    router.push(songId ? `/pitch-trainer?songId=${encodeURIComponent(songId)}` : '/pitch-trainer');
+  }, [stop, router, songId]);
+
+  const handleOpenEarTraining = useCallback(() => {
+    stop();
+    router.push(songId ? `/ear-training?songId=${encodeURIComponent(songId)}` : '/ear-training');
+  }, [stop, router, songId]);
+
+  // Chord practice listens through the tuner's chord mode
+  const { isListening, start } = tuner;
+  const { start: startPractice, reset: resetPractice } = practice;
+  const handleStartPractice = useCallback(async () => {
+    if (!isListening) {
+      await start();
+    }
+    startPractice();
+  }, [isListening, start, startPractice]);
+
+  // Leaving chord mode ends practice
+  useEffect(() => {
+    if (tuner.mode !== 'chord') {
+      resetPractice();
+    }
+  }, [tuner.mode, resetPractice]);
 
   // Show error if tuner initialization fails
   useEffect(() => {
@@ -32,6 +121,13 @@ export default function TunerScreen() {
     }
   }, [tuner.state.error, showError]);
 
+  // Tell the user when auto-calibration didn't hear a steady A
+  useEffect(() => {
+    if (tuner.calibrationError) {
+      showWarning('Calibration', tuner.calibrationError);
+    }
+  }, [tuner.calibrationError, showWarning]);
+
   return (
     <View style={styles.container}>
       <PageHeader />
@@ -68,20 +164,86 @@ export default function TunerScreen() {
             <>
               {/* Tuner Display */}
               <View style={styles.displaySection}>
-                <TunerDisplay
-                  pitch={tuner.state.smoothedPitch}
-                  targetString={tuner.state.targetString}
-                  isInTune={tuner.state.isInTune}
-                  isListening={tuner.isListening}
-                  embedded
+                {tuner.mode === 'strum' ? (
+                  <StrumCheckDisplay
+                    strings={tuner.strings}
+                    results={tuner.strumResults}
+                    isListening={tuner.isListening}
+                    embedded
+                  />
+                ) : tuner.mode === 'chord' ? (
+                  <ChordRecognitionDisplay
+                    match={tuner.chordMatch}
+                    chroma={tuner.chroma}
+                    instrument={diagramInstrument}
+                    isListening={tuner.isListening}
+                    embedded
+                  />
+                ) : (
+                  <TunerDisplay
+                    pitch={tuner.state.smoothedPitch}
+                    targetString={tuner.state.targetString}
+                    isInTune={tuner.state.isInTune}
+                    isListening={tuner.isListening}
+                    referencePitch={tuner.referencePitch}
+                    mode={tuner.displayMode}
+                    embedded
+                  />
+                )}
+              </View>
+
+              {/* Song the tuner was opened from */}
+              {song && (
+                <Text style={styles.songText} numberOfLines={1}>
+                  {song.title} · {song.tuning || 'Standard'}
+                </Text>
+              )}
+
+              {/* Chord practice from the song's chords */}
+              {song && tuner.mode === 'chord' && (
+                <View style={styles.practiceSection}>
+                  <ChordPracticePanel
+                    songTitle={song.title}
+                    chords={practice.chords}
+                    currentChord={practice.currentChord}
+                    results={practice.results}
+                    isComplete={practice.isComplete}
+                    holdProgress={practice.holdProgress}
+                    secondsLeft={practice.secondsLeft}
+                    instrument={diagramInstrument}
+                    onStart={handleStartPractice}
+                    onSkip={practice.skip}
+                    onStop={resetPractice}
+                  />
+                </View>
+              )}
+
+              {/* Reference pitch */}
+              <View style={styles.referenceSection}>
+                <TunerReferenceControls
+                  referencePitch={tuner.referencePitch}
+                  onReferencePitchChange={tuner.setReferencePitch}
+                  isCalibrating={tuner.isCalibrating}
+                  onCalibrate={tuner.startCalibration}
+                  onCancelCalibration={tuner.cancelCalibration}
+                  disabled={!tuner.isReady}
                 />
               </View>
 
               {/* Tuner Controls */}
               <View style={styles.controlsSection}>
                 <TunerControls
+                  displayMode={tuner.displayMode}
+                  onDisplayModeChange={tuner.setDisplayMode}
+                  mode={tuner.mode}
+                  onModeChange={tuner.setMode}
                   instrument={tuner.state.instrument}
                   onInstrumentChange={tuner.setInstrument}
+                  tuning={tuner.tuning}
+                  tunings={tuner.tunings}
+                  onTuningChange={tuner.setTuning}
+                  onSaveCustomTuning={handleSaveCustomTuning}
+                  onDeleteCustomTuning={handleDeleteCustomTuning}
                   strings={tuner.strings}
                   targetString={tuner.state.targetString}
                   isListening={tuner.isListening}
@@ -91,6 +253,34 @@ export default function TunerScreen() {
                   onRequestPermission={tuner.requestPermission}
                 />
               </View>
+
+              {/* Intonation check */}
+              <View style={styles.intonationSection}>
+                <PrimaryButton
+                  label="INTONATION CHECK"
+                  onPress={handleOpenIntonation}
+                  variant="secondary"
+                  size="compact"
+                  accessibilityLabel="Open intonation check"
+                  accessibilityHint="Compares 12th-fret harmonics and fretted notes for each string"
+                />
+                <PrimaryButton
+                  label="PITCH TRAINER"
+                  onPress={handleOpenPitchTrainer}
+                  variant="secondary"
+                  size="compact"
+                  accessibilityLabel="Open pitch trainer"
+                  accessibilityHint="Scores how closely and steadily you sing or play a target note"
+                />
+                <PrimaryButton
+                  label="EAR TRAINING"
+                  onPress={handleOpenEarTraining}
+                  variant="secondary"
+                  size="compact"
+                  accessibilityLabel="Open ear training"
+                  accessibilityHint="Quizzes intervals, chord qualities and progressions"
+                />
+              </View>
             </>
           )}
         </ScrollView>
@@ -149,7 +339,26 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 24,
   },
+  songText: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 1,
+    textAlign: 'center',
+    marginTop: -12,
+    marginBottom: 16,
+  },
+  practiceSection: {
+    marginBottom: 20,
+  },
+  referenceSection: {
+    marginBottom: 20,
+  },
   controlsSection: {
     flex: 1,
   },
+  intonationSection: {
+    marginTop: 16,
+    gap: 10,
+  },
 });
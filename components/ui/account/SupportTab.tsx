@@ -1,11 +1,22 @@
 import React from 'react';
 import { View, Text, StyleSheet, Pressable, Linking } from 'react-native';
 import { Colors } from '@/constants/Colors';
-import { HelpCircle, Shield, FileText, Info, LogOut, ChevronRight, Trash2 } from 'lucide-react-native';
+import {
+  HelpCircle,
+  Shield,
+  FileText,
+  Info,
+  LogOut,
+  ChevronRight,
+  Trash2,
+  Download,
+  Upload,
+} from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Constants from 'expo-constants';
 import { useSignOut } from '@/hooks/useSignOut';
 import { useAccountDeletion } from '@/hooks/useAccountDeletion';
+import { useLibraryBackup } from '@/hooks/useLibraryBackup';
 
 interface SupportRowProps {
   icon: React.ReactNode;
@@ -42,6 +53,7 @@ const SupportRow: React.FC<SupportRowProps> = ({ icon, label, onPress, isLast })
 export const SupportTab: React.FC = () => {
   const { handleSignOut } = useSignOut();
   const { deleteAccount, isDeleting } = useAccountDeletion();
+  const { exportLibrary, isExporting, restoreLibrary, isRestoring } = useLibraryBackup();
   const appVersion = Constants.expoConfig?.version || '1.0.0';
 
   const handleHelpPress = () => {
@@ -57,6 +69,16 @@ export const SupportTab: React.FC = () => {
     Linking.openURL('https://www.songstreak.app/terms');
   };
 
+  const handleExportPress = () => {
+    if (isExporting || isRestoring) return;
+    exportLibrary();
+  };
+
+  const handleRestorePress = () => {
+    if (isExporting || isRestoring) return;
+    restoreLibrary();
+  };
+
   const handleDeleteAccountPress = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     deleteAccount();
@@ -102,6 +124,24 @@ export const SupportTab: React.FC = () => {
         </View>
       </View>
 
+      {/* Library Backup */}
+      <View style={styles.section}>
+        <Text style={styles.sectionLabel}>YOUR DATA</Text>
+        <View style={styles.card}>
+          <SupportRow
+            icon={<Download size={20} color={Colors.charcoal} />}
+            label={isExporting ? 'Exporting...' : 'Export Library'}
+            onPress={handleExportPress}
+          />
+          <SupportRow
+            icon={<Upload size={20} color={Colors.charcoal} />}
+            label={isRestoring ? 'Restoring...' : 'Restore From Backup'}
+            onPress={handleRestorePress}
+            isLast
+          />
+        </View>
+      </View>
+
       {/* Danger Zone */}
       <View style={styles.section}>
         <Text style={[styles.sectionLabel, styles.dangerLabel]}>DANGER ZONE</Text>
@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, StyleSheet, Pressable } from 'react-native';
-import { ListMusic, MapPin, Calendar, ChevronRight } from 'lucide-react-native';
+import { ListMusic, MapPin, Calendar, ChevronRight, Play } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { Colors } from '@/constants/Colors';
 import { BORDER_RADIUS } from '@/constants/Styles';
@@ -9,17 +9,21 @@ import { SetlistWithSongs } from '@/types/band';
 interface SetlistCardProps {
   setlist: SetlistWithSongs;
   onPress: () => void;
+  /** Shows a rehearse button that opens the setlist in the metronome */
+  onRehearse?: () => void;
   compact?: boolean;
 }
 
 /**
  * Card component for displaying a setlist
  * Can be shown in compact mode when nested under a BandCard
+ * Shows a rehearse button when onRehearse is given
  * Memoized to prevent unnecessary re-renders in lists
  */
 export const SetlistCard: React.FC<SetlistCardProps> = React.memo(({
   setlist,
   onPress,
+  onRehearse,
   compact = false,
 }) => {
 
@@ -28,6 +32,23 @@ export const SetlistCard: React.FC<SetlistCardProps> = React.memo(({
     onPress();
   };
 
+  const handleRehearsePress = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onRehearse?.();
+  };
+
+  const rehearseButton = onRehearse && (
+    <Pressable
+      onPress={handleRehearsePress}
+      style={({ pressed }) => [styles.rehearseButton, pressed && styles.rehearseButtonPressed]}
+      accessibilityRole="button"
+      accessibilityLabel={`Rehearse ${setlist.name}`}
+    >
+      <Play size={10} color={Colors.softWhite} fill={Colors.softWhite} />
+      <Text style={styles.rehearseText}>REHEARSE</Text>
+    </Pressable>
+  );
+
   // Format gig date if available
   const formatDate = (dateStr: string | null) => {
     if (!dateStr) return null;
@@ -55,7 +76,7 @@ export const SetlistCard: React.FC<SetlistCardProps> = React.memo(({
           )}
         </View>
         <Text style={styles.songCount}>{setlist.song_count} songs</Text>
-        <ChevronRight size={16} color={Colors.graphite} />
+        {rehearseButton || <ChevronRight size={16} color={Colors.graphite} />}
       </Pressable>
     );
   }
@@ -90,10 +111,12 @@ export const SetlistCard: React.FC<SetlistCardProps> = React.memo(({
           </Text>
         </View>
 
-        {/* Chevron */}
-        <View style={styles.chevronContainer}>
-          <ChevronRight size={20} color={Colors.graphite} />
-        </View>
+        {/* Rehearse / Chevron */}
+        {rehearseButton || (
+          <View style={styles.chevronContainer}>
+            <ChevronRight size={20} color={Colors.graphite} />
+          </View>
+        )}
       </View>
     </Pressable>
   );
@@ -163,6 +186,25 @@ const styles = StyleSheet.create({
   chevronContainer: {
     padding: 4,
   },
+  rehearseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: Colors.vermilion,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  rehearseButtonPressed: {
+    opacity: 0.85,
+    transform: [{ scale: 0.97 }],
+  },
+  rehearseText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 9,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
 
   // Compact styles (for nested display)
   compactContainer: {
@@ -0,0 +1,437 @@
+/**
+ * ChordSheetEditor Component
+ *
+ * Edits a chord sheet two ways:
+ * - PLACE: pick a chord, then tap a syllable to put it above (tap again to remove)
+ * - CHORDPRO: edit the ChordPro text directly ([Am] markers, {start_of_chorus})
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet } from 'react-native';
+import { Plus, Eraser } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import {
+  getSheetChords,
+  parseChordPro,
+  placeChord,
+  serializeChordPro,
+  splitSyllables,
+} from '@/utils/chordSheet';
+import type { ChordPlacement, ChordSheet, ChordSheetLine } from '@/types/chordSheet';
+
+type EditorMode = 'place' | 'source';
+
+interface ChordSheetEditorProps {
+  /** Sheet to start from */
+  initialSheet: ChordSheet;
+  /** Song chords offered in the palette */
+  songChords: string[];
+  /** Called with the ChordPro text to save */
+  onSave: (source: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Chords placed within a syllable's span [start, end)
+ */
+function getChordsInSpan(chords: ChordPlacement[], start: number, end: number): ChordPlacement[] {
+  return chords.filter((placement) => placement.position >= start && placement.position < end);
+}
+
+export const ChordSheetEditor: React.FC<ChordSheetEditorProps> = ({
+  initialSheet,
+  songChords,
+  onSave,
+  onCancel,
+}) => {
+  const [sheet, setSheet] = useState<ChordSheet>(initialSheet);
+  const [mode, setMode] = useState<EditorMode>('place');
+  const [source, setSource] = useState('');
+  const [selectedChord, setSelectedChord] = useState<string | null>(songChords[0] ?? null);
+  const [newChord, setNewChord] = useState('');
+  const [addedChords, setAddedChords] = useState<string[]>([]);
+
+  // Palette: the song's chords, any already in the sheet, and ones added here
+  const palette = [...songChords];
+  for (const chord of [...getSheetChords(sheet), ...addedChords]) {
+    if (!palette.includes(chord)) palette.push(chord);
+  }
+
+  const handleModeChange = async (nextMode: EditorMode) => {
+    if (nextMode === mode) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (nextMode === 'source') {
+      setSource(serializeChordPro(sheet));
+    } else {
+      setSheet(parseChordPro(source));
+    }
+    setMode(nextMode);
+  };
+
+  const handleAddChord = async () => {
+    const chord = newChord.trim();
+    if (!chord) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelectedChord(chord);
+    setNewChord('');
+    if (!palette.includes(chord)) setAddedChords((prev) => [...prev, chord]);
+  };
+
+  const handleSyllablePress = async (
+    sectionIndex: number,
+    lineIndex: number,
+    position: number,
+    span: { start: number; end: number }
+  ) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    setSheet((prev) => {
+      const sections = prev.sections.map((section, i) => {
+        if (i !== sectionIndex) return section;
+        const lines = section.lines.map((line, j): ChordSheetLine => {
+          if (j !== lineIndex || line.type !== 'lyrics') return line;
+
+          // Tapping a syllable with the selected chord takes it off
+          const existing = getChordsInSpan(line.chords, span.start, span.end);
+          const isSame = existing.length === 1 && existing[0].chord === selectedChord;
+          const cleared = line.chords.filter((placement) => !existing.includes(placement));
+          return {
+            ...line,
+            chords: placeChord(cleared, position, isSame ? null : selectedChord),
+          };
+        });
+        return { ...section, lines };
+      });
+      return { ...prev, sections };
+    });
+  };
+
+  const handleSave = async () => {
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSave(mode === 'source' ? serializeChordPro(parseChordPro(source)) : serializeChordPro(sheet));
+  };
+
+  const handleCancel = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onCancel();
+  };
+
+  const renderLine = (line: ChordSheetLine, sectionIndex: number, lineIndex: number) => {
+    if (line.type === 'empty') return <View key={lineIndex} style={styles.emptyLine} />;
+    if (line.type !== 'lyrics') {
+      return (
+        <Text key={lineIndex} style={styles.otherLineText} numberOfLines={1}>
+          {line.type === 'directive' ? `{${line.name}}` : line.text}
+        </Text>
+      );
+    }
+
+    const syllables = splitSyllables(line.text);
+    if (syllables.length === 0) {
+      // Chord-only line ("[G] [C]"): edit it in CHORDPRO
+      return (
+        <Text key={lineIndex} style={styles.otherLineText}>
+          {line.chords.map((placement) => placement.chord).join('  ')}
+        </Text>
+      );
+    }
+
+    return (
+      <View key={lineIndex} style={styles.lyricLine}>
+        {syllables.map((syllable, i) => {
+          // A syllable spans to the next one; the last one also owns chords at the line end
+          const span = {
+            start: i === 0 ? 0 : syllable.position,
+            end: i + 1 < syllables.length ? syllables[i + 1].position : line.text.length + 1,
+          };
+          const chords = getChordsInSpan(line.chords, span.start, span.end);
+          const isWordEnd = span.end > syllable.position + syllable.text.length;
+          return (
+            <Pressable
+              key={syllable.position}
+              style={[styles.syllable, isWordEnd && styles.syllableWordEnd]}
+              onPress={() => handleSyllablePress(sectionIndex, lineIndex, syllable.position, span)}
+              accessibilityLabel={`Place chord over ${syllable.text}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.syllableChord} numberOfLines={1}>
+                {chords.map((placement) => placement.chord).join(' ') || ' '}
+              </Text>
+              <Text style={styles.syllableText}>{syllable.text}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Mode */}
+      <View style={styles.row}>
+        {(['place', 'source'] as const).map((option) => (
+          <Pressable
+            key={option}
+            style={[styles.chip, mode === option && styles.chipActive]}
+            onPress={() => handleModeChange(option)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: mode === option }}
+          >
+            <Text style={[styles.chipText, mode === option && styles.chipTextActive]}>
+              {option === 'place' ? 'PLACE CHORDS' : 'CHORDPRO'}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {mode === 'place' ? (
+        <>
+          {/* Chord palette */}
+          <View style={styles.row}>
+            {palette.map((chord) => (
+              <Pressable
+                key={chord}
+                style={[styles.chip, selectedChord === chord && styles.chipSelected]}
+                onPress={() => setSelectedChord(chord)}
+                accessibilityLabel={`Place ${chord}`}
+                accessibilityRole="button"
+                accessibilityState={{ selected: selectedChord === chord }}
+              >
+                <Text style={[styles.chipText, selectedChord === chord && styles.chipTextActive]}>
+                  {chord}
+                </Text>
+              </Pressable>
+            ))}
+            <Pressable
+              style={[styles.chip, selectedChord === null && styles.chipActive]}
+              onPress={() => setSelectedChord(null)}
+              accessibilityLabel="Erase chords"
+              accessibilityRole="button"
+              accessibilityState={{ selected: selectedChord === null }}
+            >
+              <Eraser size={12} color={selectedChord === null ? Colors.softWhite : Colors.graphite} />
+            </Pressable>
+          </View>
+          <View style={styles.row}>
+            <TextInput
+              style={styles.chordInput}
+              value={newChord}
+              onChangeText={setNewChord}
+              onSubmitEditing={handleAddChord}
+              placeholder="Another chord, e.g. Cadd9"
+              placeholderTextColor={Colors.graphite}
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="done"
+              accessibilityLabel="Chord name"
+            />
+            <Pressable
+              style={styles.addButton}
+              onPress={handleAddChord}
+              accessibilityLabel="Add chord to palette"
+              accessibilityRole="button"
+            >
+              <Plus size={14} color={Colors.softWhite} />
+            </Pressable>
+          </View>
+
+          {/* Lines */}
+          {sheet.sections.length === 0 ? (
+            <Text style={styles.emptyText}>
+              No lyric lines yet. Add them in CHORDPRO, one line per lyric line.
+            </Text>
+          ) : (
+            sheet.sections.map((section, sectionIndex) => (
+              <View
+                key={sectionIndex}
+                style={[styles.section, section.kind === 'chorus' && styles.chorusSection]}
+              >
+                {section.kind && (
+                  <Text style={styles.sectionLabel}>
+                    {(section.label ?? section.kind).toUpperCase()}
+                  </Text>
+                )}
+                {section.lines.map((line, lineIndex) => renderLine(line, sectionIndex, lineIndex))}
+              </View>
+            ))
+          )}
+        </>
+      ) : (
+        <TextInput
+          style={styles.sourceInput}
+          value={source}
+          onChangeText={setSource}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          textAlignVertical="top"
+          placeholder={'{start_of_chorus}\n[G]Line with [C]chords\n{end_of_chorus}'}
+          placeholderTextColor={Colors.graphite}
+          accessibilityLabel="ChordPro source"
+        />
+      )}
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        <Pressable
+          style={styles.cancelButton}
+          onPress={handleCancel}
+          accessibilityLabel="Discard chart changes"
+          accessibilityRole="button"
+        >
+          <Text style={styles.cancelButtonText}>CANCEL</Text>
+        </Pressable>
+        <Pressable
+          style={styles.saveButton}
+          onPress={handleSave}
+          accessibilityLabel="Save chart"
+          accessibilityRole="button"
+        >
+          <Text style={styles.saveButtonText}>SAVE CHART</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.alloy,
+  },
+  chipActive: {
+    backgroundColor: Colors.charcoal,
+  },
+  chipSelected: {
+    backgroundColor: Colors.vermilion,
+  },
+  chipText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  chipTextActive: {
+    color: Colors.softWhite,
+  },
+  chordInput: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 13,
+    color: Colors.ink,
+    backgroundColor: Colors.alloy,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  addButton: {
+    padding: 9,
+    borderRadius: 8,
+    backgroundColor: Colors.charcoal,
+  },
+  section: {
+    gap: 6,
+  },
+  chorusSection: {
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.vermilion,
+    paddingLeft: 10,
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+  },
+  lyricLine: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  syllable: {
+    paddingHorizontal: 1,
+    borderRadius: 4,
+  },
+  syllableWordEnd: {
+    marginRight: 6,
+  },
+  syllableChord: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 11,
+    color: Colors.vermilion,
+    minHeight: 16,
+  },
+  syllableText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 14,
+    color: Colors.charcoal,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.alloy,
+  },
+  otherLineText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: Colors.graphite,
+  },
+  emptyLine: {
+    height: 8,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.graphite,
+  },
+  sourceInput: {
+    minHeight: 240,
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+    color: Colors.ink,
+    backgroundColor: Colors.softWhite,
+    borderRadius: 8,
+    padding: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.graphite,
+  },
+  cancelButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: Colors.vermilion,
+  },
+  saveButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+});
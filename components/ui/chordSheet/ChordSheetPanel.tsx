@@ -0,0 +1,186 @@
+/**
+ * ChordSheetPanel Component
+ *
+ * The song's chord-over-lyrics chart:
+ * - Rendered with the song's current transposition and capo
+ * - EDIT opens the chord sheet editor
+ * - A new chart starts from the song's lyrics
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Pencil, Plus } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import {
+  createChordSheetFromLyrics,
+  parseChordPro,
+  transposeChordSheet,
+} from '@/utils/chordSheet';
+import type { ChordSheet } from '@/types/chordSheet';
+import type { InstrumentType } from '@/types/chords';
+import { ChordSheetView } from './ChordSheetView';
+import { ChordSheetEditor } from './ChordSheetEditor';
+
+interface ChordSheetPanelProps {
+  /** Saved ChordPro text (null if the song has no chart) */
+  source: string | null;
+  /** Song lyrics, used to start a new chart */
+  lyrics: string | null;
+  songTitle: string;
+  artist: string;
+  /** Song key, used for the new chart and for chord spelling */
+  songKey?: string;
+  /** Song chords offered in the editor palette */
+  songChords: string[];
+  instrument: InstrumentType;
+  /** Semitones to shift the chart for display (transposition minus capo) */
+  semitones: number;
+  /** Label for the shift, e.g. "CAPO 2" (null when not shifted) */
+  shiftLabel: string | null;
+  /** Called with the ChordPro text to save */
+  onSave: (source: string) => void;
+}
+
+export const ChordSheetPanel: React.FC<ChordSheetPanelProps> = ({
+  source,
+  lyrics,
+  songTitle,
+  artist,
+  songKey,
+  songChords,
+  instrument,
+  semitones,
+  shiftLabel,
+  onSave,
+}) => {
+  const [editingSheet, setEditingSheet] = useState<ChordSheet | null>(null);
+
+  const sheet = useMemo(() => (source ? parseChordPro(source) : null), [source]);
+  const displayedSheet = useMemo(
+    () => (sheet ? transposeChordSheet(sheet, semitones, songKey) : null),
+    [sheet, semitones, songKey]
+  );
+
+  const handleEdit = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingSheet(
+      sheet ?? createChordSheetFromLyrics(lyrics, { title: songTitle, artist, key: songKey })
+    );
+  };
+
+  const handleSave = (nextSource: string) => {
+    setEditingSheet(null);
+    onSave(nextSource);
+  };
+
+  if (editingSheet) {
+    return (
+      <ChordSheetEditor
+        initialSheet={editingSheet}
+        songChords={songChords}
+        onSave={handleSave}
+        onCancel={() => setEditingSheet(null)}
+      />
+    );
+  }
+
+  if (!displayedSheet) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>No chord chart for this song yet</Text>
+        <Pressable
+          style={styles.createButton}
+          onPress={handleEdit}
+          accessibilityLabel="Create a chord chart"
+          accessibilityRole="button"
+        >
+          <Plus size={14} color={Colors.vermilion} strokeWidth={2.5} />
+          <Text style={styles.createButtonText}>
+            {lyrics ? 'CREATE FROM LYRICS' : 'CREATE CHART'}
+          </Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.headerText}>{shiftLabel ?? 'AS WRITTEN'}</Text>
+        {/* Edit in the written key so transposed views don't get saved */}
+        {!shiftLabel && (
+          <Pressable
+            style={styles.editButton}
+            onPress={handleEdit}
+            accessibilityLabel="Edit chord chart"
+            accessibilityRole="button"
+          >
+            <Pencil size={12} color={Colors.softWhite} />
+            <Text style={styles.editButtonText}>EDIT</Text>
+          </Pressable>
+        )}
+      </View>
+      <ChordSheetView sheet={displayedSheet} instrument={instrument} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.charcoal,
+  },
+  editButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    gap: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+    textAlign: 'center',
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: Colors.vermilion,
+  },
+  createButtonText: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+});
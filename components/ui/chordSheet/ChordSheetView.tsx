@@ -0,0 +1,172 @@
+/**
+ * ChordSheetView Component
+ *
+ * Renders a chord sheet with chord names over the lyrics:
+ * - Chords as tappable ChordChips that open the chord diagram
+ * - Verse, chorus and bridge sections with their labels
+ * - Comments and tab blocks
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { getLineSegments } from '@/utils/chordSheet';
+import type { ChordSheet, ChordSheetLine, ChordSheetSection } from '@/types/chordSheet';
+import type { InstrumentType } from '@/types/chords';
+import { ChordChip } from '../theory/chords/ChordChip';
+import { ChordChartModal } from '../theory/ChordChartModal';
+
+interface ChordSheetViewProps {
+  /** Sheet to render (already transposed for display) */
+  sheet: ChordSheet;
+  /** Instrument the chord diagrams are for */
+  instrument: InstrumentType;
+}
+
+const SECTION_LABELS: Record<NonNullable<ChordSheetSection['kind']>, string> = {
+  verse: 'VERSE',
+  chorus: 'CHORUS',
+  bridge: 'BRIDGE',
+  tab: 'TAB',
+};
+
+export const ChordSheetView: React.FC<ChordSheetViewProps> = ({ sheet, instrument }) => {
+  const [diagramChord, setDiagramChord] = useState<string | null>(null);
+
+  const renderLine = (line: ChordSheetLine, index: number) => {
+    switch (line.type) {
+      case 'lyrics': {
+        const hasChords = line.chords.length > 0;
+        return (
+          <View key={index} style={styles.lyricLine}>
+            {getLineSegments(line.text, line.chords).map((segment, segmentIndex) => (
+              <View key={segmentIndex} style={styles.segment}>
+                {hasChords && (
+                  <View style={styles.chordSlot}>
+                    {segment.chord && (
+                      <ChordChip
+                        chordName={segment.chord}
+                        instrument={instrument}
+                        onPress={setDiagramChord}
+                      />
+                    )}
+                  </View>
+                )}
+                <Text style={styles.lyricText}>{segment.text || ' '}</Text>
+              </View>
+            ))}
+          </View>
+        );
+      }
+      case 'comment':
+        return (
+          <Text key={index} style={styles.commentText}>
+            {line.text}
+          </Text>
+        );
+      case 'tab':
+        return (
+          <Text key={index} style={styles.tabText}>
+            {line.text}
+          </Text>
+        );
+      case 'empty':
+        return <View key={index} style={styles.emptyLine} />;
+      case 'directive':
+        return null;
+    }
+  };
+
+  const details = [
+    sheet.key ? `KEY ${sheet.key.toUpperCase()}` : null,
+    sheet.capo ? `CAPO ${sheet.capo}` : null,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.container}>
+      {details.length > 0 && <Text style={styles.detailsText}>{details.join(' · ')}</Text>}
+
+      {sheet.sections.map((section, sectionIndex) => (
+        <View
+          key={sectionIndex}
+          style={[styles.section, section.kind === 'chorus' && styles.chorusSection]}
+        >
+          {section.kind && (
+            <Text style={styles.sectionLabel}>
+              {section.label?.toUpperCase() ?? SECTION_LABELS[section.kind]}
+            </Text>
+          )}
+          {section.lines.map(renderLine)}
+        </View>
+      ))}
+
+      <ChordChartModal
+        visible={diagramChord !== null}
+        chordName={diagramChord ?? ''}
+        instrument={instrument}
+        onClose={() => setDiagramChord(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  detailsText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+  },
+  section: {
+    gap: 4,
+  },
+  chorusSection: {
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.vermilion,
+    paddingLeft: 10,
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+    marginBottom: 2,
+  },
+  lyricLine: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'flex-end',
+  },
+  segment: {
+    alignItems: 'flex-start',
+  },
+  chordSlot: {
+    minHeight: 30,
+    justifyContent: 'flex-end',
+    paddingRight: 4,
+    paddingBottom: 2,
+  },
+  lyricText: {
+    fontSize: 14,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.charcoal,
+    lineHeight: 22,
+  },
+  commentText: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaRegular',
+    fontStyle: 'italic',
+    color: Colors.graphite,
+  },
+  tabText: {
+    fontSize: 12,
+    fontFamily: 'SpaceMono',
+    color: Colors.charcoal,
+  },
+  emptyLine: {
+    height: 10,
+  },
+});
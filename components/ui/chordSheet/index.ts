@@ -0,0 +1,7 @@
+/**
+ * Chord Sheet Components - Barrel Export
+ */
+
+export { ChordSheetView } from './ChordSheetView';
+export { ChordSheetEditor } from './ChordSheetEditor';
+export { ChordSheetPanel } from './ChordSheetPanel';
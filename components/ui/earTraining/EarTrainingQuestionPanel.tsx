@@ -0,0 +1,224 @@
+/**
+ * EarTrainingQuestionPanel Component
+ *
+ * One ear training question:
+ * - Question number and running score
+ * - Answer choices, marked right/wrong once answered
+ * - Replay the question, then Next
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Volume2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import type { EarTrainingQuestion } from '@/types/earTraining';
+
+interface EarTrainingQuestionPanelProps {
+  /** Current question */
+  question: EarTrainingQuestion;
+  /** Question number (1-based) */
+  questionNumber: number;
+  /** Questions per quiz */
+  totalQuestions: number;
+  /** Correct answers so far */
+  correctCount: number;
+  /** Answer picked (null until answered) */
+  selectedAnswer: string | null;
+  /** Whether the question is playing */
+  isPlaying: boolean;
+  /** Play the question again */
+  onReplay: () => void;
+  /** Pick an answer */
+  onAnswer: (option: string) => void;
+  /** Go to the next question */
+  onNext: () => void;
+}
+
+export const EarTrainingQuestionPanel = memo(function EarTrainingQuestionPanel({
+  question,
+  questionNumber,
+  totalQuestions,
+  correctCount,
+  selectedAnswer,
+  isPlaying,
+  onReplay,
+  onAnswer,
+  onNext,
+}: EarTrainingQuestionPanelProps) {
+  const isAnswered = selectedAnswer !== null;
+
+  const handleReplay = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onReplay();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.questionLabel}>
+          QUESTION {questionNumber}/{totalQuestions}
+        </Text>
+        <Text style={styles.scoreText}>{correctCount} CORRECT</Text>
+      </View>
+
+      <Text style={styles.instruction}>
+        {isAnswered
+          ? selectedAnswer === question.answer
+            ? 'Correct!'
+            : `It was ${question.answer}`
+          : 'What did you hear?'}
+      </Text>
+
+      {/* Answer choices */}
+      <View style={styles.options}>
+        {question.options.map((option) => {
+          const isCorrect = isAnswered && option === question.answer;
+          const isWrongPick = isAnswered && option === selectedAnswer && !isCorrect;
+          return (
+            <Pressable
+              key={option}
+              onPress={() => onAnswer(option)}
+              disabled={isAnswered}
+              style={({ pressed }) => [
+                styles.option,
+                pressed && styles.optionPressed,
+                isCorrect && styles.optionCorrect,
+                isWrongPick && styles.optionWrong,
+              ]}
+              accessibilityLabel={option}
+              accessibilityRole="button"
+              accessibilityState={{ selected: option === selectedAnswer, disabled: isAnswered }}
+            >
+              <Text
+                style={[styles.optionText, (isCorrect || isWrongPick) && styles.optionTextMarked]}
+              >
+                {option}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <View style={styles.actionsRow}>
+        <Pressable
+          onPress={handleReplay}
+          disabled={isPlaying}
+          style={({ pressed }) => [styles.action, pressed && styles.actionPressed]}
+          accessibilityLabel="Play the question again"
+          accessibilityRole="button"
+        >
+          <Volume2 size={12} color={Colors.graphite} />
+          <Text style={styles.actionText}>REPLAY</Text>
+        </Pressable>
+        <View style={styles.next}>
+          <PrimaryButton
+            label={questionNumber >= totalQuestions ? 'FINISH' : 'NEXT'}
+            onPress={onNext}
+            disabled={!isAnswered}
+            size="compact"
+            accessibilityLabel={
+              questionNumber >= totalQuestions ? 'Finish the quiz' : 'Next question'
+            }
+          />
+        </View>
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  questionLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.softWhite,
+    letterSpacing: 2,
+  },
+  scoreText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  instruction: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.warmGray,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    backgroundColor: Colors.charcoal,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  optionPressed: {
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  optionCorrect: {
+    backgroundColor: Colors.moss,
+    borderColor: Colors.moss,
+  },
+  optionWrong: {
+    backgroundColor: Colors.vermilion,
+    borderColor: Colors.vermilion,
+  },
+  optionText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.softWhite,
+  },
+  optionTextMarked: {
+    color: Colors.softWhite,
+    fontFamily: 'LexendDecaBold',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  next: {
+    flex: 1,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  actionPressed: {
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  actionText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+});
+
+export default EarTrainingQuestionPanel;
@@ -0,0 +1,100 @@
+/**
+ * EarTrainingResultPanel Component
+ *
+ * Finished ear training quiz:
+ * - Score and percentage
+ * - Time spent and whether it was added to today's practice
+ * - Start another quiz
+ */
+
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import type { EarTrainingResult } from '@/types/earTraining';
+
+interface EarTrainingResultPanelProps {
+  /** Finished quiz */
+  result: EarTrainingResult;
+  /** Practice minutes added to today's log (null until logged) */
+  loggedMinutes: number | null;
+  /** Start another quiz */
+  onRestart: () => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const EarTrainingResultPanel = memo(function EarTrainingResultPanel({
+  result,
+  loggedMinutes,
+  onRestart,
+}: EarTrainingResultPanelProps) {
+  const percent = Math.round((result.correct / result.total) * 100);
+  const scoreColor =
+    percent >= 80 ? Colors.moss : percent >= 50 ? Colors.warning : Colors.vermilion;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionLabel}>RESULT</Text>
+
+      <View style={styles.scoreRow}>
+        <Text style={[styles.score, { color: scoreColor }]}>
+          {result.correct}/{result.total}
+        </Text>
+        <Text style={styles.percent}>{percent}%</Text>
+      </View>
+
+      <Text style={styles.meta}>
+        {formatDuration(result.durationSeconds)}
+        {loggedMinutes !== null ? ` · ${loggedMinutes} MIN ADDED TO TODAY'S PRACTICE` : ''}
+      </Text>
+
+      <PrimaryButton
+        label="TRY AGAIN"
+        onPress={onRestart}
+        size="compact"
+        accessibilityLabel="Start another quiz"
+      />
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 12,
+  },
+  score: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 32,
+  },
+  percent: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 14,
+    color: Colors.warmGray,
+  },
+  meta: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+});
+
+export default EarTrainingResultPanel;
@@ -0,0 +1,6 @@
+/**
+ * Ear Training Components - Barrel Export
+ */
+
+export { EarTrainingQuestionPanel } from './EarTrainingQuestionPanel';
+export { EarTrainingResultPanel } from './EarTrainingResultPanel';
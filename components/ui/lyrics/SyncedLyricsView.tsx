@@ -0,0 +1,424 @@
+/**
+ * SyncedLyricsView Component
+ *
+ * Lyrics with karaoke-style follow mode:
+ * - Highlights and auto-scrolls the current line while the practice player plays
+ * - Follows the playback rate and A-B loop (timing comes from the player's position)
+ * - Tap a timed line to jump the audio to it
+ * - Tap-along mode to create timestamps for lyrics that have none
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Pressable,
+  StyleSheet,
+  type LayoutChangeEvent,
+} from 'react-native';
+import { Play, Pause, Crosshair, Timer, Undo2, Check, X, Headphones } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { LYRICS_SYNC_CONFIG } from '@/constants/LyricsConfig';
+import { useLyricsTapAlong } from '@/hooks/useLyricsTapAlong';
+import { parseLyrics, serializeLyrics, findCurrentLyricIndex } from '@/utils/lyrics';
+import type { UsePracticePlayerReturn } from '@/types/practicePlayer';
+
+interface SyncedLyricsViewProps {
+  /** Lyrics text (LRC when synced) */
+  lyrics: string;
+  /** Practice player playing the song's audio */
+  player: UsePracticePlayerReturn;
+  /** Called with the new lyrics text after tap-along */
+  onLyricsChange: (lyrics: string) => void;
+  /** Open the practice player to load the song's audio */
+  onOpenPlayer: () => void;
+}
+
+/**
+ * Format milliseconds as M:SS
+ */
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export const SyncedLyricsView: React.FC<SyncedLyricsViewProps> = ({
+  lyrics,
+  player,
+  onLyricsChange,
+  onOpenPlayer,
+}) => {
+  const parsed = useMemo(() => parseLyrics(lyrics), [lyrics]);
+  const tapAlong = useLyricsTapAlong(player, parsed);
+
+  const [isFollowing, setIsFollowing] = useState(true);
+  const scrollRef = useRef<ScrollView>(null);
+  const lineOffsetsRef = useRef<number[]>([]);
+  const viewHeightRef = useRef(0);
+
+  const hasAudio = player.audioFile !== null && player.status !== null;
+  const isPlaying = player.state === 'playing';
+  const positionMs = player.status?.positionMs ?? 0;
+
+  // While tapping along, show the stamps made so far
+  const shown = tapAlong.lyrics ?? parsed;
+  const currentIndex =
+    hasAudio && shown.isSynced
+      ? findCurrentLyricIndex(shown.lines, positionMs + LYRICS_SYNC_CONFIG.highlightLeadMs)
+      : -1;
+  const textLineCount = shown.lines.filter((line) => line.text).length;
+  const tappedCount = shown.lines.filter((line) => line.text && line.timeMs !== null).length;
+
+  // Keep the line being sung (or the next one to tap) in view
+  const scrollIndex = tapAlong.isActive ? tapAlong.nextIndex : currentIndex;
+  useEffect(() => {
+    if (!isFollowing || scrollIndex < 0) return;
+    const lineY = lineOffsetsRef.current[scrollIndex];
+    if (lineY === undefined) return;
+    scrollRef.current?.scrollTo({
+      y: Math.max(0, lineY - viewHeightRef.current * LYRICS_SYNC_CONFIG.scrollAnchor),
+      animated: true,
+    });
+  }, [isFollowing, scrollIndex]);
+
+  const handleLineLayout = (index: number) => (event: LayoutChangeEvent) => {
+    lineOffsetsRef.current[index] = event.nativeEvent.layout.y;
+  };
+
+  const handlePlayPause = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    player.togglePlayPause();
+  };
+
+  const handleToggleFollow = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsFollowing((prev) => !prev);
+  };
+
+  const handleLinePress = async (timeMs: number | null) => {
+    if (!hasAudio || timeMs === null || tapAlong.isActive) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    player.seekTo(timeMs);
+  };
+
+  const handleStartTapAlong = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsFollowing(true);
+    tapAlong.start();
+  };
+
+  const handleTap = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    tapAlong.tap();
+  };
+
+  const handleUndo = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    tapAlong.undo();
+  };
+
+  const handleFinishTapAlong = async () => {
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const stamped = tapAlong.finish();
+    if (stamped) {
+      onLyricsChange(serializeLyrics(stamped));
+    }
+  };
+
+  const handleCancelTapAlong = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    tapAlong.cancel();
+  };
+
+  const tapDone = tapAlong.nextIndex >= shown.lines.length;
+
+  return (
+    <View style={styles.container}>
+      {/* Transport */}
+      {!hasAudio ? (
+        <View style={styles.bar}>
+          <Text style={styles.hintText}>
+            {parsed.isSynced
+              ? 'Load the song in the practice player to follow along'
+              : 'Load the song in the practice player to tap along and sync these lyrics'}
+          </Text>
+          <Pressable
+            style={styles.barButton}
+            onPress={onOpenPlayer}
+            accessibilityLabel="Open the practice player"
+            accessibilityRole="button"
+          >
+            <Headphones size={14} color={Colors.softWhite} />
+            <Text style={styles.barButtonText}>PLAYER</Text>
+          </Pressable>
+        </View>
+      ) : tapAlong.isActive ? (
+        <View style={styles.bar}>
+          <Pressable
+            style={styles.playButton}
+            onPress={handlePlayPause}
+            accessibilityLabel={isPlaying ? 'Pause' : 'Play'}
+            accessibilityRole="button"
+          >
+            {isPlaying ? (
+              <Pause size={16} color={Colors.softWhite} />
+            ) : (
+              <Play size={16} color={Colors.softWhite} />
+            )}
+          </Pressable>
+          <Pressable
+            style={[styles.tapButton, tapDone && styles.buttonDisabled]}
+            onPress={handleTap}
+            disabled={tapDone}
+            accessibilityLabel="Stamp the next line now"
+            accessibilityRole="button"
+          >
+            <Text style={styles.tapButtonText}>TAP</Text>
+            <Text style={styles.tapCountText}>
+              {tappedCount}/{textLineCount}
+            </Text>
+          </Pressable>
+          <Pressable
+            style={styles.iconButton}
+            onPress={handleUndo}
+            accessibilityLabel="Undo the last stamp"
+            accessibilityRole="button"
+          >
+            <Undo2 size={16} color={Colors.charcoal} />
+          </Pressable>
+          <Pressable
+            style={styles.iconButton}
+            onPress={handleFinishTapAlong}
+            accessibilityLabel="Save timestamps"
+            accessibilityRole="button"
+          >
+            <Check size={16} color={Colors.moss} />
+          </Pressable>
+          <Pressable
+            style={styles.iconButton}
+            onPress={handleCancelTapAlong}
+            accessibilityLabel="Discard timestamps"
+            accessibilityRole="button"
+          >
+            <X size={16} color={Colors.graphite} />
+          </Pressable>
+        </View>
+      ) : (
+        <View style={styles.bar}>
+          <Pressable
+            style={styles.playButton}
+            onPress={handlePlayPause}
+            accessibilityLabel={isPlaying ? 'Pause' : 'Play'}
+            accessibilityRole="button"
+          >
+            {isPlaying ? (
+              <Pause size={16} color={Colors.softWhite} />
+            ) : (
+              <Play size={16} color={Colors.softWhite} />
+            )}
+          </Pressable>
+          <Text style={styles.timeText}>{formatTime(positionMs)}</Text>
+          <View style={styles.barSpacer} />
+          {parsed.isSynced && (
+            <Pressable
+              style={[styles.chip, isFollowing && styles.chipActive]}
+              onPress={handleToggleFollow}
+              accessibilityLabel="Follow the current line"
+              accessibilityRole="button"
+              accessibilityState={{ selected: isFollowing }}
+            >
+              <Crosshair size={12} color={isFollowing ? Colors.softWhite : Colors.graphite} />
+              <Text style={[styles.chipText, isFollowing && styles.chipTextActive]}>FOLLOW</Text>
+            </Pressable>
+          )}
+          <Pressable
+            style={styles.chip}
+            onPress={handleStartTapAlong}
+            accessibilityLabel={
+              parsed.isSynced ? 'Re-time lyrics by tapping along' : 'Time lyrics by tapping along'
+            }
+            accessibilityRole="button"
+          >
+            <Timer size={12} color={Colors.graphite} />
+            <Text style={styles.chipText}>{parsed.isSynced ? 'RE-SYNC' : 'TAP SYNC'}</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {/* Lines */}
+      <ScrollView
+        ref={scrollRef}
+        style={styles.lines}
+        contentContainerStyle={styles.linesContent}
+        showsVerticalScrollIndicator={false}
+        onLayout={(event) => {
+          viewHeightRef.current = event.nativeEvent.layout.height;
+        }}
+        onScrollBeginDrag={() => {
+          // Scrolling by hand stops following until FOLLOW is pressed again
+          if (!tapAlong.isActive) setIsFollowing(false);
+        }}
+      >
+        {shown.lines.map((line, index) => {
+          const isCurrent = index === currentIndex;
+          const isNextTap = tapAlong.isActive && index === tapAlong.nextIndex;
+          return (
+            <Pressable
+              key={index}
+              onLayout={handleLineLayout(index)}
+              onPress={() => handleLinePress(line.timeMs)}
+              disabled={!hasAudio || line.timeMs === null || tapAlong.isActive}
+              style={[styles.line, isNextTap && styles.lineNextTap]}
+            >
+              <Text
+                style={[
+                  styles.lineText,
+                  shown.isSynced && hasAudio && !isCurrent && styles.lineTextInactive,
+                  isCurrent && styles.lineTextCurrent,
+                ]}
+              >
+                {line.text || ' '}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    gap: 12,
+  },
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.alloy,
+  },
+  barSpacer: {
+    flex: 1,
+  },
+  hintText: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  barButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.charcoal,
+  },
+  barButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.vermilion,
+  },
+  timeText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.ink,
+    minWidth: 40,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.alloy,
+  },
+  chipActive: {
+    backgroundColor: Colors.charcoal,
+  },
+  chipText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  chipTextActive: {
+    color: Colors.softWhite,
+  },
+  tapButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: Colors.moss,
+  },
+  tapButtonText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 12,
+    color: Colors.softWhite,
+    letterSpacing: 2,
+  },
+  tapCountText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.softWhite,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.alloy,
+  },
+  lines: {
+    flex: 1,
+  },
+  linesContent: {
+    paddingBottom: 20,
+  },
+  line: {
+    borderRadius: 6,
+    paddingHorizontal: 6,
+  },
+  lineNextTap: {
+    backgroundColor: Colors.alloy,
+  },
+  lineText: {
+    fontSize: 14,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.charcoal,
+    lineHeight: 24,
+  },
+  lineTextInactive: {
+    color: Colors.graphite,
+  },
+  lineTextCurrent: {
+    fontFamily: 'LexendDecaBold',
+    color: Colors.vermilion,
+  },
+});
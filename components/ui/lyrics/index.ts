@@ -0,0 +1,5 @@
+/**
+ * Lyrics Components - Barrel Export
+ */
+
+export { SyncedLyricsView } from './SyncedLyricsView';
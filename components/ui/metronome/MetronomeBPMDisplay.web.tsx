@@ -28,6 +28,14 @@ interface MetronomeBPMDisplayProps {
   tapCount: number;
   /** Whether the control is disabled */
   disabled?: boolean;
+  /** Time signature shown beside the unit (e.g., "7/8 (2+2+3)") */
+  timeSignatureLabel?: string;
+  /** Current beat index within the bar (0-based) */
+  currentBeat?: number;
+  /** Number of beats in the bar */
+  beatsPerBar?: number;
+  /** Whether the metronome is playing (shows the beat position) */
+  isPlaying?: boolean;
 }
 
 export const MetronomeBPMDisplay = memo(function MetronomeBPMDisplay({
@@ -36,6 +44,10 @@ export const MetronomeBPMDisplay = memo(function MetronomeBPMDisplay({
   onTap,
   tapCount,
   disabled = false,
+  timeSignatureLabel,
+  currentBeat = 0,
+  beatsPerBar,
+  isPlaying = false,
 }: MetronomeBPMDisplayProps) {
   const prefersReducedMotion = useReducedMotion();
 
@@ -107,8 +119,20 @@ export const MetronomeBPMDisplay = memo(function MetronomeBPMDisplay({
             >
               {bpm}
             </Animated.Text>
-            <Text style={styles.bpmUnit}>BPM</Text>
+            <Text style={styles.bpmUnit}>
+              {timeSignatureLabel ? `BPM · ${timeSignatureLabel}` : 'BPM'}
+            </Text>
           </View>
+
+          {/* Beat position within the bar */}
+          {isPlaying && beatsPerBar !== undefined && (
+            <Text
+              style={[styles.beatPosition, currentBeat === 0 && styles.beatPositionDownbeat]}
+              accessibilityLabel={`Beat ${currentBeat + 1} of ${beatsPerBar}`}
+            >
+              {currentBeat + 1}/{beatsPerBar}
+            </Text>
+          )}
         </Pressable>
 
         {/* Increment Button */}
@@ -209,6 +233,18 @@ const styles = StyleSheet.create({
     letterSpacing: 2,
     marginTop: -2,
   },
+  beatPosition: {
+    position: 'absolute',
+    top: 4,
+    right: 8,
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.moss,
+    letterSpacing: 0.5,
+  },
+  beatPositionDownbeat: {
+    color: Colors.vermilion,
+  },
   tapHint: {
     fontSize: 10,
     fontFamily: 'LexendDecaRegular',
@@ -3,6 +3,8 @@
  *
  * Main control panel for the metronome, housing:
  * - BPM display with integrated tap tempo (tap the number)
+ * - Meter settings (time signature, subdivision, accents)
+ * - Accent and beat click sounds
  * - Start/stop button
  *
  * Designed for instrument-in-hand use with large touch targets.
@@ -12,7 +14,17 @@ import React, { memo } from 'react';
 import { View, StyleSheet } from 'react-native';
 import { Play, Square } from 'lucide-react-native';
 import { MetronomeBPMDisplay } from './MetronomeBPMDisplay';
+import { MetronomeMeterControls } from './MetronomeMeterControls';
+import { MetronomeSoundControls } from './MetronomeSoundControls';
 import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import { formatTimeSignature } from '@/utils/metronome';
+import type {
+  AccentLevel,
+  ClickSound,
+  ClickSounds,
+  Subdivision,
+  TimeSignature,
+} from '@/types/metronome';
 
 interface MetronomeControlsProps {
   /** Current BPM value */
@@ -29,6 +41,26 @@ interface MetronomeControlsProps {
   onToggle: () => void;
   /** Number of taps in current tap tempo session */
   tapCount: number;
+  /** Current beat index within the bar */
+  currentBeat: number;
+  /** Current time signature */
+  timeSignature: TimeSignature;
+  /** Current subdivision */
+  subdivision: Subdivision;
+  /** Accent level per beat */
+  accents: AccentLevel[];
+  /** Callback when the time signature changes */
+  onTimeSignatureChange: (timeSignature: TimeSignature) => void;
+  /** Callback when the subdivision changes */
+  onSubdivisionChange: (subdivision: Subdivision) => void;
+  /** Callback when a beat's accent is tapped */
+  onCycleAccent: (beatIndex: number) => void;
+  /** Selected accent and normal click sounds */
+  clickSounds: ClickSounds;
+  /** Click sounds that failed to load and can't be chosen */
+  unavailableClickSounds?: ClickSound[];
+  /** Callback when a click sound is chosen */
+  onClickSoundChange: (slot: keyof ClickSounds, sound: ClickSound) => void;
 }
 
 export const MetronomeControls = memo(function MetronomeControls({
@@ -39,6 +71,16 @@ export const MetronomeControls = memo(function MetronomeControls({
   onTap,
   onToggle,
   tapCount,
+  currentBeat,
+  timeSignature,
+  subdivision,
+  accents,
+  onTimeSignatureChange,
+  onSubdivisionChange,
+  onCycleAccent,
+  clickSounds,
+  unavailableClickSounds,
+  onClickSoundChange,
 }: MetronomeControlsProps) {
   return (
     <View style={styles.container}>
@@ -49,6 +91,29 @@ export const MetronomeControls = memo(function MetronomeControls({
         onTap={onTap}
         tapCount={tapCount}
         disabled={!isAudioReady}
+        timeSignatureLabel={formatTimeSignature(timeSignature)}
+        currentBeat={currentBeat}
+        beatsPerBar={timeSignature.beats}
+        isPlaying={isPlaying}
+      />
+
+      {/* Meter settings */}
+      <MetronomeMeterControls
+        timeSignature={timeSignature}
+        subdivision={subdivision}
+        accents={accents}
+        onTimeSignatureChange={onTimeSignatureChange}
+        onSubdivisionChange={onSubdivisionChange}
+        onCycleAccent={onCycleAccent}
+        disabled={!isAudioReady}
+      />
+
+      {/* Click sounds */}
+      <MetronomeSoundControls
+        clickSounds={clickSounds}
+        unavailableSounds={unavailableClickSounds}
+        onClickSoundChange={onClickSoundChange}
+        disabled={!isAudioReady}
       />
 
       {/* Start/Stop Button */}
@@ -0,0 +1,184 @@
+/**
+ * MetronomeMeterControls Component
+ *
+ * Meter settings for the metronome:
+ * - Time signature selector (simple, compound and odd meters)
+ * - Subdivision selector (beats, eighths, triplets, sixteenths)
+ * - Per-beat accent pads (tap to cycle accent → medium → normal → silent)
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { TIME_SIGNATURE_PRESETS, SUBDIVISION_OPTIONS } from '@/constants/MetronomeConfig';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
+import { getTimeSignaturePresetId } from '@/utils/metronome';
+import type { AccentLevel, Subdivision, TimeSignature } from '@/types/metronome';
+
+const TIME_SIGNATURE_OPTIONS = TIME_SIGNATURE_PRESETS.map(({ id, label }) => ({ value: id, label }));
+
+// Pad color and accessibility label per accent level
+const ACCENT_STYLES: Record<AccentLevel, { color: string; label: string }> = {
+  accent: { color: Colors.vermilion, label: 'accented' },
+  medium: { color: Colors.warning, label: 'medium accent' },
+  normal: { color: Colors.moss, label: 'normal' },
+  silent: { color: Colors.graphiteDark, label: 'silent' },
+};
+
+interface MetronomeMeterControlsProps {
+  /** Current time signature */
+  timeSignature: TimeSignature;
+  /** Current subdivision */
+  subdivision: Subdivision;
+  /** Accent level per beat */
+  accents: AccentLevel[];
+  /** Callback when the time signature changes */
+  onTimeSignatureChange: (timeSignature: TimeSignature) => void;
+  /** Callback when the subdivision changes */
+  onSubdivisionChange: (subdivision: Subdivision) => void;
+  /** Callback when a beat's accent pad is tapped */
+  onCycleAccent: (beatIndex: number) => void;
+  /** Whether the controls are disabled */
+  disabled?: boolean;
+}
+
+export const MetronomeMeterControls = memo(function MetronomeMeterControls({
+  timeSignature,
+  subdivision,
+  accents,
+  onTimeSignatureChange,
+  onSubdivisionChange,
+  onCycleAccent,
+  disabled = false,
+}: MetronomeMeterControlsProps) {
+  // Meters loaded from a song may not match a preset; fall back to the first beat count match
+  const presetId =
+    getTimeSignaturePresetId(timeSignature) ??
+    TIME_SIGNATURE_PRESETS.find((p) => p.timeSignature.beats === timeSignature.beats)?.id ??
+    TIME_SIGNATURE_OPTIONS[0].value;
+
+  const handleTimeSignatureChange = (id: string) => {
+    const preset = TIME_SIGNATURE_PRESETS.find((p) => p.id === id);
+    if (preset) onTimeSignatureChange(preset.timeSignature);
+  };
+
+  const handleAccentPress = async (beatIndex: number) => {
+    if (disabled) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onCycleAccent(beatIndex);
+  };
+
+  // Group starts get extra space so odd meters read as 2+2+3
+  const groupStarts = new Set<number>();
+  timeSignature.grouping.reduce((start, group) => {
+    groupStarts.add(start);
+    return start + group;
+  }, 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.selectorRow}>
+        <View style={styles.selector}>
+          <FrequencyTuner
+            label="METER"
+            options={TIME_SIGNATURE_OPTIONS}
+            value={presetId}
+            onChange={handleTimeSignatureChange}
+            disabled={disabled}
+            size="compact"
+          />
+        </View>
+        <View style={styles.selector}>
+          <FrequencyTuner
+            label="SUBDIVISION"
+            options={SUBDIVISION_OPTIONS}
+            value={subdivision}
+            onChange={onSubdivisionChange}
+            disabled={disabled}
+            size="compact"
+          />
+        </View>
+      </View>
+
+      {/* Accent pads */}
+      <View style={styles.accentSection}>
+        <Text style={styles.label}>ACCENTS</Text>
+        <View style={styles.accentRow}>
+          {accents.map((accent, beat) => (
+            <Pressable
+              key={beat}
+              onPress={() => handleAccentPress(beat)}
+              disabled={disabled}
+              style={({ pressed }) => [
+                styles.accentPad,
+                beat > 0 && groupStarts.has(beat) && styles.accentPadGroupStart,
+                { backgroundColor: ACCENT_STYLES[accent].color },
+                pressed && styles.accentPadPressed,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={`Beat ${beat + 1}, ${ACCENT_STYLES[accent].label}`}
+              accessibilityHint="Tap to change the accent"
+            >
+              <Text style={[styles.accentPadText, accent === 'silent' && styles.accentPadTextSilent]}>
+                {beat + 1}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  selectorRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  selector: {
+    flex: 1,
+  },
+  accentSection: {
+    gap: 6,
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  accentRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  accentPad: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  accentPadGroupStart: {
+    marginLeft: 6,
+  },
+  accentPadPressed: {
+    opacity: 0.7,
+  },
+  accentPadText: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: '#FFFFFF',
+  },
+  accentPadTextSilent: {
+    color: Colors.graphite,
+  },
+});
+
+export default MetronomeMeterControls;
@@ -17,6 +17,7 @@ import Animated, {
 import { Colors } from '@/constants/Colors';
 import { PENDULUM_MAX_ANGLE, PENDULUM_HEIGHT, PENDULUM_BOB_SIZE, BEAT_FLASH_DURATION_MS } from '@/constants/MetronomeConfig';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
+import type { AccentLevel } from '@/types/metronome';
 
 // Housing dimensions
 const HOUSING_WIDTH = 160;
@@ -32,10 +33,14 @@ interface MetronomePendulumProps {
   angle: number;
   /** Whether metronome is playing */
   isPlaying: boolean;
-  /** Current beat index (0-3) */
+  /** Current beat index within the bar (0-based) */
   currentBeat: number;
   /** Current BPM for reference */
   bpm: number;
+  /** Number of beats in the bar (default: 4) */
+  beatsPerBar?: number;
+  /** Accent level per beat (default: accent on beat 1) */
+  accents?: AccentLevel[];
 }
 
 export const MetronomePendulum = memo(function MetronomePendulum({
@@ -43,7 +48,14 @@ export const MetronomePendulum = memo(function MetronomePendulum({
   isPlaying,
   currentBeat,
   bpm,
+  beatsPerBar = 4,
+  accents,
 }: MetronomePendulumProps) {
+  // Smaller dots so long bars (up to 12/8) fit the housing
+  const isDenseMeter = beatsPerBar > 6;
+  const getAccent = (beat: number): AccentLevel =>
+    accents?.[beat] ?? (beat === 0 ? 'accent' : 'normal');
+
   const prefersReducedMotion = useReducedMotion();
 
   // Animated values
@@ -118,15 +130,17 @@ export const MetronomePendulum = memo(function MetronomePendulum({
       {/* Beat flash overlay */}
       <Animated.View style={[styles.beatFlash, flashStyle]} pointerEvents="none" />
 
-      {/* Beat indicators (4 dots for 4/4 time) */}
-      <View style={styles.beatIndicators}>
-        {[0, 1, 2, 3].map((beat) => (
+      {/* Beat indicators (one dot per beat in the bar) */}
+      <View style={[styles.beatIndicators, isDenseMeter && styles.beatIndicatorsDense]}>
+        {Array.from({ length: beatsPerBar }, (_, beat) => (
           <View
             key={beat}
             style={[
               styles.beatDot,
+              isDenseMeter && styles.beatDotDense,
               isPlaying && currentBeat === beat && styles.beatDotActive,
-              beat === 0 && styles.beatDotAccent,
+              getAccent(beat) === 'accent' && styles.beatDotAccent,
+              getAccent(beat) === 'silent' && styles.beatDotSilent,
             ]}
           />
         ))}
@@ -257,6 +271,17 @@ const styles = StyleSheet.create({
     height: 10,
     borderRadius: 5,
   },
+  beatIndicatorsDense: {
+    gap: 4,
+  },
+  beatDotDense: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  beatDotSilent: {
+    opacity: 0.3,
+  },
   reducedMotionIndicator: {
     position: 'absolute',
     top: '50%',
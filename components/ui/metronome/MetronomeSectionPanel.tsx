@@ -0,0 +1,190 @@
+/**
+ * MetronomeSectionPanel Component
+ *
+ * The song's arrangement sections, counted bar by bar:
+ * - Tap a section to jump to it and play on through the song
+ * - Loop a section to repeat it (tap again to play on from it)
+ * - Each section's tempo and meter change on its downbeat
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { LayoutList, Repeat, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { formatTimeSignature } from '@/utils/metronome';
+import type { MetronomeSection, SectionPlayback, SectionPosition } from '@/types/metronome';
+
+interface MetronomeSectionPanelProps {
+  sections: MetronomeSection[];
+  /** Section playback in progress (null when off) */
+  playback: SectionPlayback | null;
+  /** Section and bar being played (null when stopped) */
+  position: SectionPosition | null;
+  /** Jump to a section, looping it or playing on through the song */
+  onSelect: (index: number, loop: boolean) => void;
+  /** Stop following the sections */
+  onClear: () => void;
+  /** Whether the controls are disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Short details for a section (e.g., "8 bars · 132 BPM · 6/8")
+ */
+function formatSectionDetails(section: MetronomeSection): string {
+  return [
+    `${section.bars} ${section.bars === 1 ? 'bar' : 'bars'}`,
+    ...(section.bpm !== null ? [`${section.bpm} BPM`] : []),
+    ...(section.timeSignature ? [formatTimeSignature(section.timeSignature)] : []),
+  ].join(' · ');
+}
+
+export const MetronomeSectionPanel = memo(function MetronomeSectionPanel({
+  sections,
+  playback,
+  position,
+  onSelect,
+  onClear,
+  disabled = false,
+}: MetronomeSectionPanelProps) {
+  // Highlight the section being played, or the cued one before playback starts
+  const activeIndex = position?.index ?? playback?.startIndex ?? null;
+
+  const handleSelect = async (index: number, loop: boolean) => {
+    if (disabled) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelect(index, loop);
+  };
+
+  const handleClear = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClear();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <LayoutList size={12} color={Colors.warmGray} />
+        <Text style={styles.label}>SECTIONS</Text>
+        {playback && (
+          <Pressable
+            onPress={handleClear}
+            style={styles.clearButton}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel="Stop following sections"
+            accessibilityRole="button"
+          >
+            <X size={14} color={Colors.graphite} />
+          </Pressable>
+        )}
+      </View>
+
+      {sections.map((section, index) => {
+        const isActive = index === activeIndex;
+        const isLooping = isActive && !!playback?.loop;
+
+        return (
+          <View key={index} style={[styles.sectionRow, isActive && styles.sectionRowActive]}>
+            <Pressable
+              onPress={() => handleSelect(index, false)}
+              disabled={disabled}
+              style={styles.sectionInfo}
+              accessibilityLabel={`Jump to ${section.name}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.sectionName} numberOfLines={1}>
+                {section.name}
+              </Text>
+              <Text style={[styles.sectionDetails, isActive && styles.sectionDetailsActive]}>
+                {isActive && position
+                  ? `BAR ${position.bar + 1}/${section.bars}`
+                  : formatSectionDetails(section)}
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={() => handleSelect(index, !isLooping)}
+              disabled={disabled}
+              style={[styles.loopButton, isLooping && styles.loopButtonActive]}
+              accessibilityLabel={isLooping ? `Stop looping ${section.name}` : `Loop ${section.name}`}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isLooping }}
+            >
+              <Repeat size={14} color={isLooping ? Colors.softWhite : Colors.graphite} />
+            </Pressable>
+          </View>
+        );
+      })}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 2,
+  },
+  label: {
+    flex: 1,
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  clearButton: {
+    padding: 2,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 6,
+    backgroundColor: Colors.charcoal,
+    paddingRight: 6,
+  },
+  sectionRowActive: {
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.vermilion,
+  },
+  sectionInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  sectionName: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.softWhite,
+  },
+  sectionDetails: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.warmGray,
+  },
+  sectionDetailsActive: {
+    fontFamily: 'LexendDecaBold',
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+  loopButton: {
+    padding: 6,
+    borderRadius: 6,
+  },
+  loopButtonActive: {
+    backgroundColor: Colors.vermilion,
+  },
+});
+
+export default MetronomeSectionPanel;
@@ -0,0 +1,282 @@
+/**
+ * MetronomeSongPanel Component
+ *
+ * Song the metronome is counting in, with:
+ * - Load action to set the metronome to the song's tempo and time signature
+ * - Setlist mode: previous/next controls showing the adjacent songs' tempo
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { ChevronLeft, ChevronRight, Download, ListMusic, Music } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { formatSongTempo } from '@/utils/metronome';
+import type { MetronomeSong } from '@/types/metronome';
+
+interface SetlistStepButtonProps {
+  direction: 'previous' | 'next';
+  song: MetronomeSong | null;
+  onPress: () => void;
+}
+
+/**
+ * Previous/next button showing the song it moves to
+ */
+const SetlistStepButton: React.FC<SetlistStepButtonProps> = ({ direction, song, onPress }) => {
+  const isNext = direction === 'next';
+
+  const handlePress = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onPress();
+  };
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      disabled={!song}
+      style={({ pressed }) => [
+        styles.stepButton,
+        isNext && styles.stepButtonNext,
+        pressed && styles.stepButtonPressed,
+        !song && styles.stepButtonDisabled,
+      ]}
+      accessibilityLabel={
+        song ? `${isNext ? 'Next' : 'Previous'} song: ${song.title}` : `No ${direction} song`
+      }
+      accessibilityRole="button"
+    >
+      {!isNext && <ChevronLeft size={16} color={Colors.softWhite} />}
+      <View style={[styles.stepContent, isNext && styles.stepContentNext]}>
+        <Text style={styles.stepLabel}>{isNext ? 'NEXT' : 'PREV'}</Text>
+        <Text style={styles.stepTitle} numberOfLines={1}>
+          {song ? song.title : '—'}
+        </Text>
+        {song && (
+          <Text style={styles.stepTempo}>
+            {song.tempoBpm !== null ? `${song.tempoBpm} BPM` : 'No tempo'}
+          </Text>
+        )}
+      </View>
+      {isNext && <ChevronRight size={16} color={Colors.softWhite} />}
+    </Pressable>
+  );
+};
+
+interface MetronomeSongSetlist {
+  /** Setlist name */
+  name: string;
+  /** Current song index (0-based) */
+  index: number;
+  /** Number of songs in the setlist */
+  songCount: number;
+  /** Song before the current one (null at the start) */
+  previousSong: MetronomeSong | null;
+  /** Song after the current one (null at the end) */
+  nextSong: MetronomeSong | null;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+interface MetronomeSongPanelProps {
+  /** Current song (null while loading or for an empty setlist) */
+  song: MetronomeSong | null;
+  /** Callback to load the song's tempo and time signature */
+  onLoad: () => void;
+  /** Setlist being rehearsed (omit outside setlist mode) */
+  setlist?: MetronomeSongSetlist;
+  /** Whether the controls are disabled */
+  disabled?: boolean;
+}
+
+export const MetronomeSongPanel = memo(function MetronomeSongPanel({
+  song,
+  onLoad,
+  setlist,
+  disabled = false,
+}: MetronomeSongPanelProps) {
+  const handleLoad = async () => {
+    if (disabled) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onLoad();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        {setlist ? (
+          <ListMusic size={12} color={Colors.warmGray} />
+        ) : (
+          <Music size={12} color={Colors.warmGray} />
+        )}
+        <Text style={styles.label} numberOfLines={1}>
+          {setlist ? `SETLIST · ${setlist.name.toUpperCase()}` : 'SONG'}
+        </Text>
+        {setlist && setlist.songCount > 0 && (
+          <Text style={styles.position}>
+            {setlist.index + 1}/{setlist.songCount}
+          </Text>
+        )}
+      </View>
+
+      {song ? (
+        <View style={styles.songRow}>
+          <View style={styles.songInfo}>
+            <Text style={styles.songTitle} numberOfLines={1}>
+              {song.title}
+              {song.artist ? <Text style={styles.songArtist}> · {song.artist}</Text> : null}
+            </Text>
+            <Text style={styles.songTempo}>{formatSongTempo(song)}</Text>
+          </View>
+          <Pressable
+            onPress={handleLoad}
+            disabled={disabled}
+            style={({ pressed }) => [styles.loadButton, pressed && styles.loadButtonPressed]}
+            accessibilityLabel={`Load tempo from ${song.title}`}
+            accessibilityRole="button"
+          >
+            <Download size={12} color={Colors.softWhite} strokeWidth={2.5} />
+            <Text style={styles.loadText}>LOAD</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>
+          {setlist ? 'This setlist has no songs' : 'Loading song...'}
+        </Text>
+      )}
+
+      {setlist && setlist.songCount > 1 && (
+        <View style={styles.stepRow}>
+          <SetlistStepButton
+            direction="previous"
+            song={setlist.previousSong}
+            onPress={setlist.onPrevious}
+          />
+          <SetlistStepButton direction="next" song={setlist.nextSong} onPress={setlist.onNext} />
+        </View>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  position: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+  songRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  songInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  songTitle: {
+    fontSize: 14,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.softWhite,
+  },
+  songArtist: {
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+  },
+  songTempo: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.warmGray,
+    letterSpacing: 0.5,
+  },
+  loadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: Colors.vermilion,
+  },
+  loadButtonPressed: {
+    backgroundColor: Colors.vermilionDark,
+    transform: [{ scale: 0.95 }],
+  },
+  loadText: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  emptyText: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+    fontStyle: 'italic',
+  },
+  stepRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  stepButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: Colors.charcoal,
+  },
+  stepButtonNext: {
+    justifyContent: 'flex-end',
+  },
+  stepButtonPressed: {
+    backgroundColor: Colors.graphiteDark,
+  },
+  stepButtonDisabled: {
+    opacity: 0.4,
+  },
+  stepContent: {
+    flex: 1,
+  },
+  stepContentNext: {
+    alignItems: 'flex-end',
+  },
+  stepLabel: {
+    fontSize: 9,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  stepTitle: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.softWhite,
+  },
+  stepTempo: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.vermilion,
+  },
+});
+
+export default MetronomeSongPanel;
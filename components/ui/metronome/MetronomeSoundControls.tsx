@@ -0,0 +1,75 @@
+/**
+ * MetronomeSoundControls Component
+ *
+ * Click sound selectors for the metronome.
+ * Accented and normal beats use separately chosen sounds.
+ * Sounds that failed to load are left out, and the default sound shows in their place.
+ */
+
+import React, { memo, useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { CLICK_SOUND_OPTIONS, DEFAULT_CLICK_SOUND } from '@/constants/MetronomeConfig';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
+import type { ClickSound, ClickSounds } from '@/types/metronome';
+
+interface MetronomeSoundControlsProps {
+  /** Selected accent and normal click sounds */
+  clickSounds: ClickSounds;
+  /** Click sounds that failed to load and can't be chosen */
+  unavailableSounds?: ClickSound[];
+  /** Callback when a click sound is chosen */
+  onClickSoundChange: (slot: keyof ClickSounds, sound: ClickSound) => void;
+  /** Whether the controls are disabled */
+  disabled?: boolean;
+}
+
+export const MetronomeSoundControls = memo(function MetronomeSoundControls({
+  clickSounds,
+  unavailableSounds = [],
+  onClickSoundChange,
+  disabled = false,
+}: MetronomeSoundControlsProps) {
+  const options = useMemo(
+    () => CLICK_SOUND_OPTIONS.filter((option) => !unavailableSounds.includes(option.value)),
+    [unavailableSounds]
+  );
+  const shownSound = (sound: ClickSound) =>
+    unavailableSounds.includes(sound) ? DEFAULT_CLICK_SOUND : sound;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.selector}>
+        <FrequencyTuner
+          label="ACCENT SOUND"
+          options={options}
+          value={shownSound(clickSounds.accent)}
+          onChange={(sound) => onClickSoundChange('accent', sound)}
+          disabled={disabled}
+          size="compact"
+        />
+      </View>
+      <View style={styles.selector}>
+        <FrequencyTuner
+          label="BEAT SOUND"
+          options={options}
+          value={shownSound(clickSounds.normal)}
+          onChange={(sound) => onClickSoundChange('normal', sound)}
+          disabled={disabled}
+          size="compact"
+        />
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  selector: {
+    flex: 1,
+  },
+});
+
+export default MetronomeSoundControls;
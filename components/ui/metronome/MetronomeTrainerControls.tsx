@@ -0,0 +1,282 @@
+/**
+ * MetronomeTrainerControls Component
+ *
+ * Practice modes for the metronome:
+ * - Speed trainer: ramps tempo from a start BPM to a target BPM in steps
+ * - Gap click: mutes bars at random or in a set pattern to test internal time
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Minus, Plus } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import {
+  DEFAULT_GAP_CLICK,
+  TRAINER_STEP_OPTIONS,
+  TRAINER_BARS_OPTIONS,
+} from '@/constants/MetronomeConfig';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
+import { clampBpm, createTrainerSettings, getTrainerBarsToTarget } from '@/utils/metronome';
+import type { GapClickSettings, TempoTrainerSettings } from '@/types/metronome';
+
+type ToggleValue = 'off' | 'on';
+
+const TRAINER_OPTIONS: { value: ToggleValue; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'on', label: 'On' },
+];
+
+// Gap click presets (pattern values are "play+mute" bars)
+const GAP_CLICK_OPTIONS: { value: string; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'random', label: 'Random' },
+  { value: '2+1', label: 'Play 2 · Mute 1' },
+  { value: '2+2', label: 'Play 2 · Mute 2' },
+  { value: '3+1', label: 'Play 3 · Mute 1' },
+  { value: '4+4', label: 'Play 4 · Mute 4' },
+];
+
+const STEP_OPTIONS = TRAINER_STEP_OPTIONS.map((step) => ({
+  value: String(step),
+  label: `+${step} BPM`,
+}));
+const BARS_OPTIONS = TRAINER_BARS_OPTIONS.map((bars) => ({
+  value: String(bars),
+  label: bars === 1 ? 'Every bar' : `Every ${bars} bars`,
+}));
+
+// BPM change per stepper tap (hold for 1)
+const STEPPER_DELTA = 5;
+
+function getGapClickValue(gapClick: GapClickSettings): string {
+  if (gapClick.mode === 'pattern') return `${gapClick.playBars}+${gapClick.muteBars}`;
+  return gapClick.mode;
+}
+
+function parseGapClickValue(value: string): GapClickSettings {
+  if (value === 'off' || value === 'random') return { ...DEFAULT_GAP_CLICK, mode: value };
+  const [playBars, muteBars] = value.split('+').map(Number);
+  return { ...DEFAULT_GAP_CLICK, mode: 'pattern', playBars, muteBars };
+}
+
+interface BpmStepperProps {
+  label: string;
+  value: number;
+  onChange: (bpm: number) => void;
+  disabled: boolean;
+}
+
+/**
+ * Compact BPM value with -/+ buttons (tap for 5, hold for 1)
+ */
+const BpmStepper: React.FC<BpmStepperProps> = ({ label, value, onChange, disabled }) => {
+  const handleChange = async (delta: number) => {
+    if (disabled) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(clampBpm(value + delta));
+  };
+
+  return (
+    <View style={styles.stepper}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.stepperRow}>
+        <Pressable
+          onPress={() => handleChange(-STEPPER_DELTA)}
+          onLongPress={() => handleChange(-1)}
+          disabled={disabled}
+          style={({ pressed }) => [styles.stepperButton, pressed && styles.stepperButtonPressed]}
+          accessibilityLabel={`Decrease ${label.toLowerCase()}`}
+          accessibilityRole="button"
+        >
+          <Minus size={12} color={Colors.softWhite} strokeWidth={2.5} />
+        </Pressable>
+        <Text style={styles.stepperValue}>{value}</Text>
+        <Pressable
+          onPress={() => handleChange(STEPPER_DELTA)}
+          onLongPress={() => handleChange(1)}
+          disabled={disabled}
+          style={({ pressed }) => [styles.stepperButton, pressed && styles.stepperButtonPressed]}
+          accessibilityLabel={`Increase ${label.toLowerCase()}`}
+          accessibilityRole="button"
+        >
+          <Plus size={12} color={Colors.softWhite} strokeWidth={2.5} />
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+interface MetronomeTrainerControlsProps {
+  /** Tempo trainer settings (null when off) */
+  trainer: TempoTrainerSettings | null;
+  /** Gap click settings */
+  gapClick: GapClickSettings;
+  /** Song tempo used for the trainer defaults (null without a song) */
+  songBpm: number | null;
+  /** Current metronome tempo */
+  bpm: number;
+  /** Callback when the trainer is turned on/off or changed */
+  onTrainerChange: (trainer: TempoTrainerSettings | null) => void;
+  /** Callback when gap click settings change */
+  onGapClickChange: (gapClick: GapClickSettings) => void;
+  /** Whether the controls are disabled */
+  disabled?: boolean;
+}
+
+export const MetronomeTrainerControls = memo(function MetronomeTrainerControls({
+  trainer,
+  gapClick,
+  songBpm,
+  bpm,
+  onTrainerChange,
+  onGapClickChange,
+  disabled = false,
+}: MetronomeTrainerControlsProps) {
+  const handleTrainerToggle = (value: ToggleValue) => {
+    onTrainerChange(value === 'on' ? createTrainerSettings(songBpm, bpm) : null);
+  };
+
+  const updateTrainer = (updates: Partial<TempoTrainerSettings>) => {
+    if (!trainer) return;
+    const next = { ...trainer, ...updates };
+    // Keep the target at or above the start
+    if (updates.startBpm !== undefined) next.targetBpm = Math.max(next.targetBpm, next.startBpm);
+    if (updates.targetBpm !== undefined) next.startBpm = Math.min(next.startBpm, next.targetBpm);
+    onTrainerChange(next);
+  };
+
+  const barsToTarget = trainer ? getTrainerBarsToTarget(trainer) : 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.selectorRow}>
+        <View style={styles.selector}>
+          <FrequencyTuner
+            label="SPEED TRAINER"
+            options={TRAINER_OPTIONS}
+            value={trainer ? 'on' : 'off'}
+            onChange={handleTrainerToggle}
+            disabled={disabled}
+            size="compact"
+          />
+        </View>
+        <View style={styles.selector}>
+          <FrequencyTuner
+            label="GAP CLICK"
+            options={GAP_CLICK_OPTIONS}
+            value={getGapClickValue(gapClick)}
+            onChange={(value) => onGapClickChange(parseGapClickValue(value))}
+            disabled={disabled}
+            size="compact"
+          />
+        </View>
+      </View>
+
+      {trainer && (
+        <>
+          <View style={styles.selectorRow}>
+            <BpmStepper
+              label="START"
+              value={trainer.startBpm}
+              onChange={(startBpm) => updateTrainer({ startBpm })}
+              disabled={disabled}
+            />
+            <BpmStepper
+              label="TARGET"
+              value={trainer.targetBpm}
+              onChange={(targetBpm) => updateTrainer({ targetBpm })}
+              disabled={disabled}
+            />
+          </View>
+
+          <View style={styles.selectorRow}>
+            <View style={styles.selector}>
+              <FrequencyTuner
+                label="STEP"
+                options={STEP_OPTIONS}
+                value={String(trainer.stepBpm)}
+                onChange={(value) => updateTrainer({ stepBpm: Number(value) })}
+                disabled={disabled}
+                size="compact"
+              />
+            </View>
+            <View style={styles.selector}>
+              <FrequencyTuner
+                label="EVERY"
+                options={BARS_OPTIONS}
+                value={String(trainer.barsPerStep)}
+                onChange={(value) => updateTrainer({ barsPerStep: Number(value) })}
+                disabled={disabled}
+                size="compact"
+              />
+            </View>
+          </View>
+
+          <Text style={styles.summary}>
+            {trainer.startBpm} → {trainer.targetBpm} BPM
+            {barsToTarget > 0 ? ` · target in ${barsToTarget} bars` : ''}
+            {songBpm ? ` · song ${songBpm} BPM` : ''}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  selectorRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  selector: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  stepper: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 6,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperButton: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: Colors.charcoal,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonPressed: {
+    backgroundColor: Colors.graphiteDark,
+    transform: [{ scale: 0.95 }],
+  },
+  stepperValue: {
+    minWidth: 36,
+    fontSize: 18,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.softWhite,
+    textAlign: 'center',
+  },
+  summary: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+    textAlign: 'center',
+    letterSpacing: 0.5,
+  },
+});
+
+export default MetronomeTrainerControls;
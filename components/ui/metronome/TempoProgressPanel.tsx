@@ -0,0 +1,160 @@
+/**
+ * TempoProgressPanel Component
+ *
+ * Tempo progress for the song a metronome session was started from.
+ * Shows the song tempo, the best tempo reached, and a bar per recent session.
+ */
+
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { TrendingUp } from 'lucide-react-native';
+import { Colors } from '@/constants/Colors';
+import type { MetronomeSong, TempoSession } from '@/types/metronome';
+
+const CHART_HEIGHT = 48;
+
+interface TempoProgressPanelProps {
+  /** Song the session was started from */
+  song: MetronomeSong;
+  /** Logged sessions, oldest first */
+  sessions: TempoSession[];
+  /** Fastest tempo reached */
+  bestBpm: number | null;
+}
+
+export const TempoProgressPanel = memo(function TempoProgressPanel({
+  song,
+  sessions,
+  bestBpm,
+}: TempoProgressPanelProps) {
+  // Scale bars to the song tempo (or the fastest session if it went past it)
+  const chartMax = Math.max(song.tempoBpm ?? 0, bestBpm ?? 0, 1);
+  const bestPercent =
+    bestBpm !== null && song.tempoBpm ? Math.round((bestBpm / song.tempoBpm) * 100) : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <TrendingUp size={12} color={Colors.warmGray} />
+        <Text style={styles.label}>TEMPO PROGRESS</Text>
+      </View>
+
+      <Text style={styles.songTitle} numberOfLines={1}>
+        {song.title}
+        {song.artist ? <Text style={styles.songArtist}> · {song.artist}</Text> : null}
+      </Text>
+
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{song.tempoBpm ?? '—'}</Text>
+          <Text style={styles.statLabel}>SONG BPM</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={[styles.statValue, styles.statValueBest]}>{bestBpm ?? '—'}</Text>
+          <Text style={styles.statLabel}>
+            {bestPercent !== null ? `BEST · ${bestPercent}%` : 'BEST'}
+          </Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue}>{sessions.length}</Text>
+          <Text style={styles.statLabel}>SESSIONS</Text>
+        </View>
+      </View>
+
+      {sessions.length > 0 ? (
+        <View style={styles.chart} accessibilityLabel="Tempo reached in recent sessions">
+          {sessions.map((session) => (
+            <View key={session.id} style={styles.chartColumn}>
+              <View
+                style={[
+                  styles.chartBar,
+                  { height: Math.max(2, (session.reachedBpm / chartMax) * CHART_HEIGHT) },
+                  session.reachedBpm === bestBpm && styles.chartBarBest,
+                ]}
+              />
+            </View>
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>Stop the metronome to log a session</Text>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  songTitle: {
+    fontSize: 14,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.softWhite,
+  },
+  songArtist: {
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 18,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.softWhite,
+  },
+  statValueBest: {
+    color: Colors.vermilion,
+  },
+  statLabel: {
+    fontSize: 9,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+  },
+  chartColumn: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  chartBar: {
+    borderRadius: 2,
+    backgroundColor: Colors.moss,
+  },
+  chartBarBest: {
+    backgroundColor: Colors.vermilion,
+  },
+  emptyText: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+});
+
+export default TempoProgressPanel;
@@ -5,3 +5,9 @@
 export { MetronomePendulum } from './MetronomePendulum';
 export { MetronomeControls } from './MetronomeControls';
 export { MetronomeBPMDisplay } from './MetronomeBPMDisplay';
+export { MetronomeMeterControls } from './MetronomeMeterControls';
+export { MetronomeSoundControls } from './MetronomeSoundControls';
+export { MetronomeTrainerControls } from './MetronomeTrainerControls';
+export { TempoProgressPanel } from './TempoProgressPanel';
+export { MetronomeSongPanel } from './MetronomeSongPanel';
+export { MetronomeSectionPanel } from './MetronomeSectionPanel';
@@ -0,0 +1,335 @@
+/**
+ * SongImportModal Component
+ *
+ * Preview of songs read from picked chart files before they're added.
+ * Shows what was found in each file, flags songs already in the library
+ * and lets the user choose which to import.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, ScrollView } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { X, Check, FileText, AlertTriangle } from 'lucide-react-native';
+import { Colors } from '@/constants/Colors';
+import { Typography } from '@/constants/Styles';
+import { SONG_IMPORT_FORMAT_LABELS } from '@/constants/SongImportConfig';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import type { ImportedSong, SongImportItem } from '@/types/songImport';
+
+interface SongImportModalProps {
+  /** Whether the modal is visible */
+  visible: boolean;
+  /** Previewed files */
+  items: SongImportItem[];
+  /** Instrument the songs are added under */
+  instrument: 'Guitar' | 'Bass';
+  /** Whether the chosen songs are being saved */
+  isSaving: boolean;
+  /** Error to show above the import button */
+  error: string | null;
+  /** Include or leave out a song */
+  onToggle: (id: string) => void;
+  /** Save the chosen songs */
+  onImport: () => void;
+  /** Called when modal is closed */
+  onClose: () => void;
+}
+
+/**
+ * What was found in a file (e.g., "ChordPro · A Minor · 96 BPM · 5 sections")
+ */
+function formatImportDetails(format: SongImportItem['format'], song: ImportedSong): string {
+  const sectionCount = song.arrangement?.sections.length ?? 0;
+  return [
+    ...(format ? [SONG_IMPORT_FORMAT_LABELS[format]] : []),
+    ...(song.key ? [song.key] : []),
+    ...(song.tempo ? [song.tempo] : []),
+    ...(song.chords.length > 0 ? [`${song.chords.length} chords`] : []),
+    ...(sectionCount > 0 ? [`${sectionCount} ${sectionCount === 1 ? 'section' : 'sections'}`] : []),
+    ...(song.lyrics ? ['lyrics'] : []),
+  ].join(' · ');
+}
+
+export const SongImportModal: React.FC<SongImportModalProps> = ({
+  visible,
+  items,
+  instrument,
+  isSaving,
+  error,
+  onToggle,
+  onImport,
+  onClose,
+}) => {
+  const selectedCount = items.filter((item) => item.selected).length;
+  const readableCount = items.filter((item) => item.song).length;
+
+  const handleClose = async () => {
+    if (isSaving) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClose();
+  };
+
+  const handleToggle = async (id: string) => {
+    if (isSaving) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onToggle(id);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>IMPORT SONGS</Text>
+            <Pressable
+              onPress={handleClose}
+              style={styles.closeButton}
+              disabled={isSaving}
+              accessibilityLabel="Close import"
+              accessibilityRole="button"
+            >
+              <X size={20} color={Colors.graphite} />
+            </Pressable>
+          </View>
+
+          {/* Summary */}
+          <View style={styles.summary}>
+            <Text style={styles.summaryLabel}>
+              {readableCount} OF {items.length} {items.length === 1 ? 'FILE' : 'FILES'} READ · ADDED AS{' '}
+              {instrument.toUpperCase()}
+            </Text>
+          </View>
+
+          {/* File List */}
+          <ScrollView style={styles.itemList} showsVerticalScrollIndicator={false}>
+            {items.map((item) =>
+              item.song ? (
+                <Pressable
+                  key={item.id}
+                  onPress={() => handleToggle(item.id)}
+                  style={[styles.itemRow, item.selected && styles.itemRowSelected]}
+                  disabled={isSaving}
+                  accessibilityLabel={`${item.song.title} by ${item.song.artist}`}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: item.selected }}
+                >
+                  <View style={[styles.checkbox, item.selected && styles.checkboxSelected]}>
+                    {item.selected && <Check size={12} color={Colors.softWhite} strokeWidth={3} />}
+                  </View>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemTitle} numberOfLines={1}>
+                      {item.song.title}
+                    </Text>
+                    <Text style={styles.itemArtist} numberOfLines={1}>
+                      {item.song.artist}
+                    </Text>
+                    <Text style={styles.itemDetails} numberOfLines={2}>
+                      {formatImportDetails(item.format, item.song)}
+                    </Text>
+                  </View>
+                  {item.duplicate && (
+                    <View style={styles.duplicateBadge}>
+                      <Text style={styles.duplicateText}>
+                        {item.duplicate === 'library' ? 'IN LIBRARY' : 'DUPLICATE'}
+                      </Text>
+                    </View>
+                  )}
+                </Pressable>
+              ) : (
+                <View key={item.id} style={[styles.itemRow, styles.itemRowError]}>
+                  <AlertTriangle size={16} color={Colors.vermilion} />
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemTitle} numberOfLines={1}>
+                      {item.fileName}
+                    </Text>
+                    <Text style={styles.itemError}>{item.error}</Text>
+                  </View>
+                </View>
+              )
+            )}
+
+            {items.length === 0 && (
+              <View style={styles.emptyState}>
+                <FileText size={24} color={Colors.graphite} />
+                <Text style={styles.emptyText}>No files picked</Text>
+              </View>
+            )}
+          </ScrollView>
+
+          {/* Footer */}
+          <View style={styles.footer}>
+            {error && <Text style={styles.errorText}>{error}</Text>}
+            <PrimaryButton
+              onPress={onImport}
+              label={
+                selectedCount > 0
+                  ? `IMPORT ${selectedCount} ${selectedCount === 1 ? 'SONG' : 'SONGS'}`
+                  : 'NOTHING SELECTED'
+              }
+              variant="primary"
+              size="standard"
+              disabled={selectedCount === 0}
+              loading={isSaving}
+              accessibilityLabel="Import selected songs"
+              accessibilityHint="Adds the selected songs to your library"
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  container: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    backgroundColor: Colors.matteFog,
+    borderRadius: 16,
+    overflow: 'hidden',
+    // Shadow
+    shadowColor: Colors.ink,
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.4,
+    shadowRadius: 16,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.1)',
+  },
+  title: {
+    ...Typography.label,
+    fontSize: 14,
+    color: Colors.vermilion,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: Colors.alloy,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  summary: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: Colors.alloy,
+  },
+  summaryLabel: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    letterSpacing: 1,
+    color: Colors.graphite,
+  },
+  itemList: {
+    padding: 16,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.softWhite,
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.06)',
+  },
+  itemRowSelected: {
+    borderColor: Colors.charcoal,
+  },
+  itemRowError: {
+    backgroundColor: 'rgba(0,0,0,0.03)',
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    borderColor: Colors.graphite,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: Colors.charcoal,
+    borderColor: Colors.charcoal,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.charcoal,
+  },
+  itemArtist: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.charcoal,
+    marginTop: 1,
+  },
+  itemDetails: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+    marginTop: 4,
+  },
+  itemError: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.vermilion,
+    marginTop: 2,
+  },
+  duplicateBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: Colors.alloy,
+  },
+  duplicateText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 9,
+    letterSpacing: 1,
+    color: Colors.warmGray,
+  },
+  emptyState: {
+    padding: 24,
+    alignItems: 'center',
+    gap: 8,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.graphite,
+  },
+  footer: {
+    padding: 16,
+    gap: 10,
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(0,0,0,0.1)',
+  },
+  errorText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.vermilion,
+    textAlign: 'center',
+  },
+});
+
+export default SongImportModal;
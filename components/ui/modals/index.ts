@@ -2,3 +2,4 @@ export { StyledAlertModal } from './StyledAlertModal';
 export type { AlertType } from './StyledAlertModal';
 export { VoiceMemoModal } from './VoiceMemoModal';
 export { ShareToBandModal } from './ShareToBandModal';
+export { SongImportModal } from './SongImportModal';
@@ -0,0 +1,216 @@
+/**
+ * ArrangementSectionsPanel Component
+ *
+ * The song's arrangement sections, placed on the audio from the song tempo:
+ * - Tap a section to jump to it
+ * - Loop a section as the A-B loop
+ * - Set where bar 1 starts in the file
+ */
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Flag, Repeat } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import type { ArrangementSection, ArrangementSectionTiming } from '@/types/arrangement';
+
+interface ArrangementSectionsPanelProps {
+  sections: ArrangementSection[];
+  /** Timing of each section, in the same order */
+  timings: ArrangementSectionTiming[];
+  /** Playhead position (ms) */
+  positionMs: number;
+  /** Current loop, to mark a section being looped */
+  loopStartMs: number;
+  loopEndMs: number;
+  hasLoop: boolean;
+  onJump: (timing: ArrangementSectionTiming) => void;
+  onLoop: (timing: ArrangementSectionTiming) => void;
+  /** Mark the playhead as bar 1 (omit when the arrangement can't be saved) */
+  onSetBarOne?: () => void;
+}
+
+/**
+ * Format milliseconds as M:SS
+ */
+function formatSectionTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+}
+
+export const ArrangementSectionsPanel: React.FC<ArrangementSectionsPanelProps> = ({
+  sections,
+  timings,
+  positionMs,
+  loopStartMs,
+  loopEndMs,
+  hasLoop,
+  onJump,
+  onLoop,
+  onSetBarOne,
+}) => {
+  const isTimed = timings.some((timing) => timing.startMs !== null);
+
+  const handleJump = async (timing: ArrangementSectionTiming) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onJump(timing);
+  };
+
+  const handleLoop = async (timing: ArrangementSectionTiming) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onLoop(timing);
+  };
+
+  const handleSetBarOne = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSetBarOne?.();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.label}>SECTIONS</Text>
+        {onSetBarOne && (
+          <Pressable
+            style={styles.barOneButton}
+            onPress={handleSetBarOne}
+            accessibilityLabel="Set bar 1 at the playhead"
+            accessibilityRole="button"
+          >
+            <Flag size={12} color={Colors.softWhite} />
+            <Text style={styles.barOneText}>BAR 1 HERE</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {!isTimed && (
+        <Text style={styles.emptyText}>Add a song tempo to place sections on the audio</Text>
+      )}
+
+      {sections.map((section, index) => {
+        const timing = timings[index];
+        const { startMs, endMs } = timing;
+        const isTimedSection = startMs !== null && endMs !== null;
+        const isCurrent = isTimedSection && positionMs >= startMs && positionMs < endMs;
+        const isLooped =
+          isTimedSection &&
+          hasLoop &&
+          Math.round(loopStartMs) === Math.round(startMs) &&
+          Math.round(loopEndMs) === Math.round(endMs);
+
+        return (
+          <View key={section.id} style={[styles.sectionRow, isCurrent && styles.sectionRowCurrent]}>
+            <Pressable
+              style={styles.sectionInfo}
+              onPress={() => handleJump(timing)}
+              disabled={!isTimedSection}
+              accessibilityLabel={`Jump to ${section.name}`}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: !isTimedSection }}
+            >
+              <Text style={styles.sectionName} numberOfLines={1}>
+                {section.name}
+              </Text>
+              <Text style={styles.sectionTime}>
+                {isTimedSection
+                  ? `${formatSectionTime(startMs)} – ${formatSectionTime(endMs)}`
+                  : `${timing.bars} bars`}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={[styles.loopButton, isLooped && styles.loopButtonActive]}
+              onPress={() => handleLoop(timing)}
+              disabled={!isTimedSection}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityLabel={`Loop ${section.name}`}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: !isTimedSection, selected: isLooped }}
+            >
+              <Repeat size={14} color={isLooped ? Colors.softWhite : Colors.graphite} />
+            </Pressable>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.alloy,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+  },
+  barOneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.charcoal,
+  },
+  barOneText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.alloy,
+    borderRadius: 8,
+    paddingRight: 10,
+  },
+  sectionRowCurrent: {
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.vermilion,
+  },
+  sectionInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  sectionName: {
+    flex: 1,
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.ink,
+  },
+  sectionTime: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  loopButton: {
+    padding: 4,
+    borderRadius: 6,
+  },
+  loopButtonActive: {
+    backgroundColor: Colors.moss,
+  },
+});
@@ -4,11 +4,14 @@
  * Full-screen modal for audio practice with:
  * - File picker for MP3/WAV files
  * - Pitch-preserved speed control
- * - A-B loop repeat
+ * - A-B loop repeat, set on a zoomable waveform
+ * - Named loops saved with the song
+ * - Speed ladder: the loop climbs from 0.5× after clean passes
+ * - Jump to or loop a section of the song's arrangement
  * - Practice notes
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -31,8 +34,19 @@ import {
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { Colors } from '@/constants/Colors';
-import { usePracticePlayer } from '@/hooks/usePracticePlayer';
+import { WAVEFORM_CONFIG, type WaveformZoom } from '@/constants/PracticePlayerConfig';
+import { useAudioWaveform } from '@/hooks/useAudioWaveform';
+import { usePracticeLoops } from '@/hooks/usePracticeLoops';
+import { useSpeedLadder } from '@/hooks/useSpeedLadder';
+import { getViewWindow } from '@/utils/waveform';
+import { getArrangementTimings } from '@/utils/arrangement';
+import type { ArrangementSectionTiming, SongArrangement } from '@/types/arrangement';
+import type { LoopSnapMode, SavedLoop, UsePracticePlayerReturn } from '@/types/practicePlayer';
 import { PlaybackControls } from './PlaybackControls';
+import { WaveformPanel } from './WaveformPanel';
+import { SavedLoopsPanel } from './SavedLoopsPanel';
+import { SpeedLadderPanel } from './SpeedLadderPanel';
+import { ArrangementSectionsPanel } from './ArrangementSectionsPanel';
 
 interface PracticePlayerModalProps {
   visible: boolean;
@@ -43,6 +57,18 @@ interface PracticePlayerModalProps {
   onNotesChange?: (notes: string) => void;
   /** Song title for display */
   songTitle?: string;
+  /** Saved song id; named loops are stored with the song */
+  songId?: string;
+  /** Practice player, owned by the song screen so lyrics can follow it */
+  player: UsePracticePlayerReturn;
+  /** Song arrangement, for jumping to and looping sections */
+  arrangement?: SongArrangement | null;
+  /** Song tempo in BPM, for placing sections on the audio */
+  songBpm?: number | null;
+  /** Song time signature (e.g., "6/8") */
+  songTimeSignature?: string | null;
+  /** Callback to save the arrangement (sets where bar 1 starts) */
+  onArrangementChange?: (arrangement: SongArrangement) => void;
 }
 
 /**
@@ -60,13 +86,68 @@ export const PracticePlayerModal: React.FC<PracticePlayerModalProps> = ({
   initialNotes = '',
   onNotesChange,
   songTitle,
+  songId,
+  player,
+  arrangement = null,
+  songBpm = null,
+  songTimeSignature = null,
+  onArrangementChange,
 }) => {
   const scaleAnim = useRef(new Animated.Value(0.95)).current;
   const opacityAnim = useRef(new Animated.Value(0)).current;
-  const player = usePracticePlayer();
+  const waveformState = useAudioWaveform(player.audioFile);
+  const practiceLoops = usePracticeLoops(songId);
 
   const [notes, setNotes] = useState(initialNotes);
   const [showNotes, setShowNotes] = useState(false);
+  const [zoom, setZoom] = useState<WaveformZoom>(1);
+  const [viewCenterMs, setViewCenterMs] = useState(0);
+  const [snapMode, setSnapMode] = useState<LoopSnapMode>('zero');
+  const [loopError, setLoopError] = useState<string | null>(null);
+
+  // Loop handles: B sits at the end of the file until a loop is set
+  const { waveform, snapPosition } = waveformState;
+  const durationMs = waveform?.durationMs ?? player.status?.durationMs ?? 0;
+  const hasLoop = player.loopRegion.endMs > player.loopRegion.startMs;
+  const loopStartMs = player.loopRegion.startMs;
+  const loopEndMs = hasLoop ? player.loopRegion.endMs : durationMs;
+  const viewWindow = getViewWindow(durationMs, zoom, viewCenterMs);
+
+  const activeLoopId = useMemo(
+    () =>
+      hasLoop
+        ? practiceLoops.loops.find(
+            (loop) =>
+              loop.startMs === Math.round(loopStartMs) && loop.endMs === Math.round(loopEndMs)
+          )?.id ?? null
+        : null,
+    [hasLoop, practiceLoops.loops, loopStartMs, loopEndMs]
+  );
+
+  const sectionTimings = useMemo(
+    () => (arrangement ? getArrangementTimings(arrangement, songBpm, songTimeSignature) : []),
+    [arrangement, songBpm, songTimeSignature]
+  );
+
+  const activeLoop = practiceLoops.loops.find((loop) => loop.id === activeLoopId) ?? null;
+
+  // Record the fastest clean ladder rate against the saved loop being practiced
+  const { recordSpeed } = practiceLoops;
+  const handleLadderFinish = useCallback(
+    (reachedRate: number | null) => {
+      if (reachedRate === null || !activeLoopId) return;
+      recordSpeed(activeLoopId, reachedRate).catch(() => {
+        setLoopError('Failed to record loop speed');
+      });
+    },
+    [activeLoopId, recordSpeed]
+  );
+  const ladder = useSpeedLadder(player, handleLadderFinish);
+
+  // Show the whole file when a new one is decoded
+  useEffect(() => {
+    setZoom(1);
+  }, [waveform]);
 
   // Sync notes with prop
   useEffect(() => {
@@ -95,10 +176,11 @@ export const PracticePlayerModal: React.FC<PracticePlayerModalProps> = ({
     }
   }, [visible, scaleAnim, opacityAnim]);
 
-  // Cleanup on close
+  // Stop practice on close; the file stays loaded for lyrics follow mode
   useEffect(() => {
     if (!visible) {
-      player.unload();
+      ladder.stop();
+      player.pause();
     }
   }, [visible]);
 
@@ -158,6 +240,101 @@ export const PracticePlayerModal: React.FC<PracticePlayerModalProps> = ({
     player.setLoopRegion({ enabled: !player.loopRegion.enabled });
   }, [player]);
 
+  const handleZoomChange = useCallback(
+    (newZoom: WaveformZoom) => {
+      // Zoom in around the loop, or the playhead when there isn't one
+      setViewCenterMs(
+        hasLoop ? (loopStartMs + loopEndMs) / 2 : (player.status?.positionMs ?? 0)
+      );
+      setZoom(newZoom);
+    },
+    [hasLoop, loopStartMs, loopEndMs, player.status?.positionMs]
+  );
+
+  const handleLoopStartChange = useCallback(
+    (positionMs: number) => {
+      const startMs = Math.min(
+        Math.max(0, snapPosition(positionMs, snapMode)),
+        loopEndMs - WAVEFORM_CONFIG.minLoopMs
+      );
+      player.setLoopRegion({ startMs, endMs: loopEndMs, enabled: true });
+    },
+    [player, snapPosition, snapMode, loopEndMs]
+  );
+
+  const handleLoopEndChange = useCallback(
+    (positionMs: number) => {
+      const endMs = Math.max(
+        Math.min(durationMs, snapPosition(positionMs, snapMode)),
+        loopStartMs + WAVEFORM_CONFIG.minLoopMs
+      );
+      player.setLoopRegion({ startMs: loopStartMs, endMs, enabled: true });
+    },
+    [player, snapPosition, snapMode, durationMs, loopStartMs]
+  );
+
+  const handleSaveLoop = useCallback(
+    async (name: string) => {
+      setLoopError(null);
+      try {
+        await practiceLoops.saveLoop(name, loopStartMs, loopEndMs);
+      } catch {
+        setLoopError('Failed to save loop');
+      }
+    },
+    [practiceLoops, loopStartMs, loopEndMs]
+  );
+
+  const handleSelectLoop = useCallback(
+    (loop: SavedLoop) => {
+      player.setLoopRegion({ startMs: loop.startMs, endMs: loop.endMs, enabled: true });
+      player.seekTo(loop.startMs);
+      setViewCenterMs((loop.startMs + loop.endMs) / 2);
+    },
+    [player]
+  );
+
+  const handleJumpToSection = useCallback(
+    (timing: ArrangementSectionTiming) => {
+      if (timing.startMs === null) return;
+      player.seekTo(timing.startMs);
+      setViewCenterMs(timing.startMs);
+    },
+    [player]
+  );
+
+  const handleLoopSection = useCallback(
+    (timing: ArrangementSectionTiming) => {
+      if (timing.startMs === null || timing.endMs === null) return;
+      const endMs = durationMs > 0 ? Math.min(timing.endMs, durationMs) : timing.endMs;
+      if (endMs - timing.startMs < WAVEFORM_CONFIG.minLoopMs) return;
+      player.setLoopRegion({ startMs: timing.startMs, endMs, enabled: true });
+      player.seekTo(timing.startMs);
+      setViewCenterMs((timing.startMs + endMs) / 2);
+    },
+    [player, durationMs]
+  );
+
+  const handleSetBarOne = useCallback(() => {
+    if (!arrangement || !onArrangementChange) return;
+    onArrangementChange({
+      ...arrangement,
+      startOffsetMs: Math.round(player.status?.positionMs ?? 0),
+    });
+  }, [arrangement, onArrangementChange, player.status?.positionMs]);
+
+  const handleDeleteLoop = useCallback(
+    async (loop: SavedLoop) => {
+      setLoopError(null);
+      try {
+        await practiceLoops.deleteLoop(loop.id);
+      } catch {
+        setLoopError('Failed to delete loop');
+      }
+    },
+    [practiceLoops]
+  );
+
   const handleToggleNotes = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setShowNotes(!showNotes);
@@ -256,6 +433,54 @@ export const PracticePlayerModal: React.FC<PracticePlayerModalProps> = ({
               )}
             </View>
 
+            {/* Waveform and Saved Loops */}
+            {player.audioFile && (
+              <View style={[styles.controlsSection, styles.waveformSection]}>
+                <WaveformPanel
+                  waveform={waveform}
+                  isLoading={waveformState.isLoading}
+                  error={waveformState.error}
+                  positionMs={player.status?.positionMs ?? 0}
+                  loopStartMs={loopStartMs}
+                  loopEndMs={loopEndMs}
+                  loopEnabled={player.loopRegion.enabled}
+                  viewStartMs={viewWindow.startMs}
+                  viewEndMs={viewWindow.endMs}
+                  zoom={zoom}
+                  snapMode={snapMode}
+                  onZoomChange={handleZoomChange}
+                  onSnapModeChange={setSnapMode}
+                  onLoopStartChange={handleLoopStartChange}
+                  onLoopEndChange={handleLoopEndChange}
+                  onSeek={handleSeek}
+                />
+                <SavedLoopsPanel
+                  loops={practiceLoops.loops}
+                  canSave={hasLoop}
+                  hasSong={!!songId}
+                  isLoading={practiceLoops.isLoading}
+                  activeLoopId={activeLoopId}
+                  onSave={handleSaveLoop}
+                  onSelect={handleSelectLoop}
+                  onDelete={handleDeleteLoop}
+                />
+                <SpeedLadderPanel ladder={ladder} hasLoop={hasLoop} activeLoop={activeLoop} />
+                {arrangement && arrangement.sections.length > 0 && (
+                  <ArrangementSectionsPanel
+                    sections={arrangement.sections}
+                    timings={sectionTimings}
+                    positionMs={player.status?.positionMs ?? 0}
+                    loopStartMs={loopStartMs}
+                    loopEndMs={loopEndMs}
+                    hasLoop={hasLoop}
+                    onJump={handleJumpToSection}
+                    onLoop={handleLoopSection}
+                    onSetBarOne={onArrangementChange ? handleSetBarOne : undefined}
+                  />
+                )}
+              </View>
+            )}
+
             {/* Playback Controls */}
             {player.audioFile && (
               <View style={styles.controlsSection}>
@@ -275,9 +500,11 @@ export const PracticePlayerModal: React.FC<PracticePlayerModalProps> = ({
             )}
 
             {/* Error Display */}
-            {player.error && (
+            {(player.error || loopError || practiceLoops.error) && (
               <View style={styles.errorContainer}>
-                <Text style={styles.errorText}>{player.error}</Text>
+                <Text style={styles.errorText}>
+                  {player.error || loopError || practiceLoops.error}
+                </Text>
               </View>
             )}
 
@@ -464,6 +691,9 @@ const styles = StyleSheet.create({
     borderBottomColor: 'rgba(255,255,255,0.8)',
     borderRightColor: 'rgba(255,255,255,0.8)',
   },
+  waveformSection: {
+    gap: 16,
+  },
   errorContainer: {
     backgroundColor: 'rgba(238, 108, 77, 0.1)',
     borderRadius: 8,
@@ -0,0 +1,257 @@
+/**
+ * SavedLoopsPanel Component
+ *
+ * Named A-B loops saved with the song:
+ * - Name and save the current loop ("solo", "bridge riff")
+ * - Tap a saved loop to play it
+ * - Fastest clean speed ladder rate per loop
+ * - Delete a saved loop
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet } from 'react-native';
+import { Bookmark, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { MAX_LOOP_NAME_LENGTH } from '@/constants/PracticePlayerConfig';
+import { getBestLoopRate } from '@/utils/practicePlayer';
+import type { SavedLoop } from '@/types/practicePlayer';
+
+interface SavedLoopsPanelProps {
+  loops: SavedLoop[];
+  /** Whether loops can be saved (song is saved and a loop is set) */
+  canSave: boolean;
+  /** Whether the song has been saved yet */
+  hasSong: boolean;
+  isLoading: boolean;
+  /** Id of the saved loop currently set, if any */
+  activeLoopId: string | null;
+  onSave: (name: string) => Promise<void>;
+  onSelect: (loop: SavedLoop) => void;
+  onDelete: (loop: SavedLoop) => void;
+}
+
+/**
+ * Format milliseconds as M:SS.s
+ */
+function formatLoopTime(ms: number): string {
+  const totalTenths = Math.round(ms / 100);
+  const minutes = Math.floor(totalTenths / 600);
+  const seconds = ((totalTenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+}
+
+/**
+ * Format a playback rate (e.g., 0.75×, 1×)
+ */
+function formatRate(rate: number): string {
+  return `${rate.toFixed(2).replace(/\.?0+$/, '')}×`;
+}
+
+export const SavedLoopsPanel: React.FC<SavedLoopsPanelProps> = ({
+  loops,
+  canSave,
+  hasSong,
+  isLoading,
+  activeLoopId,
+  onSave,
+  onSelect,
+  onDelete,
+}) => {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const trimmedName = name.trim();
+  const saveDisabled = !canSave || trimmedName.length === 0 || isSaving;
+
+  const handleSave = async () => {
+    if (saveDisabled) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    setIsSaving(true);
+    try {
+      await onSave(trimmedName);
+      setName('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = async (loop: SavedLoop) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelect(loop);
+  };
+
+  const handleDelete = async (loop: SavedLoop) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onDelete(loop);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>SAVED LOOPS</Text>
+
+      {!hasSong ? (
+        <Text style={styles.emptyText}>Save the song to keep named loops with it</Text>
+      ) : (
+        <>
+          <View style={styles.saveRow}>
+            <TextInput
+              style={styles.nameInput}
+              value={name}
+              onChangeText={setName}
+              onSubmitEditing={handleSave}
+              placeholder={canSave ? 'Name this loop, e.g. solo' : 'Set A and B first'}
+              placeholderTextColor={Colors.graphite}
+              maxLength={MAX_LOOP_NAME_LENGTH}
+              editable={canSave}
+              returnKeyType="done"
+              accessibilityLabel="Loop name"
+            />
+            <Pressable
+              style={[styles.saveButton, saveDisabled && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={saveDisabled}
+              accessibilityLabel="Save loop"
+              accessibilityRole="button"
+              accessibilityState={{ disabled: saveDisabled }}
+            >
+              <Bookmark size={14} color={Colors.softWhite} />
+              <Text style={styles.saveButtonText}>SAVE</Text>
+            </Pressable>
+          </View>
+
+          {isLoading ? (
+            <Text style={styles.emptyText}>Loading...</Text>
+          ) : loops.length === 0 ? (
+            <Text style={styles.emptyText}>No saved loops yet</Text>
+          ) : (
+            loops.map((loop) => {
+              const isActive = loop.id === activeLoopId;
+              const bestRate = getBestLoopRate(loop);
+              return (
+                <View key={loop.id} style={[styles.loopRow, isActive && styles.loopRowActive]}>
+                  <Pressable
+                    style={styles.loopInfo}
+                    onPress={() => handleSelect(loop)}
+                    accessibilityLabel={`Play loop ${loop.name}`}
+                    accessibilityRole="button"
+                  >
+                    <Text
+                      style={[styles.loopName, isActive && styles.loopTextActive]}
+                      numberOfLines={1}
+                    >
+                      {loop.name}
+                    </Text>
+                    <Text style={[styles.loopTime, isActive && styles.loopTextActive]}>
+                      {formatLoopTime(loop.startMs)} – {formatLoopTime(loop.endMs)}
+                      {bestRate !== null ? ` · ${formatRate(bestRate)}` : ''}
+                    </Text>
+                  </Pressable>
+                  <Pressable
+                    style={styles.deleteButton}
+                    onPress={() => handleDelete(loop)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    accessibilityLabel={`Delete loop ${loop.name}`}
+                    accessibilityRole="button"
+                  >
+                    <Trash2 size={14} color={isActive ? Colors.softWhite : Colors.graphite} />
+                  </Pressable>
+                </View>
+              );
+            })
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.alloy,
+  },
+  label: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  nameInput: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 13,
+    color: Colors.ink,
+    backgroundColor: Colors.alloy,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    borderRadius: 8,
+    backgroundColor: Colors.charcoal,
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  loopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.alloy,
+    borderRadius: 8,
+    paddingRight: 10,
+  },
+  loopRowActive: {
+    backgroundColor: Colors.moss,
+  },
+  loopInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+  },
+  loopName: {
+    flex: 1,
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.ink,
+  },
+  loopTime: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  loopTextActive: {
+    color: Colors.softWhite,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,375 @@
+/**
+ * SpeedLadderPanel Component
+ *
+ * Progressive-speed loop practice:
+ * - Clean passes per rung, target rate and pause between passes
+ * - Current rate, clean pass counter and total passes while climbing
+ * - Mark a pass as not clean so it doesn't count
+ * - Fastest clean rate per day for the selected saved loop
+ */
+
+import React, { useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { TrendingUp, Square, XCircle } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import {
+  SPEED_LADDER_CONFIG,
+  LADDER_PASS_OPTIONS,
+  LADDER_TARGET_OPTIONS,
+  LADDER_PAUSE_OPTIONS,
+} from '@/constants/PracticePlayerConfig';
+import { getBestLoopRate } from '@/utils/practicePlayer';
+import type {
+  SavedLoop,
+  SpeedLadderSettings,
+  UseSpeedLadderReturn,
+} from '@/types/practicePlayer';
+
+const HISTORY_HEIGHT = 32;
+
+interface SpeedLadderPanelProps {
+  ladder: UseSpeedLadderReturn;
+  /** Whether an A-B loop is set */
+  hasLoop: boolean;
+  /** Saved loop currently set, whose speed history is shown */
+  activeLoop: SavedLoop | null;
+}
+
+interface OptionRowProps {
+  label: string;
+  options: readonly number[];
+  value: number;
+  format: (value: number) => string;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Format a playback rate (e.g., 0.75×, 1×)
+ */
+function formatRate(rate: number): string {
+  return `${rate.toFixed(2).replace(/\.?0+$/, '')}×`;
+}
+
+/**
+ * One row of setting chips
+ */
+function OptionRow({ label, options, value, format, disabled, onChange }: OptionRowProps) {
+  return (
+    <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>{label}</Text>
+      {options.map((option) => {
+        const isActive = option === value;
+        return (
+          <Pressable
+            key={option}
+            style={[styles.chip, isActive && styles.chipActive, disabled && styles.chipDisabled]}
+            onPress={() => onChange(option)}
+            disabled={disabled}
+            accessibilityLabel={`${label} ${format(option)}`}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isActive, disabled }}
+          >
+            <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+              {format(option)}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+export const SpeedLadderPanel: React.FC<SpeedLadderPanelProps> = ({
+  ladder,
+  hasLoop,
+  activeLoop,
+}) => {
+  const [settings, setSettings] = useState<SpeedLadderSettings>({
+    targetRate: SPEED_LADDER_CONFIG.defaultTargetRate,
+    passesPerStep: SPEED_LADDER_CONFIG.defaultPassesPerStep,
+    pauseSeconds: SPEED_LADDER_CONFIG.defaultPauseSeconds,
+  });
+
+  const history = (activeLoop?.speedHistory ?? []).slice(-SPEED_LADDER_CONFIG.historyDays);
+  const bestRate = activeLoop ? getBestLoopRate(activeLoop) : null;
+  const historyScale = Math.max(1, ...history.map((record) => record.rate));
+
+  const handleStartStop = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    if (ladder.isActive) {
+      ladder.stop();
+    } else {
+      ladder.start(settings);
+    }
+  };
+
+  const handleMissed = async () => {
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    ladder.markMissed();
+  };
+
+  const handleSetting = async (update: Partial<SpeedLadderSettings>) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSettings((prev) => ({ ...prev, ...update }));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>SPEED LADDER</Text>
+
+      <OptionRow
+        label="PASSES"
+        options={LADDER_PASS_OPTIONS}
+        value={settings.passesPerStep}
+        format={(passes) => `${passes}`}
+        disabled={ladder.isActive}
+        onChange={(passesPerStep) => handleSetting({ passesPerStep })}
+      />
+      <OptionRow
+        label="TARGET"
+        options={LADDER_TARGET_OPTIONS}
+        value={settings.targetRate}
+        format={formatRate}
+        disabled={ladder.isActive}
+        onChange={(targetRate) => handleSetting({ targetRate })}
+      />
+      <OptionRow
+        label="PAUSE"
+        options={LADDER_PAUSE_OPTIONS}
+        value={settings.pauseSeconds}
+        format={(seconds) => (seconds === 0 ? 'OFF' : `${seconds}s`)}
+        disabled={ladder.isActive}
+        onChange={(pauseSeconds) => handleSetting({ pauseSeconds })}
+      />
+
+      {/* Progress */}
+      {(ladder.isActive || ladder.totalPasses > 0) && (
+        <View style={styles.statusRow}>
+          <Text style={styles.rateText}>{formatRate(ladder.rate)}</Text>
+          <View style={styles.statusDetails}>
+            <Text style={styles.statusText}>
+              {ladder.isComplete
+                ? 'TARGET REACHED'
+                : `CLEAN ${ladder.cleanPasses}/${settings.passesPerStep}`}
+            </Text>
+            <Text style={styles.statusSubtext}>
+              PASS {ladder.totalPasses + (ladder.isActive ? 1 : 0)}
+              {ladder.reachedRate !== null ? ` · BEST ${formatRate(ladder.reachedRate)}` : ''}
+            </Text>
+          </View>
+          {ladder.isActive && (
+            <Pressable
+              style={[styles.missedButton, ladder.isPassMissed && styles.missedButtonActive]}
+              onPress={handleMissed}
+              disabled={ladder.isPassMissed}
+              accessibilityLabel="Mark this pass as not clean"
+              accessibilityRole="button"
+            >
+              <XCircle
+                size={14}
+                color={ladder.isPassMissed ? Colors.softWhite : Colors.vermilion}
+              />
+              <Text
+                style={[styles.missedText, ladder.isPassMissed && styles.missedTextActive]}
+              >
+                {ladder.isPassMissed ? 'MISSED' : 'NOT CLEAN'}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
+      <Pressable
+        style={[
+          styles.startButton,
+          ladder.isActive && styles.stopButton,
+          !hasLoop && !ladder.isActive && styles.chipDisabled,
+        ]}
+        onPress={handleStartStop}
+        disabled={!hasLoop && !ladder.isActive}
+        accessibilityLabel={ladder.isActive ? 'Stop the speed ladder' : 'Start the speed ladder'}
+        accessibilityHint={hasLoop ? undefined : 'Set an A-B loop first'}
+        accessibilityRole="button"
+      >
+        {ladder.isActive ? (
+          <Square size={14} color={Colors.softWhite} />
+        ) : (
+          <TrendingUp size={14} color={Colors.softWhite} />
+        )}
+        <Text style={styles.startButtonText}>
+          {ladder.isActive
+            ? 'STOP LADDER'
+            : `CLIMB FROM ${formatRate(SPEED_LADDER_CONFIG.startRate)}`}
+        </Text>
+      </Pressable>
+
+      {/* Speed history of the selected saved loop */}
+      {activeLoop && (
+        <View style={styles.historySection}>
+          <Text style={styles.optionLabel}>
+            {activeLoop.name.toUpperCase()}
+            {bestRate !== null ? ` · BEST ${formatRate(bestRate)}` : ''}
+          </Text>
+          {history.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Clean ladder speeds for this loop appear here by day
+            </Text>
+          ) : (
+            <View style={styles.historyRow}>
+              {history.map((record) => (
+                <View key={record.date} style={styles.historyColumn}>
+                  <View
+                    style={[
+                      styles.historyBar,
+                      { height: Math.max(2, (record.rate / historyScale) * HISTORY_HEIGHT) },
+                    ]}
+                    accessibilityLabel={`${record.date}: ${formatRate(record.rate)}`}
+                  />
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.alloy,
+  },
+  label: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  optionLabel: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 9,
+    color: Colors.graphite,
+    letterSpacing: 1,
+    minWidth: 48,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: Colors.alloy,
+  },
+  chipActive: {
+    backgroundColor: Colors.charcoal,
+  },
+  chipDisabled: {
+    opacity: 0.5,
+  },
+  chipText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  chipTextActive: {
+    color: Colors.softWhite,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  rateText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 24,
+    color: Colors.moss,
+    minWidth: 64,
+  },
+  statusDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  statusText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 11,
+    color: Colors.ink,
+    letterSpacing: 1,
+  },
+  statusSubtext: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+  },
+  missedButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.vermilion,
+  },
+  missedButtonActive: {
+    backgroundColor: Colors.vermilion,
+  },
+  missedText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+  missedTextActive: {
+    color: Colors.softWhite,
+  },
+  startButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: Colors.moss,
+  },
+  stopButton: {
+    backgroundColor: Colors.charcoal,
+  },
+  startButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  historySection: {
+    gap: 6,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+    height: HISTORY_HEIGHT,
+  },
+  historyColumn: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  historyBar: {
+    backgroundColor: Colors.moss,
+    borderRadius: 2,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+});
@@ -4,6 +4,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '@/constants/Colors';
 import { Typography, SHADOWS, BEVELS } from '@/constants/Styles';
 import { ACHIEVEMENTS, formatPracticeTime, calculateProgress } from '@/types/practice';
+import type { AccentLevel } from '@/types/metronome';
 import { InsetWindow } from '@/components/ui/InsetWindow';
 import { LEDIndicator } from '@/components/skia/primitives/LEDIndicator';
 import { PivotScrew } from '@/components/ui/PivotScrew';
@@ -32,10 +33,20 @@ interface VUMeterDisplayProps {
   isPlaying?: boolean;                // Show PLAY LED in recording mode
   // Metronome mode props
   metronomeAngle?: number;            // -30 to +30 degrees for metronome swing
-  currentBeat?: number;               // 0-3 for beat indicators
+  currentBeat?: number;               // 0-based beat within the bar
   isMetronomePlaying?: boolean;       // Whether metronome is active
+  beatsPerBar?: number;               // Number of beat indicators (default: 4)
+  accents?: AccentLevel[];            // Accent level per beat (colors the LEDs)
 }
 
+// LED color per accent level in metronome mode
+const ACCENT_LED_COLORS: Record<AccentLevel, string> = {
+  accent: Colors.vermilion,
+  medium: Colors.warning,
+  normal: Colors.moss,
+  silent: Colors.graphite,
+};
+
 /**
  * Skeuomorphic VU Meter display with multiple modes:
  * - Progress mode: Shows total practice time with static needle position
@@ -59,9 +70,15 @@ export const VUMeterDisplay: React.FC<VUMeterDisplayProps> = ({
   metronomeAngle = 0,
   currentBeat = 0,
   isMetronomePlaying = false,
+  beatsPerBar = 4,
+  accents,
 }) => {
   const needleRotation = useRef(new Animated.Value(50)).current;
 
+  // Metronome beat LEDs shrink as the bar gets longer
+  const isDenseMeter = beatsPerBar > 6;
+  const beatLedSize = isDenseMeter ? 10 : beatsPerBar > 4 ? (compact ? 12 : 14) : (compact ? 14 : 18);
+
   // Calculate target value based on mode
   const targetValue = useMemo(() => {
     if (mode === 'metronome') {
@@ -176,20 +193,35 @@ export const VUMeterDisplay: React.FC<VUMeterDisplayProps> = ({
       >
         {/* Scale markings with labels at top and LEDs below (matches TunerVUMeter) */}
         {mode === 'metronome' ? (
-          // Metronome mode: 4 beat indicator LEDs
-          <View style={styles.metronomeScaleMarkings}>
-            {[0, 1, 2, 3].map((beat) => (
-              <View key={beat} style={styles.metronomeBeatContainer}>
-                <Text style={[styles.markerLabel, compact && styles.markerLabelCompact]}>
-                  {beat + 1}
-                </Text>
-                <LEDIndicator
-                  size={compact ? 14 : 18}
-                  isActive={isMetronomePlaying && currentBeat === beat}
-                  color={beat === 0 ? Colors.vermilion : Colors.moss}
-                />
-              </View>
-            ))}
+          // Metronome mode: one beat indicator LED per beat in the bar
+          <View style={[styles.metronomeScaleMarkings, isDenseMeter && styles.metronomeScaleMarkingsDense]}>
+            {Array.from({ length: beatsPerBar }, (_, beat) => {
+              const accent = accents?.[beat] ?? (beat === 0 ? 'accent' : 'normal');
+              return (
+                <View
+                  key={beat}
+                  style={[
+                    styles.metronomeBeatContainer,
+                    isDenseMeter && styles.metronomeBeatContainerDense,
+                    accent === 'silent' && styles.metronomeBeatSilent,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.markerLabel,
+                      (compact || isDenseMeter) && styles.markerLabelCompact,
+                    ]}
+                  >
+                    {beat + 1}
+                  </Text>
+                  <LEDIndicator
+                    size={beatLedSize}
+                    isActive={isMetronomePlaying && currentBeat === beat}
+                    color={ACCENT_LED_COLORS[accent]}
+                  />
+                </View>
+              );
+            })}
           </View>
         ) : mode === 'recording' ? (
           // Recording mode: absolute positioning to ensure -10 aligns with needle base
@@ -369,7 +401,7 @@ const styles = StyleSheet.create({
     right: 16,
     height: 40,
   },
-  // Metronome mode: 4 beat indicators evenly spaced
+  // Metronome mode: beat indicators evenly spaced
   metronomeScaleMarkings: {
     position: 'absolute',
     top: 12,
@@ -379,10 +411,20 @@ const styles = StyleSheet.create({
     justifyContent: 'space-evenly',
     paddingHorizontal: 24,
   },
+  // Meters with many beats: tighter row, overlapping LED canvas padding
+  metronomeScaleMarkingsDense: {
+    paddingHorizontal: 12,
+  },
   metronomeBeatContainer: {
     alignItems: 'center',
     gap: 4,
   },
+  metronomeBeatContainerDense: {
+    marginHorizontal: -8,
+  },
+  metronomeBeatSilent: {
+    opacity: 0.4,
+  },
   markerContainer: {
     alignItems: 'center',
     gap: 4,
@@ -0,0 +1,221 @@
+/**
+ * WaveformPanel Component
+ *
+ * Waveform section of the practice player:
+ * - Zoom in/out around the loop (or playhead)
+ * - Waveform with draggable A/B loop handles
+ * - Snap released handles to zero crossings or detected beats
+ */
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { ZoomIn, ZoomOut } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import {
+  LOOP_SNAP_OPTIONS,
+  WAVEFORM_CONFIG,
+  WAVEFORM_ZOOM_LEVELS,
+  type WaveformZoom,
+} from '@/constants/PracticePlayerConfig';
+import { WaveformView } from './WaveformView';
+import type { LoopSnapMode, WaveformData } from '@/types/practicePlayer';
+
+interface WaveformPanelProps {
+  waveform: WaveformData | null;
+  isLoading: boolean;
+  error: string | null;
+  positionMs: number;
+  loopStartMs: number;
+  loopEndMs: number;
+  loopEnabled: boolean;
+  viewStartMs: number;
+  viewEndMs: number;
+  zoom: WaveformZoom;
+  snapMode: LoopSnapMode;
+  onZoomChange: (zoom: WaveformZoom) => void;
+  onSnapModeChange: (mode: LoopSnapMode) => void;
+  onLoopStartChange: (positionMs: number) => void;
+  onLoopEndChange: (positionMs: number) => void;
+  onSeek: (positionMs: number) => void;
+}
+
+export const WaveformPanel: React.FC<WaveformPanelProps> = ({
+  waveform,
+  isLoading,
+  error,
+  positionMs,
+  loopStartMs,
+  loopEndMs,
+  loopEnabled,
+  viewStartMs,
+  viewEndMs,
+  zoom,
+  snapMode,
+  onZoomChange,
+  onSnapModeChange,
+  onLoopStartChange,
+  onLoopEndChange,
+  onSeek,
+}) => {
+  const zoomIndex = WAVEFORM_ZOOM_LEVELS.indexOf(zoom);
+  const canZoomOut = zoomIndex > 0;
+  const canZoomIn = zoomIndex < WAVEFORM_ZOOM_LEVELS.length - 1;
+
+  const handleZoom = async (direction: 1 | -1) => {
+    const nextZoom = WAVEFORM_ZOOM_LEVELS[zoomIndex + direction];
+    if (nextZoom === undefined) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onZoomChange(nextZoom);
+  };
+
+  const handleSnapMode = async (mode: LoopSnapMode) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSnapModeChange(mode);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.label}>WAVEFORM</Text>
+        <View style={styles.zoomControls}>
+          <Pressable
+            style={[styles.zoomButton, !canZoomOut && styles.buttonDisabled]}
+            onPress={() => handleZoom(-1)}
+            disabled={!canZoomOut || !waveform}
+            accessibilityLabel="Zoom out"
+            accessibilityRole="button"
+          >
+            <ZoomOut size={14} color={Colors.graphite} />
+          </Pressable>
+          <Text style={styles.zoomText}>{zoom}×</Text>
+          <Pressable
+            style={[styles.zoomButton, !canZoomIn && styles.buttonDisabled]}
+            onPress={() => handleZoom(1)}
+            disabled={!canZoomIn || !waveform}
+            accessibilityLabel="Zoom in"
+            accessibilityRole="button"
+          >
+            <ZoomIn size={14} color={Colors.graphite} />
+          </Pressable>
+        </View>
+      </View>
+
+      {waveform ? (
+        <WaveformView
+          waveform={waveform}
+          positionMs={positionMs}
+          loopStartMs={loopStartMs}
+          loopEndMs={loopEndMs}
+          loopEnabled={loopEnabled}
+          viewStartMs={viewStartMs}
+          viewEndMs={viewEndMs}
+          showBeats={snapMode === 'beat'}
+          onLoopStartChange={onLoopStartChange}
+          onLoopEndChange={onLoopEndChange}
+          onSeek={onSeek}
+        />
+      ) : (
+        <View style={styles.placeholder}>
+          <Text style={styles.placeholderText}>
+            {isLoading ? 'Drawing waveform...' : error || 'No waveform'}
+          </Text>
+        </View>
+      )}
+
+      {/* Snap */}
+      <View style={styles.snapRow}>
+        <Text style={styles.label}>SNAP</Text>
+        {LOOP_SNAP_OPTIONS.map((option) => {
+          const isActive = option.value === snapMode;
+          return (
+            <Pressable
+              key={option.value}
+              style={[styles.snapChip, isActive && styles.snapChipActive]}
+              onPress={() => handleSnapMode(option.value)}
+              accessibilityLabel={`Snap loop handles: ${option.label}`}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text style={[styles.snapChipText, isActive && styles.snapChipTextActive]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1.5,
+  },
+  zoomControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  zoomButton: {
+    padding: 6,
+    borderRadius: 6,
+    backgroundColor: Colors.alloy,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  zoomText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 12,
+    color: Colors.ink,
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  placeholder: {
+    height: WAVEFORM_CONFIG.height,
+    borderRadius: 6,
+    backgroundColor: Colors.charcoal,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  snapRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  snapChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: Colors.alloy,
+  },
+  snapChipActive: {
+    backgroundColor: Colors.charcoal,
+  },
+  snapChipText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  snapChipTextActive: {
+    color: Colors.softWhite,
+  },
+});
@@ -0,0 +1,258 @@
+/**
+ * WaveformView Component
+ *
+ * Waveform overview for the practice player, drawn with Skia:
+ * - Peak bars for the visible window (zoomed by the parent)
+ * - Loop region shaded between draggable A/B handles
+ * - Detected beats ticked along the bottom
+ * - Playhead; tap anywhere to seek
+ *
+ * Handles move on the UI thread while dragging; the parent gets the
+ * released position (and snaps it).
+ *
+ * Note: Uses View-based rendering on web (WaveformView.web.tsx)
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Canvas, Path, Rect, Skia } from '@shopify/react-native-skia';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import { runOnJS, useDerivedValue, useSharedValue } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { WAVEFORM_CONFIG } from '@/constants/PracticePlayerConfig';
+import { InsetShadowOverlay } from '@/components/skia/primitives';
+import { getWindowPeaks } from '@/utils/waveform';
+import type { WaveformData } from '@/types/practicePlayer';
+
+const HANDLE_WIDTH = 2;
+const HANDLE_TAB_SIZE = 10;
+const BEAT_TICK_HEIGHT = 6;
+
+/** Which handle a drag moves */
+const NO_HANDLE = 0;
+const START_HANDLE = 1;
+const END_HANDLE = 2;
+
+interface WaveformViewProps {
+  waveform: WaveformData;
+  /** Playhead position in milliseconds */
+  positionMs: number;
+  /** A handle position in milliseconds */
+  loopStartMs: number;
+  /** B handle position in milliseconds */
+  loopEndMs: number;
+  /** Whether the loop is active (region drawn stronger) */
+  loopEnabled: boolean;
+  /** Visible window in milliseconds */
+  viewStartMs: number;
+  viewEndMs: number;
+  /** Tick detected beats */
+  showBeats: boolean;
+  /** A handle released at a new position */
+  onLoopStartChange: (positionMs: number) => void;
+  /** B handle released at a new position */
+  onLoopEndChange: (positionMs: number) => void;
+  /** Tap to seek */
+  onSeek: (positionMs: number) => void;
+}
+
+export const WaveformView: React.FC<WaveformViewProps> = ({
+  waveform,
+  positionMs,
+  loopStartMs,
+  loopEndMs,
+  loopEnabled,
+  viewStartMs,
+  viewEndMs,
+  showBeats,
+  onLoopStartChange,
+  onLoopEndChange,
+  onSeek,
+}) => {
+  const { height, bars, handleHitSlop, minLoopMs } = WAVEFORM_CONFIG;
+  const [width, setWidth] = useState(0);
+  // Bumped on each release so handles resync even if the snapped position is unchanged
+  const [releaseCount, setReleaseCount] = useState(0);
+
+  const spanMs = Math.max(1, viewEndMs - viewStartMs);
+  const msToX = useCallback(
+    (ms: number) => ((ms - viewStartMs) / spanMs) * width,
+    [viewStartMs, spanMs, width]
+  );
+  const xToMs = useCallback(
+    (x: number) => viewStartMs + (x / Math.max(1, width)) * spanMs,
+    [viewStartMs, spanMs, width]
+  );
+
+  const startX = useSharedValue(0);
+  const endX = useSharedValue(0);
+  const activeHandle = useSharedValue(NO_HANDLE);
+
+  useEffect(() => {
+    startX.value = msToX(loopStartMs);
+    endX.value = msToX(loopEndMs);
+  }, [loopStartMs, loopEndMs, msToX, releaseCount, startX, endX]);
+
+  const barsPath = useMemo(() => {
+    const path = Skia.Path.Make();
+    if (width === 0) return path;
+
+    const barWidth = width / bars;
+    getWindowPeaks(waveform.peaks, waveform.durationMs, viewStartMs, viewEndMs, bars).forEach(
+      (peak, i) => {
+        const barHeight = Math.max(1, peak * (height - BEAT_TICK_HEIGHT * 2));
+        path.addRect(
+          Skia.XYWHRect(i * barWidth + 0.5, (height - barHeight) / 2, barWidth - 1, barHeight)
+        );
+      }
+    );
+    return path;
+  }, [waveform, viewStartMs, viewEndMs, width, height, bars]);
+
+  const beatsPath = useMemo(() => {
+    const path = Skia.Path.Make();
+    if (!showBeats || width === 0) return path;
+
+    waveform.beatsMs.forEach((beatMs) => {
+      if (beatMs < viewStartMs || beatMs > viewEndMs) return;
+      path.addRect(Skia.XYWHRect(msToX(beatMs), height - BEAT_TICK_HEIGHT, 1, BEAT_TICK_HEIGHT));
+    });
+    return path;
+  }, [waveform, showBeats, viewStartMs, viewEndMs, msToX, width, height]);
+
+  const regionWidth = useDerivedValue(() => Math.max(0, endX.value - startX.value));
+  const startHandleX = useDerivedValue(() => startX.value - HANDLE_WIDTH / 2);
+  const endHandleX = useDerivedValue(() => endX.value - HANDLE_WIDTH / 2);
+  const startTabX = useDerivedValue(() => startX.value - HANDLE_TAB_SIZE / 2);
+  const endTabX = useDerivedValue(() => endX.value - HANDLE_TAB_SIZE / 2);
+
+  const handleRelease = useCallback(
+    async (handle: number, x: number) => {
+      setReleaseCount((count) => count + 1);
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      if (handle === START_HANDLE) {
+        onLoopStartChange(xToMs(x));
+      } else {
+        onLoopEndChange(xToMs(x));
+      }
+    },
+    [xToMs, onLoopStartChange, onLoopEndChange]
+  );
+
+  const handleTap = useCallback(
+    (x: number) => {
+      onSeek(Math.min(waveform.durationMs, Math.max(0, xToMs(x))));
+    },
+    [xToMs, onSeek, waveform.durationMs]
+  );
+
+  // Handles can't be dragged closer than the shortest loop
+  const minGap = (minLoopMs / spanMs) * width;
+
+  // Drag the nearest handle within reach of where the touch started
+  const panGesture = Gesture.Pan()
+    .activeOffsetX([-6, 6])
+    .failOffsetY([-12, 12])
+    .onStart((event) => {
+      const touchX = event.x - event.translationX;
+      const startDistance = Math.abs(touchX - startX.value);
+      const endDistance = Math.abs(touchX - endX.value);
+      if (Math.min(startDistance, endDistance) > handleHitSlop) {
+        activeHandle.value = NO_HANDLE;
+      } else {
+        activeHandle.value = startDistance <= endDistance ? START_HANDLE : END_HANDLE;
+      }
+    })
+    .onUpdate((event) => {
+      if (activeHandle.value === START_HANDLE) {
+        startX.value = Math.min(Math.max(0, event.x), endX.value - minGap);
+      } else if (activeHandle.value === END_HANDLE) {
+        endX.value = Math.max(Math.min(width, event.x), startX.value + minGap);
+      }
+    })
+    .onEnd(() => {
+      if (activeHandle.value === START_HANDLE) {
+        runOnJS(handleRelease)(START_HANDLE, startX.value);
+      } else if (activeHandle.value === END_HANDLE) {
+        runOnJS(handleRelease)(END_HANDLE, endX.value);
+      }
+      activeHandle.value = NO_HANDLE;
+    });
+
+  const tapGesture = Gesture.Tap().onEnd((event) => {
+    runOnJS(handleTap)(event.x);
+  });
+
+  const composedGesture = Gesture.Exclusive(panGesture, tapGesture);
+
+  const playheadX = msToX(positionMs);
+  const regionColor = loopEnabled ? 'rgba(238, 108, 77, 0.25)' : 'rgba(238, 108, 77, 0.1)';
+  const handleColor = loopEnabled ? Colors.vermilion : Colors.graphite;
+
+  return (
+    // Modals render outside the app's gesture root on Android
+    <GestureHandlerRootView style={styles.root}>
+      <GestureDetector gesture={composedGesture}>
+        <View
+          style={[styles.container, { height }]}
+          onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+          accessibilityLabel="Waveform. Drag the A and B handles to set the loop, tap to seek"
+        >
+          {width > 0 && (
+            <Canvas style={{ width, height }}>
+              <Rect x={0} y={0} width={width} height={height} color={Colors.charcoal} />
+              <Rect x={startX} y={0} width={regionWidth} height={height} color={regionColor} />
+              <Path path={barsPath} color={Colors.alloy} />
+              <Path path={beatsPath} color="rgba(255,255,255,0.35)" />
+              <Rect
+                x={playheadX - 0.5}
+                y={0}
+                width={1}
+                height={height}
+                color={Colors.softWhite}
+              />
+              <Rect x={startHandleX} y={0} width={HANDLE_WIDTH} height={height} color={handleColor} />
+              <Rect
+                x={startTabX}
+                y={0}
+                width={HANDLE_TAB_SIZE}
+                height={HANDLE_TAB_SIZE}
+                color={handleColor}
+              />
+              <Rect x={endHandleX} y={0} width={HANDLE_WIDTH} height={height} color={handleColor} />
+              <Rect
+                x={endTabX}
+                y={height - HANDLE_TAB_SIZE}
+                width={HANDLE_TAB_SIZE}
+                height={HANDLE_TAB_SIZE}
+                color={handleColor}
+              />
+            </Canvas>
+          )}
+          {width > 0 && (
+            <InsetShadowOverlay
+              width={width}
+              height={height}
+              borderRadius={6}
+              insetDepth={6}
+              variant="dark"
+            />
+          )}
+        </View>
+      </GestureDetector>
+    </GestureHandlerRootView>
+  );
+};
+
+const styles = StyleSheet.create({
+  root: {
+    flexGrow: 0,
+  },
+  container: {
+    width: '100%',
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: Colors.charcoal,
+  },
+});
@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { View, Pressable, StyleSheet, GestureResponderEvent } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { WAVEFORM_CONFIG } from '@/constants/PracticePlayerConfig';
+import { getWindowPeaks } from '@/utils/waveform';
+import type { WaveformData } from '@/types/practicePlayer';
+
+const HANDLE_WIDTH = 2;
+const HANDLE_TAB_SIZE = 10;
+const BEAT_TICK_HEIGHT = 6;
+
+interface WaveformViewProps {
+  waveform: WaveformData;
+  /** Playhead position in milliseconds */
+  positionMs: number;
+  /** A handle position in milliseconds */
+  loopStartMs: number;
+  /** B handle position in milliseconds */
+  loopEndMs: number;
+  /** Whether the loop is active (region drawn stronger) */
+  loopEnabled: boolean;
+  /** Visible window in milliseconds */
+  viewStartMs: number;
+  viewEndMs: number;
+  /** Tick detected beats */
+  showBeats: boolean;
+  /** A handle released at a new position */
+  onLoopStartChange: (positionMs: number) => void;
+  /** B handle released at a new position */
+  onLoopEndChange: (positionMs: number) => void;
+  /** Tap to seek */
+  onSeek: (positionMs: number) => void;
+}
+
+/**
+ * WaveformView (Web) - View-based fallback for web build.
+ * Clicking near a handle moves it there; clicking elsewhere seeks.
+ */
+export const WaveformView: React.FC<WaveformViewProps> = ({
+  waveform,
+  positionMs,
+  loopStartMs,
+  loopEndMs,
+  loopEnabled,
+  viewStartMs,
+  viewEndMs,
+  showBeats,
+  onLoopStartChange,
+  onLoopEndChange,
+  onSeek,
+}) => {
+  const { height, bars, handleHitSlop } = WAVEFORM_CONFIG;
+  const [width, setWidth] = useState(0);
+
+  const spanMs = Math.max(1, viewEndMs - viewStartMs);
+  const msToX = (ms: number) => ((ms - viewStartMs) / spanMs) * width;
+  const xToMs = (x: number) => viewStartMs + (x / Math.max(1, width)) * spanMs;
+
+  const peaks = useMemo(
+    () => getWindowPeaks(waveform.peaks, waveform.durationMs, viewStartMs, viewEndMs, bars),
+    [waveform, viewStartMs, viewEndMs, bars]
+  );
+
+  const visibleBeats = useMemo(
+    () =>
+      showBeats
+        ? waveform.beatsMs.filter((beatMs) => beatMs >= viewStartMs && beatMs <= viewEndMs)
+        : [],
+    [waveform, showBeats, viewStartMs, viewEndMs]
+  );
+
+  const startX = msToX(loopStartMs);
+  const endX = msToX(loopEndMs);
+
+  const handlePress = (event: GestureResponderEvent) => {
+    const x = event.nativeEvent.locationX;
+    const startDistance = Math.abs(x - startX);
+    const endDistance = Math.abs(x - endX);
+
+    if (Math.min(startDistance, endDistance) <= handleHitSlop) {
+      if (startDistance <= endDistance) {
+        onLoopStartChange(xToMs(x));
+      } else {
+        onLoopEndChange(xToMs(x));
+      }
+      return;
+    }
+    onSeek(Math.min(waveform.durationMs, Math.max(0, xToMs(x))));
+  };
+
+  const handleColor = loopEnabled ? Colors.vermilion : Colors.graphite;
+
+  return (
+    <Pressable
+      style={[styles.container, { height }]}
+      onPress={handlePress}
+      onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+      accessibilityLabel="Waveform. Click near the A or B handle to move it, elsewhere to seek"
+    >
+      <View style={styles.bars} pointerEvents="none">
+        {peaks.map((peak, i) => (
+          <View key={i} style={styles.barSlot}>
+            <View
+              style={[
+                styles.bar,
+                { height: Math.max(1, peak * (height - BEAT_TICK_HEIGHT * 2)) },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+
+      {width > 0 && (
+        <View style={StyleSheet.absoluteFill} pointerEvents="none">
+          <View
+            style={[
+              styles.region,
+              {
+                left: startX,
+                width: Math.max(0, endX - startX),
+                backgroundColor: loopEnabled
+                  ? 'rgba(238, 108, 77, 0.25)'
+                  : 'rgba(238, 108, 77, 0.1)',
+              },
+            ]}
+          />
+          {visibleBeats.map((beatMs) => (
+            <View key={beatMs} style={[styles.beatTick, { left: msToX(beatMs) }]} />
+          ))}
+          <View style={[styles.playhead, { left: msToX(positionMs) - 0.5 }]} />
+          <View
+            style={[styles.handle, { left: startX - HANDLE_WIDTH / 2, backgroundColor: handleColor }]}
+          />
+          <View
+            style={[
+              styles.handleTab,
+              { top: 0, left: startX - HANDLE_TAB_SIZE / 2, backgroundColor: handleColor },
+            ]}
+          />
+          <View
+            style={[styles.handle, { left: endX - HANDLE_WIDTH / 2, backgroundColor: handleColor }]}
+          />
+          <View
+            style={[
+              styles.handleTab,
+              { bottom: 0, left: endX - HANDLE_TAB_SIZE / 2, backgroundColor: handleColor },
+            ]}
+          />
+        </View>
+      )}
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: Colors.charcoal,
+  },
+  bars: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 0.5,
+  },
+  bar: {
+    width: '100%',
+    backgroundColor: Colors.alloy,
+  },
+  region: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+  },
+  beatTick: {
+    position: 'absolute',
+    bottom: 0,
+    width: 1,
+    height: BEAT_TICK_HEIGHT,
+    backgroundColor: 'rgba(255,255,255,0.35)',
+  },
+  playhead: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: Colors.softWhite,
+  },
+  handle: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: HANDLE_WIDTH,
+  },
+  handleTab: {
+    position: 'absolute',
+    width: HANDLE_TAB_SIZE,
+    height: HANDLE_TAB_SIZE,
+  },
+});
@@ -11,3 +11,8 @@ export { VUMeterDisplay } from './VUMeterDisplay';
 export { RamsTapeCounterDisplay } from './RamsTapeCounterDisplay';
 export { PlaybackControls } from './PlaybackControls';
 export { PracticePlayerModal } from './PracticePlayerModal';
+export { WaveformView } from './WaveformView';
+export { WaveformPanel } from './WaveformPanel';
+export { SavedLoopsPanel } from './SavedLoopsPanel';
+export { SpeedLadderPanel } from './SpeedLadderPanel';
+export { ArrangementSectionsPanel } from './ArrangementSectionsPanel';
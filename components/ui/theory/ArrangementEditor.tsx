@@ -0,0 +1,501 @@
+/**
+ * ArrangementEditor Component
+ *
+ * Edits the song's arrangement:
+ * - Add sections in playing order, move them up or down, or remove them
+ * - Per section: kind, name, bars, repeats, chord progression,
+ *   tempo and meter changes, and notes
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, Pressable, StyleSheet } from 'react-native';
+import { ChevronDown, ChevronUp, Minus, Plus, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { ARRANGEMENT_CONFIG, ARRANGEMENT_SECTION_TYPES } from '@/constants/ArrangementConfig';
+import {
+  createArrangementSection,
+  getSectionTypeLabel,
+  moveSection,
+  parseChordList,
+} from '@/utils/arrangement';
+import { parseTempo, parseTimeSignature } from '@/utils/metronome';
+import type { ArrangementSection, SongArrangement } from '@/types/arrangement';
+
+interface ArrangementEditorProps {
+  /** Arrangement to start from */
+  initialArrangement: SongArrangement;
+  onSave: (arrangement: SongArrangement) => void;
+  onCancel: () => void;
+}
+
+interface CountStepperProps {
+  label: string;
+  value: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Minus/plus control for a count from 1 to max
+ */
+const CountStepper: React.FC<CountStepperProps> = ({ label, value, max, onChange }) => (
+  <View style={styles.stepper}>
+    <Pressable
+      style={styles.stepperButton}
+      onPress={() => onChange(Math.max(1, value - 1))}
+      disabled={value <= 1}
+      accessibilityLabel={`Fewer ${label.toLowerCase()}`}
+      accessibilityRole="button"
+    >
+      <Minus size={12} color={value <= 1 ? Colors.alloy : Colors.charcoal} />
+    </Pressable>
+    <Text style={styles.stepperValue}>
+      {value} {label}
+    </Text>
+    <Pressable
+      style={styles.stepperButton}
+      onPress={() => onChange(Math.min(max, value + 1))}
+      disabled={value >= max}
+      accessibilityLabel={`More ${label.toLowerCase()}`}
+      accessibilityRole="button"
+    >
+      <Plus size={12} color={value >= max ? Colors.alloy : Colors.charcoal} />
+    </Pressable>
+  </View>
+);
+
+interface SectionFieldsProps {
+  section: ArrangementSection;
+  onChange: (section: ArrangementSection) => void;
+}
+
+/**
+ * Fields of the section being edited
+ * Chords, tempo and meter keep the typed text and save what parses.
+ */
+const SectionFields: React.FC<SectionFieldsProps> = ({ section, onChange }) => {
+  const [chordsText, setChordsText] = useState(section.chords.join(' '));
+  const [tempoText, setTempoText] = useState(section.tempoBpm?.toString() ?? '');
+  const [meterText, setMeterText] = useState(section.timeSignature ?? '');
+
+  const handleChordsChange = (text: string) => {
+    setChordsText(text);
+    onChange({ ...section, chords: parseChordList(text) });
+  };
+
+  const handleTempoChange = (text: string) => {
+    setTempoText(text);
+    onChange({ ...section, tempoBpm: parseTempo(text) });
+  };
+
+  const handleMeterChange = (text: string) => {
+    setMeterText(text);
+    onChange({ ...section, timeSignature: parseTimeSignature(text) ? text.trim() : null });
+  };
+
+  const isTempoInvalid = tempoText.trim() !== '' && section.tempoBpm === null;
+  const isMeterInvalid = meterText.trim() !== '' && section.timeSignature === null;
+
+  return (
+    <View style={styles.fields}>
+      <View style={styles.chipRow}>
+        {ARRANGEMENT_SECTION_TYPES.map((option) => {
+          const isActive = option.value === section.type;
+          return (
+            <Pressable
+              key={option.value}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => onChange({ ...section, type: option.value })}
+              accessibilityLabel={`Section kind ${option.label}`}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                {option.label.toUpperCase()}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <TextInput
+        style={styles.input}
+        value={section.name}
+        onChangeText={(name) => onChange({ ...section, name })}
+        placeholder="Section name"
+        placeholderTextColor={Colors.graphite}
+        maxLength={ARRANGEMENT_CONFIG.maxNameLength}
+        accessibilityLabel="Section name"
+      />
+
+      <View style={styles.stepperRow}>
+        <CountStepper
+          label="BARS"
+          value={section.bars}
+          max={ARRANGEMENT_CONFIG.maxBars}
+          onChange={(bars) => onChange({ ...section, bars })}
+        />
+        <CountStepper
+          label="TIMES"
+          value={section.repeats}
+          max={ARRANGEMENT_CONFIG.maxRepeats}
+          onChange={(repeats) => onChange({ ...section, repeats })}
+        />
+      </View>
+
+      <TextInput
+        style={styles.input}
+        value={chordsText}
+        onChangeText={handleChordsChange}
+        placeholder="Chords, e.g. Am F C G"
+        placeholderTextColor={Colors.graphite}
+        autoCapitalize="none"
+        autoCorrect={false}
+        accessibilityLabel="Section chords"
+      />
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, styles.shortInput, isTempoInvalid && styles.inputInvalid]}
+          value={tempoText}
+          onChangeText={handleTempoChange}
+          placeholder="Song tempo"
+          placeholderTextColor={Colors.graphite}
+          keyboardType="number-pad"
+          accessibilityLabel="Section tempo in BPM"
+        />
+        <TextInput
+          style={[styles.input, styles.shortInput, isMeterInvalid && styles.inputInvalid]}
+          value={meterText}
+          onChangeText={handleMeterChange}
+          placeholder="Song meter"
+          placeholderTextColor={Colors.graphite}
+          autoCapitalize="none"
+          autoCorrect={false}
+          accessibilityLabel="Section time signature"
+        />
+      </View>
+
+      <TextInput
+        style={[styles.input, styles.notesInput]}
+        value={section.notes}
+        onChangeText={(notes) => onChange({ ...section, notes })}
+        placeholder="Notes (e.g. palm mute, build up)"
+        placeholderTextColor={Colors.graphite}
+        multiline
+        textAlignVertical="top"
+        accessibilityLabel="Section notes"
+      />
+    </View>
+  );
+};
+
+export const ArrangementEditor: React.FC<ArrangementEditorProps> = ({
+  initialArrangement,
+  onSave,
+  onCancel,
+}) => {
+  const [sections, setSections] = useState<ArrangementSection[]>(initialArrangement.sections);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateSection = (updated: ArrangementSection) => {
+    setSections((prev) => prev.map((section) => (section.id === updated.id ? updated : section)));
+  };
+
+  const handleAdd = async (type: ArrangementSection['type']) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const section = createArrangementSection(type, sections);
+    setSections([...sections, section]);
+    setExpandedId(section.id);
+  };
+
+  const handleMove = async (index: number, delta: number) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSections((prev) => moveSection(prev, index, delta));
+  };
+
+  const handleRemove = async (id: string) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSections((prev) => prev.filter((section) => section.id !== id));
+  };
+
+  const handleToggle = (id: string) => {
+    setExpandedId((prev) => (prev === id ? null : id));
+  };
+
+  const handleSave = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onSave({
+      ...initialArrangement,
+      sections: sections.map((section) => ({
+        ...section,
+        name: section.name.trim() || getSectionTypeLabel(section.type),
+      })),
+    });
+  };
+
+  const handleCancel = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onCancel();
+  };
+
+  return (
+    <View style={styles.container}>
+      {sections.length === 0 && (
+        <Text style={styles.emptyText}>Add the song's sections in the order they're played</Text>
+      )}
+
+      {sections.map((section, index) => {
+        const isExpanded = section.id === expandedId;
+        return (
+          <View key={section.id} style={styles.sectionCard}>
+            <View style={styles.sectionHeader}>
+              <Pressable
+                style={styles.sectionTitle}
+                onPress={() => handleToggle(section.id)}
+                accessibilityLabel={`${isExpanded ? 'Collapse' : 'Edit'} ${section.name}`}
+                accessibilityRole="button"
+              >
+                <Text style={styles.sectionName} numberOfLines={1}>
+                  {section.name || 'Untitled'}
+                </Text>
+                <Text style={styles.sectionLength}>
+                  {section.bars} BARS{section.repeats > 1 ? ` ×${section.repeats}` : ''}
+                </Text>
+              </Pressable>
+              <Pressable
+                style={styles.iconButton}
+                onPress={() => handleMove(index, -1)}
+                disabled={index === 0}
+                accessibilityLabel={`Move ${section.name} earlier`}
+                accessibilityRole="button"
+              >
+                <ChevronUp size={16} color={index === 0 ? Colors.alloy : Colors.charcoal} />
+              </Pressable>
+              <Pressable
+                style={styles.iconButton}
+                onPress={() => handleMove(index, 1)}
+                disabled={index === sections.length - 1}
+                accessibilityLabel={`Move ${section.name} later`}
+                accessibilityRole="button"
+              >
+                <ChevronDown
+                  size={16}
+                  color={index === sections.length - 1 ? Colors.alloy : Colors.charcoal}
+                />
+              </Pressable>
+              <Pressable
+                style={styles.iconButton}
+                onPress={() => handleRemove(section.id)}
+                accessibilityLabel={`Remove ${section.name}`}
+                accessibilityRole="button"
+              >
+                <Trash2 size={14} color={Colors.graphite} />
+              </Pressable>
+            </View>
+
+            {isExpanded && <SectionFields section={section} onChange={updateSection} />}
+          </View>
+        );
+      })}
+
+      {/* Add a section */}
+      <View style={styles.chipRow}>
+        {ARRANGEMENT_SECTION_TYPES.map((option) => (
+          <Pressable
+            key={option.value}
+            style={styles.addChip}
+            onPress={() => handleAdd(option.value)}
+            accessibilityLabel={`Add ${option.label}`}
+            accessibilityRole="button"
+          >
+            <Plus size={10} color={Colors.vermilion} strokeWidth={2.5} />
+            <Text style={styles.addChipText}>{option.label.toUpperCase()}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        <Pressable
+          style={styles.cancelButton}
+          onPress={handleCancel}
+          accessibilityLabel="Discard arrangement changes"
+          accessibilityRole="button"
+        >
+          <Text style={styles.cancelButtonText}>CANCEL</Text>
+        </Pressable>
+        <Pressable
+          style={styles.saveButton}
+          onPress={handleSave}
+          accessibilityLabel="Save arrangement"
+          accessibilityRole="button"
+        >
+          <Text style={styles.saveButtonText}>SAVE ARRANGEMENT</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.graphite,
+  },
+  sectionCard: {
+    backgroundColor: Colors.softWhite,
+    borderRadius: 8,
+    padding: 8,
+    gap: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  sectionTitle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  sectionName: {
+    flexShrink: 1,
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 13,
+    color: Colors.ink,
+  },
+  sectionLength: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  fields: {
+    gap: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.alloy,
+  },
+  chipActive: {
+    backgroundColor: Colors.charcoal,
+  },
+  chipText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  chipTextActive: {
+    color: Colors.softWhite,
+  },
+  input: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 13,
+    color: Colors.ink,
+    backgroundColor: Colors.alloy,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  inputInvalid: {
+    borderWidth: 1,
+    borderColor: Colors.vermilion,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  shortInput: {
+    flex: 1,
+  },
+  notesInput: {
+    minHeight: 56,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  stepper: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: Colors.alloy,
+    borderRadius: 8,
+  },
+  stepperButton: {
+    padding: 8,
+  },
+  stepperValue: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.charcoal,
+    letterSpacing: 1,
+  },
+  addChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.vermilion,
+  },
+  addChipText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 4,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.graphite,
+  },
+  cancelButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  saveButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: Colors.vermilion,
+  },
+  saveButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+});
@@ -0,0 +1,234 @@
+/**
+ * ArrangementPanel Component
+ *
+ * The song's sections in playing order, for the Theory tab:
+ * - Bars, repeats, chords, tempo/meter changes and notes per section
+ * - Chords follow the tab's transposition and capo
+ * - EDIT opens the arrangement editor (in the written key only)
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { LayoutList, Pencil, Plus } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { transposeArrangement } from '@/utils/arrangement';
+import type { ArrangementSection, SongArrangement } from '@/types/arrangement';
+import { ArrangementEditor } from './ArrangementEditor';
+
+interface ArrangementPanelProps {
+  /** Saved arrangement (null if the song has none) */
+  arrangement: SongArrangement | null;
+  /** Song key, for chord spelling */
+  songKey: string;
+  /** Semitones to shift chords for display (transposition minus capo) */
+  semitones: number;
+  /** Whether the arrangement can be edited (false while transposed) */
+  editable?: boolean;
+  onSave: (arrangement: SongArrangement) => void;
+}
+
+const EMPTY_ARRANGEMENT: SongArrangement = { sections: [], startOffsetMs: 0 };
+
+/**
+ * Length and any tempo or meter change (e.g., "8 BARS ×2 · 140 BPM · 6/8")
+ */
+function formatSectionDetails(section: ArrangementSection): string {
+  return [
+    `${section.bars} ${section.bars === 1 ? 'BAR' : 'BARS'}${section.repeats > 1 ? ` ×${section.repeats}` : ''}`,
+    ...(section.tempoBpm !== null ? [`${section.tempoBpm} BPM`] : []),
+    ...(section.timeSignature ? [section.timeSignature] : []),
+  ].join(' · ');
+}
+
+export const ArrangementPanel: React.FC<ArrangementPanelProps> = ({
+  arrangement,
+  songKey,
+  semitones,
+  editable = true,
+  onSave,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const displayed = useMemo(
+    () => (arrangement ? transposeArrangement(arrangement, semitones, songKey) : null),
+    [arrangement, semitones, songKey]
+  );
+
+  const handleEdit = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setIsEditing(true);
+  };
+
+  const handleSave = (next: SongArrangement) => {
+    setIsEditing(false);
+    onSave(next);
+  };
+
+  const sections = displayed?.sections ?? [];
+  const totalBars = sections.reduce((sum, section) => sum + section.bars * section.repeats, 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <LayoutList size={12} color={Colors.warmGray} />
+        <Text style={styles.label}>
+          {sections.length > 0
+            ? `ARRANGEMENT · ${sections.length} SECTIONS · ${totalBars} BARS`
+            : 'ARRANGEMENT'}
+        </Text>
+        {editable && !isEditing && sections.length > 0 && (
+          <Pressable
+            style={styles.editButton}
+            onPress={handleEdit}
+            accessibilityLabel="Edit arrangement"
+            accessibilityRole="button"
+          >
+            <Pencil size={12} color={Colors.softWhite} />
+            <Text style={styles.editButtonText}>EDIT</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {isEditing ? (
+        <ArrangementEditor
+          initialArrangement={arrangement ?? EMPTY_ARRANGEMENT}
+          onSave={handleSave}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : sections.length === 0 ? (
+        <View style={styles.emptyRow}>
+          <Text style={styles.emptyText}>No sections mapped yet</Text>
+          {editable && (
+            <Pressable
+              style={styles.mapButton}
+              onPress={handleEdit}
+              accessibilityLabel="Map the song's sections"
+              accessibilityRole="button"
+            >
+              <Plus size={12} color={Colors.vermilion} strokeWidth={2.5} />
+              <Text style={styles.mapButtonText}>MAP SECTIONS</Text>
+            </Pressable>
+          )}
+        </View>
+      ) : (
+        sections.map((section) => (
+          <View
+            key={section.id}
+            style={[styles.sectionRow, section.type === 'chorus' && styles.chorusRow]}
+          >
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionName} numberOfLines={1}>
+                {section.name}
+              </Text>
+              <Text style={styles.sectionDetails}>{formatSectionDetails(section)}</Text>
+            </View>
+            {section.chords.length > 0 && (
+              <Text style={styles.sectionChords}>{section.chords.join('  ')}</Text>
+            )}
+            {!!section.notes && <Text style={styles.sectionNotes}>{section.notes}</Text>}
+          </View>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: Colors.charcoal,
+  },
+  editButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  emptyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+    fontStyle: 'italic',
+  },
+  mapButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.vermilion,
+  },
+  mapButtonText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+  sectionRow: {
+    gap: 4,
+    paddingLeft: 10,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.charcoal,
+  },
+  chorusRow: {
+    borderLeftColor: Colors.vermilion,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  sectionName: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.ink,
+  },
+  sectionDetails: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 1,
+  },
+  sectionChords: {
+    fontSize: 13,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.vermilion,
+  },
+  sectionNotes: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaRegular',
+    fontStyle: 'italic',
+    color: Colors.graphite,
+  },
+});
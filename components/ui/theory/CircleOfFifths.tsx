@@ -33,6 +33,7 @@ import {
   ModeName,
   MODES,
 } from '@/utils/musicTheory';
+import type { AnalyzedChord, ChordFunction } from '@/utils/progressions';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CIRCLE_SIZE = Math.min(SCREEN_WIDTH - 48, 340);
@@ -62,11 +63,22 @@ const SEGMENT_COLORS = {
   centerWell: '#1a1a1a',
 };
 
+// Song chord markers, colored by function in the key
+const MARKER_RADIUS = 4;
+const MARKER_INSET = 8;
+const MARKER_COLORS: Record<ChordFunction, string> = {
+  diatonic: Colors.moss,
+  borrowed: Colors.warning,
+  secondaryDominant: Colors.pitch,
+  chromatic: Colors.vermilion,
+};
+
 interface CircleOfFifthsProps {
   selectedKey: string;
   mode?: ModeName;
   onKeySelect?: (key: string, quality: 'major' | 'minor') => void;
   size?: number;
+  chordMarkers?: AnalyzedChord[]; // Song chords to mark on the rings
 }
 
 export const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({
@@ -74,6 +86,7 @@ export const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({
   mode = 'ionian',
   onKeySelect,
   size = CIRCLE_SIZE,
+  chordMarkers = [],
 }) => {
   const font = useFont(require('@/assets/fonts/LexendDeca-Bold.ttf'), 14);
   const smallFont = useFont(require('@/assets/fonts/LexendDeca-Bold.ttf'), 11);
@@ -254,6 +267,17 @@ export const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({
     };
   };
 
+  // One marker per segment (first chord wins when several share a segment)
+  const markers = useMemo(() => {
+    const seen = new Set<string>();
+    return chordMarkers.filter((chord) => {
+      const id = `${chord.isMinorRing ? 'minor' : 'major'}-${chord.circleIndex}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  }, [chordMarkers]);
+
   // Get scale notes for display
   const scaleNotes = useMemo(() => {
     const notes = getScaleNotes(selectedRoot, mode);
@@ -365,6 +389,21 @@ export const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({
                 );
               })}
 
+              {/* Song chord markers */}
+              {markers.map((chord) => {
+                const radius = (chord.isMinorRing ? INNER_RADIUS - 2 : OUTER_RADIUS) - MARKER_INSET;
+                const pos = getTextPosition(chord.circleIndex, radius);
+                return (
+                  <Circle
+                    key={`marker-${chord.isMinorRing ? 'minor' : 'major'}-${chord.circleIndex}`}
+                    cx={pos.x}
+                    cy={pos.y}
+                    r={MARKER_RADIUS}
+                    color={MARKER_COLORS[chord.function]}
+                  />
+                );
+              })}
+
               {/* Center display - Selected key */}
               <SkiaText
                 x={CENTER - centerFont.measureText(selectedKey).width / 2}
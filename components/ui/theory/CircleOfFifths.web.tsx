@@ -15,6 +15,7 @@ import {
   getScaleNotes,
   ModeName,
 } from '@/utils/musicTheory';
+import type { AnalyzedChord, ChordFunction } from '@/utils/progressions';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CIRCLE_SIZE = Math.min(SCREEN_WIDTH - 48, 340);
@@ -44,11 +45,22 @@ const SEGMENT_COLORS = {
   centerWell: '#1a1a1a',
 };
 
+// Song chord markers, colored by function in the key
+const MARKER_RADIUS = 4;
+const MARKER_INSET = 8;
+const MARKER_COLORS: Record<ChordFunction, string> = {
+  diatonic: Colors.moss,
+  borrowed: Colors.warning,
+  secondaryDominant: Colors.pitch,
+  chromatic: Colors.vermilion,
+};
+
 interface CircleOfFifthsProps {
   selectedKey: string;
   mode?: ModeName;
   onKeySelect?: (key: string, quality: 'major' | 'minor') => void;
   size?: number;
+  chordMarkers?: AnalyzedChord[]; // Song chords to mark on the rings
 }
 
 // Create SVG arc path
@@ -98,6 +110,7 @@ export const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({
   mode = 'ionian',
   onKeySelect,
   size = CIRCLE_SIZE,
+  chordMarkers = [],
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const lastAngleRef = useRef(0);
@@ -183,6 +196,17 @@ export const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({
     transform: [{ rotate: `${rotation.value}deg` }],
   }));
 
+  // One marker per segment (first chord wins when several share a segment)
+  const markers = useMemo(() => {
+    const seen = new Set<string>();
+    return chordMarkers.filter((chord) => {
+      const id = `${chord.isMinorRing ? 'minor' : 'major'}-${chord.circleIndex}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  }, [chordMarkers]);
+
   // Get scale notes for display
   const scaleNotes = useMemo(() => {
     const notes = getScaleNotes(selectedRoot, mode);
@@ -321,6 +345,22 @@ export const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({
             );
           })}
 
+          {/* Song chord markers */}
+          {markers.map((chord) => {
+            const radius = (chord.isMinorRing ? INNER_RADIUS - 2 : OUTER_RADIUS) - MARKER_INSET;
+            const pos = getTextPosition(chord.circleIndex, radius, CENTER);
+            return (
+              <circle
+                key={`marker-${chord.isMinorRing ? 'minor' : 'major'}-${chord.circleIndex}`}
+                cx={pos.x}
+                cy={pos.y}
+                r={MARKER_RADIUS}
+                fill={MARKER_COLORS[chord.function]}
+                style={{ pointerEvents: 'none' }}
+              />
+            );
+          })}
+
           {/* Center well */}
           <circle
             cx={CENTER}
@@ -24,6 +24,7 @@ import {
   MODE_ORDER,
   MODES,
 } from '@/utils/musicTheory';
+import { analyzeProgression, type ChordFunction } from '@/utils/progressions';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -33,6 +34,7 @@ interface CircleOfFifthsModalProps {
   songKey: string;
   songTitle?: string;
   artist?: string;
+  chords?: string[]; // Song chords, marked on the circle and labelled against the song key
 }
 
 // Mode options for FrequencyTuner
@@ -41,12 +43,21 @@ const MODE_OPTIONS = MODE_ORDER.map((mode) => ({
   label: MODES[mode].name.split(' / ')[0],
 }));
 
+// Marker colors for song chords (matches CircleOfFifths)
+const FUNCTION_COLORS: Record<ChordFunction, string> = {
+  diatonic: Colors.moss,
+  borrowed: Colors.warning,
+  secondaryDominant: Colors.pitch,
+  chromatic: Colors.vermilion,
+};
+
 export const CircleOfFifthsModal: React.FC<CircleOfFifthsModalProps> = ({
   visible,
   onClose,
   songKey,
   songTitle,
   artist,
+  chords = [],
 }) => {
 
   // Parse initial key
@@ -77,6 +88,12 @@ export const CircleOfFifthsModal: React.FC<CircleOfFifthsModalProps> = ({
     [selectedRoot, selectedQuality]
   );
 
+  // Song chords labelled against the song key (unique, in song order)
+  const songAnalysis = useMemo(
+    () => analyzeProgression([...new Set(chords)], songKey),
+    [chords, songKey]
+  );
+
   // Get mode info
   const modeInfo = useMemo(() => MODES[selectedMode], [selectedMode]);
 
@@ -162,6 +179,7 @@ export const CircleOfFifthsModal: React.FC<CircleOfFifthsModalProps> = ({
               mode={selectedMode}
               onKeySelect={handleKeySelect}
               size={circleSize}
+              chordMarkers={songAnalysis?.chords}
             />
           </View>
 
@@ -214,6 +232,29 @@ export const CircleOfFifthsModal: React.FC<CircleOfFifthsModalProps> = ({
             </View>
           </View>
 
+          {/* Song Chords Panel */}
+          {songAnalysis && songAnalysis.chords.length > 0 && (
+            <View style={styles.infoPanel}>
+              <Text style={styles.infoLabel}>SONG CHORDS IN {songKey.toUpperCase()}</Text>
+              <View style={styles.songChordsGrid}>
+                {songAnalysis.chords.map((chord) => (
+                  <View key={chord.chord} style={styles.songChordItem}>
+                    <View
+                      style={[styles.songChordDot, { backgroundColor: FUNCTION_COLORS[chord.function] }]}
+                    />
+                    <Text style={styles.songChordName}>{chord.chord}</Text>
+                    <Text style={styles.songChordRoman}>{chord.roman}</Text>
+                  </View>
+                ))}
+              </View>
+              {songAnalysis.progressions.length > 0 && (
+                <Text style={styles.songProgressions}>
+                  {songAnalysis.progressions.map((p) => p.name).join(' · ')}
+                </Text>
+              )}
+            </View>
+          )}
+
           {/* Song Key Indicator */}
           {songKey && (
             <View style={styles.songKeyBadge}>
@@ -373,6 +414,42 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.charcoal,
   },
+  songChordsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  songChordItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: Colors.softWhite,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  songChordDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  songChordName: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.charcoal,
+  },
+  songChordRoman: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  songProgressions: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    marginTop: 12,
+  },
   songKeyBadge: {
     alignSelf: 'center',
     marginTop: 20,
@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { AlertTriangle, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import type { KeyCheck } from '@/utils/keyDetection';
+
+interface KeyCheckBannerProps {
+  check: KeyCheck;
+  detectedKey: string;
+  onSelectKey: (key: string) => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * KeyCheckBanner - Warning shown when the detected key doesn't fit the chords.
+ * Offers the best-fitting keys with their confidence; tapping one selects it.
+ */
+export const KeyCheckBanner: React.FC<KeyCheckBannerProps> = ({
+  check,
+  detectedKey,
+  onSelectKey,
+  onDismiss,
+}) => {
+  const hasKey = check.keyConfidence !== null;
+
+  const handleSelect = async (key: string) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelectKey(key);
+  };
+
+  const handleDismiss = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onDismiss?.();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <AlertTriangle size={14} color={Colors.warning} />
+        <Text style={styles.title}>
+          {hasKey ? 'KEY MAY NOT MATCH THE CHORDS' : 'NO KEY DETECTED'}
+        </Text>
+        {onDismiss && (
+          <Pressable onPress={handleDismiss} hitSlop={8} accessibilityLabel="Dismiss key warning">
+            <X size={14} color={Colors.graphite} />
+          </Pressable>
+        )}
+      </View>
+
+      <Text style={styles.message}>
+        {hasKey
+          ? `${detectedKey} fits ${Math.round(check.keyConfidence! * 100)}% of the chords. The chords suggest:`
+          : 'The chords suggest:'}
+      </Text>
+
+      <View style={styles.chipContainer}>
+        {check.alternatives.map((candidate) => (
+          <Pressable
+            key={candidate.key}
+            style={({ pressed }) => [styles.chip, pressed && styles.chipPressed]}
+            onPress={() => handleSelect(candidate.key)}
+          >
+            <Text style={styles.chipText}>{candidate.key}</Text>
+            <Text style={styles.chipConfidence}>{Math.round(candidate.confidence * 100)}%</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.warning,
+    backgroundColor: 'rgba(212,160,23,0.08)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.charcoal,
+    letterSpacing: 1,
+  },
+  message: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.charcoal,
+  },
+  chipPressed: {
+    opacity: 0.7,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaSemiBold',
+    color: '#FFFFFF',
+  },
+  chipConfidence: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaRegular',
+    color: 'rgba(255,255,255,0.7)',
+  },
+});
@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
 import { LucideIcon } from 'lucide-react-native';
 import { Colors } from '@/constants/Colors';
 
@@ -9,11 +9,13 @@ interface TheoryChipGroupProps {
   chipColor: string;
   emptyText?: string;
   icon?: LucideIcon;
+  onItemPress?: (item: string) => void;
 }
 
 /**
  * TheoryChipGroup - Labeled chip container for displaying arrays of items.
  * Used for chords, scales, and techniques in the Theory tab.
+ * Chips become tappable when onItemPress is provided.
  * Memoized to prevent unnecessary re-renders in parent components.
  */
 export const TheoryChipGroup: React.FC<TheoryChipGroupProps> = React.memo(({
@@ -22,6 +24,7 @@ export const TheoryChipGroup: React.FC<TheoryChipGroupProps> = React.memo(({
   chipColor,
   emptyText = 'No data detected',
   icon: Icon,
+  onItemPress,
 }) => {
   return (
     <View style={styles.container}>
@@ -31,11 +34,25 @@ export const TheoryChipGroup: React.FC<TheoryChipGroupProps> = React.memo(({
       </View>
       <View style={styles.chipContainer}>
         {items && items.length > 0 ? (
-          items.map((item, index) => (
-            <View key={index} style={[styles.chip, { backgroundColor: chipColor }]}>
-              <Text style={styles.chipText}>{item}</Text>
-            </View>
-          ))
+          items.map((item, index) =>
+            onItemPress ? (
+              <Pressable
+                key={index}
+                style={({ pressed }) => [
+                  styles.chip,
+                  { backgroundColor: chipColor },
+                  pressed && styles.chipPressed,
+                ]}
+                onPress={() => onItemPress(item)}
+              >
+                <Text style={styles.chipText}>{item}</Text>
+              </Pressable>
+            ) : (
+              <View key={index} style={[styles.chip, { backgroundColor: chipColor }]}>
+                <Text style={styles.chipText}>{item}</Text>
+              </View>
+            )
+          )
         ) : (
           <Text style={styles.emptyText}>{emptyText}</Text>
         )}
@@ -69,6 +86,9 @@ const styles = StyleSheet.create({
     paddingVertical: 6,
     borderRadius: 16,
   },
+  chipPressed: {
+    opacity: 0.7,
+  },
   chipText: {
     fontSize: 12,
     fontFamily: 'LexendDecaSemiBold',
@@ -8,9 +8,9 @@ import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Music, Plus, Trash2 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { Colors } from '@/constants/Colors';
-import type { InstrumentType } from '@/types/chords';
+import type { FretboardInstrument, InstrumentType } from '@/types/chords';
 import { GuitarChordDiagram } from './chords/GuitarChordDiagram';
-import { lookupChord } from '@/data/chords';
+import { lookupChord, resolveTuning } from '@/data/chords';
 
 interface TheoryChordSectionProps {
   /** Section label */
@@ -19,6 +19,8 @@ interface TheoryChordSectionProps {
   chords: string[];
   /** The instrument type (determines if diagrams are available) */
   instrument: InstrumentType;
+  /** Song tuning as stored (e.g., "Drop D"); diagrams are fretted for it */
+  tuning?: string;
   /** Custom chip color */
   chipColor?: string;
   /** Text to show when no chords */
@@ -35,12 +37,18 @@ export const TheoryChordSection: React.FC<TheoryChordSectionProps> = ({
   label = 'HARMONY',
   chords,
   instrument,
+  tuning,
   emptyText = 'No chords detected',
   editable = false,
   onAddChord,
   onDeleteChord,
 }) => {
 
+  // Vocals have no fretboard; everything else gets instrument-specific diagrams
+  const fretboardInstrument: FretboardInstrument | null =
+    instrument === 'vocals' ? null : instrument;
+  const tuningNotes = resolveTuning(tuning, fretboardInstrument ?? 'guitar');
+
   const handleAddPress = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     onAddChord?.();
@@ -63,10 +71,13 @@ export const TheoryChordSection: React.FC<TheoryChordSectionProps> = ({
       <View style={styles.diagramColumn}>
         {chords && chords.length > 0 ? (
           chords.map((chord, index) => {
-            const lookupResult = lookupChord(chord);
+            const lookupResult = lookupChord(
+              chord,
+              tuningNotes,
+              fretboardInstrument ?? 'guitar',
+            );
             const fingering = lookupResult.chord?.voicings[0];
-            const isGuitar = instrument.toLowerCase() === 'guitar';
-            const canShowDiagram = fingering && isGuitar;
+            const canShowDiagram = fingering && fretboardInstrument;
 
             return (
               <View key={`${chord}-${index}`} style={styles.diagramCard}>
@@ -80,6 +91,7 @@ export const TheoryChordSection: React.FC<TheoryChordSectionProps> = ({
                     <GuitarChordDiagram
                       fingering={fingering}
                       rootNote={lookupResult.chord?.root}
+                      tuning={tuningNotes}
                       size="medium"
                     />
                   ) : (
@@ -87,7 +99,7 @@ export const TheoryChordSection: React.FC<TheoryChordSectionProps> = ({
                       <Text style={styles.chordNameFallback}>
                         {lookupResult.displayName}
                       </Text>
-                      {!isGuitar && (
+                      {!fretboardInstrument && (
                         <Text style={styles.nodiagramText}>
                           Diagram not available for {instrument}
                         </Text>
@@ -13,12 +13,17 @@ interface TheoryMetricsRowProps {
   timeSignature: string;
   songTitle?: string;
   artist?: string;
+  chords?: string[];
+  onTempoPress?: () => void;
+  onTuningPress?: () => void;
 }
 
 /**
  * TheoryMetricsRow - 2x2 grid display for Tuning, Key, Tempo, Time Signature.
  * Each metric shows an icon, label, and value in a centered column layout.
  * Key cell is tappable to open Circle of Fifths modal.
+ * Tempo cell is tappable when onTempoPress is set (opens the metronome).
+ * Tuning cell is tappable when onTuningPress is set (opens the tuner).
  */
 export const TheoryMetricsRow: React.FC<TheoryMetricsRowProps> = ({
   tuning,
@@ -27,6 +32,9 @@ export const TheoryMetricsRow: React.FC<TheoryMetricsRowProps> = ({
   timeSignature,
   songTitle,
   artist,
+  chords,
+  onTempoPress,
+  onTuningPress,
 }) => {
   const [showCircleOfFifths, setShowCircleOfFifths] = useState(false);
 
@@ -35,19 +43,52 @@ export const TheoryMetricsRow: React.FC<TheoryMetricsRowProps> = ({
     setShowCircleOfFifths(true);
   };
 
+  const handleTempoPress = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onTempoPress?.();
+  };
+
+  const handleTuningPress = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onTuningPress?.();
+  };
+
   return (
     <>
       <View style={styles.metricsGrid}>
         {/* Row 1: Tuning | Key */}
         <View style={styles.metricsRow}>
-          {/* Tuning */}
-          <View style={styles.metricItem}>
-            <View style={styles.metricHeader}>
-              <Guitar size={14} color={Colors.vermilion} />
-              <Text style={styles.metricLabel}>TUNING</Text>
+          {/* Tuning - Tappable when the tuner can be opened */}
+          {onTuningPress ? (
+            <Pressable
+              style={({ pressed }) => [
+                styles.metricItem,
+                styles.metricItemTappable,
+                styles.metricItemTappableStart,
+                pressed && styles.metricItemPressed,
+              ]}
+              onPress={handleTuningPress}
+              accessibilityRole="button"
+              accessibilityHint="Opens the tuner in this song's tuning"
+            >
+              <View style={styles.metricHeader}>
+                <Guitar size={14} color={Colors.vermilion} />
+                <Text style={styles.metricLabel}>TUNING</Text>
+                <ChevronRight size={12} color={Colors.graphite} style={styles.chevron} />
+              </View>
+              <Text style={[styles.metricValue, styles.metricValueTappable]}>
+                {tuning || 'Standard'}
+              </Text>
+            </Pressable>
+          ) : (
+            <View style={styles.metricItem}>
+              <View style={styles.metricHeader}>
+                <Guitar size={14} color={Colors.vermilion} />
+                <Text style={styles.metricLabel}>TUNING</Text>
+              </View>
+              <Text style={styles.metricValue}>{tuning || 'Standard'}</Text>
             </View>
-            <Text style={styles.metricValue}>{tuning || 'Standard'}</Text>
-          </View>
+          )}
 
           {/* Key - Tappable */}
           <Pressable
@@ -71,14 +112,37 @@ export const TheoryMetricsRow: React.FC<TheoryMetricsRowProps> = ({
 
         {/* Row 2: Tempo | Time */}
         <View style={styles.metricsRow}>
-          {/* Tempo */}
-          <View style={styles.metricItem}>
-            <View style={styles.metricHeader}>
-              <Clock size={14} color={Colors.vermilion} />
-              <Text style={styles.metricLabel}>TEMPO</Text>
+          {/* Tempo - Tappable when the metronome can be opened */}
+          {onTempoPress ? (
+            <Pressable
+              style={({ pressed }) => [
+                styles.metricItem,
+                styles.metricItemTappable,
+                styles.metricItemTappableStart,
+                pressed && styles.metricItemPressed,
+              ]}
+              onPress={handleTempoPress}
+              accessibilityRole="button"
+              accessibilityHint="Opens the metronome for this song"
+            >
+              <View style={styles.metricHeader}>
+                <Clock size={14} color={Colors.vermilion} />
+                <Text style={styles.metricLabel}>TEMPO</Text>
+                <ChevronRight size={12} color={Colors.graphite} style={styles.chevron} />
+              </View>
+              <Text style={[styles.metricValue, styles.metricValueTappable]}>
+                {tempo || 'Unknown'}
+              </Text>
+            </Pressable>
+          ) : (
+            <View style={styles.metricItem}>
+              <View style={styles.metricHeader}>
+                <Clock size={14} color={Colors.vermilion} />
+                <Text style={styles.metricLabel}>TEMPO</Text>
+              </View>
+              <Text style={styles.metricValue}>{tempo || 'Unknown'}</Text>
             </View>
-            <Text style={styles.metricValue}>{tempo || 'Unknown'}</Text>
-          </View>
+          )}
 
           {/* Time Signature */}
           <View style={styles.metricItem}>
@@ -98,6 +162,7 @@ export const TheoryMetricsRow: React.FC<TheoryMetricsRowProps> = ({
         songKey={keyValue || 'C Major'}
         songTitle={songTitle}
         artist={artist}
+        chords={chords}
       />
     </>
   );
@@ -123,6 +188,10 @@ const styles = StyleSheet.create({
     marginTop: -8,
     marginBottom: -8,
   },
+  metricItemTappableStart: {
+    marginLeft: 0,
+    marginRight: 8,
+  },
   metricItemPressed: {
     backgroundColor: 'rgba(0,0,0,0.08)',
   },
@@ -0,0 +1,206 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { ListMusic, Ear } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import type { ChordFunction, ProgressionAnalysis } from '@/utils/progressions';
+
+interface TheoryProgressionSectionProps {
+  analysis: ProgressionAnalysis | null;
+  emptyText?: string;
+  onEarTrainingPress?: () => void;
+}
+
+// Chip color and legend label for each chord function
+const FUNCTION_STYLES: Record<ChordFunction, { color: string; label: string }> = {
+  diatonic: { color: Colors.charcoal, label: 'Diatonic' },
+  borrowed: { color: Colors.warning, label: 'Borrowed' },
+  secondaryDominant: { color: Colors.pitch, label: 'Secondary dominant' },
+  chromatic: { color: Colors.vermilion, label: 'Chromatic' },
+};
+
+/**
+ * TheoryProgressionSection - Roman-numeral analysis of the song's chords.
+ * Shows each chord over its numeral, a legend for non-diatonic chords,
+ * and any common progressions found in the chord order.
+ * Shows an ear training link when onEarTrainingPress is set (quizzes progressions in the song's key).
+ */
+export const TheoryProgressionSection: React.FC<TheoryProgressionSectionProps> = React.memo(({
+  analysis,
+  emptyText = 'Needs a key and chords to analyze',
+  onEarTrainingPress,
+}) => {
+  const hasChords = !!analysis && analysis.chords.length > 0;
+  const usedFunctions = hasChords
+    ? (Object.keys(FUNCTION_STYLES) as ChordFunction[]).filter((fn) =>
+        analysis.nonDiatonic.some((chord) => chord.function === fn)
+      )
+    : [];
+
+  const handleEarTrainingPress = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onEarTrainingPress?.();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <ListMusic size={12} color={Colors.warmGray} />
+        <Text style={styles.label}>PROGRESSION</Text>
+        {onEarTrainingPress && (
+          <Pressable
+            onPress={handleEarTrainingPress}
+            style={({ pressed }) => [styles.earTraining, pressed && styles.earTrainingPressed]}
+            accessibilityRole="button"
+            accessibilityLabel="Ear training"
+            accessibilityHint="Quizzes you on progressions in this song's key"
+          >
+            <Ear size={12} color={Colors.vermilion} />
+            <Text style={styles.earTrainingText}>EAR TRAINING</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {hasChords ? (
+        <>
+          {/* Chord over numeral */}
+          <View style={styles.chipContainer}>
+            {analysis.chords.map((chord, index) => (
+              <View
+                key={index}
+                style={[styles.chip, { backgroundColor: FUNCTION_STYLES[chord.function].color }]}
+              >
+                <Text style={styles.chipChord}>{chord.chord}</Text>
+                <Text style={styles.chipRoman}>{chord.roman}</Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Legend - only for functions that appear */}
+          {usedFunctions.length > 0 && (
+            <View style={styles.legend}>
+              {usedFunctions.map((fn) => (
+                <View key={fn} style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: FUNCTION_STYLES[fn].color }]} />
+                  <Text style={styles.legendText}>{FUNCTION_STYLES[fn].label}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Common progressions */}
+          {analysis.progressions.map((progression) => (
+            <View key={progression.name} style={styles.progressionRow}>
+              <Text style={styles.progressionName}>{progression.name}</Text>
+              <Text style={styles.progressionNumerals}>
+                {progression.numerals.join(' – ')} · {progression.chords.join(' ')}
+              </Text>
+            </View>
+          ))}
+        </>
+      ) : (
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  earTraining: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.03)',
+  },
+  earTrainingPressed: {
+    backgroundColor: 'rgba(0,0,0,0.08)',
+  },
+  earTrainingText: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    minWidth: 44,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  chipChord: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaSemiBold',
+    color: '#FFFFFF',
+  },
+  chipRoman: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaRegular',
+    color: 'rgba(255,255,255,0.8)',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+  },
+  progressionRow: {
+    backgroundColor: 'rgba(0,0,0,0.03)',
+    borderRadius: 8,
+    padding: 8,
+    gap: 2,
+  },
+  progressionName: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.charcoal,
+  },
+  progressionNumerals: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+  },
+  emptyText: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,216 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Minus, Plus, RotateCcw, MoveHorizontal } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { normalizeSemitones, type CapoSuggestion } from '@/utils/transpose';
+
+interface TransposeControlProps {
+  semitones: number;
+  transposedKey: string;
+  capoSuggestions?: CapoSuggestion[];
+  activeCapo?: number | null;
+  onChangeSemitones: (semitones: number) => void;
+  onSelectCapo?: (capo: number | null) => void;
+  onApply?: () => void;
+}
+
+/**
+ * TransposeControl - Semitone stepper with the resulting key and capo suggestions.
+ * Shifting is view-only until the user applies it to the song.
+ */
+export const TransposeControl: React.FC<TransposeControlProps> = ({
+  semitones,
+  transposedKey,
+  capoSuggestions = [],
+  activeCapo = null,
+  onChangeSemitones,
+  onSelectCapo,
+  onApply,
+}) => {
+  const isTransposed = semitones !== 0;
+
+  const handleStep = async (delta: number) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChangeSemitones(normalizeSemitones(semitones + delta));
+  };
+
+  const handleReset = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChangeSemitones(0);
+  };
+
+  const handleCapoPress = async (capo: number) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelectCapo?.(activeCapo === capo ? null : capo);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <MoveHorizontal size={12} color={Colors.warmGray} />
+        <Text style={styles.label}>TRANSPOSE</Text>
+      </View>
+
+      {/* Stepper: [-] +3 · Bb Major [+] */}
+      <View style={styles.stepperRow}>
+        <Pressable
+          style={({ pressed }) => [styles.stepButton, pressed && styles.stepButtonPressed]}
+          onPress={() => handleStep(-1)}
+          accessibilityLabel="Transpose down a semitone"
+        >
+          <Minus size={16} color={Colors.charcoal} />
+        </Pressable>
+
+        <View style={styles.valueContainer}>
+          <Text style={[styles.semitoneText, isTransposed && styles.semitoneTextActive]}>
+            {semitones > 0 ? `+${semitones}` : semitones}
+          </Text>
+          <Text style={styles.keyText} numberOfLines={1}>{transposedKey}</Text>
+        </View>
+
+        <Pressable
+          style={({ pressed }) => [styles.stepButton, pressed && styles.stepButtonPressed]}
+          onPress={() => handleStep(1)}
+          accessibilityLabel="Transpose up a semitone"
+        >
+          <Plus size={16} color={Colors.charcoal} />
+        </Pressable>
+
+        {isTransposed && (
+          <Pressable
+            style={({ pressed }) => [styles.stepButton, pressed && styles.stepButtonPressed]}
+            onPress={handleReset}
+            accessibilityLabel="Reset to original key"
+          >
+            <RotateCcw size={14} color={Colors.graphite} />
+          </Pressable>
+        )}
+      </View>
+
+      {isTransposed && onApply && (
+        <Pressable
+          style={({ pressed }) => [styles.applyButton, pressed && styles.applyButtonPressed]}
+          onPress={onApply}
+        >
+          <Text style={styles.applyText}>SAVE AS SONG KEY</Text>
+        </Pressable>
+      )}
+
+      {/* Capo suggestions */}
+      {capoSuggestions.length > 0 && onSelectCapo && (
+        <View style={styles.capoSection}>
+          <Text style={styles.label}>CAPO</Text>
+          <View style={styles.chipContainer}>
+            {capoSuggestions.map((suggestion) => {
+              const isActive = activeCapo === suggestion.capo;
+              return (
+                <Pressable
+                  key={suggestion.capo}
+                  style={[styles.chip, isActive && styles.chipActive]}
+                  onPress={() => handleCapoPress(suggestion.capo)}
+                >
+                  <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                    {`Capo ${suggestion.capo} · ${suggestion.shapeKey.split(' ')[0]} shapes`}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  label: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0,0,0,0.05)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonPressed: {
+    backgroundColor: 'rgba(0,0,0,0.12)',
+  },
+  valueContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  semitoneText: {
+    fontSize: 16,
+    fontFamily: 'LexendDecaBold',
+    color: Colors.charcoal,
+  },
+  semitoneTextActive: {
+    color: Colors.vermilion,
+  },
+  keyText: {
+    fontSize: 11,
+    fontFamily: 'LexendDecaRegular',
+    color: Colors.graphite,
+  },
+  applyButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.vermilion,
+  },
+  applyButtonPressed: {
+    backgroundColor: 'rgba(238,108,77,0.1)',
+  },
+  applyText: {
+    fontSize: 10,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.vermilion,
+    letterSpacing: 1,
+  },
+  capoSection: {
+    gap: 8,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.05)',
+  },
+  chipActive: {
+    backgroundColor: Colors.charcoal,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'LexendDecaSemiBold',
+    color: Colors.charcoal,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+});
@@ -6,8 +6,8 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { Colors } from '@/constants/Colors';
-import { lookupChord, getDefaultVoicing } from '@/data/chords';
-import type { InstrumentType } from '@/types/chords';
+import { lookupChord, getDefaultVoicing, resolveTuning } from '@/data/chords';
+import type { FretboardInstrument, InstrumentType } from '@/types/chords';
 import { GuitarChordDiagram } from './GuitarChordDiagram';
 
 interface ChordVisualizationProps {
@@ -33,11 +33,8 @@ export const ChordVisualization: React.FC<ChordVisualizationProps> = ({
   size = 'medium',
   showChordName = true,
 }) => {
-  // Lookup chord in dictionary
-  const lookupResult = lookupChord(chord);
-
-  // Only render for supported instruments
-  const supportedInstruments: InstrumentType[] = ['guitar'];
+  // Only render for fretboard instruments
+  const supportedInstruments: InstrumentType[] = ['guitar', 'bass', 'ukulele'];
 
   if (!supportedInstruments.includes(instrument)) {
     return (
@@ -49,6 +46,11 @@ export const ChordVisualization: React.FC<ChordVisualizationProps> = ({
     );
   }
 
+  // Lookup chord (dictionary for guitar, generated for bass/ukulele)
+  const fretboardInstrument = instrument as FretboardInstrument;
+  const tuning = resolveTuning(null, fretboardInstrument);
+  const lookupResult = lookupChord(chord, tuning, fretboardInstrument);
+
   // Handle unknown chords
   if (lookupResult.status === 'unknown') {
     return (
@@ -103,30 +105,24 @@ export const ChordVisualization: React.FC<ChordVisualizationProps> = ({
   // Show warning for partial chords
   const showWarning = lookupResult.status === 'partial' && lookupResult.warning;
 
-  // Render guitar chord diagram
-  if (instrument === 'guitar') {
-    return (
-      <View>
-        {showChordName && (
-          <Text style={styles.chordName}>{chordDef.display}</Text>
-        )}
-        <GuitarChordDiagram
-          fingering={voicing}
-          rootNote={chordDef.root}
-          showFingers={showFingers}
-          size={size}
-        />
-        {showWarning && (
-          <Text style={styles.warningText}>{lookupResult.warning}</Text>
-        )}
-      </View>
-    );
-  }
-
-  // Future: Add bass, ukulele renderers here
-  // if (instrument === 'bass') { return <BassChordDiagram ... />; }
-
-  return null;
+  // Render fretboard diagram (string count follows the instrument)
+  return (
+    <View>
+      {showChordName && (
+        <Text style={styles.chordName}>{chordDef.display}</Text>
+      )}
+      <GuitarChordDiagram
+        fingering={voicing}
+        rootNote={chordDef.root}
+        tuning={tuning}
+        showFingers={showFingers}
+        size={size}
+      />
+      {showWarning && (
+        <Text style={styles.warningText}>{lookupResult.warning}</Text>
+      )}
+    </View>
+  );
 };
 
 const styles = StyleSheet.create({
@@ -18,7 +18,6 @@ import { Colors } from '@/constants/Colors';
 import type { ChordFingering } from '@/types/chords';
 
 // Layout constants
-const STRINGS = 6;
 const FRETS_SHOWN = 4;
 const STRING_SPACING = 28;
 const FRET_SPACING = 32;
@@ -28,18 +27,21 @@ const NUT_THICKNESS = 4;
 const FRET_THICKNESS = 1.5;
 const STRING_THICKNESS = 1;
 
-// Calculate canvas dimensions
-const FRETBOARD_WIDTH = (STRINGS - 1) * STRING_SPACING;
+// Calculate canvas dimensions (width depends on string count: 6 guitar, 4 bass/ukulele)
 const FRETBOARD_HEIGHT = FRETS_SHOWN * FRET_SPACING;
-const CANVAS_WIDTH = PADDING.left + FRETBOARD_WIDTH + PADDING.right;
 const CANVAS_HEIGHT = PADDING.top + FRETBOARD_HEIGHT + PADDING.bottom;
-
-// String tuning labels (low E to high e)
-const STRING_LABELS = ['E', 'A', 'D', 'G', 'B', 'e'];
+const getCanvasWidth = (stringCount: number) =>
+  PADDING.left + (stringCount - 1) * STRING_SPACING + PADDING.right;
 
 // Standard tuning open string notes (low E to high e)
 const OPEN_STRINGS = ['E', 'A', 'D', 'G', 'B', 'E'];
 
+// String labels for a tuning (high string lowercased when it repeats the low string, e.g. E/e)
+const getStringLabels = (tuning: string[]): string[] =>
+  tuning.map((note, i) =>
+    i === tuning.length - 1 && note === tuning[0] ? note.toLowerCase() : note,
+  );
+
 // Chromatic scale for note calculation
 const CHROMATIC = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
@@ -52,13 +54,15 @@ const normalizeNote = (note: string): string => {
   return flatToSharp[note] || note;
 };
 
-// Get the note at a specific string/fret position
-const getNoteAtPosition = (stringIndex: number, fret: number, baseFret: number = 1): string => {
-  const openNote = OPEN_STRINGS[stringIndex];
+// Get the note at a specific string/fret position (frets are absolute, as in ChordFingering)
+const getNoteAtPosition = (
+  tuning: string[],
+  stringIndex: number,
+  fret: number,
+): string => {
+  const openNote = normalizeNote(tuning[stringIndex]);
   const openIndex = CHROMATIC.indexOf(openNote);
-  // For fret 0 (open string), no offset; otherwise add baseFret offset
-  const actualFret = fret === 0 ? 0 : fret + baseFret - 1;
-  return CHROMATIC[(openIndex + actualFret) % 12];
+  return CHROMATIC[(openIndex + fret) % 12];
 };
 
 // Check if a note matches the root note (handles enharmonics)
@@ -69,6 +73,7 @@ const isRootNote = (note: string, rootNote: string): boolean => {
 interface GuitarChordDiagramProps {
   fingering: ChordFingering;
   rootNote?: string; // Root note of the chord (e.g., 'C', 'F#', 'Bb')
+  tuning?: string[]; // Open string notes, low to high (default: standard guitar)
   showFingers?: boolean;
   size?: 'small' | 'medium' | 'large';
 }
@@ -76,6 +81,7 @@ interface GuitarChordDiagramProps {
 export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
   fingering,
   rootNote,
+  tuning = OPEN_STRINGS,
   showFingers = true,
   size = 'medium',
 }) => {
@@ -99,14 +105,15 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
 
   // Calculate scale factor based on size
   const scale = size === 'small' ? 0.7 : size === 'large' ? 1.2 : 1;
-  const scaledWidth = CANVAS_WIDTH * scale;
+  const stringCount = fingering.frets.length;
+  const scaledWidth = getCanvasWidth(stringCount) * scale;
   const scaledHeight = CANVAS_HEIGHT * scale;
 
   // Base fret for movable chords
   const baseFret = fingering.baseFret || 1;
   const showBaseFret = baseFret > 1;
 
-  // Helper: get X position for a string (0 = low E, 5 = high e)
+  // Helper: get X position for a string (0 = lowest string)
   const getStringX = (stringIndex: number) =>
     (PADDING.left + stringIndex * STRING_SPACING) * scale;
 
@@ -147,7 +154,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
         {!showBaseFret && (
           <Line
             p1={vec(getStringX(0), getFretY(0))}
-            p2={vec(getStringX(5), getFretY(0))}
+            p2={vec(getStringX(stringCount - 1), getFretY(0))}
             color={Colors.charcoal}
             strokeWidth={NUT_THICKNESS * scale}
           />
@@ -161,7 +168,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
             <Line
               key={`fret-${fretIndex}`}
               p1={vec(getStringX(0), getFretY(fretIndex))}
-              p2={vec(getStringX(5), getFretY(fretIndex))}
+              p2={vec(getStringX(stringCount - 1), getFretY(fretIndex))}
               color={Colors.graphite}
               strokeWidth={FRET_THICKNESS * scale}
             />
@@ -169,7 +176,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
         })}
 
         {/* String lines */}
-        {Array.from({ length: STRINGS }).map((_, stringIndex) => (
+        {Array.from({ length: stringCount }).map((_, stringIndex) => (
           <Line
             key={`string-${stringIndex}`}
             p1={vec(getStringX(stringIndex), getFretY(0))}
@@ -200,7 +207,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
           } else if (fret === 0) {
             // Open string - O marker
             // Check if this open string is the root note
-            const openStringNote = getNoteAtPosition(stringIndex, 0, baseFret);
+            const openStringNote = getNoteAtPosition(tuning, stringIndex, 0);
             const isRoot = rootNote && isRootNote(openStringNote, rootNote);
             return (
               <Circle
@@ -257,7 +264,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
           const finger = fingering.fingers?.[stringIndex];
 
           // Check if this position plays the root note
-          const noteAtPosition = getNoteAtPosition(stringIndex, fret, baseFret);
+          const noteAtPosition = getNoteAtPosition(tuning, stringIndex, fret);
           const isRoot = rootNote && isRootNote(noteAtPosition, rootNote);
           const dotColor = isRoot ? Colors.moss : Colors.vermilion;
 
@@ -285,8 +292,38 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
           );
         })}
 
+        {/* Additional notes (several notes per string, e.g. bass arpeggio boxes) */}
+        {fingering.additionalNotes?.map((note, noteIndex) => {
+          if (note.fret === 0) return null;
+
+          const x = getStringX(note.string);
+          const y = getDotY(note.fret);
+          const noteAtPosition = getNoteAtPosition(tuning, note.string, note.fret);
+          const isRoot = rootNote && isRootNote(noteAtPosition, rootNote);
+
+          return (
+            <React.Fragment key={`extra-${noteIndex}`}>
+              <Circle
+                cx={x}
+                cy={y}
+                r={DOT_RADIUS * scale}
+                color={isRoot ? Colors.moss : Colors.vermilion}
+              />
+              {showFingers && note.finger && (
+                <Text
+                  x={x - 3 * scale}
+                  y={y + 4 * scale}
+                  text={String(note.finger)}
+                  font={fingerFont}
+                  color={Colors.softWhite}
+                />
+              )}
+            </React.Fragment>
+          );
+        })}
+
         {/* String labels at bottom */}
-        {STRING_LABELS.map((label, stringIndex) => {
+        {getStringLabels(tuning).slice(0, stringCount).map((label, stringIndex) => {
           const x = getStringX(stringIndex);
           const y = getFretY(FRETS_SHOWN) + 20 * scale;
 
@@ -10,7 +10,6 @@ import { Colors } from '@/constants/Colors';
 import type { ChordFingering } from '@/types/chords';
 
 // Layout constants
-const STRINGS = 6;
 const FRETS_SHOWN = 4;
 const STRING_SPACING = 28;
 const FRET_SPACING = 32;
@@ -20,18 +19,21 @@ const NUT_THICKNESS = 4;
 const FRET_THICKNESS = 1.5;
 const STRING_THICKNESS = 1;
 
-// Calculate canvas dimensions
-const FRETBOARD_WIDTH = (STRINGS - 1) * STRING_SPACING;
+// Calculate canvas dimensions (width depends on string count: 6 guitar, 4 bass/ukulele)
 const FRETBOARD_HEIGHT = FRETS_SHOWN * FRET_SPACING;
-const CANVAS_WIDTH = PADDING.left + FRETBOARD_WIDTH + PADDING.right;
 const CANVAS_HEIGHT = PADDING.top + FRETBOARD_HEIGHT + PADDING.bottom;
-
-// String tuning labels (low E to high e)
-const STRING_LABELS = ['E', 'A', 'D', 'G', 'B', 'e'];
+const getCanvasWidth = (stringCount: number) =>
+  PADDING.left + (stringCount - 1) * STRING_SPACING + PADDING.right;
 
 // Standard tuning open string notes (low E to high e)
 const OPEN_STRINGS = ['E', 'A', 'D', 'G', 'B', 'E'];
 
+// String labels for a tuning (high string lowercased when it repeats the low string, e.g. E/e)
+const getStringLabels = (tuning: string[]): string[] =>
+  tuning.map((note, i) =>
+    i === tuning.length - 1 && note === tuning[0] ? note.toLowerCase() : note,
+  );
+
 // Chromatic scale for note calculation
 const CHROMATIC = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
@@ -44,13 +46,15 @@ const normalizeNote = (note: string): string => {
   return flatToSharp[note] || note;
 };
 
-// Get the note at a specific string/fret position
-const getNoteAtPosition = (stringIndex: number, fret: number, baseFret: number = 1): string => {
-  const openNote = OPEN_STRINGS[stringIndex];
+// Get the note at a specific string/fret position (frets are absolute, as in ChordFingering)
+const getNoteAtPosition = (
+  tuning: string[],
+  stringIndex: number,
+  fret: number,
+): string => {
+  const openNote = normalizeNote(tuning[stringIndex]);
   const openIndex = CHROMATIC.indexOf(openNote);
-  // For fret 0 (open string), no offset; otherwise add baseFret offset
-  const actualFret = fret === 0 ? 0 : fret + baseFret - 1;
-  return CHROMATIC[(openIndex + actualFret) % 12];
+  return CHROMATIC[(openIndex + fret) % 12];
 };
 
 // Check if a note matches the root note (handles enharmonics)
@@ -61,6 +65,7 @@ const isRootNote = (note: string, rootNote: string): boolean => {
 interface GuitarChordDiagramProps {
   fingering: ChordFingering;
   rootNote?: string; // Root note of the chord (e.g., 'C', 'F#', 'Bb')
+  tuning?: string[]; // Open string notes, low to high (default: standard guitar)
   showFingers?: boolean;
   size?: 'small' | 'medium' | 'large';
 }
@@ -68,19 +73,21 @@ interface GuitarChordDiagramProps {
 export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
   fingering,
   rootNote,
+  tuning = OPEN_STRINGS,
   showFingers = true,
   size = 'medium',
 }) => {
   // Calculate scale factor based on size
   const scale = size === 'small' ? 0.7 : size === 'large' ? 1.2 : 1;
-  const scaledWidth = CANVAS_WIDTH * scale;
+  const stringCount = fingering.frets.length;
+  const scaledWidth = getCanvasWidth(stringCount) * scale;
   const scaledHeight = CANVAS_HEIGHT * scale;
 
   // Base fret for movable chords
   const baseFret = fingering.baseFret || 1;
   const showBaseFret = baseFret > 1;
 
-  // Helper: get X position for a string (0 = low E, 5 = high e)
+  // Helper: get X position for a string (0 = lowest string)
   const getStringX = (stringIndex: number) =>
     (PADDING.left + stringIndex * STRING_SPACING) * scale;
 
@@ -115,7 +122,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
           <Line
             x1={getStringX(0)}
             y1={getFretY(0)}
-            x2={getStringX(5)}
+            x2={getStringX(stringCount - 1)}
             y2={getFretY(0)}
             stroke={Colors.charcoal}
             strokeWidth={NUT_THICKNESS * scale}
@@ -131,7 +138,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
               key={`fret-${fretIndex}`}
               x1={getStringX(0)}
               y1={getFretY(fretIndex)}
-              x2={getStringX(5)}
+              x2={getStringX(stringCount - 1)}
               y2={getFretY(fretIndex)}
               stroke={Colors.graphite}
               strokeWidth={FRET_THICKNESS * scale}
@@ -140,7 +147,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
         })}
 
         {/* String lines */}
-        {Array.from({ length: STRINGS }).map((_, stringIndex) => (
+        {Array.from({ length: stringCount }).map((_, stringIndex) => (
           <Line
             key={`string-${stringIndex}`}
             x1={getStringX(stringIndex)}
@@ -174,7 +181,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
             );
           } else if (fret === 0) {
             // Open string - O marker
-            const openStringNote = getNoteAtPosition(stringIndex, 0, baseFret);
+            const openStringNote = getNoteAtPosition(tuning, stringIndex, 0);
             const isRoot = rootNote && isRootNote(openStringNote, rootNote);
             return (
               <Circle
@@ -232,7 +239,7 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
           const finger = fingering.fingers?.[stringIndex];
 
           // Check if this position plays the root note
-          const noteAtPosition = getNoteAtPosition(stringIndex, fret, baseFret);
+          const noteAtPosition = getNoteAtPosition(tuning, stringIndex, fret);
           const isRoot = rootNote && isRootNote(noteAtPosition, rootNote);
           const dotColor = isRoot ? Colors.moss : Colors.vermilion;
 
@@ -263,8 +270,41 @@ export const GuitarChordDiagram: React.FC<GuitarChordDiagramProps> = ({
           );
         })}
 
+        {/* Additional notes (several notes per string, e.g. bass arpeggio boxes) */}
+        {fingering.additionalNotes?.map((note, noteIndex) => {
+          if (note.fret === 0) return null;
+
+          const x = getStringX(note.string);
+          const y = getDotY(note.fret);
+          const noteAtPosition = getNoteAtPosition(tuning, note.string, note.fret);
+          const isRoot = rootNote && isRootNote(noteAtPosition, rootNote);
+
+          return (
+            <G key={`extra-${noteIndex}`}>
+              <Circle
+                cx={x}
+                cy={y}
+                r={DOT_RADIUS * scale}
+                fill={isRoot ? Colors.moss : Colors.vermilion}
+              />
+              {showFingers && note.finger && (
+                <SvgText
+                  x={x}
+                  y={y + 4 * scale}
+                  fontSize={11 * scale}
+                  fontFamily="LexendDeca-Bold"
+                  fill={Colors.softWhite}
+                  textAnchor="middle"
+                >
+                  {String(note.finger)}
+                </SvgText>
+              )}
+            </G>
+          );
+        })}
+
         {/* String labels at bottom */}
-        {STRING_LABELS.map((label, stringIndex) => {
+        {getStringLabels(tuning).slice(0, stringCount).map((label, stringIndex) => {
           const x = getStringX(stringIndex);
           const y = getFretY(FRETS_SHOWN) + 20 * scale;
 
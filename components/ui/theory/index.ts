@@ -3,6 +3,10 @@ export { TheoryMetricsRow } from './TheoryMetricsRow';
 export { TheoryChipGroup } from './TheoryChipGroup';
 export { TheoryChordSection } from './TheoryChordSection';
 export { ChordChartModal } from './ChordChartModal';
+export { TransposeControl } from './TransposeControl';
+export { TheoryProgressionSection } from './TheoryProgressionSection';
+export { KeyCheckBanner } from './KeyCheckBanner';
+export { ArrangementPanel } from './ArrangementPanel';
 
 // Circle of Fifths
 export { CircleOfFifths } from './CircleOfFifths';
@@ -15,3 +19,6 @@ export {
   ChordChip,
   AddChordModal,
 } from './chords';
+
+// Scale visualization components
+export { ScaleFretboard, ScaleFretboardModal } from './scales';
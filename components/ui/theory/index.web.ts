@@ -3,6 +3,10 @@ export { TheoryMetricsRow } from './TheoryMetricsRow.web';
 export { TheoryChipGroup } from './TheoryChipGroup';
 export { TheoryChordSection } from './TheoryChordSection.web';
 export { ChordChartModal } from './ChordChartModal';
+export { TransposeControl } from './TransposeControl';
+export { TheoryProgressionSection } from './TheoryProgressionSection';
+export { KeyCheckBanner } from './KeyCheckBanner';
+export { ArrangementPanel } from './ArrangementPanel';
 
 // Circle of Fifths - Web version
 export { CircleOfFifths } from './CircleOfFifths.web';
@@ -15,3 +19,6 @@ export {
   ChordChip,
   AddChordModal,
 } from './chords';
+
+// Scale visualization components - Web versions
+export { ScaleFretboard, ScaleFretboardModal } from './scales';
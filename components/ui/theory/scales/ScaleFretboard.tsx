@@ -0,0 +1,206 @@
+/**
+ * ScaleFretboard - Skia-based full-neck view of a scale or arpeggio
+ * Renders every position of the given notes across the neck, with root notes highlighted
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet, ActivityIndicator } from 'react-native';
+import {
+  Canvas,
+  Line,
+  Circle,
+  Text,
+  useFont,
+  vec,
+} from '@shopify/react-native-skia';
+import { Colors } from '@/constants/Colors';
+import {
+  STANDARD_TUNING,
+  findScalePositions,
+} from '@/data/chords/generator/fretboard';
+import { getNoteIndex, type NoteName } from '@/data/chords/generator/music-theory';
+
+// Layout constants
+const FRET_WIDTH = 48;
+const STRING_SPACING = 26;
+const PADDING = { top: 16, left: 44, right: 16, bottom: 28 };
+const DOT_RADIUS = 10;
+const NUT_THICKNESS = 4;
+const FRET_THICKNESS = 1.5;
+const STRING_THICKNESS = 1;
+const INLAY_RADIUS = 4;
+
+// Frets with inlay markers (12 gets a double dot)
+const INLAY_FRETS = [3, 5, 7, 9, 12, 15, 17, 19, 21];
+
+// Canvas dimensions for a neck
+export const getScaleFretboardSize = (stringCount: number, fretCount: number) => ({
+  width: PADDING.left + fretCount * FRET_WIDTH + PADDING.right,
+  height: PADDING.top + (stringCount - 1) * STRING_SPACING + PADDING.bottom,
+});
+
+interface ScaleFretboardProps {
+  notes: string[]; // Notes to show (scale or arpeggio), spelled for display
+  rootNote: string;
+  tuning?: NoteName[]; // Open string notes, low to high (default: standard guitar)
+  fretCount?: number;
+}
+
+export const ScaleFretboard: React.FC<ScaleFretboardProps> = ({
+  notes,
+  rootNote,
+  tuning = STANDARD_TUNING,
+  fretCount = 15,
+}) => {
+  // Load fonts
+  const noteFont = useFont(
+    require('@/assets/fonts/LexendDeca-Bold.ttf'),
+    9,
+  );
+  const labelFont = useFont(
+    require('@/assets/fonts/LexendDeca-SemiBold.ttf'),
+    10,
+  );
+
+  const stringCount = tuning.length;
+  const { width, height } = getScaleFretboardSize(stringCount, fretCount);
+
+  // Every position of every note, with the note spelled as given
+  const positions = useMemo(() => {
+    const spelling = new Map(notes.map((note) => [getNoteIndex(note), note]));
+    const rootIndex = getNoteIndex(rootNote);
+    return findScalePositions(notes, fretCount, tuning).map((pos) => ({
+      ...pos,
+      label: spelling.get(getNoteIndex(pos.note)) ?? pos.note,
+      isRoot: getNoteIndex(pos.note) === rootIndex,
+    }));
+  }, [notes, rootNote, fretCount, tuning]);
+
+  // Helper: get Y position for a string (0 = lowest string, drawn at the bottom)
+  const getStringY = (stringIndex: number) =>
+    PADDING.top + (stringCount - 1 - stringIndex) * STRING_SPACING;
+
+  // Helper: get X position for a fret wire (0 = nut)
+  const getFretX = (fretIndex: number) => PADDING.left + fretIndex * FRET_WIDTH;
+
+  // Helper: get X position for a note dot (centered between frets, open notes left of the nut)
+  const getDotX = (fret: number) =>
+    fret === 0 ? PADDING.left - DOT_RADIUS - 8 : getFretX(fret) - FRET_WIDTH / 2;
+
+  const neckTop = getStringY(stringCount - 1);
+  const neckBottom = getStringY(0);
+  const neckMiddle = (neckTop + neckBottom) / 2;
+
+  // Show loading state while fonts are loading
+  if (!noteFont || !labelFont) {
+    return (
+      <View style={[styles.container, styles.loadingContainer, { width, height }]}>
+        <ActivityIndicator size="small" color={Colors.vermilion} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { width, height }]}>
+      <Canvas style={{ width, height }}>
+        {/* Inlay markers */}
+        {INLAY_FRETS.filter((fret) => fret <= fretCount).map((fret) => {
+          const x = getFretX(fret) - FRET_WIDTH / 2;
+          if (fret % 12 === 0) {
+            const offset = STRING_SPACING;
+            return (
+              <React.Fragment key={`inlay-${fret}`}>
+                <Circle cx={x} cy={neckMiddle - offset} r={INLAY_RADIUS} color={Colors.alloy} />
+                <Circle cx={x} cy={neckMiddle + offset} r={INLAY_RADIUS} color={Colors.alloy} />
+              </React.Fragment>
+            );
+          }
+          return (
+            <Circle key={`inlay-${fret}`} cx={x} cy={neckMiddle} r={INLAY_RADIUS} color={Colors.alloy} />
+          );
+        })}
+
+        {/* Nut */}
+        <Line
+          p1={vec(getFretX(0), neckTop)}
+          p2={vec(getFretX(0), neckBottom)}
+          color={Colors.charcoal}
+          strokeWidth={NUT_THICKNESS}
+        />
+
+        {/* Fret lines */}
+        {Array.from({ length: fretCount }).map((_, i) => (
+          <Line
+            key={`fret-${i + 1}`}
+            p1={vec(getFretX(i + 1), neckTop)}
+            p2={vec(getFretX(i + 1), neckBottom)}
+            color={Colors.graphite}
+            strokeWidth={FRET_THICKNESS}
+          />
+        ))}
+
+        {/* String lines */}
+        {Array.from({ length: stringCount }).map((_, stringIndex) => (
+          <Line
+            key={`string-${stringIndex}`}
+            p1={vec(getFretX(0), getStringY(stringIndex))}
+            p2={vec(getFretX(fretCount), getStringY(stringIndex))}
+            color={Colors.charcoal}
+            strokeWidth={STRING_THICKNESS}
+          />
+        ))}
+
+        {/* Fret numbers below the neck */}
+        {INLAY_FRETS.filter((fret) => fret <= fretCount).map((fret) => {
+          const label = String(fret);
+          return (
+            <Text
+              key={`fret-label-${fret}`}
+              x={getFretX(fret) - FRET_WIDTH / 2 - labelFont.measureText(label).width / 2}
+              y={neckBottom + 22}
+              text={label}
+              font={labelFont}
+              color={Colors.warmGray}
+            />
+          );
+        })}
+
+        {/* Note dots */}
+        {positions.map((pos) => {
+          const x = getDotX(pos.fret);
+          const y = getStringY(pos.string);
+          return (
+            <React.Fragment key={`note-${pos.string}-${pos.fret}`}>
+              <Circle
+                cx={x}
+                cy={y}
+                r={DOT_RADIUS}
+                color={pos.isRoot ? Colors.moss : Colors.vermilion}
+              />
+              <Text
+                x={x - noteFont.measureText(pos.label).width / 2}
+                y={y + 3}
+                text={pos.label}
+                font={noteFont}
+                color={Colors.softWhite}
+              />
+            </React.Fragment>
+          );
+        })}
+      </Canvas>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingContainer: {
+    backgroundColor: Colors.softWhite,
+    borderRadius: 8,
+  },
+});
+
+export default ScaleFretboard;
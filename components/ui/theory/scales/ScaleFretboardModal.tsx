@@ -0,0 +1,272 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X, Info } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { ScaleFretboard } from './ScaleFretboard';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
+import { resolveTuning } from '@/data/chords/generator/tunings';
+import type { FretboardInstrument } from '@/types/chords';
+import { parseKey, parseScaleName, getPatternNotes } from '@/utils/musicTheory';
+
+type ScaleView = 'scale' | 'arpeggio';
+
+const VIEW_OPTIONS: { value: ScaleView; label: string }[] = [
+  { value: 'scale', label: 'Scale' },
+  { value: 'arpeggio', label: 'Arpeggio' },
+];
+
+interface ScaleFretboardModalProps {
+  visible: boolean;
+  onClose: () => void;
+  scaleName: string;
+  songKey?: string; // Supplies the root for scale names without one
+  tuning?: string; // Song tuning description (e.g., "Drop D")
+  instrument?: FretboardInstrument;
+}
+
+export const ScaleFretboardModal: React.FC<ScaleFretboardModalProps> = ({
+  visible,
+  onClose,
+  scaleName,
+  songKey,
+  tuning,
+  instrument = 'guitar',
+}) => {
+  const [view, setView] = useState<ScaleView>('scale');
+
+  // Start on the full scale each time a new scale is opened
+  useEffect(() => {
+    if (visible) setView('scale');
+  }, [visible, scaleName]);
+
+  const scale = useMemo(() => {
+    const fallbackRoot = songKey ? parseKey(songKey).root : undefined;
+    return parseScaleName(scaleName, fallbackRoot);
+  }, [scaleName, songKey]);
+
+  const openStrings = useMemo(() => resolveTuning(tuning, instrument), [tuning, instrument]);
+
+  const notes = useMemo(() => {
+    if (!scale) return [];
+    return getPatternNotes(scale.root, view === 'scale' ? scale.pattern : scale.arpeggio);
+  }, [scale, view]);
+
+  const handleClose = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={handleClose}
+    >
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleClose} style={styles.headerButton}>
+            <X size={24} color={Colors.charcoal} />
+          </TouchableOpacity>
+          <View style={styles.titleContainer}>
+            <Text style={styles.title}>FRETBOARD</Text>
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {scale ? `${scale.root} ${scale.name}` : scaleName}
+            </Text>
+          </View>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {scale ? (
+          <ScrollView
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+          >
+            {/* Scale / Arpeggio selector */}
+            <View style={styles.viewSection}>
+              <FrequencyTuner
+                label="SHOW"
+                options={VIEW_OPTIONS}
+                value={view}
+                onChange={setView}
+                variant="light"
+              />
+            </View>
+
+            {/* Full neck (scrolls horizontally) */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.fretboardContent}
+            >
+              <ScaleFretboard notes={notes} rootNote={scale.root} tuning={openStrings} />
+            </ScrollView>
+
+            {/* Legend */}
+            <View style={styles.legendRow}>
+              <View style={[styles.legendDot, { backgroundColor: Colors.moss }]} />
+              <Text style={styles.legendText}>Root</Text>
+              <View style={[styles.legendDot, { backgroundColor: Colors.vermilion }]} />
+              <Text style={styles.legendText}>{view === 'scale' ? 'Scale tone' : 'Chord tone'}</Text>
+            </View>
+
+            {/* Info Panel */}
+            <View style={styles.infoPanel}>
+              <View style={styles.infoPanelHeader}>
+                <Info size={16} color={Colors.vermilion} />
+                <Text style={styles.infoPanelTitle}>
+                  {scale.root} {view === 'scale' ? scale.name : `${scale.name} Arpeggio`}
+                </Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>NOTES</Text>
+                <Text style={styles.infoValue}>{notes.join(' - ')}</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>TUNING</Text>
+                <Text style={styles.infoValue}>{openStrings.join(' ')}</Text>
+              </View>
+            </View>
+          </ScrollView>
+        ) : (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>
+              {`"${scaleName}" isn't a scale we can map yet`}
+            </Text>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.matteFog,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.alloy,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  titleContainer: {
+    flex: 1,
+    marginHorizontal: 12,
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 12,
+    color: Colors.ink,
+    letterSpacing: 2,
+  },
+  subtitle: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    marginTop: 2,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  viewSection: {
+    marginBottom: 16,
+  },
+  fretboardContent: {
+    paddingVertical: 8,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginLeft: 8,
+  },
+  legendText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+  },
+  infoPanel: {
+    backgroundColor: Colors.alloy,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+    // Recessed effect
+    borderTopWidth: 2,
+    borderLeftWidth: 2,
+    borderTopColor: '#c0c0c0',
+    borderLeftColor: '#c0c0c0',
+  },
+  infoPanelHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.1)',
+  },
+  infoPanelTitle: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.charcoal,
+  },
+  infoRow: {
+    marginBottom: 12,
+  },
+  infoLabel: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 9,
+    color: Colors.warmGray,
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  infoValue: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 13,
+    color: Colors.charcoal,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 13,
+    color: Colors.graphite,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+});
+
+export default ScaleFretboardModal;
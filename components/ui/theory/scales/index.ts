@@ -0,0 +1,7 @@
+/**
+ * Scale Components
+ * Re-exports all scale visualization components
+ */
+
+export { ScaleFretboard } from './ScaleFretboard';
+export { ScaleFretboardModal } from './ScaleFretboardModal';
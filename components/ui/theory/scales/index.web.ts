@@ -0,0 +1,7 @@
+/**
+ * Scale Components - Web Platform
+ * Re-exports all scale visualization components with web-specific implementations
+ */
+
+export { ScaleFretboard } from './ScaleFretboard.web';
+export { ScaleFretboardModal } from './ScaleFretboardModal.web';
@@ -0,0 +1,259 @@
+/**
+ * ChordPracticePanel Component
+ *
+ * Chord practice for the song the tuner was opened from:
+ * - Prompts the song's chords one at a time with their diagram
+ * - Hold progress and time left for the prompted chord
+ * - Hit/missed marks for every chord, with a total at the end
+ * - Start/Stop and Skip
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { SkipForward } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import { ChordVisualization } from '@/components/ui/theory/chords';
+import type { ChordPracticeResult } from '@/types/tuner';
+
+interface ChordPracticePanelProps {
+  /** Song title shown in the header */
+  songTitle: string;
+  /** Chords in prompt order */
+  chords: string[];
+  /** Chord being prompted (null when not practicing) */
+  currentChord: string | null;
+  /** Results so far, in prompt order */
+  results: ChordPracticeResult[];
+  /** Whether every chord has a result */
+  isComplete: boolean;
+  /** How long the prompted chord has been held (0-1) */
+  holdProgress: number;
+  /** Seconds left for the prompted chord */
+  secondsLeft: number;
+  /** Instrument for the chord diagram */
+  instrument: 'guitar' | 'bass';
+  /** Start prompting from the first chord */
+  onStart: () => void;
+  /** Mark the prompted chord missed */
+  onSkip: () => void;
+  /** Stop prompting */
+  onStop: () => void;
+}
+
+export const ChordPracticePanel = memo(function ChordPracticePanel({
+  songTitle,
+  chords,
+  currentChord,
+  results,
+  isComplete,
+  holdProgress,
+  secondsLeft,
+  instrument,
+  onStart,
+  onSkip,
+  onStop,
+}: ChordPracticePanelProps) {
+  const isActive = currentChord !== null;
+  const hits = results.filter((result) => result.status === 'hit').length;
+
+  const handleSkip = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSkip();
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionLabel} numberOfLines={1}>
+        PRACTICE · {songTitle.toUpperCase()}
+      </Text>
+
+      {chords.length === 0 ? (
+        <Text style={styles.hint}>This song has no chords to practice yet</Text>
+      ) : (
+        <>
+          {/* Prompted chord */}
+          {isActive && (
+            <View style={styles.prompt}>
+              <View style={styles.promptHeader}>
+                <Text style={styles.promptLabel}>PLAY</Text>
+                <Text style={styles.timer}>{secondsLeft}s</Text>
+              </View>
+              <ChordVisualization chord={currentChord} instrument={instrument} size="small" />
+              <View style={styles.progressTrack}>
+                <View
+                  style={[styles.progressFill, { width: `${Math.round(holdProgress * 100)}%` }]}
+                />
+              </View>
+            </View>
+          )}
+
+          {/* Hit/missed marks */}
+          <View style={styles.chipsRow}>
+            {chords.map((chord, i) => {
+              const status = results[i]?.status;
+              return (
+                <Text
+                  key={chord}
+                  style={[
+                    styles.chip,
+                    status === 'hit' && styles.chipHit,
+                    status === 'missed' && styles.chipMissed,
+                    chord === currentChord && styles.chipCurrent,
+                  ]}
+                >
+                  {chord}
+                </Text>
+              );
+            })}
+          </View>
+
+          {isComplete && (
+            <Text style={styles.summary}>
+              {hits} of {chords.length} chords hit
+            </Text>
+          )}
+
+          <View style={styles.actionsRow}>
+            <View style={styles.toggle}>
+              <PrimaryButton
+                label={isActive ? 'STOP' : isComplete ? 'PRACTICE AGAIN' : 'START PRACTICE'}
+                onPress={isActive ? onStop : onStart}
+                variant={isActive ? 'secondary' : 'primary'}
+                size="compact"
+                accessibilityLabel={isActive ? 'Stop chord practice' : 'Start chord practice'}
+              />
+            </View>
+            <Pressable
+              onPress={handleSkip}
+              disabled={!isActive}
+              style={({ pressed }) => [styles.action, pressed && styles.actionPressed]}
+              accessibilityLabel="Skip this chord"
+              accessibilityRole="button"
+            >
+              <SkipForward size={12} color={Colors.graphite} />
+              <Text style={styles.actionText}>SKIP</Text>
+            </Pressable>
+          </View>
+        </>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  hint: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    fontStyle: 'italic',
+  },
+  prompt: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  promptHeader: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  promptLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  timer: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.softWhite,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.charcoal,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.moss,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.graphite,
+    backgroundColor: Colors.charcoal,
+    borderRadius: 4,
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+    overflow: 'hidden',
+  },
+  chipHit: {
+    color: Colors.moss,
+  },
+  chipMissed: {
+    color: Colors.lobsterPink,
+  },
+  chipCurrent: {
+    color: Colors.softWhite,
+    backgroundColor: Colors.vermilion,
+  },
+  summary: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+    textAlign: 'center',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  toggle: {
+    flex: 1,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  actionPressed: {
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  actionText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+});
+
+export default ChordPracticePanel;
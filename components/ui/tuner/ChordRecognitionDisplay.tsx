@@ -0,0 +1,177 @@
+/**
+ * ChordRecognitionDisplay Component
+ *
+ * "What chord am I playing" display for the tuner's chord mode:
+ * - Best-matching chord name and match strength
+ * - Chroma bars (C to B) lit by the notes being heard
+ * - Chord diagram for the match
+ */
+
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { SHADOWS, BEVELS } from '@/constants/Styles';
+import { InsetWindow } from '@/components/ui/InsetWindow';
+import { LEDIndicator } from '@/components/skia/primitives/LEDIndicator';
+import { ChordVisualization } from '@/components/ui/theory/chords';
+import { NOTE_NAMES } from '@/constants/TunerConfig';
+import type { ChordMatch } from '@/types/tuner';
+
+interface ChordRecognitionDisplayProps {
+  /** Best chord match (null if nothing matches well enough) */
+  match: ChordMatch | null;
+  /** Running chroma vector (C to B, max 1) */
+  chroma: number[] | null;
+  /** Instrument for the chord diagram */
+  instrument: 'guitar' | 'bass';
+  /** Whether tuner is listening */
+  isListening: boolean;
+  /** Whether embedded in another component (removes housing borders) */
+  embedded?: boolean;
+}
+
+export const ChordRecognitionDisplay = memo(function ChordRecognitionDisplay({
+  match,
+  chroma,
+  instrument,
+  isListening,
+  embedded = false,
+}: ChordRecognitionDisplayProps) {
+  return (
+    <View style={[styles.housing, embedded && styles.housingEmbedded]}>
+      <InsetWindow variant="light" borderRadius={12} style={styles.readout} showGlassOverlay>
+        <View style={styles.readoutContent}>
+          <View style={styles.nameRow}>
+            <LEDIndicator size={10} isActive={isListening && !!match} color={Colors.moss} />
+            <Text style={[styles.chordName, !match && styles.chordNameIdle]}>
+              {match ? match.name : '—'}
+            </Text>
+            <Text style={styles.score}>{match ? `${Math.round(match.score * 100)}%` : ''}</Text>
+          </View>
+
+          {/* Chroma */}
+          <View style={styles.chroma}>
+            {NOTE_NAMES.map((note, i) => (
+              <View key={note} style={styles.chromaColumn}>
+                <View style={styles.chromaTrack}>
+                  <View
+                    style={[
+                      styles.chromaFill,
+                      { height: `${Math.round((chroma?.[i] ?? 0) * 100)}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.chromaLabel}>{note}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      </InsetWindow>
+
+      <View style={styles.diagram}>
+        {match ? (
+          <ChordVisualization
+            chord={match.name}
+            instrument={instrument}
+            size="small"
+            showChordName={false}
+          />
+        ) : (
+          <Text style={styles.hint}>
+            {isListening ? 'Strum a chord and let it ring' : 'Start the tuner, then strum a chord'}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  housing: {
+    width: 310,
+    backgroundColor: Colors.ink,
+    borderRadius: 16,
+    paddingVertical: 20,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    ...BEVELS.housing,
+    ...SHADOWS.housing,
+  },
+  housingEmbedded: {
+    borderTopWidth: 0,
+    borderBottomWidth: 0,
+    shadowOpacity: 0,
+    elevation: 0,
+  },
+  readout: {
+    width: 280,
+    height: 150,
+    borderRadius: 12,
+  },
+  readoutContent: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  chordName: {
+    flex: 1,
+    fontFamily: 'LexendDecaBold',
+    fontSize: 32,
+    color: Colors.softWhite,
+  },
+  chordNameIdle: {
+    color: Colors.graphite,
+  },
+  score: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  chroma: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  chromaColumn: {
+    alignItems: 'center',
+    gap: 2,
+  },
+  chromaTrack: {
+    width: 8,
+    flex: 1,
+    borderRadius: 2,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+    overflow: 'hidden',
+  },
+  chromaFill: {
+    width: '100%',
+    backgroundColor: Colors.moss,
+  },
+  chromaLabel: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 7,
+    color: Colors.graphite,
+  },
+  diagram: {
+    marginTop: 12,
+    minHeight: 60,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hint: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+});
+
+export default ChordRecognitionDisplay;
@@ -0,0 +1,344 @@
+/**
+ * CustomTuningModal Component
+ *
+ * Editor for a user-defined tuning:
+ * - Starts from the currently selected tuning
+ * - Retune each string up/down by semitones
+ * - Name and save to the user's account
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { X, Minus, Plus } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { MIN_FREQUENCY, MAX_FREQUENCY, type StringConfig } from '@/constants/TunerConfig';
+import { formatTuningNotes, transposeString } from '@/utils/tuning';
+
+/** Longest tuning name (matches the custom_tunings constraint) */
+const MAX_NAME_LENGTH = 40;
+
+interface CustomTuningModalProps {
+  visible: boolean;
+  /** Instrument display name (e.g., "7-String Guitar") */
+  instrumentName: string;
+  /** Strings of the tuning to start from (highest pitch first) */
+  baseStrings: StringConfig[];
+  onClose: () => void;
+  /** Save the tuning; the modal stays open if this throws */
+  onSave: (name: string, strings: StringConfig[]) => Promise<void>;
+}
+
+/**
+ * Modal for creating a custom tuning with Industrial Play styling
+ */
+export const CustomTuningModal: React.FC<CustomTuningModalProps> = ({
+  visible,
+  instrumentName,
+  baseStrings,
+  onClose,
+  onSave,
+}) => {
+  const [name, setName] = useState('');
+  const [strings, setStrings] = useState<StringConfig[]>(baseStrings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      // Reset state
+      setName('');
+      setStrings(baseStrings);
+      setIsSaving(false);
+    }
+  }, [visible, baseStrings]);
+
+  const handleClose = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onClose();
+  };
+
+  const handleRetune = async (stringNumber: number, semitones: number) => {
+    const current = strings.find((str) => str.number === stringNumber);
+    if (!current) return;
+
+    const retuned = transposeString(current, semitones);
+    if (retuned.frequency < MIN_FREQUENCY || retuned.frequency > MAX_FREQUENCY) return;
+
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setStrings((prev) => prev.map((str) => (str.number === stringNumber ? retuned : str)));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || isSaving) return;
+
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    setIsSaving(true);
+    try {
+      await onSave(name.trim(), strings);
+      onClose();
+    } catch (error) {
+      console.error('Error saving custom tuning:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!visible) return null;
+
+  const canSave = !!name.trim() && !isSaving;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+        accessibilityViewIsModal={true}
+      >
+        <View style={styles.container}>
+          <View style={styles.content}>
+            {/* Header */}
+            <View style={styles.header}>
+              <TouchableOpacity
+                style={styles.closeButton}
+                onPress={handleClose}
+                activeOpacity={0.7}
+                accessibilityLabel="Close"
+              >
+                <X size={24} color={Colors.graphite} />
+              </TouchableOpacity>
+              <Text style={styles.headerText}>CUSTOM TUNING</Text>
+              <View style={styles.headerSpacer} />
+            </View>
+
+            {/* Name */}
+            <Text style={styles.label}>NAME</Text>
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Open C"
+                placeholderTextColor={Colors.graphite}
+                maxLength={MAX_NAME_LENGTH}
+                returnKeyType="done"
+              />
+            </View>
+
+            {/* Strings (low string first, as they're usually written) */}
+            <Text style={[styles.label, styles.stringsLabel]}>
+              {instrumentName.toUpperCase()} · {formatTuningNotes(strings)}
+            </Text>
+            <View style={styles.stringsList}>
+              {[...strings].reverse().map((str) => (
+                <View key={str.number} style={styles.stringRow}>
+                  <Text style={styles.stringNumber}>{str.number}</Text>
+                  <TouchableOpacity
+                    style={styles.stepButton}
+                    onPress={() => handleRetune(str.number, -1)}
+                    activeOpacity={0.7}
+                    accessibilityLabel={`Tune string ${str.number} down`}
+                  >
+                    <Minus size={14} color={Colors.softWhite} strokeWidth={2.5} />
+                  </TouchableOpacity>
+                  <Text style={styles.stringNote}>
+                    {str.note}
+                    <Text style={styles.stringOctave}>{str.octave}</Text>
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.stepButton}
+                    onPress={() => handleRetune(str.number, 1)}
+                    activeOpacity={0.7}
+                    accessibilityLabel={`Tune string ${str.number} up`}
+                  >
+                    <Plus size={14} color={Colors.softWhite} strokeWidth={2.5} />
+                  </TouchableOpacity>
+                  <Text style={styles.stringFrequency}>{str.frequency.toFixed(1)} Hz</Text>
+                </View>
+              ))}
+            </View>
+
+            {/* Save Button */}
+            <TouchableOpacity
+              style={[styles.submitButton, !canSave && styles.submitButtonDisabled]}
+              onPress={handleSave}
+              activeOpacity={0.8}
+              disabled={!canSave}
+            >
+              <LinearGradient
+                colors={canSave ? [Colors.vermilion, '#d04620'] : [Colors.graphite, '#666666']}
+                style={styles.submitButtonGradient}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 0, y: 1 }}
+              >
+                <Text style={styles.submitButtonText}>
+                  {isSaving ? 'SAVING...' : 'SAVE TUNING'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  container: {
+    width: '100%',
+    maxWidth: 340,
+  },
+  content: {
+    backgroundColor: Colors.matteFog,
+    borderRadius: 16,
+    padding: 20,
+    // Bevel effect
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.5)',
+    borderBottomWidth: 2,
+    borderBottomColor: 'rgba(0,0,0,0.15)',
+    // Shadow
+    shadowColor: Colors.ink,
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.3,
+    shadowRadius: 16,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.ink,
+    letterSpacing: 2,
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  label: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 2,
+    marginBottom: 8,
+  },
+  stringsLabel: {
+    marginTop: 16,
+  },
+  inputContainer: {
+    backgroundColor: Colors.alloy,
+    borderRadius: 8,
+    // Recessed bevel (light top-left, dark bottom-right)
+    borderWidth: 1,
+    borderTopColor: 'rgba(0,0,0,0.1)',
+    borderLeftColor: 'rgba(0,0,0,0.1)',
+    borderBottomColor: 'rgba(255,255,255,0.5)',
+    borderRightColor: 'rgba(255,255,255,0.5)',
+  },
+  input: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 16,
+    color: Colors.ink,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  stringsList: {
+    gap: 6,
+    marginBottom: 20,
+  },
+  stringRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stringNumber: {
+    width: 16,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+    textAlign: 'center',
+  },
+  stepButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: Colors.charcoal,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stringNote: {
+    minWidth: 40,
+    fontFamily: 'LexendDecaBold',
+    fontSize: 16,
+    color: Colors.ink,
+    textAlign: 'center',
+  },
+  stringOctave: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.warmGray,
+  },
+  stringFrequency: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    textAlign: 'right',
+  },
+  submitButton: {
+    shadowColor: Colors.vermilion,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  submitButtonDisabled: {
+    shadowColor: Colors.graphite,
+    shadowOpacity: 0.1,
+  },
+  submitButtonGradient: {
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    // Bevel
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.3)',
+    borderBottomWidth: 2,
+    borderBottomColor: 'rgba(0,0,0,0.2)',
+  },
+  submitButtonText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.softWhite,
+    letterSpacing: 2,
+  },
+});
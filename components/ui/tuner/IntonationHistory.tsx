@@ -0,0 +1,172 @@
+/**
+ * IntonationHistory Component
+ *
+ * Saved intonation checks grouped by instrument, newest first:
+ * - Date, tuning and reference of each check
+ * - Per-string cents, colored by whether the saddle needed moving
+ * - Delete a saved check
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import {
+  getSaddleAdjustment,
+  formatIntonationCents,
+  groupIntonationChecks,
+} from '@/utils/tuning';
+import type { IntonationCheck } from '@/types/tuner';
+
+interface IntonationHistoryProps {
+  /** Saved checks */
+  checks: IntonationCheck[];
+  /** Whether checks are loading */
+  isLoading: boolean;
+  /** Delete a saved check */
+  onDelete: (check: IntonationCheck) => void;
+}
+
+const formatCheckDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export const IntonationHistory = memo(function IntonationHistory({
+  checks,
+  isLoading,
+  onDelete,
+}: IntonationHistoryProps) {
+  const handleDelete = async (check: IntonationCheck) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onDelete(check);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionLabel}>HISTORY</Text>
+
+      {isLoading ? (
+        <Text style={styles.emptyText}>Loading...</Text>
+      ) : checks.length === 0 ? (
+        <Text style={styles.emptyText}>Saved checks appear here by instrument and date</Text>
+      ) : (
+        groupIntonationChecks(checks).map((group) => (
+          <View key={group.instrumentName} style={styles.group}>
+            <Text style={styles.instrumentName}>{group.instrumentName}</Text>
+            {group.checks.map((check) => (
+              <View key={check.id} style={styles.check}>
+                <View style={styles.checkHeader}>
+                  <Text style={styles.checkDate}>{formatCheckDate(check.checkedAt)}</Text>
+                  <Text style={styles.checkMeta} numberOfLines={1}>
+                    {check.tuningName} · A4={check.referencePitch}
+                  </Text>
+                  <Pressable
+                    onPress={() => handleDelete(check)}
+                    style={styles.deleteButton}
+                    accessibilityLabel={`Delete ${group.instrumentName} check from ${formatCheckDate(check.checkedAt)}`}
+                    accessibilityRole="button"
+                  >
+                    <Trash2 size={12} color={Colors.graphite} />
+                  </Pressable>
+                </View>
+                <View style={styles.resultsRow}>
+                  {check.results.map((result) => (
+                    <Text
+                      key={result.stringNumber}
+                      style={[
+                        styles.resultChip,
+                        getSaddleAdjustment(result.cents) === 'none' && styles.resultChipOk,
+                      ]}
+                    >
+                      {result.note}
+                      {result.octave} {formatIntonationCents(result.cents)}
+                    </Text>
+                  ))}
+                </View>
+              </View>
+            ))}
+          </View>
+        ))
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    fontStyle: 'italic',
+  },
+  group: {
+    gap: 6,
+    marginBottom: 8,
+  },
+  instrumentName: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 13,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  check: {
+    gap: 6,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  checkHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  checkDate: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.softWhite,
+  },
+  checkMeta: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  resultsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  resultChip: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warning,
+    backgroundColor: Colors.charcoal,
+    borderRadius: 4,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    overflow: 'hidden',
+  },
+  resultChipOk: {
+    color: Colors.moss,
+  },
+});
+
+export default IntonationHistory;
@@ -0,0 +1,236 @@
+/**
+ * IntonationPanel Component
+ *
+ * Guided step for the intonation check:
+ * - Current string and step (harmonic, then fretted 12th fret)
+ * - Live deviation from the string's octave
+ * - Capture progress while a steady note is held
+ * - Start/Stop, Skip and Restart
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { SkipForward, RotateCcw } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import { LEDIndicator } from '@/components/skia/primitives/LEDIndicator';
+import { formatIntonationCents } from '@/utils/tuning';
+import type { StringConfig } from '@/constants/TunerConfig';
+import type { IntonationStep } from '@/types/tuner';
+
+interface IntonationPanelProps {
+  /** String being checked (null when every string is done) */
+  currentString: StringConfig | null;
+  /** Step for the current string */
+  step: IntonationStep;
+  /** Live deviation from the string's octave (cents) */
+  liveCents: number | null;
+  /** Capture progress for the current step (0-1) */
+  captureProgress: number;
+  /** Whether listening */
+  isListening: boolean;
+  /** Whether pitch detection is ready */
+  isReady: boolean;
+  /** Toggle listening */
+  onToggle: () => void;
+  /** Skip the current string */
+  onSkip: () => void;
+  /** Clear results and start over */
+  onRestart: () => void;
+}
+
+const STEP_INSTRUCTIONS: Record<IntonationStep, string> = {
+  harmonic: 'Play the 12th-fret harmonic and let it ring',
+  fretted: 'Let it stop, then fret and play the 12th fret',
+};
+
+export const IntonationPanel = memo(function IntonationPanel({
+  currentString,
+  step,
+  liveCents,
+  captureProgress,
+  isListening,
+  isReady,
+  onToggle,
+  onSkip,
+  onRestart,
+}: IntonationPanelProps) {
+  const handleSkip = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSkip();
+  };
+
+  const handleRestart = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onRestart();
+  };
+
+  return (
+    <View style={styles.container}>
+      {currentString ? (
+        <>
+          <View style={styles.headerRow}>
+            <Text style={styles.stringLabel}>
+              STRING {currentString.number} · {currentString.note}
+              <Text style={styles.octave}>{currentString.octave}</Text>
+            </Text>
+            <View style={styles.stepLeds}>
+              <LEDIndicator size={8} isActive color={Colors.moss} />
+              <LEDIndicator size={8} isActive={step === 'fretted'} color={Colors.moss} />
+            </View>
+          </View>
+
+          <Text style={styles.instruction}>{STEP_INSTRUCTIONS[step]}</Text>
+
+          <View style={styles.readingRow}>
+            <Text style={styles.stepLabel}>{step === 'harmonic' ? 'HARMONIC' : 'FRETTED'}</Text>
+            <Text style={[styles.cents, liveCents === null && styles.centsIdle]}>
+              {isListening && liveCents !== null ? formatIntonationCents(liveCents) : '—'}
+            </Text>
+          </View>
+
+          {/* Capture progress */}
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(captureProgress * 100)}%` }]} />
+          </View>
+        </>
+      ) : (
+        <Text style={styles.doneText}>All strings checked</Text>
+      )}
+
+      <View style={styles.actionsRow}>
+        <View style={styles.toggle}>
+          <PrimaryButton
+            label={isListening ? 'STOP' : 'START CHECK'}
+            onPress={onToggle}
+            disabled={!isReady}
+            variant={isListening ? 'secondary' : 'primary'}
+            size="compact"
+            accessibilityLabel={isListening ? 'Stop intonation check' : 'Start intonation check'}
+          />
+        </View>
+        <Pressable
+          onPress={handleSkip}
+          disabled={!currentString}
+          style={({ pressed }) => [styles.action, pressed && styles.actionPressed]}
+          accessibilityLabel="Skip this string"
+          accessibilityRole="button"
+        >
+          <SkipForward size={12} color={Colors.graphite} />
+          <Text style={styles.actionText}>SKIP</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleRestart}
+          style={({ pressed }) => [styles.action, pressed && styles.actionPressed]}
+          accessibilityLabel="Restart intonation check"
+          accessibilityRole="button"
+        >
+          <RotateCcw size={12} color={Colors.graphite} />
+          <Text style={styles.actionText}>RESTART</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stringLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.softWhite,
+    letterSpacing: 2,
+  },
+  octave: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+  },
+  stepLeds: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  instruction: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.warmGray,
+  },
+  readingRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+  },
+  stepLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  cents: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 22,
+    color: Colors.softWhite,
+  },
+  centsIdle: {
+    color: Colors.graphite,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.charcoal,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.moss,
+  },
+  doneText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.moss,
+    letterSpacing: 1,
+    textAlign: 'center',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  toggle: {
+    flex: 1,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  actionPressed: {
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  actionText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+});
+
+export default IntonationPanel;
@@ -0,0 +1,158 @@
+/**
+ * IntonationResults Component
+ *
+ * Per-string intonation results (lowest string first):
+ * - Fretted vs harmonic difference in cents
+ * - Saddle adjustment (forward/back) with LED status
+ * - Redo a single string
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { RotateCcw } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { LEDIndicator } from '@/components/skia/primitives/LEDIndicator';
+import {
+  getIntonationOrder,
+  getSaddleAdjustment,
+  getSaddleAdjustmentLabel,
+  formatIntonationCents,
+} from '@/utils/tuning';
+import type { StringConfig } from '@/constants/TunerConfig';
+import type { IntonationResult } from '@/types/tuner';
+
+interface IntonationResultsProps {
+  /** Strings of the instrument's tuning */
+  strings: StringConfig[];
+  /** Results so far */
+  results: IntonationResult[];
+  /** String being checked */
+  currentStringNumber: number | null;
+  /** Measure a string again */
+  onRedo: (stringNumber: number) => void;
+}
+
+export const IntonationResults = memo(function IntonationResults({
+  strings,
+  results,
+  currentStringNumber,
+  onRedo,
+}: IntonationResultsProps) {
+  const handleRedo = async (stringNumber: number) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onRedo(stringNumber);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionLabel}>RESULTS</Text>
+      <View style={styles.list}>
+        {getIntonationOrder(strings).map((str) => {
+          const result = results.find((r) => r.stringNumber === str.number);
+          const adjustment = result ? getSaddleAdjustment(result.cents) : null;
+          const isCurrent = str.number === currentStringNumber;
+
+          return (
+            <View key={str.number} style={[styles.row, isCurrent && styles.rowCurrent]}>
+              <LEDIndicator
+                size={10}
+                isActive={!!result || isCurrent}
+                color={!result ? Colors.vermilion : adjustment === 'none' ? Colors.moss : Colors.warning}
+              />
+              <Text style={styles.stringNote}>
+                {str.number} · {str.note}
+                <Text style={styles.stringOctave}>{str.octave}</Text>
+              </Text>
+              <Text style={[styles.cents, !result && styles.pending]}>
+                {result ? formatIntonationCents(result.cents) : '—'}
+              </Text>
+              <Text
+                style={[styles.adjustment, adjustment === 'none' && styles.adjustmentOk]}
+                numberOfLines={1}
+              >
+                {adjustment ? getSaddleAdjustmentLabel(adjustment) : isCurrent ? 'Checking...' : ''}
+              </Text>
+              {result && (
+                <Pressable
+                  onPress={() => handleRedo(str.number)}
+                  style={styles.redoButton}
+                  accessibilityLabel={`Check string ${str.number} again`}
+                  accessibilityRole="button"
+                >
+                  <RotateCcw size={12} color={Colors.graphite} />
+                </Pressable>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  list: {
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+    borderRadius: 6,
+  },
+  rowCurrent: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  stringNote: {
+    width: 48,
+    fontFamily: 'LexendDecaBold',
+    fontSize: 13,
+    color: Colors.softWhite,
+  },
+  stringOctave: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 9,
+    color: Colors.graphite,
+  },
+  cents: {
+    width: 56,
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.softWhite,
+    textAlign: 'right',
+  },
+  pending: {
+    color: Colors.graphite,
+  },
+  adjustment: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.warning,
+  },
+  adjustmentOk: {
+    color: Colors.moss,
+  },
+  redoButton: {
+    padding: 4,
+  },
+});
+
+export default IntonationResults;
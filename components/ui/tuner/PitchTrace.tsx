@@ -0,0 +1,93 @@
+/**
+ * PitchTrace Component
+ *
+ * Scrolling pitch trace for the pitch trainer, drawn with Skia:
+ * - Target line through the middle, cent window shaded around it
+ * - Last few seconds of deviation, newest at the right edge
+ * - Line breaks where no pitch was heard
+ * - Line tinted with the deviation color of the newest sample
+ *
+ * Note: Uses View-based rendering on web (PitchTrace.web.tsx)
+ */
+
+import React, { memo, useMemo } from 'react';
+import { View } from 'react-native';
+import { Canvas, Path, Rect, Skia } from '@shopify/react-native-skia';
+import { Colors } from '@/constants/Colors';
+import { PITCH_TRAINER_CONFIG } from '@/constants/TunerConfig';
+import { getDeviationColor } from '@/utils/tuning/getDeviationColor';
+import { getPitchTraceSegments } from '@/utils/tuning/pitchTrainer';
+import type { PitchTraceSample } from '@/types/tuner';
+
+interface PitchTraceProps {
+  /** Recent deviation samples, oldest first */
+  trace: PitchTraceSample[];
+  /** Cent window either side of the target */
+  windowCents: number;
+  /** Whether the trainer is listening */
+  isListening: boolean;
+  /** Trace width in px */
+  width: number;
+  /** Trace height in px */
+  height: number;
+}
+
+/**
+ * PitchTrace - Scrolling deviation from the target note
+ */
+export const PitchTrace = memo(function PitchTrace({
+  trace,
+  windowCents,
+  isListening,
+  width,
+  height,
+}: PitchTraceProps) {
+  const { traceRangeCents } = PITCH_TRAINER_CONFIG;
+  const bandHeight = (windowCents / traceRangeCents) * height;
+
+  const path = useMemo(() => {
+    const tracePath = Skia.Path.Make();
+    getPitchTraceSegments(trace, width, height, traceRangeCents).forEach((segment) => {
+      segment.forEach((point, i) => {
+        if (i === 0) {
+          tracePath.moveTo(point.x, point.y);
+        } else {
+          tracePath.lineTo(point.x, point.y);
+        }
+      });
+    });
+    return tracePath;
+  }, [trace, width, height, traceRangeCents]);
+
+  const lineColor = useMemo(() => {
+    const latest = trace[trace.length - 1]?.cents ?? null;
+    if (!isListening || latest === null) return Colors.graphite;
+    return getDeviationColor(latest, Math.abs(latest) <= windowCents);
+  }, [trace, isListening, windowCents]);
+
+  return (
+    <View style={{ width, height }}>
+      <Canvas style={{ width, height }}>
+        <Rect x={0} y={0} width={width} height={height} color={Colors.charcoal} />
+        <Rect
+          x={0}
+          y={(height - bandHeight) / 2}
+          width={width}
+          height={bandHeight}
+          color="rgba(65, 123, 90, 0.25)"
+        />
+        <Rect x={0} y={height / 2 - 0.5} width={width} height={1} color={Colors.moss} />
+        <Path
+          path={path}
+          style="stroke"
+          strokeWidth={2}
+          strokeJoin="round"
+          strokeCap="round"
+          color={lineColor}
+        />
+      </Canvas>
+    </View>
+  );
+});
+
+export default PitchTrace;
@@ -0,0 +1,96 @@
+import React, { memo, useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { PITCH_TRAINER_CONFIG } from '@/constants/TunerConfig';
+import { getDeviationColor } from '@/utils/tuning/getDeviationColor';
+import { getPitchTraceSegments } from '@/utils/tuning/pitchTrainer';
+import type { PitchTraceSample } from '@/types/tuner';
+
+const DOT_SIZE = 3;
+
+interface PitchTraceProps {
+  /** Recent deviation samples, oldest first */
+  trace: PitchTraceSample[];
+  /** Cent window either side of the target */
+  windowCents: number;
+  /** Whether the trainer is listening */
+  isListening: boolean;
+  /** Trace width in px */
+  width: number;
+  /** Trace height in px */
+  height: number;
+}
+
+/**
+ * PitchTrace (Web) - View-based fallback for web build.
+ * Draws the trace as dots, one per sample.
+ */
+export const PitchTrace = memo(function PitchTrace({
+  trace,
+  windowCents,
+  isListening,
+  width,
+  height,
+}: PitchTraceProps) {
+  const { traceRangeCents } = PITCH_TRAINER_CONFIG;
+  const bandHeight = (windowCents / traceRangeCents) * height;
+
+  const points = useMemo(
+    () => getPitchTraceSegments(trace, width, height, traceRangeCents).flat(),
+    [trace, width, height, traceRangeCents]
+  );
+
+  const dotColor = useMemo(() => {
+    const latest = trace[trace.length - 1]?.cents ?? null;
+    if (!isListening || latest === null) return Colors.graphite;
+    return getDeviationColor(latest, Math.abs(latest) <= windowCents);
+  }, [trace, isListening, windowCents]);
+
+  return (
+    <View style={[styles.container, { width, height }]}>
+      <View style={[styles.band, { top: (height - bandHeight) / 2, height: bandHeight }]} />
+      <View style={[styles.targetLine, { top: height / 2 - 0.5 }]} />
+      {points.map((point, i) => (
+        <View
+          key={i}
+          style={[
+            styles.dot,
+            {
+              left: point.x - DOT_SIZE / 2,
+              top: point.y - DOT_SIZE / 2,
+              backgroundColor: dotColor,
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: Colors.charcoal,
+  },
+  band: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(65, 123, 90, 0.25)',
+  },
+  targetLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: Colors.moss,
+  },
+  dot: {
+    position: 'absolute',
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2,
+  },
+});
+
+export default PitchTrace;
@@ -0,0 +1,180 @@
+/**
+ * PitchTrainerHistory Component
+ *
+ * Saved pitch trainer sessions for one instrument, newest first:
+ * - Progress bars of recent session averages
+ * - Date, cent window, reference and song of each session
+ * - Average score and attempt count
+ * - Delete a saved session
+ */
+
+import React, { memo, useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { getTrainingProgress } from '@/utils/tuning';
+import type { PitchTrainingSession, TrainerInstrument } from '@/types/tuner';
+
+const PROGRESS_HEIGHT = 48;
+
+interface PitchTrainerHistoryProps {
+  /** Saved sessions, newest first */
+  sessions: PitchTrainingSession[];
+  /** Instrument to show */
+  instrument: TrainerInstrument;
+  /** Whether sessions are loading */
+  isLoading: boolean;
+  /** Delete a saved session */
+  onDelete: (session: PitchTrainingSession) => void;
+}
+
+const formatSessionDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export const PitchTrainerHistory = memo(function PitchTrainerHistory({
+  sessions,
+  instrument,
+  isLoading,
+  onDelete,
+}: PitchTrainerHistoryProps) {
+  const instrumentSessions = useMemo(
+    () => sessions.filter((session) => session.instrument === instrument),
+    [sessions, instrument]
+  );
+  const progress = useMemo(
+    () => getTrainingProgress(sessions, instrument),
+    [sessions, instrument]
+  );
+
+  const handleDelete = async (session: PitchTrainingSession) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onDelete(session);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionLabel}>PROGRESS</Text>
+
+      {isLoading ? (
+        <Text style={styles.emptyText}>Loading...</Text>
+      ) : instrumentSessions.length === 0 ? (
+        <Text style={styles.emptyText}>Saved sessions appear here with their average scores</Text>
+      ) : (
+        <>
+          {/* Recent session averages, oldest on the left */}
+          <View style={styles.progressRow}>
+            {progress.map((score, i) => (
+              <View key={i} style={styles.progressColumn}>
+                <View
+                  style={[styles.progressBar, { height: Math.max(2, (score / 100) * PROGRESS_HEIGHT) }]}
+                />
+              </View>
+            ))}
+          </View>
+
+          {instrumentSessions.map((session) => (
+            <View key={session.id} style={styles.session}>
+              <View style={styles.sessionHeader}>
+                <Text style={styles.sessionDate}>{formatSessionDate(session.practicedAt)}</Text>
+                <Text style={styles.sessionMeta} numberOfLines={1}>
+                  ±{session.windowCents}¢ · A4={session.referencePitch}
+                  {session.songTitle ? ` · ${session.songTitle}` : ''}
+                </Text>
+                <Pressable
+                  onPress={() => handleDelete(session)}
+                  style={styles.deleteButton}
+                  accessibilityLabel={`Delete session from ${formatSessionDate(session.practicedAt)}`}
+                  accessibilityRole="button"
+                >
+                  <Trash2 size={12} color={Colors.graphite} />
+                </Pressable>
+              </View>
+              <Text style={styles.sessionScore}>
+                AVG {session.averageScore}
+                <Text style={styles.sessionAttempts}> · {session.attempts.length} TRIES</Text>
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  sectionLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  emptyText: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    fontStyle: 'italic',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 4,
+    height: PROGRESS_HEIGHT,
+    marginBottom: 4,
+  },
+  progressColumn: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  progressBar: {
+    borderRadius: 2,
+    backgroundColor: Colors.moss,
+  },
+  session: {
+    gap: 4,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sessionDate: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 11,
+    color: Colors.softWhite,
+  },
+  sessionMeta: {
+    flex: 1,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  sessionScore: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 12,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  sessionAttempts: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+  },
+});
+
+export default PitchTrainerHistory;
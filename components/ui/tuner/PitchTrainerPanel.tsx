@@ -0,0 +1,253 @@
+/**
+ * PitchTrainerPanel Component
+ *
+ * One pitch trainer attempt:
+ * - Target note and what to do in the current phase
+ * - Hold progress while the note is scored
+ * - Last attempt score with average deviation, spread and time in the window
+ * - Session attempt count and average
+ * - Start/Next, Play Tone and Stop
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Volume2, Square } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { PrimaryButton } from '@/components/ui/PrimaryButton';
+import { formatIntonationCents } from '@/utils/tuning';
+import type { PitchAttempt, TrainerNote, TrainerPhase } from '@/types/tuner';
+
+interface PitchTrainerPanelProps {
+  /** Note being trained (null before one is chosen) */
+  target: TrainerNote | null;
+  /** Current attempt phase */
+  phase: TrainerPhase;
+  /** Hold progress for the current attempt (0-1) */
+  holdProgress: number;
+  /** Most recent score (null when nothing was heard) */
+  lastAttempt: PitchAttempt | null;
+  /** Scored attempts this session */
+  attemptCount: number;
+  /** Average score this session */
+  sessionAverage: number;
+  /** Whether pitch detection is ready */
+  isReady: boolean;
+  /** Whether listening */
+  isListening: boolean;
+  /** Play the target and score the next hold */
+  onStart: () => void;
+  /** Replay the target without scoring */
+  onPlayTone: () => void;
+  /** Stop listening */
+  onStop: () => void;
+}
+
+const PHASE_INSTRUCTIONS: Record<TrainerPhase, string> = {
+  idle: 'Press start, listen to the tone, then sing or play it back',
+  tone: 'Listen…',
+  listening: 'Now hold the note steady',
+  scored: 'Press next to try again',
+};
+
+/**
+ * Score color: moss for good holds, warning for fair, vermilion below that
+ */
+function getScoreColor(score: number): string {
+  if (score >= 80) return Colors.moss;
+  if (score >= 50) return Colors.warning;
+  return Colors.vermilion;
+}
+
+export const PitchTrainerPanel = memo(function PitchTrainerPanel({
+  target,
+  phase,
+  holdProgress,
+  lastAttempt,
+  attemptCount,
+  sessionAverage,
+  isReady,
+  isListening,
+  onStart,
+  onPlayTone,
+  onStop,
+}: PitchTrainerPanelProps) {
+  const isBusy = phase === 'tone' || phase === 'listening';
+
+  const handlePlayTone = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onPlayTone();
+  };
+
+  const handleStop = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onStop();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.targetLabel}>
+          TARGET · {target ? target.note : '—'}
+          {target && <Text style={styles.octave}>{target.octave}</Text>}
+        </Text>
+        <Text style={styles.sessionText}>
+          {attemptCount > 0 ? `${attemptCount} TRIES · AVG ${sessionAverage}` : 'NO TRIES YET'}
+        </Text>
+      </View>
+
+      <Text style={styles.instruction}>
+        {phase === 'scored' && !lastAttempt
+          ? 'No steady note heard. Press next to try again'
+          : PHASE_INSTRUCTIONS[phase]}
+      </Text>
+
+      {/* Hold progress */}
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${Math.round(holdProgress * 100)}%` }]} />
+      </View>
+
+      {lastAttempt && (
+        <View style={styles.resultRow}>
+          <Text style={[styles.score, { color: getScoreColor(lastAttempt.score) }]}>
+            {lastAttempt.score}
+          </Text>
+          <View style={styles.stats}>
+            <Text style={styles.statText}>AVG {formatIntonationCents(lastAttempt.meanCents)}</Text>
+            <Text style={styles.statText}>SPREAD ±{lastAttempt.spreadCents.toFixed(1)}¢</Text>
+            <Text style={styles.statText}>
+              IN WINDOW {Math.round(lastAttempt.inWindowRatio * 100)}%
+            </Text>
+          </View>
+        </View>
+      )}
+
+      <View style={styles.actionsRow}>
+        <View style={styles.toggle}>
+          <PrimaryButton
+            label={phase === 'scored' ? 'NEXT' : 'START'}
+            onPress={onStart}
+            disabled={!isReady || !target || isBusy}
+            size="compact"
+            accessibilityLabel="Play the target note and score the next attempt"
+          />
+        </View>
+        <Pressable
+          onPress={handlePlayTone}
+          disabled={!target || isBusy}
+          style={({ pressed }) => [styles.action, pressed && styles.actionPressed]}
+          accessibilityLabel="Play the target tone"
+          accessibilityRole="button"
+        >
+          <Volume2 size={12} color={Colors.graphite} />
+          <Text style={styles.actionText}>TONE</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleStop}
+          disabled={!isListening}
+          style={({ pressed }) => [styles.action, pressed && styles.actionPressed]}
+          accessibilityLabel="Stop listening"
+          accessibilityRole="button"
+        >
+          <Square size={12} color={Colors.graphite} />
+          <Text style={styles.actionText}>STOP</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    backgroundColor: 'rgba(0,0,0,0.3)',
+    borderRadius: 8,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.05)',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  targetLabel: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 14,
+    color: Colors.softWhite,
+    letterSpacing: 2,
+  },
+  octave: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+  },
+  sessionText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  instruction: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 12,
+    color: Colors.warmGray,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.charcoal,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.moss,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  score: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 32,
+  },
+  stats: {
+    gap: 2,
+  },
+  statText: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 10,
+    color: Colors.warmGray,
+    letterSpacing: 1,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  toggle: {
+    flex: 1,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  actionPressed: {
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  actionText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+});
+
+export default PitchTrainerPanel;
@@ -0,0 +1,192 @@
+/**
+ * StrumCheckDisplay Component
+ *
+ * Polyphonic tuner display for a strummed open chord:
+ * - One mini meter per string (lowest string on the left)
+ * - Marker offset by the string's cents deviation
+ * - LED and FLAT/SHARP/OK status per string
+ * - Dims strings that have stopped ringing
+ */
+
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { SHADOWS, BEVELS } from '@/constants/Styles';
+import { InsetWindow } from '@/components/ui/InsetWindow';
+import { LEDIndicator } from '@/components/skia/primitives/LEDIndicator';
+import { getDeviationColor } from '@/utils/tuning/getDeviationColor';
+import { getStrumStatus } from '@/utils/tuning';
+import type { StringConfig } from '@/constants/TunerConfig';
+import type { StrumStringResult, StrumStringStatus } from '@/types/tuner';
+
+/** Deviation shown at the top/bottom of each meter (cents) */
+const METER_RANGE = 50;
+
+const STATUS_LABELS: Record<StrumStringStatus, string> = {
+  flat: 'FLAT',
+  sharp: 'SHARP',
+  inTune: 'OK',
+  none: '—',
+};
+
+interface StrumCheckDisplayProps {
+  /** Strings of the active tuning */
+  strings: StringConfig[];
+  /** Per-string readings */
+  results: StrumStringResult[];
+  /** Whether tuner is listening */
+  isListening: boolean;
+  /** Whether embedded in another component (removes housing borders) */
+  embedded?: boolean;
+}
+
+export const StrumCheckDisplay = memo(function StrumCheckDisplay({
+  strings,
+  results,
+  isListening,
+  embedded = false,
+}: StrumCheckDisplayProps) {
+  // Every string gets a meter, lowest on the left, even before it's been heard
+  const readings: StrumStringResult[] = [...strings]
+    .sort((a, b) => b.number - a.number)
+    .map(
+      (str) =>
+        results.find((r) => r.string.number === str.number) ?? {
+          string: str,
+          cents: null,
+          level: 0,
+          isSounding: false,
+        }
+    );
+
+  return (
+    <View style={[styles.housing, embedded && styles.housingEmbedded]}>
+      <InsetWindow variant="light" borderRadius={12} style={styles.meterFace} showGlassOverlay>
+        <View style={styles.columns}>
+          {readings.map((result) => {
+            const status = getStrumStatus(result.cents);
+            const color =
+              result.cents === null
+                ? Colors.graphite
+                : getDeviationColor(result.cents, status === 'inTune');
+            const clamped = Math.max(-METER_RANGE, Math.min(METER_RANGE, result.cents ?? 0));
+            const markerTop = `${((METER_RANGE - clamped) / (METER_RANGE * 2)) * 100}%` as const;
+
+            return (
+              <View
+                key={result.string.number}
+                style={[styles.column, !result.isSounding && styles.columnIdle]}
+              >
+                <LEDIndicator
+                  size={10}
+                  isActive={isListening && result.isSounding}
+                  color={status === 'inTune' ? Colors.moss : color}
+                />
+                <View style={styles.meterTrack}>
+                  <View style={styles.centerLine} />
+                  {result.cents !== null && (
+                    <View style={[styles.marker, { top: markerTop, backgroundColor: color }]} />
+                  )}
+                </View>
+                <Text style={styles.note}>
+                  {result.string.note}
+                  <Text style={styles.octave}>{result.string.octave}</Text>
+                </Text>
+                <Text style={[styles.status, { color }]}>{STATUS_LABELS[status]}</Text>
+              </View>
+            );
+          })}
+        </View>
+      </InsetWindow>
+
+      <Text style={styles.hint}>
+        {isListening ? 'Strum all open strings' : 'Start the tuner, then strum all open strings'}
+      </Text>
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  housing: {
+    width: 310,
+    backgroundColor: Colors.ink,
+    borderRadius: 16,
+    paddingVertical: 20,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    ...BEVELS.housing,
+    ...SHADOWS.housing,
+  },
+  housingEmbedded: {
+    borderTopWidth: 0,
+    borderBottomWidth: 0,
+    shadowOpacity: 0,
+    elevation: 0,
+  },
+  meterFace: {
+    width: 280,
+    height: 150,
+    borderRadius: 12,
+  },
+  columns: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+  },
+  column: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  columnIdle: {
+    opacity: 0.5,
+  },
+  meterTrack: {
+    width: 6,
+    flex: 1,
+    borderRadius: 3,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+  },
+  centerLine: {
+    position: 'absolute',
+    left: -4,
+    right: -4,
+    top: '50%',
+    height: 1,
+    backgroundColor: Colors.moss,
+  },
+  marker: {
+    position: 'absolute',
+    left: -3,
+    right: -3,
+    height: 4,
+    marginTop: -2,
+    borderRadius: 2,
+  },
+  note: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 13,
+    color: Colors.softWhite,
+  },
+  octave: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 9,
+    color: Colors.graphite,
+  },
+  status: {
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 8,
+    letterSpacing: 1,
+  },
+  hint: {
+    marginTop: 12,
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+});
+
+export default StrumCheckDisplay;
@@ -2,27 +2,60 @@
  * TunerControls Component
  *
  * Controls for the tuner including:
- * - Instrument selector (Guitar / Bass)
+ * - Display selector (needle meter or strobe)
+ * - Mode selector (single string, strum check or chord recognition)
+ * - Instrument selector (6/7-string guitar, 4/5/6-string bass)
+ * - Tuning selector (library and custom tunings) with custom tuning editor
  * - String indicators with LED feedback
  * - Start/Stop button
  * - Reference pitch display
  */
 
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { Guitar, Music2 } from 'lucide-react-native';
+import React, { useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Plus, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
 import { Colors } from '@/constants/Colors';
+import { FrequencyTuner } from '@/components/ui/filters/FrequencyTuner';
 import { GangSwitch } from '@/components/ui/filters/GangSwitch';
 import { PrimaryButton } from '@/components/ui/PrimaryButton';
 import { LEDIndicator } from '@/components/skia/primitives/LEDIndicator';
-import { type InstrumentType, type StringConfig } from '@/constants/TunerConfig';
+import {
+  INSTRUMENT_TYPES,
+  getInstrumentName,
+  type InstrumentType,
+  type StringConfig,
+  type TunerTuning,
+} from '@/constants/TunerConfig';
+import { formatTuningNotes } from '@/utils/tuning';
+import type { FilterOption } from '@/types/filters';
+import type { TunerDisplayMode, TunerMode } from '@/types/tuner';
+import { CustomTuningModal } from './CustomTuningModal';
 
 interface TunerControlsProps {
+  /** Needle or strobe display */
+  displayMode: TunerDisplayMode;
+  /** Callback when display mode changes */
+  onDisplayModeChange: (mode: TunerDisplayMode) => void;
+  /** Single-string, strum check or chord recognition */
+  mode: TunerMode;
+  /** Callback when tuner mode changes */
+  onModeChange: (mode: TunerMode) => void;
   /** Currently selected instrument */
   instrument: InstrumentType;
   /** Callback when instrument changes */
   onInstrumentChange: (instrument: InstrumentType) => void;
-  /** String configurations for current instrument */
+  /** Currently selected tuning */
+  tuning: TunerTuning;
+  /** Tunings available for the current instrument */
+  tunings: TunerTuning[];
+  /** Callback when tuning changes */
+  onTuningChange: (tuningId: string) => void;
+  /** Save a custom tuning (throws to keep the editor open) */
+  onSaveCustomTuning: (name: string, strings: StringConfig[]) => Promise<void>;
+  /** Delete a custom tuning */
+  onDeleteCustomTuning: (tuning: TunerTuning) => void;
+  /** String configurations for current tuning */
   strings: StringConfig[];
   /** Target string being tuned */
   targetString: StringConfig | null;
@@ -38,19 +71,39 @@ interface TunerControlsProps {
   onRequestPermission: () => void;
 }
 
-// Instrument options for GangSwitch
-const instrumentOptions: { value: InstrumentType; label: string; icon: typeof Guitar }[] = [
-  { value: 'guitar', label: 'GUITAR', icon: Guitar },
-  { value: 'bass4', label: '4-STR BASS', icon: Music2 },
-  { value: 'bass5', label: '5-STR BASS', icon: Music2 },
+// Display options for GangSwitch
+const displayModeOptions: FilterOption<TunerDisplayMode>[] = [
+  { value: 'needle', label: 'NEEDLE' },
+  { value: 'strobe', label: 'STROBE' },
 ];
 
+// Mode options for GangSwitch
+const modeOptions: FilterOption<TunerMode>[] = [
+  { value: 'single', label: 'SINGLE' },
+  { value: 'strum', label: 'STRUM' },
+  { value: 'chord', label: 'CHORD' },
+];
+
+// Instrument options for FrequencyTuner
+const instrumentOptions: { value: InstrumentType; label: string }[] = INSTRUMENT_TYPES.map(
+  (type) => ({ value: type, label: getInstrumentName(type) })
+);
+
 /**
  * TunerControls - Instrument selector and string indicators
  */
 export const TunerControls: React.FC<TunerControlsProps> = ({
+  displayMode,
+  onDisplayModeChange,
+  mode,
+  onModeChange,
   instrument,
   onInstrumentChange,
+  tuning,
+  tunings,
+  onTuningChange,
+  onSaveCustomTuning,
+  onDeleteCustomTuning,
   strings,
   targetString,
   isListening,
@@ -59,25 +112,98 @@ export const TunerControls: React.FC<TunerControlsProps> = ({
   hasPermission,
   onRequestPermission,
 }) => {
-  // Handle instrument change
-  const handleInstrumentChange = (value: InstrumentType | null) => {
-    if (value) {
-      onInstrumentChange(value);
-    }
+  const [showCustomEditor, setShowCustomEditor] = useState(false);
+
+  const tuningOptions = tunings.map((t) => ({ value: t.id, label: t.name }));
+
+  const handleOpenCustomEditor = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setShowCustomEditor(true);
+  };
+
+  const handleDisplayModeChange = (mode: TunerDisplayMode | null) => {
+    if (mode) onDisplayModeChange(mode);
+  };
+
+  const handleModeChange = (newMode: TunerMode | null) => {
+    if (newMode) onModeChange(newMode);
+  };
+
+  const handleDeleteTuning = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onDeleteCustomTuning(tuning);
   };
 
   return (
     <View style={styles.container}>
-      {/* Instrument Selector */}
-      <View style={styles.instrumentSection}>
-        <GangSwitch
-          label="INSTRUMENT"
-          value={instrument}
-          options={instrumentOptions}
-          onChange={handleInstrumentChange}
-          showIcons
-          allowDeselect={false}
-        />
+      {/* Tuner Mode & Display */}
+      <View style={styles.selectorRow}>
+        <View style={styles.selector}>
+          <GangSwitch
+            label="MODE"
+            value={mode}
+            options={modeOptions}
+            onChange={handleModeChange}
+            allowDeselect={false}
+          />
+        </View>
+        <View style={styles.selector}>
+          <GangSwitch
+            label="DISPLAY"
+            value={displayMode}
+            options={displayModeOptions}
+            onChange={handleDisplayModeChange}
+            disabled={mode !== 'single'}
+            allowDeselect={false}
+          />
+        </View>
+      </View>
+
+      {/* Instrument & Tuning Selectors */}
+      <View style={styles.selectorRow}>
+        <View style={styles.selector}>
+          <FrequencyTuner
+            label="INSTRUMENT"
+            value={instrument}
+            options={instrumentOptions}
+            onChange={onInstrumentChange}
+            size="compact"
+          />
+        </View>
+        <View style={styles.selector}>
+          <FrequencyTuner
+            label="TUNING"
+            value={tuning.id}
+            options={tuningOptions}
+            onChange={onTuningChange}
+            size="compact"
+          />
+        </View>
+      </View>
+
+      {/* Tuning notes and custom tuning actions */}
+      <View style={styles.tuningRow}>
+        <Text style={styles.tuningNotes}>{formatTuningNotes(strings)}</Text>
+        {tuning.isCustom && (
+          <Pressable
+            onPress={handleDeleteTuning}
+            style={({ pressed }) => [styles.tuningAction, pressed && styles.tuningActionPressed]}
+            accessibilityLabel={`Delete ${tuning.name} tuning`}
+            accessibilityRole="button"
+          >
+            <Trash2 size={12} color={Colors.graphite} />
+            <Text style={styles.tuningActionText}>DELETE</Text>
+          </Pressable>
+        )}
+        <Pressable
+          onPress={handleOpenCustomEditor}
+          style={({ pressed }) => [styles.tuningAction, pressed && styles.tuningActionPressed]}
+          accessibilityLabel="Create custom tuning"
+          accessibilityRole="button"
+        >
+          <Plus size={12} color={Colors.vermilion} />
+          <Text style={[styles.tuningActionText, styles.tuningActionTextAccent]}>CUSTOM</Text>
+        </Pressable>
       </View>
 
       {/* String Indicators */}
@@ -128,6 +254,14 @@ export const TunerControls: React.FC<TunerControlsProps> = ({
           />
         )}
       </View>
+
+      <CustomTuningModal
+        visible={showCustomEditor}
+        instrumentName={getInstrumentName(instrument)}
+        baseStrings={tuning.strings}
+        onClose={() => setShowCustomEditor(false)}
+        onSave={onSaveCustomTuning}
+      />
     </View>
   );
 };
@@ -136,8 +270,46 @@ const styles = StyleSheet.create({
   container: {
     gap: 20,
   },
-  instrumentSection: {
-    // GangSwitch has its own styling
+  selectorRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  selector: {
+    flex: 1,
+  },
+  tuningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -8,
+  },
+  tuningNotes: {
+    flex: 1,
+    fontFamily: 'LexendDecaSemiBold',
+    fontSize: 12,
+    color: Colors.warmGray,
+    letterSpacing: 2,
+  },
+  tuningAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  tuningActionPressed: {
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  tuningActionText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 1,
+  },
+  tuningActionTextAccent: {
+    color: Colors.vermilion,
   },
   stringsSection: {
     gap: 8,
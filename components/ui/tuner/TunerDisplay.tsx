@@ -1,8 +1,8 @@
 /**
  * TunerDisplay Component
  *
- * Needle-style VU meter tuner display with:
- * - Animated needle showing cents deviation
+ * VU meter tuner display with:
+ * - Animated needle or scrolling strobe showing cents deviation
  * - Note name display (C, C#, D, etc.)
  * - Octave indicator
  * - Color-coded accuracy feedback
@@ -17,9 +17,10 @@ import { SHADOWS, BEVELS } from '@/constants/Styles';
 import { InsetWindow } from '@/components/ui/InsetWindow';
 import { LEDIndicator } from '@/components/skia/primitives/LEDIndicator';
 import { PivotScrew } from '@/components/ui/PivotScrew';
+import { TunerStrobe } from './TunerStrobe';
 import { getDeviationColor } from '@/utils/tuning/getDeviationColor';
 import { IN_TUNE_THRESHOLD, A4_FREQUENCY } from '@/constants/TunerConfig';
-import type { SmoothedPitchResult } from '@/types/tuner';
+import type { SmoothedPitchResult, TunerDisplayMode } from '@/types/tuner';
 import type { StringConfig } from '@/constants/TunerConfig';
 
 interface TunerDisplayProps {
@@ -35,10 +36,18 @@ interface TunerDisplayProps {
   compact?: boolean;
   /** Whether embedded in another component (removes housing borders) */
   embedded?: boolean;
+  /** Calibrated A4 reference in Hz */
+  referencePitch?: number;
+  /** Needle meter or strobe bands */
+  mode?: TunerDisplayMode;
 }
 
+// Strobe window inside the meter face (meter face minus insets)
+const STROBE_SIZE = { width: 248, height: 66 };
+const STROBE_SIZE_COMPACT = { width: 198, height: 48 };
+
 /**
- * TunerDisplay - Needle-style tuner visualization
+ * TunerDisplay - Needle or strobe tuner visualization
  */
 export const TunerDisplay: React.FC<TunerDisplayProps> = ({
   pitch,
@@ -47,6 +56,8 @@ export const TunerDisplay: React.FC<TunerDisplayProps> = ({
   isListening,
   compact = false,
   embedded = false,
+  referencePitch = A4_FREQUENCY,
+  mode = 'needle',
 }) => {
   const needleRotation = useRef(new Animated.Value(50)).current;
 
@@ -123,27 +134,39 @@ export const TunerDisplay: React.FC<TunerDisplayProps> = ({
         }}
         showGlassOverlay
       >
-        {/* Scale markings with LEDs */}
-        <View style={styles.scaleMarkings}>
-          {centsMarkers.map((marker) => (
-            <View
-              key={marker.label}
-              style={[
-                styles.markerContainer,
-                { left: `${marker.position * 100}%` },
-              ]}
-            >
-              <Text style={[styles.markerLabel, compact && styles.markerLabelCompact]}>
-                {marker.label}
-              </Text>
-              <LEDIndicator
-                size={compact ? 10 : 14}
-                isActive={isLedActive(marker.cents)}
-                color={isInTune && marker.cents === 0 ? Colors.moss : getLedColor(marker.cents)}
-              />
-            </View>
-          ))}
-        </View>
+        {mode === 'strobe' ? (
+          /* Strobe bands */
+          <View style={styles.strobeWindow}>
+            <TunerStrobe
+              cents={pitch?.cents ?? null}
+              isInTune={isInTune}
+              isListening={isListening}
+              {...(compact ? STROBE_SIZE_COMPACT : STROBE_SIZE)}
+            />
+          </View>
+        ) : (
+          /* Scale markings with LEDs */
+          <View style={styles.scaleMarkings}>
+            {centsMarkers.map((marker) => (
+              <View
+                key={marker.label}
+                style={[
+                  styles.markerContainer,
+                  { left: `${marker.position * 100}%` },
+                ]}
+              >
+                <Text style={[styles.markerLabel, compact && styles.markerLabelCompact]}>
+                  {marker.label}
+                </Text>
+                <LEDIndicator
+                  size={compact ? 10 : 14}
+                  isActive={isLedActive(marker.cents)}
+                  color={isInTune && marker.cents === 0 ? Colors.moss : getLedColor(marker.cents)}
+                />
+              </View>
+            ))}
+          </View>
+        )}
 
         {/* Direction labels */}
         <View style={styles.directionLabels}>
@@ -152,30 +175,32 @@ export const TunerDisplay: React.FC<TunerDisplayProps> = ({
         </View>
 
         {/* Needle pivot and needle */}
-        <View style={styles.needlePivot}>
-          <Animated.View
-            style={[
-              styles.needle,
-              compact && styles.needleCompact,
-              { transform: [{ rotate: rotation }] },
-            ]}
-          >
-            <LinearGradient
-              colors={[needleColor, needleColor, 'rgba(255,255,255,0.3)', needleColor, needleColor]}
-              locations={[0, 0.2, 0.5, 0.8, 1]}
-              style={styles.needleBody}
-              start={{ x: 0, y: 0 }}
-              end={{ x: 1, y: 0 }}
-            />
-          </Animated.View>
-          <PivotScrew compact={compact} />
-        </View>
+        {mode === 'needle' && (
+          <View style={styles.needlePivot}>
+            <Animated.View
+              style={[
+                styles.needle,
+                compact && styles.needleCompact,
+                { transform: [{ rotate: rotation }] },
+              ]}
+            >
+              <LinearGradient
+                colors={[needleColor, needleColor, 'rgba(255,255,255,0.3)', needleColor, needleColor]}
+                locations={[0, 0.2, 0.5, 0.8, 1]}
+                style={styles.needleBody}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 0 }}
+              />
+            </Animated.View>
+            <PivotScrew compact={compact} />
+          </View>
+        )}
       </InsetWindow>
 
       {/* Combined signal + reference display */}
       <View style={styles.infoBar}>
         {/* Left: Reference pitch */}
-        <Text style={styles.referenceText}>A4={A4_FREQUENCY}</Text>
+        <Text style={styles.referenceText}>A4={referencePitch}</Text>
 
         {/* Center: Note + Cents with LED */}
         <View style={styles.signalGroup}>
@@ -266,6 +291,13 @@ const styles = StyleSheet.create({
   markerLabelCompact: {
     fontSize: 9,
   },
+  strobeWindow: {
+    position: 'absolute',
+    top: 14,
+    left: 16,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
   directionLabels: {
     position: 'absolute',
     bottom: 10,
@@ -0,0 +1,203 @@
+/**
+ * TunerReferenceControls Component
+ *
+ * Calibrated A4 reference pitch for the tuner:
+ * - -/+ stepper (1 Hz steps, 415-466 Hz)
+ * - Reset to 440 Hz
+ * - Auto-calibrate from a sustained A
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Minus, Plus, RotateCcw, Radio } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { A4_FREQUENCY, A4_MIN_FREQUENCY, A4_MAX_FREQUENCY } from '@/constants/TunerConfig';
+
+interface TunerReferenceControlsProps {
+  /** Calibrated A4 reference in Hz */
+  referencePitch: number;
+  /** Callback when the reference changes */
+  onReferencePitchChange: (a4Frequency: number) => void;
+  /** Whether auto-calibration is listening */
+  isCalibrating: boolean;
+  /** Start auto-calibration */
+  onCalibrate: () => void;
+  /** Cancel auto-calibration */
+  onCancelCalibration: () => void;
+  /** Whether the controls are disabled */
+  disabled?: boolean;
+}
+
+export const TunerReferenceControls = memo(function TunerReferenceControls({
+  referencePitch,
+  onReferencePitchChange,
+  isCalibrating,
+  onCalibrate,
+  onCancelCalibration,
+  disabled = false,
+}: TunerReferenceControlsProps) {
+  const isLocked = disabled || isCalibrating;
+
+  const handleStep = async (delta: number) => {
+    if (isLocked) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onReferencePitchChange(referencePitch + delta);
+  };
+
+  const handleReset = async () => {
+    if (isLocked) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onReferencePitchChange(A4_FREQUENCY);
+  };
+
+  const handleCalibratePress = async () => {
+    if (disabled) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (isCalibrating) {
+      onCancelCalibration();
+    } else {
+      onCalibrate();
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>REFERENCE</Text>
+      <View style={styles.row}>
+        <View style={styles.stepperRow}>
+          <Pressable
+            onPress={() => handleStep(-1)}
+            disabled={isLocked || referencePitch <= A4_MIN_FREQUENCY}
+            style={({ pressed }) => [styles.stepperButton, pressed && styles.stepperButtonPressed]}
+            accessibilityLabel="Lower reference pitch"
+            accessibilityRole="button"
+          >
+            <Minus size={12} color={Colors.softWhite} strokeWidth={2.5} />
+          </Pressable>
+          <Text style={styles.value}>
+            A4 = {referencePitch}
+            <Text style={styles.unit}> Hz</Text>
+          </Text>
+          <Pressable
+            onPress={() => handleStep(1)}
+            disabled={isLocked || referencePitch >= A4_MAX_FREQUENCY}
+            style={({ pressed }) => [styles.stepperButton, pressed && styles.stepperButtonPressed]}
+            accessibilityLabel="Raise reference pitch"
+            accessibilityRole="button"
+          >
+            <Plus size={12} color={Colors.softWhite} strokeWidth={2.5} />
+          </Pressable>
+          {referencePitch !== A4_FREQUENCY && !isCalibrating && (
+            <Pressable
+              onPress={handleReset}
+              disabled={isLocked}
+              style={styles.resetButton}
+              accessibilityLabel="Reset reference pitch to 440 Hz"
+              accessibilityRole="button"
+            >
+              <RotateCcw size={12} color={Colors.graphite} />
+            </Pressable>
+          )}
+        </View>
+
+        <Pressable
+          onPress={handleCalibratePress}
+          disabled={disabled}
+          style={({ pressed }) => [
+            styles.calibrateButton,
+            isCalibrating && styles.calibrateButtonActive,
+            pressed && styles.calibrateButtonPressed,
+          ]}
+          accessibilityLabel={isCalibrating ? 'Cancel auto-calibration' : 'Auto-calibrate from an A'}
+          accessibilityRole="button"
+        >
+          <Radio size={12} color={Colors.softWhite} />
+          <Text style={styles.calibrateText}>{isCalibrating ? 'CANCEL' : 'CALIBRATE'}</Text>
+        </Pressable>
+      </View>
+      {isCalibrating && (
+        <Text style={styles.hint}>Play and hold an A on any octave...</Text>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  label: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.graphite,
+    letterSpacing: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepperButton: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    backgroundColor: Colors.charcoal,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonPressed: {
+    backgroundColor: Colors.graphiteDark,
+    transform: [{ scale: 0.95 }],
+  },
+  value: {
+    minWidth: 84,
+    fontFamily: 'LexendDecaBold',
+    fontSize: 16,
+    color: Colors.softWhite,
+    textAlign: 'center',
+  },
+  unit: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.graphite,
+  },
+  resetButton: {
+    padding: 4,
+  },
+  calibrateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: Colors.charcoal,
+  },
+  calibrateButtonActive: {
+    backgroundColor: Colors.vermilion,
+  },
+  calibrateButtonPressed: {
+    transform: [{ scale: 0.95 }],
+  },
+  calibrateText: {
+    fontFamily: 'LexendDecaBold',
+    fontSize: 10,
+    color: Colors.softWhite,
+    letterSpacing: 1,
+  },
+  hint: {
+    fontFamily: 'LexendDecaRegular',
+    fontSize: 11,
+    color: Colors.warmGray,
+    fontStyle: 'italic',
+  },
+});
+
+export default TunerReferenceControls;
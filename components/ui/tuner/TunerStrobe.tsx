@@ -0,0 +1,154 @@
+/**
+ * TunerStrobe Component
+ *
+ * Strobe-style tuner face drawn with Skia:
+ * - Rows of bands scrolling at a speed proportional to cents deviation
+ * - Drift left when flat, right when sharp, still when in tune
+ * - Finer rows move faster so ±1 cent adjustments stay visible
+ * - Bands tinted with the deviation color
+ *
+ * Note: Uses View-based rendering on web (TunerStrobe.web.tsx)
+ */
+
+import React, { memo, useEffect, useMemo } from 'react';
+import { View } from 'react-native';
+import {
+  Canvas,
+  Group,
+  Rect,
+  LinearGradient,
+  rect,
+  vec,
+} from '@shopify/react-native-skia';
+import {
+  useSharedValue,
+  useDerivedValue,
+  useFrameCallback,
+  type SharedValue,
+} from 'react-native-reanimated';
+import { Colors } from '@/constants/Colors';
+import { STROBE_CONFIG } from '@/constants/TunerConfig';
+import { getDeviationColor } from '@/utils/tuning/getDeviationColor';
+import { STROBE_PERIOD, getStrobeSpeed, advanceStrobeOffset } from '@/utils/tuning/strobe';
+
+const ROW_GAP = 4;
+
+interface TunerStrobeProps {
+  /** Cents deviation from the nearest note (null when no pitch) */
+  cents: number | null;
+  /** Whether currently in tune */
+  isInTune: boolean;
+  /** Whether tuner is listening */
+  isListening: boolean;
+  /** Strobe width in px */
+  width: number;
+  /** Strobe height in px */
+  height: number;
+}
+
+interface StrobeRowProps {
+  offset: SharedValue<number>;
+  multiplier: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+/**
+ * One row of bands, scrolled by the shared offset times its multiplier
+ */
+const StrobeRow = memo(function StrobeRow({
+  offset,
+  multiplier,
+  y,
+  width,
+  height,
+  color,
+}: StrobeRowProps) {
+  const transform = useDerivedValue(() => [
+    { translateX: ((offset.value * multiplier) % STROBE_PERIOD) - STROBE_PERIOD },
+  ]);
+
+  // Enough bands to cover the row while shifted by up to one period
+  const bandCount = Math.ceil(width / STROBE_PERIOD) + 2;
+
+  return (
+    <Group clip={rect(0, y, width, height)}>
+      <Rect x={0} y={y} width={width} height={height} color={Colors.charcoal} />
+      <Group transform={transform}>
+        {Array.from({ length: bandCount }, (_, i) => (
+          <Rect
+            key={i}
+            x={i * STROBE_PERIOD}
+            y={y}
+            width={STROBE_CONFIG.bandWidth}
+            height={height}
+            color={color}
+          />
+        ))}
+      </Group>
+    </Group>
+  );
+});
+
+/**
+ * TunerStrobe - Strobe tuner visualization
+ */
+export const TunerStrobe = memo(function TunerStrobe({
+  cents,
+  isInTune,
+  isListening,
+  width,
+  height,
+}: TunerStrobeProps) {
+  const offset = useSharedValue(0);
+  const speed = useSharedValue(0);
+
+  // Band speed follows the smoothed pitch
+  useEffect(() => {
+    speed.value = isListening ? getStrobeSpeed(cents) : 0;
+  }, [cents, isListening, speed]);
+
+  useFrameCallback((frame) => {
+    offset.value = advanceStrobeOffset(offset.value, speed.value, frame.timeSincePreviousFrame ?? 0);
+  });
+
+  const bandColor = useMemo(() => {
+    if (!isListening || cents === null) return Colors.graphite;
+    return getDeviationColor(cents, isInTune);
+  }, [cents, isInTune, isListening]);
+
+  const rowCount = STROBE_CONFIG.rowMultipliers.length;
+  const rowHeight = (height - ROW_GAP * (rowCount - 1)) / rowCount;
+
+  return (
+    <View style={{ width, height }}>
+      <Canvas style={{ width, height }}>
+        {STROBE_CONFIG.rowMultipliers.map((multiplier, i) => (
+          <StrobeRow
+            key={multiplier}
+            offset={offset}
+            multiplier={multiplier}
+            y={i * (rowHeight + ROW_GAP)}
+            width={width}
+            height={rowHeight}
+            color={bandColor}
+          />
+        ))}
+
+        {/* Edge fade so bands scroll in and out of the window */}
+        <Rect x={0} y={0} width={width} height={height}>
+          <LinearGradient
+            start={vec(0, 0)}
+            end={vec(width, 0)}
+            positions={[0, 0.12, 0.88, 1]}
+            colors={['rgba(0,0,0,0.6)', 'rgba(0,0,0,0)', 'rgba(0,0,0,0)', 'rgba(0,0,0,0.6)']}
+          />
+        </Rect>
+      </Canvas>
+    </View>
+  );
+});
+
+export default TunerStrobe;
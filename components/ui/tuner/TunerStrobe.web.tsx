@@ -0,0 +1,122 @@
+import React, { memo, useEffect, useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  useFrameCallback,
+  type SharedValue,
+} from 'react-native-reanimated';
+import { Colors } from '@/constants/Colors';
+import { STROBE_CONFIG } from '@/constants/TunerConfig';
+import { getDeviationColor } from '@/utils/tuning/getDeviationColor';
+import { STROBE_PERIOD, getStrobeSpeed, advanceStrobeOffset } from '@/utils/tuning/strobe';
+
+const ROW_GAP = 4;
+
+interface TunerStrobeProps {
+  /** Cents deviation from the nearest note (null when no pitch) */
+  cents: number | null;
+  /** Whether currently in tune */
+  isInTune: boolean;
+  /** Whether tuner is listening */
+  isListening: boolean;
+  /** Strobe width in px */
+  width: number;
+  /** Strobe height in px */
+  height: number;
+}
+
+interface StrobeRowProps {
+  offset: SharedValue<number>;
+  multiplier: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+const StrobeRow = memo(function StrobeRow({ offset, multiplier, width, height, color }: StrobeRowProps) {
+  const bandsStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: ((offset.value * multiplier) % STROBE_PERIOD) - STROBE_PERIOD }],
+  }));
+
+  const bandCount = Math.ceil(width / STROBE_PERIOD) + 2;
+
+  return (
+    <View style={[styles.row, { width, height }]}>
+      <Animated.View style={[styles.bands, bandsStyle]}>
+        {Array.from({ length: bandCount }, (_, i) => (
+          <View
+            key={i}
+            style={{
+              width: STROBE_CONFIG.bandWidth,
+              height,
+              marginRight: STROBE_PERIOD - STROBE_CONFIG.bandWidth,
+              backgroundColor: color,
+            }}
+          />
+        ))}
+      </Animated.View>
+    </View>
+  );
+});
+
+/**
+ * TunerStrobe (Web) - View-based fallback for web build.
+ * Scrolls the same band pattern as the Skia version.
+ */
+export const TunerStrobe = memo(function TunerStrobe({
+  cents,
+  isInTune,
+  isListening,
+  width,
+  height,
+}: TunerStrobeProps) {
+  const offset = useSharedValue(0);
+  const speed = useSharedValue(0);
+
+  useEffect(() => {
+    speed.value = isListening ? getStrobeSpeed(cents) : 0;
+  }, [cents, isListening, speed]);
+
+  useFrameCallback((frame) => {
+    offset.value = advanceStrobeOffset(offset.value, speed.value, frame.timeSincePreviousFrame ?? 0);
+  });
+
+  const bandColor = useMemo(() => {
+    if (!isListening || cents === null) return Colors.graphite;
+    return getDeviationColor(cents, isInTune);
+  }, [cents, isInTune, isListening]);
+
+  const rowCount = STROBE_CONFIG.rowMultipliers.length;
+  const rowHeight = (height - ROW_GAP * (rowCount - 1)) / rowCount;
+
+  return (
+    <View style={[styles.container, { width, height }]}>
+      {STROBE_CONFIG.rowMultipliers.map((multiplier) => (
+        <StrobeRow
+          key={multiplier}
+          offset={offset}
+          multiplier={multiplier}
+          width={width}
+          height={rowHeight}
+          color={bandColor}
+        />
+      ))}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    gap: ROW_GAP,
+  },
+  row: {
+    overflow: 'hidden',
+    backgroundColor: Colors.charcoal,
+  },
+  bands: {
+    flexDirection: 'row',
+  },
+});
+
+export default TunerStrobe;
@@ -6,3 +6,15 @@
 
 export { TunerDisplay } from './TunerDisplay';
 export { TunerControls } from './TunerControls';
+export { TunerStrobe } from './TunerStrobe';
+export { StrumCheckDisplay } from './StrumCheckDisplay';
+export { ChordRecognitionDisplay } from './ChordRecognitionDisplay';
+export { ChordPracticePanel } from './ChordPracticePanel';
+export { CustomTuningModal } from './CustomTuningModal';
+export { TunerReferenceControls } from './TunerReferenceControls';
+export { IntonationPanel } from './IntonationPanel';
+export { IntonationResults } from './IntonationResults';
+export { IntonationHistory } from './IntonationHistory';
+export { PitchTrace } from './PitchTrace';
+export { PitchTrainerPanel } from './PitchTrainerPanel';
+export { PitchTrainerHistory } from './PitchTrainerHistory';
@@ -0,0 +1,33 @@
+/**
+ * Arrangement Configuration Constants
+ *
+ * Section kinds, limits and defaults for the song arrangement editor.
+ */
+
+import type { ArrangementSectionType } from '@/types/arrangement';
+
+/** Section limits and defaults */
+export const ARRANGEMENT_CONFIG = {
+  /** Bars in a new section */
+  defaultBars: 8,
+  /** Longest section pass (bars) */
+  maxBars: 64,
+  /** Most repeats of one section */
+  maxRepeats: 8,
+  /** Longest section name */
+  maxNameLength: 24,
+  /** Sections a full arrangement has at least (with a verse and a chorus) */
+  minMappedSections: 3,
+} as const;
+
+/** Section kinds in the order they're offered, with display labels */
+export const ARRANGEMENT_SECTION_TYPES: { value: ArrangementSectionType; label: string }[] = [
+  { value: 'intro', label: 'Intro' },
+  { value: 'verse', label: 'Verse' },
+  { value: 'preChorus', label: 'Pre-Chorus' },
+  { value: 'chorus', label: 'Chorus' },
+  { value: 'bridge', label: 'Bridge' },
+  { value: 'solo', label: 'Solo' },
+  { value: 'interlude', label: 'Interlude' },
+  { value: 'outro', label: 'Outro' },
+];
@@ -0,0 +1,78 @@
+/**
+ * Ear Training Configuration Constants
+ *
+ * Quiz lengths, answer labels and synthesis settings for the ear trainer.
+ */
+
+import type { EarTrainingCategory } from '@/types/earTraining';
+
+/** Synthesis and quiz settings */
+export const EAR_TRAINING_CONFIG = {
+  /** Output sample rate (Hz) */
+  sampleRate: 44100,
+  /** Questions per quiz */
+  questionsPerQuiz: 10,
+  /** Answer choices per progression question (other categories show their whole pool) */
+  progressionOptions: 4,
+  /** Chords per progression question (the first is always the tonic) */
+  progressionLength: 4,
+  /** Length of each note or chord (seconds) */
+  noteSeconds: 0.9,
+  /** Attack time (seconds) */
+  attackSeconds: 0.01,
+  /** Release at the end of each note (seconds) */
+  releaseSeconds: 0.15,
+  /** Exponential decay rate while a note sounds (per second) */
+  decayPerSecond: 1.5,
+  /** Overtone levels relative to the fundamental (2nd, 3rd harmonic) so notes sound fuller than a bare sine */
+  harmonicLevels: [0.3, 0.12],
+  /** Peak output level (0-1) */
+  outputGain: 0.6,
+  /** Lowest root for random questions (MIDI, C3) */
+  lowRootMidi: 48,
+  /** Highest root for random questions (MIDI, G4) */
+  highRootMidi: 67,
+  /** Octave progression tonics are voiced around (MIDI of C in that octave, C3) */
+  progressionBaseMidi: 48,
+};
+
+/** Interval answer labels by semitones */
+export const INTERVAL_NAMES: Record<number, string> = {
+  1: 'Minor 2nd',
+  2: 'Major 2nd',
+  3: 'Minor 3rd',
+  4: 'Major 3rd',
+  5: 'Perfect 4th',
+  6: 'Tritone',
+  7: 'Perfect 5th',
+  8: 'Minor 6th',
+  9: 'Major 6th',
+  10: 'Minor 7th',
+  11: 'Major 7th',
+  12: 'Octave',
+};
+
+/** Chord-quality answer labels by CHORD_FORMULAS key */
+export const CHORD_QUALITY_NAMES: Record<string, string> = {
+  major: 'Major',
+  minor: 'Minor',
+  diminished: 'Diminished',
+  augmented: 'Augmented',
+  maj7: 'Major 7th',
+  '7': 'Dominant 7th',
+  m7: 'Minor 7th',
+};
+
+/** CHORD_FORMULAS keys quizzed per chord category */
+export const QUIZ_CHORD_FORMULAS: Record<'triad' | 'seventh', string[]> = {
+  triad: ['major', 'minor', 'diminished', 'augmented'],
+  seventh: ['maj7', '7', 'm7'],
+};
+
+/** Category labels */
+export const EAR_TRAINING_CATEGORIES: { value: EarTrainingCategory; label: string }[] = [
+  { value: 'interval', label: 'INTERVALS' },
+  { value: 'triad', label: 'TRIADS' },
+  { value: 'seventh', label: '7THS' },
+  { value: 'progression', label: 'KEYS' },
+];
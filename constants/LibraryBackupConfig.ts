@@ -0,0 +1,67 @@
+/**
+ * Library Backup Configuration Constants
+ *
+ * Archive format, versions and table order for library export and restore.
+ */
+
+import type { LibraryArchiveTable } from '@/types/libraryBackup';
+
+/** Identifies a JSON file as a library archive */
+export const LIBRARY_ARCHIVE_FORMAT = 'songstreak-library';
+
+/**
+ * Current archive schema version
+ * Bump when the archived tables or columns change, and teach the restore to
+ * read the older versions.
+ */
+export const LIBRARY_ARCHIVE_VERSION = 3;
+
+/** Oldest archive version a restore can read */
+export const LIBRARY_ARCHIVE_MIN_VERSION = 1;
+
+/**
+ * Tables in restore order (rows referencing songs or setlists come after them),
+ * with labels for the restore summary
+ */
+export const LIBRARY_ARCHIVE_TABLES: { table: LibraryArchiveTable; label: string }[] = [
+  { table: 'songs', label: 'songs' },
+  { table: 'practice_sessions', label: 'practice sessions' },
+  { table: 'daily_practice_logs', label: 'practice days' },
+  { table: 'user_streaks', label: 'streak' },
+  { table: 'streak_freeze_history', label: 'streak freeze records' },
+  { table: 'song_mastery_progress', label: 'mastery records' },
+  { table: 'user_achievements', label: 'achievements' },
+  { table: 'user_lifetime_milestones', label: 'milestones' },
+  { table: 'tempo_sessions', label: 'tempo sessions' },
+  { table: 'custom_tunings', label: 'custom tunings' },
+  { table: 'intonation_checks', label: 'intonation checks' },
+  { table: 'pitch_training_sessions', label: 'pitch training sessions' },
+  { table: 'setlists', label: 'setlists' },
+  { table: 'setlist_songs', label: 'setlist entries' },
+  { table: 'voice_memos', label: 'voice memos' },
+];
+
+/**
+ * Columns each table's rows are matched on when restoring
+ * Rows matching one already there are kept as they are.
+ */
+export const LIBRARY_RESTORE_CONFLICT_KEYS: Record<LibraryArchiveTable, string> = {
+  songs: 'id',
+  practice_sessions: 'id',
+  daily_practice_logs: 'user_id,practice_date',
+  user_streaks: 'user_id',
+  streak_freeze_history: 'id',
+  song_mastery_progress: 'user_id,song_id',
+  user_achievements: 'user_id,song_id,achievement_id',
+  user_lifetime_milestones: 'user_id,milestone_id',
+  tempo_sessions: 'id',
+  custom_tunings: 'id',
+  intonation_checks: 'id',
+  pitch_training_sessions: 'id',
+  setlists: 'id',
+  setlist_songs: 'setlist_id,song_id',
+  voice_memos: 'id',
+};
+
+/** Rows sent per insert when restoring */
+export const LIBRARY_RESTORE_BATCH_SIZE = 200;
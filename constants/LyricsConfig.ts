@@ -0,0 +1,15 @@
+/**
+ * Lyrics Configuration Constants
+ *
+ * Follow mode and tap-along timing settings for synced lyrics.
+ */
+
+/** Follow mode and tap-along settings */
+export const LYRICS_SYNC_CONFIG = {
+  /** Highlight a line this early to cover the player's status polling delay (ms) */
+  highlightLeadMs: 150,
+  /** How far before an undone line to rewind, so it can be tapped again (ms) */
+  undoRewindMs: 3000,
+  /** Where the current line sits in the view while following (fraction of height) */
+  scrollAnchor: 0.35,
+} as const;
@@ -5,7 +5,14 @@
  * These values are critical for sample-accurate audio playback.
  */
 
-import type { MetronomeConfig } from '@/types/metronome';
+import type {
+  MetronomeConfig,
+  AccentLevel,
+  ClickSound,
+  GapClickSettings,
+  Subdivision,
+  TimeSignature,
+} from '@/types/metronome';
 
 /**
  * Core metronome configuration
@@ -43,3 +50,73 @@ export const BEAT_FLASH_DURATION_MS = 100; // Duration of beat indicator flash
 
 // Audio constants
 export const AUDIO_SAMPLE_RATE = 44100; // Standard sample rate
+
+// Meter
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beats: 4, noteValue: 4, grouping: [4] };
+
+// Selectable time signatures (odd meters list their grouping)
+export const TIME_SIGNATURE_PRESETS: { id: string; label: string; timeSignature: TimeSignature }[] = [
+  { id: '2/4', label: '2/4', timeSignature: { beats: 2, noteValue: 4, grouping: [2] } },
+  { id: '3/4', label: '3/4', timeSignature: { beats: 3, noteValue: 4, grouping: [3] } },
+  { id: '4/4', label: '4/4', timeSignature: DEFAULT_TIME_SIGNATURE },
+  { id: '5/4', label: '5/4', timeSignature: { beats: 5, noteValue: 4, grouping: [3, 2] } },
+  { id: '6/8', label: '6/8', timeSignature: { beats: 6, noteValue: 8, grouping: [3, 3] } },
+  { id: '5/8', label: '5/8 (3+2)', timeSignature: { beats: 5, noteValue: 8, grouping: [3, 2] } },
+  { id: '7/8-223', label: '7/8 (2+2+3)', timeSignature: { beats: 7, noteValue: 8, grouping: [2, 2, 3] } },
+  { id: '7/8-322', label: '7/8 (3+2+2)', timeSignature: { beats: 7, noteValue: 8, grouping: [3, 2, 2] } },
+  { id: '9/8', label: '9/8', timeSignature: { beats: 9, noteValue: 8, grouping: [3, 3, 3] } },
+  { id: '12/8', label: '12/8', timeSignature: { beats: 12, noteValue: 8, grouping: [3, 3, 3, 3] } },
+];
+
+// Clicks per beat for each subdivision
+export const SUBDIVISION_CLICKS: Record<Subdivision, number> = {
+  quarter: 1,
+  eighth: 2,
+  triplet: 3,
+  sixteenth: 4,
+};
+
+export const SUBDIVISION_OPTIONS: { value: Subdivision; label: string }[] = [
+  { value: 'quarter', label: 'Beat' },
+  { value: 'eighth', label: 'Eighths' },
+  { value: 'triplet', label: 'Triplets' },
+  { value: 'sixteenth', label: 'Sixteenths' },
+];
+
+// Playback gain per accent level (silent beats are skipped)
+export const ACCENT_GAIN: Record<AccentLevel, number> = {
+  accent: 1,
+  medium: 0.6,
+  normal: 1,
+  silent: 0,
+};
+export const SUBDIVISION_GAIN = 0.5; // Subdivision clicks sit under the beat
+
+// Click sounds
+export const CLICK_SOUND_OPTIONS: { value: ClickSound; label: string }[] = [
+  { value: 'woodblock', label: 'Woodblock' },
+  { value: 'cowbell', label: 'Cowbell' },
+  { value: 'rimshot', label: 'Rimshot' },
+  { value: 'hihat', label: 'Hi-Hat' },
+  { value: 'synth', label: 'Synth' },
+];
+export const DEFAULT_CLICK_SOUND: ClickSound = 'woodblock'; // Stands in for sounds that fail to load
+
+// Tempo trainer
+export const TRAINER_START_PERCENT = 60; // Trainer starts at this % of the song tempo
+export const TRAINER_DEFAULT_RANGE = 20; // BPM ramped when there's no song tempo
+export const TRAINER_STEP_OPTIONS = [1, 2, 5, 10]; // BPM added per step
+export const TRAINER_BARS_OPTIONS = [1, 2, 4, 8]; // Bars per step
+export const TRAINER_DEFAULT_STEP = 2;
+export const TRAINER_DEFAULT_BARS = 4;
+
+// Gap click
+export const DEFAULT_GAP_CLICK: GapClickSettings = {
+  mode: 'off',
+  playBars: 2,
+  muteBars: 2,
+  muteChance: 0.3,
+};
+
+// Sessions shorter than this aren't logged against the song
+export const MIN_LOGGED_SESSION_SECONDS = 15;
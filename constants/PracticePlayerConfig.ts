@@ -0,0 +1,80 @@
+/**
+ * Practice Player Configuration Constants
+ *
+ * Waveform decoding, beat detection and loop editing settings for the practice player.
+ */
+
+import type { LoopSnapMode } from '@/types/practicePlayer';
+
+/** Waveform overview and loop snapping settings */
+export const WAVEFORM_CONFIG = {
+  /** Decode sample rate (Hz); lower than playback to keep large files in memory */
+  sampleRate: 22050,
+  /** Peak buckets computed for the whole file (enough for the deepest zoom) */
+  resolution: 4096,
+  /** Bars drawn across the view */
+  bars: 120,
+  /** View height (px) */
+  height: 96,
+  /** How far either side of a handle to look for a zero crossing (ms) */
+  zeroCrossingWindowMs: 20,
+  /** Handle touch target either side of the marker (px) */
+  handleHitSlop: 24,
+  /** Shortest loop a handle drag can make (ms) */
+  minLoopMs: 250,
+  /** Samples analysed before yielding to the UI (about 6 s at the decode rate) */
+  chunkSamples: 131072,
+} as const;
+
+/** Onset-based beat detection settings */
+export const BEAT_DETECTION_CONFIG = {
+  /** Energy frame length (samples) */
+  frameSize: 1024,
+  /** Hop between frames (samples) */
+  hopSize: 512,
+  /** Frames either side averaged for the adaptive threshold */
+  thresholdFrames: 8,
+  /** Onset strength must exceed the local mean by this factor */
+  thresholdRatio: 1.5,
+  /** Ignore onsets weaker than this fraction of the strongest one */
+  minStrength: 0.1,
+  /** Minimum spacing between beats (ms), i.e. 240 BPM */
+  minIntervalMs: 250,
+} as const;
+
+/** Zoom levels for the waveform view */
+export const WAVEFORM_ZOOM_LEVELS = [1, 2, 4, 8] as const;
+export type WaveformZoom = (typeof WAVEFORM_ZOOM_LEVELS)[number];
+
+/** Snap choices shown under the waveform */
+export const LOOP_SNAP_OPTIONS: { value: LoopSnapMode; label: string }[] = [
+  { value: 'off', label: 'OFF' },
+  { value: 'zero', label: 'ZERO' },
+  { value: 'beat', label: 'BEAT' },
+];
+
+/** Longest saved loop name */
+export const MAX_LOOP_NAME_LENGTH = 30;
+
+/** Speed ladder (progressive-speed loop practice) settings */
+export const SPEED_LADDER_CONFIG = {
+  /** Rate of the first rung */
+  startRate: 0.5,
+  /** Clean passes needed before stepping up */
+  defaultPassesPerStep: 2,
+  /** Rate to stop climbing at */
+  defaultTargetRate: 1.0,
+  /** Pause at A between passes (seconds) */
+  defaultPauseSeconds: 0,
+  /** Practice days shown in a loop's speed history */
+  historyDays: 10,
+} as const;
+
+/** Clean passes per rung */
+export const LADDER_PASS_OPTIONS = [1, 2, 3, 4] as const;
+
+/** Ladder targets (must be in PLAYBACK_RATES) */
+export const LADDER_TARGET_OPTIONS = [0.75, 0.9, 1.0, 1.1, 1.25] as const;
+
+/** Pause between passes (seconds) */
+export const LADDER_PAUSE_OPTIONS = [0, 2, 4] as const;
@@ -0,0 +1,59 @@
+/**
+ * Song Import Configuration Constants
+ *
+ * File types, limits and defaults for importing songs from chart files.
+ */
+
+import type { SongImportFormat } from '@/types/songImport';
+
+/** Import limits and defaults */
+export const SONG_IMPORT_CONFIG = {
+  /** Most files read in one import */
+  maxFiles: 50,
+  /** Largest file read (bytes) */
+  maxFileBytes: 2 * 1024 * 1024,
+  /** Artist saved when a chart doesn't name one */
+  unknownArtist: 'Unknown Artist',
+} as const;
+
+/**
+ * Formats by file extension
+ * Plain .txt files are checked for ChordPro directives before being read as text.
+ */
+export const SONG_IMPORT_EXTENSIONS: Record<string, SongImportFormat> = {
+  cho: 'chordpro',
+  chordpro: 'chordpro',
+  chopro: 'chordpro',
+  crd: 'chordpro',
+  pro: 'chordpro',
+  txt: 'text',
+  tab: 'text',
+  musicxml: 'musicxml',
+  xml: 'musicxml',
+};
+
+/**
+ * Extensions that can't be read directly, with what to do instead
+ */
+export const SONG_IMPORT_UNSUPPORTED: Record<string, string> = {
+  gp: 'Export it from Guitar Pro as MusicXML to import it',
+  gp3: 'Export it from Guitar Pro as MusicXML to import it',
+  gp4: 'Export it from Guitar Pro as MusicXML to import it',
+  gp5: 'Export it from Guitar Pro as MusicXML to import it',
+  gpx: 'Export it from Guitar Pro as MusicXML to import it',
+  mxl: 'Compressed MusicXML isn\'t supported; export it as uncompressed .musicxml',
+};
+
+/**
+ * Document picker types
+ * Chart extensions have no registered MIME types, so any file can be picked
+ * and the format is detected from its name and contents.
+ */
+export const SONG_IMPORT_PICKER_TYPES = ['*/*'];
+
+/** Display names for the formats */
+export const SONG_IMPORT_FORMAT_LABELS: Record<SongImportFormat, string> = {
+  chordpro: 'ChordPro',
+  text: 'Text chart',
+  musicxml: 'MusicXML',
+};
@@ -21,7 +21,7 @@ export const SLOW_FFT_SIZE = 8192;
 /** Minimum clarity threshold for pitch detection (0-1) */
 export const MIN_CLARITY_THRESHOLD = 0.85;
 
-/** Minimum frequency to detect (Hz) - below Low B on 5-string bass */
+/** Minimum frequency to detect (Hz) - below Low B on 5/6-string bass */
 export const MIN_FREQUENCY = 25;
 
 /** Maximum frequency to detect (Hz) - above high E on guitar */
@@ -34,9 +34,108 @@ export const ANALYSIS_RATE = 30;
 // Reference Pitch
 // ============================================================================
 
-/** A4 reference frequency (Hz) - standard concert pitch */
+/** A4 reference frequency (Hz) - standard concert pitch (default calibration) */
 export const A4_FREQUENCY = 440;
 
+/** Lowest calibrated A4 reference (Hz) - baroque pitch */
+export const A4_MIN_FREQUENCY = 415;
+
+/** Highest calibrated A4 reference (Hz) */
+export const A4_MAX_FREQUENCY = 466;
+
+/** Auto-calibration: listens for a sustained A and sets the reference from it */
+export const CALIBRATION_CONFIG = {
+  /** Consecutive pitch frames needed (~1 second at ANALYSIS_RATE) */
+  minSamples: 30,
+  /** Maximum pitch spread across those frames (cents) */
+  maxSpreadCents: 4,
+  /** Give up if no steady A is heard within this time (ms) */
+  timeoutMs: 10000,
+};
+
+/** Intonation check: compares the 12th-fret harmonic with the fretted 12th-fret note */
+export const INTONATION_CONFIG = {
+  /** Consecutive pitch frames needed to capture a note (~2/3 second at ANALYSIS_RATE) */
+  minSamples: 20,
+  /** Maximum pitch spread across those frames (cents) */
+  maxSpreadCents: 3,
+  /** Fretted note within this many cents of the harmonic needs no adjustment */
+  toleranceCents: 2,
+};
+
+/** Strum check: finds every open string in the byte spectrum of a strummed chord */
+export const STRUM_CONFIG = {
+  /** Harmonics per string used to refine the estimate (higher = finer resolution) */
+  harmonics: 4,
+  /** Search window around each expected harmonic (cents) */
+  searchCents: 50,
+  /** Minimum spectrum level (0-255) for a peak to count */
+  minLevel: 90,
+  /** Peaks closer than this many bins to another string's harmonic are ambiguous */
+  minBinSeparation: 3,
+  /** Weight of each new frame in the running average (0-1) */
+  smoothing: 0.35,
+};
+
+/** Chord recognition: folds the byte spectrum into a chroma vector and matches chord templates */
+export const CHORD_RECOGNITION_CONFIG = {
+  /** Lowest frequency folded into the chroma (Hz, bins below are too coarse) */
+  minFrequency: 100,
+  /** Highest frequency folded into the chroma (Hz) */
+  maxFrequency: 2000,
+  /** Minimum spectrum level (0-255) for a peak to count */
+  minLevel: 90,
+  /** Weight of each new frame in the running chroma (0-1) */
+  smoothing: 0.3,
+  /** Relative strength of each successive harmonic in the chord templates */
+  harmonicDecay: 0.6,
+  /** Minimum template similarity (0-1) to show a chord */
+  minScore: 0.8,
+};
+
+/** Chord practice: prompts the song's chords one at a time */
+export const CHORD_PRACTICE_CONFIG = {
+  /** Similarity to the prompted chord (0-1) that counts as playing it */
+  hitScore: 0.85,
+  /** Consecutive frames at hitScore needed for a hit (~1/3 second at ANALYSIS_RATE) */
+  holdFrames: 10,
+  /** Time allowed per chord before it's marked missed (ms) */
+  timeoutMs: 8000,
+};
+
+/** Pitch trainer: scores how closely and steadily a target note is held */
+export const PITCH_TRAINER_CONFIG = {
+  /** Cent windows to choose from (either side of the target) */
+  windowOptions: [5, 10, 20],
+  /** Default cent window */
+  defaultWindowCents: 10,
+  /** Reference tone length (ms) */
+  toneMs: 1500,
+  /** Pause after the tone so its tail isn't scored as the user's note (ms) */
+  toneReleaseMs: 300,
+  /** How long a note is scored once the user starts it (ms) */
+  holdMs: 4000,
+  /** Give up when no note is heard this long after the tone (ms) */
+  listenTimeoutMs: 6000,
+  /** Minimum pitch frames in a hold for a score (~1 second at ANALYSIS_RATE) */
+  minSamples: 30,
+  /** Average deviation at which closeness scores nothing (cents) */
+  maxMeanCents: 50,
+  /** Spread at which steadiness scores nothing (cents) */
+  maxSpreadCents: 25,
+  /** Seconds of pitch shown in the trace */
+  traceSeconds: 5,
+  /** Deviation at the top and bottom edges of the trace (cents) */
+  traceRangeCents: 50,
+};
+
+/** Trainer note range (MIDI, inclusive) per trainer instrument */
+export const PITCH_TRAINER_RANGES = {
+  vocals: { label: 'VOICE', lowMidi: 48, highMidi: 72, toneOctaveShift: 0 }, // C3-C5
+  // Reference tone an octave up: phone speakers barely reproduce low bass
+  bass: { label: 'FRETLESS', lowMidi: 28, highMidi: 55, toneOctaveShift: 1 }, // E1-G3
+};
+
 /** MIDI note number for A4 */
 export const A4_MIDI_NOTE = 69;
 
@@ -68,6 +167,22 @@ export const MODERATELY_OFF_THRESHOLD = 35;
 
 // Beyond 35 cents = far off (red)
 
+// ============================================================================
+// Strobe Display
+// ============================================================================
+
+/** Strobe tuner: bands scroll at a speed proportional to the cents deviation */
+export const STROBE_CONFIG = {
+  /** Width of one band (px) - a light/dark pair repeats every 2 bands */
+  bandWidth: 12,
+  /** Scroll speed per cent of deviation (px/s) - 1 cent is clearly visible */
+  pxPerSecondPerCent: 8,
+  /** Deviation beyond which the bands stop speeding up (cents) */
+  maxCents: 50,
+  /** Speed multiplier per row, top to bottom (finest resolution first) */
+  rowMultipliers: [4, 2, 1],
+};
+
 // ============================================================================
 // Kalman Filter Parameters
 // ============================================================================
@@ -89,7 +204,10 @@ export const KALMAN_CONFIG = {
 // Instrument Configurations
 // ============================================================================
 
-export type InstrumentType = 'guitar' | 'bass4' | 'bass5';
+export type InstrumentType = 'guitar' | 'guitar7' | 'bass4' | 'bass5' | 'bass6';
+
+/** All tuner instruments, in selector order */
+export const INSTRUMENT_TYPES: InstrumentType[] = ['guitar', 'guitar7', 'bass4', 'bass5', 'bass6'];
 
 export interface StringConfig {
   /** String number (1 = highest pitch) */
@@ -98,7 +216,7 @@ export interface StringConfig {
   note: string;
   /** Octave number */
   octave: number;
-  /** Target frequency in Hz */
+  /** Target frequency in Hz (library tunings are at A4 = 440; see getReferenceStrings) */
   frequency: number;
 }
 
@@ -129,15 +247,40 @@ export const BASS_5_STANDARD: StringConfig[] = [
   { number: 5, note: 'B', octave: 0, frequency: 30.87 },
 ];
 
-/** Get string configuration for instrument type */
+/** Guitar 7-string standard tuning (B-E-A-D-G-B-E) */
+export const GUITAR_7_STANDARD: StringConfig[] = [
+  { number: 1, note: 'E', octave: 4, frequency: 329.63 },
+  { number: 2, note: 'B', octave: 3, frequency: 246.94 },
+  { number: 3, note: 'G', octave: 3, frequency: 196.00 },
+  { number: 4, note: 'D', octave: 3, frequency: 146.83 },
+  { number: 5, note: 'A', octave: 2, frequency: 110.00 },
+  { number: 6, note: 'E', octave: 2, frequency: 82.41 },
+  { number: 7, note: 'B', octave: 1, frequency: 61.74 },
+];
+
+/** Bass 6-string standard tuning (B-E-A-D-G-C) */
+export const BASS_6_STANDARD: StringConfig[] = [
+  { number: 1, note: 'C', octave: 3, frequency: 130.81 },
+  { number: 2, note: 'G', octave: 2, frequency: 98.00 },
+  { number: 3, note: 'D', octave: 2, frequency: 73.42 },
+  { number: 4, note: 'A', octave: 1, frequency: 55.00 },
+  { number: 5, note: 'E', octave: 1, frequency: 41.20 },
+  { number: 6, note: 'B', octave: 0, frequency: 30.87 },
+];
+
+/** Get standard tuning string configuration for instrument type */
 export function getInstrumentStrings(instrument: InstrumentType): StringConfig[] {
   switch (instrument) {
     case 'guitar':
       return GUITAR_STANDARD;
+    case 'guitar7':
+      return GUITAR_7_STANDARD;
     case 'bass4':
       return BASS_4_STANDARD;
     case 'bass5':
       return BASS_5_STANDARD;
+    case 'bass6':
+      return BASS_6_STANDARD;
     default:
       return GUITAR_STANDARD;
   }
@@ -148,15 +291,103 @@ export function getInstrumentName(instrument: InstrumentType): string {
   switch (instrument) {
     case 'guitar':
       return 'Guitar';
+    case 'guitar7':
+      return '7-String Guitar';
     case 'bass4':
       return '4-String Bass';
     case 'bass5':
       return '5-String Bass';
+    case 'bass6':
+      return '6-String Bass';
     default:
       return 'Guitar';
   }
 }
 
+// ============================================================================
+// Tuning Library
+// ============================================================================
+
+export interface TunerTuning {
+  /** Tuning ID (library IDs match data/chords tuning IDs, e.g. "dropD") */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Instrument the tuning is for */
+  instrument: InstrumentType;
+  /** Strings, highest pitch first (string 1) */
+  strings: StringConfig[];
+  /** Whether the tuning was created by the user */
+  isCustom: boolean;
+}
+
+/**
+ * Build string configurations from open-string notes
+ * @param notes Scientific pitch notation, low string to high (e.g., ['D2', 'A2', ...])
+ * @returns Strings numbered from the highest pitch, or null if a note can't be read
+ */
+export function createStrings(notes: string[]): StringConfig[] | null {
+  const strings: StringConfig[] = [];
+
+  for (const value of notes) {
+    const match = value.match(/^([A-G])([#b]?)(-?\d)$/);
+    if (!match) return null;
+
+    const [, letter, accidental, octaveText] = match;
+    const octave = parseInt(octaveText, 10);
+    const offset = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+    const midi = (octave + 1) * 12 + NOTE_NAMES.indexOf(letter as (typeof NOTE_NAMES)[number]) + offset;
+    const frequency = Math.round(midiToFrequency(midi) * 100) / 100;
+
+    strings.push({
+      number: 0,
+      note: NOTE_NAMES[((midi % 12) + 12) % 12],
+      octave: Math.floor(midi / 12) - 1,
+      frequency,
+    });
+  }
+
+  return strings.reverse().map((str, index) => ({ ...str, number: index + 1 }));
+}
+
+/** Library tuning (notes low to high) */
+function libraryTuning(
+  id: string,
+  name: string,
+  instrument: InstrumentType,
+  notes: string[]
+): TunerTuning {
+  return { id, name, instrument, strings: createStrings(notes) ?? [], isCustom: false };
+}
+
+/** Built-in tunings per instrument (standard tuning first) */
+export const TUNING_LIBRARY: TunerTuning[] = [
+  { id: 'standard', name: 'Standard', instrument: 'guitar', strings: GUITAR_STANDARD, isCustom: false },
+  libraryTuning('dropD', 'Drop D', 'guitar', ['D2', 'A2', 'D3', 'G3', 'B3', 'E4']),
+  libraryTuning('dropC', 'Drop C', 'guitar', ['C2', 'G2', 'C3', 'F3', 'A3', 'D4']),
+  libraryTuning('halfStepDown', 'Half Step Down', 'guitar', ['D#2', 'G#2', 'C#3', 'F#3', 'A#3', 'D#4']),
+  libraryTuning('wholeStepDown', 'Whole Step Down', 'guitar', ['D2', 'G2', 'C3', 'F3', 'A3', 'D4']),
+  libraryTuning('dadgad', 'DADGAD', 'guitar', ['D2', 'A2', 'D3', 'G3', 'A3', 'D4']),
+  libraryTuning('openG', 'Open G', 'guitar', ['D2', 'G2', 'D3', 'G3', 'B3', 'D4']),
+  libraryTuning('openD', 'Open D', 'guitar', ['D2', 'A2', 'D3', 'F#3', 'A3', 'D4']),
+  libraryTuning('openE', 'Open E', 'guitar', ['E2', 'B2', 'E3', 'G#3', 'B3', 'E4']),
+
+  { id: 'standard', name: 'Standard', instrument: 'guitar7', strings: GUITAR_7_STANDARD, isCustom: false },
+  libraryTuning('dropA', 'Drop A', 'guitar7', ['A1', 'E2', 'A2', 'D3', 'G3', 'B3', 'E4']),
+  libraryTuning('halfStepDown', 'Half Step Down', 'guitar7', ['A#1', 'D#2', 'G#2', 'C#3', 'F#3', 'A#3', 'D#4']),
+
+  { id: 'standard', name: 'Standard', instrument: 'bass4', strings: BASS_4_STANDARD, isCustom: false },
+  libraryTuning('dropD', 'Drop D', 'bass4', ['D1', 'A1', 'D2', 'G2']),
+  libraryTuning('dropC', 'Drop C', 'bass4', ['C1', 'G1', 'C2', 'F2']),
+  libraryTuning('halfStepDown', 'Half Step Down', 'bass4', ['D#1', 'G#1', 'C#2', 'F#2']),
+  libraryTuning('wholeStepDown', 'Whole Step Down', 'bass4', ['D1', 'G1', 'C2', 'F2']),
+
+  { id: 'standard', name: 'Standard', instrument: 'bass5', strings: BASS_5_STANDARD, isCustom: false },
+  libraryTuning('halfStepDown', 'Half Step Down', 'bass5', ['A#0', 'D#1', 'G#1', 'C#2', 'F#2']),
+
+  { id: 'standard', name: 'Standard', instrument: 'bass6', strings: BASS_6_STANDARD, isCustom: false },
+];
+
 // ============================================================================
 // Frequency Utilities
 // ============================================================================
@@ -164,33 +395,36 @@ export function getInstrumentName(instrument: InstrumentType): string {
 /**
  * Convert frequency to MIDI note number (continuous, not rounded)
  * @param frequency Frequency in Hz
+ * @param a4Frequency Calibrated A4 reference in Hz
  * @returns MIDI note number (can be fractional)
  */
-export function frequencyToMidi(frequency: number): number {
-  return 12 * Math.log2(frequency / A4_FREQUENCY) + A4_MIDI_NOTE;
+export function frequencyToMidi(frequency: number, a4Frequency: number = A4_FREQUENCY): number {
+  return 12 * Math.log2(frequency / a4Frequency) + A4_MIDI_NOTE;
 }
 
 /**
  * Convert MIDI note number to frequency
  * @param midi MIDI note number
+ * @param a4Frequency Calibrated A4 reference in Hz
  * @returns Frequency in Hz
  */
-export function midiToFrequency(midi: number): number {
-  return A4_FREQUENCY * Math.pow(2, (midi - A4_MIDI_NOTE) / 12);
+export function midiToFrequency(midi: number, a4Frequency: number = A4_FREQUENCY): number {
+  return a4Frequency * Math.pow(2, (midi - A4_MIDI_NOTE) / 12);
 }
 
 /**
  * Convert frequency to note information
  * @param frequency Frequency in Hz
+ * @param a4Frequency Calibrated A4 reference in Hz
  * @returns Note name, octave, and cents deviation
  */
-export function frequencyToNote(frequency: number): {
+export function frequencyToNote(frequency: number, a4Frequency: number = A4_FREQUENCY): {
   note: string;
   octave: number;
   cents: number;
   midiNote: number;
 } {
-  const midiNote = frequencyToMidi(frequency);
+  const midiNote = frequencyToMidi(frequency, a4Frequency);
   const roundedMidi = Math.round(midiNote);
   const cents = (midiNote - roundedMidi) * 100;
   const noteIndex = ((roundedMidi % 12) + 12) % 12; // Handle negative modulo
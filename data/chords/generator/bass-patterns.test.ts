@@ -0,0 +1,154 @@
+/**
+ * Bass Pattern Tests
+ * Validates root-fifth-octave shapes and arpeggio boxes for bass
+ */
+
+import { generateBassPatterns, BASS_STANDARD_TUNING } from './bass-patterns';
+import { generateInstrumentChord } from './index';
+import { getNoteAtPosition } from './fretboard';
+import { CHORD_FORMULAS, getNoteIndex, type NoteName } from './music-theory';
+import type { ChordFingering } from '@/types/chords';
+
+/** All sounding notes of a pattern (frets + additionalNotes) */
+const getPatternNotes = (
+  pattern: ChordFingering,
+  tuning: NoteName[] = BASS_STANDARD_TUNING,
+): NoteName[] => {
+  const notes: NoteName[] = [];
+  pattern.frets.forEach((fret, string) => {
+    if (fret !== null) notes.push(getNoteAtPosition(string, fret, tuning));
+  });
+  pattern.additionalNotes?.forEach((note) => {
+    notes.push(getNoteAtPosition(note.string, note.fret, tuning));
+  });
+  return notes;
+};
+
+// ============================================================================
+// ROOT-FIFTH-OCTAVE
+// ============================================================================
+
+describe('root-fifth-octave patterns', () => {
+  test('G major starts with the classic low-E-string shape', () => {
+    const [first] = generateBassPatterns('G', CHORD_FORMULAS.major);
+    expect(first.name).toBe('Root-5th-Octave');
+    expect(first.frets).toEqual([3, 5, 5, null]);
+  });
+
+  test('open E uses open low string', () => {
+    const [first] = generateBassPatterns('E', CHORD_FORMULAS.major);
+    expect(first.frets).toEqual([0, 2, 2, null]);
+    expect(first.baseFret).toBeUndefined();
+  });
+
+  test('diminished chords use the flat fifth', () => {
+    const patterns = generateBassPatterns('B', CHORD_FORMULAS.diminished);
+    const rootFifth = patterns.filter((p) => p.name === 'Root-5th-Octave');
+    rootFifth.forEach((pattern) => {
+      expect(getPatternNotes(pattern)).toContain('F');
+    });
+  });
+
+  test('patterns are marked easy', () => {
+    generateBassPatterns('A', CHORD_FORMULAS.minor)
+      .filter((p) => p.name === 'Root-5th-Octave')
+      .forEach((p) => expect(p.difficulty).toBe('easy'));
+  });
+});
+
+// ============================================================================
+// ARPEGGIO BOXES
+// ============================================================================
+
+describe('arpeggio boxes', () => {
+  test.each([
+    ['G', 'major'],
+    ['A', 'minor'],
+    ['C', '7'],
+    ['B', 'diminished'],
+  ])('%s %s box only plays chord tones', (root, quality) => {
+    const formula = CHORD_FORMULAS[quality];
+    const allowed = new Set(formula.map((i) => (getNoteIndex(root) + i) % 12));
+    const boxes = generateBassPatterns(root as NoteName, formula).filter(
+      (p) => p.name === 'Arpeggio Box',
+    );
+
+    expect(boxes.length).toBeGreaterThan(0);
+    boxes.forEach((box) => {
+      getPatternNotes(box).forEach((note) => {
+        expect(allowed.has(getNoteIndex(note))).toBe(true);
+      });
+    });
+  });
+
+  test('triad boxes contain root, third and fifth', () => {
+    const box = generateBassPatterns('G', CHORD_FORMULAS.major).find(
+      (p) => p.name === 'Arpeggio Box',
+    )!;
+    expect(new Set(getPatternNotes(box))).toEqual(new Set(['G', 'B', 'D']));
+  });
+
+  test('boxes with several notes on a string use additionalNotes', () => {
+    const box = generateBassPatterns('G', CHORD_FORMULAS.major).find(
+      (p) => p.name === 'Arpeggio Box',
+    )!;
+    expect(box.additionalNotes).toBeDefined();
+    box.additionalNotes!.forEach((note) => {
+      expect(box.frets[note.string]).not.toBeNull();
+    });
+  });
+
+  test('boxes fit inside a four-fret diagram', () => {
+    generateBassPatterns('C', CHORD_FORMULAS['7']).forEach((pattern) => {
+      const frets = [
+        ...pattern.frets,
+        ...(pattern.additionalNotes ?? []).map((n) => n.fret),
+      ].filter((f): f is number => f !== null && f > 0);
+      expect(Math.max(...frets) - Math.min(...frets)).toBeLessThan(4);
+    });
+  });
+});
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+describe('generateBassPatterns options', () => {
+  test('respects maxPatterns', () => {
+    expect(generateBassPatterns('A', CHORD_FORMULAS.major, BASS_STANDARD_TUNING, 2)).toHaveLength(2);
+  });
+
+  test('every pattern has one fret entry per string', () => {
+    generateBassPatterns('D', CHORD_FORMULAS.minor).forEach((p) => {
+      expect(p.frets).toHaveLength(4);
+    });
+  });
+
+  test('works in drop D bass tuning', () => {
+    const dropD: NoteName[] = ['D', 'A', 'D', 'G'];
+    const [first] = generateBassPatterns('D', CHORD_FORMULAS.major, dropD);
+    expect(first.frets[0]).toBe(0);
+    expect(getPatternNotes(first, dropD)).toEqual(['D', 'A', 'D']);
+  });
+});
+
+// ============================================================================
+// generateInstrumentChord
+// ============================================================================
+
+describe('generateInstrumentChord', () => {
+  test('bass returns 4-string patterns', () => {
+    const result = generateInstrumentChord('Am', 'bass');
+    expect(result.chord?.quality).toBe('minor');
+    expect(result.chord?.voicings[0].frets).toHaveLength(4);
+  });
+
+  test('guitar matches generateChord', () => {
+    const result = generateInstrumentChord('C', 'guitar');
+    expect(result.chord?.voicings[0].frets).toHaveLength(6);
+  });
+
+  test('invalid chord returns null', () => {
+    expect(generateInstrumentChord('XYZ', 'bass').chord).toBeNull();
+  });
+});
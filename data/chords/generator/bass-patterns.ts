@@ -0,0 +1,247 @@
+/**
+ * Bass Pattern Generator
+ * Generates root/fifth/octave shapes and arpeggio boxes for bass
+ * Bass lines outline chords one note at a time, so patterns may place
+ * several notes on a string (see ChordFingering.additionalNotes)
+ */
+
+import type { ChordFingering, FretNote } from '@/types/chords';
+import { NoteName, getNoteIndex } from './music-theory';
+
+/** Standard 4-string bass tuning (low E to G) */
+export const BASS_STANDARD_TUNING: NoteName[] = ['E', 'A', 'D', 'G'];
+
+/** Highest fret used as a pattern root */
+const MAX_ROOT_FRET = 12;
+
+/** Arpeggio box width in frets (one finger per fret) */
+const BOX_WIDTH = 4;
+
+/** A fretted note with its absolute pitch (semitones above the lowest open string) */
+interface PitchedNote extends FretNote {
+  pitch: number;
+}
+
+/**
+ * Absolute pitch of each open string, relative to the lowest string
+ * Each string is assumed to sit within an octave above the one below it
+ */
+function getOpenPitches(tuning: NoteName[]): number[] {
+  const pitches = [0];
+  for (let i = 1; i < tuning.length; i++) {
+    const interval =
+      (getNoteIndex(tuning[i]) - getNoteIndex(tuning[i - 1]) + 12) % 12 || 12;
+    pitches.push(pitches[i - 1] + interval);
+  }
+  return pitches;
+}
+
+/**
+ * Find the fret on a string that sounds an exact pitch (null if out of range)
+ */
+function fretForPitch(
+  openPitches: number[],
+  string: number,
+  pitch: number,
+): number | null {
+  const fret = pitch - openPitches[string];
+  return fret >= 0 && fret <= MAX_ROOT_FRET + BOX_WIDTH ? fret : null;
+}
+
+/**
+ * Convert a list of notes into a one-entry-per-string fingering
+ * The lowest note on each string goes in `frets`, the rest in `additionalNotes`
+ */
+function notesToFingering(
+  notes: PitchedNote[],
+  stringCount: number,
+  id: string,
+  name: string,
+  difficulty: ChordFingering['difficulty'],
+): ChordFingering {
+  const sorted = [...notes].sort((a, b) => a.pitch - b.pitch);
+  const frets: (number | null)[] = Array(stringCount).fill(null);
+  const fingers: (number | null)[] = Array(stringCount).fill(null);
+  const additionalNotes: FretNote[] = [];
+
+  const fretted = sorted.filter((n) => n.fret > 0).map((n) => n.fret);
+  const lowestFret = fretted.length > 0 ? Math.min(...fretted) : 1;
+
+  for (const note of sorted) {
+    // One finger per fret, anchored on the lowest fretted note
+    const finger =
+      note.fret > 0 ? Math.min(note.fret - lowestFret + 1, 4) : undefined;
+
+    if (frets[note.string] === null) {
+      frets[note.string] = note.fret;
+      fingers[note.string] = finger ?? null;
+    } else {
+      additionalNotes.push({ string: note.string, fret: note.fret, finger });
+    }
+  }
+
+  const maxFret = Math.max(0, ...sorted.map((n) => n.fret));
+
+  return {
+    id,
+    name,
+    frets,
+    fingers,
+    additionalNotes: additionalNotes.length > 0 ? additionalNotes : undefined,
+    baseFret: maxFret > 4 ? lowestFret : undefined,
+    difficulty,
+  };
+}
+
+/**
+ * Root-fifth-octave shape starting from a root on a given string
+ * Fifth goes on the next string up, octave on the one after
+ * Uses the chord's own fifth (b5/#5 for diminished/augmented chords)
+ */
+function buildRootFifthOctave(
+  openPitches: number[],
+  rootString: number,
+  rootFret: number,
+  fifthInterval: number,
+): PitchedNote[] | null {
+  if (rootString + 2 >= openPitches.length) return null;
+
+  const rootPitch = openPitches[rootString] + rootFret;
+  const fifthFret = fretForPitch(
+    openPitches,
+    rootString + 1,
+    rootPitch + fifthInterval,
+  );
+  const octaveFret = fretForPitch(openPitches, rootString + 2, rootPitch + 12);
+  if (fifthFret === null || octaveFret === null) return null;
+
+  const frets = [rootFret, fifthFret, octaveFret].filter((f) => f > 0);
+  if (frets.length > 0 && Math.max(...frets) - Math.min(...frets) >= BOX_WIDTH) {
+    return null;
+  }
+
+  return [
+    { string: rootString, fret: rootFret, pitch: rootPitch },
+    { string: rootString + 1, fret: fifthFret, pitch: rootPitch + fifthInterval },
+    { string: rootString + 2, fret: octaveFret, pitch: rootPitch + 12 },
+  ];
+}
+
+/**
+ * One-octave arpeggio inside a BOX_WIDTH-fret window containing the root
+ * Tries windows starting one fret below and at the root; keeps the one
+ * that covers the most chord tones
+ */
+function buildArpeggioBox(
+  openPitches: number[],
+  rootString: number,
+  rootFret: number,
+  intervals: number[],
+): PitchedNote[] | null {
+  const rootPitch = openPitches[rootString] + rootFret;
+  const targetPitches = [...new Set([...intervals.map((i) => i % 12), 12])]
+    .map((i) => rootPitch + i)
+    .sort((a, b) => a - b);
+
+  let best: PitchedNote[] | null = null;
+
+  for (const start of [rootFret - 1, rootFret]) {
+    const windowStart = Math.max(0, start);
+    const windowEnd = windowStart + BOX_WIDTH - 1;
+    const notes: PitchedNote[] = [];
+
+    for (const pitch of targetPitches) {
+      // Lowest string that can reach this pitch inside the window
+      for (let string = rootString; string < openPitches.length; string++) {
+        const fret = pitch - openPitches[string];
+        const inWindow =
+          (fret >= windowStart && fret <= windowEnd) ||
+          (fret === 0 && windowStart <= 1);
+        if (inWindow) {
+          notes.push({ string, fret, pitch });
+          break;
+        }
+      }
+    }
+
+    if (!best || notes.length > best.length) {
+      best = notes;
+    }
+  }
+
+  // Needs every chord tone plus the octave (one may be dropped from 4+ note chords)
+  const required =
+    targetPitches.length > 4 ? targetPitches.length - 1 : targetPitches.length;
+  return best && best.length >= required ? best : null;
+}
+
+/**
+ * Generate bass patterns for a chord from its formula intervals
+ * Alternates root-fifth-octave shapes (easiest) with arpeggio boxes,
+ * each ordered from the lowest neck position up
+ */
+export function generateBassPatterns(
+  root: NoteName,
+  intervals: number[],
+  tuning: NoteName[] = BASS_STANDARD_TUNING,
+  maxPatterns: number = 5,
+): ChordFingering[] {
+  const openPitches = getOpenPitches(tuning);
+  const rootIndex = getNoteIndex(root);
+  const fifthInterval = intervals.find((i) => i >= 6 && i <= 8) ?? 7;
+
+  // All root positions on the neck, low position first, low string first
+  const roots: { string: number; fret: number }[] = [];
+  for (let string = 0; string < tuning.length; string++) {
+    const firstFret = (rootIndex - getNoteIndex(tuning[string]) + 12) % 12;
+    for (let fret = firstFret; fret <= MAX_ROOT_FRET; fret += 12) {
+      roots.push({ string, fret });
+    }
+  }
+  roots.sort((a, b) => a.fret - b.fret || a.string - b.string);
+
+  const patterns: ChordFingering[] = [];
+  const seen = new Set<string>();
+
+  const addPattern = (
+    notes: PitchedNote[] | null,
+    kind: 'r58' | 'arp',
+  ): void => {
+    if (!notes) return;
+    const key = notes.map((n) => `${n.string}:${n.fret}`).sort().join('|');
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const isRootFifth = kind === 'r58';
+    patterns.push(
+      notesToFingering(
+        notes,
+        tuning.length,
+        `bass-${kind}-${patterns.length}`,
+        isRootFifth ? 'Root-5th-Octave' : 'Arpeggio Box',
+        isRootFifth ? 'easy' : 'intermediate',
+      ),
+    );
+  };
+
+  for (const { string, fret } of roots) {
+    addPattern(
+      buildRootFifthOctave(openPitches, string, fret, fifthInterval),
+      'r58',
+    );
+  }
+  for (const { string, fret } of roots) {
+    addPattern(buildArpeggioBox(openPitches, string, fret, intervals), 'arp');
+  }
+
+  // Interleave so both pattern types appear near the top of the list
+  const rootFifth = patterns.filter((p) => p.name === 'Root-5th-Octave');
+  const arpeggios = patterns.filter((p) => p.name === 'Arpeggio Box');
+  const ordered: ChordFingering[] = [];
+  for (let i = 0; i < Math.max(rootFifth.length, arpeggios.length); i++) {
+    if (rootFifth[i]) ordered.push(rootFifth[i]);
+    if (arpeggios[i]) ordered.push(arpeggios[i]);
+  }
+
+  return ordered.slice(0, maxPatterns);
+}
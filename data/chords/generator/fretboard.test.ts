@@ -10,6 +10,7 @@ import {
   STRING_COUNT,
   getNoteAtPosition,
   findNotePositions,
+  findScalePositions,
   getChordPositionsOnString,
   calculateFretSpan,
   isPlayable,
@@ -224,6 +225,56 @@ describe('findNotePositions', () => {
   });
 });
 
+// ============================================================================
+// findScalePositions TESTS
+// ============================================================================
+
+describe('findScalePositions', () => {
+  const aMinorPentatonic = ['A', 'C', 'D', 'E', 'G'];
+
+  test('returns only scale notes', () => {
+    const allowed = new Set(aMinorPentatonic);
+    findScalePositions(aMinorPentatonic).forEach((pos) => {
+      expect(allowed.has(pos.note)).toBe(true);
+    });
+  });
+
+  test('covers every occurrence of each note', () => {
+    const positions = findScalePositions(aMinorPentatonic, 12);
+    const expected = aMinorPentatonic.reduce(
+      (total, note) => total + findNotePositions(note, 12).length,
+      0,
+    );
+    expect(positions).toHaveLength(expected);
+  });
+
+  test('includes the classic first box at fret 5', () => {
+    const positions = findScalePositions(aMinorPentatonic, 12);
+    const lowString = positions.filter((p) => p.string === 0).map((p) => p.fret);
+    expect(lowString).toEqual(expect.arrayContaining([5, 8]));
+  });
+
+  test('is sorted by string then fret', () => {
+    const positions = findScalePositions(['C', 'E', 'G'], 5);
+    for (let i = 1; i < positions.length; i++) {
+      const prev = positions[i - 1];
+      const curr = positions[i];
+      expect(prev.string < curr.string || (prev.string === curr.string && prev.fret < curr.fret)).toBe(true);
+    }
+  });
+
+  test('ignores duplicate and enharmonic notes', () => {
+    expect(findScalePositions(['Bb', 'A#', 'Bb'], 12)).toEqual(findNotePositions('A#', 12));
+  });
+
+  test('uses the given tuning', () => {
+    const ukulele: NoteName[] = ['G', 'C', 'E', 'A'];
+    const positions = findScalePositions(['C'], 12, ukulele);
+    expect(positions.some((p) => p.string === 1 && p.fret === 0)).toBe(true);
+    expect(positions.every((p) => p.string < 4)).toBe(true);
+  });
+});
+
 // ============================================================================
 // getChordPositionsOnString TESTS
 // ============================================================================
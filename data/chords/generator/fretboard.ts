@@ -1,6 +1,7 @@
 /**
  * Fretboard Model
  * Maps notes to positions on the guitar fretboard
+ * Functions default to standard tuning; pass open-string notes for alternate tunings
  */
 
 import { NOTES, NoteName, transposeNote, getNoteIndex } from './music-theory';
@@ -24,21 +25,25 @@ export interface FretPosition {
   note: NoteName;
 }
 
-/** Cached fretboard map for performance */
-let fretboardCache: Map<string, FretPosition[]> | null = null;
+/** Cached fretboard maps for performance (keyed by tuning) */
+const fretboardCache = new Map<string, Map<string, FretPosition[]>>();
 
 /**
  * Get the note at a specific fretboard position
  * Returns 'E' as fallback for invalid string index (with dev warning)
  */
-export function getNoteAtPosition(string: number, fret: number): NoteName {
-  if (string < 0 || string >= STRING_COUNT) {
+export function getNoteAtPosition(
+  string: number,
+  fret: number,
+  tuning: NoteName[] = STANDARD_TUNING,
+): NoteName {
+  if (string < 0 || string >= tuning.length) {
     if (__DEV__) {
       console.warn(`[Fretboard] Invalid string index: ${string}`);
     }
     return 'E'; // Safe fallback
   }
-  const openNote = STANDARD_TUNING[string];
+  const openNote = tuning[string];
   return transposeNote(openNote, fret);
 }
 
@@ -48,12 +53,13 @@ export function getNoteAtPosition(string: number, fret: number): NoteName {
 export function findNotePositions(
   note: string,
   maxFret: number = MAX_FRET,
+  tuning: NoteName[] = STANDARD_TUNING,
 ): FretPosition[] {
   const positions: FretPosition[] = [];
   const targetIndex = getNoteIndex(note);
 
-  for (let string = 0; string < STRING_COUNT; string++) {
-    const openNoteIndex = getNoteIndex(STANDARD_TUNING[string]);
+  for (let string = 0; string < tuning.length; string++) {
+    const openNoteIndex = getNoteIndex(tuning[string]);
 
     for (let fret = 0; fret <= maxFret; fret++) {
       const noteAtFret = (openNoteIndex + fret) % 12;
@@ -71,30 +77,52 @@ export function findNotePositions(
   return positions;
 }
 
+/**
+ * Find every position of a set of notes (scale or arpeggio) across the neck
+ * Sorted by string, then fret
+ */
+export function findScalePositions(
+  notes: string[],
+  maxFret: number = MAX_FRET,
+  tuning: NoteName[] = STANDARD_TUNING,
+): FretPosition[] {
+  const uniqueIndices = [...new Set(notes.map(getNoteIndex))];
+  return uniqueIndices
+    .flatMap((index) => findNotePositions(NOTES[index], maxFret, tuning))
+    .sort((a, b) => a.string - b.string || a.fret - b.fret);
+}
+
 /**
  * Build a complete fretboard map (cached for performance)
  * Maps note names to all their positions on the fretboard
  */
-export function buildFretboardMap(): Map<string, FretPosition[]> {
-  if (fretboardCache) {
-    return fretboardCache;
+export function buildFretboardMap(
+  tuning: NoteName[] = STANDARD_TUNING,
+): Map<string, FretPosition[]> {
+  const cacheKey = tuning.join('-');
+  const cached = fretboardCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
 
   const map = new Map<string, FretPosition[]>();
 
   for (const note of NOTES) {
-    map.set(note, findNotePositions(note));
+    map.set(note, findNotePositions(note, MAX_FRET, tuning));
   }
 
-  fretboardCache = map;
+  fretboardCache.set(cacheKey, map);
   return map;
 }
 
 /**
  * Get positions for a note from the cached map
  */
-export function getPositionsForNote(note: string): FretPosition[] {
-  const map = buildFretboardMap();
+export function getPositionsForNote(
+  note: string,
+  tuning: NoteName[] = STANDARD_TUNING,
+): FretPosition[] {
+  const map = buildFretboardMap(tuning);
   const normalizedNote = NOTES[getNoteIndex(note)];
   return map.get(normalizedNote) || [];
 }
@@ -107,9 +135,10 @@ export function getChordPositionsOnString(
   stringIndex: number,
   chordNotes: NoteName[],
   maxFret: number = MAX_FRET,
+  tuning: NoteName[] = STANDARD_TUNING,
 ): FretPosition[] {
   // Bounds check for stringIndex
-  if (stringIndex < 0 || stringIndex >= STRING_COUNT) {
+  if (stringIndex < 0 || stringIndex >= tuning.length) {
     if (__DEV__) {
       console.warn(`[Fretboard] Invalid stringIndex: ${stringIndex}`);
     }
@@ -117,7 +146,7 @@ export function getChordPositionsOnString(
   }
 
   const positions: FretPosition[] = [];
-  const openNote = STANDARD_TUNING[stringIndex];
+  const openNote = tuning[stringIndex];
   const openNoteIndex = getNoteIndex(openNote);
 
   // Convert chord notes to indices for fast lookup
@@ -171,11 +200,14 @@ export function isPlayable(
 /**
  * Get the bass note (lowest sounding note) from a voicing
  */
-export function getBassNote(frets: (number | null)[]): NoteName | null {
-  for (let string = 0; string < STRING_COUNT; string++) {
+export function getBassNote(
+  frets: (number | null)[],
+  tuning: NoteName[] = STANDARD_TUNING,
+): NoteName | null {
+  for (let string = 0; string < tuning.length; string++) {
     const fret = frets[string];
-    if (fret !== null) {
-      return getNoteAtPosition(string, fret);
+    if (fret !== null && fret !== undefined) {
+      return getNoteAtPosition(string, fret, tuning);
     }
   }
   return null;
@@ -217,14 +249,15 @@ export function getBaseFret(frets: (number | null)[]): number {
 export function isOpenStringChordTone(
   stringIndex: number,
   chordNotes: NoteName[],
+  tuning: NoteName[] = STANDARD_TUNING,
 ): boolean {
-  if (stringIndex < 0 || stringIndex >= STRING_COUNT) {
+  if (stringIndex < 0 || stringIndex >= tuning.length) {
     if (__DEV__) {
       console.warn(`[Fretboard] Invalid stringIndex: ${stringIndex}`);
     }
     return false;
   }
-  const openNote = STANDARD_TUNING[stringIndex];
+  const openNote = tuning[stringIndex];
   const openNoteIndex = getNoteIndex(openNote);
   return chordNotes.some((note) => getNoteIndex(note) === openNoteIndex);
 }
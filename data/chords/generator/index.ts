@@ -3,10 +3,16 @@
  * Generates guitar chord fingerings algorithmically for any chord
  */
 
-import { ChordDefinition, ChordFingering, BarrePosition } from '@/types/chords';
+import {
+  ChordDefinition,
+  ChordFingering,
+  BarrePosition,
+  FretboardInstrument,
+} from '@/types/chords';
 import {
   NoteName,
   getChordNotes,
+  getComplexChordFormula,
   QUALITY_TO_FORMULA,
   CHORD_FORMULAS,
   getNoteIndex,
@@ -14,10 +20,15 @@ import {
 import {
   generateVoicings,
   generateVoicingsWithFallback,
+  GeneratorConstraints,
+  INSTRUMENT_CONSTRAINTS,
   VoicingCandidate,
   detectBarres,
 } from './voicing-generator';
 import { rankVoicings, VoicingScore } from './voicing-scorer';
+import { STANDARD_TUNING } from './fretboard';
+import { resolveTuning } from './tunings';
+import { generateBassPatterns } from './bass-patterns';
 
 /** Valid root notes for validation */
 const VALID_ROOTS = [
@@ -254,6 +265,13 @@ function candidateToFingering(
   };
 }
 
+/**
+ * Build the canonical (normalized, lowercase) name for a parsed chord
+ */
+function getCanonicalName(parsed: { root: NoteName; quality: string }): string {
+  return `${parsed.root}${parsed.quality === 'major' ? '' : parsed.quality}`.toLowerCase();
+}
+
 /**
  * Determine the chord quality category for the type field
  */
@@ -288,10 +306,13 @@ function getQualityCategory(
 /**
  * Generate a chord definition for any chord name
  * Returns GenerateChordResult with partial voicing info
+ * Voicings are fretted for the given tuning (standard by default)
  */
 export function generateChord(
   chordName: string,
   maxVoicings: number = 5,
+  tuning: NoteName[] = STANDARD_TUNING,
+  constraints: Partial<GeneratorConstraints> = {},
 ): GenerateChordResult {
   const emptyResult: GenerateChordResult = {
     chord: null,
@@ -313,12 +334,22 @@ export function generateChord(
   let notesToUse = chordNotes;
 
   // Generate voicing candidates with fallback for difficult chords
-  let candidates = generateVoicingsWithFallback(notesToUse, parsed.root);
+  let candidates = generateVoicingsWithFallback(
+    notesToUse,
+    parsed.root,
+    constraints,
+    tuning,
+  );
 
   // If no voicings found and we have extended chord, try reducing notes
   if (candidates.length === 0 && chordNotes.length > 3) {
     const reduced = reduceChordNotes(chordNotes, parsed.root);
-    candidates = generateVoicingsWithFallback(reduced.notes, parsed.root);
+    candidates = generateVoicingsWithFallback(
+      reduced.notes,
+      parsed.root,
+      constraints,
+      tuning,
+    );
 
     if (candidates.length > 0) {
       isPartial = true;
@@ -333,19 +364,16 @@ export function generateChord(
   }
 
   // Rank the candidates
-  const ranked = rankVoicings(candidates, notesToUse, maxVoicings);
+  const ranked = rankVoicings(candidates, notesToUse, maxVoicings, tuning);
 
   // Convert to ChordFingering format
   const voicings = ranked.map((r, i) =>
     candidateToFingering(r.candidate, r.score, i),
   );
 
-  // Build canonical name (normalized)
-  const canonical = `${parsed.root}${parsed.quality === 'major' ? '' : parsed.quality}`.toLowerCase();
-
   return {
     chord: {
-      canonical,
+      canonical: getCanonicalName(parsed),
       display: parsed.display,
       root: parsed.root,
       quality: getQualityCategory(parsed.quality),
@@ -356,6 +384,56 @@ export function generateChord(
   };
 }
 
+/**
+ * Generate a chord definition for a specific fretboard instrument
+ * - guitar: chord voicings (same as generateChord)
+ * - ukulele: 4-string chord shapes
+ * - bass: root-fifth-octave patterns and arpeggio boxes
+ * Tuning defaults to the instrument's standard tuning
+ */
+export function generateInstrumentChord(
+  chordName: string,
+  instrument: FretboardInstrument,
+  maxVoicings: number = 5,
+  tuning: NoteName[] = resolveTuning(null, instrument),
+): GenerateChordResult {
+  if (instrument !== 'bass') {
+    return generateChord(
+      chordName,
+      maxVoicings,
+      tuning,
+      INSTRUMENT_CONSTRAINTS[instrument],
+    );
+  }
+
+  const emptyResult: GenerateChordResult = {
+    chord: null,
+    isPartial: false,
+    omittedNotes: [],
+  };
+
+  const parsed = parseChordName(chordName);
+  if (!parsed) return emptyResult;
+
+  const formula = getComplexChordFormula(parsed.quality);
+  if (!formula) return emptyResult;
+
+  const voicings = generateBassPatterns(parsed.root, formula, tuning, maxVoicings);
+  if (voicings.length === 0) return emptyResult;
+
+  return {
+    chord: {
+      canonical: getCanonicalName(parsed),
+      display: parsed.display,
+      root: parsed.root,
+      quality: getQualityCategory(parsed.quality),
+      voicings,
+    },
+    isPartial: false,
+    omittedNotes: [],
+  };
+}
+
 /**
  * Check if a chord can be generated
  */
@@ -370,4 +448,14 @@ export function canGenerateChord(chordName: string): boolean {
 // Re-export types for convenience
 export type { VoicingCandidate } from './voicing-generator';
 export type { VoicingScore } from './voicing-scorer';
+export type { GeneratorConstraints } from './voicing-generator';
+export type { GuitarTuning, GuitarTuningId } from './tunings';
 export { getChordNotes } from './music-theory';
+export { STANDARD_TUNING } from './fretboard';
+export { BASS_STANDARD_TUNING, generateBassPatterns } from './bass-patterns';
+export {
+  GUITAR_TUNINGS,
+  findTuning,
+  resolveTuning,
+  isStandardTuning,
+} from './tunings';
@@ -0,0 +1,176 @@
+/**
+ * Tuning Tests
+ * Validates tuning resolution and tuning-aware voicing generation
+ */
+
+import {
+  GUITAR_TUNINGS,
+  findTuning,
+  resolveTuning,
+  isStandardTuning,
+} from './tunings';
+import { STANDARD_TUNING, getNoteAtPosition, getBassNote } from './fretboard';
+import { generateVoicings } from './voicing-generator';
+import { rankVoicings } from './voicing-scorer';
+import { generateChord } from './index';
+import { getChordNotes, getNoteIndex, type NoteName } from './music-theory';
+import { lookupChord } from '../utils/lookup';
+
+// ============================================================================
+// TUNING LIBRARY
+// ============================================================================
+
+describe('GUITAR_TUNINGS', () => {
+  test.each(Object.values(GUITAR_TUNINGS))('$name has 6 strings', (tuning) => {
+    expect(tuning.notes).toHaveLength(6);
+  });
+
+  test('standard tuning is STANDARD_TUNING', () => {
+    expect(GUITAR_TUNINGS.standard.notes).toEqual(STANDARD_TUNING);
+  });
+});
+
+describe('findTuning / resolveTuning', () => {
+  test.each([
+    ['Standard', 'standard'],
+    ['Standard (E A D G B E)', 'standard'],
+    ['Drop D', 'dropD'],
+    ['Drop D Tuning', 'dropD'],
+    ['Half Step Down', 'halfStepDown'],
+    ['Eb Standard', 'halfStepDown'],
+    ['Whole Step Down', 'wholeStepDown'],
+    ['D Standard', 'wholeStepDown'],
+    ['DADGAD', 'dadgad'],
+    ['Open G', 'openG'],
+    ['open-d', 'openD'],
+  ])('"%s" resolves to %s', (name, id) => {
+    expect(findTuning(name)?.id).toBe(id);
+  });
+
+  test('unknown tuning returns null', () => {
+    expect(findTuning('Nashville')).toBeNull();
+  });
+
+  test('resolveTuning falls back to standard', () => {
+    expect(resolveTuning(undefined)).toEqual(STANDARD_TUNING);
+    expect(resolveTuning('')).toEqual(STANDARD_TUNING);
+    expect(resolveTuning('Something Custom')).toEqual(STANDARD_TUNING);
+  });
+
+  test('resolveTuning returns alternate notes', () => {
+    expect(resolveTuning('Drop D')).toEqual(['D', 'A', 'D', 'G', 'B', 'E']);
+  });
+
+  test('bass follows the guitar tuning on its four strings', () => {
+    expect(resolveTuning('Standard', 'bass')).toEqual(['E', 'A', 'D', 'G']);
+    expect(resolveTuning('Drop D', 'bass')).toEqual(['D', 'A', 'D', 'G']);
+  });
+
+  test('ukulele always uses GCEA', () => {
+    expect(resolveTuning('Drop D', 'ukulele')).toEqual(['G', 'C', 'E', 'A']);
+  });
+});
+
+describe('isStandardTuning', () => {
+  test('standard is standard', () => {
+    expect(isStandardTuning(STANDARD_TUNING)).toBe(true);
+  });
+
+  test('drop D is not standard', () => {
+    expect(isStandardTuning(GUITAR_TUNINGS.dropD.notes)).toBe(false);
+  });
+});
+
+// ============================================================================
+// TUNING-AWARE FRETBOARD
+// ============================================================================
+
+describe('tuning-aware fretboard', () => {
+  const dropD = GUITAR_TUNINGS.dropD.notes;
+
+  test('low string open is D in drop D', () => {
+    expect(getNoteAtPosition(0, 0, dropD)).toBe('D');
+    expect(getNoteAtPosition(0, 2, dropD)).toBe('E');
+  });
+
+  test('bass note uses the tuning', () => {
+    expect(getBassNote([0, null, null, null, null, null], dropD)).toBe('D');
+  });
+});
+
+// ============================================================================
+// TUNING-AWARE GENERATION
+// ============================================================================
+
+/** Every sounding note of a voicing must be a chord tone in the given tuning */
+const playsOnlyChordTones = (
+  frets: (number | null)[],
+  chordNotes: NoteName[],
+  tuning: NoteName[],
+): boolean => {
+  const allowed = new Set(chordNotes.map(getNoteIndex));
+  return frets.every(
+    (fret, string) =>
+      fret === null ||
+      allowed.has(getNoteIndex(getNoteAtPosition(string, fret, tuning))),
+  );
+};
+
+describe.each(Object.values(GUITAR_TUNINGS))('voicings in $name', (tuning) => {
+  test.each([
+    ['C', 'major'],
+    ['D', 'major'],
+    ['G', 'major'],
+    ['Am', 'minor'],
+    ['Em', 'minor'],
+    ['E7', '7'],
+  ])('%s plays only chord tones', (name, quality) => {
+    const result = generateChord(name, 5, tuning.notes);
+    expect(result.chord).not.toBeNull();
+
+    const notes = getChordNotes(result.chord!.root, quality);
+    result.chord!.voicings.forEach((voicing) => {
+      expect(playsOnlyChordTones(voicing.frets, notes, tuning.notes)).toBe(true);
+    });
+  });
+});
+
+describe('alternate tuning shapes', () => {
+  test('D major in drop D can ring the open low D', () => {
+    const dropD = GUITAR_TUNINGS.dropD.notes;
+    const candidates = generateVoicings(['D', 'F#', 'A'], 'D', {}, dropD);
+    expect(candidates.some((c) => c.frets[0] === 0 && c.bassNote === 'D')).toBe(true);
+  });
+
+  test('G major in open G includes the all-open strum', () => {
+    const openG = GUITAR_TUNINGS.openG.notes;
+    const candidates = generateVoicings(['G', 'B', 'D'], 'G', { requireRoot: false }, openG);
+    expect(candidates.some((c) => c.frets.every((f) => f === 0))).toBe(true);
+  });
+
+  test('half step down Eb uses the standard E shape', () => {
+    const result = generateChord('Eb', 5, GUITAR_TUNINGS.halfStepDown.notes);
+    const shapes = result.chord!.voicings.map((v) => v.frets.join(','));
+    expect(shapes).toContain('0,2,2,1,0,0');
+  });
+
+  test('rankVoicings accepts a tuning', () => {
+    const dadgad = GUITAR_TUNINGS.dadgad.notes;
+    const notes: NoteName[] = ['D', 'F#', 'A'];
+    const ranked = rankVoicings(generateVoicings(notes, 'D', {}, dadgad), notes, 3, dadgad);
+    expect(ranked.length).toBeGreaterThan(0);
+    expect(ranked[0].score.total).toBeGreaterThan(0);
+  });
+});
+
+describe('lookupChord with tuning', () => {
+  test('standard tuning uses the static dictionary', () => {
+    expect(lookupChord('D').status).toBe('found');
+  });
+
+  test('alternate tuning generates instead of using dictionary shapes', () => {
+    const result = lookupChord('D', GUITAR_TUNINGS.dropD.notes);
+    expect(result.status).toBe('generated');
+    expect(result.isGenerated).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tuning Library
+ * Open-string note sets for standard and alternate guitar tunings
+ */
+
+import { INSTRUMENT_CONFIGS, type FretboardInstrument } from '@/types/chords';
+import { NoteName } from './music-theory';
+import { STANDARD_TUNING } from './fretboard';
+
+/** Identifiers for supported guitar tunings */
+export type GuitarTuningId =
+  | 'standard'
+  | 'dropD'
+  | 'dropC'
+  | 'halfStepDown'
+  | 'wholeStepDown'
+  | 'dadgad'
+  | 'openG'
+  | 'openD'
+  | 'openE';
+
+/** A named guitar tuning (low string to high string) */
+export interface GuitarTuning {
+  id: GuitarTuningId;
+  name: string;
+  notes: NoteName[];
+}
+
+/** All supported guitar tunings */
+export const GUITAR_TUNINGS: Record<GuitarTuningId, GuitarTuning> = {
+  standard: { id: 'standard', name: 'Standard', notes: STANDARD_TUNING },
+  dropD: { id: 'dropD', name: 'Drop D', notes: ['D', 'A', 'D', 'G', 'B', 'E'] },
+  dropC: { id: 'dropC', name: 'Drop C', notes: ['C', 'G', 'C', 'F', 'A', 'D'] },
+  halfStepDown: {
+    id: 'halfStepDown',
+    name: 'Half Step Down',
+    notes: ['D#', 'G#', 'C#', 'F#', 'A#', 'D#'],
+  },
+  wholeStepDown: {
+    id: 'wholeStepDown',
+    name: 'Whole Step Down',
+    notes: ['D', 'G', 'C', 'F', 'A', 'D'],
+  },
+  dadgad: { id: 'dadgad', name: 'DADGAD', notes: ['D', 'A', 'D', 'G', 'A', 'D'] },
+  openG: { id: 'openG', name: 'Open G', notes: ['D', 'G', 'D', 'G', 'B', 'D'] },
+  openD: { id: 'openD', name: 'Open D', notes: ['D', 'A', 'D', 'F#', 'A', 'D'] },
+  openE: { id: 'openE', name: 'Open E', notes: ['E', 'B', 'E', 'G#', 'B', 'E'] },
+};
+
+/**
+ * Tuning name aliases (lowercased, spaces/punctuation removed)
+ * Covers the phrasings Gemini commonly returns in theoryData.tuning
+ */
+const TUNING_ALIASES: Record<string, GuitarTuningId> = {
+  standard: 'standard',
+  estandard: 'standard',
+  eadgbe: 'standard',
+  dropd: 'dropD',
+  dadgbe: 'dropD',
+  dropc: 'dropC',
+  cgcfad: 'dropC',
+  halfstepdown: 'halfStepDown',
+  halfstep: 'halfStepDown',
+  ebstandard: 'halfStepDown',
+  'd#standard': 'halfStepDown',
+  eflatstandard: 'halfStepDown',
+  wholestepdown: 'wholeStepDown',
+  fullstepdown: 'wholeStepDown',
+  dstandard: 'wholeStepDown',
+  dgcfad: 'wholeStepDown',
+  dadgad: 'dadgad',
+  openg: 'openG',
+  dgdgbd: 'openG',
+  opend: 'openD',
+  'dadf#ad': 'openD',
+  opene: 'openE',
+  'ebeg#be': 'openE',
+};
+
+/**
+ * Normalize a tuning description for alias lookup
+ * e.g., "Drop D (D A D G B E)" → "dropd"
+ */
+function normalizeTuningName(name: string): string {
+  return name
+    .replace(/\s*\([^)]*\)/g, '')
+    .replace(/\btuning\b/gi, '')
+    .replace(/[\s\-_/]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Look up a known tuning by its display name or alias
+ * Returns null when the description is not recognized
+ */
+export function findTuning(name: string | null | undefined): GuitarTuning | null {
+  if (!name) return null;
+  const id = TUNING_ALIASES[normalizeTuningName(name)];
+  return id ? GUITAR_TUNINGS[id] : null;
+}
+
+/**
+ * Resolve a tuning description to open-string notes for an instrument
+ * Falls back to standard tuning for empty or unrecognized descriptions.
+ * Bass strings follow the guitar's lowest four (Drop D → D A D G);
+ * ukulele always uses its own standard tuning.
+ */
+export function resolveTuning(
+  name: string | null | undefined,
+  instrument: FretboardInstrument = 'guitar',
+): NoteName[] {
+  const guitarNotes = findTuning(name)?.notes ?? STANDARD_TUNING;
+
+  switch (instrument) {
+    case 'bass':
+      return guitarNotes.slice(0, INSTRUMENT_CONFIGS.bass.stringCount);
+    case 'ukulele':
+      return INSTRUMENT_CONFIGS.ukulele.tuning as NoteName[];
+    default:
+      return guitarNotes;
+  }
+}
+
+/**
+ * Check if a set of open-string notes is standard guitar tuning
+ */
+export function isStandardTuning(tuning: readonly string[]): boolean {
+  return (
+    tuning.length === STANDARD_TUNING.length &&
+    tuning.every((note, i) => note === STANDARD_TUNING[i])
+  );
+}
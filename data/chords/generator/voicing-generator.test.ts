@@ -8,8 +8,10 @@ import {
   generateVoicingsWithFallback,
   detectBarres,
   DEFAULT_CONSTRAINTS,
+  INSTRUMENT_CONSTRAINTS,
   type VoicingCandidate,
 } from './voicing-generator';
+import { generateInstrumentChord } from './index';
 import { getNoteIndex, type NoteName } from './music-theory';
 
 // ============================================================================
@@ -439,3 +441,47 @@ describe('voicing uniqueness', () => {
     expect(unique.size).toBe(voicings.length);
   });
 });
+
+// ============================================================================
+// UKULELE VOICINGS
+// ============================================================================
+
+describe('ukulele voicings', () => {
+  const UKULELE_TUNING: NoteName[] = ['G', 'C', 'E', 'A'];
+
+  test.each([
+    ['C', [0, 0, 0, 3]],
+    ['Am', [2, 0, 0, 0]],
+    ['F', [2, 0, 1, 0]],
+    ['G', [0, 2, 3, 2]],
+    ['D7', [2, 2, 2, 3]],
+    ['Bb', [3, 2, 1, 1]],
+  ])('%s ranks the common shape first', (chord, expected) => {
+    const result = generateInstrumentChord(chord, 'ukulele', 5, UKULELE_TUNING);
+    expect(result.chord?.voicings[0].frets).toEqual(expected);
+  });
+
+  test('ukulele voicings ring all four strings', () => {
+    const candidates = generateVoicings(
+      ['C', 'E', 'G'],
+      'C',
+      INSTRUMENT_CONSTRAINTS.ukulele,
+      UKULELE_TUNING,
+    );
+    expect(candidates.length).toBeGreaterThan(0);
+    candidates.forEach((c) => {
+      expect(c.frets).toHaveLength(4);
+      expect(c.frets.every((f) => f !== null)).toBe(true);
+    });
+  });
+
+  test('re-entrant tuning reports no bass note', () => {
+    const candidates = generateVoicings(
+      ['C', 'E', 'G'],
+      'C',
+      INSTRUMENT_CONSTRAINTS.ukulele,
+      UKULELE_TUNING,
+    );
+    candidates.forEach((c) => expect(c.bassNote).toBeNull());
+  });
+});
@@ -5,7 +5,6 @@
 
 import { NoteName, getNoteIndex } from './music-theory';
 import {
-  STRING_COUNT,
   MAX_FRET_SPAN,
   STANDARD_TUNING,
   getChordPositionsOnString,
@@ -24,6 +23,11 @@ export interface GeneratorConstraints {
   preferLowPosition: boolean;
   maxFret: number;
   requireThird: boolean;
+  /**
+   * String indices checked (in order) for the bass note (default: 0, 1, 2...)
+   * Empty means the instrument has no bass register, so no bass note is scored
+   */
+  bassStringOrder?: number[];
 }
 
 /** Default constraints */
@@ -37,6 +41,25 @@ export const DEFAULT_CONSTRAINTS: GeneratorConstraints = {
   requireThird: true, // Third is essential for chord identity (major vs minor)
 };
 
+/**
+ * Per-instrument constraint overrides for chord voicings
+ * Ukulele chords normally ring all four strings, and with re-entrant
+ * tuning (high G) every string sits in the same register, so there is
+ * no bass note to anchor the root on
+ */
+export const INSTRUMENT_CONSTRAINTS: Record<
+  'guitar' | 'ukulele',
+  Partial<GeneratorConstraints>
+> = {
+  guitar: {},
+  ukulele: {
+    requireRoot: false,
+    minStrings: 4,
+    maxMutedStrings: 0,
+    bassStringOrder: [],
+  },
+};
+
 /** A candidate voicing before scoring */
 export interface VoicingCandidate {
   frets: (number | null)[]; // null = muted
@@ -52,14 +75,17 @@ export interface VoicingCandidate {
 
 /**
  * Generate all valid voicing candidates for a chord
+ * Voicings are built against the given open-string tuning (standard by default)
  */
 export function generateVoicings(
   chordNotes: NoteName[],
   rootNote: NoteName,
   constraints: Partial<GeneratorConstraints> = {},
+  tuning: NoteName[] = STANDARD_TUNING,
 ): VoicingCandidate[] {
   const opts: GeneratorConstraints = { ...DEFAULT_CONSTRAINTS, ...constraints };
   const candidates: VoicingCandidate[] = [];
+  const stringCount = tuning.length;
 
   // Pre-calculate chord note indices for fast lookup
   const chordNoteIndices = new Set(chordNotes.map(getNoteIndex));
@@ -85,7 +111,7 @@ export function generateVoicings(
     notesPlayed: Set<NoteName>,
   ): void {
     // Base case: all strings processed
-    if (stringIndex >= STRING_COUNT) {
+    if (stringIndex >= stringCount) {
       // Validate the complete voicing
       const playedStrings = currentFrets.filter((f) => f !== null).length;
       const mutedStrings = countMutedStrings(currentFrets);
@@ -96,11 +122,13 @@ export function generateVoicings(
       // Check max muted strings
       if (mutedStrings > opts.maxMutedStrings) return;
 
-      // Get bass note
+      // Get bass note (lowest-pitched played string)
       let bassNote: NoteName | null = null;
-      for (let i = 0; i < STRING_COUNT; i++) {
+      const stringOrder =
+        opts.bassStringOrder ?? currentFrets.map((_, i) => i);
+      for (const i of stringOrder) {
         if (currentFrets[i] !== null) {
-          bassNote = getNoteAtPosition(i, currentFrets[i]!);
+          bassNote = getNoteAtPosition(i, currentFrets[i]!, tuning);
           break;
         }
       }
@@ -154,6 +182,7 @@ export function generateVoicings(
       stringIndex,
       chordNotes,
       opts.maxFret,
+      tuning,
     );
 
     // === Option 1: Mute this string ===
@@ -199,8 +228,8 @@ export function generateVoicings(
     // === Option 3: Open string (fret 0) if it's a chord tone ===
     // This is already handled in possiblePositions if fret 0 is a chord tone
     // But we explicitly handle it for clarity
-    if (isOpenStringChordTone(stringIndex, chordNotes)) {
-      const openNote = STANDARD_TUNING[stringIndex];
+    if (isOpenStringChordTone(stringIndex, chordNotes, tuning)) {
+      const openNote = tuning[stringIndex];
       const alreadyTried = possiblePositions.some((p) => p.fret === 0);
 
       if (!alreadyTried) {
@@ -217,7 +246,7 @@ export function generateVoicings(
     }
   }
 
-  // Start recursion from string 0 (low E)
+  // Start recursion from string 0 (lowest string)
   buildVoicing(0, [], [], new Set());
 
   return candidates;
@@ -230,9 +259,10 @@ export function generateVoicingsWithFallback(
   chordNotes: NoteName[],
   rootNote: NoteName,
   constraints: Partial<GeneratorConstraints> = {},
+  tuning: NoteName[] = STANDARD_TUNING,
 ): VoicingCandidate[] {
   // Try with original constraints (requireThird: true by default)
-  let candidates = generateVoicings(chordNotes, rootNote, constraints);
+  let candidates = generateVoicings(chordNotes, rootNote, constraints, tuning);
 
   if (candidates.length > 0) {
     return candidates;
@@ -242,7 +272,7 @@ export function generateVoicingsWithFallback(
   candidates = generateVoicings(chordNotes, rootNote, {
     ...constraints,
     requireRoot: false,
-  });
+  }, tuning);
 
   if (candidates.length > 0) {
     return candidates;
@@ -254,7 +284,7 @@ export function generateVoicingsWithFallback(
     requireRoot: false,
     maxMutedStrings: 3,
     minStrings: 3,
-  });
+  }, tuning);
 
   if (candidates.length > 0) {
     return candidates;
@@ -267,7 +297,7 @@ export function generateVoicingsWithFallback(
     maxMutedStrings: 3,
     minStrings: 3,
     maxFretSpan: 5,
-  });
+  }, tuning);
 
   if (candidates.length > 0) {
     return candidates;
@@ -281,7 +311,7 @@ export function generateVoicingsWithFallback(
     maxMutedStrings: 3,
     minStrings: 3,
     maxFretSpan: 5,
-  });
+  }, tuning);
 
   return candidates;
 }
@@ -5,6 +5,8 @@
 
 import { NoteName, getNoteIndex } from './music-theory';
 import { VoicingCandidate } from './voicing-generator';
+import { STANDARD_TUNING } from './fretboard';
+import { isStandardTuning } from './tunings';
 
 /** Breakdown of scoring factors */
 export interface VoicingScore {
@@ -153,10 +155,13 @@ function calculateStretchDifficulty(frets: (number | null)[]): number {
 
 /**
  * Score a voicing candidate (higher = better)
+ * CAGED shape matching only applies to standard tuning; alternate tunings
+ * get a neutral shape score so familiar-looking frets aren't over-rewarded
  */
 export function scoreVoicing(
   candidate: VoicingCandidate,
   chordNotes: NoteName[],
+  tuning: NoteName[] = STANDARD_TUNING,
 ): VoicingScore {
   const breakdown = {
     playability: 0,
@@ -223,7 +228,9 @@ export function scoreVoicing(
 
   // === ERGONOMICS (0-20 points) ===
   // Shape matching
-  const shapeMatch = shapeMatchScore(candidate.frets);
+  const shapeMatch = isStandardTuning(tuning)
+    ? shapeMatchScore(candidate.frets)
+    : 0.5;
   breakdown.ergonomics += Math.round(shapeMatch * 12);
 
   // No adjacent string skips
@@ -303,10 +310,11 @@ export function rankVoicings(
   candidates: VoicingCandidate[],
   chordNotes: NoteName[],
   limit: number = 5,
+  tuning: NoteName[] = STANDARD_TUNING,
 ): { candidate: VoicingCandidate; score: VoicingScore }[] {
   const scored = candidates.map((candidate) => ({
     candidate,
-    score: scoreVoicing(candidate, chordNotes),
+    score: scoreVoicing(candidate, chordNotes, tuning),
   }));
 
   // Sort by total score descending
@@ -12,6 +12,7 @@ export type {
   ChordDifficulty,
   ChordQuality,
   FretboardInstrument,
+  FretNote,
   InstrumentType,
 } from '@/types/chords';
 
@@ -43,7 +44,16 @@ export {
 // Chord generator (for algorithmic chord generation)
 export {
   generateChord,
+  generateInstrumentChord,
   canGenerateChord,
   parseChordName as parseChordNameForGenerator,
   getChordNotes,
+  STANDARD_TUNING,
+  BASS_STANDARD_TUNING,
+  GUITAR_TUNINGS,
+  findTuning,
+  resolveTuning,
+  isStandardTuning,
 } from './generator';
+
+export type { GuitarTuning, GuitarTuningId } from './generator';
@@ -7,10 +7,17 @@ import type {
   ChordDefinition,
   ChordFingering,
   ChordLookupResult,
+  FretboardInstrument,
 } from '@/types/chords';
 import { GUITAR_CHORDS } from '../guitar';
 import { normalizeChordName, getDisplayName } from './normalizer';
-import { generateChord, canGenerateChord } from '../generator';
+import {
+  generateInstrumentChord,
+  canGenerateChord,
+  isStandardTuning,
+  resolveTuning,
+} from '../generator';
+import type { NoteName } from '../generator/music-theory';
 
 /**
  * Calculate Levenshtein distance between two strings
@@ -85,13 +92,24 @@ const findSimilarChords = (
  * 2. Fuzzy match (suggest similar from dictionary)
  * 3. Algorithmic generation (generate voicings on-the-fly)
  * 4. Unknown (returns display name only)
+ *
+ * The static dictionary only holds standard-tuning guitar shapes, so
+ * alternate tunings, bass and ukulele skip straight to generation.
+ * Tuning defaults to the instrument's standard tuning.
  */
-export const lookupChord = (chordName: string): ChordLookupResult => {
+export const lookupChord = (
+  chordName: string,
+  tuning?: NoteName[],
+  instrument: FretboardInstrument = 'guitar',
+): ChordLookupResult => {
   const displayName = getDisplayName(chordName);
   const normalized = normalizeChordName(chordName);
+  const openStrings = tuning ?? resolveTuning(null, instrument);
+  const useDictionary =
+    instrument === 'guitar' && isStandardTuning(openStrings);
 
   // Tier 1: Exact match from static dictionary
-  if (normalized in GUITAR_CHORDS) {
+  if (useDictionary && normalized in GUITAR_CHORDS) {
     return {
       status: 'found',
       chord: GUITAR_CHORDS[normalized],
@@ -101,7 +119,7 @@ export const lookupChord = (chordName: string): ChordLookupResult => {
   }
 
   // Also check with original case-preserved
-  if (chordName in GUITAR_CHORDS) {
+  if (useDictionary && chordName in GUITAR_CHORDS) {
     return {
       status: 'found',
       chord: GUITAR_CHORDS[chordName],
@@ -114,7 +132,12 @@ export const lookupChord = (chordName: string): ChordLookupResult => {
   // This ensures extended chords like Am9, Cmaj7, etc. get generated
   // even if they're similar to simpler chords in the dictionary
   if (canGenerateChord(chordName)) {
-    const result = generateChord(chordName);
+    const result = generateInstrumentChord(
+      chordName,
+      instrument,
+      5,
+      openStrings,
+    );
     if (result.chord && result.chord.voicings.length > 0) {
       return {
         status: result.isPartial ? 'partial' : 'generated',
@@ -149,8 +172,12 @@ export const lookupChord = (chordName: string): ChordLookupResult => {
 /**
  * Batch lookup multiple chords
  */
-export const lookupChords = (chordNames: string[]): ChordLookupResult[] => {
-  return chordNames.map(lookupChord);
+export const lookupChords = (
+  chordNames: string[],
+  tuning?: NoteName[],
+  instrument: FretboardInstrument = 'guitar',
+): ChordLookupResult[] => {
+  return chordNames.map((name) => lookupChord(name, tuning, instrument));
 };
 
 /**
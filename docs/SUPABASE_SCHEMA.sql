@@ -401,3 +401,24 @@ CREATE POLICY "Band members can view setlist songs" ON songs FOR SELECT
 -- - song_mastery_progress: RPG skill tree progress per song
 -- - lifetime_milestones: Global achievement definitions
 -- - user_lifetime_milestones: Tracks unlocked global achievements
+--
+-- For the metronome speed trainer, see: docs/migrations/005_tempo_sessions.sql
+-- - tempo_sessions: BPM reached in metronome sessions started from a song
+--
+-- For tuner custom tunings, see: docs/migrations/006_custom_tunings.sql
+-- - custom_tunings: User-defined tunings saved per account
+--
+-- For tuner intonation checks, see: docs/migrations/007_intonation_checks.sql
+-- - intonation_checks: 12th-fret intonation results saved per instrument and date
+--
+-- For the pitch trainer, see: docs/migrations/008_pitch_training_sessions.sql
+-- - pitch_training_sessions: Singer and fretless bass pitch-accuracy scores per session
+--
+-- For saved practice player loops, see: docs/migrations/009_practice_loops.sql
+-- - songs.practice_loops: Named A-B loops stored with each song
+--
+-- For chord-over-lyrics charts, see: docs/migrations/010_chord_sheet.sql
+-- - songs.chord_sheet: ChordPro chart stored with each song
+--
+-- For song arrangements, see: docs/migrations/011_song_arrangement.sql
+-- - songs.song_structure: Ordered sections with bars, repeats, chords and tempo/meter changes
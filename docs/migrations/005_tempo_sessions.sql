@@ -0,0 +1,43 @@
+-- Migration: Tempo Sessions for the Metronome Speed Trainer
+-- Description: Logs the BPM reached in metronome sessions started from a song
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- TEMPO SESSIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS tempo_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  song_id UUID REFERENCES songs(id) ON DELETE CASCADE NOT NULL,
+
+  -- Tempo
+  start_bpm INTEGER NOT NULL,
+  reached_bpm INTEGER NOT NULL,
+  target_bpm INTEGER,                -- NULL = tempo trainer was off
+
+  duration_seconds INTEGER NOT NULL DEFAULT 0,
+  practiced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_bpm CHECK (start_bpm BETWEEN 20 AND 300 AND reached_bpm BETWEEN 20 AND 300)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tempo_sessions_song ON tempo_sessions(user_id, song_id, practiced_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE tempo_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tempo sessions" ON tempo_sessions;
+CREATE POLICY "Users can view own tempo sessions" ON tempo_sessions
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can log tempo sessions" ON tempo_sessions;
+CREATE POLICY "Users can log tempo sessions" ON tempo_sessions
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own tempo sessions" ON tempo_sessions;
+CREATE POLICY "Users can delete own tempo sessions" ON tempo_sessions
+  FOR DELETE USING (user_id = auth.uid());
@@ -0,0 +1,41 @@
+-- Migration: Custom Tuner Tunings
+-- Description: User-defined tunings for the tuner, saved per account
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- CUSTOM TUNINGS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS custom_tunings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  name TEXT NOT NULL,
+  instrument TEXT NOT NULL,          -- Tuner instrument: guitar, guitar7, bass4, bass5, bass6
+  notes TEXT[] NOT NULL,             -- Open strings low to high, e.g. {C2,G2,C3,G3,C4,E4}
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_instrument CHECK (instrument IN ('guitar', 'guitar7', 'bass4', 'bass5', 'bass6')),
+  CONSTRAINT valid_name CHECK (char_length(name) BETWEEN 1 AND 40)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_tunings_user ON custom_tunings(user_id, created_at);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE custom_tunings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tunings" ON custom_tunings;
+CREATE POLICY "Users can view own tunings" ON custom_tunings
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create tunings" ON custom_tunings;
+CREATE POLICY "Users can create tunings" ON custom_tunings
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own tunings" ON custom_tunings;
+CREATE POLICY "Users can delete own tunings" ON custom_tunings
+  FOR DELETE USING (user_id = auth.uid());
@@ -0,0 +1,43 @@
+-- Migration: Intonation Checks
+-- Description: Saved results of the tuner's guided intonation check, per instrument and date
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- INTONATION CHECKS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS intonation_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  instrument_name TEXT NOT NULL,     -- User's name for the instrument, e.g. "Black Strat"
+  instrument TEXT NOT NULL,          -- Tuner instrument: guitar, guitar7, bass4, bass5, bass6
+  tuning_name TEXT NOT NULL,         -- Tuning the check was made in, e.g. "Standard"
+  reference_pitch NUMERIC NOT NULL DEFAULT 440,
+  results JSONB NOT NULL,            -- Per string: stringNumber, note, octave, harmonicFrequency, frettedFrequency, cents
+
+  checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_instrument CHECK (instrument IN ('guitar', 'guitar7', 'bass4', 'bass5', 'bass6')),
+  CONSTRAINT valid_instrument_name CHECK (char_length(instrument_name) BETWEEN 1 AND 40)
+);
+
+CREATE INDEX IF NOT EXISTS idx_intonation_checks_user ON intonation_checks(user_id, instrument_name, checked_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE intonation_checks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own intonation checks" ON intonation_checks;
+CREATE POLICY "Users can view own intonation checks" ON intonation_checks
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create intonation checks" ON intonation_checks;
+CREATE POLICY "Users can create intonation checks" ON intonation_checks
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own intonation checks" ON intonation_checks;
+CREATE POLICY "Users can delete own intonation checks" ON intonation_checks
+  FOR DELETE USING (user_id = auth.uid());
@@ -0,0 +1,44 @@
+-- Migration: Pitch Training Sessions
+-- Description: Saved pitch trainer sessions (singers and fretless bass), scored per held note
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- PITCH TRAINING SESSIONS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pitch_training_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  instrument TEXT NOT NULL,          -- Trainer instrument: vocals, bass (fretless)
+  window_cents INTEGER NOT NULL,     -- Cent window the attempts were scored against
+  reference_pitch NUMERIC NOT NULL DEFAULT 440,
+  song_title TEXT,                   -- Song whose scale was practiced (NULL for free notes)
+  attempts JSONB NOT NULL,           -- Per held note: note, octave, score, meanCents, spreadCents, inWindowRatio
+  average_score INTEGER NOT NULL,    -- 0-100
+
+  practiced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT valid_trainer_instrument CHECK (instrument IN ('vocals', 'bass')),
+  CONSTRAINT valid_average_score CHECK (average_score BETWEEN 0 AND 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitch_training_sessions_user ON pitch_training_sessions(user_id, instrument, practiced_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================================================
+
+ALTER TABLE pitch_training_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own pitch training sessions" ON pitch_training_sessions;
+CREATE POLICY "Users can view own pitch training sessions" ON pitch_training_sessions
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create pitch training sessions" ON pitch_training_sessions;
+CREATE POLICY "Users can create pitch training sessions" ON pitch_training_sessions
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete own pitch training sessions" ON pitch_training_sessions;
+CREATE POLICY "Users can delete own pitch training sessions" ON pitch_training_sessions
+  FOR DELETE USING (user_id = auth.uid());
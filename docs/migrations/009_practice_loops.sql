@@ -0,0 +1,12 @@
+-- Migration: Practice Loops
+-- Description: Named A-B loops ("solo", "bridge riff") saved with each song for the practice player
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- SONGS: PRACTICE LOOPS COLUMN
+-- ============================================================================
+
+-- Array of { id, name, startMs, endMs } objects, ordered by startMs
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS practice_loops JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN songs.practice_loops IS 'Named practice player loops: [{ id, name, startMs, endMs }]';
@@ -0,0 +1,12 @@
+-- Migration: Chord Sheet
+-- Description: Chord-over-lyrics chart saved with each song, in ChordPro format
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- SONGS: CHORD SHEET COLUMN
+-- ============================================================================
+
+-- ChordPro text: inline [Am] chords over the lyrics, {start_of_chorus} directives
+ALTER TABLE songs ADD COLUMN IF NOT EXISTS chord_sheet TEXT;
+
+COMMENT ON COLUMN songs.chord_sheet IS 'Chord-over-lyrics chart in ChordPro format';
@@ -0,0 +1,39 @@
+-- Migration: Song Arrangement
+-- Description: Ordered song sections (repeats, bar lengths, chords, tempo/meter changes, notes)
+--              replace the intro/verse/chorus/bridge/outro flags in songs.song_structure
+-- Created: 2026-10-19
+
+-- ============================================================================
+-- SONGS: ARRANGEMENT COLUMN
+-- ============================================================================
+
+COMMENT ON COLUMN songs.song_structure IS 'Song arrangement: { sections: [{ id, type, name, bars, repeats, chords, tempoBpm, timeSignature, notes }], startOffsetMs }';
+
+-- ============================================================================
+-- CONVERT SECTION FLAGS
+-- ============================================================================
+
+-- One 8-bar section per flag that was set, in playing order
+UPDATE songs
+SET song_structure = jsonb_build_object(
+  'startOffsetMs', 0,
+  'sections', COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', 'section_' || (ord - 1),
+        'type', kind,
+        'name', initcap(kind),
+        'bars', 8,
+        'repeats', 1,
+        'chords', '[]'::jsonb,
+        'tempoBpm', NULL,
+        'timeSignature', NULL,
+        'notes', ''
+      ) ORDER BY ord
+    )
+    FROM unnest(ARRAY['intro', 'verse', 'chorus', 'bridge', 'outro']) WITH ORDINALITY AS flags(kind, ord)
+    WHERE (song_structure ->> kind) = 'true'
+  ), '[]'::jsonb)
+)
+WHERE song_structure IS NOT NULL
+  AND NOT (song_structure ? 'sections');
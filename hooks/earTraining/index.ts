@@ -0,0 +1,6 @@
+/**
+ * Ear Training Hooks - Barrel Export
+ */
+
+export { useEarTrainingAudio } from './useEarTrainingAudio';
+export { useEarTrainingQuiz } from './useEarTrainingQuiz';
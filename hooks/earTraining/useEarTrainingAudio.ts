@@ -0,0 +1,137 @@
+/**
+ * useEarTrainingAudio Hook
+ *
+ * Plays ear training questions. Each sequence is synthesized into an
+ * AudioBuffer (see utils/earTraining/synthesis) and played through a
+ * buffer source and gain node, so a question can be stopped at once.
+ *
+ * Platform support:
+ * - iOS/Android: react-native-audio-api
+ * - Web: Native Web Audio API
+ */
+
+import { useRef, useCallback, useState, useEffect } from 'react';
+import { EAR_TRAINING_CONFIG } from '@/constants/EarTrainingConfig';
+import { getSequenceDuration, renderSequence } from '@/utils/earTraining';
+import { createAudioContext, configureIosAudioSession } from '@/utils/audioContext';
+import type {
+  AudioBufferSourceNodeType,
+  AudioContextType,
+  GainNodeType,
+} from '@/types/audio';
+import type { UseEarTrainingAudioReturn } from '@/types/earTraining';
+
+/**
+ * useEarTrainingAudio - Synthesized question playback
+ */
+export function useEarTrainingAudio(): UseEarTrainingAudioReturn {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const audioContextRef = useRef<AudioContextType | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNodeType | null>(null);
+  const gainRef = useRef<GainNodeType | null>(null);
+  const finishRef = useRef<(() => void) | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * Create the audio context on first use (platform-aware)
+   */
+  const getContext = useCallback(async (): Promise<AudioContextType> => {
+    if (audioContextRef.current) return audioContextRef.current;
+
+    // Play alongside other audio, through the speaker
+    await configureIosAudioSession({
+      iosCategory: 'playback',
+      iosMode: 'default',
+      iosOptions: ['mixWithOthers', 'defaultToSpeaker'],
+    });
+    const context = createAudioContext(EAR_TRAINING_CONFIG.sampleRate);
+    audioContextRef.current = context;
+
+    return context;
+  }, []);
+
+  /**
+   * Stop playback early
+   */
+  const stop = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    try {
+      sourceRef.current?.stop();
+    } catch {
+      // Already stopped
+    }
+    sourceRef.current?.disconnect();
+    gainRef.current?.disconnect();
+    sourceRef.current = null;
+    gainRef.current = null;
+    setIsPlaying(false);
+
+    const finish = finishRef.current;
+    finishRef.current = null;
+    finish?.();
+  }, []);
+
+  /**
+   * Play a sequence; resolves when it has finished (or was stopped)
+   */
+  const play = useCallback(
+    async (sequence: number[][]) => {
+      stop();
+
+      try {
+        setError(null);
+        const ctx = await getContext();
+        if (ctx.state === 'suspended') {
+          await ctx.resume();
+        }
+
+        const samples = renderSequence(sequence, ctx.sampleRate);
+        if (samples.length === 0) return;
+
+        const buffer = ctx.createBuffer(1, samples.length, ctx.sampleRate);
+        buffer.getChannelData(0).set(samples);
+
+        const source = ctx.createBufferSource();
+        const gainNode = ctx.createGain();
+        source.buffer = buffer;
+        source.connect(gainNode);
+        gainNode.connect(ctx.destination);
+        source.start(ctx.currentTime);
+
+        sourceRef.current = source;
+        gainRef.current = gainNode;
+        setIsPlaying(true);
+
+        await new Promise<void>((resolve) => {
+          finishRef.current = resolve;
+          timeoutRef.current = setTimeout(stop, getSequenceDuration(sequence) * 1000);
+        });
+      } catch (e) {
+        console.error('[EarTrainingAudio] Playback failed:', e);
+        setError(e instanceof Error ? e.message : 'Could not play this question');
+        setIsPlaying(false);
+      }
+    },
+    [getContext, stop]
+  );
+
+  /**
+   * Release the audio context on unmount
+   */
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+    };
+  }, []);
+
+  return { isPlaying, error, play, stop };
+}
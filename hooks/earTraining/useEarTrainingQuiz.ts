@@ -0,0 +1,118 @@
+/**
+ * useEarTrainingQuiz Hook
+ *
+ * Runs one ear training quiz: EAR_TRAINING_CONFIG.questionsPerQuiz questions
+ * from a category, each answered once, then a result with the time spent
+ * (so it can be logged as practice).
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import * as Haptics from 'expo-haptics';
+import { EAR_TRAINING_CONFIG } from '@/constants/EarTrainingConfig';
+import { createQuestion } from '@/utils/earTraining';
+import type {
+  EarTrainingCategory,
+  EarTrainingKey,
+  EarTrainingQuestion,
+  EarTrainingResult,
+  UseEarTrainingQuizReturn,
+} from '@/types/earTraining';
+
+/**
+ * useEarTrainingQuiz - Question flow and scoring
+ * @param category Quiz category
+ * @param key Song key (needed for progression questions)
+ */
+export function useEarTrainingQuiz(
+  category: EarTrainingCategory,
+  key: EarTrainingKey | null
+): UseEarTrainingQuizReturn {
+  const totalQuestions = EAR_TRAINING_CONFIG.questionsPerQuiz;
+
+  const [question, setQuestion] = useState<EarTrainingQuestion | null>(null);
+  const [questionNumber, setQuestionNumber] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [result, setResult] = useState<EarTrainingResult | null>(null);
+
+  const startedAtRef = useRef(0);
+
+  /**
+   * Start a new quiz
+   */
+  const start = useCallback(() => {
+    const first = createQuestion(category, key);
+    if (!first) return;
+
+    startedAtRef.current = Date.now();
+    setQuestion(first);
+    setQuestionNumber(1);
+    setSelectedAnswer(null);
+    setCorrectCount(0);
+    setResult(null);
+  }, [category, key]);
+
+  /**
+   * Answer the current question (first answer counts)
+   */
+  const answer = useCallback(
+    (option: string) => {
+      if (!question || selectedAnswer !== null) return;
+
+      setSelectedAnswer(option);
+      if (option === question.answer) {
+        setCorrectCount((count) => count + 1);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } else {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+    },
+    [question, selectedAnswer]
+  );
+
+  /**
+   * Next question, or the result after the last one
+   */
+  const next = useCallback(() => {
+    if (!question || selectedAnswer === null) return;
+
+    if (questionNumber >= totalQuestions) {
+      setResult({
+        category,
+        correct: correctCount,
+        total: totalQuestions,
+        durationSeconds: Math.round((Date.now() - startedAtRef.current) / 1000),
+      });
+      setQuestion(null);
+      return;
+    }
+
+    setQuestion(createQuestion(category, key));
+    setQuestionNumber((number) => number + 1);
+    setSelectedAnswer(null);
+  }, [question, selectedAnswer, questionNumber, totalQuestions, category, correctCount, key]);
+
+  /**
+   * Abandon the quiz
+   */
+  const reset = useCallback(() => {
+    setQuestion(null);
+    setQuestionNumber(0);
+    setSelectedAnswer(null);
+    setCorrectCount(0);
+    setResult(null);
+  }, []);
+
+  return {
+    question,
+    questionNumber,
+    totalQuestions,
+    selectedAnswer,
+    correctCount,
+    result,
+    start,
+    answer,
+    next,
+    reset,
+  };
+}
@@ -5,3 +5,5 @@
 export { useMetronome } from './useMetronome';
 export { useMetronomeAudio } from './useMetronomeAudio';
 export { useTapTempo } from './useTapTempo';
+export { useTempoProgress } from './useTempoProgress';
+export { useMetronomeSetlist } from './useMetronomeSetlist';
@@ -2,7 +2,8 @@
  * useMetronome Hook
  *
  * Main orchestration hook for the metronome feature.
- * Coordinates audio engine, tap tempo, visual sync, and haptic feedback.
+ * Coordinates audio engine, tap tempo, meter, tempo trainer, gap click,
+ * song section playback, visual sync, and haptic feedback.
  *
  * State machine:
  * - idle: Stopped, ready to play
@@ -10,25 +11,103 @@
  * - stopping: Graceful shutdown (not currently used, reserved for future)
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { Platform } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake';
 import { useMetronomeAudio } from './useMetronomeAudio';
 import { useTapTempo } from './useTapTempo';
-import { METRONOME_CONFIG, PENDULUM_MAX_ANGLE } from '@/constants/MetronomeConfig';
-import type { MetronomeState, UseMetronomeReturn } from '@/types/metronome';
+import {
+  METRONOME_CONFIG,
+  PENDULUM_MAX_ANGLE,
+  DEFAULT_TIME_SIGNATURE,
+  DEFAULT_GAP_CLICK,
+} from '@/constants/MetronomeConfig';
+import {
+  getDefaultAccents,
+  getNextAccentLevel,
+  getTrainerBpm,
+  isBarMuted,
+  createTrainerSettings,
+  getSongMetronomeSettings,
+  getSectionPosition,
+} from '@/utils/metronome';
+import { useSettings } from '@/hooks/useSettings';
+import type {
+  AccentLevel,
+  ClickSound,
+  ClickSounds,
+  GapClickSettings,
+  MeterSettings,
+  MetronomeSection,
+  MetronomeSong,
+  MetronomeState,
+  SectionPlayback,
+  SectionPosition,
+  Subdivision,
+  TempoTrainerSettings,
+  TimeSignature,
+  UseMetronomeOptions,
+  UseMetronomeReturn,
+} from '@/types/metronome';
+
+// Haptic strength per accent level (silent beats have none)
+const ACCENT_HAPTICS: Record<AccentLevel, Haptics.ImpactFeedbackStyle | null> = {
+  accent: Haptics.ImpactFeedbackStyle.Heavy,
+  medium: Haptics.ImpactFeedbackStyle.Medium,
+  normal: Haptics.ImpactFeedbackStyle.Light,
+  silent: null,
+};
 
 /**
  * useMetronome - Main metronome hook
  */
-export function useMetronome(): UseMetronomeReturn {
+export function useMetronome(options: UseMetronomeOptions = {}): UseMetronomeReturn {
   // Core state
   const [state, setState] = useState<MetronomeState>('idle');
   const [bpm, setBpmState] = useState(METRONOME_CONFIG.bpmDefault);
   const [currentBeat, setCurrentBeat] = useState(0);
   const [pendulumAngle, setPendulumAngle] = useState(0);
 
+  // Meter state
+  const [timeSignature, setTimeSignatureState] = useState<TimeSignature>(DEFAULT_TIME_SIGNATURE);
+  const [subdivision, setSubdivision] = useState<Subdivision>('quarter');
+  const [accents, setAccents] = useState<AccentLevel[]>(() => getDefaultAccents(DEFAULT_TIME_SIGNATURE));
+
+  const meter = useMemo<MeterSettings>(
+    () => ({ timeSignature, subdivision, accents }),
+    [timeSignature, subdivision, accents]
+  );
+
+  // Click sounds (persisted in app settings)
+  const { settings, updateSettings } = useSettings();
+  const clickSounds = useMemo<ClickSounds>(
+    () => ({ accent: settings.metronomeAccentSound, normal: settings.metronomeNormalSound }),
+    [settings.metronomeAccentSound, settings.metronomeNormalSound]
+  );
+
+  // Tempo trainer and gap click
+  const [trainer, setTrainerState] = useState<TempoTrainerSettings | null>(null);
+  const [gapClick, setGapClick] = useState<GapClickSettings>(DEFAULT_GAP_CLICK);
+  const trainerRef = useRef<TempoTrainerSettings | null>(null);
+  const trainerBarOffsetRef = useRef(0); // Bar the trainer ramp counts from
+  const lastBarRef = useRef(0);
+
+  // Song section playback
+  const [sectionPlayback, setSectionPlaybackState] = useState<SectionPlayback | null>(null);
+  const [sectionPosition, setSectionPosition] = useState<SectionPosition | null>(null);
+  const sectionPlaybackRef = useRef<SectionPlayback | null>(null);
+  const sectionBarOffsetRef = useRef(0); // Bar section playback counts from
+  const beatsPerBarRef = useRef(timeSignature.beats);
+  beatsPerBarRef.current = timeSignature.beats;
+
+  // Tempo played by the engine and the running session's summary
+  const bpmRef = useRef(bpm);
+  const sessionRef = useRef<{ startedAt: number; startBpm: number; reachedBpm: number } | null>(null);
+  const sessionPendingRef = useRef(false); // Start a new session on the next beat
+  const onSessionEndRef = useRef(options.onSessionEnd);
+  onSessionEndRef.current = options.onSessionEnd;
+
   // Audio engine
   const audioEngine = useMetronomeAudio();
 
@@ -54,25 +133,92 @@ export function useMetronome(): UseMetronomeReturn {
     }
   }, [audioEngine.initialize]);
 
+  /**
+   * Set time signature, resetting accents to the meter's defaults
+   */
+  const setTimeSignature = useCallback((newTimeSignature: TimeSignature) => {
+    setTimeSignatureState(newTimeSignature);
+    setAccents(getDefaultAccents(newTimeSignature));
+  }, []);
+
+  /**
+   * Switch to a section's tempo and meter during playback
+   */
+  const applySectionSettings = useCallback(
+    (section: MetronomeSection) => {
+      if (section.bpm !== null && section.bpm !== bpmRef.current) {
+        bpmRef.current = section.bpm;
+        setBpmState(section.bpm);
+        audioEngine.updateBpm(section.bpm);
+      }
+      if (section.timeSignature) {
+        setTimeSignature(section.timeSignature);
+      }
+    },
+    [audioEngine.updateBpm, setTimeSignature]
+  );
+
   /**
    * Handle beat callback from audio engine
    * Triggers haptic feedback and updates visual state
    */
-  const handleBeat = useCallback((beatIndex: number, isAccent: boolean) => {
+  const handleBeat = useCallback((beatIndex: number, accent: AccentLevel, barIndex: number) => {
     // Update beat counter for visual sync
     setCurrentBeat(beatIndex);
+    lastBarRef.current = barIndex;
+
+    // Tempo trainer: step the tempo at the start of each bar
+    const activeTrainer = trainerRef.current;
+    if (activeTrainer && beatIndex === 0) {
+      const trainerBpm = getTrainerBpm(activeTrainer, barIndex - trainerBarOffsetRef.current);
+      if (trainerBpm !== bpmRef.current) {
+        bpmRef.current = trainerBpm;
+        setBpmState(trainerBpm);
+        audioEngine.updateBpm(trainerBpm);
+      }
+    }
 
-    // Haptic feedback: Heavy on downbeat, Light on others
-    if (Platform.OS !== 'web') {
-      Haptics.impactAsync(
-        isAccent
-          ? Haptics.ImpactFeedbackStyle.Heavy
-          : Haptics.ImpactFeedbackStyle.Light
-      ).catch(() => {
+    // Section playback: follow the bar count through the song's sections
+    const playback = sectionPlaybackRef.current;
+    if (playback) {
+      const barsPlayed = barIndex - sectionBarOffsetRef.current;
+
+      if (beatIndex === 0) {
+        const position = getSectionPosition(playback, barsPlayed);
+        setSectionPosition(position);
+        if (!position) {
+          // Past the last section: keep clicking at its tempo
+          sectionPlaybackRef.current = null;
+          setSectionPlaybackState(null);
+        }
+      }
+
+      // Change tempo and meter on the last beat, so the next section starts on its downbeat
+      if (sectionPlaybackRef.current && beatIndex === beatsPerBarRef.current - 1) {
+        const current = getSectionPosition(playback, barsPlayed);
+        const next = getSectionPosition(playback, barsPlayed + 1);
+        if (current && next && next.index !== current.index) {
+          applySectionSettings(playback.sections[next.index]);
+        }
+      }
+    }
+
+    if (sessionPendingRef.current) {
+      sessionPendingRef.current = false;
+      sessionRef.current = { startedAt: Date.now(), startBpm: bpmRef.current, reachedBpm: bpmRef.current };
+    }
+    if (sessionRef.current) {
+      sessionRef.current.reachedBpm = Math.max(sessionRef.current.reachedBpm, bpmRef.current);
+    }
+
+    // Haptic feedback follows the accent level: Heavy on accents, none on silent beats
+    const hapticStyle = ACCENT_HAPTICS[accent];
+    if (Platform.OS !== 'web' && hapticStyle !== null) {
+      Haptics.impactAsync(hapticStyle).catch(() => {
         // Ignore haptic errors
       });
     }
-  }, []);
+  }, [audioEngine.updateBpm, applySectionSettings]);
 
   /**
    * Start pendulum animation
@@ -133,15 +279,41 @@ export function useMetronome(): UseMetronomeReturn {
     setCurrentBeat(0);
     tapTempo.reset();
 
+    // The tempo trainer always starts from its start tempo
+    const startBpm = trainer ? trainer.startBpm : bpm;
+    bpmRef.current = startBpm;
+    setBpmState(startBpm);
+    trainerBarOffsetRef.current = 0;
+    sectionBarOffsetRef.current = 0;
+    lastBarRef.current = 0;
+    sessionRef.current = { startedAt: Date.now(), startBpm, reachedBpm: startBpm };
+    sessionPendingRef.current = false;
+
     // Start audio engine
-    audioEngine.start(bpm, handleBeat);
+    audioEngine.start(startBpm, meter, handleBeat);
 
     // Start pendulum animation
     startPendulumAnimation();
 
     setState('playing');
-    console.log('[Metronome] Started at', bpm, 'BPM');
-  }, [audioEngine, bpm, handleBeat, startPendulumAnimation, tapTempo]);
+    console.log('[Metronome] Started at', startBpm, 'BPM');
+  }, [audioEngine, bpm, meter, trainer, handleBeat, startPendulumAnimation, tapTempo]);
+
+  /**
+   * Report the running session (reached tempo and playing time)
+   */
+  const reportSession = useCallback(() => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    if (session) {
+      onSessionEndRef.current?.({
+        startBpm: session.startBpm,
+        reachedBpm: session.reachedBpm,
+        targetBpm: trainerRef.current?.targetBpm ?? null,
+        durationSeconds: Math.round((Date.now() - session.startedAt) / 1000),
+      });
+    }
+  }, []);
 
   /**
    * Stop the metronome
@@ -160,9 +332,36 @@ export function useMetronome(): UseMetronomeReturn {
     }
 
     setCurrentBeat(0);
+    setSectionPosition(null);
     setState('idle');
     console.log('[Metronome] Stopped');
-  }, [audioEngine, stopPendulumAnimation]);
+
+    // Cue the start section again for the next start
+    const playback = sectionPlaybackRef.current;
+    if (playback) {
+      const section = playback.sections[playback.startIndex];
+      if (section.bpm !== null) {
+        bpmRef.current = section.bpm;
+        setBpmState(section.bpm);
+      }
+      if (section.timeSignature) {
+        setTimeSignature(section.timeSignature);
+      }
+    }
+
+    sessionPendingRef.current = false;
+    reportSession();
+  }, [audioEngine, stopPendulumAnimation, setTimeSignature, reportSession]);
+
+  /**
+   * End the running session without stopping playback
+   * Call before switching songs; a new session starts on the next beat.
+   */
+  const endSession = useCallback(() => {
+    if (!sessionRef.current) return;
+    reportSession();
+    sessionPendingRef.current = true;
+  }, [reportSession]);
 
   /**
    * Toggle play/stop
@@ -185,6 +384,7 @@ export function useMetronome(): UseMetronomeReturn {
         Math.min(METRONOME_CONFIG.bpmMax, newBpm)
       );
       setBpmState(clampedBpm);
+      bpmRef.current = clampedBpm;
 
       // Update audio engine if playing
       if (isPlaying) {
@@ -219,6 +419,128 @@ export function useMetronome(): UseMetronomeReturn {
     }
   }, [tapTempo, setBpm]);
 
+  /**
+   * Cycle a beat through accent levels (accent → medium → normal → silent)
+   */
+  const cycleAccent = useCallback((beatIndex: number) => {
+    setAccents((prev) =>
+      prev.map((level, index) => (index === beatIndex ? getNextAccentLevel(level) : level))
+    );
+  }, []);
+
+  /**
+   * Send meter changes to the audio engine during playback
+   */
+  useEffect(() => {
+    if (isPlaying) {
+      audioEngine.updateMeter(meter);
+    }
+  }, [meter, isPlaying, audioEngine.updateMeter]);
+
+  /**
+   * Turn the tempo trainer on or off
+   * Turned on during playback, the ramp starts from the next bar.
+   * The trainer and section playback both set the tempo, so turning it on ends section playback.
+   */
+  const setTrainer = useCallback(
+    (newTrainer: TempoTrainerSettings | null) => {
+      trainerRef.current = newTrainer;
+      trainerBarOffsetRef.current = isPlaying ? lastBarRef.current + 1 : 0;
+      setTrainerState(newTrainer);
+
+      if (newTrainer && sectionPlaybackRef.current) {
+        sectionPlaybackRef.current = null;
+        setSectionPlaybackState(null);
+        setSectionPosition(null);
+      }
+    },
+    [isPlaying]
+  );
+
+  /**
+   * Jump to a song section, or stop section playback with null
+   * The section's tempo and meter are set now; during playback its bars count from the next bar.
+   */
+  const setSectionPlayback = useCallback(
+    (playback: SectionPlayback | null) => {
+      const section = playback?.sections[playback.startIndex];
+      const next = section ? playback : null;
+
+      sectionPlaybackRef.current = next;
+      sectionBarOffsetRef.current = isPlaying ? lastBarRef.current + 1 : 0;
+      setSectionPlaybackState(next);
+      setSectionPosition(null);
+
+      if (!section) return;
+      if (trainerRef.current) {
+        setTrainer(null);
+      }
+      if (section.bpm !== null) {
+        setBpm(section.bpm);
+      }
+      if (section.timeSignature) {
+        setTimeSignature(section.timeSignature);
+      }
+    },
+    [isPlaying, setTrainer, setBpm, setTimeSignature]
+  );
+
+  /**
+   * Load a song's tempo and time signature
+   * An active trainer is rebuilt to ramp up to the song's tempo.
+   */
+  const loadSong = useCallback(
+    (song: MetronomeSong): boolean => {
+      const { bpm: songBpm, timeSignature: songTimeSignature } = getSongMetronomeSettings(song);
+
+      if (songBpm !== null) {
+        setBpm(songBpm);
+        if (trainer) {
+          setTrainer(createTrainerSettings(songBpm, songBpm));
+        }
+      }
+      if (songTimeSignature) {
+        setTimeSignature(songTimeSignature);
+      }
+
+      return songBpm !== null || songTimeSignature !== null;
+    },
+    [setBpm, setTimeSignature, setTrainer, trainer]
+  );
+
+  /**
+   * Send gap click muting to the audio engine
+   */
+  useEffect(() => {
+    audioEngine.setBarMute(
+      gapClick.mode === 'off' ? null : (barIndex) => isBarMuted(gapClick, barIndex)
+    );
+  }, [gapClick, audioEngine.setBarMute]);
+
+  /**
+   * Keep the audio engine's click sounds in sync with settings
+   */
+  useEffect(() => {
+    audioEngine.setClickSounds(clickSounds);
+  }, [clickSounds, audioEngine.setClickSounds]);
+
+  /**
+   * Choose the accent or normal click sound
+   * Previews the new sound when stopped, and saves the choice to settings
+   */
+  const setClickSound = useCallback(
+    (slot: keyof ClickSounds, sound: ClickSound) => {
+      audioEngine.setClickSounds({ ...clickSounds, [slot]: sound });
+      if (!isPlaying) {
+        audioEngine.previewClick(slot);
+      }
+      updateSettings(
+        slot === 'accent' ? { metronomeAccentSound: sound } : { metronomeNormalSound: sound }
+      );
+    },
+    [audioEngine, clickSounds, isPlaying, updateSettings]
+  );
+
   /**
    * Update pendulum animation when BPM changes during playback
    */
@@ -256,6 +578,14 @@ export function useMetronome(): UseMetronomeReturn {
     isPlaying,
     currentBeat,
     pendulumAngle,
+    timeSignature,
+    subdivision,
+    accents,
+    clickSounds,
+    trainer,
+    gapClick,
+    sectionPlayback,
+    sectionPosition,
 
     // Actions
     start,
@@ -264,10 +594,20 @@ export function useMetronome(): UseMetronomeReturn {
     setBpm,
     incrementBpm,
     handleTapTempo,
+    setTimeSignature,
+    setSubdivision,
+    cycleAccent,
+    setClickSound,
+    setTrainer,
+    setGapClick,
+    setSectionPlayback,
+    loadSong,
+    endSession,
 
     // Status
     tapCount: tapTempo.tapCount,
     isAudioReady: audioEngine.isReady,
     audioError: audioEngine.error,
+    unavailableClickSounds: audioEngine.unavailableClickSounds,
   };
 }
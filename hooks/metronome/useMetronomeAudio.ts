@@ -15,6 +15,12 @@
  * 3. Run a scheduler check every 25ms to queue upcoming beats
  * 4. Audio hardware maintains queue - immune to main thread hiccups
  *
+ * Every click (beat or subdivision) goes through the same queue. The meter
+ * decides which sample slot each click plays; only beat clicks reach the callback.
+ * Accent and tick slots use the selected click sounds, all loaded up front so
+ * switching sounds mid-playback never waits on decoding. Gap click bars are
+ * decided once at the start of each bar and play no clicks at all.
+ *
  * Platform support:
  * - iOS/Android: react-native-audio-api
  * - Web: Native Web Audio API
@@ -23,31 +29,53 @@
 import { useRef, useCallback, useState, useEffect } from 'react';
 import { Platform } from 'react-native';
 import { Asset } from 'expo-asset';
-import { METRONOME_CONFIG, AUDIO_SAMPLE_RATE } from '@/constants/MetronomeConfig';
-import type { UseMetronomeAudioReturn } from '@/types/metronome';
-
-// Conditionally import react-native-audio-api for native platforms
-let NativeAudioContext: any;
-let NativeAudioManager: any;
-let audioApiLoadError: string | null = null;
-
-if (Platform.OS !== 'web') {
-  try {
-    const audioApi = require('react-native-audio-api');
-    NativeAudioContext = audioApi.AudioContext;
-    NativeAudioManager = audioApi.AudioManager;
-    console.log('[MetronomeAudio] react-native-audio-api loaded successfully');
-    console.log('[MetronomeAudio] AudioContext available:', !!NativeAudioContext);
-    console.log('[MetronomeAudio] AudioManager available:', !!NativeAudioManager);
-  } catch (e) {
-    audioApiLoadError = e instanceof Error ? e.message : 'Unknown error loading audio API';
-    console.warn('[MetronomeAudio] Failed to load react-native-audio-api:', e);
-  }
-}
-
-// Audio asset imports for bundled WAV files
-const ACCENT_CLICK_ASSET = require('@/assets/audio/metronome-click-accent.wav');
-const TICK_CLICK_ASSET = require('@/assets/audio/metronome-click-tick.wav');
+import {
+  METRONOME_CONFIG,
+  AUDIO_SAMPLE_RATE,
+  SUBDIVISION_CLICKS,
+  DEFAULT_CLICK_SOUND,
+} from '@/constants/MetronomeConfig';
+import { getDefaultMeter, getClickSound, getNextClick, getSecondsPerClick } from '@/utils/metronome';
+import type { ScheduledClick } from '@/utils/metronome';
+import {
+  createAudioContext,
+  configureIosAudioSession,
+  deactivateAudioSession,
+} from '@/utils/audioContext';
+import type {
+  AccentLevel,
+  ClickSound,
+  ClickSounds,
+  MeterSettings,
+  UseMetronomeAudioReturn,
+} from '@/types/metronome';
+
+// Audio asset imports for bundled WAV files (accent and tick sample per click sound)
+const CLICK_SOUND_ASSETS: Record<ClickSound, { accent: any; tick: any }> = {
+  woodblock: {
+    accent: require('@/assets/audio/metronome-click-accent.wav'),
+    tick: require('@/assets/audio/metronome-click-tick.wav'),
+  },
+  cowbell: {
+    accent: require('@/assets/audio/metronome-cowbell-accent.wav'),
+    tick: require('@/assets/audio/metronome-cowbell-tick.wav'),
+  },
+  rimshot: {
+    accent: require('@/assets/audio/metronome-rimshot-accent.wav'),
+    tick: require('@/assets/audio/metronome-rimshot-tick.wav'),
+  },
+  hihat: {
+    accent: require('@/assets/audio/metronome-hihat-accent.wav'),
+    tick: require('@/assets/audio/metronome-hihat-tick.wav'),
+  },
+  synth: {
+    accent: require('@/assets/audio/metronome-synth-accent.wav'),
+    tick: require('@/assets/audio/metronome-synth-tick.wav'),
+  },
+};
+const SUBDIVISION_CLICK_ASSET = require('@/assets/audio/metronome-click-subdivision.wav');
+
+type ClickBuffers = Record<ClickSound, { accent: AudioBuffer; tick: AudioBuffer }>;
 
 /**
  * useMetronomeAudio - Audio engine with lookahead scheduling
@@ -56,19 +84,31 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
   // State
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [unavailableClickSounds, setUnavailableClickSounds] = useState<ClickSound[]>([]);
 
   // Refs for audio context and buffers
   const audioContextRef = useRef<AudioContext | null>(null);
-  const accentBufferRef = useRef<AudioBuffer | null>(null);
-  const tickBufferRef = useRef<AudioBuffer | null>(null);
+  const clickBuffersRef = useRef<ClickBuffers | null>(null);
+  const subdivisionBufferRef = useRef<AudioBuffer | null>(null);
+  const clickSoundsRef = useRef<ClickSounds>({
+    accent: DEFAULT_CLICK_SOUND,
+    normal: DEFAULT_CLICK_SOUND,
+  });
 
   // Scheduling refs
   const isPlayingRef = useRef(false);
   const schedulerTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const nextBeatTimeRef = useRef(0);
   const currentBeatRef = useRef(0);
+  const currentClickRef = useRef(0); // Click within the current beat (0 = the beat itself)
+  const currentBarRef = useRef(0);
+  const isBarMutedRef = useRef(false);
+  const barMuteRef = useRef<((barIndex: number) => boolean) | null>(null);
   const bpmRef = useRef(METRONOME_CONFIG.bpmDefault);
-  const onBeatCallbackRef = useRef<((beatIndex: number, isAccent: boolean) => void) | null>(null);
+  const meterRef = useRef<MeterSettings>(getDefaultMeter());
+  const onBeatCallbackRef = useRef<
+    ((beatIndex: number, accent: AccentLevel, barIndex: number) => void) | null
+  >(null);
 
   /**
    * Load audio buffer from asset (platform-aware)
@@ -110,65 +150,58 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
       console.log('[MetronomeAudio] Starting initialization...');
       console.log('[MetronomeAudio] Platform:', Platform.OS);
 
-      // Create AudioContext (platform-aware)
-      if (Platform.OS === 'web') {
-        console.log('[MetronomeAudio] Using web AudioContext');
-        const AudioContextClass =
-          window.AudioContext ||
-          (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-        audioContextRef.current = new AudioContextClass({
-          sampleRate: AUDIO_SAMPLE_RATE,
-        });
-      } else {
-        console.log('[MetronomeAudio] Using native AudioContext');
-        console.log('[MetronomeAudio] NativeAudioContext available:', !!NativeAudioContext);
-
-        if (!NativeAudioContext) {
-          throw new Error(
-            audioApiLoadError
-              ? `react-native-audio-api failed to load: ${audioApiLoadError}`
-              : 'react-native-audio-api not available - ensure you are using a development build, not Expo Go'
-          );
-        }
-
-        // Configure iOS audio session for mixing with other audio
-        if (NativeAudioManager && Platform.OS === 'ios') {
-          console.log('[MetronomeAudio] Configuring iOS audio session...');
-          try {
-            NativeAudioManager.setAudioSessionOptions({
-              iosCategory: 'playback',
-              iosMode: 'default',
-              iosOptions: ['mixWithOthers', 'defaultToSpeaker'],
-            });
-            await NativeAudioManager.setAudioSessionActivity(true);
-            console.log('[MetronomeAudio] iOS audio session configured');
-          } catch (sessionErr) {
-            console.warn('[MetronomeAudio] Audio session config error:', sessionErr);
-          }
-        }
+      // Configure iOS audio session for mixing with other audio
+      await configureIosAudioSession({
+        iosCategory: 'playback',
+        iosMode: 'default',
+        iosOptions: ['mixWithOthers', 'defaultToSpeaker'],
+      });
 
-        console.log('[MetronomeAudio] Creating NativeAudioContext...');
-        audioContextRef.current = new NativeAudioContext({
-          sampleRate: AUDIO_SAMPLE_RATE,
-        });
-        console.log('[MetronomeAudio] AudioContext created');
-      }
+      // Create AudioContext (platform-aware)
+      audioContextRef.current = createAudioContext<AudioContext>(AUDIO_SAMPLE_RATE);
+      console.log('[MetronomeAudio] AudioContext created');
 
       // Load click sound buffers
       console.log('[MetronomeAudio] Loading audio buffers...');
-      const [accentBuffer, tickBuffer] = await Promise.all([
-        loadAudioBuffer(ACCENT_CLICK_ASSET),
-        loadAudioBuffer(TICK_CLICK_ASSET),
+      const soundNames = Object.keys(CLICK_SOUND_ASSETS) as ClickSound[];
+      const [subdivisionBuffer, ...soundBuffers] = await Promise.all([
+        loadAudioBuffer(SUBDIVISION_CLICK_ASSET),
+        ...soundNames.map(async (sound) => {
+          const [accent, tick] = await Promise.all([
+            loadAudioBuffer(CLICK_SOUND_ASSETS[sound].accent),
+            loadAudioBuffer(CLICK_SOUND_ASSETS[sound].tick),
+          ]);
+          return { sound, accent, tick };
+        }),
       ]);
-      console.log('[MetronomeAudio] Accent buffer:', !!accentBuffer);
-      console.log('[MetronomeAudio] Tick buffer:', !!tickBuffer);
+      console.log('[MetronomeAudio] Subdivision buffer:', !!subdivisionBuffer);
 
-      if (!accentBuffer || !tickBuffer) {
-        throw new Error(`Failed to load click sound buffers (accent: ${!!accentBuffer}, tick: ${!!tickBuffer})`);
+      // Only the default sound and the subdivision click are required
+      const defaultBuffers = soundBuffers.find(({ sound }) => sound === DEFAULT_CLICK_SOUND);
+      if (!defaultBuffers?.accent || !defaultBuffers.tick || !subdivisionBuffer) {
+        throw new Error('Failed to load click sound buffers');
+      }
+      const fallback = { accent: defaultBuffers.accent, tick: defaultBuffers.tick };
+
+      // Other sounds that fail to load play the default sound and can't be chosen
+      const unavailable = soundBuffers
+        .filter(({ accent, tick }) => !accent || !tick)
+        .map(({ sound }) => sound);
+      if (unavailable.length > 0) {
+        console.warn(
+          `[MetronomeAudio] Click sounds unavailable, using ${DEFAULT_CLICK_SOUND}:`,
+          unavailable.join(', ')
+        );
       }
 
-      accentBufferRef.current = accentBuffer;
-      tickBufferRef.current = tickBuffer;
+      clickBuffersRef.current = Object.fromEntries(
+        soundBuffers.map(({ sound, accent, tick }) => [
+          sound,
+          accent && tick ? { accent, tick } : fallback,
+        ])
+      ) as ClickBuffers;
+      subdivisionBufferRef.current = subdivisionBuffer;
+      setUnavailableClickSounds(unavailable);
 
       setIsReady(true);
       console.log('[MetronomeAudio] Initialized successfully');
@@ -183,16 +216,32 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
   /**
    * Schedule a click at the specified time
    */
-  const scheduleClick = useCallback((time: number, isAccent: boolean) => {
+  const scheduleClick = useCallback((time: number, click: ScheduledClick) => {
     const ctx = audioContextRef.current;
-    const buffer = isAccent ? accentBufferRef.current : tickBufferRef.current;
+    const buffers = clickBuffersRef.current;
+    const sounds = clickSoundsRef.current;
+    const buffer =
+      click.sound === 'accent'
+        ? buffers?.[sounds.accent].accent
+        : click.sound === 'subdivision'
+          ? subdivisionBufferRef.current
+          : buffers?.[sounds.normal].tick;
 
     if (!ctx || !buffer) return;
 
     // Create and configure buffer source
     const source = ctx.createBufferSource();
     source.buffer = buffer;
-    source.connect(ctx.destination);
+
+    // Route through a gain node for softer accents and subdivisions
+    if (click.gain < 1) {
+      const gainNode = ctx.createGain();
+      gainNode.gain.value = click.gain;
+      source.connect(gainNode);
+      gainNode.connect(ctx.destination);
+    } else {
+      source.connect(ctx.destination);
+    }
 
     // Schedule the click at the precise time
     source.start(time);
@@ -211,28 +260,46 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
 
     const lookaheadEnd = ctx.currentTime + METRONOME_CONFIG.lookaheadMs / 1000;
 
-    // Schedule all beats that fall within the lookahead window
+    // Schedule all clicks that fall within the lookahead window
     while (nextBeatTimeRef.current < lookaheadEnd) {
-      const beatTime = nextBeatTimeRef.current;
+      const meter = meterRef.current;
+      const clickTime = nextBeatTimeRef.current;
       const beatIndex = currentBeatRef.current;
-      const isAccent = beatIndex === 0;
+      const clickIndex = currentClickRef.current;
+      const barIndex = currentBarRef.current;
+
+      // Decide once per bar whether gap click mutes it
+      if (beatIndex === 0 && clickIndex === 0) {
+        isBarMutedRef.current = barMuteRef.current?.(barIndex) ?? false;
+      }
+      const isMuted = isBarMutedRef.current;
 
-      // Schedule the audio click
-      scheduleClick(beatTime, isAccent);
+      // Schedule the audio click (silent beats and muted bars schedule nothing)
+      const click = isMuted ? null : getClickSound(meter, beatIndex, clickIndex);
+      if (click) {
+        scheduleClick(clickTime, click);
+      }
 
-      // Schedule the callback for visual/haptic sync
+      // Schedule the callback for visual/haptic sync (beats only, including silent ones)
       // Calculate delay from now to beat time
-      const delayMs = Math.max(0, (beatTime - ctx.currentTime) * 1000);
-      setTimeout(() => {
-        if (isPlayingRef.current && onBeatCallbackRef.current) {
-          onBeatCallbackRef.current(beatIndex, isAccent);
-        }
-      }, delayMs);
+      if (clickIndex === 0) {
+        const accent: AccentLevel = isMuted ? 'silent' : meter.accents[beatIndex] ?? 'normal';
+        const delayMs = Math.max(0, (clickTime - ctx.currentTime) * 1000);
+        setTimeout(() => {
+          if (isPlayingRef.current && onBeatCallbackRef.current) {
+            onBeatCallbackRef.current(beatIndex, accent, barIndex);
+          }
+        }, delayMs);
+      }
 
-      // Advance to next beat
-      const secondsPerBeat = 60 / bpmRef.current;
-      nextBeatTimeRef.current += secondsPerBeat;
-      currentBeatRef.current = (currentBeatRef.current + 1) % 4; // 4/4 time for MVP
+      // Advance to next click
+      nextBeatTimeRef.current += getSecondsPerClick(bpmRef.current, meter.subdivision);
+      const next = getNextClick(meter, beatIndex, clickIndex);
+      if (next.beatIndex === 0 && next.clickIndex === 0) {
+        currentBarRef.current += 1;
+      }
+      currentBeatRef.current = next.beatIndex;
+      currentClickRef.current = next.clickIndex;
     }
 
     // Schedule next scheduler run
@@ -243,7 +310,11 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
    * Start metronome playback
    */
   const start = useCallback(
-    (bpm: number, onBeat: (beatIndex: number, isAccent: boolean) => void) => {
+    (
+      bpm: number,
+      meter: MeterSettings,
+      onBeat: (beatIndex: number, accent: AccentLevel, barIndex: number) => void
+    ) => {
       const ctx = audioContextRef.current;
       if (!ctx || !isReady) {
         console.warn('[MetronomeAudio] Cannot start - not initialized');
@@ -258,9 +329,12 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
       // Store callback and BPM
       onBeatCallbackRef.current = onBeat;
       bpmRef.current = bpm;
+      meterRef.current = meter;
 
       // Reset beat tracking
       currentBeatRef.current = 0;
+      currentClickRef.current = 0;
+      currentBarRef.current = 0;
 
       // Schedule first beat slightly in the future (50ms)
       nextBeatTimeRef.current = ctx.currentTime + 0.05;
@@ -299,6 +373,54 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
     );
   }, []);
 
+  /**
+   * Update meter during playback
+   * If the bar got shorter or the subdivision coarser, playback moves on to the next valid beat
+   */
+  const updateMeter = useCallback((meter: MeterSettings) => {
+    meterRef.current = meter;
+
+    if (currentClickRef.current >= SUBDIVISION_CLICKS[meter.subdivision]) {
+      currentClickRef.current = 0;
+      currentBeatRef.current += 1;
+    }
+    if (currentBeatRef.current >= meter.timeSignature.beats) {
+      currentBeatRef.current = 0;
+      currentBarRef.current += 1;
+    }
+  }, []);
+
+  /**
+   * Set which bars are muted (gap click)
+   */
+  const setBarMute = useCallback((isBarMuted: ((barIndex: number) => boolean) | null) => {
+    barMuteRef.current = isBarMuted;
+  }, []);
+
+  /**
+   * Set the accent and normal click sounds
+   */
+  const setClickSounds = useCallback((sounds: ClickSounds) => {
+    clickSoundsRef.current = sounds;
+  }, []);
+
+  /**
+   * Play a single accent or normal click right away
+   */
+  const previewClick = useCallback(
+    (slot: keyof ClickSounds) => {
+      const ctx = audioContextRef.current;
+      if (!ctx || !isReady) return;
+
+      if (ctx.state === 'suspended') {
+        ctx.resume();
+      }
+
+      scheduleClick(ctx.currentTime, { sound: slot === 'accent' ? 'accent' : 'tick', gain: 1 });
+    },
+    [isReady, scheduleClick]
+  );
+
   /**
    * Cleanup resources
    */
@@ -310,13 +432,13 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
       audioContextRef.current = null;
     }
 
-    accentBufferRef.current = null;
-    tickBufferRef.current = null;
+    clickBuffersRef.current = null;
+    subdivisionBufferRef.current = null;
     setIsReady(false);
 
     // Deactivate iOS audio session
-    if (NativeAudioManager && Platform.OS === 'ios') {
-      NativeAudioManager.setAudioSessionActivity(false).catch(() => {});
+    if (Platform.OS === 'ios') {
+      deactivateAudioSession();
     }
 
     console.log('[MetronomeAudio] Cleaned up');
@@ -331,9 +453,14 @@ export function useMetronomeAudio(): UseMetronomeAudioReturn {
   return {
     isReady,
     error,
+    unavailableClickSounds,
     start,
     stop,
     updateBpm,
+    updateMeter,
+    setClickSounds,
+    previewClick,
+    setBarMute,
     initialize,
     cleanup,
   };
@@ -0,0 +1,71 @@
+/**
+ * useMetronomeSetlist Hook
+ *
+ * Loads a setlist with each song's tempo and time signature, in setlist order,
+ * so the metronome can step through it during rehearsal.
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/utils/supabase/client';
+import { fetchSetlistSongs } from '@/hooks/useSetlists';
+import type { SetlistWithSongs } from '@/types/band';
+
+interface UseMetronomeSetlistReturn {
+  setlist: SetlistWithSongs | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Hook to load a setlist for the metronome
+ * Returns a null setlist when no setlistId is given
+ */
+export function useMetronomeSetlist(setlistId: string | undefined): UseMetronomeSetlistReturn {
+  const [setlist, setSetlist] = useState<SetlistWithSongs | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!setlistId) {
+      setSetlist(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadSetlist = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data: setlistData, error: setlistError } = await supabase
+          .from('setlists')
+          .select('*')
+          .eq('id', setlistId)
+          .single();
+
+        if (setlistError) throw setlistError;
+
+        const songs = await fetchSetlistSongs([setlistId]);
+        if (cancelled) return;
+
+        setSetlist({ ...setlistData, songs, song_count: songs.length });
+      } catch (err) {
+        console.error('Error loading metronome setlist:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load setlist');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadSetlist();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [setlistId]);
+
+  return { setlist, isLoading, error };
+}
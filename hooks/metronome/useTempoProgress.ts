@@ -0,0 +1,132 @@
+/**
+ * useTempoProgress Hook
+ *
+ * Loads and logs the tempos reached in metronome sessions started from a song,
+ * so speed improvements can be tracked over time.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/utils/supabase/client';
+import type { DbTempoSession } from '@/types/database';
+import type { MetronomeSessionSummary, TempoSession } from '@/types/metronome';
+
+/** Most recent sessions loaded for the progress view */
+const SESSION_LIMIT = 20;
+
+interface UseTempoProgressReturn {
+  /** Logged sessions, oldest first */
+  sessions: TempoSession[];
+  /** Fastest tempo reached in the loaded sessions */
+  bestBpm: number | null;
+  isLoading: boolean;
+  error: string | null;
+  logSession: (summary: MetronomeSessionSummary) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+function mapSession(row: DbTempoSession): TempoSession {
+  return {
+    id: row.id,
+    songId: row.song_id,
+    startBpm: row.start_bpm,
+    reachedBpm: row.reached_bpm,
+    targetBpm: row.target_bpm,
+    durationSeconds: row.duration_seconds,
+    practicedAt: row.practiced_at,
+  };
+}
+
+/**
+ * Hook to track tempo progress for a song
+ */
+export function useTempoProgress(songId: string | undefined): UseTempoProgressReturn {
+  const [sessions, setSessions] = useState<TempoSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    if (!songId) {
+      setSessions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setSessions([]);
+        return;
+      }
+
+      const { data, error: sessionsError } = await supabase
+        .from('tempo_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('song_id', songId)
+        .order('practiced_at', { ascending: false })
+        .limit(SESSION_LIMIT);
+
+      if (sessionsError) throw sessionsError;
+
+      setSessions((data || []).map(mapSession).reverse());
+    } catch (err) {
+      console.error('Error loading tempo sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tempo progress');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [songId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  /**
+   * Log a finished session against the song
+   */
+  const logSession = useCallback(
+    async (summary: MetronomeSessionSummary) => {
+      if (!songId) return;
+
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data, error: insertError } = await supabase
+          .from('tempo_sessions')
+          .insert({
+            user_id: user.id,
+            song_id: songId,
+            start_bpm: summary.startBpm,
+            reached_bpm: summary.reachedBpm,
+            target_bpm: summary.targetBpm,
+            duration_seconds: summary.durationSeconds,
+          })
+          .select()
+          .single();
+
+        if (insertError) throw insertError;
+
+        setSessions((prev) => [...prev, mapSession(data)].slice(-SESSION_LIMIT));
+      } catch (err) {
+        console.error('Error logging tempo session:', err);
+        throw err;
+      }
+    },
+    [songId]
+  );
+
+  const bestBpm =
+    sessions.length > 0 ? Math.max(...sessions.map((session) => session.reachedBpm)) : null;
+
+  return {
+    sessions,
+    bestBpm,
+    isLoading,
+    error,
+    logSession,
+    refresh: loadSessions,
+  };
+}
@@ -6,3 +6,10 @@
 
 export { usePitchDetection } from './usePitchDetection';
 export { useTuner } from './useTuner';
+export { useCustomTunings } from './useCustomTunings';
+export { useIntonationCheck } from './useIntonationCheck';
+export { useIntonationChecks } from './useIntonationChecks';
+export { useChordPractice } from './useChordPractice';
+export { useReferenceTone } from './useReferenceTone';
+export { usePitchTrainer } from './usePitchTrainer';
+export { usePitchTrainingSessions } from './usePitchTrainingSessions';
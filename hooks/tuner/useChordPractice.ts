@@ -0,0 +1,156 @@
+/**
+ * useChordPractice Hook
+ *
+ * Prompts a song's chords one at a time, in order. A chord is a hit once the
+ * running chroma matches it for CHORD_PRACTICE_CONFIG.holdFrames frames in a
+ * row; it's missed when time runs out or it's skipped.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import * as Haptics from 'expo-haptics';
+import { CHORD_PRACTICE_CONFIG } from '@/constants/TunerConfig';
+import { getPracticeChords, scoreChord } from '@/utils/tuning';
+import type {
+  ChordPracticeResult,
+  ChordPracticeStatus,
+  UseChordPracticeReturn,
+} from '@/types/tuner';
+
+const TIMEOUT_SECONDS = Math.round(CHORD_PRACTICE_CONFIG.timeoutMs / 1000);
+
+/**
+ * useChordPractice - Song chord prompts scored from chord recognition
+ * @param songChords The song's chord list (null/undefined when there's no song)
+ * @param chroma Running chroma vector from the tuner's chord mode
+ * @param isListening Whether the tuner is listening (the clock only runs while it is)
+ */
+export function useChordPractice(
+  songChords: string[] | null | undefined,
+  chroma: number[] | null,
+  isListening: boolean
+): UseChordPracticeReturn {
+  const chords = useMemo(() => getPracticeChords(songChords ?? []), [songChords]);
+
+  // State
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+  const [results, setResults] = useState<ChordPracticeResult[]>([]);
+  const [holdProgress, setHoldProgress] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState(TIMEOUT_SECONDS);
+
+  // Refs
+  const holdFramesRef = useRef(0);
+  const lastChromaRef = useRef<number[] | null>(null);
+
+  const currentChord = currentIndex !== null ? (chords[currentIndex] ?? null) : null;
+
+  /**
+   * Prompt a chord (null stops prompting)
+   */
+  const beginChord = useCallback((index: number | null) => {
+    setCurrentIndex(index);
+    setHoldProgress(0);
+    setSecondsLeft(TIMEOUT_SECONDS);
+    holdFramesRef.current = 0;
+  }, []);
+
+  /**
+   * Record the current chord's result and prompt the next one
+   */
+  const finishChord = useCallback(
+    (status: ChordPracticeStatus) => {
+      if (currentIndex === null || !currentChord) return;
+
+      setResults((prev) => [...prev, { chord: currentChord, status }]);
+      Haptics.notificationAsync(
+        status === 'hit'
+          ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Warning
+      );
+
+      const nextIndex = currentIndex + 1;
+      beginChord(nextIndex < chords.length ? nextIndex : null);
+    },
+    [currentIndex, currentChord, chords.length, beginChord]
+  );
+
+  /**
+   * Stop prompting and clear results
+   */
+  const reset = useCallback(() => {
+    setResults([]);
+    beginChord(null);
+  }, [beginChord]);
+
+  // Start over when the song changes
+  useEffect(() => {
+    reset();
+  }, [chords, reset]);
+
+  /**
+   * Count frames where the chroma matches the prompted chord
+   */
+  useEffect(() => {
+    if (!currentChord || !chroma) return;
+
+    // Each chroma frame counts once, even if the effect re-runs
+    if (chroma === lastChromaRef.current) return;
+    lastChromaRef.current = chroma;
+
+    const isMatch = (scoreChord(chroma, currentChord) ?? 0) >= CHORD_PRACTICE_CONFIG.hitScore;
+    holdFramesRef.current = isMatch ? holdFramesRef.current + 1 : 0;
+    setHoldProgress(Math.min(1, holdFramesRef.current / CHORD_PRACTICE_CONFIG.holdFrames));
+
+    if (holdFramesRef.current >= CHORD_PRACTICE_CONFIG.holdFrames) {
+      finishChord('hit');
+    }
+  }, [chroma, currentChord, finishChord]);
+
+  /**
+   * Count down the current chord while listening
+   */
+  useEffect(() => {
+    if (currentIndex === null || !isListening) return;
+
+    const interval = setInterval(() => {
+      setSecondsLeft((prev) => Math.max(0, prev - 1));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [currentIndex, isListening]);
+
+  // Out of time
+  useEffect(() => {
+    if (secondsLeft === 0) {
+      finishChord('missed');
+    }
+  }, [secondsLeft, finishChord]);
+
+  /**
+   * Start prompting from the first chord
+   */
+  const start = useCallback(() => {
+    if (chords.length === 0) return;
+    setResults([]);
+    beginChord(0);
+  }, [chords.length, beginChord]);
+
+  /**
+   * Mark the current chord missed and move on
+   */
+  const skip = useCallback(() => {
+    finishChord('missed');
+  }, [finishChord]);
+
+  return {
+    currentChord,
+    chords,
+    results,
+    isActive: currentChord !== null,
+    isComplete: chords.length > 0 && results.length === chords.length,
+    holdProgress,
+    secondsLeft,
+    start,
+    skip,
+    reset,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * useCustomTunings Hook
+ *
+ * Loads, saves and deletes the user's own tuner tunings (custom_tunings table).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/utils/supabase/client';
+import {
+  INSTRUMENT_TYPES,
+  createStrings,
+  type InstrumentType,
+  type StringConfig,
+  type TunerTuning,
+} from '@/constants/TunerConfig';
+import { getStringNotes } from '@/utils/tuning';
+import type { DbCustomTuning } from '@/types/database';
+
+interface UseCustomTuningsReturn {
+  tunings: TunerTuning[];
+  isLoading: boolean;
+  error: string | null;
+  saveTuning: (name: string, instrument: InstrumentType, strings: StringConfig[]) => Promise<TunerTuning>;
+  deleteTuning: (tuningId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Map a custom_tunings row to a tuner tuning
+ * Returns null for rows with an unknown instrument or unreadable notes
+ */
+function mapTuning(row: DbCustomTuning): TunerTuning | null {
+  const instrument = INSTRUMENT_TYPES.find((type) => type === row.instrument);
+  const strings = createStrings(row.notes);
+  if (!instrument || !strings || strings.length === 0) return null;
+
+  return { id: row.id, name: row.name, instrument, strings, isCustom: true };
+}
+
+/**
+ * Hook to manage the user's custom tunings
+ */
+export function useCustomTunings(): UseCustomTuningsReturn {
+  const [tunings, setTunings] = useState<TunerTuning[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTunings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setTunings([]);
+        return;
+      }
+
+      const { data, error: tuningsError } = await supabase
+        .from('custom_tunings')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (tuningsError) throw tuningsError;
+
+      setTunings(
+        (data || []).map(mapTuning).filter((tuning): tuning is TunerTuning => tuning !== null)
+      );
+    } catch (err) {
+      console.error('Error loading custom tunings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load custom tunings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTunings();
+  }, [loadTunings]);
+
+  /**
+   * Save a new custom tuning
+   */
+  const saveTuning = useCallback(
+    async (name: string, instrument: InstrumentType, strings: StringConfig[]): Promise<TunerTuning> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Sign in to save custom tunings');
+
+      const { data, error: insertError } = await supabase
+        .from('custom_tunings')
+        .insert({
+          user_id: user.id,
+          name: name.trim(),
+          instrument,
+          notes: getStringNotes(strings),
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error saving custom tuning:', insertError);
+        throw insertError;
+      }
+
+      const tuning = mapTuning(data);
+      if (!tuning) throw new Error('Saved tuning could not be read');
+
+      setTunings((prev) => [...prev, tuning]);
+      return tuning;
+    },
+    []
+  );
+
+  /**
+   * Delete a custom tuning
+   */
+  const deleteTuning = useCallback(async (tuningId: string) => {
+    const { error: deleteError } = await supabase
+      .from('custom_tunings')
+      .delete()
+      .eq('id', tuningId);
+
+    if (deleteError) {
+      console.error('Error deleting custom tuning:', deleteError);
+      throw deleteError;
+    }
+
+    setTunings((prev) => prev.filter((tuning) => tuning.id !== tuningId));
+  }, []);
+
+  return {
+    tunings,
+    isLoading,
+    error,
+    saveTuning,
+    deleteTuning,
+    refresh: loadTunings,
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * useIntonationCheck Hook
+ *
+ * Guided intonation setup. For each string (lowest first):
+ * 1. Play the 12th-fret harmonic - captured once the pitch is steady
+ * 2. Let it stop, then play the fretted 12th-fret note - captured the same way
+ * The cents between the two tell which way to move the saddle.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import * as Haptics from 'expo-haptics';
+import { usePitchDetection } from './usePitchDetection';
+import { useMicrophonePermission } from '@/contexts/MicrophonePermissionContext';
+import { A4_FREQUENCY, INTONATION_CONFIG, type StringConfig } from '@/constants/TunerConfig';
+import {
+  getIntonationOrder,
+  matchesIntonationString,
+  getIntonationCents,
+  getSteadyFrequency,
+  createIntonationResult,
+} from '@/utils/tuning';
+import type { IntonationResult, IntonationStep, UseIntonationCheckReturn } from '@/types/tuner';
+
+/**
+ * Next string to check after the given one, wrapping to any string still missing a result
+ */
+function getNextString(
+  order: StringConfig[],
+  results: IntonationResult[],
+  afterNumber: number | null
+): StringConfig | null {
+  const isPending = (str: StringConfig) =>
+    str.number !== afterNumber && !results.some((result) => result.stringNumber === str.number);
+  const afterIndex = order.findIndex((str) => str.number === afterNumber);
+
+  return (
+    order.slice(afterIndex + 1).find(isPending) ??
+    order.slice(0, afterIndex + 1).find(isPending) ??
+    null
+  );
+}
+
+/**
+ * useIntonationCheck - Guided 12th-fret intonation check
+ * @param strings String targets for the instrument's tuning
+ * @param a4Frequency Calibrated A4 reference
+ */
+export function useIntonationCheck(
+  strings: StringConfig[],
+  a4Frequency: number = A4_FREQUENCY
+): UseIntonationCheckReturn {
+  const pitchDetection = usePitchDetection(a4Frequency);
+  const { hasPermission, requestPermission } = useMicrophonePermission();
+  const order = useMemo(() => getIntonationOrder(strings), [strings]);
+
+  // State
+  const [results, setResults] = useState<IntonationResult[]>([]);
+  const [currentNumber, setCurrentNumber] = useState<number | null>(order[0]?.number ?? null);
+  const [step, setStep] = useState<IntonationStep>('harmonic');
+  const [liveCents, setLiveCents] = useState<number | null>(null);
+  const [captureProgress, setCaptureProgress] = useState(0);
+
+  // Refs
+  const samplesRef = useRef<number[]>([]);
+  const harmonicFrequencyRef = useRef<number | null>(null);
+  // After a capture, wait for the note to stop before listening for the next one
+  const awaitingReleaseRef = useRef(false);
+  const lastPitchTimestampRef = useRef<number | null>(null);
+
+  const currentString = order.find((str) => str.number === currentNumber) ?? null;
+
+  /**
+   * Start a string from its harmonic
+   */
+  const beginString = useCallback((stringNumber: number | null) => {
+    setCurrentNumber(stringNumber);
+    setStep('harmonic');
+    setLiveCents(null);
+    setCaptureProgress(0);
+    samplesRef.current = [];
+    harmonicFrequencyRef.current = null;
+  }, []);
+
+  /**
+   * Clear all results and start over from the lowest string
+   */
+  const reset = useCallback(() => {
+    setResults([]);
+    beginString(order[0]?.number ?? null);
+  }, [order, beginString]);
+
+  // Start over when the instrument or tuning changes
+  useEffect(() => {
+    reset();
+  }, [reset]);
+
+  /**
+   * Capture steady harmonic and fretted notes for the current string
+   */
+  useEffect(() => {
+    const rawPitch = pitchDetection.pitch;
+
+    if (!rawPitch) {
+      awaitingReleaseRef.current = false;
+      samplesRef.current = [];
+      setLiveCents(null);
+      setCaptureProgress(0);
+      return;
+    }
+
+    // Each detected frame counts once, even if the effect re-runs
+    if (rawPitch.timestamp === lastPitchTimestampRef.current) return;
+    lastPitchTimestampRef.current = rawPitch.timestamp;
+
+    if (!currentString || awaitingReleaseRef.current) return;
+
+    // Ignore notes from other strings
+    if (!matchesIntonationString(rawPitch.frequency, currentString, strings)) {
+      samplesRef.current = [];
+      setLiveCents(null);
+      setCaptureProgress(0);
+      return;
+    }
+
+    setLiveCents(getIntonationCents(currentString.frequency * 2, rawPitch.frequency));
+    samplesRef.current = [...samplesRef.current, rawPitch.frequency].slice(-INTONATION_CONFIG.minSamples);
+    setCaptureProgress(samplesRef.current.length / INTONATION_CONFIG.minSamples);
+
+    const captured = getSteadyFrequency(samplesRef.current);
+    if (captured === null) return;
+
+    awaitingReleaseRef.current = true;
+    samplesRef.current = [];
+    setCaptureProgress(0);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+    if (step === 'harmonic' || harmonicFrequencyRef.current === null) {
+      harmonicFrequencyRef.current = captured;
+      setStep('fretted');
+      return;
+    }
+
+    const result = createIntonationResult(currentString, harmonicFrequencyRef.current, captured);
+    const nextResults = [
+      ...results.filter((r) => r.stringNumber !== result.stringNumber),
+      result,
+    ].sort((a, b) => b.stringNumber - a.stringNumber);
+
+    setResults(nextResults);
+    beginString(getNextString(order, nextResults, currentString.number)?.number ?? null);
+  }, [pitchDetection.pitch, currentString, strings, step, results, order, beginString]);
+
+  /**
+   * Start listening (asks for the microphone first if needed)
+   */
+  const start = useCallback(async () => {
+    if (!hasPermission) {
+      const granted = await requestPermission();
+      if (!granted) return;
+    }
+    await pitchDetection.start();
+  }, [hasPermission, requestPermission, pitchDetection]);
+
+  /**
+   * Measure a string again
+   */
+  const redoString = useCallback(
+    (stringNumber: number) => {
+      beginString(stringNumber);
+    },
+    [beginString]
+  );
+
+  /**
+   * Skip the current string (comes back round if it still has no result)
+   */
+  const skipString = useCallback(() => {
+    const next = getNextString(order, results, currentNumber);
+    if (next) beginString(next.number);
+  }, [order, results, currentNumber, beginString]);
+
+  return {
+    isReady: pitchDetection.isReady,
+    isListening: pitchDetection.isListening,
+    error: pitchDetection.error,
+    currentString,
+    step,
+    liveCents,
+    captureProgress,
+    results,
+    isComplete: order.length > 0 && results.length === order.length,
+    start,
+    stop: pitchDetection.stop,
+    redoString,
+    skipString,
+    reset,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * useIntonationChecks Hook
+ *
+ * Loads, saves and deletes the user's intonation check history (intonation_checks table).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/utils/supabase/client';
+import { INSTRUMENT_TYPES, type InstrumentType } from '@/constants/TunerConfig';
+import type { DbIntonationCheck } from '@/types/database';
+import type { IntonationCheck, IntonationResult } from '@/types/tuner';
+
+interface SaveIntonationCheckInput {
+  instrumentName: string;
+  instrument: InstrumentType;
+  tuningName: string;
+  referencePitch: number;
+  results: IntonationResult[];
+}
+
+interface UseIntonationChecksReturn {
+  /** Saved checks, newest first */
+  checks: IntonationCheck[];
+  isLoading: boolean;
+  error: string | null;
+  saveCheck: (input: SaveIntonationCheckInput) => Promise<IntonationCheck>;
+  deleteCheck: (checkId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Map an intonation_checks row to a check
+ * Returns null for rows with an unknown instrument
+ */
+function mapCheck(row: DbIntonationCheck): IntonationCheck | null {
+  const instrument = INSTRUMENT_TYPES.find((type) => type === row.instrument);
+  if (!instrument) return null;
+
+  return {
+    id: row.id,
+    instrumentName: row.instrument_name,
+    instrument,
+    tuningName: row.tuning_name,
+    referencePitch: Number(row.reference_pitch),
+    results: row.results || [],
+    checkedAt: row.checked_at,
+  };
+}
+
+/**
+ * Hook to manage the user's saved intonation checks
+ */
+export function useIntonationChecks(): UseIntonationChecksReturn {
+  const [checks, setChecks] = useState<IntonationCheck[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChecks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setChecks([]);
+        return;
+      }
+
+      const { data, error: checksError } = await supabase
+        .from('intonation_checks')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('checked_at', { ascending: false });
+
+      if (checksError) throw checksError;
+
+      setChecks(
+        (data || []).map(mapCheck).filter((check): check is IntonationCheck => check !== null)
+      );
+    } catch (err) {
+      console.error('Error loading intonation checks:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load intonation checks');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChecks();
+  }, [loadChecks]);
+
+  /**
+   * Save a completed check
+   */
+  const saveCheck = useCallback(async (input: SaveIntonationCheckInput): Promise<IntonationCheck> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Sign in to save intonation checks');
+
+    const { data, error: insertError } = await supabase
+      .from('intonation_checks')
+      .insert({
+        user_id: user.id,
+        instrument_name: input.instrumentName.trim(),
+        instrument: input.instrument,
+        tuning_name: input.tuningName,
+        reference_pitch: input.referencePitch,
+        results: input.results,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error saving intonation check:', insertError);
+      throw insertError;
+    }
+
+    const check = mapCheck(data);
+    if (!check) throw new Error('Saved check could not be read');
+
+    setChecks((prev) => [check, ...prev]);
+    return check;
+  }, []);
+
+  /**
+   * Delete a saved check
+   */
+  const deleteCheck = useCallback(async (checkId: string) => {
+    const { error: deleteError } = await supabase
+      .from('intonation_checks')
+      .delete()
+      .eq('id', checkId);
+
+    if (deleteError) {
+      console.error('Error deleting intonation check:', deleteError);
+      throw deleteError;
+    }
+
+    setChecks((prev) => prev.filter((check) => check.id !== checkId));
+  }, []);
+
+  return {
+    checks,
+    isLoading,
+    error,
+    saveCheck,
+    deleteCheck,
+    refresh: loadChecks,
+  };
+}
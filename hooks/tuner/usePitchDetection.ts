@@ -3,6 +3,7 @@
  *
  * Core pitch detection engine using pitchy library with AnalyserNode.
  * Supports multi-rate processing for bass frequencies.
+ * Optionally captures the byte frequency spectrum for the strum check and chord recognition.
  *
  * Platform support:
  * - iOS/Android: react-native-audio-api with .measurement mode
@@ -23,35 +24,31 @@ import {
   MIN_FREQUENCY,
   MAX_FREQUENCY,
   ANALYSIS_RATE,
+  A4_FREQUENCY,
   frequencyToNote,
 } from '@/constants/TunerConfig';
+import {
+  createAudioContext,
+  configureIosAudioSession,
+  activateAndroidAudioSession,
+  deactivateAudioSession,
+} from '@/utils/audioContext';
 import type { PitchResult, UsePitchDetectionReturn } from '@/types/tuner';
 
-// Conditionally import react-native-audio-api for native platforms
-let NativeAudioContext: any;
-let NativeAudioManager: any;
-let audioApiLoadError: string | null = null;
-
-if (Platform.OS !== 'web') {
-  try {
-    const audioApi = require('react-native-audio-api');
-    NativeAudioContext = audioApi.AudioContext;
-    NativeAudioManager = audioApi.AudioManager;
-    console.log('[PitchDetection] react-native-audio-api loaded successfully');
-  } catch (e) {
-    audioApiLoadError = e instanceof Error ? e.message : 'Unknown error loading audio API';
-    console.warn('[PitchDetection] Failed to load react-native-audio-api:', e);
-  }
-}
-
 /**
  * usePitchDetection - Pitch detection engine
+ * @param a4Frequency Calibrated A4 reference used for note names and cents
+ * @param captureSpectrum Also publish the analyser's byte frequency spectrum each frame
  */
-export function usePitchDetection(): UsePitchDetectionReturn {
+export function usePitchDetection(
+  a4Frequency: number = A4_FREQUENCY,
+  captureSpectrum: boolean = false
+): UsePitchDetectionReturn {
   // State
   const [isReady, setIsReady] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [pitch, setPitch] = useState<PitchResult | null>(null);
+  const [spectrum, setSpectrum] = useState<Uint8Array | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Refs
@@ -62,7 +59,22 @@ export function usePitchDetection(): UsePitchDetectionReturn {
   const animationFrameRef = useRef<number | null>(null);
   const pitchDetectorRef = useRef<PitchDetector<Float32Array> | null>(null);
   const inputBufferRef = useRef<Float32Array | null>(null);
+  const spectrumBufferRef = useRef<Uint8Array | null>(null);
   const lastAnalysisTimeRef = useRef(0);
+  const a4FrequencyRef = useRef(a4Frequency);
+  const captureSpectrumRef = useRef(captureSpectrum);
+
+  // Analysis loop reads the reference through a ref so it can change while listening
+  useEffect(() => {
+    a4FrequencyRef.current = a4Frequency;
+  }, [a4Frequency]);
+
+  useEffect(() => {
+    captureSpectrumRef.current = captureSpectrum;
+    if (!captureSpectrum) {
+      setSpectrum(null);
+    }
+  }, [captureSpectrum]);
 
   /**
    * Initialize audio context and analyser
@@ -73,60 +85,19 @@ export function usePitchDetection(): UsePitchDetectionReturn {
       console.log('[PitchDetection] Starting initialization...');
       console.log('[PitchDetection] Platform:', Platform.OS);
 
-      // Create AudioContext (platform-aware)
-      if (Platform.OS === 'web') {
-        console.log('[PitchDetection] Using web AudioContext');
-        const AudioContextClass =
-          window.AudioContext ||
-          (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-        audioContextRef.current = new AudioContextClass({
-          sampleRate: TUNER_SAMPLE_RATE,
-        });
-      } else {
-        console.log('[PitchDetection] Using native AudioContext');
-
-        if (!NativeAudioContext) {
-          throw new Error(
-            audioApiLoadError
-              ? `react-native-audio-api failed to load: ${audioApiLoadError}`
-              : 'react-native-audio-api not available - ensure you are using a development build, not Expo Go'
-          );
-        }
-
-        // CRITICAL: Configure iOS audio session with .measurement mode
-        // This disables hardware high-pass filters that cut bass frequencies
-        if (NativeAudioManager && Platform.OS === 'ios') {
-          console.log('[PitchDetection] Configuring iOS audio session with MEASUREMENT mode...');
-          try {
-            NativeAudioManager.setAudioSessionOptions({
-              iosCategory: 'playAndRecord',
-              iosMode: 'measurement', // CRITICAL for bass frequencies
-              iosOptions: ['defaultToSpeaker', 'allowBluetooth'],
-            });
-            await NativeAudioManager.setAudioSessionActivity(true);
-            console.log('[PitchDetection] iOS audio session configured with measurement mode');
-          } catch (sessionErr) {
-            console.warn('[PitchDetection] Audio session config error:', sessionErr);
-          }
-        }
+      // CRITICAL: Configure iOS audio session with .measurement mode
+      // This disables hardware high-pass filters that cut bass frequencies
+      await configureIosAudioSession({
+        iosCategory: 'playAndRecord',
+        iosMode: 'measurement', // CRITICAL for bass frequencies
+        iosOptions: ['defaultToSpeaker', 'allowBluetooth'],
+      });
 
-        // Android audio session
-        if (NativeAudioManager && Platform.OS === 'android') {
-          console.log('[PitchDetection] Configuring Android audio session...');
-          try {
-            // Android doesn't have .measurement mode, but we configure for voice recognition
-            // which typically has less processing
-            await NativeAudioManager.setAudioSessionActivity(true);
-            console.log('[PitchDetection] Android audio session configured');
-          } catch (sessionErr) {
-            console.warn('[PitchDetection] Android audio session config error:', sessionErr);
-          }
-        }
+      // Android doesn't have .measurement mode; just activate the session
+      await activateAndroidAudioSession();
 
-        audioContextRef.current = new NativeAudioContext({
-          sampleRate: TUNER_SAMPLE_RATE,
-        });
-      }
+      // Create AudioContext (platform-aware)
+      audioContextRef.current = createAudioContext<AudioContext>(TUNER_SAMPLE_RATE);
 
       // Create analyser node with larger FFT for bass support
       const ctx = audioContextRef.current;
@@ -140,6 +111,7 @@ export function usePitchDetection(): UsePitchDetectionReturn {
 
       // Create input buffer for pitch detection
       inputBufferRef.current = new Float32Array(analyser.fftSize);
+      spectrumBufferRef.current = new Uint8Array(analyser.frequencyBinCount);
 
       // Create pitch detector from pitchy
       pitchDetectorRef.current = PitchDetector.forFloat32Array(analyser.fftSize);
@@ -261,7 +233,7 @@ export function usePitchDetection(): UsePitchDetectionReturn {
         frequency >= MIN_FREQUENCY &&
         frequency <= MAX_FREQUENCY
       ) {
-        const noteInfo = frequencyToNote(frequency);
+        const noteInfo = frequencyToNote(frequency, a4FrequencyRef.current);
 
         const result: PitchResult = {
           frequency,
@@ -278,6 +250,12 @@ export function usePitchDetection(): UsePitchDetectionReturn {
         // No valid pitch detected
         setPitch(null);
       }
+
+      // Strum check and chord recognition read the spectrum of the same window
+      if (captureSpectrumRef.current && spectrumBufferRef.current) {
+        analyserRef.current.getByteFrequencyData(spectrumBufferRef.current as Uint8Array<ArrayBuffer>);
+        setSpectrum(spectrumBufferRef.current.slice());
+      }
     }
 
     // Continue loop
@@ -310,6 +288,7 @@ export function usePitchDetection(): UsePitchDetectionReturn {
 
     setIsListening(false);
     setPitch(null);
+    setSpectrum(null);
 
     console.log('[PitchDetection] Stopped');
   }, []);
@@ -328,11 +307,10 @@ export function usePitchDetection(): UsePitchDetectionReturn {
     analyserRef.current = null;
     pitchDetectorRef.current = null;
     inputBufferRef.current = null;
+    spectrumBufferRef.current = null;
 
     // Deactivate audio session on iOS
-    if (NativeAudioManager && Platform.OS !== 'web') {
-      NativeAudioManager.setAudioSessionActivity(false).catch(() => {});
-    }
+    deactivateAudioSession();
 
     setIsReady(false);
     console.log('[PitchDetection] Cleaned up');
@@ -350,6 +328,7 @@ export function usePitchDetection(): UsePitchDetectionReturn {
   return {
     isReady,
     pitch,
+    spectrum,
     error,
     start,
     stop,
@@ -0,0 +1,253 @@
+/**
+ * usePitchTrainer Hook
+ *
+ * Pitch-accuracy trainer for singers and fretless bass. Each attempt:
+ * 1. Plays the target as a reference tone
+ * 2. Listens for the user's note and scores the first PITCH_TRAINER_CONFIG.holdMs of it
+ * The detector is sampled at ANALYSIS_RATE so the pitch trace keeps scrolling
+ * through silence; scores accumulate for the session until reset.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import * as Haptics from 'expo-haptics';
+import { usePitchDetection } from './usePitchDetection';
+import { useReferenceTone } from './useReferenceTone';
+import { useMicrophonePermission } from '@/contexts/MicrophonePermissionContext';
+import { A4_FREQUENCY, ANALYSIS_RATE, PITCH_TRAINER_CONFIG } from '@/constants/TunerConfig';
+import {
+  getToneFrequency,
+  getTargetCents,
+  scorePitchHold,
+  trimPitchTrace,
+} from '@/utils/tuning';
+import type {
+  PitchAttempt,
+  PitchResult,
+  PitchTraceSample,
+  TrainerInstrument,
+  TrainerNote,
+  TrainerPhase,
+  UsePitchTrainerReturn,
+} from '@/types/tuner';
+
+/**
+ * usePitchTrainer - Reference tone, then score the held note
+ * @param target Note to train (null before one is chosen)
+ * @param instrument Trainer instrument (bass tones play an octave up)
+ * @param windowCents Cent window either side of the target
+ * @param a4Frequency Calibrated A4 reference
+ */
+export function usePitchTrainer(
+  target: TrainerNote | null,
+  instrument: TrainerInstrument,
+  windowCents: number,
+  a4Frequency: number = A4_FREQUENCY
+): UsePitchTrainerReturn {
+  const pitchDetection = usePitchDetection(a4Frequency);
+  const { play: playReference, stop: stopReference, error: toneError } = useReferenceTone();
+  const { hasPermission, requestPermission } = useMicrophonePermission();
+
+  // State
+  const [phase, setPhaseState] = useState<TrainerPhase>('idle');
+  const [trace, setTrace] = useState<PitchTraceSample[]>([]);
+  const [holdProgress, setHoldProgress] = useState(0);
+  const [lastAttempt, setLastAttempt] = useState<PitchAttempt | null>(null);
+  const [attempts, setAttempts] = useState<PitchAttempt[]>([]);
+
+  // Refs (read from the sampling interval)
+  const phaseRef = useRef<TrainerPhase>('idle');
+  const targetRef = useRef(target);
+  const windowCentsRef = useRef(windowCents);
+  const pitchRef = useRef<PitchResult | null>(null);
+  const holdStartRef = useRef<number | null>(null);
+  const holdCentsRef = useRef<number[]>([]);
+  const listenTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped whenever an attempt is abandoned, so its pending tone step is dropped
+  const attemptIdRef = useRef(0);
+
+  targetRef.current = target;
+  windowCentsRef.current = windowCents;
+
+  useEffect(() => {
+    pitchRef.current = pitchDetection.pitch;
+  }, [pitchDetection.pitch]);
+
+  const setPhase = useCallback((next: TrainerPhase) => {
+    phaseRef.current = next;
+    setPhaseState(next);
+  }, []);
+
+  const clearListenTimeout = useCallback(() => {
+    if (listenTimeoutRef.current) {
+      clearTimeout(listenTimeoutRef.current);
+      listenTimeoutRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Score the hold heard so far (no score if too little was heard)
+   */
+  const finishAttempt = useCallback(() => {
+    clearListenTimeout();
+    const current = targetRef.current;
+    const scored = scorePitchHold(holdCentsRef.current, windowCentsRef.current);
+    const attempt =
+      scored && current ? { note: current.note, octave: current.octave, ...scored } : null;
+
+    setLastAttempt(attempt);
+    if (attempt) {
+      setAttempts((prev) => [...prev, attempt]);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    setHoldProgress(attempt ? 1 : 0);
+    setPhase('scored');
+  }, [clearListenTimeout, setPhase]);
+
+  /**
+   * Sample the detector for the trace and the hold
+   */
+  const tick = useCallback(() => {
+    const now = performance.now();
+    const pitch = pitchRef.current;
+    const current = targetRef.current;
+    // The reference tone itself would be heard as the user's note
+    const cents =
+      pitch && current && phaseRef.current !== 'tone'
+        ? getTargetCents(pitch.frequency, current)
+        : null;
+
+    setTrace((prev) => trimPitchTrace([...prev, { time: now, cents }], now));
+
+    if (phaseRef.current !== 'listening' || cents === null) return;
+
+    if (holdStartRef.current === null) {
+      holdStartRef.current = now;
+      clearListenTimeout();
+    }
+    holdCentsRef.current.push(cents);
+
+    const progress = (now - holdStartRef.current) / PITCH_TRAINER_CONFIG.holdMs;
+    setHoldProgress(Math.min(1, progress));
+    if (progress >= 1) {
+      finishAttempt();
+    }
+  }, [clearListenTimeout, finishAttempt]);
+
+  useEffect(() => {
+    if (!pitchDetection.isListening) return;
+
+    const interval = setInterval(tick, 1000 / ANALYSIS_RATE);
+    return () => clearInterval(interval);
+  }, [pitchDetection.isListening, tick]);
+
+  /**
+   * Play the target, then listen for it held
+   */
+  const startAttempt = useCallback(async () => {
+    const current = targetRef.current;
+    if (!current) return;
+
+    if (!hasPermission) {
+      const granted = await requestPermission();
+      if (!granted) return;
+    }
+    if (!pitchDetection.isListening) {
+      await pitchDetection.start();
+    }
+
+    const attemptId = ++attemptIdRef.current;
+    clearListenTimeout();
+    setLastAttempt(null);
+    setHoldProgress(0);
+    setPhase('tone');
+
+    await playReference(getToneFrequency(current, instrument), PITCH_TRAINER_CONFIG.toneMs);
+    await new Promise((resolve) => setTimeout(resolve, PITCH_TRAINER_CONFIG.toneReleaseMs));
+    if (attemptId !== attemptIdRef.current) return;
+
+    holdStartRef.current = null;
+    holdCentsRef.current = [];
+    setPhase('listening');
+    listenTimeoutRef.current = setTimeout(finishAttempt, PITCH_TRAINER_CONFIG.listenTimeoutMs);
+  }, [
+    hasPermission,
+    requestPermission,
+    pitchDetection,
+    clearListenTimeout,
+    setPhase,
+    playReference,
+    instrument,
+    finishAttempt,
+  ]);
+
+  /**
+   * Abandon the current attempt
+   */
+  const cancelAttempt = useCallback(() => {
+    attemptIdRef.current += 1;
+    clearListenTimeout();
+    stopReference();
+    setHoldProgress(0);
+    setPhase('idle');
+  }, [clearListenTimeout, stopReference, setPhase]);
+
+  /**
+   * Play the target tone again without scoring
+   */
+  const playTone = useCallback(async () => {
+    const current = targetRef.current;
+    const previous = phaseRef.current;
+    if (!current || previous === 'tone' || previous === 'listening') return;
+
+    const attemptId = attemptIdRef.current;
+    setPhase('tone');
+    await playReference(getToneFrequency(current, instrument), PITCH_TRAINER_CONFIG.toneMs);
+    if (attemptId === attemptIdRef.current) {
+      setPhase(previous);
+    }
+  }, [setPhase, playReference, instrument]);
+
+  /**
+   * Stop listening and playback
+   */
+  const { stop: stopDetection } = pitchDetection;
+  const stop = useCallback(() => {
+    cancelAttempt();
+    stopDetection();
+    setTrace([]);
+  }, [cancelAttempt, stopDetection]);
+
+  /**
+   * Clear the session's attempts
+   */
+  const resetSession = useCallback(() => {
+    setAttempts([]);
+    setLastAttempt(null);
+  }, []);
+
+  // A new target abandons the attempt in progress
+  const targetKey = target ? `${target.midi}:${target.frequency}` : null;
+  useEffect(() => {
+    cancelAttempt();
+    setLastAttempt(null);
+    setTrace([]);
+  }, [targetKey, cancelAttempt]);
+
+  // Clear the listen timeout on unmount
+  useEffect(() => clearListenTimeout, [clearListenTimeout]);
+
+  return {
+    isReady: pitchDetection.isReady,
+    error: pitchDetection.error ?? toneError,
+    isListening: pitchDetection.isListening,
+    phase,
+    trace,
+    holdProgress,
+    lastAttempt,
+    attempts,
+    startAttempt,
+    playTone,
+    stop,
+    resetSession,
+  };
+}
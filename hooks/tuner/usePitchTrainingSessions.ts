@@ -0,0 +1,158 @@
+/**
+ * usePitchTrainingSessions Hook
+ *
+ * Loads, saves and deletes the user's pitch trainer sessions (pitch_training_sessions table).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/utils/supabase/client';
+import { getSessionAverage } from '@/utils/tuning';
+import type { DbPitchTrainingSession } from '@/types/database';
+import type { PitchAttempt, PitchTrainingSession, TrainerInstrument } from '@/types/tuner';
+
+const TRAINER_INSTRUMENTS: TrainerInstrument[] = ['vocals', 'bass'];
+
+interface SavePitchTrainingSessionInput {
+  instrument: TrainerInstrument;
+  windowCents: number;
+  referencePitch: number;
+  songTitle: string | null;
+  attempts: PitchAttempt[];
+}
+
+interface UsePitchTrainingSessionsReturn {
+  /** Saved sessions, newest first */
+  sessions: PitchTrainingSession[];
+  isLoading: boolean;
+  error: string | null;
+  saveSession: (input: SavePitchTrainingSessionInput) => Promise<PitchTrainingSession>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Map a pitch_training_sessions row to a session
+ * Returns null for rows with an unknown instrument
+ */
+function mapSession(row: DbPitchTrainingSession): PitchTrainingSession | null {
+  const instrument = TRAINER_INSTRUMENTS.find((type) => type === row.instrument);
+  if (!instrument) return null;
+
+  return {
+    id: row.id,
+    instrument,
+    windowCents: row.window_cents,
+    referencePitch: Number(row.reference_pitch),
+    songTitle: row.song_title,
+    attempts: row.attempts || [],
+    averageScore: row.average_score,
+    practicedAt: row.practiced_at,
+  };
+}
+
+/**
+ * Hook to manage the user's saved pitch training sessions
+ */
+export function usePitchTrainingSessions(): UsePitchTrainingSessionsReturn {
+  const [sessions, setSessions] = useState<PitchTrainingSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        setSessions([]);
+        return;
+      }
+
+      const { data, error: sessionsError } = await supabase
+        .from('pitch_training_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('practiced_at', { ascending: false });
+
+      if (sessionsError) throw sessionsError;
+
+      setSessions(
+        (data || [])
+          .map(mapSession)
+          .filter((session): session is PitchTrainingSession => session !== null)
+      );
+    } catch (err) {
+      console.error('Error loading pitch training sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load pitch training sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  /**
+   * Save a session's attempts
+   */
+  const saveSession = useCallback(
+    async (input: SavePitchTrainingSessionInput): Promise<PitchTrainingSession> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Sign in to save training sessions');
+
+      const { data, error: insertError } = await supabase
+        .from('pitch_training_sessions')
+        .insert({
+          user_id: user.id,
+          instrument: input.instrument,
+          window_cents: input.windowCents,
+          reference_pitch: input.referencePitch,
+          song_title: input.songTitle,
+          attempts: input.attempts,
+          average_score: getSessionAverage(input.attempts),
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error saving pitch training session:', insertError);
+        throw insertError;
+      }
+
+      const session = mapSession(data);
+      if (!session) throw new Error('Saved session could not be read');
+
+      setSessions((prev) => [session, ...prev]);
+      return session;
+    },
+    []
+  );
+
+  /**
+   * Delete a saved session
+   */
+  const deleteSession = useCallback(async (sessionId: string) => {
+    const { error: deleteError } = await supabase
+      .from('pitch_training_sessions')
+      .delete()
+      .eq('id', sessionId);
+
+    if (deleteError) {
+      console.error('Error deleting pitch training session:', deleteError);
+      throw deleteError;
+    }
+
+    setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+  }, []);
+
+  return {
+    sessions,
+    isLoading,
+    error,
+    saveSession,
+    deleteSession,
+    refresh: loadSessions,
+  };
+}
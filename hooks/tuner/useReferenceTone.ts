@@ -0,0 +1,138 @@
+/**
+ * useReferenceTone Hook
+ *
+ * Plays a sine reference tone for the pitch trainer through its own
+ * AudioContext (the pitch detector's context only records).
+ * Short fades at both ends keep the tone from clicking.
+ *
+ * Platform support:
+ * - iOS/Android: react-native-audio-api
+ * - Web: Native Web Audio API
+ */
+
+import { useRef, useCallback, useState, useEffect } from 'react';
+import { TUNER_SAMPLE_RATE } from '@/constants/TunerConfig';
+import { createAudioContext } from '@/utils/audioContext';
+
+/** Fade in/out length (seconds) */
+const FADE_SECONDS = 0.03;
+
+/** Tone level (0-1) */
+const TONE_GAIN = 0.4;
+
+interface UseReferenceToneReturn {
+  /** Whether a tone is playing */
+  isPlaying: boolean;
+  /** Playback error */
+  error: string | null;
+  /** Play a tone; resolves when it has finished */
+  play: (frequency: number, durationMs: number) => Promise<void>;
+  /** Stop the tone early */
+  stop: () => void;
+}
+
+/**
+ * useReferenceTone - Sine reference tone playback
+ */
+export function useReferenceTone(): UseReferenceToneReturn {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const oscillatorRef = useRef<OscillatorNode | null>(null);
+  const finishRef = useRef<(() => void) | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * Create the audio context on first use (platform-aware)
+   */
+  const getContext = useCallback((): AudioContext => {
+    if (audioContextRef.current) return audioContextRef.current;
+
+    audioContextRef.current = createAudioContext<AudioContext>(TUNER_SAMPLE_RATE);
+    return audioContextRef.current;
+  }, []);
+
+  /**
+   * Stop the tone early
+   */
+  const stop = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    try {
+      oscillatorRef.current?.stop();
+    } catch {
+      // Already stopped
+    }
+    oscillatorRef.current = null;
+    setIsPlaying(false);
+
+    const finish = finishRef.current;
+    finishRef.current = null;
+    finish?.();
+  }, []);
+
+  /**
+   * Play a tone; resolves when it has finished (or was stopped)
+   */
+  const play = useCallback(
+    async (frequency: number, durationMs: number) => {
+      stop();
+
+      try {
+        setError(null);
+        const ctx = getContext();
+        if (ctx.state === 'suspended') {
+          await ctx.resume();
+        }
+
+        const seconds = durationMs / 1000;
+        const startTime = ctx.currentTime;
+        const oscillator = ctx.createOscillator();
+        const gainNode = ctx.createGain();
+
+        oscillator.type = 'sine';
+        oscillator.frequency.value = frequency;
+        gainNode.gain.setValueAtTime(0, startTime);
+        gainNode.gain.linearRampToValueAtTime(TONE_GAIN, startTime + FADE_SECONDS);
+        gainNode.gain.setValueAtTime(TONE_GAIN, startTime + seconds - FADE_SECONDS);
+        gainNode.gain.linearRampToValueAtTime(0, startTime + seconds);
+
+        oscillator.connect(gainNode);
+        gainNode.connect(ctx.destination);
+        oscillator.start(startTime);
+        oscillator.stop(startTime + seconds);
+
+        oscillatorRef.current = oscillator;
+        setIsPlaying(true);
+
+        await new Promise<void>((resolve) => {
+          finishRef.current = resolve;
+          timeoutRef.current = setTimeout(stop, durationMs);
+        });
+      } catch (e) {
+        console.error('[ReferenceTone] Playback failed:', e);
+        setError(e instanceof Error ? e.message : 'Could not play the reference tone');
+        setIsPlaying(false);
+      }
+    },
+    [getContext, stop]
+  );
+
+  /**
+   * Release the audio context on unmount
+   */
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+    };
+  }, []);
+
+  return { isPlaying, error, play, stop };
+}
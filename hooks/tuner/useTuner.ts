@@ -4,27 +4,51 @@
  * High-level tuner state management that integrates:
  * - Pitch detection
  * - Microphone permission
- * - Instrument selection
+ * - Instrument and tuning selection (library and custom tunings)
+ * - Song tuning preselection when opened from a song
+ * - Calibrated A4 reference (saved in settings) with auto-calibration
  * - Kalman filtering for smooth needle movement
  * - Target string detection
+ * - Strum check and chord recognition from the spectrum
  */
 
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import * as Haptics from 'expo-haptics';
 import { usePitchDetection } from './usePitchDetection';
+import { useCustomTunings } from './useCustomTunings';
 import { useMicrophonePermission } from '@/contexts/MicrophonePermissionContext';
 import {
   type InstrumentType,
-  getInstrumentStrings,
+  type StringConfig,
   findClosestString,
   KALMAN_CONFIG,
   IN_TUNE_THRESHOLD,
+  CALIBRATION_CONFIG,
 } from '@/constants/TunerConfig';
+import {
+  clampReferencePitch,
+  findTunerTuning,
+  getCalibrationReference,
+  getReferenceStrings,
+  getStandardTuning,
+  getTuningsForInstrument,
+  analyzeStrum,
+  smoothStrumResults,
+  computeChroma,
+  smoothChroma,
+  matchChord,
+} from '@/utils/tuning';
+import { useSettings } from '@/hooks/useSettings';
 import type {
   TunerState,
+  UseTunerOptions,
   UseTunerReturn,
   SmoothedPitchResult,
   KalmanState,
+  TunerDisplayMode,
+  TunerMode,
+  StrumStringResult,
+  ChordMatch,
 } from '@/types/tuner';
 
 /**
@@ -90,26 +114,92 @@ class KalmanFilter {
 /**
  * useTuner - Main tuner hook
  */
-export function useTuner(): UseTunerReturn {
+export function useTuner(options: UseTunerOptions = {}): UseTunerReturn {
+  const { songTuning, songInstrument } = options;
+
+  // Calibrated reference pitch (persisted in app settings)
+  const { settings, updateSettings } = useSettings();
+  const referencePitch = settings.tunerReferencePitch;
+
+  // Single-string, strum check or chord recognition (the last two read the spectrum as well)
+  const [mode, setModeState] = useState<TunerMode>('single');
+
   // Pitch detection
-  const pitchDetection = usePitchDetection();
+  const pitchDetection = usePitchDetection(referencePitch, mode !== 'single');
 
   // Microphone permission
   const { hasPermission, requestPermission: requestMicPermission } = useMicrophonePermission();
 
   // State
-  const [instrument, setInstrumentState] = useState<InstrumentType>('guitar');
+  const [instrument, setInstrumentState] = useState<InstrumentType>(songInstrument ?? 'guitar');
+  const [tuningId, setTuningId] = useState('standard');
   const [smoothedPitch, setSmoothedPitch] = useState<SmoothedPitchResult | null>(null);
   const [isInTune, setIsInTune] = useState(false);
   const [targetString, setTargetString] = useState<ReturnType<typeof findClosestString>>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+  const [strumResults, setStrumResults] = useState<StrumStringResult[]>([]);
+  const [chroma, setChroma] = useState<number[] | null>(null);
 
   // Refs
   const kalmanFilterRef = useRef(new KalmanFilter());
   const lastCentsRef = useRef<number | null>(null);
   const wasInTuneRef = useRef(false);
+  const preselectedTuningRef = useRef<string | null>(null);
+  const isCalibratingRef = useRef(false);
+  const calibrationSamplesRef = useRef<number[]>([]);
+  const calibrationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Tunings for current instrument (library + user's custom tunings)
+  const customTunings = useCustomTunings();
+  const tunings = useMemo(
+    () => getTuningsForInstrument(instrument, customTunings.tunings),
+    [instrument, customTunings.tunings]
+  );
+  const tuning = useMemo(
+    () => tunings.find((t) => t.id === tuningId) ?? getStandardTuning(instrument),
+    [tunings, tuningId, instrument]
+  );
+  // String targets at the calibrated reference
+  const strings = useMemo(
+    () => getReferenceStrings(tuning.strings, referencePitch),
+    [tuning.strings, referencePitch]
+  );
+
+  /**
+   * Set the reference pitch (clamped to 415-466 Hz)
+   */
+  const setReferencePitch = useCallback(
+    (a4Frequency: number) => {
+      updateSettings({ tunerReferencePitch: clampReferencePitch(a4Frequency) });
+      kalmanFilterRef.current.reset();
+      lastCentsRef.current = null;
+    },
+    [updateSettings]
+  );
+
+  /**
+   * Switch between needle and strobe display
+   */
+  const setDisplayMode = useCallback(
+    (mode: TunerDisplayMode) => {
+      updateSettings({ tunerDisplayMode: mode });
+    },
+    [updateSettings]
+  );
 
-  // Get strings for current instrument
-  const strings = useMemo(() => getInstrumentStrings(instrument), [instrument]);
+  /**
+   * End auto-calibration (found, cancelled or timed out)
+   */
+  const endCalibration = useCallback(() => {
+    if (calibrationTimeoutRef.current) {
+      clearTimeout(calibrationTimeoutRef.current);
+      calibrationTimeoutRef.current = null;
+    }
+    isCalibratingRef.current = false;
+    calibrationSamplesRef.current = [];
+    setIsCalibrating(false);
+  }, []);
 
   /**
    * Process raw pitch and apply Kalman filtering
@@ -118,6 +208,9 @@ export function useTuner(): UseTunerReturn {
     const rawPitch = pitchDetection.pitch;
 
     if (!rawPitch) {
+      // Calibration needs an unbroken sustained note
+      calibrationSamplesRef.current = [];
+
       // No pitch detected - reset after a short delay to avoid flickering
       const timeout = setTimeout(() => {
         setSmoothedPitch(null);
@@ -128,6 +221,18 @@ export function useTuner(): UseTunerReturn {
       return () => clearTimeout(timeout);
     }
 
+    // Auto-calibration: set the reference once a steady A has been heard
+    if (isCalibratingRef.current) {
+      calibrationSamplesRef.current.push(rawPitch.frequency);
+      const calibrated = getCalibrationReference(calibrationSamplesRef.current);
+      if (calibrated !== null) {
+        endCalibration();
+        setReferencePitch(calibrated);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        return;
+      }
+    }
+
     // Find closest target string
     const closest = findClosestString(rawPitch.frequency, strings);
     setTargetString(closest);
@@ -166,18 +271,116 @@ export function useTuner(): UseTunerReturn {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     }
     wasInTuneRef.current = nowInTune;
-  }, [pitchDetection.pitch, strings]);
+  }, [pitchDetection.pitch, strings, endCalibration, setReferencePitch]);
+
+  /**
+   * Strum check: read every string of the active tuning from the spectrum
+   */
+  useEffect(() => {
+    const spectrum = pitchDetection.spectrum;
+    if (mode !== 'strum' || !spectrum) return;
+
+    setStrumResults((prev) => smoothStrumResults(prev, analyzeStrum(spectrum, strings)));
+  }, [pitchDetection.spectrum, strings, mode]);
+
+  /**
+   * Chord recognition: fold the spectrum into a running chroma vector
+   */
+  useEffect(() => {
+    const spectrum = pitchDetection.spectrum;
+    if (mode !== 'chord' || !spectrum) return;
+
+    setChroma((prev) => smoothChroma(prev, computeChroma(spectrum, referencePitch)));
+  }, [pitchDetection.spectrum, referencePitch, mode]);
+
+  const chordMatch = useMemo<ChordMatch | null>(
+    () => (chroma ? matchChord(chroma) : null),
+    [chroma]
+  );
 
   /**
-   * Change instrument
+   * Switch between single-string tuning, the strum check and chord recognition
+   */
+  const setMode = useCallback((newMode: TunerMode) => {
+    setModeState(newMode);
+    setStrumResults([]);
+    setChroma(null);
+  }, []);
+
+  /**
+   * Change instrument (back to its standard tuning)
    */
   const setInstrument = useCallback((newInstrument: InstrumentType) => {
     setInstrumentState(newInstrument);
+    setTuningId('standard');
     // Reset Kalman filter when changing instrument
     kalmanFilterRef.current.reset();
     lastCentsRef.current = null;
   }, []);
 
+  /**
+   * Change tuning
+   */
+  const setTuning = useCallback((newTuningId: string) => {
+    setTuningId(newTuningId);
+    kalmanFilterRef.current.reset();
+    lastCentsRef.current = null;
+  }, []);
+
+  /**
+   * Preselect the song's tuning once per song
+   * Waits for custom tunings to load in case the song uses one of them.
+   */
+  useEffect(() => {
+    if (!songTuning) return;
+    const songKey = `${songInstrument ?? ''}:${songTuning}`;
+    if (preselectedTuningRef.current === songKey) return;
+
+    const targetInstrument = songInstrument ?? instrument;
+    const match = findTunerTuning(songTuning, targetInstrument, customTunings.tunings);
+    if (!match && customTunings.isLoading) return;
+
+    preselectedTuningRef.current = songKey;
+    setInstrument(targetInstrument);
+    if (match) {
+      setTuning(match.id);
+    }
+  }, [
+    songTuning,
+    songInstrument,
+    instrument,
+    customTunings.tunings,
+    customTunings.isLoading,
+    setInstrument,
+    setTuning,
+  ]);
+
+  /**
+   * Save a custom tuning for the current instrument and select it
+   */
+  const { saveTuning, deleteTuning } = customTunings;
+  const saveCustomTuning = useCallback(
+    async (name: string, tuningStrings: StringConfig[]) => {
+      const saved = await saveTuning(name, instrument, tuningStrings);
+      setTuning(saved.id);
+      return saved;
+    },
+    [saveTuning, instrument, setTuning]
+  );
+
+  /**
+   * Delete a custom tuning
+   */
+  const deleteCustomTuning = useCallback(
+    async (customTuningId: string) => {
+      await deleteTuning(customTuningId);
+      if (customTuningId === tuningId) {
+        setTuning('standard');
+      }
+    },
+    [deleteTuning, tuningId, setTuning]
+  );
+
   /**
    * Request microphone permission
    */
@@ -207,11 +410,13 @@ export function useTuner(): UseTunerReturn {
    * Stop tuner
    */
   const stop = useCallback(() => {
+    endCalibration();
     pitchDetection.stop();
+    setChroma(null);
     setSmoothedPitch(null);
     setIsInTune(false);
     setTargetString(null);
-  }, [pitchDetection]);
+  }, [pitchDetection, endCalibration]);
 
   /**
    * Toggle tuner
@@ -224,9 +429,46 @@ export function useTuner(): UseTunerReturn {
     }
   }, [pitchDetection.isListening, start, stop]);
 
+  /**
+   * Auto-calibrate: listen for a sustained A and set the reference from it
+   * Gives up after CALIBRATION_CONFIG.timeoutMs without a steady A.
+   */
+  const startCalibration = useCallback(async () => {
+    if (!hasPermission) {
+      const granted = await requestPermission();
+      if (!granted) return;
+    }
+
+    endCalibration();
+    setCalibrationError(null);
+    isCalibratingRef.current = true;
+    setIsCalibrating(true);
+
+    calibrationTimeoutRef.current = setTimeout(() => {
+      endCalibration();
+      setCalibrationError('No steady A was heard. Play and hold an A, then try again.');
+    }, CALIBRATION_CONFIG.timeoutMs);
+
+    if (!pitchDetection.isListening) {
+      await start();
+    }
+  }, [hasPermission, requestPermission, endCalibration, pitchDetection.isListening, start]);
+
+  /**
+   * Clear calibration timeout on unmount
+   */
+  useEffect(() => {
+    return () => {
+      if (calibrationTimeoutRef.current) {
+        clearTimeout(calibrationTimeoutRef.current);
+      }
+    };
+  }, []);
+
   // Build tuner state
   const state: TunerState = {
     instrument,
+    tuningId: tuning.id,
     rawPitch: pitchDetection.pitch,
     smoothedPitch,
     targetString: targetString?.string ?? null,
@@ -244,6 +486,24 @@ export function useTuner(): UseTunerReturn {
     stop,
     toggle,
     setInstrument,
+    tuning,
+    tunings,
+    setTuning,
+    saveCustomTuning,
+    deleteCustomTuning,
+    referencePitch,
+    setReferencePitch,
+    isCalibrating,
+    calibrationError,
+    startCalibration,
+    cancelCalibration: endCalibration,
+    displayMode: settings.tunerDisplayMode,
+    setDisplayMode,
+    mode,
+    setMode,
+    strumResults,
+    chroma,
+    chordMatch,
     strings,
     hasPermission,
     requestPermission,
@@ -0,0 +1,141 @@
+/**
+ * useAudioWaveform Hook
+ *
+ * Decodes the practice player's audio file into a waveform overview
+ * (peaks and detected beats) and snaps loop handles to zero crossings or beats.
+ * The decoded samples stay in memory only while the file is loaded.
+ * Analysis runs in chunks that yield to the event loop, so long tracks
+ * don't freeze the UI while the waveform is drawn.
+ *
+ * Platform support:
+ * - iOS/Android: react-native-audio-api
+ * - Web: Native Web Audio API
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { WAVEFORM_CONFIG } from '@/constants/PracticePlayerConfig';
+import {
+  mixToMonoSteps,
+  computePeaksSteps,
+  detectBeatsSteps,
+  runStepsAsync,
+  findNearestZeroCrossing,
+  findNearestBeat,
+} from '@/utils/waveform';
+import type { AnalysisSteps } from '@/utils/waveform';
+import { createAudioContext } from '@/utils/audioContext';
+import type { AudioBufferType, AudioContextType } from '@/types/audio';
+import type {
+  AudioFile,
+  LoopSnapMode,
+  UseAudioWaveformReturn,
+  WaveformData,
+} from '@/types/practicePlayer';
+
+/**
+ * Mono samples and waveform overview of a decoded file
+ */
+function* analyseBuffer(
+  buffer: AudioBufferType
+): AnalysisSteps<{ samples: Float32Array; waveform: WaveformData }> {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+    buffer.getChannelData(channel)
+  );
+  const samples = yield* mixToMonoSteps(channels);
+  const peaks = yield* computePeaksSteps(samples, WAVEFORM_CONFIG.resolution);
+  const beatsMs = yield* detectBeatsSteps(samples, buffer.sampleRate);
+
+  return {
+    samples,
+    waveform: { peaks, durationMs: Math.round(buffer.duration * 1000), beatsMs },
+  };
+}
+
+/**
+ * useAudioWaveform - Waveform overview and snapping for an audio file
+ * @param audioFile File loaded in the practice player (null when none)
+ */
+export function useAudioWaveform(audioFile: AudioFile | null): UseAudioWaveformReturn {
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const samplesRef = useRef<Float32Array | null>(null);
+  const sampleRateRef = useRef<number>(WAVEFORM_CONFIG.sampleRate);
+
+  const uri = audioFile?.uri;
+
+  useEffect(() => {
+    samplesRef.current = null;
+    setWaveform(null);
+    if (!uri) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const decode = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      let ctx: AudioContextType | null = null;
+      try {
+        const context = createAudioContext(WAVEFORM_CONFIG.sampleRate);
+        ctx = context;
+        const response = await fetch(uri);
+        const arrayBuffer = await response.arrayBuffer();
+        const buffer = await context.decodeAudioData(arrayBuffer);
+        if (cancelled) return;
+
+        const analysis = await runStepsAsync(analyseBuffer(buffer), () => cancelled);
+        if (!analysis) return;
+
+        samplesRef.current = analysis.samples;
+        sampleRateRef.current = buffer.sampleRate;
+        setWaveform(analysis.waveform);
+      } catch (err) {
+        console.error('[AudioWaveform] Failed to decode audio:', err);
+        if (!cancelled) {
+          setError('Could not draw the waveform for this file');
+        }
+      } finally {
+        ctx?.close();
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    decode();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  /**
+   * Snap a position to the nearest zero crossing or beat
+   */
+  const snapPosition = useCallback(
+    (positionMs: number, mode: LoopSnapMode): number => {
+      if (mode === 'beat') {
+        return waveform ? findNearestBeat(waveform.beatsMs, positionMs) : positionMs;
+      }
+
+      const samples = samplesRef.current;
+      if (mode === 'zero' && samples) {
+        const sampleRate = sampleRateRef.current;
+        const index = findNearestZeroCrossing(
+          samples,
+          Math.round((positionMs * sampleRate) / 1000),
+          Math.round((WAVEFORM_CONFIG.zeroCrossingWindowMs * sampleRate) / 1000)
+        );
+        return (index * 1000) / sampleRate;
+      }
+
+      return positionMs;
+    },
+    [waveform]
+  );
+
+  return { waveform, isLoading, error, snapPosition };
+}
@@ -0,0 +1,274 @@
+/**
+ * useLibraryBackup Hook
+ *
+ * Exports the whole library (songs, practice history, streaks and freeze history,
+ * mastery, achievements, milestones, tempo sessions, custom tunings, intonation
+ * checks, pitch training sessions, setlists and voice memo details) to a folder as a versioned
+ * JSON archive, CSV tables and a ChordPro file per song, and restores an
+ * archive by merging it into the library without duplicating rows.
+ */
+
+import { useState, useCallback } from 'react';
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { Directory } from 'expo-file-system';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/utils/supabase/client';
+import { useStyledAlert } from '@/hooks/useStyledAlert';
+import {
+  createEmptyArchiveTables,
+  createLibraryArchive,
+  parseLibraryArchive,
+  countArchiveRows,
+  formatArchiveCounts,
+  songsToCsv,
+  practiceSessionsToCsv,
+  practiceDaysToCsv,
+  songToChordPro,
+  getChordProFileName,
+  planLibraryRestore,
+} from '@/utils/libraryBackup';
+import {
+  LIBRARY_ARCHIVE_TABLES,
+  LIBRARY_RESTORE_BATCH_SIZE,
+  LIBRARY_RESTORE_CONFLICT_KEYS,
+} from '@/constants/LibraryBackupConfig';
+import { getErrorMessage } from '@/types/database';
+import type {
+  LibraryArchive,
+  LibraryArchiveTable,
+  LibraryArchiveTables,
+  UseLibraryBackupReturn,
+} from '@/types/libraryBackup';
+
+// Most rows Supabase returns per request
+const PAGE_SIZE = 1000;
+
+// Folder picked to export into
+type ExportFolder = Awaited<ReturnType<typeof Directory.pickDirectoryAsync>>;
+
+/**
+ * All rows of a table where a column matches one of the values
+ */
+async function fetchAllRows<T>(table: string, column: string, values: string[]): Promise<T[]> {
+  if (values.length === 0) return [];
+
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .in(column, values)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Bands the user is a member of
+ */
+async function fetchBandIds(userId: string): Promise<string[]> {
+  const members = await fetchAllRows<{ band_id: string }>('band_members', 'user_id', [userId]);
+  return members.map((member) => member.band_id);
+}
+
+/**
+ * Every backed-up table for a user
+ */
+async function fetchLibraryTables(userId: string): Promise<LibraryArchiveTables> {
+  const byUser = <T>(table: string) => fetchAllRows<T>(table, 'user_id', [userId]);
+  const bandIds = await fetchBandIds(userId);
+
+  const tables = createEmptyArchiveTables();
+  tables.songs = await byUser('songs');
+  tables.practice_sessions = await byUser('practice_sessions');
+  tables.daily_practice_logs = await byUser('daily_practice_logs');
+  tables.user_streaks = await byUser('user_streaks');
+  tables.streak_freeze_history = await byUser('streak_freeze_history');
+  tables.song_mastery_progress = await byUser('song_mastery_progress');
+  tables.user_achievements = await byUser('user_achievements');
+  tables.user_lifetime_milestones = await byUser('user_lifetime_milestones');
+  tables.tempo_sessions = await byUser('tempo_sessions');
+  tables.custom_tunings = await byUser('custom_tunings');
+  tables.intonation_checks = await byUser('intonation_checks');
+  tables.pitch_training_sessions = await byUser('pitch_training_sessions');
+  tables.setlists = await fetchAllRows('setlists', 'band_id', bandIds);
+  tables.setlist_songs = await fetchAllRows(
+    'setlist_songs',
+    'setlist_id',
+    tables.setlists.map((setlist) => setlist.id)
+  );
+  tables.voice_memos = await fetchAllRows('voice_memos', 'created_by', [userId]);
+  return tables;
+}
+
+/**
+ * Write an archive's files into a new folder inside the picked one
+ */
+function writeLibraryFiles(parent: ExportFolder, archive: LibraryArchive): void {
+  const { songs, practice_sessions, daily_practice_logs } = archive.tables;
+  const folder = parent.createDirectory(`songstreak-backup-${archive.exportedAt.slice(0, 10)}`);
+
+  folder.createFile('library.json', 'application/json').write(JSON.stringify(archive, null, 2));
+  folder.createFile('songs.csv', 'text/csv').write(songsToCsv(songs, practice_sessions));
+  folder
+    .createFile('practice_sessions.csv', 'text/csv')
+    .write(practiceSessionsToCsv(practice_sessions, songs));
+  folder.createFile('practice_days.csv', 'text/csv').write(practiceDaysToCsv(daily_practice_logs));
+
+  const chordProFolder = folder.createDirectory('chordpro');
+  const usedNames = new Set<string>();
+  for (const song of songs) {
+    chordProFolder
+      .createFile(getChordProFileName(song, usedNames), 'text/plain')
+      .write(songToChordPro(song));
+  }
+}
+
+/**
+ * Insert a table's planned rows, leaving rows already there as they are
+ * Returns how many rows were added.
+ */
+async function insertRestoredRows(table: LibraryArchiveTable, rows: object[]): Promise<number> {
+  let added = 0;
+  for (let start = 0; start < rows.length; start += LIBRARY_RESTORE_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .upsert(rows.slice(start, start + LIBRARY_RESTORE_BATCH_SIZE), {
+        onConflict: LIBRARY_RESTORE_CONFLICT_KEYS[table],
+        ignoreDuplicates: true,
+      })
+      .select('id');
+
+    if (error) throw error;
+    added += data?.length ?? 0;
+  }
+  return added;
+}
+
+/**
+ * Hook to export the library and restore it from an archive
+ */
+export function useLibraryBackup(): UseLibraryBackupReturn {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { showConfirm, showError, showSuccess, showInfo } = useStyledAlert();
+  const queryClient = useQueryClient();
+
+  const exportLibrary = useCallback(async () => {
+    if (Platform.OS === 'web') {
+      showInfo('Export Library', 'Library export is available in the mobile app.');
+      return;
+    }
+
+    // Dismissing the picker rejects
+    const parent = await Directory.pickDirectoryAsync().catch(() => null);
+    if (!parent) return;
+
+    setIsExporting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('You must be logged in to export your library');
+
+      const archive = createLibraryArchive(user.id, await fetchLibraryTables(user.id));
+      writeLibraryFiles(parent, archive);
+
+      showSuccess(
+        'Library Exported',
+        `Saved ${formatArchiveCounts(countArchiveRows(archive.tables)) || 'an empty library'}.`
+      );
+    } catch (err) {
+      console.error('[LibraryBackup] Error exporting library:', err);
+      showError('Export Failed', getErrorMessage(err) || 'Failed to export your library');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [showError, showInfo, showSuccess]);
+
+  const restorePlannedRows = useCallback(
+    async (tables: LibraryArchiveTables, skipped: Record<LibraryArchiveTable, number>) => {
+      setIsRestoring(true);
+      try {
+        const added = countArchiveRows(createEmptyArchiveTables());
+        for (const { table } of LIBRARY_ARCHIVE_TABLES) {
+          added[table] = await insertRestoredRows(table, tables[table]);
+        }
+
+        const skippedTotal = LIBRARY_ARCHIVE_TABLES.reduce(
+          (total, { table }) => total + skipped[table] + tables[table].length - added[table],
+          0
+        );
+        const addedText = formatArchiveCounts(added) || 'nothing new';
+        showSuccess(
+          'Library Restored',
+          skippedTotal > 0
+            ? `Added ${addedText}. Skipped ${skippedTotal} items already in your library or from bands you've left.`
+            : `Added ${addedText}.`
+        );
+        await queryClient.invalidateQueries();
+      } catch (err) {
+        console.error('[LibraryBackup] Error restoring library:', err);
+        showError(
+          'Restore Failed',
+          getErrorMessage(err) || 'Failed to restore your library. Anything added so far has been kept.'
+        );
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [queryClient, showError, showSuccess]
+  );
+
+  const restoreLibrary = useCallback(async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets || result.assets.length === 0) return;
+
+      const response = await fetch(result.assets[0].uri);
+      const archive = parseLibraryArchive(await response.text());
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('You must be logged in to restore a backup');
+
+      const songs = await fetchAllRows<LibraryArchiveTables['songs'][number]>(
+        'songs',
+        'user_id',
+        [user.id]
+      );
+      const plan = planLibraryRestore(archive, {
+        userId: user.id,
+        songs,
+        bandIds: await fetchBandIds(user.id),
+      });
+
+      const contents = formatArchiveCounts(countArchiveRows(archive.tables)) || 'nothing';
+      const exportedOn = archive.exportedAt ? ` from ${archive.exportedAt.slice(0, 10)}` : '';
+      showConfirm(
+        'Restore Backup',
+        `This backup${exportedOn} has ${contents}.\n\nIt will be merged into your library. Anything already there is kept as it is.`,
+        () => restorePlannedRows(plan.tables, plan.skipped),
+        'Restore',
+        'Cancel'
+      );
+    } catch (err) {
+      console.error('[LibraryBackup] Error reading backup:', err);
+      showError('Restore Failed', getErrorMessage(err) || 'Could not read this backup');
+    }
+  }, [restorePlannedRows, showConfirm, showError]);
+
+  return {
+    exportLibrary,
+    isExporting,
+    restoreLibrary,
+    isRestoring,
+  };
+}
+
+export default useLibraryBackup;
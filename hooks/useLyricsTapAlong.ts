@@ -0,0 +1,110 @@
+/**
+ * useLyricsTapAlong Hook
+ *
+ * Creates line timestamps for lyrics that have none: while the practice player
+ * plays the song, each tap stamps the next line at the current position.
+ * Stanza breaks are skipped; undo clears the last stamp and rewinds a little.
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { LYRICS_SYNC_CONFIG } from '@/constants/LyricsConfig';
+import {
+  clearLyricTimestamps,
+  findNextLyricLine,
+  stampLyricLine,
+} from '@/utils/lyrics';
+import type { ParsedLyrics, UseLyricsTapAlongReturn } from '@/types/lyrics';
+import type { UsePracticePlayerReturn } from '@/types/practicePlayer';
+
+/**
+ * Tap-along progress, mirrored into state for rendering
+ */
+interface TapAlongProgress {
+  lyrics: ParsedLyrics;
+  nextIndex: number;
+  /** Indices stamped so far, in tap order (for undo) */
+  stamped: number[];
+}
+
+/**
+ * useLyricsTapAlong - Stamp lyric lines in time with playback
+ * @param player Practice player whose position is stamped
+ * @param source Lyrics to stamp (existing timestamps are cleared on start)
+ */
+export function useLyricsTapAlong(
+  player: UsePracticePlayerReturn,
+  source: ParsedLyrics | null
+): UseLyricsTapAlongReturn {
+  const [progress, setProgress] = useState<TapAlongProgress | null>(null);
+
+  const progressRef = useRef<TapAlongProgress | null>(null);
+  const positionRef = useRef(0);
+
+  const { seekTo } = player;
+
+  // Read the position at tap time without re-creating callbacks every poll
+  useEffect(() => {
+    positionRef.current = player.status?.positionMs ?? 0;
+  }, [player.status?.positionMs]);
+
+  /**
+   * Update progress (ref for tap handlers, state for rendering)
+   */
+  const updateProgress = useCallback((next: TapAlongProgress | null) => {
+    progressRef.current = next;
+    setProgress(next);
+  }, []);
+
+  const start = useCallback(() => {
+    if (!source || source.lines.length === 0) return;
+    const lyrics = clearLyricTimestamps(source);
+    updateProgress({ lyrics, nextIndex: findNextLyricLine(lyrics.lines, 0), stamped: [] });
+  }, [source, updateProgress]);
+
+  const tap = useCallback(() => {
+    const current = progressRef.current;
+    if (!current || current.nextIndex >= current.lyrics.lines.length) return;
+
+    const lyrics = stampLyricLine(current.lyrics, current.nextIndex, positionRef.current);
+    updateProgress({
+      lyrics,
+      nextIndex: findNextLyricLine(lyrics.lines, current.nextIndex + 1),
+      stamped: [...current.stamped, current.nextIndex],
+    });
+  }, [updateProgress]);
+
+  const undo = useCallback(() => {
+    const current = progressRef.current;
+    if (!current || current.stamped.length === 0) return;
+
+    const index = current.stamped[current.stamped.length - 1];
+    const undoneMs = current.lyrics.lines[index].timeMs ?? 0;
+    updateProgress({
+      lyrics: stampLyricLine(current.lyrics, index, null),
+      nextIndex: index,
+      stamped: current.stamped.slice(0, -1),
+    });
+    seekTo(Math.max(0, undoneMs - LYRICS_SYNC_CONFIG.undoRewindMs));
+  }, [updateProgress, seekTo]);
+
+  const finish = useCallback((): ParsedLyrics | null => {
+    const current = progressRef.current;
+    updateProgress(null);
+    return current && current.stamped.length > 0 ? current.lyrics : null;
+  }, [updateProgress]);
+
+  const cancel = useCallback(() => {
+    updateProgress(null);
+  }, [updateProgress]);
+
+  return {
+    isActive: progress !== null,
+    nextIndex: progress?.nextIndex ?? 0,
+    lyrics: progress?.lyrics ?? null,
+    start,
+    tap,
+    undo,
+    finish,
+    cancel,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * usePracticeLoops Hook
+ *
+ * Loads, saves and deletes the named A-B loops stored with a song (songs.practice_loops),
+ * and records the fastest clean speed ladder rate per loop each day.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/utils/supabase/client';
+import { MAX_LOOP_NAME_LENGTH } from '@/constants/PracticePlayerConfig';
+import { addLoopSpeedRecord } from '@/utils/practicePlayer';
+import { generateId } from '@/utils/ids';
+import type { SavedLoop, UsePracticeLoopsReturn } from '@/types/practicePlayer';
+
+/**
+ * Order loops as they occur in the song
+ */
+function sortLoops(loops: SavedLoop[]): SavedLoop[] {
+  return [...loops].sort((a, b) => a.startMs - b.startMs);
+}
+
+/**
+ * Hook to manage a song's saved practice loops
+ * Returns no loops when no songId is given (unsaved song)
+ */
+export function usePracticeLoops(songId: string | undefined): UsePracticeLoopsReturn {
+  const [loops, setLoops] = useState<SavedLoop[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!songId) {
+      setLoops([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadLoops = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: loopsError } = await supabase
+          .from('songs')
+          .select('practice_loops')
+          .eq('id', songId)
+          .single();
+
+        if (loopsError) throw loopsError;
+        if (cancelled) return;
+
+        setLoops(sortLoops(data.practice_loops || []));
+      } catch (err) {
+        console.error('Error loading practice loops:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load saved loops');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadLoops();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [songId]);
+
+  /**
+   * Write the song's loops, keeping local state in step on success
+   */
+  const persistLoops = useCallback(
+    async (nextLoops: SavedLoop[]) => {
+      if (!songId) throw new Error('Save the song before saving loops');
+
+      const { error: updateError } = await supabase
+        .from('songs')
+        .update({ practice_loops: nextLoops })
+        .eq('id', songId);
+
+      if (updateError) {
+        console.error('Error saving practice loops:', updateError);
+        throw updateError;
+      }
+
+      setLoops(nextLoops);
+    },
+    [songId]
+  );
+
+  /**
+   * Save a named loop
+   */
+  const saveLoop = useCallback(
+    async (name: string, startMs: number, endMs: number): Promise<SavedLoop> => {
+      const loop: SavedLoop = {
+        id: generateId('loop'),
+        name: name.trim().slice(0, MAX_LOOP_NAME_LENGTH),
+        startMs: Math.round(startMs),
+        endMs: Math.round(endMs),
+      };
+
+      await persistLoops(sortLoops([...loops, loop]));
+      return loop;
+    },
+    [loops, persistLoops]
+  );
+
+  /**
+   * Delete a saved loop
+   */
+  const deleteLoop = useCallback(
+    async (loopId: string) => {
+      await persistLoops(loops.filter((loop) => loop.id !== loopId));
+    },
+    [loops, persistLoops]
+  );
+
+  /**
+   * Record a clean speed ladder rate for today (kept only if it's the day's fastest)
+   */
+  const recordSpeed = useCallback(
+    async (loopId: string, rate: number) => {
+      const today = new Date().toISOString().split('T')[0];
+      let changed = false;
+
+      const nextLoops = loops.map((loop) => {
+        if (loop.id !== loopId) return loop;
+        const history = loop.speedHistory ?? [];
+        const speedHistory = addLoopSpeedRecord(history, rate, today);
+        if (speedHistory === history) return loop;
+        changed = true;
+        return { ...loop, speedHistory };
+      });
+
+      if (changed) {
+        await persistLoops(nextLoops);
+      }
+    },
+    [loops, persistLoops]
+  );
+
+  return { loops, isLoading, error, saveLoop, deleteLoop, recordSpeed };
+}
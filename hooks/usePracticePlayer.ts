@@ -34,6 +34,8 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
   const playerRef = useRef<AudioPlayer | null>(null);
   const loopRegionRef = useRef<LoopRegion>(DEFAULT_LOOP_REGION);
   const statusIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const loopPassHandlerRef = useRef<(() => number) | null>(null);
+  const resumeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Keep loopRegionRef in sync with state
   useEffect(() => {
@@ -50,6 +52,16 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
     }
   }, []);
 
+  /**
+   * Cancel a pending resume after a pause between loop passes
+   */
+  const clearResumeTimeout = useCallback(() => {
+    if (resumeTimeoutRef.current) {
+      clearTimeout(resumeTimeoutRef.current);
+      resumeTimeoutRef.current = null;
+    }
+  }, []);
+
   /**
    * Start polling for playback status updates
    * expo-audio doesn't have callbacks like expo-av, so we poll
@@ -75,6 +87,16 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
         ) {
           // Seek back to loop start
           player.seekTo(currentLoop.startMs / 1000);
+
+          // Hold at A if the pass handler asks for a pause
+          const holdMs = loopPassHandlerRef.current?.() ?? 0;
+          if (holdMs > 0) {
+            player.pause();
+            resumeTimeoutRef.current = setTimeout(() => {
+              resumeTimeoutRef.current = null;
+              playerRef.current?.play();
+            }, holdMs);
+          }
           return;
         }
 
@@ -137,6 +159,7 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
     try {
       // Stop polling and release any existing player
       stopStatusPolling();
+      clearResumeTimeout();
       if (playerRef.current) {
         playerRef.current.remove();
         playerRef.current = null;
@@ -188,13 +211,14 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
       setError('Failed to load audio file');
       setState('error');
     }
-  }, [stopStatusPolling, startStatusPolling]);
+  }, [stopStatusPolling, startStatusPolling, clearResumeTimeout]);
 
   /**
    * Start playback
    */
   const play = useCallback(async (): Promise<void> => {
     if (!playerRef.current) return;
+    clearResumeTimeout();
 
     try {
       playerRef.current.play();
@@ -202,13 +226,14 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
       console.error('[PracticePlayer] Error playing:', err);
       setError('Failed to play audio');
     }
-  }, []);
+  }, [clearResumeTimeout]);
 
   /**
    * Pause playback
    */
   const pause = useCallback(async (): Promise<void> => {
     if (!playerRef.current) return;
+    clearResumeTimeout();
 
     try {
       playerRef.current.pause();
@@ -216,7 +241,7 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
       console.error('[PracticePlayer] Error pausing:', err);
       setError('Failed to pause audio');
     }
-  }, []);
+  }, [clearResumeTimeout]);
 
   /**
    * Toggle play/pause
@@ -295,12 +320,20 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
     setLoopRegionState(DEFAULT_LOOP_REGION);
   }, []);
 
+  /**
+   * Set the handler called on each pass through the loop
+   */
+  const setLoopPassHandler = useCallback((handler: (() => number) | null): void => {
+    loopPassHandlerRef.current = handler;
+  }, []);
+
   /**
    * Unload audio and reset state
    */
   const unload = useCallback(async (): Promise<void> => {
     try {
       stopStatusPolling();
+      clearResumeTimeout();
       if (playerRef.current) {
         playerRef.current.remove();
         playerRef.current = null;
@@ -313,17 +346,18 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
     } catch (err) {
       console.error('[PracticePlayer] Error unloading:', err);
     }
-  }, [stopStatusPolling]);
+  }, [stopStatusPolling, clearResumeTimeout]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       stopStatusPolling();
+      clearResumeTimeout();
       if (playerRef.current) {
         playerRef.current.remove();
       }
     };
-  }, [stopStatusPolling]);
+  }, [stopStatusPolling, clearResumeTimeout]);
 
   return {
     state,
@@ -341,6 +375,7 @@ export function usePracticePlayer(): UsePracticePlayerReturn {
     setVolume,
     setLoopRegion,
     clearLoopRegion,
+    setLoopPassHandler,
     unload,
   };
 }
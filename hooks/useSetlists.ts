@@ -7,6 +7,7 @@ import {
   SetlistSongWithDetails,
   MAX_SETLISTS_PER_BAND,
 } from '@/types/band';
+import type { DbSong } from '@/types/database';
 
 interface UseSetlistsReturn {
   setlists: SetlistWithSongs[];
@@ -21,6 +22,57 @@ interface UseSetlistsReturn {
   reorderSongs: (setlistId: string, songIds: string[]) => Promise<boolean>;
 }
 
+/**
+ * setlist_songs row with its song joined
+ */
+interface SetlistSongRow extends SetlistSong {
+  songs: Pick<DbSong, 'title' | 'artist' | 'instrument' | 'artwork_url' | 'tempo' | 'time_signature'> | null;
+}
+
+/**
+ * Map a joined setlist_songs row to the setlist song shown in lists
+ */
+export function toSetlistSongWithDetails(row: SetlistSongRow): SetlistSongWithDetails {
+  return {
+    id: row.id,
+    setlist_id: row.setlist_id,
+    song_id: row.song_id,
+    position: row.position,
+    added_by: row.added_by,
+    added_at: row.added_at,
+    title: row.songs?.title || 'Unknown',
+    artist: row.songs?.artist || 'Unknown',
+    instrument: row.songs?.instrument || 'Unknown',
+    artwork_url: row.songs?.artwork_url || null,
+    tempo: row.songs?.tempo || null,
+    time_signature: row.songs?.time_signature || null,
+  };
+}
+
+/**
+ * Load the songs of one or more setlists with their song details, in setlist order
+ */
+export async function fetchSetlistSongs(setlistIds: string[]): Promise<SetlistSongWithDetails[]> {
+  const { data, error } = await supabase
+    .from('setlist_songs')
+    .select(`
+      *,
+      songs:song_id (
+        title,
+        artist,
+        instrument,
+        artwork_url,
+        tempo,
+        time_signature
+      )
+    `)
+    .in('setlist_id', setlistIds)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return ((data ?? []) as SetlistSongRow[]).map(toSetlistSongWithDetails);
+}
+
 /**
  * Hook to manage setlists for a specific band
  */
@@ -57,43 +109,14 @@ export function useSetlists(bandId: string | undefined): UseSetlistsReturn {
       }
 
       // Fetch songs for all setlists
-      const setlistIds = setlistData.map((s) => s.id);
-      const { data: setlistSongs, error: songsError } = await supabase
-        .from('setlist_songs')
-        .select(`
-          *,
-          songs:song_id (
-            id,
-            title,
-            artist,
-            instrument,
-            artwork_url
-          )
-        `)
-        .in('setlist_id', setlistIds)
-        .order('position', { ascending: true });
-
-      if (songsError) throw songsError;
+      const setlistSongs = await fetchSetlistSongs(setlistData.map((s) => s.id));
 
       // Group songs by setlist
       const songsBySetlist = new Map<string, SetlistSongWithDetails[]>();
-      setlistSongs?.forEach((ss: any) => {
-        const songDetails: SetlistSongWithDetails = {
-          id: ss.id,
-          setlist_id: ss.setlist_id,
-          song_id: ss.song_id,
-          position: ss.position,
-          added_by: ss.added_by,
-          added_at: ss.added_at,
-          title: ss.songs?.title || 'Unknown',
-          artist: ss.songs?.artist || 'Unknown',
-          instrument: ss.songs?.instrument || 'Unknown',
-          artwork_url: ss.songs?.artwork_url || null,
-        };
-
-        const existing = songsBySetlist.get(ss.setlist_id) || [];
+      setlistSongs.forEach((songDetails) => {
+        const existing = songsBySetlist.get(songDetails.setlist_id) || [];
         existing.push(songDetails);
-        songsBySetlist.set(ss.setlist_id, existing);
+        songsBySetlist.set(songDetails.setlist_id, existing);
       });
 
       // Combine setlists with their songs
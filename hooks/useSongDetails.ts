@@ -0,0 +1,94 @@
+/**
+ * useSongDetails Hook
+ *
+ * Loads chosen columns of one library song for a tool opened from it
+ * (metronome, tuner, pitch trainer, ear trainer), optionally mapped to the
+ * tool's own song type.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/utils/supabase/client';
+import type { DbSong } from '@/types/database';
+
+interface UseSongDetailsReturn<T> {
+  song: T | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface LoadedSong<R> {
+  songId: string;
+  row: R;
+}
+
+/**
+ * Hook to load a song's columns
+ * Returns a null song when no songId is given, and while a different song loads.
+ * Pass toSong as a stable (module-level) function.
+ */
+export function useSongDetails<K extends keyof DbSong>(
+  songId: string | undefined,
+  columns: readonly K[]
+): UseSongDetailsReturn<Pick<DbSong, K>>;
+export function useSongDetails<K extends keyof DbSong, T>(
+  songId: string | undefined,
+  columns: readonly K[],
+  toSong: (row: Pick<DbSong, K>) => T
+): UseSongDetailsReturn<T>;
+export function useSongDetails<K extends keyof DbSong, T>(
+  songId: string | undefined,
+  columns: readonly K[],
+  toSong?: (row: Pick<DbSong, K>) => T
+): UseSongDetailsReturn<T | Pick<DbSong, K>> {
+  const [loaded, setLoaded] = useState<LoadedSong<Pick<DbSong, K>> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const select = columns.join(', ');
+
+  useEffect(() => {
+    setLoaded(null);
+    if (!songId) return;
+
+    let cancelled = false;
+
+    const loadSong = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: songError } = await supabase
+          .from('songs')
+          .select(select)
+          .eq('id', songId)
+          .single<Pick<DbSong, K>>();
+
+        if (songError) throw songError;
+        if (cancelled) return;
+
+        setLoaded({ songId, row: data });
+      } catch (err) {
+        console.error('Error loading song details:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load song');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadSong();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [songId, select]);
+
+  // Only the requested song's row, never the previous one's while the next loads
+  const row = loaded && loaded.songId === songId ? loaded.row : null;
+  const song = useMemo(() => (row && toSong ? toSong(row) : row), [row, toSong]);
+
+  return { song, isLoading, error };
+}
+
+export default useSongDetails;
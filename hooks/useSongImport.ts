@@ -0,0 +1,136 @@
+/**
+ * useSongImport Hook
+ *
+ * Picks chart files (ChordPro, chords-over-lyrics text, MusicXML), previews the
+ * songs read from them with duplicates flagged, and adds the chosen ones to the library.
+ */
+
+import { useState, useCallback } from 'react';
+import * as DocumentPicker from 'expo-document-picker';
+import { supabase } from '@/utils/supabase/client';
+import { buildImportPreview, toImportedSongRow } from '@/utils/songImport';
+import { SONG_IMPORT_CONFIG, SONG_IMPORT_PICKER_TYPES } from '@/constants/SongImportConfig';
+import type { Song } from '@/types/song';
+import type { SongImportFile, SongImportItem, UseSongImportReturn } from '@/types/songImport';
+
+/**
+ * Hook to import songs from chart files
+ * Duplicates are checked against the given library songs.
+ */
+export function useSongImport(library: Pick<Song, 'title' | 'artist'>[]): UseSongImportReturn {
+  const [items, setItems] = useState<SongImportItem[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pickFiles = useCallback(async () => {
+    setError(null);
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: SONG_IMPORT_PICKER_TYPES,
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled || !result.assets || result.assets.length === 0) return;
+
+      setIsReading(true);
+      const assets = result.assets.slice(0, SONG_IMPORT_CONFIG.maxFiles);
+      if (result.assets.length > assets.length) {
+        setError(`Only the first ${SONG_IMPORT_CONFIG.maxFiles} files were read`);
+      }
+
+      const files: SongImportFile[] = [];
+      const unreadable: SongImportItem[] = [];
+
+      for (const [index, asset] of assets.entries()) {
+        const unreadableItem = (message: string): SongImportItem => ({
+          id: `unreadable_${index}_${asset.name}`,
+          fileName: asset.name,
+          format: null,
+          song: null,
+          error: message,
+          duplicate: null,
+          selected: false,
+        });
+
+        if ((asset.size ?? 0) > SONG_IMPORT_CONFIG.maxFileBytes) {
+          unreadable.push(unreadableItem('File is too large to import'));
+          continue;
+        }
+
+        try {
+          const response = await fetch(asset.uri);
+          files.push({ name: asset.name, text: await response.text() });
+        } catch (err) {
+          console.error('[SongImport] Error reading file:', asset.name, err);
+          unreadable.push(unreadableItem('Could not read this file'));
+        }
+      }
+
+      setItems([...buildImportPreview(files, library), ...unreadable]);
+    } catch (err) {
+      console.error('[SongImport] Error picking files:', err);
+      setError('Failed to pick files');
+    } finally {
+      setIsReading(false);
+    }
+  }, [library]);
+
+  const toggleItem = useCallback((id: string) => {
+    setItems((prev) =>
+      prev.map((item) => (item.id === id && item.song ? { ...item, selected: !item.selected } : item))
+    );
+  }, []);
+
+  const importSelected = useCallback<UseSongImportReturn['importSelected']>(
+    async (instrument) => {
+      const songs = items.flatMap((item) => (item.selected && item.song ? [item.song] : []));
+      if (songs.length === 0) return 0;
+
+      setIsSaving(true);
+      setError(null);
+
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) {
+          setError('You must be logged in to import songs');
+          return 0;
+        }
+
+        const rows = songs.map((song) => toImportedSongRow(song, user.id, instrument));
+        const { error: insertError } = await supabase.from('songs').insert(rows);
+        if (insertError) throw insertError;
+
+        setItems([]);
+        return rows.length;
+      } catch (err) {
+        console.error('[SongImport] Error saving songs:', err);
+        setError('Failed to import songs');
+        return 0;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [items]
+  );
+
+  const clear = useCallback(() => {
+    setItems([]);
+    setError(null);
+  }, []);
+
+  return {
+    items,
+    isReading,
+    isSaving,
+    error,
+    pickFiles,
+    toggleItem,
+    importSelected,
+    clear,
+  };
+}
+
+export default useSongImport;
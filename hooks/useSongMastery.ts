@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/utils/supabase/client';
+import { isArrangementMapped, parseArrangement } from '@/utils/arrangement';
 import {
   MasteryPath,
   NodeStatus,
@@ -215,14 +216,9 @@ export function useSongMastery(
         updates.theory_key_set = true;
       }
 
-      // Check structure mapped
-      if (songData.song_structure) {
-        const structure = songData.song_structure;
-        const hasStructure = structure.intro || structure.verse ||
-                            structure.chorus || structure.bridge;
-        if (hasStructure) {
-          updates.theory_structure_mapped = true;
-        }
+      // Check structure mapped (a full arrangement)
+      if (isArrangementMapped(parseArrangement(songData.song_structure))) {
+        updates.theory_structure_mapped = true;
       }
 
       if (Object.keys(updates).length > 0) {
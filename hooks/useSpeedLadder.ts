@@ -0,0 +1,167 @@
+/**
+ * useSpeedLadder Hook
+ *
+ * Progressive-speed loop practice on top of the practice player's A-B loop:
+ * starts at 0.5×, and after passesPerStep clean passes at a rate steps up to
+ * the next playback rate, until it reaches the target. A pass counts as clean
+ * unless it was marked as missed while it played.
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { SPEED_LADDER_CONFIG } from '@/constants/PracticePlayerConfig';
+import { getLadderRates, getNextLadderRate } from '@/utils/practicePlayer';
+import type {
+  SpeedLadderSettings,
+  UsePracticePlayerReturn,
+  UseSpeedLadderReturn,
+} from '@/types/practicePlayer';
+
+/**
+ * Ladder progress, mirrored into state for rendering
+ */
+interface LadderProgress {
+  settings: SpeedLadderSettings;
+  rates: number[];
+  rate: number;
+  cleanPasses: number;
+  totalPasses: number;
+  isPassMissed: boolean;
+  reachedRate: number | null;
+  isActive: boolean;
+  isComplete: boolean;
+}
+
+/**
+ * useSpeedLadder - Step the loop up to tempo after clean passes
+ * @param player Practice player to drive
+ * @param onFinish Called with the fastest clean rate when the ladder completes or is stopped
+ */
+export function useSpeedLadder(
+  player: UsePracticePlayerReturn,
+  onFinish?: (reachedRate: number | null) => void
+): UseSpeedLadderReturn {
+  const [progress, setProgress] = useState<LadderProgress | null>(null);
+
+  const progressRef = useRef<LadderProgress | null>(null);
+  const onFinishRef = useRef(onFinish);
+
+  useEffect(() => {
+    onFinishRef.current = onFinish;
+  }, [onFinish]);
+
+  const { setRate, setLoopRegion, setLoopPassHandler, seekTo, play } = player;
+  const loopStartMs = player.loopRegion.startMs;
+
+  /**
+   * Update progress (ref for the pass handler, state for rendering)
+   */
+  const updateProgress = useCallback((next: LadderProgress) => {
+    progressRef.current = next;
+    setProgress(next);
+  }, []);
+
+  /**
+   * Count a finished pass; returns the pause before the next one (ms)
+   */
+  const handlePass = useCallback((): number => {
+    const current = progressRef.current;
+    if (!current || !current.isActive) return 0;
+
+    const isClean = !current.isPassMissed;
+    let next: LadderProgress = {
+      ...current,
+      totalPasses: current.totalPasses + 1,
+      cleanPasses: current.cleanPasses + (isClean ? 1 : 0),
+      isPassMissed: false,
+      reachedRate: isClean
+        ? Math.max(current.reachedRate ?? 0, current.rate)
+        : current.reachedRate,
+    };
+
+    if (next.cleanPasses >= next.settings.passesPerStep) {
+      const nextRate = getNextLadderRate(next.rates, next.rate);
+      if (nextRate === null) {
+        // Target reached: keep looping at the target without the ladder
+        next = { ...next, isActive: false, isComplete: true };
+        setLoopPassHandler(null);
+        onFinishRef.current?.(next.reachedRate);
+      } else {
+        next = { ...next, rate: nextRate, cleanPasses: 0 };
+        setRate(nextRate);
+      }
+    }
+
+    updateProgress(next);
+    return next.isActive ? next.settings.pauseSeconds * 1000 : 0;
+  }, [setLoopPassHandler, setRate, updateProgress]);
+
+  /**
+   * Start the ladder from the bottom rung at loop start
+   */
+  const start = useCallback(
+    (settings: SpeedLadderSettings) => {
+      const rates = getLadderRates(SPEED_LADDER_CONFIG.startRate, settings.targetRate);
+
+      updateProgress({
+        settings,
+        rates,
+        rate: rates[0],
+        cleanPasses: 0,
+        totalPasses: 0,
+        isPassMissed: false,
+        reachedRate: null,
+        isActive: true,
+        isComplete: false,
+      });
+
+      setLoopPassHandler(handlePass);
+      setLoopRegion({ enabled: true });
+      setRate(rates[0]);
+      seekTo(loopStartMs);
+      play();
+    },
+    [updateProgress, setLoopPassHandler, handlePass, setLoopRegion, setRate, seekTo, play, loopStartMs]
+  );
+
+  /**
+   * Mark the pass playing now as not clean
+   */
+  const markMissed = useCallback(() => {
+    const current = progressRef.current;
+    if (!current || !current.isActive || current.isPassMissed) return;
+    updateProgress({ ...current, isPassMissed: true });
+  }, [updateProgress]);
+
+  /**
+   * Stop climbing (playback carries on at the current rate)
+   */
+  const stop = useCallback(() => {
+    const current = progressRef.current;
+    if (!current || !current.isActive) return;
+
+    setLoopPassHandler(null);
+    updateProgress({ ...current, isActive: false });
+    onFinishRef.current?.(current.reachedRate);
+  }, [setLoopPassHandler, updateProgress]);
+
+  // Detach from the player on unmount
+  useEffect(() => {
+    return () => {
+      setLoopPassHandler(null);
+    };
+  }, [setLoopPassHandler]);
+
+  return {
+    isActive: progress?.isActive ?? false,
+    isComplete: progress?.isComplete ?? false,
+    rate: progress?.rate ?? SPEED_LADDER_CONFIG.startRate,
+    rates: progress?.rates ?? [],
+    cleanPasses: progress?.cleanPasses ?? 0,
+    totalPasses: progress?.totalPasses ?? 0,
+    isPassMissed: progress?.isPassMissed ?? false,
+    reachedRate: progress?.reachedRate ?? null,
+    start,
+    markMissed,
+    stop,
+  };
+}
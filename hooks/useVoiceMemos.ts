@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/utils/supabase/client';
+import { generateId } from '@/utils/ids';
 import {
   VoiceMemo,
   VoiceMemoWithMeta,
@@ -43,9 +44,7 @@ interface UseVoiceMemosReturn {
  * Generate a unique filename for audio uploads
  */
 function generateAudioFilename(): string {
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2, 8);
-  return `memo_${timestamp}_${random}.webm`;
+  return `${generateId('memo')}.webm`;
 }
 
 /**
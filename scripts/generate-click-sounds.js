@@ -1,7 +1,8 @@
 /**
  * Generate Metronome Click Sounds
  *
- * Creates woodblock-style click sounds as WAV files for the metronome.
+ * Creates the metronome click sounds as WAV files: the woodblock set plus
+ * cowbell, rimshot, hi-hat and synth alternatives (accent and tick for each).
  * Characteristics:
  * - Sharp transient (0-5ms attack)
  * - High frequency content (>5kHz to cut through instruments)
@@ -131,6 +132,125 @@ function generateWoodblockClick(frequency, amplitude, duration) {
   return samples;
 }
 
+/**
+ * Normalize samples to a peak of 0.9 (leaves headroom)
+ */
+function normalize(samples) {
+  let maxAbs = 0;
+  for (let i = 0; i < samples.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(samples[i]));
+  }
+  if (maxAbs > 0) {
+    const normalizeGain = 0.9 / maxAbs;
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] *= normalizeGain;
+    }
+  }
+  return samples;
+}
+
+/**
+ * Generate a cowbell-style click
+ *
+ * Two detuned square-ish tones (classic drum machine cowbell ratio ~1.44)
+ * with a fast attack and a slightly longer ring than the woodblock.
+ */
+function generateCowbellClick(frequency, amplitude, duration) {
+  const numSamples = Math.floor(SAMPLE_RATE * duration);
+  const samples = new Float32Array(numSamples);
+  const attackSamples = Math.floor(SAMPLE_RATE * 0.001);
+  const decayConstant = -5 / duration;
+
+  for (let i = 0; i < numSamples; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = i < attackSamples ? i / attackSamples : Math.exp(decayConstant * t);
+
+    // Soft-clipped sines approximate the square waves without harsh aliasing
+    const low = Math.tanh(3 * Math.sin(2 * Math.PI * frequency * t));
+    const high = Math.tanh(3 * Math.sin(2 * Math.PI * frequency * 1.44 * t));
+
+    samples[i] = (low * 0.6 + high * 0.4) * envelope * amplitude;
+  }
+
+  return normalize(samples);
+}
+
+/**
+ * Generate a rimshot-style click
+ *
+ * A bright noise crack over a short resonant body tone.
+ */
+function generateRimshotClick(frequency, amplitude, duration) {
+  const numSamples = Math.floor(SAMPLE_RATE * duration);
+  const samples = new Float32Array(numSamples);
+  const crackSamples = Math.floor(SAMPLE_RATE * 0.004);
+  const decayConstant = -8 / duration;
+
+  for (let i = 0; i < numSamples; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.exp(decayConstant * t);
+
+    let sample = Math.sin(2 * Math.PI * frequency * t) * 0.7;
+    sample += Math.sin(2 * Math.PI * frequency * 2.7 * t) * 0.3;
+
+    // Noise crack at the start
+    if (i < crackSamples) {
+      sample += (Math.random() * 2 - 1) * (1 - i / crackSamples) * 1.2;
+    }
+
+    samples[i] = sample * envelope * amplitude;
+  }
+
+  return normalize(samples);
+}
+
+/**
+ * Generate a closed hi-hat-style click
+ *
+ * High-passed noise (first difference) with a very fast decay.
+ */
+function generateHihatClick(brightness, amplitude, duration) {
+  const numSamples = Math.floor(SAMPLE_RATE * duration);
+  const samples = new Float32Array(numSamples);
+  const decayConstant = -10 / duration;
+  let previousNoise = 0;
+
+  for (let i = 0; i < numSamples; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.exp(decayConstant * t);
+
+    // First difference of white noise removes the low end; brightness sets how much
+    const noise = Math.random() * 2 - 1;
+    const highPassed = noise - previousNoise * brightness;
+    previousNoise = noise;
+
+    samples[i] = highPassed * envelope * amplitude;
+  }
+
+  return normalize(samples);
+}
+
+/**
+ * Generate a synth beep
+ *
+ * Pure sine with a short click-free attack and release.
+ */
+function generateSynthClick(frequency, amplitude, duration) {
+  const numSamples = Math.floor(SAMPLE_RATE * duration);
+  const samples = new Float32Array(numSamples);
+  const rampSamples = Math.floor(SAMPLE_RATE * 0.002);
+
+  for (let i = 0; i < numSamples; i++) {
+    const t = i / SAMPLE_RATE;
+    const attack = Math.min(1, i / rampSamples);
+    const release = Math.min(1, (numSamples - i) / (rampSamples * 4));
+
+    samples[i] = Math.sin(2 * Math.PI * frequency * t) * attack * release * amplitude;
+  }
+
+  return normalize(samples);
+}
+
 /**
  * Convert Float32Array to WAV buffer
  */
@@ -170,4 +290,38 @@ const tickWav = samplesToWavBuffer(tickSamples);
 fs.writeFileSync(path.join(outputDir, 'metronome-click-tick.wav'), tickWav);
 console.log('Generated: metronome-click-tick.wav');
 
+// Subdivision click - lower and shorter so it sits under the beat
+const subdivisionSamples = generateWoodblockClick(1600, 0.6, 0.03); // 1.6kHz fundamental, 30ms
+const subdivisionWav = samplesToWavBuffer(subdivisionSamples);
+fs.writeFileSync(path.join(outputDir, 'metronome-click-subdivision.wav'), subdivisionWav);
+console.log('Generated: metronome-click-subdivision.wav');
+
+// Alternative click sounds - accent is higher/brighter than the tick
+const CLICK_SOUNDS = {
+  cowbell: {
+    accent: () => generateCowbellClick(800, 1.0, 0.08),
+    tick: () => generateCowbellClick(560, 0.8, 0.06),
+  },
+  rimshot: {
+    accent: () => generateRimshotClick(1800, 1.0, 0.05),
+    tick: () => generateRimshotClick(1300, 0.8, 0.04),
+  },
+  hihat: {
+    accent: () => generateHihatClick(1.0, 1.0, 0.05),
+    tick: () => generateHihatClick(0.6, 0.8, 0.035),
+  },
+  synth: {
+    accent: () => generateSynthClick(1760, 1.0, 0.05), // A6
+    tick: () => generateSynthClick(880, 0.8, 0.04),    // A5
+  },
+};
+
+for (const [sound, variants] of Object.entries(CLICK_SOUNDS)) {
+  for (const [variant, generate] of Object.entries(variants)) {
+    const fileName = `metronome-${sound}-${variant}.wav`;
+    fs.writeFileSync(path.join(outputDir, fileName), samplesToWavBuffer(generate()));
+    console.log(`Generated: ${fileName}`);
+  }
+}
+
 console.log('\nDone! Audio files created in assets/audio/');
@@ -0,0 +1,67 @@
+/**
+ * Song Arrangement Types
+ *
+ * The song's sections in playing order ("Intro, Verse 1, Chorus, ..."), each
+ * with its length, chord progression and any tempo or meter change.
+ */
+
+/**
+ * Kind of section
+ */
+export type ArrangementSectionType =
+  | 'intro'
+  | 'verse'
+  | 'preChorus'
+  | 'chorus'
+  | 'bridge'
+  | 'solo'
+  | 'interlude'
+  | 'outro';
+
+/**
+ * One section of the arrangement
+ */
+export interface ArrangementSection {
+  /** Unique id within the song */
+  id: string;
+  type: ArrangementSectionType;
+  /** Display name (e.g., "Verse 2") */
+  name: string;
+  /** Bars in one pass */
+  bars: number;
+  /** Times the section is played in a row */
+  repeats: number;
+  /** Chord progression of one pass */
+  chords: string[];
+  /** Section tempo in BPM (null uses the song tempo) */
+  tempoBpm: number | null;
+  /** Section time signature, e.g. "6/8" (null uses the song's) */
+  timeSignature: string | null;
+  notes: string;
+}
+
+/**
+ * Ordered arrangement stored with the song (songs.song_structure)
+ */
+export interface SongArrangement {
+  sections: ArrangementSection[];
+  /** Where bar 1 starts in the practice player's audio (ms) */
+  startOffsetMs: number;
+}
+
+/**
+ * Where a section falls in the song
+ */
+export interface ArrangementSectionTiming {
+  sectionId: string;
+  /** First bar of the section, counted from 0 */
+  startBar: number;
+  /** Bars including repeats */
+  bars: number;
+  /** Section tempo, falling back to the song tempo (null when neither is known) */
+  bpm: number | null;
+  /** Start in the practice player's audio (null when a tempo up to here is unknown) */
+  startMs: number | null;
+  /** End in the practice player's audio (null when a tempo up to here is unknown) */
+  endMs: number | null;
+}
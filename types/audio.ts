@@ -4,8 +4,8 @@
  * These types represent the Web Audio API interfaces used by
  * react-native-audio-api and the browser's native Web Audio API.
  *
- * They provide type safety for audio playback in the metronome and
- * other audio features.
+ * They provide type safety for audio playback in the metronome, the
+ * ear trainer and other audio features.
  */
 
 /**
@@ -31,6 +31,9 @@ export interface AudioContextType {
   /** Create a buffer source node for playback */
   createBufferSource(): AudioBufferSourceNodeType;
 
+  /** Create an empty buffer to fill with synthesized samples */
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number): AudioBufferType;
+
   /** Decode audio data from an ArrayBuffer */
   decodeAudioData(arrayBuffer: ArrayBuffer): Promise<AudioBufferType>;
 
@@ -75,6 +75,8 @@ export interface SetlistSongWithDetails extends SetlistSong {
   artist: string;
   instrument: string;
   artwork_url: string | null;
+  tempo: string | null;
+  time_signature: string | null;
   added_by_name?: string;
 }
 
@@ -0,0 +1,75 @@
+/**
+ * Chord Sheet Types
+ *
+ * Chord-over-lyrics charts in a ChordPro-compatible format:
+ * inline [Am] chord markers and {directive} lines.
+ * Stored as ChordPro text in songs.chord_sheet.
+ */
+
+/**
+ * Kind of section a line belongs to ({start_of_chorus} ... {end_of_chorus})
+ */
+export type ChordSheetSectionKind = 'verse' | 'chorus' | 'bridge' | 'tab';
+
+/**
+ * A chord placed at a character position in a lyric line
+ */
+export interface ChordPlacement {
+  /** Index in the line text the chord sits over */
+  position: number;
+  /** Chord name (e.g., "Am7", "G/B") */
+  chord: string;
+}
+
+/**
+ * One line of a chord sheet
+ */
+export type ChordSheetLine =
+  | { type: 'lyrics'; text: string; chords: ChordPlacement[] }
+  | { type: 'comment'; text: string }
+  | { type: 'tab'; text: string }
+  | { type: 'directive'; name: string; value: string | null }
+  | { type: 'empty' };
+
+/**
+ * A run of lines, either loose or inside a start_of/end_of pair
+ */
+export interface ChordSheetSection {
+  /** Section kind (null for lines outside any section) */
+  kind: ChordSheetSectionKind | null;
+  /** Section label from the directive ({start_of_chorus: Chorus 2}) */
+  label: string | null;
+  lines: ChordSheetLine[];
+}
+
+/**
+ * A parsed chord sheet
+ */
+export interface ChordSheet {
+  /** {title} */
+  title: string | null;
+  /** {artist} or {subtitle} */
+  artist: string | null;
+  /** {key} */
+  key: string | null;
+  /** {capo} */
+  capo: number | null;
+  sections: ChordSheetSection[];
+}
+
+/**
+ * A piece of a lyric line with the chord (if any) placed over its start
+ */
+export interface ChordSheetSegment {
+  chord: string | null;
+  text: string;
+}
+
+/**
+ * A syllable of a lyric line that a chord can be placed over
+ */
+export interface ChordSheetSyllable {
+  /** Index of the syllable's first character in the line */
+  position: number;
+  text: string;
+}
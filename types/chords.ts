@@ -10,12 +10,20 @@ export interface BarrePosition {
   toString: number;
 }
 
+/** A single fretted note (string index + absolute fret) */
+export interface FretNote {
+  string: number; // 0 = lowest string
+  fret: number;
+  finger?: number;
+}
+
 /** Single chord voicing/fingering */
 export interface ChordFingering {
   id: string;
-  name: string; // "Open", "Barre", "Jazz", etc.
-  frets: (number | null)[]; // null = muted, 0 = open, 1+ = fret position
+  name: string; // "Open", "Barre", "Jazz", "Root-5th-Octave", etc.
+  frets: (number | null)[]; // null = muted, 0 = open, 1+ = fret position (one entry per string)
   fingers?: (number | null)[]; // 1 = index, 2 = middle, 3 = ring, 4 = pinky
+  additionalNotes?: FretNote[]; // Extra notes on strings already in `frets` (bass arpeggio boxes)
   barres?: BarrePosition[];
   baseFret?: number; // Starting fret for movable shapes (default: 1)
   difficulty?: ChordDifficulty;
@@ -68,7 +76,7 @@ export interface GuitarConfig {
   fretRange: [number, number]; // Typically [0, 4] for chord diagrams
 }
 
-/** Bass-specific configuration (future) */
+/** Bass-specific configuration */
 export interface BassConfig {
   stringCount: 4;
   tuning: ['E', 'A', 'D', 'G']; // Standard 4-string bass
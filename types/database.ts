@@ -5,6 +5,10 @@
  * Use these for type-safe database queries and mapping to app types.
  */
 
+import type { SongArrangement } from './arrangement';
+import type { SavedLoop } from './practicePlayer';
+import type { IntonationResult, PitchAttempt } from './tuner';
+
 // ============================================================================
 // Core Tables
 // ============================================================================
@@ -21,6 +25,7 @@ export interface DbSong {
   video_url: string | null;
   artwork_url: string | null;
   key: string | null;
+  tuning: string | null;
   tempo: string | null;
   time_signature: string | null;
   difficulty: string | null; // DEPRECATED - kept for compatibility
@@ -28,16 +33,24 @@ export interface DbSong {
   total_practice_seconds: number;
   chords: string[] | null;
   scales: string[] | null;
-  lyrics: string | null;
+  lyrics: string | null; // Plain text, or LRC when synced
+  chord_sheet: string | null; // ChordPro chord-over-lyrics chart
   song_structure: DbSongStructure | null;
+  practice_loops: SavedLoop[] | null;
   created_at: string;
   updated_at: string;
 }
 
 /**
- * Song structure JSONB field
+ * Song structure JSONB field - the song's arrangement, or the old section flags
+ * on rows saved before arrangements. Read it with parseArrangement.
  */
-export interface DbSongStructure {
+export type DbSongStructure = SongArrangement | LegacySongStructure;
+
+/**
+ * Section flags stored in song_structure before arrangements
+ */
+export interface LegacySongStructure {
   intro?: boolean;
   verse?: boolean;
   chorus?: boolean;
@@ -263,6 +276,65 @@ export interface DbVoiceMemo {
   linked_song_id: string | null;
 }
 
+// ============================================================================
+// Tempo Sessions Table
+// ============================================================================
+
+/**
+ * tempo_sessions table - Metronome sessions started from a song
+ */
+export interface DbTempoSession {
+  id: string;
+  user_id: string;
+  song_id: string;
+  start_bpm: number;
+  reached_bpm: number;
+  target_bpm: number | null;
+  duration_seconds: number;
+  practiced_at: string;
+}
+
+/**
+ * custom_tunings table - User-defined tuner tunings
+ */
+export interface DbCustomTuning {
+  id: string;
+  user_id: string;
+  name: string;
+  instrument: string;
+  notes: string[]; // Open strings low to high (e.g., "D2")
+  created_at: string;
+}
+
+/**
+ * intonation_checks table - Saved tuner intonation checks
+ */
+export interface DbIntonationCheck {
+  id: string;
+  user_id: string;
+  instrument_name: string;
+  instrument: string;
+  tuning_name: string;
+  reference_pitch: number;
+  results: IntonationResult[];
+  checked_at: string;
+}
+
+/**
+ * pitch_training_sessions table - Saved pitch trainer sessions
+ */
+export interface DbPitchTrainingSession {
+  id: string;
+  user_id: string;
+  instrument: string;
+  window_cents: number;
+  reference_pitch: number;
+  song_title: string | null;
+  attempts: PitchAttempt[];
+  average_score: number;
+  practiced_at: string;
+}
+
 // ============================================================================
 // Type Guards and Utilities
 // ============================================================================
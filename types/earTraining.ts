@@ -0,0 +1,98 @@
+/**
+ * Ear Training Type Definitions
+ *
+ * TypeScript interfaces for the interval, chord-quality and progression quizzes.
+ */
+
+/**
+ * Quiz category
+ * - interval: two notes, one after the other
+ * - triad: major / minor / diminished / augmented
+ * - seventh: maj7 / dominant 7 / m7
+ * - progression: diatonic chords in a song's key
+ */
+export type EarTrainingCategory = 'interval' | 'triad' | 'seventh' | 'progression';
+
+/**
+ * One quiz question
+ */
+export interface EarTrainingQuestion {
+  category: EarTrainingCategory;
+  /** What to play, in order; each step is MIDI notes sounded together */
+  sequence: number[][];
+  /** Correct answer (one of options) */
+  answer: string;
+  /** Answer choices (the whole pool in order, or shuffled progressions) */
+  options: string[];
+}
+
+/**
+ * A song key for progression questions
+ */
+export interface EarTrainingKey {
+  /** Tonic (e.g., "A", "Bb") */
+  root: string;
+  quality: 'major' | 'minor';
+}
+
+/**
+ * Song the ear trainer was opened with
+ */
+export interface EarTrainingSong {
+  id: string;
+  title: string;
+  artist: string;
+  /** Key from analysis (e.g., "A Minor") */
+  key: string | null;
+}
+
+/**
+ * Finished quiz
+ */
+export interface EarTrainingResult {
+  category: EarTrainingCategory;
+  correct: number;
+  total: number;
+  /** Time spent on the quiz (seconds) */
+  durationSeconds: number;
+}
+
+/**
+ * Return type for useEarTrainingAudio hook
+ */
+export interface UseEarTrainingAudioReturn {
+  /** Whether a question is playing */
+  isPlaying: boolean;
+  /** Playback error */
+  error: string | null;
+  /** Play a sequence; resolves when it has finished */
+  play: (sequence: number[][]) => Promise<void>;
+  /** Stop playback early */
+  stop: () => void;
+}
+
+/**
+ * Return type for useEarTrainingQuiz hook
+ */
+export interface UseEarTrainingQuizReturn {
+  /** Current question (null before the quiz starts and once it is finished) */
+  question: EarTrainingQuestion | null;
+  /** Question number (1-based) */
+  questionNumber: number;
+  /** Questions per quiz */
+  totalQuestions: number;
+  /** Answer picked for the current question (null until answered) */
+  selectedAnswer: string | null;
+  /** Correct answers so far */
+  correctCount: number;
+  /** Finished quiz (null while in progress) */
+  result: EarTrainingResult | null;
+  /** Start a new quiz */
+  start: () => void;
+  /** Answer the current question */
+  answer: (option: string) => void;
+  /** Move to the next question (finishes after the last) */
+  next: () => void;
+  /** Abandon the quiz */
+  reset: () => void;
+}
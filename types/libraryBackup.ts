@@ -0,0 +1,89 @@
+/**
+ * Library Backup Types
+ *
+ * A versioned JSON archive of the user's data for export and restore,
+ * and what a restore will add.
+ */
+
+import type {
+  DbCustomTuning,
+  DbDailyPracticeLog,
+  DbIntonationCheck,
+  DbPitchTrainingSession,
+  DbPracticeSession,
+  DbSetlist,
+  DbSetlistSong,
+  DbSong,
+  DbSongMasteryProgress,
+  DbStreakFreezeHistory,
+  DbTempoSession,
+  DbUserAchievement,
+  DbUserLifetimeMilestone,
+  DbUserStreak,
+  DbVoiceMemo,
+} from './database';
+
+/**
+ * Rows of each backed-up table
+ * Voice memos are metadata only; the audio stays in storage.
+ */
+export interface LibraryArchiveTables {
+  songs: DbSong[];
+  practice_sessions: DbPracticeSession[];
+  daily_practice_logs: DbDailyPracticeLog[];
+  user_streaks: DbUserStreak[];
+  streak_freeze_history: DbStreakFreezeHistory[];
+  song_mastery_progress: DbSongMasteryProgress[];
+  user_achievements: DbUserAchievement[];
+  user_lifetime_milestones: DbUserLifetimeMilestone[];
+  tempo_sessions: DbTempoSession[];
+  custom_tunings: DbCustomTuning[];
+  intonation_checks: DbIntonationCheck[];
+  pitch_training_sessions: DbPitchTrainingSession[];
+  setlists: DbSetlist[];
+  setlist_songs: DbSetlistSong[];
+  voice_memos: DbVoiceMemo[];
+}
+
+/**
+ * A backed-up table
+ */
+export type LibraryArchiveTable = keyof LibraryArchiveTables;
+
+/**
+ * The JSON archive written by an export
+ */
+export interface LibraryArchive {
+  /** Identifies the file as a library archive */
+  format: string;
+  /** Archive schema version, checked on restore */
+  version: number;
+  /** When the archive was made (ISO) */
+  exportedAt: string;
+  /** Account the data was exported from */
+  userId: string;
+  tables: LibraryArchiveTables;
+}
+
+/**
+ * Rows a restore will insert, per table, after matching against what's there
+ */
+export interface LibraryRestorePlan {
+  tables: LibraryArchiveTables;
+  /** Archived songs matched to a library song with another id (archive id -> library id) */
+  songIdMap: Record<string, string>;
+  /** Rows left out per table (already there, or for a band the user has left) */
+  skipped: Record<LibraryArchiveTable, number>;
+}
+
+/**
+ * Return type for useLibraryBackup hook
+ */
+export interface UseLibraryBackupReturn {
+  /** Write the library to a folder the user picks */
+  exportLibrary: () => Promise<void>;
+  isExporting: boolean;
+  /** Pick an archive and merge it into the library, after confirming */
+  restoreLibrary: () => Promise<void>;
+  isRestoring: boolean;
+}
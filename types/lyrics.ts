@@ -0,0 +1,49 @@
+/**
+ * Lyrics Types
+ *
+ * Structured lyrics with optional line timestamps (LRC) for follow mode.
+ * Synced lyrics are stored in songs.lyrics as LRC text ("[01:02.35]Line"),
+ * plain lyrics as plain text.
+ */
+
+/**
+ * One line of lyrics
+ */
+export interface LyricLine {
+  /** When the line starts, in milliseconds of song audio (null if not timed) */
+  timeMs: number | null;
+  /** Line text (empty for stanza breaks and instrumental gaps) */
+  text: string;
+}
+
+/**
+ * Lyrics parsed into lines
+ */
+export interface ParsedLyrics {
+  /** Lines in song order */
+  lines: LyricLine[];
+  /** Whether any line has a timestamp */
+  isSynced: boolean;
+}
+
+/**
+ * Tap-along timestamping hook return type
+ */
+export interface UseLyricsTapAlongReturn {
+  /** Whether tap-along is running */
+  isActive: boolean;
+  /** Index of the line the next tap stamps */
+  nextIndex: number;
+  /** Lyrics with the timestamps tapped so far */
+  lyrics: ParsedLyrics | null;
+  /** Clear timestamps and start stamping from the first line */
+  start: () => void;
+  /** Stamp the next line at the current playback position */
+  tap: () => void;
+  /** Clear the last stamp and step back a line */
+  undo: () => void;
+  /** Stop and return the stamped lyrics (null if nothing was stamped) */
+  finish: () => ParsedLyrics | null;
+  /** Stop without keeping the stamps */
+  cancel: () => void;
+}
@@ -72,7 +72,7 @@ export const THEORY_NODES: MasteryNode[] = [
     id: 'theory_structure',
     path: 'theory',
     title: 'Full Structure',
-    description: 'Map intro, verse, chorus, and bridge sections',
+    description: 'Map the arrangement: 3+ sections with a verse and a chorus',
     icon: 'list-tree',
     position: 2,
     prerequisiteId: 'theory_chords',
@@ -90,11 +90,10 @@ export const THEORY_NODES: MasteryNode[] = [
     id: 'theory_transpose',
     path: 'theory',
     title: 'Transpose Ready',
-    description: 'Practice the song in an alternate key',
+    description: 'Transpose the song or try a capo position',
     icon: 'move-horizontal',
     position: 4,
     prerequisiteId: 'theory_key',
-    isFuture: true,
   },
   {
     id: 'theory_master',
@@ -31,16 +31,174 @@ export interface MetronomeConfig {
   tapMaxCount: number;
 }
 
+/**
+ * Time signature with beat grouping
+ * Each beat is one click of the bottom note value (quarter in 4/4, eighth in 7/8)
+ */
+export interface TimeSignature {
+  /** Beats per bar (top number) */
+  beats: number;
+  /** Note value of one beat (bottom number) */
+  noteValue: 4 | 8;
+  /** Beat groups, summing to beats (e.g., [2, 2, 3] for 7/8) */
+  grouping: number[];
+}
+
+/**
+ * Clicks between beats
+ * - quarter: beats only
+ * - eighth: 2 clicks per beat
+ * - triplet: 3 clicks per beat
+ * - sixteenth: 4 clicks per beat
+ */
+export type Subdivision = 'quarter' | 'eighth' | 'triplet' | 'sixteenth';
+
+/**
+ * How loudly a beat is played
+ * - accent: accent click (downbeat)
+ * - medium: softer accent click (start of a beat group)
+ * - normal: regular tick
+ * - silent: no click (visual only)
+ */
+export type AccentLevel = 'accent' | 'medium' | 'normal' | 'silent';
+
+/**
+ * Meter settings sent to the audio engine
+ */
+export interface MeterSettings {
+  timeSignature: TimeSignature;
+  subdivision: Subdivision;
+  /** Accent level per beat (length matches timeSignature.beats) */
+  accents: AccentLevel[];
+}
+
+/**
+ * Tempo trainer (speed builder) settings
+ * Tempo rises by stepBpm every barsPerStep bars until it reaches targetBpm
+ */
+export interface TempoTrainerSettings {
+  /** Tempo of the first bar */
+  startBpm: number;
+  /** Tempo to stop ramping at */
+  targetBpm: number;
+  /** BPM added per step */
+  stepBpm: number;
+  /** Bars played before each step */
+  barsPerStep: number;
+}
+
+/**
+ * Gap click mode
+ * - off: every bar plays
+ * - random: bars are muted at random
+ * - pattern: playBars bars play, then muteBars bars are muted
+ */
+export type GapClickMode = 'off' | 'random' | 'pattern';
+
+/**
+ * Gap click settings (muted bars test internal time)
+ */
+export interface GapClickSettings {
+  mode: GapClickMode;
+  /** Bars played in each pattern cycle */
+  playBars: number;
+  /** Bars muted in each pattern cycle */
+  muteBars: number;
+  /** Chance (0-1) that a bar is muted in random mode */
+  muteChance: number;
+}
+
+/**
+ * A song section the metronome counts through
+ */
+export interface MetronomeSection {
+  name: string;
+  /** Bars including repeats */
+  bars: number;
+  /** Section tempo (null keeps the current tempo) */
+  bpm: number | null;
+  /** Section meter (null keeps the current meter) */
+  timeSignature: TimeSignature | null;
+}
+
+/**
+ * Counting through a song's sections
+ * Plays from startIndex to the last section, or repeats that section when looping.
+ */
+export interface SectionPlayback {
+  sections: MetronomeSection[];
+  startIndex: number;
+  loop: boolean;
+}
+
+/**
+ * Section and bar being played (both 0-based)
+ */
+export interface SectionPosition {
+  index: number;
+  bar: number;
+}
+
+/**
+ * Summary of a finished metronome session
+ */
+export interface MetronomeSessionSummary {
+  /** Tempo when the session started */
+  startBpm: number;
+  /** Fastest tempo played during the session */
+  reachedBpm: number;
+  /** Trainer target, if the tempo trainer was on */
+  targetBpm: number | null;
+  /** Playing time in seconds */
+  durationSeconds: number;
+}
+
+/**
+ * Tempo session logged against a song
+ */
+export interface TempoSession {
+  id: string;
+  songId: string;
+  startBpm: number;
+  reachedBpm: number;
+  targetBpm: number | null;
+  durationSeconds: number;
+  practicedAt: string;
+}
+
+/**
+ * Song details used by the metronome
+ */
+export interface MetronomeSong {
+  id: string;
+  title: string;
+  artist: string;
+  /** Song tempo in BPM (null when unknown) */
+  tempoBpm: number | null;
+  /** Raw time signature from analysis (e.g., "6/8") */
+  timeSignature: string | null;
+  /** Song sections, when the song's arrangement is mapped */
+  sections?: MetronomeSection[];
+}
+
+/**
+ * Metronome settings read from a song (null when the song has no usable value)
+ */
+export interface SongMetronomeSettings {
+  bpm: number | null;
+  timeSignature: TimeSignature | null;
+}
+
 /**
  * Information about a scheduled beat
  */
 export interface BeatEvent {
   /** AudioContext time when beat should play */
   time: number;
-  /** Beat index within the measure (0-based, e.g., 0-3 for 4/4) */
+  /** Beat index within the measure (0-based, e.g., 0-6 for 7/8) */
   beatIndex: number;
-  /** Whether this is an accented beat (typically beat 1) */
-  isAccent: boolean;
+  /** Accent level of this beat */
+  accent: AccentLevel;
 }
 
 /**
@@ -57,10 +215,20 @@ export interface PendulumState {
 
 /**
  * Available click sound types
- * Future enhancement: allow users to select click sound
+ * Each sound has a bundled accent and tick sample (see scripts/generate-click-sounds.js)
  */
 export type ClickSound = 'woodblock' | 'cowbell' | 'rimshot' | 'hihat' | 'synth';
 
+/**
+ * Click sounds chosen for accented and normal beats
+ */
+export interface ClickSounds {
+  /** Sound for accented beats (accent and medium levels) */
+  accent: ClickSound;
+  /** Sound for normal beats */
+  normal: ClickSound;
+}
+
 /**
  * Audio engine status
  */
@@ -85,6 +253,14 @@ export interface UseTapTempoReturn {
   reset: () => void;
 }
 
+/**
+ * Main metronome hook options
+ */
+export interface UseMetronomeOptions {
+  /** Called when playback stops, with the session's tempo summary */
+  onSessionEnd?: (summary: MetronomeSessionSummary) => void;
+}
+
 /**
  * Main metronome hook return type
  */
@@ -96,10 +272,26 @@ export interface UseMetronomeReturn {
   bpm: number;
   /** Whether metronome is playing */
   isPlaying: boolean;
-  /** Current beat index (0-3 for 4/4 time) */
+  /** Current beat index within the bar (0-based) */
   currentBeat: number;
   /** Pendulum angle for visual sync (-30 to +30 degrees) */
   pendulumAngle: number;
+  /** Current time signature */
+  timeSignature: TimeSignature;
+  /** Current subdivision */
+  subdivision: Subdivision;
+  /** Accent level per beat */
+  accents: AccentLevel[];
+  /** Selected accent and normal click sounds */
+  clickSounds: ClickSounds;
+  /** Tempo trainer settings (null when off) */
+  trainer: TempoTrainerSettings | null;
+  /** Gap click settings */
+  gapClick: GapClickSettings;
+  /** Song sections being counted through (null when off) */
+  sectionPlayback: SectionPlayback | null;
+  /** Section and bar being played (null when stopped or off) */
+  sectionPosition: SectionPosition | null;
 
   // Actions
   /** Start the metronome */
@@ -114,6 +306,24 @@ export interface UseMetronomeReturn {
   incrementBpm: (delta: number) => void;
   /** Handle tap tempo */
   handleTapTempo: () => void;
+  /** Set time signature (resets accents to the meter's defaults) */
+  setTimeSignature: (timeSignature: TimeSignature) => void;
+  /** Set subdivision */
+  setSubdivision: (subdivision: Subdivision) => void;
+  /** Cycle a beat through accent levels */
+  cycleAccent: (beatIndex: number) => void;
+  /** Choose the accent or normal click sound (saved in settings) */
+  setClickSound: (slot: keyof ClickSounds, sound: ClickSound) => void;
+  /** Turn the tempo trainer on (with settings) or off (null) */
+  setTrainer: (trainer: TempoTrainerSettings | null) => void;
+  /** Set gap click settings */
+  setGapClick: (gapClick: GapClickSettings) => void;
+  /** Count through song sections (turns the tempo trainer off), or stop with null */
+  setSectionPlayback: (playback: SectionPlayback | null) => void;
+  /** Load a song's tempo and time signature (returns false when it has neither) */
+  loadSong: (song: MetronomeSong) => boolean;
+  /** End the running session (reporting it) and start a new one, without stopping playback */
+  endSession: () => void;
 
   // Status
   /** Number of taps in current tap tempo session */
@@ -122,6 +332,8 @@ export interface UseMetronomeReturn {
   isAudioReady: boolean;
   /** Audio initialization error */
   audioError: string | null;
+  /** Click sounds that failed to load and can't be chosen */
+  unavailableClickSounds: ClickSound[];
 }
 
 /**
@@ -133,14 +345,28 @@ export interface UseMetronomeAudioReturn {
   isReady: boolean;
   /** Error message if any */
   error: string | null;
+  /** Click sounds that failed to load (they play the default sound) */
+  unavailableClickSounds: ClickSound[];
 
   // Control
-  /** Start playback with given BPM and beat callback */
-  start: (bpm: number, onBeat: (beatIndex: number, isAccent: boolean) => void) => void;
+  /** Start playback with given BPM, meter and beat callback (muted bars report 'silent') */
+  start: (
+    bpm: number,
+    meter: MeterSettings,
+    onBeat: (beatIndex: number, accent: AccentLevel, barIndex: number) => void
+  ) => void;
   /** Stop playback */
   stop: () => void;
   /** Update BPM during playback (seamless transition) */
   updateBpm: (bpm: number) => void;
+  /** Update meter during playback (takes effect from the next click) */
+  updateMeter: (meter: MeterSettings) => void;
+  /** Set the accent and normal click sounds (takes effect from the next click) */
+  setClickSounds: (sounds: ClickSounds) => void;
+  /** Play a single click now (e.g., to preview a sound choice) */
+  previewClick: (slot: keyof ClickSounds) => void;
+  /** Set which bars are muted (checked once per bar; null plays every bar) */
+  setBarMute: (isBarMuted: ((barIndex: number) => boolean) | null) => void;
 
   // Lifecycle
   /** Initialize audio context and load buffers */
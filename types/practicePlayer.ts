@@ -35,6 +35,62 @@ export interface LoopRegion {
   enabled: boolean;
 }
 
+/**
+ * A named loop saved with a song ("solo", "bridge riff")
+ */
+export interface SavedLoop {
+  /** Unique id within the song */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Start position in milliseconds */
+  startMs: number;
+  /** End position in milliseconds */
+  endMs: number;
+  /** Fastest clean speed ladder rate per practice day, oldest first */
+  speedHistory?: LoopSpeedRecord[];
+}
+
+/**
+ * Fastest clean speed ladder rate on one day
+ */
+export interface LoopSpeedRecord {
+  /** Practice date (YYYY-MM-DD) */
+  date: string;
+  /** Playback rate */
+  rate: number;
+}
+
+/**
+ * Speed ladder settings
+ * The loop plays passesPerStep clean passes at each rate from 0.5× up to targetRate
+ */
+export interface SpeedLadderSettings {
+  /** Rate to stop climbing at */
+  targetRate: number;
+  /** Clean passes needed before stepping up */
+  passesPerStep: number;
+  /** Pause at A between passes (seconds) */
+  pauseSeconds: number;
+}
+
+/**
+ * What loop handles snap to when released on the waveform
+ */
+export type LoopSnapMode = 'off' | 'zero' | 'beat';
+
+/**
+ * Decoded overview of an audio file for the waveform view
+ */
+export interface WaveformData {
+  /** Peak level per bucket across the whole file (0-1) */
+  peaks: number[];
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** Detected beat positions in milliseconds */
+  beatsMs: number[];
+}
+
 /**
  * Playback status with timing information
  */
@@ -77,9 +133,64 @@ export interface UsePracticePlayerReturn {
   setVolume: (volume: number) => Promise<void>;
   setLoopRegion: (region: Partial<LoopRegion>) => void;
   clearLoopRegion: () => void;
+  /**
+   * Called each time playback wraps from B back to A.
+   * The handler returns a pause (ms) to hold at A before the next pass.
+   */
+  setLoopPassHandler: (handler: (() => number) | null) => void;
   unload: () => Promise<void>;
 }
 
+/**
+ * Audio waveform hook return type
+ */
+export interface UseAudioWaveformReturn {
+  waveform: WaveformData | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Snap a position to the nearest zero crossing or beat */
+  snapPosition: (positionMs: number, mode: LoopSnapMode) => number;
+}
+
+/**
+ * Saved loops hook return type
+ */
+export interface UsePracticeLoopsReturn {
+  /** Loops saved with the song, in playback order */
+  loops: SavedLoop[];
+  isLoading: boolean;
+  error: string | null;
+  saveLoop: (name: string, startMs: number, endMs: number) => Promise<SavedLoop>;
+  deleteLoop: (loopId: string) => Promise<void>;
+  /** Record a clean speed ladder rate for today */
+  recordSpeed: (loopId: string, rate: number) => Promise<void>;
+}
+
+/**
+ * Speed ladder hook return type
+ */
+export interface UseSpeedLadderReturn {
+  isActive: boolean;
+  /** Whether the ladder reached its target */
+  isComplete: boolean;
+  /** Rate of the current rung */
+  rate: number;
+  /** Rungs from the start rate to the target */
+  rates: number[];
+  /** Clean passes at the current rate */
+  cleanPasses: number;
+  /** Passes played since the ladder started */
+  totalPasses: number;
+  /** Whether the current pass was marked as not clean */
+  isPassMissed: boolean;
+  /** Fastest rate with a clean pass (null before the first) */
+  reachedRate: number | null;
+  start: (settings: SpeedLadderSettings) => void;
+  /** Mark the current pass as not clean (it won't count) */
+  markMissed: () => void;
+  stop: () => void;
+}
+
 /**
  * Supported playback rates
  */
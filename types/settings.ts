@@ -3,14 +3,30 @@
  * Used for user preferences that persist across sessions
  */
 
+import type { ClickSound } from './metronome';
+import type { TunerDisplayMode } from './tuner';
+import { A4_FREQUENCY } from '@/constants/TunerConfig';
+
 export interface AppSettings {
   /** Dark mode preference (saved for future theme switching) */
   darkMode: boolean;
   /** Controls whether UI sounds are played */
   soundEnabled: boolean;
+  /** Metronome sound for accented beats */
+  metronomeAccentSound: ClickSound;
+  /** Metronome sound for normal beats */
+  metronomeNormalSound: ClickSound;
+  /** Tuner A4 reference pitch in Hz (415-466) */
+  tunerReferencePitch: number;
+  /** Tuner display style (needle meter or strobe) */
+  tunerDisplayMode: TunerDisplayMode;
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
   darkMode: false,
   soundEnabled: true,
+  metronomeAccentSound: 'woodblock',
+  metronomeNormalSound: 'woodblock',
+  tunerReferencePitch: A4_FREQUENCY,
+  tunerDisplayMode: 'needle',
 };
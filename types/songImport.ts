@@ -0,0 +1,105 @@
+/**
+ * Song Import Types
+ *
+ * Songs read from chart files (ChordPro, chords-over-lyrics text, MusicXML)
+ * and the preview shown before they're added to the library.
+ */
+
+import type { SongArrangement } from './arrangement';
+import type { DbSong } from './database';
+
+/**
+ * Chart file formats that can be imported
+ */
+export type SongImportFormat = 'chordpro' | 'text' | 'musicxml';
+
+/**
+ * A picked file's name and contents
+ */
+export interface SongImportFile {
+  name: string;
+  text: string;
+}
+
+/**
+ * Song details read from a chart file
+ */
+export interface ImportedSong {
+  title: string;
+  artist: string;
+  /** Key in the app's format (e.g., "A Minor") */
+  key: string | null;
+  /** Tempo in the app's format (e.g., "120 BPM") */
+  tempo: string | null;
+  timeSignature: string | null;
+  /** Every chord in the chart, once each, in order of appearance */
+  chords: string[];
+  /** Sections found in the chart (null when it has none) */
+  arrangement: SongArrangement | null;
+  lyrics: string | null;
+  /** The chart as ChordPro text */
+  chordSheet: string | null;
+}
+
+/**
+ * Where an import matches a song that's already there
+ * - library: a song in the user's library
+ * - batch: an earlier file in the same import
+ */
+export type SongImportDuplicate = 'library' | 'batch';
+
+/**
+ * One picked file in the import preview
+ */
+export interface SongImportItem {
+  id: string;
+  fileName: string;
+  /** Detected format (null when the file can't be read) */
+  format: SongImportFormat | null;
+  /** Parsed song (null on error) */
+  song: ImportedSong | null;
+  /** Why the file can't be imported */
+  error: string | null;
+  duplicate: SongImportDuplicate | null;
+  /** Whether the song will be saved (off by default for duplicates) */
+  selected: boolean;
+}
+
+/**
+ * Columns written for an imported song
+ */
+export type ImportedSongRow = Pick<
+  DbSong,
+  | 'user_id'
+  | 'title'
+  | 'artist'
+  | 'instrument'
+  | 'key'
+  | 'tempo'
+  | 'time_signature'
+  | 'chords'
+  | 'lyrics'
+  | 'chord_sheet'
+  | 'song_structure'
+>;
+
+/**
+ * Return type for useSongImport hook
+ */
+export interface UseSongImportReturn {
+  /** Picked files being previewed (empty when no import is open) */
+  items: SongImportItem[];
+  /** Whether picked files are being read */
+  isReading: boolean;
+  /** Whether the chosen songs are being saved */
+  isSaving: boolean;
+  error: string | null;
+  /** Pick chart files and preview them */
+  pickFiles: () => Promise<void>;
+  /** Include or leave out a previewed song */
+  toggleItem: (id: string) => void;
+  /** Save the chosen songs, returning how many were added */
+  importSelected: (instrument: ImportedSongRow['instrument']) => Promise<number>;
+  /** Close the preview */
+  clear: () => void;
+}
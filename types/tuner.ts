@@ -4,7 +4,8 @@
  * Types for pitch detection, tuner state, and instrument configuration.
  */
 
-import type { InstrumentType, StringConfig } from '@/constants/TunerConfig';
+import type { InstrumentType, StringConfig, TunerTuning } from '@/constants/TunerConfig';
+import type { InstrumentType as ChordInstrumentType } from './chords';
 
 // ============================================================================
 // Pitch Detection Types
@@ -42,6 +43,8 @@ export interface UsePitchDetectionReturn {
   stop: () => void;
   /** Whether currently listening */
   isListening: boolean;
+  /** Latest byte frequency spectrum (only while capturing the spectrum) */
+  spectrum: Uint8Array | null;
 }
 
 // ============================================================================
@@ -52,6 +55,8 @@ export interface UsePitchDetectionReturn {
 export interface TunerState {
   /** Currently selected instrument */
   instrument: InstrumentType;
+  /** Currently selected tuning ID */
+  tuningId: string;
   /** Current pitch result (raw from detection) */
   rawPitch: PitchResult | null;
   /** Smoothed pitch result (after Kalman filtering) */
@@ -82,6 +87,31 @@ export interface SmoothedPitchResult {
   clarity: number;
 }
 
+/** Song the tuner was opened from */
+export interface TunerSong {
+  id: string;
+  title: string;
+  artist: string;
+  /** Song instrument ("Guitar" | "Bass") */
+  instrument: string;
+  /** Tuning from analysis (e.g., "Drop D") */
+  tuning: string | null;
+  /** Chords from analysis (e.g., ["G", "Em", "C", "D"]) */
+  chords: string[];
+  /** Key from analysis (e.g., "A minor") */
+  key: string | null;
+  /** Scales from analysis (e.g., ["A Minor Pentatonic"]) */
+  scales: string[];
+}
+
+/** Tuner hook options */
+export interface UseTunerOptions {
+  /** Song tuning description to preselect (theoryData.tuning, e.g. "Drop D") */
+  songTuning?: string | null;
+  /** Instrument to preselect with the song tuning */
+  songInstrument?: InstrumentType;
+}
+
 /** Tuner hook return type */
 export interface UseTunerReturn {
   /** Current tuner state */
@@ -96,9 +126,45 @@ export interface UseTunerReturn {
   stop: () => void;
   /** Toggle tuner on/off */
   toggle: () => Promise<void>;
-  /** Change selected instrument */
+  /** Change selected instrument (selects its standard tuning) */
   setInstrument: (instrument: InstrumentType) => void;
-  /** Get string configurations for current instrument */
+  /** Currently selected tuning */
+  tuning: TunerTuning;
+  /** Tunings available for the current instrument (library, then custom) */
+  tunings: TunerTuning[];
+  /** Change selected tuning */
+  setTuning: (tuningId: string) => void;
+  /** Save a custom tuning for the current instrument and select it */
+  saveCustomTuning: (name: string, strings: StringConfig[]) => Promise<TunerTuning>;
+  /** Delete a custom tuning (falls back to standard if it was selected) */
+  deleteCustomTuning: (tuningId: string) => Promise<void>;
+  /** Calibrated A4 reference in Hz (saved in settings) */
+  referencePitch: number;
+  /** Set the A4 reference (clamped to 415-466 Hz) */
+  setReferencePitch: (a4Frequency: number) => void;
+  /** Whether auto-calibration is listening for a sustained A */
+  isCalibrating: boolean;
+  /** Message when auto-calibration didn't hear a steady A */
+  calibrationError: string | null;
+  /** Start auto-calibration (starts the tuner if needed) */
+  startCalibration: () => Promise<void>;
+  /** Cancel auto-calibration */
+  cancelCalibration: () => void;
+  /** Needle or strobe display (saved in settings) */
+  displayMode: TunerDisplayMode;
+  /** Switch between needle and strobe display */
+  setDisplayMode: (mode: TunerDisplayMode) => void;
+  /** Single-string or strummed-chord tuning */
+  mode: TunerMode;
+  /** Switch between single-string, strum check and chord recognition */
+  setMode: (mode: TunerMode) => void;
+  /** Per-string results of the strum check, lowest string first */
+  strumResults: StrumStringResult[];
+  /** Running chroma vector in chord mode (C to B, max 1; null until heard) */
+  chroma: number[] | null;
+  /** Best chord match for the chroma (null if nothing matches well enough) */
+  chordMatch: ChordMatch | null;
+  /** Get string configurations for current tuning, at the calibrated reference */
   strings: StringConfig[];
   /** Whether microphone permission is granted */
   hasPermission: boolean;
@@ -106,6 +172,198 @@ export interface UseTunerReturn {
   requestPermission: () => Promise<boolean>;
 }
 
+// ============================================================================
+// Intonation Types
+// ============================================================================
+
+/** Intonation check step for the current string */
+export type IntonationStep = 'harmonic' | 'fretted';
+
+/** Which way to move a string's saddle */
+export type SaddleAdjustment = 'forward' | 'back' | 'none';
+
+/** Intonation measurement for one string */
+export interface IntonationResult {
+  /** String number (1 = highest pitch) */
+  stringNumber: number;
+  /** Open string note name */
+  note: string;
+  /** Open string octave */
+  octave: number;
+  /** 12th-fret harmonic frequency in Hz */
+  harmonicFrequency: number;
+  /** Fretted 12th-fret frequency in Hz */
+  frettedFrequency: number;
+  /** Fretted note relative to the harmonic (cents, positive = sharp) */
+  cents: number;
+}
+
+/** Saved intonation check */
+export interface IntonationCheck {
+  id: string;
+  /** User's name for the instrument (e.g., "Black Strat") */
+  instrumentName: string;
+  /** Tuner instrument type */
+  instrument: InstrumentType;
+  /** Tuning the check was made in */
+  tuningName: string;
+  /** Calibrated A4 reference in Hz */
+  referencePitch: number;
+  /** Per-string results, lowest string first */
+  results: IntonationResult[];
+  /** When the check was saved */
+  checkedAt: string;
+}
+
+/** Intonation check hook return type */
+export interface UseIntonationCheckReturn {
+  /** Whether pitch detection is ready */
+  isReady: boolean;
+  /** Whether listening for the current step */
+  isListening: boolean;
+  /** Pitch detection error */
+  error: string | null;
+  /** String being checked (null once every string is done) */
+  currentString: StringConfig | null;
+  /** Step for the current string */
+  step: IntonationStep;
+  /** Live deviation from the current string's octave (cents, null if no matching pitch) */
+  liveCents: number | null;
+  /** Capture progress for the current step (0-1) */
+  captureProgress: number;
+  /** Results so far, lowest string first */
+  results: IntonationResult[];
+  /** Whether every string has a result */
+  isComplete: boolean;
+  /** Start listening */
+  start: () => Promise<void>;
+  /** Stop listening */
+  stop: () => void;
+  /** Measure a string again (starts from its harmonic) */
+  redoString: (stringNumber: number) => void;
+  /** Skip the current string */
+  skipString: () => void;
+  /** Clear all results and start over from the lowest string */
+  reset: () => void;
+}
+
+/** Chord practice hook return type */
+export interface UseChordPracticeReturn {
+  /** Chord being prompted (null before starting and once every chord is done) */
+  currentChord: string | null;
+  /** Chords in prompt order */
+  chords: string[];
+  /** Results so far, in prompt order */
+  results: ChordPracticeResult[];
+  /** Whether chords are being prompted */
+  isActive: boolean;
+  /** Whether every chord has a result */
+  isComplete: boolean;
+  /** How long the current chord has been held (0-1) */
+  holdProgress: number;
+  /** Seconds left for the current chord */
+  secondsLeft: number;
+  /** Start prompting from the first chord */
+  start: () => void;
+  /** Mark the current chord missed and move on */
+  skip: () => void;
+  /** Stop prompting and clear results */
+  reset: () => void;
+}
+
+// ============================================================================
+// Pitch Trainer Types
+// ============================================================================
+
+/** Instruments the pitch trainer supports (no frets to lean on) */
+export type TrainerInstrument = Extract<ChordInstrumentType, 'vocals' | 'bass'>;
+
+/** Where the trainer's targets come from */
+export type TrainerTargetSource = 'note' | 'scale';
+
+/** Trainer step: reference tone, listening for the held note, or showing the score */
+export type TrainerPhase = 'idle' | 'tone' | 'listening' | 'scored';
+
+/** A note the trainer can ask for */
+export interface TrainerNote {
+  /** Note name (C, C#, D, etc.) */
+  note: string;
+  /** Octave number */
+  octave: number;
+  /** MIDI note number */
+  midi: number;
+  /** Frequency at the calibrated reference (Hz) */
+  frequency: number;
+}
+
+/** One point of the pitch trace */
+export interface PitchTraceSample {
+  /** performance.now() timestamp (ms) */
+  time: number;
+  /** Deviation from the target (cents, null when no pitch was heard) */
+  cents: number | null;
+}
+
+/** Score for one held note */
+export interface PitchAttempt {
+  note: string;
+  octave: number;
+  /** Overall score (0-100) */
+  score: number;
+  /** Average deviation from the target (cents, positive = sharp) */
+  meanCents: number;
+  /** Standard deviation of the held pitch (cents) */
+  spreadCents: number;
+  /** Share of the hold spent inside the cent window (0-1) */
+  inWindowRatio: number;
+}
+
+/** Saved pitch training session */
+export interface PitchTrainingSession {
+  id: string;
+  instrument: TrainerInstrument;
+  /** Cent window the attempts were scored against */
+  windowCents: number;
+  /** Calibrated A4 reference in Hz */
+  referencePitch: number;
+  /** Song whose scale was practiced (null for free notes) */
+  songTitle: string | null;
+  /** Attempts in the order they were played */
+  attempts: PitchAttempt[];
+  /** Average attempt score (0-100) */
+  averageScore: number;
+  /** When the session was saved */
+  practicedAt: string;
+}
+
+/** Pitch trainer hook return type */
+export interface UsePitchTrainerReturn {
+  /** Whether pitch detection is ready */
+  isReady: boolean;
+  /** Pitch detection or tone playback error */
+  error: string | null;
+  /** Whether the microphone is listening */
+  isListening: boolean;
+  /** Current step */
+  phase: TrainerPhase;
+  /** Recent pitch relative to the target, oldest first */
+  trace: PitchTraceSample[];
+  /** How much of the hold has been heard (0-1) */
+  holdProgress: number;
+  /** Score for the latest attempt (null if it couldn't be scored) */
+  lastAttempt: PitchAttempt | null;
+  /** Attempts in this session */
+  attempts: PitchAttempt[];
+  /** Play the target, then listen for it held */
+  startAttempt: () => Promise<void>;
+  /** Play the target tone again without scoring */
+  playTone: () => Promise<void>;
+  /** Stop listening and playback */
+  stop: () => void;
+  /** Clear the session's attempts */
+  resetSession: () => void;
+}
+
 // ============================================================================
 // Kalman Filter Types
 // ============================================================================
@@ -133,6 +391,45 @@ export interface KalmanConfig {
 /** Tuner display mode */
 export type TunerDisplayMode = 'needle' | 'strobe';
 
+/** Tuner mode: one string at a time, every string from a strummed open chord, or chord recognition */
+export type TunerMode = 'single' | 'strum' | 'chord';
+
+/** Strum check reading for one string */
+export interface StrumStringResult {
+  /** Target string */
+  string: StringConfig;
+  /** Deviation from the string's target (cents, null if never heard) */
+  cents: number | null;
+  /** Strongest spectrum level found for the string (0-255) */
+  level: number;
+  /** Whether the string is sounding in the latest spectrum */
+  isSounding: boolean;
+}
+
+/** Strum check status for one string */
+export type StrumStringStatus = 'flat' | 'sharp' | 'inTune' | 'none';
+
+/** Chord template that best matches the chroma of what's being played */
+export interface ChordMatch {
+  /** Root note (sharps, e.g., "F#") */
+  root: string;
+  /** CHORD_FORMULAS key (e.g., "minor", "maj7") */
+  formula: string;
+  /** Chord name (e.g., "F#m") */
+  name: string;
+  /** Similarity between the chroma and the chord's template (0-1) */
+  score: number;
+}
+
+/** Outcome of one prompted chord in chord practice */
+export type ChordPracticeStatus = 'hit' | 'missed';
+
+/** Chord practice result for one prompted chord */
+export interface ChordPracticeResult {
+  chord: string;
+  status: ChordPracticeStatus;
+}
+
 /** Tuning accuracy level for visual feedback */
 export type TuningAccuracy = 'perfect' | 'close' | 'slight' | 'moderate' | 'far' | 'none';
 
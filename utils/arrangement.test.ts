@@ -0,0 +1,153 @@
+/**
+ * Arrangement Tests
+ * Validates reading stored arrangements, section editing helpers and section timing
+ */
+
+import {
+  parseArrangement,
+  createArrangementSection,
+  moveSection,
+  parseChordList,
+  getArrangementTimings,
+  isArrangementMapped,
+  transposeArrangement,
+} from './arrangement';
+import type { ArrangementSection, SongArrangement } from '@/types/arrangement';
+
+const section = (overrides: Partial<ArrangementSection> = {}): ArrangementSection => ({
+  id: 'section-1',
+  type: 'verse',
+  name: 'Verse',
+  bars: 8,
+  repeats: 1,
+  chords: [],
+  tempoBpm: null,
+  timeSignature: null,
+  notes: '',
+  ...overrides,
+});
+
+describe('parseArrangement', () => {
+  test('reads stored sections, filling in missing fields', () => {
+    const arrangement = parseArrangement({
+      startOffsetMs: 1500.4,
+      sections: [
+        { id: 'a', type: 'chorus', bars: 4, repeats: 2, chords: ['C', 'G'], tempoBpm: 140 },
+        { id: 'b', type: 'unknown' },
+      ],
+    });
+
+    expect(arrangement).toEqual({
+      startOffsetMs: 1500,
+      sections: [
+        section({
+          id: 'a',
+          type: 'chorus',
+          name: 'Chorus',
+          bars: 4,
+          repeats: 2,
+          chords: ['C', 'G'],
+          tempoBpm: 140,
+        }),
+      ],
+    });
+  });
+
+  test('turns the old section flags into sections in playing order', () => {
+    const arrangement = parseArrangement({ chorus: true, intro: true, bridge: false });
+    expect(arrangement?.sections.map((s) => s.name)).toEqual(['Intro', 'Chorus']);
+  });
+
+  test('returns null when nothing usable is stored', () => {
+    expect(parseArrangement(null)).toBeNull();
+    expect(parseArrangement({ verse: false })).toBeNull();
+  });
+});
+
+describe('createArrangementSection', () => {
+  test('numbers sections of a kind that is already there', () => {
+    const existing = [section({ type: 'verse' })];
+    expect(createArrangementSection('verse', existing).name).toBe('Verse 2');
+    expect(createArrangementSection('preChorus', existing).name).toBe('Pre-Chorus');
+  });
+});
+
+describe('moveSection', () => {
+  const sections = [section({ id: 'a' }), section({ id: 'b' })];
+
+  test('swaps a section with its neighbour', () => {
+    expect(moveSection(sections, 1, -1).map((s) => s.id)).toEqual(['b', 'a']);
+  });
+
+  test('stays put at either end', () => {
+    expect(moveSection(sections, 0, -1)).toBe(sections);
+  });
+});
+
+describe('parseChordList', () => {
+  test('splits on spaces, commas, bars and dashes', () => {
+    expect(parseChordList('Am, F | C - G7')).toEqual(['Am', 'F', 'C', 'G7']);
+  });
+});
+
+describe('getArrangementTimings', () => {
+  test('times sections from the bar 1 offset with tempo and meter changes', () => {
+    const arrangement: SongArrangement = {
+      startOffsetMs: 1000,
+      sections: [
+        section({ id: 'a', bars: 4, repeats: 2 }),
+        section({ id: 'b', bars: 2, tempoBpm: 60, timeSignature: '3/4' }),
+      ],
+    };
+
+    expect(getArrangementTimings(arrangement, 120, '4/4')).toEqual([
+      { sectionId: 'a', startBar: 0, bars: 8, bpm: 120, startMs: 1000, endMs: 17000 },
+      { sectionId: 'b', startBar: 8, bars: 2, bpm: 60, startMs: 17000, endMs: 23000 },
+    ]);
+  });
+
+  test('leaves positions unknown from the first section without a tempo', () => {
+    const arrangement: SongArrangement = {
+      startOffsetMs: 0,
+      sections: [section({ id: 'a' }), section({ id: 'b', tempoBpm: 100 })],
+    };
+
+    const timings = getArrangementTimings(arrangement, null, null);
+    expect(timings.map((t) => [t.startBar, t.startMs])).toEqual([
+      [0, null],
+      [8, null],
+    ]);
+  });
+});
+
+describe('isArrangementMapped', () => {
+  test('needs three sections including a verse and a chorus', () => {
+    const mapped = (types: ArrangementSection['type'][]) =>
+      isArrangementMapped({ startOffsetMs: 0, sections: types.map((type) => section({ type })) });
+
+    expect(mapped(['intro', 'verse', 'chorus'])).toBe(true);
+    expect(mapped(['verse', 'chorus'])).toBe(false);
+    expect(mapped(['intro', 'verse', 'outro'])).toBe(false);
+    expect(isArrangementMapped(null)).toBe(false);
+  });
+});
+
+describe('transposeArrangement', () => {
+  test('transposes section chords for the new key', () => {
+    const arrangement: SongArrangement = {
+      startOffsetMs: 0,
+      sections: [section({ chords: ['G', 'D/F#', 'Em'] })],
+    };
+
+    expect(transposeArrangement(arrangement, 3, 'G Major').sections[0].chords).toEqual([
+      'Bb',
+      'F/A',
+      'Gm',
+    ]);
+  });
+
+  test('returns the same arrangement for no shift', () => {
+    const arrangement: SongArrangement = { startOffsetMs: 0, sections: [section({ chords: ['C'] })] };
+    expect(transposeArrangement(arrangement, 0, 'C Major')).toBe(arrangement);
+  });
+});
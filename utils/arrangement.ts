@@ -0,0 +1,211 @@
+/**
+ * Arrangement Utilities
+ * Read, edit and time a song's arrangement (sections in playing order with
+ * their lengths, chords and tempo or meter changes)
+ */
+
+import { transposeSong } from './transpose';
+import { parseTempo, parseTimeSignature } from './metronome';
+import { generateId } from './ids';
+import { ARRANGEMENT_CONFIG, ARRANGEMENT_SECTION_TYPES } from '@/constants/ArrangementConfig';
+import type {
+  ArrangementSection,
+  ArrangementSectionTiming,
+  ArrangementSectionType,
+  SongArrangement,
+} from '@/types/arrangement';
+
+// Section kinds of the old song_structure flags, in playing order
+const LEGACY_SECTION_TYPES: ArrangementSectionType[] = ['intro', 'verse', 'chorus', 'bridge', 'outro'];
+
+/**
+ * Display label for a section kind (e.g., "Pre-Chorus")
+ */
+export function getSectionTypeLabel(type: ArrangementSectionType): string {
+  return ARRANGEMENT_SECTION_TYPES.find((option) => option.value === type)?.label ?? type;
+}
+
+function isSectionType(value: unknown): value is ArrangementSectionType {
+  return ARRANGEMENT_SECTION_TYPES.some((option) => option.value === value);
+}
+
+function clampCount(value: unknown, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.max(1, Math.min(max, Math.round(value)));
+}
+
+/**
+ * Read one stored section, filling in anything missing
+ */
+function parseSection(raw: unknown, index: number): ArrangementSection | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const section = raw as Record<string, unknown>;
+  if (!isSectionType(section.type)) return null;
+
+  const name = typeof section.name === 'string' ? section.name.trim() : '';
+  const tempo = typeof section.tempoBpm === 'number' ? parseTempo(String(section.tempoBpm)) : null;
+  const timeSignature =
+    typeof section.timeSignature === 'string' && parseTimeSignature(section.timeSignature)
+      ? section.timeSignature
+      : null;
+
+  return {
+    id: typeof section.id === 'string' && section.id ? section.id : `section_${index}`,
+    type: section.type,
+    name: name || getSectionTypeLabel(section.type),
+    bars: clampCount(section.bars, ARRANGEMENT_CONFIG.maxBars, ARRANGEMENT_CONFIG.defaultBars),
+    repeats: clampCount(section.repeats, ARRANGEMENT_CONFIG.maxRepeats, 1),
+    chords: Array.isArray(section.chords)
+      ? section.chords.filter((chord): chord is string => typeof chord === 'string' && !!chord.trim())
+      : [],
+    tempoBpm: tempo,
+    timeSignature,
+    notes: typeof section.notes === 'string' ? section.notes : '',
+  };
+}
+
+/**
+ * Read a song's stored arrangement (songs.song_structure)
+ * Songs saved with the old intro/verse/chorus flags get one section per flag.
+ * Returns null when nothing usable is stored.
+ */
+export function parseArrangement(raw: unknown): SongArrangement | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const stored = raw as Record<string, unknown>;
+
+  if (!Array.isArray(stored.sections)) {
+    const sections = LEGACY_SECTION_TYPES.filter((type) => stored[type] === true)
+      .map((type, index) => parseSection({ type }, index))
+      .filter((section): section is ArrangementSection => section !== null);
+    return sections.length > 0 ? { sections, startOffsetMs: 0 } : null;
+  }
+
+  const offset = stored.startOffsetMs;
+  return {
+    sections: stored.sections
+      .map(parseSection)
+      .filter((section): section is ArrangementSection => section !== null),
+    startOffsetMs:
+      typeof offset === 'number' && Number.isFinite(offset) ? Math.max(0, Math.round(offset)) : 0,
+  };
+}
+
+/**
+ * New section of a kind, named after the ones already there ("Verse 2")
+ */
+export function createArrangementSection(
+  type: ArrangementSectionType,
+  sections: ArrangementSection[]
+): ArrangementSection {
+  const label = getSectionTypeLabel(type);
+  const count = sections.filter((section) => section.type === type).length;
+
+  return {
+    id: generateId('section'),
+    type,
+    name: count > 0 ? `${label} ${count + 1}` : label,
+    bars: ARRANGEMENT_CONFIG.defaultBars,
+    repeats: 1,
+    chords: [],
+    tempoBpm: null,
+    timeSignature: null,
+    notes: '',
+  };
+}
+
+/**
+ * Move a section up (-1) or down (1), staying put at either end
+ */
+export function moveSection(
+  sections: ArrangementSection[],
+  index: number,
+  delta: number
+): ArrangementSection[] {
+  const target = index + delta;
+  if (index < 0 || index >= sections.length || target < 0 || target >= sections.length) {
+    return sections;
+  }
+
+  const next = [...sections];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * Read a chord progression typed as "Am F C G" (spaces, commas, bars or dashes between chords)
+ */
+export function parseChordList(text: string): string[] {
+  return text
+    .split(/[\s,|]+/)
+    .map((chord) => chord.trim())
+    .filter((chord) => chord && chord !== '-');
+}
+
+/**
+ * Bars, tempo and audio position of each section
+ * Bar length follows the section's meter (beats of the bottom note value, as
+ * the metronome counts them). Positions start at the arrangement's bar 1 offset
+ * and are null from the first section without a known tempo.
+ */
+export function getArrangementTimings(
+  arrangement: SongArrangement,
+  songBpm: number | null,
+  songTimeSignature: string | null
+): ArrangementSectionTiming[] {
+  let bar = 0;
+  let positionMs: number | null = arrangement.startOffsetMs;
+
+  return arrangement.sections.map((section) => {
+    const bars = section.bars * section.repeats;
+    const bpm = section.tempoBpm ?? songBpm;
+    const beats = parseTimeSignature(section.timeSignature ?? songTimeSignature)?.beats ?? 4;
+
+    const startMs = bpm !== null ? positionMs : null;
+    const endMs = startMs !== null && bpm !== null ? startMs + (bars * beats * 60000) / bpm : null;
+
+    const timing: ArrangementSectionTiming = {
+      sectionId: section.id,
+      startBar: bar,
+      bars,
+      bpm,
+      startMs,
+      endMs,
+    };
+
+    bar += bars;
+    positionMs = endMs;
+    return timing;
+  });
+}
+
+/**
+ * Whether the arrangement maps the whole song, completing the "Full Structure" node:
+ * at least three sections, including a verse and a chorus
+ */
+export function isArrangementMapped(arrangement: SongArrangement | null): boolean {
+  if (!arrangement) return false;
+  const { sections } = arrangement;
+  return (
+    sections.length >= ARRANGEMENT_CONFIG.minMappedSections &&
+    sections.some((section) => section.type === 'verse') &&
+    sections.some((section) => section.type === 'chorus')
+  );
+}
+
+/**
+ * Transpose every section's chords, spelled for the new key
+ */
+export function transposeArrangement(
+  arrangement: SongArrangement,
+  semitones: number,
+  songKey: string
+): SongArrangement {
+  const sections = arrangement.sections.map((section) => {
+    const transposed = transposeSong({ key: songKey, chords: section.chords, scales: [] }, semitones);
+    return transposed.chords === section.chords ? section : { ...section, chords: transposed.chords };
+  });
+
+  return sections.every((section, i) => section === arrangement.sections[i])
+    ? arrangement
+    : { ...arrangement, sections };
+}
@@ -0,0 +1,107 @@
+/**
+ * Audio Context Utilities
+ *
+ * Creates audio contexts and configures the native audio session for every
+ * audio hook (metronome, tuner, reference tone, ear trainer, waveform).
+ *
+ * Platform support:
+ * - iOS/Android: react-native-audio-api (needs a development build, not Expo Go)
+ * - Web: Native Web Audio API
+ */
+
+import { Platform } from 'react-native';
+import type { AudioContextType } from '@/types/audio';
+
+/**
+ * iOS audio session settings passed to react-native-audio-api's AudioManager
+ */
+export interface IosAudioSessionOptions {
+  iosCategory: 'playback' | 'playAndRecord' | 'record' | 'ambient' | 'soloAmbient';
+  iosMode: 'default' | 'measurement' | 'voiceChat' | 'videoRecording' | 'spokenAudio';
+  iosOptions: ('mixWithOthers' | 'defaultToSpeaker' | 'allowBluetooth' | 'duckOthers')[];
+}
+
+/**
+ * The parts of react-native-audio-api used here
+ */
+interface NativeAudioApi {
+  AudioContext: new (options: { sampleRate: number }) => unknown;
+  AudioManager?: {
+    setAudioSessionOptions: (options: IosAudioSessionOptions) => void;
+    setAudioSessionActivity: (active: boolean) => Promise<unknown>;
+  };
+}
+
+// Conditionally import react-native-audio-api for native platforms
+let nativeAudioApi: NativeAudioApi | null = null;
+let audioApiLoadError: string | null = null;
+
+if (Platform.OS !== 'web') {
+  try {
+    nativeAudioApi = require('react-native-audio-api') as NativeAudioApi;
+  } catch (e) {
+    audioApiLoadError = e instanceof Error ? e.message : 'Unknown error loading audio API';
+    console.warn('[AudioContext] Failed to load react-native-audio-api:', e);
+  }
+}
+
+/**
+ * Create an audio context at a sample rate (platform-aware)
+ * Throws when the native audio API isn't available.
+ * Callers that use the DOM AudioContext type can ask for it as T.
+ */
+export function createAudioContext<T = AudioContextType>(sampleRate: number): T {
+  if (Platform.OS === 'web') {
+    const AudioContextClass =
+      window.AudioContext ||
+      (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    return new AudioContextClass({ sampleRate }) as unknown as T;
+  }
+
+  if (!nativeAudioApi?.AudioContext) {
+    throw new Error(
+      audioApiLoadError
+        ? `react-native-audio-api failed to load: ${audioApiLoadError}`
+        : 'react-native-audio-api not available - ensure you are using a development build, not Expo Go'
+    );
+  }
+
+  return new nativeAudioApi.AudioContext({ sampleRate }) as T;
+}
+
+/**
+ * Set and activate the iOS audio session (no-op on other platforms)
+ * Failures are logged; audio still plays with the default session.
+ */
+export async function configureIosAudioSession(options: IosAudioSessionOptions): Promise<void> {
+  const audioManager = nativeAudioApi?.AudioManager;
+  if (!audioManager || Platform.OS !== 'ios') return;
+
+  try {
+    audioManager.setAudioSessionOptions(options);
+    await audioManager.setAudioSessionActivity(true);
+  } catch (sessionErr) {
+    console.warn('[AudioContext] Audio session config error:', sessionErr);
+  }
+}
+
+/**
+ * Activate the Android audio session (no-op on other platforms)
+ */
+export async function activateAndroidAudioSession(): Promise<void> {
+  const audioManager = nativeAudioApi?.AudioManager;
+  if (!audioManager || Platform.OS !== 'android') return;
+
+  try {
+    await audioManager.setAudioSessionActivity(true);
+  } catch (sessionErr) {
+    console.warn('[AudioContext] Android audio session config error:', sessionErr);
+  }
+}
+
+/**
+ * Deactivate the native audio session (no-op on web)
+ */
+export function deactivateAudioSession(): void {
+  nativeAudioApi?.AudioManager?.setAudioSessionActivity(false).catch(() => {});
+}
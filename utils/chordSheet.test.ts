@@ -0,0 +1,166 @@
+/**
+ * Chord Sheet Tests
+ * Validates ChordPro parsing and writing, transposition, and chord placement
+ */
+
+import {
+  parseChordPro,
+  serializeChordPro,
+  getSheetChords,
+  transposeChordSheet,
+  getLineSegments,
+  splitSyllables,
+  placeChord,
+  createChordSheetFromLyrics,
+} from './chordSheet';
+
+const SOURCE = `{title: Test Song}
+{artist: Test Artist}
+{key: G Major}
+{capo: 2}
+[G]Hello [D/F#]darkness
+{comment: Softly}
+
+{start_of_chorus: Chorus}
+[Em]Sing it [C]loud
+{end_of_chorus}
+{start_of_tab}
+e|--0--3--|
+{end_of_tab}`;
+
+describe('parseChordPro', () => {
+  const sheet = parseChordPro(SOURCE);
+
+  test('reads title, artist, key and capo directives', () => {
+    expect(sheet.title).toBe('Test Song');
+    expect(sheet.artist).toBe('Test Artist');
+    expect(sheet.key).toBe('G Major');
+    expect(sheet.capo).toBe(2);
+  });
+
+  test('places inline chords at their positions in the text', () => {
+    expect(sheet.sections[0].lines[0]).toEqual({
+      type: 'lyrics',
+      text: 'Hello darkness',
+      chords: [
+        { position: 0, chord: 'G' },
+        { position: 6, chord: 'D/F#' },
+      ],
+    });
+    expect(sheet.sections[0].lines[1]).toEqual({ type: 'comment', text: 'Softly' });
+  });
+
+  test('groups lines into chorus and tab sections', () => {
+    expect(sheet.sections.map((section) => [section.kind, section.label])).toEqual([
+      [null, null],
+      ['chorus', 'Chorus'],
+      ['tab', null],
+    ]);
+    expect(sheet.sections[2].lines).toEqual([{ type: 'tab', text: 'e|--0--3--|' }]);
+  });
+
+  test('understands short directive names and keeps unknown directives', () => {
+    const short = parseChordPro('{t: Song}\n{soc}\n[A]La\n{eoc}\n{tempo: 120}');
+    expect(short.title).toBe('Song');
+    expect(short.sections[0].kind).toBe('chorus');
+    expect(short.sections[1].lines).toEqual([{ type: 'directive', name: 'tempo', value: '120' }]);
+  });
+});
+
+describe('serializeChordPro', () => {
+  test('round-trips a chord sheet', () => {
+    const sheet = parseChordPro(SOURCE);
+    expect(parseChordPro(serializeChordPro(sheet))).toEqual(sheet);
+  });
+
+  test('writes chords back inline', () => {
+    expect(serializeChordPro(parseChordPro('[Am]One [F]two[G]'))).toBe('[Am]One [F]two[G]');
+  });
+});
+
+describe('getSheetChords', () => {
+  test('lists each chord once in order of appearance', () => {
+    expect(getSheetChords(parseChordPro('[G]a [C]b\n[G]c [D]d'))).toEqual(['G', 'C', 'D']);
+  });
+});
+
+describe('transposeChordSheet', () => {
+  test('transposes chords and key, spelled for the new key', () => {
+    const transposed = transposeChordSheet(parseChordPro(SOURCE), 3);
+    expect(transposed.key).toBe('Bb Major');
+    expect(getSheetChords(transposed)).toEqual(['Bb', 'F/A', 'Gm', 'Eb']);
+  });
+
+  test('spells for the song key when the sheet has none', () => {
+    const sheet = parseChordPro('[C]One [D]two');
+    expect(getSheetChords(transposeChordSheet(sheet, 1))).toEqual(['C#', 'D#']);
+
+    const transposed = transposeChordSheet(sheet, 1, 'A Major');
+    expect(transposed.key).toBeNull();
+    expect(getSheetChords(transposed)).toEqual(['Db', 'Eb']);
+  });
+
+  test('returns the same sheet for no shift', () => {
+    const sheet = parseChordPro(SOURCE);
+    expect(transposeChordSheet(sheet, 12)).toBe(sheet);
+  });
+});
+
+describe('getLineSegments', () => {
+  test('splits text at chord positions', () => {
+    expect(getLineSegments('Hello darkness', [{ position: 6, chord: 'D' }])).toEqual([
+      { chord: null, text: 'Hello ' },
+      { chord: 'D', text: 'darkness' },
+    ]);
+  });
+
+  test('keeps a chord past the end of the text', () => {
+    expect(getLineSegments('Go', [{ position: 2, chord: 'E' }])).toEqual([
+      { chord: null, text: 'Go' },
+      { chord: 'E', text: '' },
+    ]);
+  });
+});
+
+describe('splitSyllables', () => {
+  test('splits words into syllables with their positions', () => {
+    expect(splitSyllables('wonderful time')).toEqual([
+      { position: 0, text: 'won' },
+      { position: 3, text: 'der' },
+      { position: 6, text: 'ful' },
+      { position: 10, text: 'time' },
+    ]);
+  });
+
+  test('keeps words without vowels whole', () => {
+    expect(splitSyllables('hmm')).toEqual([{ position: 0, text: 'hmm' }]);
+  });
+});
+
+describe('placeChord', () => {
+  const chords = [{ position: 4, chord: 'C' }];
+
+  test('adds a chord in position order', () => {
+    expect(placeChord(chords, 0, 'G')).toEqual([
+      { position: 0, chord: 'G' },
+      { position: 4, chord: 'C' },
+    ]);
+  });
+
+  test('replaces or removes the chord at a position', () => {
+    expect(placeChord(chords, 4, 'Am')).toEqual([{ position: 4, chord: 'Am' }]);
+    expect(placeChord(chords, 4, null)).toEqual([]);
+  });
+});
+
+describe('createChordSheetFromLyrics', () => {
+  test('starts from the lyric lines and stanza breaks without timestamps', () => {
+    const sheet = createChordSheetFromLyrics('[00:01.00]First\n\n[00:05.00]Second', {
+      title: 'Song',
+      key: 'Unknown',
+    });
+    expect(sheet.title).toBe('Song');
+    expect(sheet.key).toBeNull();
+    expect(sheet.sections[0].lines.map((line) => line.type)).toEqual(['lyrics', 'empty', 'lyrics']);
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Chord Sheet Utilities
+ * Parse and write ChordPro-compatible chord sheets ([Am] inline chords,
+ * {start_of_chorus} directives), transpose them, and place chords over syllables
+ */
+
+import { transposeSong } from './transpose';
+import { parseLyrics } from './lyrics';
+import type {
+  ChordPlacement,
+  ChordSheet,
+  ChordSheetLine,
+  ChordSheetSection,
+  ChordSheetSectionKind,
+  ChordSheetSegment,
+  ChordSheetSyllable,
+} from '@/types/chordSheet';
+
+// Directive line: {name} or {name: value}
+const DIRECTIVE_PATTERN = /^\{\s*([a-z_]+)\s*(?::\s*(.*?))?\s*\}$/i;
+
+// Inline chord marker: [Am7]
+const CHORD_MARKER = /\[([^\]]*)\]/g;
+
+// Syllable: consonants, a vowel group, then the consonants that close it
+const SYLLABLE_PATTERN = /[^aeiouy]*[aeiouy]+(?:[^aeiouy]*$|[^aeiouy](?=[^aeiouy]))?/gi;
+
+// A silent final "e" chunk ("ti-me") belongs to the syllable before it
+const SILENT_E_PATTERN = /^[^aeiouy]+e[^a-z]*$/i;
+
+/** Short directive names (ChordPro abbreviations) */
+const DIRECTIVE_ALIASES: Record<string, string> = {
+  t: 'title',
+  st: 'subtitle',
+  c: 'comment',
+  ci: 'comment',
+  cb: 'comment',
+  comment_italic: 'comment',
+  comment_box: 'comment',
+  soc: 'start_of_chorus',
+  eoc: 'end_of_chorus',
+  sov: 'start_of_verse',
+  eov: 'end_of_verse',
+  sob: 'start_of_bridge',
+  eob: 'end_of_bridge',
+  sot: 'start_of_tab',
+  eot: 'end_of_tab',
+};
+
+const SECTION_KINDS: ChordSheetSectionKind[] = ['verse', 'chorus', 'bridge', 'tab'];
+
+/**
+ * Section kind opened or closed by a directive, if any
+ */
+function getSectionDirective(
+  name: string
+): { kind: ChordSheetSectionKind; isStart: boolean } | null {
+  for (const kind of SECTION_KINDS) {
+    if (name === `start_of_${kind}`) return { kind, isStart: true };
+    if (name === `end_of_${kind}`) return { kind, isStart: false };
+  }
+  return null;
+}
+
+/**
+ * Parse a lyric line with inline [chord] markers
+ */
+function parseLyricLine(line: string): ChordSheetLine {
+  const chords: ChordPlacement[] = [];
+  let text = '';
+  let lastIndex = 0;
+
+  CHORD_MARKER.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = CHORD_MARKER.exec(line)) !== null) {
+    text += line.slice(lastIndex, match.index);
+    const chord = match[1].trim();
+    if (chord) chords.push({ position: text.length, chord });
+    lastIndex = CHORD_MARKER.lastIndex;
+  }
+  text += line.slice(lastIndex);
+
+  return { type: 'lyrics', text, chords };
+}
+
+/**
+ * Parse ChordPro text into a chord sheet
+ * Unknown directives are kept so they survive a save.
+ */
+export function parseChordPro(source: string): ChordSheet {
+  const sheet: ChordSheet = { title: null, artist: null, key: null, capo: null, sections: [] };
+  let section: ChordSheetSection = { kind: null, label: null, lines: [] };
+
+  const startSection = (kind: ChordSheetSectionKind | null, label: string | null) => {
+    if (section.lines.length > 0 || section.kind !== null) sheet.sections.push(section);
+    section = { kind, label, lines: [] };
+  };
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    const trimmed = line.trim();
+
+    // File comments
+    if (trimmed.startsWith('#')) continue;
+
+    const directive = trimmed.match(DIRECTIVE_PATTERN);
+    if (directive) {
+      const rawName = directive[1].toLowerCase();
+      const name = DIRECTIVE_ALIASES[rawName] ?? rawName;
+      const value = directive[2]?.trim() || null;
+
+      const sectionDirective = getSectionDirective(name);
+      if (sectionDirective) {
+        if (sectionDirective.isStart) {
+          startSection(sectionDirective.kind, value);
+        } else {
+          startSection(null, null);
+        }
+        continue;
+      }
+
+      switch (name) {
+        case 'title':
+          sheet.title = value;
+          break;
+        case 'artist':
+        case 'subtitle':
+          sheet.artist = sheet.artist ?? value;
+          break;
+        case 'key':
+          sheet.key = value;
+          break;
+        case 'capo': {
+          const capo = value ? parseInt(value, 10) : NaN;
+          sheet.capo = Number.isNaN(capo) ? null : capo;
+          break;
+        }
+        case 'comment':
+          section.lines.push({ type: 'comment', text: value ?? '' });
+          break;
+        default:
+          section.lines.push({ type: 'directive', name, value });
+      }
+      continue;
+    }
+
+    if (!trimmed) {
+      section.lines.push({ type: 'empty' });
+    } else if (section.kind === 'tab') {
+      section.lines.push({ type: 'tab', text: line });
+    } else {
+      section.lines.push(parseLyricLine(line));
+    }
+  }
+
+  if (section.lines.length > 0 || section.kind !== null) sheet.sections.push(section);
+  return sheet;
+}
+
+/**
+ * Write a lyric line with its chords as inline [chord] markers
+ */
+function serializeLyricLine(text: string, chords: ChordPlacement[]): string {
+  const sorted = [...chords].sort((a, b) => a.position - b.position);
+  let result = '';
+  let lastIndex = 0;
+
+  for (const { position, chord } of sorted) {
+    const index = Math.min(Math.max(0, position), text.length);
+    result += `${text.slice(lastIndex, index)}[${chord}]`;
+    lastIndex = index;
+  }
+
+  return result + text.slice(lastIndex);
+}
+
+/**
+ * Write one chord sheet line as ChordPro
+ */
+function serializeLine(line: ChordSheetLine): string {
+  switch (line.type) {
+    case 'lyrics':
+      return serializeLyricLine(line.text, line.chords);
+    case 'comment':
+      return `{comment: ${line.text}}`;
+    case 'tab':
+      return line.text;
+    case 'directive':
+      return line.value === null ? `{${line.name}}` : `{${line.name}: ${line.value}}`;
+    case 'empty':
+      return '';
+  }
+}
+
+/**
+ * Write a chord sheet as ChordPro text
+ */
+export function serializeChordPro(sheet: ChordSheet): string {
+  const output: string[] = [];
+
+  if (sheet.title) output.push(`{title: ${sheet.title}}`);
+  if (sheet.artist) output.push(`{artist: ${sheet.artist}}`);
+  if (sheet.key) output.push(`{key: ${sheet.key}}`);
+  if (sheet.capo !== null) output.push(`{capo: ${sheet.capo}}`);
+
+  for (const section of sheet.sections) {
+    if (section.kind) {
+      output.push(
+        section.label
+          ? `{start_of_${section.kind}: ${section.label}}`
+          : `{start_of_${section.kind}}`
+      );
+    }
+    output.push(...section.lines.map(serializeLine));
+    if (section.kind) output.push(`{end_of_${section.kind}}`);
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Every chord in the sheet, once each, in order of appearance
+ */
+export function getSheetChords(sheet: ChordSheet): string[] {
+  const chords: string[] = [];
+  for (const section of sheet.sections) {
+    for (const line of section.lines) {
+      if (line.type !== 'lyrics') continue;
+      for (const { chord } of line.chords) {
+        if (!chords.includes(chord)) chords.push(chord);
+      }
+    }
+  }
+  return chords;
+}
+
+/**
+ * Transpose every chord and the key of a chord sheet
+ * Spelling follows the new key, as for the song's theory data; songKey is used
+ * for spelling when the sheet has no {key}.
+ */
+export function transposeChordSheet(
+  sheet: ChordSheet,
+  semitones: number,
+  songKey?: string
+): ChordSheet {
+  const chords = getSheetChords(sheet);
+  const transposed = transposeSong(
+    { key: sheet.key ?? songKey ?? '', chords, scales: [] },
+    semitones
+  );
+  if (transposed.chords === chords) return sheet;
+
+  const chordMap = new Map(chords.map((chord, i) => [chord, transposed.chords[i]]));
+  const transposeLine = (line: ChordSheetLine): ChordSheetLine =>
+    line.type === 'lyrics'
+      ? {
+          ...line,
+          chords: line.chords.map((placement) => ({
+            ...placement,
+            chord: chordMap.get(placement.chord) ?? placement.chord,
+          })),
+        }
+      : line;
+
+  return {
+    ...sheet,
+    key: sheet.key ? transposed.key : null,
+    sections: sheet.sections.map((section) => ({
+      ...section,
+      lines: section.lines.map(transposeLine),
+    })),
+  };
+}
+
+/**
+ * Split a lyric line at its chords, for rendering chords over the text
+ */
+export function getLineSegments(text: string, chords: ChordPlacement[]): ChordSheetSegment[] {
+  const sorted = [...chords].sort((a, b) => a.position - b.position);
+  const segments: ChordSheetSegment[] = [];
+
+  const firstPosition = sorted.length > 0 ? Math.min(sorted[0].position, text.length) : text.length;
+  if (firstPosition > 0 || sorted.length === 0) {
+    segments.push({ chord: null, text: text.slice(0, firstPosition) });
+  }
+
+  sorted.forEach((placement, i) => {
+    const start = Math.min(Math.max(0, placement.position), text.length);
+    const end = i + 1 < sorted.length ? Math.min(sorted[i + 1].position, text.length) : text.length;
+    segments.push({ chord: placement.chord, text: text.slice(start, end) });
+  });
+
+  return segments;
+}
+
+/**
+ * Split a word into rough syllables ("won-der-ful"); words without vowels stay whole
+ */
+function splitWord(word: string): string[] {
+  const chunks = word.match(SYLLABLE_PATTERN) ?? [];
+  if (chunks.join('') !== word) return [word];
+
+  return chunks.reduce<string[]>((syllables, chunk) => {
+    if (syllables.length > 0 && SILENT_E_PATTERN.test(chunk)) {
+      syllables[syllables.length - 1] += chunk;
+    } else {
+      syllables.push(chunk);
+    }
+    return syllables;
+  }, []);
+}
+
+/**
+ * Syllables of a lyric line, each a place a chord can sit over
+ */
+export function splitSyllables(text: string): ChordSheetSyllable[] {
+  const syllables: ChordSheetSyllable[] = [];
+  const wordPattern = /\S+/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    let position = match.index;
+    for (const syllable of splitWord(match[0])) {
+      syllables.push({ position, text: syllable });
+      position += syllable.length;
+    }
+  }
+
+  return syllables;
+}
+
+/**
+ * Place a chord at a position in a lyric line, replacing any chord there
+ * Pass null to remove the chord at that position.
+ */
+export function placeChord(
+  chords: ChordPlacement[],
+  position: number,
+  chord: string | null
+): ChordPlacement[] {
+  const others = chords.filter((placement) => placement.position !== position);
+  const next = chord ? [...others, { position, chord }] : others;
+  return next.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Start a chord sheet from a song's lyrics (LRC timestamps are dropped)
+ */
+export function createChordSheetFromLyrics(
+  lyrics: string | null,
+  details: { title?: string; artist?: string; key?: string } = {}
+): ChordSheet {
+  const lines: ChordSheetLine[] = lyrics
+    ? parseLyrics(lyrics).lines.map((line) =>
+        line.text ? { type: 'lyrics', text: line.text, chords: [] } : { type: 'empty' }
+      )
+    : [];
+
+  return {
+    title: details.title?.trim() || null,
+    artist: details.artist?.trim() || null,
+    key: details.key && details.key !== 'Unknown' ? details.key : null,
+    capo: null,
+    sections: lines.length > 0 ? [{ kind: null, label: null, lines }] : [],
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Ear Training Utilities
+ *
+ * Question generation and tone synthesis for the ear trainer.
+ */
+
+export {
+  getIntervalPool,
+  getChordPool,
+  parseEarTrainingKey,
+  getDiatonicTriads,
+  createIntervalQuestion,
+  createChordQuestion,
+  createProgressionQuestion,
+  createQuestion,
+} from './quiz';
+export type { DiatonicTriad } from './quiz';
+export { getSequenceDuration, renderSequence } from './synthesis';
@@ -0,0 +1,140 @@
+/**
+ * Ear Training Quiz Tests
+ * Validates question pools, diatonic triads and generated questions
+ */
+
+import {
+  getIntervalPool,
+  getChordPool,
+  parseEarTrainingKey,
+  getDiatonicTriads,
+  createIntervalQuestion,
+  createChordQuestion,
+  createProgressionQuestion,
+  createQuestion,
+} from './quiz';
+import { EAR_TRAINING_CONFIG, INTERVAL_NAMES } from '@/constants/EarTrainingConfig';
+
+/** Deterministic random source cycling through values */
+const sequenceRandom = (values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+/** Small seeded generator for varied but repeatable questions */
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+describe('getIntervalPool', () => {
+  test('covers every interval up to the octave', () => {
+    expect(getIntervalPool()).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+});
+
+describe('getChordPool', () => {
+  test('quizzes the four triads and three sevenths', () => {
+    expect(getChordPool('triad').map((chord) => chord.name)).toEqual([
+      'Major',
+      'Minor',
+      'Diminished',
+      'Augmented',
+    ]);
+    expect(getChordPool('seventh')).toContainEqual({ name: 'Dominant 7th', intervals: [0, 4, 7, 10] });
+  });
+});
+
+describe('parseEarTrainingKey', () => {
+  test('reads major and minor keys', () => {
+    expect(parseEarTrainingKey('A Minor')).toEqual({ root: 'A', quality: 'minor' });
+    expect(parseEarTrainingKey('Bb')).toEqual({ root: 'Bb', quality: 'major' });
+  });
+
+  test('rejects missing or unreadable keys', () => {
+    expect(parseEarTrainingKey(null)).toBeNull();
+    expect(parseEarTrainingKey('  ')).toBeNull();
+    expect(parseEarTrainingKey('Unknown')).toBeNull();
+  });
+});
+
+describe('getDiatonicTriads', () => {
+  test('names the major key degrees', () => {
+    expect(getDiatonicTriads('major').map((triad) => triad.numeral)).toEqual([
+      'I',
+      'ii',
+      'iii',
+      'IV',
+      'V',
+      'vi',
+      'vii°',
+    ]);
+  });
+
+  test('names the natural minor degrees', () => {
+    expect(getDiatonicTriads('minor').map((triad) => triad.numeral)).toEqual([
+      'i',
+      'ii°',
+      'III',
+      'iv',
+      'v',
+      'VI',
+      'VII',
+    ]);
+  });
+
+  test('stacks thirds across the octave', () => {
+    const seventh = getDiatonicTriads('major')[6];
+    expect(seventh).toEqual({ numeral: 'vii°', offset: 11, intervals: [0, 3, 6] });
+  });
+});
+
+describe('createIntervalQuestion', () => {
+  test('plays the root then the interval above', () => {
+    const question = createIntervalQuestion(sequenceRandom([0.3, 0]));
+    const [[root], [top]] = question.sequence;
+    expect(root).toBe(EAR_TRAINING_CONFIG.lowRootMidi);
+    expect(question.answer).toBe(INTERVAL_NAMES[top - root]);
+    expect(question.options).toContain(question.answer);
+    expect(question.options).toHaveLength(12);
+  });
+});
+
+describe('createChordQuestion', () => {
+  test('arpeggiates, then strikes the chord', () => {
+    const question = createChordQuestion('seventh', sequenceRandom([0, 0]));
+    expect(question.answer).toBe('Major 7th');
+    expect(question.sequence).toEqual([[48], [52], [55], [59], [48, 52, 55, 59]]);
+  });
+});
+
+describe('createProgressionQuestion', () => {
+  test('starts on the tonic in the key', () => {
+    const question = createProgressionQuestion({ root: 'A', quality: 'minor' }, seededRandom(7));
+    expect(question.sequence).toHaveLength(EAR_TRAINING_CONFIG.progressionLength);
+    expect(question.sequence[0]).toEqual([57, 60, 64]);
+    expect(question.answer.startsWith('i – ')).toBe(true);
+  });
+
+  test('offers distinct options including the answer', () => {
+    const question = createProgressionQuestion({ root: 'C', quality: 'major' }, seededRandom(42));
+    expect(question.options).toHaveLength(EAR_TRAINING_CONFIG.progressionOptions);
+    expect(new Set(question.options).size).toBe(question.options.length);
+    expect(question.options).toContain(question.answer);
+  });
+
+  test('never repeats a chord back to back', () => {
+    const random = seededRandom(3);
+    for (let i = 0; i < 20; i++) {
+      const numerals = createProgressionQuestion({ root: 'G', quality: 'major' }, random).answer.split(' – ');
+      numerals.slice(1).forEach((numeral, j) => expect(numeral).not.toBe(numerals[j]));
+    }
+  });
+});
+
+describe('createQuestion', () => {
+  test('needs a key for progressions', () => {
+    expect(createQuestion('progression', null)).toBeNull();
+    expect(createQuestion('triad', null)?.category).toBe('triad');
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Ear Training Quiz Utilities
+ *
+ * Question pools and question generation for the ear trainer.
+ * Intervals and diatonic chords come from MODES, chord qualities from
+ * CHORD_FORMULAS. Randomness is injectable so questions can be tested.
+ */
+
+import { CHORD_FORMULAS, getNoteIndex } from '@/data/chords/generator/music-theory';
+import { MODES, parseKey } from '@/utils/musicTheory';
+import {
+  EAR_TRAINING_CONFIG,
+  INTERVAL_NAMES,
+  CHORD_QUALITY_NAMES,
+  QUIZ_CHORD_FORMULAS,
+} from '@/constants/EarTrainingConfig';
+import type {
+  EarTrainingCategory,
+  EarTrainingKey,
+  EarTrainingQuestion,
+} from '@/types/earTraining';
+
+/** A chord built on one degree of a key */
+export interface DiatonicTriad {
+  /** Roman numeral (e.g., "IV", "ii", "vii°") */
+  numeral: string;
+  /** Semitones from the tonic to the chord root */
+  offset: number;
+  /** Chord tones in semitones from the chord root */
+  intervals: number[];
+}
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Tonic plus optional accidental
+const KEY_ROOT_PATTERN = /^[A-G][#b]?$/;
+
+type Random = () => number;
+
+/**
+ * Random integer in [min, max]
+ */
+function randomInt(min: number, max: number, random: Random): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Copy of items in random order (Fisher-Yates)
+ */
+function shuffle<T>(items: T[], random: Random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Quizzed intervals in semitones: every step some mode takes from its root, plus the octave
+ */
+export function getIntervalPool(): number[] {
+  const steps = new Set<number>(Object.values(MODES).flatMap((mode) => mode.pattern));
+  steps.delete(0);
+  steps.add(12);
+  return [...steps].sort((a, b) => a - b);
+}
+
+/**
+ * Quizzed chord qualities for a chord category, with their formulas
+ */
+export function getChordPool(category: 'triad' | 'seventh'): { name: string; intervals: number[] }[] {
+  return QUIZ_CHORD_FORMULAS[category].map((formula) => ({
+    name: CHORD_QUALITY_NAMES[formula],
+    intervals: CHORD_FORMULAS[formula],
+  }));
+}
+
+/**
+ * Read a song key (e.g., "A Minor", "Bb") for progression questions
+ * Returns null for missing or unreadable keys.
+ */
+export function parseEarTrainingKey(keyString: string | null | undefined): EarTrainingKey | null {
+  if (!keyString?.trim()) return null;
+  const { root, quality } = parseKey(keyString);
+  return KEY_ROOT_PATTERN.test(root) ? { root, quality } : null;
+}
+
+/**
+ * The seven triads of a key, built by stacking thirds in its mode
+ * (Ionian for major keys, Aeolian for minor keys)
+ */
+export function getDiatonicTriads(quality: EarTrainingKey['quality']): DiatonicTriad[] {
+  const pattern = quality === 'major' ? MODES.ionian.pattern : MODES.aeolian.pattern;
+
+  return pattern.map((offset, degree) => {
+    const toneAbove = (steps: number) => {
+      const index = degree + steps;
+      return pattern[index % 7] + (index >= 7 ? 12 : 0) - offset;
+    };
+    const third = toneAbove(2);
+    const fifth = toneAbove(4);
+
+    const numeral = ROMAN_NUMERALS[degree];
+    const name =
+      third === 4 ? numeral : fifth === 6 ? `${numeral.toLowerCase()}°` : numeral.toLowerCase();
+
+    return { numeral: name, offset, intervals: [0, third, fifth] };
+  });
+}
+
+/**
+ * Random progression (degree indexes) starting on the tonic, without repeated neighbours
+ */
+function getRandomProgression(random: Random): number[] {
+  const degrees = [0];
+  while (degrees.length < EAR_TRAINING_CONFIG.progressionLength) {
+    const previous = degrees[degrees.length - 1];
+    const next = randomInt(1, 6, random);
+    if (next !== previous) degrees.push(next);
+  }
+  return degrees;
+}
+
+/**
+ * Interval question: two notes, low then high
+ */
+export function createIntervalQuestion(random: Random = Math.random): EarTrainingQuestion {
+  const pool = getIntervalPool();
+  const semitones = pool[randomInt(0, pool.length - 1, random)];
+  const root = randomInt(EAR_TRAINING_CONFIG.lowRootMidi, EAR_TRAINING_CONFIG.highRootMidi, random);
+
+  return {
+    category: 'interval',
+    sequence: [[root], [root + semitones]],
+    answer: INTERVAL_NAMES[semitones],
+    options: pool.map((steps) => INTERVAL_NAMES[steps]),
+  };
+}
+
+/**
+ * Chord-quality question: the chord arpeggiated, then struck together
+ */
+export function createChordQuestion(
+  category: 'triad' | 'seventh',
+  random: Random = Math.random
+): EarTrainingQuestion {
+  const pool = getChordPool(category);
+  const chord = pool[randomInt(0, pool.length - 1, random)];
+  const root = randomInt(EAR_TRAINING_CONFIG.lowRootMidi, EAR_TRAINING_CONFIG.highRootMidi, random);
+  const notes = chord.intervals.map((interval) => root + interval);
+
+  return {
+    category,
+    sequence: [...notes.map((note) => [note]), notes],
+    answer: chord.name,
+    options: pool.map((quality) => quality.name),
+  };
+}
+
+/**
+ * Progression question: diatonic chords in the key, named by their numerals
+ */
+export function createProgressionQuestion(
+  key: EarTrainingKey,
+  random: Random = Math.random
+): EarTrainingQuestion {
+  const triads = getDiatonicTriads(key.quality);
+  const tonic = EAR_TRAINING_CONFIG.progressionBaseMidi + getNoteIndex(key.root);
+  const label = (degrees: number[]) => degrees.map((degree) => triads[degree].numeral).join(' – ');
+
+  const degrees = getRandomProgression(random);
+  const answer = label(degrees);
+
+  // Distinct wrong answers (bounded, in case the generator keeps repeating itself)
+  const options = new Set([answer]);
+  for (let attempt = 0; attempt < 50 && options.size < EAR_TRAINING_CONFIG.progressionOptions; attempt++) {
+    options.add(label(getRandomProgression(random)));
+  }
+
+  return {
+    category: 'progression',
+    sequence: degrees.map((degree) =>
+      triads[degree].intervals.map((interval) => tonic + triads[degree].offset + interval)
+    ),
+    answer,
+    options: shuffle([...options], random),
+  };
+}
+
+/**
+ * Question for a category (null for progressions without a key)
+ */
+export function createQuestion(
+  category: EarTrainingCategory,
+  key: EarTrainingKey | null,
+  random: Random = Math.random
+): EarTrainingQuestion | null {
+  switch (category) {
+    case 'interval':
+      return createIntervalQuestion(random);
+    case 'triad':
+    case 'seventh':
+      return createChordQuestion(category, random);
+    case 'progression':
+      return key ? createProgressionQuestion(key, random) : null;
+  }
+}
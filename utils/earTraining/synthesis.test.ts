@@ -0,0 +1,58 @@
+/**
+ * Ear Training Synthesis Tests
+ * Validates rendered length, level and pitch of quiz sequences
+ */
+
+import { getSequenceDuration, renderSequence } from './synthesis';
+import { EAR_TRAINING_CONFIG } from '@/constants/EarTrainingConfig';
+
+const SAMPLE_RATE = 8000;
+
+/** Correlation of samples with a sine at a frequency */
+const correlate = (samples: Float32Array, frequency: number) => {
+  let sum = 0;
+  samples.forEach((value, i) => {
+    sum += value * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  });
+  return Math.abs(sum);
+};
+
+describe('getSequenceDuration', () => {
+  test('gives each step the same length', () => {
+    expect(getSequenceDuration([[60], [64], [60, 64]])).toBeCloseTo(
+      3 * EAR_TRAINING_CONFIG.noteSeconds
+    );
+  });
+});
+
+describe('renderSequence', () => {
+  test('renders one block of samples per step', () => {
+    const samples = renderSequence([[60], [67]], SAMPLE_RATE);
+    expect(samples.length).toBe(2 * Math.round(EAR_TRAINING_CONFIG.noteSeconds * SAMPLE_RATE));
+    expect(renderSequence([], SAMPLE_RATE).length).toBe(0);
+  });
+
+  test('stays under the output level for big chords', () => {
+    const samples = renderSequence([[48, 52, 55, 59, 62]], SAMPLE_RATE);
+    const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+    expect(peak).toBeGreaterThan(0);
+    expect(peak).toBeLessThanOrEqual(EAR_TRAINING_CONFIG.outputGain);
+  });
+
+  test('starts and ends each step silently', () => {
+    const samples = renderSequence([[69]], SAMPLE_RATE);
+    expect(samples[0]).toBe(0);
+    expect(Math.abs(samples[samples.length - 1])).toBeLessThan(0.01);
+  });
+
+  test('sounds the requested pitch', () => {
+    const samples = renderSequence([[69]], SAMPLE_RATE);
+    expect(correlate(samples, 440)).toBeGreaterThan(5 * correlate(samples, 466.16));
+  });
+
+  test('leaves empty steps silent', () => {
+    const samples = renderSequence([[], [60]], SAMPLE_RATE);
+    const stepLength = samples.length / 2;
+    expect(samples.slice(0, stepLength).every((value) => value === 0)).toBe(true);
+  });
+});
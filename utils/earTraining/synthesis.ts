@@ -0,0 +1,64 @@
+/**
+ * Ear Training Synthesis
+ *
+ * Renders quiz sequences to mono samples for an AudioBuffer. Each step is a
+ * fundamental plus a few soft overtones per note, with a short attack, a
+ * gentle decay and a release so consecutive steps don't click.
+ */
+
+import { EAR_TRAINING_CONFIG } from '@/constants/EarTrainingConfig';
+import { midiToFrequency } from '@/constants/TunerConfig';
+
+/**
+ * Length of a sequence (seconds)
+ */
+export function getSequenceDuration(sequence: number[][]): number {
+  return sequence.length * EAR_TRAINING_CONFIG.noteSeconds;
+}
+
+/**
+ * Level of a note at a time into its step (0-1)
+ */
+function getEnvelope(t: number): number {
+  const { noteSeconds, attackSeconds, releaseSeconds, decayPerSecond } = EAR_TRAINING_CONFIG;
+  const attack = Math.min(1, t / attackSeconds);
+  const release = Math.min(1, Math.max(0, (noteSeconds - t) / releaseSeconds));
+  return attack * release * Math.exp(-decayPerSecond * t);
+}
+
+/**
+ * Render a sequence (MIDI notes per step) to mono samples
+ * Peaks never exceed EAR_TRAINING_CONFIG.outputGain, however many notes sound.
+ */
+export function renderSequence(
+  sequence: number[][],
+  sampleRate: number = EAR_TRAINING_CONFIG.sampleRate
+): Float32Array {
+  const { noteSeconds, harmonicLevels, outputGain } = EAR_TRAINING_CONFIG;
+  const stepLength = Math.round(noteSeconds * sampleRate);
+  const samples = new Float32Array(stepLength * sequence.length);
+  const partialSum = 1 + harmonicLevels.reduce((sum, level) => sum + level, 0);
+
+  sequence.forEach((notes, step) => {
+    if (notes.length === 0) return;
+
+    const scale = outputGain / (notes.length * partialSum);
+    const frequencies = notes.map((note) => midiToFrequency(note));
+    const offset = step * stepLength;
+
+    for (let i = 0; i < stepLength; i++) {
+      const t = i / sampleRate;
+      let value = 0;
+      frequencies.forEach((frequency) => {
+        const phase = 2 * Math.PI * frequency * t;
+        value += Math.sin(phase);
+        harmonicLevels.forEach((level, h) => {
+          value += level * Math.sin(phase * (h + 2));
+        });
+      });
+      samples[offset + i] = value * scale * getEnvelope(t);
+    }
+  });
+
+  return samples;
+}
@@ -0,0 +1,17 @@
+/**
+ * Id Utility Tests
+ * Validates id format and uniqueness
+ */
+
+import { generateId } from './ids';
+
+describe('generateId', () => {
+  test('starts with the prefix and a timestamp', () => {
+    expect(generateId('loop')).toMatch(/^loop_\d+_[a-z0-9]+$/);
+  });
+
+  test('differs between calls', () => {
+    const ids = new Set(Array.from({ length: 50 }, () => generateId('section')));
+    expect(ids.size).toBe(50);
+  });
+});
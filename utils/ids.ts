@@ -0,0 +1,16 @@
+/**
+ * Id Utilities
+ *
+ * Client-side ids for rows kept inside a JSON column (loops, arrangement
+ * sections) and for uploaded file names.
+ */
+
+/**
+ * Generate an id with a prefix (e.g., "loop_1760880000000_k3x9qa")
+ * Unique enough within one song or user: a timestamp plus a random suffix.
+ */
+export function generateId(prefix: string): string {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).substring(2, 8);
+  return `${prefix}_${timestamp}_${random}`;
+}
@@ -0,0 +1,105 @@
+/**
+ * Key Detection Tests
+ * Validates key ranking from chord lists and comparison with a given key
+ */
+
+import { rankKeys, estimateKeys, isSameKey, checkKeyAgainstChords } from './keyDetection';
+
+// ============================================================================
+// RANKING
+// ============================================================================
+
+describe('estimateKeys', () => {
+  test.each([
+    [['G', 'D', 'Em', 'C', 'G'], 'G Major'],
+    [['C', 'Am', 'F', 'G', 'C'], 'C Major'],
+    [['Am', 'G', 'F', 'E', 'Am'], 'A Minor'],
+    [['Em', 'C', 'D', 'B7', 'Em'], 'E Minor'],
+    [['Bb', 'Eb', 'F', 'Gm', 'Bb'], 'Bb Major'],
+    [['Dm7', 'G7', 'Cmaj7'], 'C Major'],
+    [['E5', 'A5', 'B5', 'E5'], 'E Major'],
+    [['F#m', 'D', 'A', 'E', 'F#m'], 'F# Minor'],
+  ])('%j is in %s', (chords, key) => {
+    expect(estimateKeys(chords)[0].key).toBe(key);
+  });
+
+  test('returns three candidates by default, best first', () => {
+    const keys = estimateKeys(['C', 'F', 'G', 'C']);
+    expect(keys).toHaveLength(3);
+    expect(keys[0].confidence).toBeGreaterThanOrEqual(keys[1].confidence);
+    expect(keys[1].confidence).toBeGreaterThanOrEqual(keys[2].confidence);
+  });
+
+  test('confidence is between 0 and 1', () => {
+    rankKeys(['C', 'F', 'G', 'C']).forEach((candidate) => {
+      expect(candidate.confidence).toBeGreaterThanOrEqual(0);
+      expect(candidate.confidence).toBeLessThanOrEqual(1);
+    });
+  });
+
+  test('ranks all 24 keys', () => {
+    expect(rankKeys(['C'])).toHaveLength(24);
+  });
+
+  test('ignores unreadable chords', () => {
+    expect(estimateKeys(['N.C.', 'G', 'C', 'D', 'G'])[0].key).toBe('G Major');
+    expect(estimateKeys(['N.C.'])).toEqual([]);
+    expect(estimateKeys([])).toEqual([]);
+  });
+});
+
+// ============================================================================
+// KEY COMPARISON
+// ============================================================================
+
+describe('isSameKey', () => {
+  test('matches enharmonic spellings', () => {
+    expect(isSameKey('F# Major', 'Gb Major')).toBe(true);
+    expect(isSameKey('D# Minor', 'Eb Minor')).toBe(true);
+  });
+
+  test('quality must match', () => {
+    expect(isSameKey('C Major', 'C Minor')).toBe(false);
+  });
+
+  test('unknown keys never match', () => {
+    expect(isSameKey('Unknown', 'C Major')).toBe(false);
+  });
+});
+
+describe('checkKeyAgainstChords', () => {
+  const chords = ['G', 'D', 'Em', 'C', 'G'];
+
+  test('agrees when the key fits the chords', () => {
+    const check = checkKeyAgainstChords('G Major', chords);
+    expect(check.agrees).toBe(true);
+    expect(check.keyConfidence).toBeGreaterThan(0.8);
+    expect(check.alternatives.map((c) => c.key)).not.toContain('G Major');
+  });
+
+  test('disagrees and offers alternatives when the key is wrong', () => {
+    const check = checkKeyAgainstChords('F Major', chords);
+    expect(check.agrees).toBe(false);
+    expect(check.alternatives).toHaveLength(3);
+    expect(check.alternatives[0].key).toBe('G Major');
+  });
+
+  test('missing key never agrees', () => {
+    const check = checkKeyAgainstChords('', chords);
+    expect(check.agrees).toBe(false);
+    expect(check.keyConfidence).toBeNull();
+    expect(check.alternatives[0].key).toBe('G Major');
+  });
+
+  test('unknown key never agrees', () => {
+    expect(checkKeyAgainstChords('Unknown', chords).agrees).toBe(false);
+  });
+
+  test('no chords leaves the key alone', () => {
+    expect(checkKeyAgainstChords('C Major', [])).toEqual({
+      agrees: true,
+      keyConfidence: null,
+      alternatives: [],
+    });
+  });
+});
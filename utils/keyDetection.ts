@@ -0,0 +1,183 @@
+/**
+ * Key Detection
+ * Estimate a song's key from its chord list and check it against the AI-detected key
+ */
+
+import { parseChordName } from '@/data/chords/utils/normalizer';
+import { getNoteIndex } from '@/data/chords/generator/music-theory';
+import {
+  CIRCLE_OF_FIFTHS_MAJOR,
+  CIRCLE_OF_FIFTHS_MINOR,
+  DIATONIC_CHORDS_MAJOR,
+  DIATONIC_CHORDS_MINOR,
+  MODES,
+  parseKey,
+  formatKey,
+} from './musicTheory';
+
+/** A candidate key ranked against the chord list */
+export interface KeyCandidate {
+  key: string;        // e.g., "G Major"
+  root: string;
+  quality: 'major' | 'minor';
+  confidence: number; // 0-1, how well the chords fit the key
+}
+
+/** Result of comparing the AI-detected key with the chords */
+export interface KeyCheck {
+  agrees: boolean;
+  keyConfidence: number | null;  // Confidence of the given key (null when missing/unreadable)
+  alternatives: KeyCandidate[];  // Best-fitting keys, excluding the given key
+}
+
+/** Confidence gap within which the given key still counts as agreeing with the top candidate */
+const AGREEMENT_MARGIN = 0.1;
+
+// Scoring weights
+const DIATONIC_WEIGHT = 1;      // Chord built on the scale with the key's quality
+const HARMONIC_WEIGHT = 0.75;   // Harmonic-minor V or vii° in a minor key
+const SCALE_ROOT_WEIGHT = 0.25; // Root is in the scale, quality doesn't match
+const TONIC_BONUS = 0.5;        // Per tonic signal (tonic chord present, first chord, last chord)
+const MAX_TONIC_BONUS = TONIC_BONUS * 3;
+
+// Chord families the diatonic tables distinguish
+type TableQuality = 'maj' | 'min' | 'dim';
+
+/** A chord reduced to what key scoring needs */
+interface ScoredChord {
+  pitch: number;
+  quality: TableQuality | 'aug' | 'open'; // 'open' = sus/power chords (no third)
+}
+
+/**
+ * Reduce a chord name to its root pitch and triad family
+ * Returns null for names that can't be parsed (e.g., "N.C.")
+ */
+function toScoredChord(chord: string): ScoredChord | null {
+  const parsed = parseChordName(chord);
+  if (!parsed) return null;
+
+  const pitch = getNoteIndex(parsed.root);
+  const remainder = chord.trim().slice(parsed.root.length);
+  switch (parsed.quality) {
+    case 'minor':
+      // m7b5 is half-diminished
+      return { pitch, quality: /^(m7b5|min7b5)/.test(remainder) ? 'dim' : 'min' };
+    case 'diminished':
+      return { pitch, quality: 'dim' };
+    case 'augmented':
+      return { pitch, quality: 'aug' };
+    case 'suspended':
+      return { pitch, quality: 'open' };
+    default:
+      return { pitch, quality: /^5/.test(remainder) ? 'open' : 'maj' };
+  }
+}
+
+// Every major and minor key, spelled as on the circle of fifths
+const CANDIDATE_KEYS: { root: string; quality: 'major' | 'minor' }[] = [
+  ...CIRCLE_OF_FIFTHS_MAJOR.map((key) => ({ root: key.split('/')[0], quality: 'major' as const })),
+  ...CIRCLE_OF_FIFTHS_MINOR.map((key) => ({
+    root: key.split('/')[0].replace(/m$/, ''),
+    quality: 'minor' as const,
+  })),
+];
+
+/**
+ * Score how well a list of chords fits one key
+ */
+function scoreKey(chords: ScoredChord[], tonic: number, quality: 'major' | 'minor'): number {
+  const pattern: readonly number[] =
+    quality === 'major' ? MODES.ionian.pattern : MODES.aeolian.pattern;
+  const table = quality === 'major' ? DIATONIC_CHORDS_MAJOR : DIATONIC_CHORDS_MINOR;
+  const tonicQuality: TableQuality = quality === 'major' ? 'maj' : 'min';
+
+  const chordScore = (chord: ScoredChord): number => {
+    const interval = (chord.pitch - tonic + 12) % 12;
+    const degree = pattern.indexOf(interval);
+
+    // Harmonic minor: major V and diminished vii° (a semitone below the tonic)
+    if (quality === 'minor') {
+      if (interval === 7 && chord.quality === 'maj') return HARMONIC_WEIGHT;
+      if (interval === 11 && chord.quality === 'dim') return HARMONIC_WEIGHT;
+    }
+
+    if (degree === -1) return 0;
+    if (chord.quality === table[degree].quality) return DIATONIC_WEIGHT;
+    if (chord.quality === 'open' && table[degree].quality !== 'dim') return DIATONIC_WEIGHT;
+    return SCALE_ROOT_WEIGHT;
+  };
+
+  const isTonic = (chord: ScoredChord) =>
+    chord.pitch === tonic && (chord.quality === tonicQuality || chord.quality === 'open');
+
+  let score = chords.reduce((sum, chord) => sum + chordScore(chord), 0);
+  if (chords.some(isTonic)) score += TONIC_BONUS;
+  if (isTonic(chords[0])) score += TONIC_BONUS;
+  if (isTonic(chords[chords.length - 1])) score += TONIC_BONUS;
+  return score;
+}
+
+/**
+ * Rank every major and minor key by how well it fits the chord list
+ * Chords are weighted by how often they appear; the first and last chords
+ * and the presence of the tonic chord break ties between relative keys.
+ */
+export function rankKeys(chords: string[]): KeyCandidate[] {
+  const scored = chords
+    .map(toScoredChord)
+    .filter((chord): chord is ScoredChord => chord !== null);
+  if (scored.length === 0) return [];
+
+  const maxScore = scored.length * DIATONIC_WEIGHT + MAX_TONIC_BONUS;
+
+  return CANDIDATE_KEYS.map(({ root, quality }) => ({
+    key: formatKey(root, quality),
+    root,
+    quality,
+    confidence:
+      Math.round((scoreKey(scored, getNoteIndex(root), quality) / maxScore) * 100) / 100,
+  })).sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Best-fitting keys for a chord list
+ */
+export function estimateKeys(chords: string[], maxResults: number = 3): KeyCandidate[] {
+  return rankKeys(chords).slice(0, maxResults);
+}
+
+/**
+ * Check if two keys are the same (enharmonic spellings count, e.g., "F# Major" / "Gb Major")
+ */
+export function isSameKey(a: string, b: string): boolean {
+  const keyA = parseKey(a);
+  const keyB = parseKey(b);
+  if (!/^[A-G][#b]?$/.test(keyA.root) || !/^[A-G][#b]?$/.test(keyB.root)) return false;
+  return keyA.quality === keyB.quality && getNoteIndex(keyA.root) === getNoteIndex(keyB.root);
+}
+
+/**
+ * Compare a detected key with the key the chords suggest
+ * A missing or unreadable key never agrees. With no readable chords there is
+ * nothing to compare against, so the key is left alone.
+ */
+export function checkKeyAgainstChords(
+  key: string,
+  chords: string[],
+  maxAlternatives: number = 3,
+): KeyCheck {
+  const ranked = rankKeys(chords);
+  if (ranked.length === 0) return { agrees: true, keyConfidence: null, alternatives: [] };
+
+  const match = key.trim() ? ranked.find((candidate) => isSameKey(candidate.key, key)) : undefined;
+  const keyConfidence = match?.confidence ?? null;
+  const agrees =
+    keyConfidence !== null && keyConfidence >= ranked[0].confidence - AGREEMENT_MARGIN;
+
+  return {
+    agrees,
+    keyConfidence,
+    alternatives: ranked.filter((candidate) => candidate !== match).slice(0, maxAlternatives),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Library Archive Tests
+ * Validates archive stamping, version checks and row counts
+ */
+
+import {
+  createEmptyArchiveTables,
+  createLibraryArchive,
+  parseLibraryArchive,
+  countArchiveRows,
+  formatArchiveCounts,
+} from './archive';
+import { LIBRARY_ARCHIVE_VERSION } from '@/constants/LibraryBackupConfig';
+import type { DbPracticeSession } from '@/types/database';
+
+const SESSION: DbPracticeSession = {
+  id: 'session-1',
+  user_id: 'user-1',
+  song_id: 'song-1',
+  duration_seconds: 600,
+  practiced_at: '2026-03-01T10:00:00.000Z',
+};
+
+describe('createLibraryArchive', () => {
+  test('stamps the format, version and export time', () => {
+    const archive = createLibraryArchive(
+      'user-1',
+      createEmptyArchiveTables(),
+      new Date('2026-03-02T08:00:00.000Z')
+    );
+    expect(archive).toMatchObject({
+      format: 'songstreak-library',
+      version: LIBRARY_ARCHIVE_VERSION,
+      exportedAt: '2026-03-02T08:00:00.000Z',
+      userId: 'user-1',
+    });
+  });
+});
+
+describe('parseLibraryArchive', () => {
+  test('reads back an exported archive', () => {
+    const tables = { ...createEmptyArchiveTables(), practice_sessions: [SESSION] };
+    const archive = createLibraryArchive('user-1', tables);
+    expect(parseLibraryArchive(JSON.stringify(archive))).toEqual(archive);
+  });
+
+  test('reads missing tables as empty, as in version 1 archives', () => {
+    const text = JSON.stringify({ format: 'songstreak-library', version: 1, tables: {} });
+    expect(parseLibraryArchive(text).tables).toEqual(createEmptyArchiveTables());
+  });
+
+  test('rejects files that are not archives', () => {
+    expect(() => parseLibraryArchive('not json')).toThrow('not a library backup');
+    expect(() => parseLibraryArchive('{"songs": []}')).toThrow('not a library backup');
+  });
+
+  test('checks the schema version', () => {
+    const withVersion = (version: unknown) =>
+      JSON.stringify({ format: 'songstreak-library', version, tables: {} });
+    expect(() => parseLibraryArchive(withVersion(undefined))).toThrow('no schema version');
+    expect(() => parseLibraryArchive(withVersion(LIBRARY_ARCHIVE_VERSION + 1))).toThrow('Update the app');
+    expect(() => parseLibraryArchive(withVersion(0))).toThrow('too old');
+  });
+
+  test('rejects damaged tables', () => {
+    const text = JSON.stringify({ format: 'songstreak-library', version: 1, tables: { songs: 'x' } });
+    expect(() => parseLibraryArchive(text)).toThrow('damaged (songs)');
+  });
+});
+
+describe('formatArchiveCounts', () => {
+  test('lists non-empty tables in restore order', () => {
+    const tables = { ...createEmptyArchiveTables(), practice_sessions: [SESSION, SESSION] };
+    const counts = { ...countArchiveRows(tables), songs: 1 };
+    expect(formatArchiveCounts(counts)).toBe('1 songs, 2 practice sessions');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Library Archive
+ * Build the versioned JSON archive and read one back, checking its format and version
+ */
+
+import {
+  LIBRARY_ARCHIVE_FORMAT,
+  LIBRARY_ARCHIVE_MIN_VERSION,
+  LIBRARY_ARCHIVE_TABLES,
+  LIBRARY_ARCHIVE_VERSION,
+} from '@/constants/LibraryBackupConfig';
+import type {
+  LibraryArchive,
+  LibraryArchiveTable,
+  LibraryArchiveTables,
+} from '@/types/libraryBackup';
+
+/**
+ * Tables with no rows
+ */
+export function createEmptyArchiveTables(): LibraryArchiveTables {
+  return {
+    songs: [],
+    practice_sessions: [],
+    daily_practice_logs: [],
+    user_streaks: [],
+    streak_freeze_history: [],
+    song_mastery_progress: [],
+    user_achievements: [],
+    user_lifetime_milestones: [],
+    tempo_sessions: [],
+    custom_tunings: [],
+    intonation_checks: [],
+    pitch_training_sessions: [],
+    setlists: [],
+    setlist_songs: [],
+    voice_memos: [],
+  };
+}
+
+/**
+ * Archive of a user's tables, stamped with the current version
+ */
+export function createLibraryArchive(
+  userId: string,
+  tables: LibraryArchiveTables,
+  exportedAt: Date = new Date()
+): LibraryArchive {
+  return {
+    format: LIBRARY_ARCHIVE_FORMAT,
+    version: LIBRARY_ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    userId,
+    tables,
+  };
+}
+
+/**
+ * Read an archive from JSON text
+ * Throws with a message for the user when the file isn't an archive this
+ * version of the app can restore. Missing tables are read as empty.
+ */
+export function parseLibraryArchive(text: string): LibraryArchive {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a library backup');
+  }
+
+  if (!raw || typeof raw !== 'object') throw new Error('This file is not a library backup');
+  const archive = raw as Record<string, unknown>;
+  if (archive.format !== LIBRARY_ARCHIVE_FORMAT) throw new Error('This file is not a library backup');
+
+  const version = archive.version;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new Error('This backup has no schema version');
+  }
+  if (version > LIBRARY_ARCHIVE_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app to restore it.');
+  }
+  if (version < LIBRARY_ARCHIVE_MIN_VERSION) {
+    throw new Error('This backup is too old to restore');
+  }
+
+  const storedTables =
+    archive.tables && typeof archive.tables === 'object'
+      ? (archive.tables as Record<string, unknown>)
+      : {};
+  const tables = createEmptyArchiveTables();
+  for (const { table } of LIBRARY_ARCHIVE_TABLES) {
+    const rows = storedTables[table];
+    if (rows === undefined) continue;
+    if (!Array.isArray(rows) || rows.some((row) => !row || typeof row !== 'object')) {
+      throw new Error(`This backup is damaged (${table})`);
+    }
+    // Rows are checked against the database when they're inserted
+    Object.assign(tables, { [table]: rows });
+  }
+
+  return {
+    format: LIBRARY_ARCHIVE_FORMAT,
+    version,
+    exportedAt: typeof archive.exportedAt === 'string' ? archive.exportedAt : '',
+    userId: typeof archive.userId === 'string' ? archive.userId : '',
+    tables,
+  };
+}
+
+/**
+ * Rows per table in an archive
+ */
+export function countArchiveRows(tables: LibraryArchiveTables): Record<LibraryArchiveTable, number> {
+  return LIBRARY_ARCHIVE_TABLES.reduce(
+    (counts, { table }) => ({ ...counts, [table]: tables[table].length }),
+    {} as Record<LibraryArchiveTable, number>
+  );
+}
+
+/**
+ * Short list of what's in a set of table counts (e.g., "12 songs, 340 practice sessions")
+ * Empty tables are left out.
+ */
+export function formatArchiveCounts(counts: Record<LibraryArchiveTable, number>): string {
+  return LIBRARY_ARCHIVE_TABLES.filter(({ table }) => counts[table] > 0)
+    .map(({ table, label }) => `${counts[table]} ${label}`)
+    .join(', ');
+}
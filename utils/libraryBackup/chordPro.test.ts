@@ -0,0 +1,53 @@
+/**
+ * Library ChordPro Export Tests
+ * Validates song directives and file naming
+ */
+
+import { songToChordPro, getChordProFileName } from './chordPro';
+
+const SONG = {
+  title: 'Knockin on Heavens Door',
+  artist: 'Bob Dylan',
+  key: 'G Major',
+  tempo: '69 BPM',
+  time_signature: '4/4',
+  chords: ['G', 'D', 'Am', 'C'],
+  lyrics: null,
+  chord_sheet: null,
+};
+
+describe('songToChordPro', () => {
+  test('writes song details as directives', () => {
+    const text = songToChordPro(SONG);
+    expect(text).toContain('{title: Knockin on Heavens Door}');
+    expect(text).toContain('{artist: Bob Dylan}');
+    expect(text).toContain('{tempo: 69}');
+    expect(text).toContain('{time: 4/4}');
+    expect(text).toContain('Chords: G D Am C');
+  });
+
+  test('keeps the chart of songs that have one', () => {
+    const text = songToChordPro({
+      ...SONG,
+      chord_sheet: '{title: Knockin on Heavens Door}\n{tempo: 70}\n[G]Mama take this [D]badge off of me',
+    });
+    expect(text).toContain('[G]Mama take this [D]badge off of me');
+    expect(text).toContain('{tempo: 70}');
+    expect(text).not.toContain('{tempo: 69}');
+    expect(text).not.toContain('Chords:');
+  });
+});
+
+describe('getChordProFileName', () => {
+  test('names files "Artist - Title.cho" without unsafe characters', () => {
+    const used = new Set<string>();
+    expect(getChordProFileName({ artist: 'AC/DC', title: 'T.N.T.?' }, used)).toBe('ACDC - T.N.T..cho');
+  });
+
+  test('numbers repeated names', () => {
+    const used = new Set<string>();
+    const song = { artist: 'Oasis', title: 'Wonderwall' };
+    expect(getChordProFileName(song, used)).toBe('Oasis - Wonderwall.cho');
+    expect(getChordProFileName(song, used)).toBe('Oasis - Wonderwall (2).cho');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Library ChordPro Export
+ * One ChordPro file per song: its chord sheet, or its lyrics when it has none,
+ * with the song's key, tempo and meter as directives
+ */
+
+import { parseChordPro, serializeChordPro, createChordSheetFromLyrics } from '../chordSheet';
+import { parseTempo } from '../metronome';
+import type { ChordSheetLine } from '@/types/chordSheet';
+import type { DbSong } from '@/types/database';
+
+// Characters not allowed in file names on common file systems
+const UNSAFE_FILE_NAME_CHARACTERS = /[\\/:*?"<>|]/g;
+
+// Longest file name stem written
+const MAX_FILE_NAME_LENGTH = 80;
+
+type ChordProSong = Pick<
+  DbSong,
+  'title' | 'artist' | 'key' | 'tempo' | 'time_signature' | 'chords' | 'lyrics' | 'chord_sheet'
+>;
+
+/**
+ * ChordPro text for a song
+ */
+export function songToChordPro(song: ChordProSong): string {
+  const sheet = song.chord_sheet
+    ? parseChordPro(song.chord_sheet)
+    : createChordSheetFromLyrics(song.lyrics, {
+        title: song.title,
+        artist: song.artist,
+        key: song.key ?? undefined,
+      });
+
+  const hasDirective = (name: string) =>
+    sheet.sections.some((section) =>
+      section.lines.some((line) => line.type === 'directive' && line.name === name)
+    );
+
+  const bpm = parseTempo(song.tempo);
+  const details: ChordSheetLine[] = [
+    ...(bpm !== null && !hasDirective('tempo')
+      ? [{ type: 'directive' as const, name: 'tempo', value: String(bpm) }]
+      : []),
+    ...(song.time_signature && !hasDirective('time')
+      ? [{ type: 'directive' as const, name: 'time', value: song.time_signature }]
+      : []),
+    // Songs without a chart still carry their chord list
+    ...(!song.chord_sheet && song.chords && song.chords.length > 0
+      ? [{ type: 'comment' as const, text: `Chords: ${song.chords.join(' ')}` }]
+      : []),
+  ];
+
+  return serializeChordPro({
+    ...sheet,
+    title: sheet.title ?? song.title,
+    artist: sheet.artist ?? song.artist,
+    key: sheet.key ?? (song.key && song.key !== 'Unknown' ? song.key : null),
+    sections:
+      details.length > 0
+        ? [{ kind: null, label: null, lines: details }, ...sheet.sections]
+        : sheet.sections,
+  });
+}
+
+/**
+ * File name for a song's ChordPro file ("Artist - Title.cho"), unique among those used
+ * Adds the name to usedNames.
+ */
+export function getChordProFileName(
+  song: Pick<DbSong, 'title' | 'artist'>,
+  usedNames: Set<string>
+): string {
+  const stem =
+    `${song.artist} - ${song.title}`
+      .replace(UNSAFE_FILE_NAME_CHARACTERS, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_FILE_NAME_LENGTH) || 'Untitled';
+
+  let name = `${stem}.cho`;
+  for (let copy = 2; usedNames.has(name.toLowerCase()); copy++) {
+    name = `${stem} (${copy}).cho`;
+  }
+  usedNames.add(name.toLowerCase());
+  return name;
+}
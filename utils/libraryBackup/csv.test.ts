@@ -0,0 +1,55 @@
+/**
+ * Library CSV Export Tests
+ * Validates quoting and the song and practice tables
+ */
+
+import { toCsv, songsToCsv, practiceSessionsToCsv } from './csv';
+import type { DbPracticeSession, DbSong } from '@/types/database';
+
+const SONG = {
+  id: 'song-1',
+  title: 'Wonderwall',
+  artist: 'Oasis',
+  instrument: 'Guitar',
+  key: 'F# Minor',
+  tempo: '87 BPM',
+  time_signature: '4/4',
+  tuning: 'Standard',
+  chords: ['Em7', 'G', 'Dsus4'],
+  scales: null,
+  techniques: ['Strumming'],
+  total_practice_seconds: 900,
+  created_at: '2026-01-01T00:00:00.000Z',
+} as DbSong;
+
+const SESSIONS: DbPracticeSession[] = [
+  { id: 'a', user_id: 'u', song_id: 'song-1', duration_seconds: 300, practiced_at: '2026-02-01T10:00:00.000Z' },
+  { id: 'b', user_id: 'u', song_id: 'song-1', duration_seconds: 600, practiced_at: '2026-02-03T10:00:00.000Z' },
+];
+
+describe('toCsv', () => {
+  test('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv(['a', 'b'], [['x, y', 'say "hi"'], ['line\nbreak', null]])).toBe(
+      'a,b\r\n"x, y","say ""hi"""\r\n"line\nbreak",'
+    );
+  });
+});
+
+describe('songsToCsv', () => {
+  test('writes song details with practice totals', () => {
+    const [, row] = songsToCsv([SONG], SESSIONS).split('\r\n');
+    expect(row).toBe(
+      'Wonderwall,Oasis,Guitar,F# Minor,87 BPM,4/4,Standard,Em7 G Dsus4,,Strumming,15,2,2026-02-03T10:00:00.000Z,2026-01-01T00:00:00.000Z'
+    );
+  });
+});
+
+describe('practiceSessionsToCsv', () => {
+  test('lists sessions newest first with their song', () => {
+    expect(practiceSessionsToCsv(SESSIONS, [SONG]).split('\r\n')).toEqual([
+      'practiced_at,title,artist,minutes',
+      '2026-02-03T10:00:00.000Z,Wonderwall,Oasis,10',
+      '2026-02-01T10:00:00.000Z,Wonderwall,Oasis,5',
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Library CSV Export
+ * Spreadsheet-friendly tables of songs, practice sessions and practice days
+ */
+
+import type { DbDailyPracticeLog, DbPracticeSession, DbSong } from '@/types/database';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a CSV field when it holds a delimiter, quote or line break
+ */
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV text from a header row and data rows (CRLF line endings, as spreadsheets expect)
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Minutes from seconds, to one decimal place
+ */
+function toMinutes(seconds: number): number {
+  return Math.round((seconds / 60) * 10) / 10;
+}
+
+/**
+ * One row per song, with its theory details and practice totals
+ */
+export function songsToCsv(songs: DbSong[], sessions: DbPracticeSession[]): string {
+  const rows = songs.map((song) => {
+    const songSessions = sessions.filter((session) => session.song_id === song.id);
+    const lastPracticed = songSessions.reduce<string | null>(
+      (latest, session) => (!latest || session.practiced_at > latest ? session.practiced_at : latest),
+      null
+    );
+
+    return [
+      song.title,
+      song.artist,
+      song.instrument,
+      song.key,
+      song.tempo,
+      song.time_signature,
+      song.tuning,
+      song.chords?.join(' '),
+      song.scales?.join('; '),
+      song.techniques?.join('; '),
+      toMinutes(song.total_practice_seconds ?? 0),
+      songSessions.length,
+      lastPracticed,
+      song.created_at,
+    ];
+  });
+
+  return toCsv(
+    [
+      'title',
+      'artist',
+      'instrument',
+      'key',
+      'tempo',
+      'time_signature',
+      'tuning',
+      'chords',
+      'scales',
+      'techniques',
+      'practice_minutes',
+      'sessions',
+      'last_practiced',
+      'added',
+    ],
+    rows
+  );
+}
+
+/**
+ * One row per practice session, newest first, with the song it was for
+ */
+export function practiceSessionsToCsv(sessions: DbPracticeSession[], songs: DbSong[]): string {
+  const songsById = new Map(songs.map((song) => [song.id, song]));
+  const rows = [...sessions]
+    .sort((a, b) => b.practiced_at.localeCompare(a.practiced_at))
+    .map((session) => {
+      const song = songsById.get(session.song_id);
+      return [
+        session.practiced_at,
+        song?.title ?? '',
+        song?.artist ?? '',
+        toMinutes(session.duration_seconds),
+      ];
+    });
+
+  return toCsv(['practiced_at', 'title', 'artist', 'minutes'], rows);
+}
+
+/**
+ * One row per practice day, oldest first
+ */
+export function practiceDaysToCsv(logs: DbDailyPracticeLog[]): string {
+  const rows = [...logs]
+    .sort((a, b) => a.practice_date.localeCompare(b.practice_date))
+    .map((log) => [log.practice_date, log.total_minutes, log.goal_met, log.streak_freeze_used]);
+
+  return toCsv(['date', 'minutes', 'goal_met', 'streak_freeze_used'], rows);
+}
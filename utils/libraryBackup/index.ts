@@ -0,0 +1,18 @@
+/**
+ * Library Backup Utilities
+ *
+ * Versioned JSON archive, CSV and ChordPro exports of the library, and
+ * planning a restore that merges an archive without duplicating rows.
+ */
+
+export {
+  createEmptyArchiveTables,
+  createLibraryArchive,
+  parseLibraryArchive,
+  countArchiveRows,
+  formatArchiveCounts,
+} from './archive';
+export { toCsv, songsToCsv, practiceSessionsToCsv, practiceDaysToCsv } from './csv';
+export { songToChordPro, getChordProFileName } from './chordPro';
+export { planLibraryRestore } from './restore';
+export type { LibraryRestoreTarget } from './restore';
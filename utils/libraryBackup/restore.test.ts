@@ -0,0 +1,135 @@
+/**
+ * Library Restore Planning Tests
+ * Validates song matching, id remapping and band-scoped rows
+ */
+
+import { planLibraryRestore } from './restore';
+import { createEmptyArchiveTables, createLibraryArchive } from './archive';
+import type { LibraryArchiveTables } from '@/types/libraryBackup';
+import type { DbSong } from '@/types/database';
+
+const song = (id: string, title: string, artist = 'Oasis') =>
+  ({ id, user_id: 'old-user', title, artist, instrument: 'Guitar' }) as DbSong;
+
+const TABLES: LibraryArchiveTables = {
+  ...createEmptyArchiveTables(),
+  songs: [song('s1', 'Wonderwall'), song('s2', 'Champagne Supernova'), song('s3', 'Live Forever')],
+  practice_sessions: [
+    { id: 'p1', user_id: 'old-user', song_id: 's1', duration_seconds: 60, practiced_at: '2026-01-01' },
+  ],
+  streak_freeze_history: [
+    { id: 'f1', user_id: 'old-user', action_type: 'used', action_date: '2026-01-03', streak_day_count: 12, notes: null, created_at: '' },
+  ],
+  user_achievements: [
+    { id: 'a1', user_id: 'old-user', song_id: 's1', achievement_id: 'first_hour', unlocked_at: '2026-01-04' },
+  ],
+  tempo_sessions: [
+    { id: 't1', user_id: 'old-user', song_id: 's1', start_bpm: 80, reached_bpm: 96, target_bpm: 100, duration_seconds: 300, practiced_at: '2026-01-02' },
+  ],
+  custom_tunings: [
+    { id: 'c1', user_id: 'old-user', name: 'Open C', instrument: 'guitar', notes: ['C2', 'G2', 'C3', 'G3', 'C4', 'E4'], created_at: '' },
+  ],
+  intonation_checks: [
+    { id: 'i1', user_id: 'old-user', instrument_name: 'Strat', instrument: 'guitar', tuning_name: 'Standard', reference_pitch: 440, results: [], checked_at: '' },
+  ],
+  pitch_training_sessions: [
+    { id: 'v1', user_id: 'old-user', instrument: 'vocals', window_cents: 20, reference_pitch: 440, song_title: null, attempts: [], average_score: 80, practiced_at: '' },
+  ],
+  setlists: [
+    { id: 'set1', band_id: 'band-a', name: 'Gig', venue: null, gig_date: null, created_by: 'old-user', created_at: '', updated_at: '' },
+    { id: 'set2', band_id: 'band-b', name: 'Old band', venue: null, gig_date: null, created_by: 'old-user', created_at: '', updated_at: '' },
+  ],
+  setlist_songs: [
+    { id: 'e1', setlist_id: 'set1', song_id: 's1', position: 0, added_by: 'band-mate', added_at: '' },
+    { id: 'e2', setlist_id: 'set1', song_id: 'other', position: 1, added_by: 'old-user', added_at: '' },
+    { id: 'e3', setlist_id: 'set2', song_id: 's2', position: 0, added_by: 'old-user', added_at: '' },
+  ],
+  voice_memos: [
+    {
+      id: 'm1',
+      created_by: 'old-user',
+      band_id: 'band-b',
+      audio_url: 'memo.m4a',
+      duration_seconds: 10,
+      file_size_bytes: 100,
+      title: null,
+      notes: null,
+      recorded_at: '',
+      created_at: '',
+      updated_at: '',
+      linked_song_id: 's1',
+    },
+  ],
+};
+
+const TARGET = {
+  userId: 'new-user',
+  songs: [
+    { id: 's3', title: 'Live Forever', artist: 'Oasis', instrument: 'Guitar' as const },
+    { id: 'lib1', title: 'wonderwall', artist: 'OASIS', instrument: 'Guitar' as const },
+  ],
+  bandIds: ['band-a'],
+};
+
+describe('planLibraryRestore', () => {
+  const plan = planLibraryRestore(createLibraryArchive('old-user', TABLES), TARGET);
+
+  test('skips songs already in the library by id or by title and artist', () => {
+    expect(plan.tables.songs.map((row) => row.id)).toEqual(['s2']);
+    expect(plan.tables.songs[0].user_id).toBe('new-user');
+    expect(plan.songIdMap).toEqual({ s1: 'lib1' });
+    expect(plan.skipped.songs).toBe(2);
+  });
+
+  test('points rows for matched songs at the library song', () => {
+    expect(plan.tables.practice_sessions[0]).toMatchObject({ user_id: 'new-user', song_id: 'lib1' });
+  });
+
+  test('restores tempo sessions, tunings, intonation checks and pitch training for the user', () => {
+    expect(plan.tables.tempo_sessions).toEqual([
+      expect.objectContaining({ id: 't1', user_id: 'new-user', song_id: 'lib1', reached_bpm: 96 }),
+    ]);
+    expect(plan.tables.custom_tunings).toEqual([
+      expect.objectContaining({ id: 'c1', user_id: 'new-user', name: 'Open C' }),
+    ]);
+    expect(plan.tables.intonation_checks).toEqual([
+      expect.objectContaining({ id: 'i1', user_id: 'new-user', instrument_name: 'Strat' }),
+    ]);
+    expect(plan.tables.pitch_training_sessions).toEqual([
+      expect.objectContaining({ id: 'v1', user_id: 'new-user', average_score: 80 }),
+    ]);
+    expect(plan.skipped).toMatchObject({
+      tempo_sessions: 0,
+      custom_tunings: 0,
+      intonation_checks: 0,
+      pitch_training_sessions: 0,
+    });
+  });
+
+  test('restores achievements and streak freeze history for the user', () => {
+    expect(plan.tables.user_achievements).toEqual([
+      expect.objectContaining({ id: 'a1', user_id: 'new-user', song_id: 'lib1', achievement_id: 'first_hour' }),
+    ]);
+    expect(plan.tables.streak_freeze_history).toEqual([
+      expect.objectContaining({ id: 'f1', user_id: 'new-user', action_type: 'used' }),
+    ]);
+    expect(plan.skipped).toMatchObject({ user_achievements: 0, streak_freeze_history: 0 });
+  });
+
+  test('restores setlists only for bands the user is in', () => {
+    expect(plan.tables.setlists.map((row) => row.id)).toEqual(['set1']);
+    expect(plan.tables.setlists[0].created_by).toBe('new-user');
+    expect(plan.tables.setlist_songs).toEqual([
+      expect.objectContaining({ id: 'e1', song_id: 'lib1', added_by: 'band-mate' }),
+    ]);
+    expect(plan.skipped).toMatchObject({ setlists: 1, setlist_songs: 2 });
+  });
+
+  test('makes memos for a band the user left personal', () => {
+    expect(plan.tables.voice_memos[0]).toMatchObject({
+      created_by: 'new-user',
+      band_id: null,
+      linked_song_id: 'lib1',
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Library Restore Planning
+ * Decide which archived rows to insert so a restore merges into the library
+ * without duplicating what's already there
+ */
+
+import { isSameSong } from '../songImport';
+import { createEmptyArchiveTables } from './archive';
+import { LIBRARY_ARCHIVE_TABLES } from '@/constants/LibraryBackupConfig';
+import type { DbSong } from '@/types/database';
+import type {
+  LibraryArchive,
+  LibraryArchiveTable,
+  LibraryRestorePlan,
+} from '@/types/libraryBackup';
+
+/**
+ * What's already in the account being restored into
+ */
+export interface LibraryRestoreTarget {
+  userId: string;
+  /** The user's library songs */
+  songs: Pick<DbSong, 'id' | 'title' | 'artist' | 'instrument'>[];
+  /** Bands the user is a member of */
+  bandIds: string[];
+}
+
+/**
+ * Rows to insert for an archive, with user ids moved to the restoring account
+ * - Songs already there (same id, or same title, artist and instrument) are
+ *   skipped, and rows for them point at the library song
+ * - Setlists are restored only for bands the user is still in, and only with
+ *   archived songs
+ * - Voice memos for a band the user has left become personal
+ * Other rows matching one already there are skipped by the database insert.
+ */
+export function planLibraryRestore(
+  archive: LibraryArchive,
+  target: LibraryRestoreTarget
+): LibraryRestorePlan {
+  const { userId } = target;
+  const { tables } = archive;
+  const planned = createEmptyArchiveTables();
+  const skipped = LIBRARY_ARCHIVE_TABLES.reduce(
+    (counts, { table }) => ({ ...counts, [table]: 0 }),
+    {} as Record<LibraryArchiveTable, number>
+  );
+  const songIdMap: Record<string, string> = {};
+  const bandIds = new Set(target.bandIds);
+
+  // Another user id in the archive (a band-mate) stays as it is
+  const toUser = (id: string) => (id === archive.userId ? userId : id);
+
+  const libraryIds = new Set(target.songs.map((song) => song.id));
+  for (const song of tables.songs) {
+    if (libraryIds.has(song.id)) {
+      skipped.songs++;
+      continue;
+    }
+    const match = target.songs.find(
+      (existing) => existing.instrument === song.instrument && isSameSong(existing, song)
+    );
+    if (match) {
+      songIdMap[song.id] = match.id;
+      skipped.songs++;
+      continue;
+    }
+    planned.songs.push({ ...song, user_id: userId });
+  }
+
+  const toSong = (id: string) => songIdMap[id] ?? id;
+  const archivedSongIds = new Set(tables.songs.map((song) => song.id));
+
+  planned.practice_sessions = tables.practice_sessions.map((session) => ({
+    ...session,
+    user_id: userId,
+    song_id: toSong(session.song_id),
+  }));
+  planned.daily_practice_logs = tables.daily_practice_logs.map((log) => ({ ...log, user_id: userId }));
+  planned.user_streaks = tables.user_streaks.map((streak) => ({ ...streak, user_id: userId }));
+  planned.streak_freeze_history = tables.streak_freeze_history.map((entry) => ({
+    ...entry,
+    user_id: userId,
+  }));
+  planned.song_mastery_progress = tables.song_mastery_progress.map((progress) => ({
+    ...progress,
+    user_id: userId,
+    song_id: toSong(progress.song_id),
+  }));
+  planned.user_achievements = tables.user_achievements.map((achievement) => ({
+    ...achievement,
+    user_id: userId,
+    song_id: toSong(achievement.song_id),
+  }));
+  planned.user_lifetime_milestones = tables.user_lifetime_milestones.map((milestone) => ({
+    ...milestone,
+    user_id: userId,
+  }));
+  planned.tempo_sessions = tables.tempo_sessions.map((session) => ({
+    ...session,
+    user_id: userId,
+    song_id: toSong(session.song_id),
+  }));
+  planned.custom_tunings = tables.custom_tunings.map((tuning) => ({ ...tuning, user_id: userId }));
+  planned.intonation_checks = tables.intonation_checks.map((check) => ({ ...check, user_id: userId }));
+  planned.pitch_training_sessions = tables.pitch_training_sessions.map((session) => ({
+    ...session,
+    user_id: userId,
+  }));
+
+  for (const setlist of tables.setlists) {
+    if (bandIds.has(setlist.band_id)) {
+      planned.setlists.push({ ...setlist, created_by: toUser(setlist.created_by) });
+    } else {
+      skipped.setlists++;
+    }
+  }
+
+  const setlistIds = new Set(planned.setlists.map((setlist) => setlist.id));
+  for (const entry of tables.setlist_songs) {
+    if (setlistIds.has(entry.setlist_id) && archivedSongIds.has(entry.song_id)) {
+      planned.setlist_songs.push({
+        ...entry,
+        song_id: toSong(entry.song_id),
+        added_by: toUser(entry.added_by),
+      });
+    } else {
+      skipped.setlist_songs++;
+    }
+  }
+
+  planned.voice_memos = tables.voice_memos.map((memo) => ({
+    ...memo,
+    created_by: userId,
+    band_id: memo.band_id && bandIds.has(memo.band_id) ? memo.band_id : null,
+    linked_song_id:
+      memo.linked_song_id && archivedSongIds.has(memo.linked_song_id)
+        ? toSong(memo.linked_song_id)
+        : null,
+  }));
+
+  return { tables: planned, songIdMap, skipped };
+}
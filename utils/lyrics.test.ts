@@ -0,0 +1,131 @@
+/**
+ * Lyrics Tests
+ * Validates LRC parsing, writing, current-line lookup and tap-along stamping
+ */
+
+import {
+  parseLyrics,
+  formatLrcTimestamp,
+  serializeLyrics,
+  findCurrentLyricIndex,
+  findNextLyricLine,
+  clearLyricTimestamps,
+  stampLyricLine,
+} from './lyrics';
+
+const LRC = `[ar:Test Artist]
+[ti:Test Song]
+[00:12.34]First line
+[00:15.5]Second line
+[00:20.120]Third line
+[00:24.00]`;
+
+describe('parseLyrics', () => {
+  test('keeps LRC timestamps and drops metadata tags', () => {
+    expect(parseLyrics(LRC)).toEqual({
+      lines: [
+        { timeMs: 12340, text: 'First line' },
+        { timeMs: 15500, text: 'Second line' },
+        { timeMs: 20120, text: 'Third line' },
+        { timeMs: 24000, text: '' },
+      ],
+      isSynced: true,
+    });
+  });
+
+  test('parses plain lyrics as untimed lines with stanza breaks', () => {
+    expect(parseLyrics('\nVerse one\nVerse two\n\nChorus\n')).toEqual({
+      lines: [
+        { timeMs: null, text: 'Verse one' },
+        { timeMs: null, text: 'Verse two' },
+        { timeMs: null, text: '' },
+        { timeMs: null, text: 'Chorus' },
+      ],
+      isSynced: false,
+    });
+  });
+
+  test('repeats a line for each of its time tags in time order', () => {
+    const { lines } = parseLyrics('[00:10.00][00:30.00]Chorus\n[00:20.00]Verse');
+    expect(lines.map((line) => [line.timeMs, line.text])).toEqual([
+      [10000, 'Chorus'],
+      [20000, 'Verse'],
+      [30000, 'Chorus'],
+    ]);
+  });
+
+  test('applies a positive offset by showing lines earlier', () => {
+    const { lines } = parseLyrics('[offset:+500]\n[00:10.00]Line\n[00:00.20]Intro');
+    expect(lines.map((line) => line.timeMs)).toEqual([0, 9500]);
+  });
+
+  test('keeps an untimed line after the line it followed', () => {
+    const { lines } = parseLyrics('[00:05.00]One\n(spoken)\n[00:09.00]Two');
+    expect(lines.map((line) => line.text)).toEqual(['One', '(spoken)', 'Two']);
+    expect(lines[1].timeMs).toBeNull();
+  });
+});
+
+describe('formatLrcTimestamp', () => {
+  test('formats minutes, seconds and hundredths', () => {
+    expect(formatLrcTimestamp(0)).toBe('00:00.00');
+    expect(formatLrcTimestamp(62345)).toBe('01:02.35');
+    expect(formatLrcTimestamp(600000)).toBe('10:00.00');
+  });
+});
+
+describe('serializeLyrics', () => {
+  test('round-trips synced lyrics through LRC', () => {
+    const parsed = parseLyrics(LRC);
+    expect(parseLyrics(serializeLyrics(parsed))).toEqual(parsed);
+  });
+
+  test('writes plain lyrics without tags', () => {
+    expect(serializeLyrics(parseLyrics('One\n\nTwo'))).toBe('One\n\nTwo');
+  });
+});
+
+describe('findCurrentLyricIndex', () => {
+  const { lines } = parseLyrics(LRC);
+
+  test('returns -1 before the first line', () => {
+    expect(findCurrentLyricIndex(lines, 5000)).toBe(-1);
+  });
+
+  test('returns the last line that has started', () => {
+    expect(findCurrentLyricIndex(lines, 12340)).toBe(0);
+    expect(findCurrentLyricIndex(lines, 19999)).toBe(1);
+    expect(findCurrentLyricIndex(lines, 90000)).toBe(3);
+  });
+
+  test('skips untimed lines', () => {
+    const mixed = parseLyrics('[00:05.00]One\n(spoken)\n[00:09.00]Two').lines;
+    expect(findCurrentLyricIndex(mixed, 7000)).toBe(0);
+  });
+});
+
+describe('tap-along stamping', () => {
+  const plain = parseLyrics('One\n\nTwo');
+
+  test('findNextLyricLine skips stanza breaks', () => {
+    expect(findNextLyricLine(plain.lines, 1)).toBe(2);
+    expect(findNextLyricLine(plain.lines, 3)).toBe(3);
+  });
+
+  test('stampLyricLine sets a time and marks the lyrics synced', () => {
+    const stamped = stampLyricLine(plain, 0, 4321.6);
+    expect(stamped.lines[0].timeMs).toBe(4322);
+    expect(stamped.isSynced).toBe(true);
+  });
+
+  test('stampLyricLine never goes before an earlier line', () => {
+    const stamped = stampLyricLine(stampLyricLine(plain, 0, 8000), 2, 6000);
+    expect(stamped.lines[2].timeMs).toBe(8000);
+  });
+
+  test('clearing the only stamp unsyncs the lyrics', () => {
+    const stamped = stampLyricLine(plain, 0, 1000);
+    expect(stampLyricLine(stamped, 0, null).isSynced).toBe(false);
+    expect(clearLyricTimestamps(parseLyrics(LRC)).isSynced).toBe(false);
+  });
+});
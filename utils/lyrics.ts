@@ -1,11 +1,15 @@
 /**
  * Lyrics Fetching Utility
  * Fetches song lyrics from free internet APIs using a waterfall approach:
- * 1. Lyrics.ovh (simplest, no auth)
- * 2. LRCLIB (better search, synced lyrics)
+ * 1. LRCLIB (better search, synced lyrics kept as LRC)
+ * 2. Lyrics.ovh (simplest, no auth)
  * 3. Gemini API fallback (web search)
+ *
+ * Also parses and writes LRC so synced lyrics keep their line timestamps.
  */
 
+import type { LyricLine, ParsedLyrics } from '@/types/lyrics';
+
 const LYRICS_OVH_BASE = 'https://api.lyrics.ovh/v1';
 const LRCLIB_BASE = 'https://lrclib.net/api';
 
@@ -43,20 +47,20 @@ interface LrclibResult {
 export async function fetchLyrics(title: string, artist: string): Promise<string | null> {
   console.log(`🎵 Fetching lyrics for "${title}" by ${artist}`);
 
-  // Try Lyrics.ovh first (simplest API)
-  const lyricsOvh = await tryLyricsOvh(title, artist);
-  if (lyricsOvh) {
-    console.log('✅ Found lyrics via Lyrics.ovh');
-    return lyricsOvh;
-  }
-
-  // Try LRCLIB second (better search)
+  // Try LRCLIB first (better search, and the only source with timestamps)
   const lrclib = await tryLrclib(title, artist);
   if (lrclib) {
     console.log('✅ Found lyrics via LRCLIB');
     return lrclib;
   }
 
+  // Try Lyrics.ovh second (simplest API)
+  const lyricsOvh = await tryLyricsOvh(title, artist);
+  if (lyricsOvh) {
+    console.log('✅ Found lyrics via Lyrics.ovh');
+    return lyricsOvh;
+  }
+
   // No lyrics found
   console.log('❌ No lyrics found from any source');
   return null;
@@ -101,7 +105,7 @@ async function tryLyricsOvh(title: string, artist: string): Promise<string | nul
 }
 
 /**
- * Try fetching from LRCLIB
+ * Try fetching from LRCLIB (synced LRC when available)
  * Endpoint: GET https://lrclib.net/api/search?track_name={title}&artist_name={artist}
  */
 async function tryLrclib(title: string, artist: string): Promise<string | null> {
@@ -134,19 +138,18 @@ async function tryLrclib(title: string, artist: string): Promise<string | null>
       return null;
     }
 
-    // Find the first result with plain lyrics (prefer non-instrumental)
+    // Prefer synced lyrics (LRC) so follow mode has line timestamps
+    const withSynced = results.find(r => !r.instrumental && r.syncedLyrics);
+    if (withSynced?.syncedLyrics) {
+      return withSynced.syncedLyrics.trim();
+    }
+
+    // Fall back to plain lyrics (prefer non-instrumental)
     const withLyrics = results.find(r => !r.instrumental && r.plainLyrics);
     if (withLyrics?.plainLyrics) {
       return withLyrics.plainLyrics.trim();
     }
 
-    // Fall back to synced lyrics if no plain lyrics
-    const withSynced = results.find(r => !r.instrumental && r.syncedLyrics);
-    if (withSynced?.syncedLyrics) {
-      // Convert synced lyrics (LRC format) to plain text
-      return convertLrcToPlain(withSynced.syncedLyrics);
-    }
-
     return null;
   } catch (error) {
     console.error('❌ LRCLIB error:', error);
@@ -154,17 +157,151 @@ async function tryLrclib(title: string, artist: string): Promise<string | null>
   }
 }
 
+// LRC time tag: [mm:ss], [mm:ss.x], [mm:ss.xx] or [mm:ss.xxx]
+const LRC_TIME_TAG = /\[(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?\]/g;
+
+// LRC metadata tag: [ar:Artist], [offset:+250], ...
+const LRC_META_TAG = /^\[([a-z#]+):(.*)\]$/i;
+
+/**
+ * Parse lyrics text into lines, keeping LRC timestamps when present
+ * Lines with several time tags (repeated choruses) appear once per tag;
+ * untimed lines stay after the line they followed.
+ */
+export function parseLyrics(text: string): ParsedLyrics {
+  let offsetMs = 0;
+  const entries: { line: LyricLine; sortMs: number }[] = [];
+  let lastSortMs = -1;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const trimmed = rawLine.trim();
+
+    const meta = trimmed.match(LRC_META_TAG);
+    if (meta) {
+      if (meta[1].toLowerCase() === 'offset') {
+        offsetMs = parseInt(meta[2], 10) || 0;
+      }
+      continue;
+    }
+
+    const times: number[] = [];
+    LRC_TIME_TAG.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    let tagsEnd = 0;
+    while ((match = LRC_TIME_TAG.exec(trimmed)) !== null && match.index === tagsEnd) {
+      const minutes = parseInt(match[1], 10);
+      const seconds = parseInt(match[2], 10);
+      const fraction = match[3] ? parseInt(match[3].padEnd(3, '0'), 10) : 0;
+      times.push((minutes * 60 + seconds) * 1000 + fraction);
+      tagsEnd = LRC_TIME_TAG.lastIndex;
+    }
+
+    const lineText = trimmed.slice(tagsEnd).trim();
+
+    if (times.length === 0) {
+      entries.push({ line: { timeMs: null, text: lineText }, sortMs: lastSortMs });
+      continue;
+    }
+
+    for (const timeMs of times) {
+      entries.push({ line: { timeMs, text: lineText }, sortMs: timeMs });
+    }
+    lastSortMs = times[times.length - 1];
+  }
+
+  // Positive offsets show lyrics earlier
+  const lines = entries
+    .sort((a, b) => a.sortMs - b.sortMs)
+    .map(({ line }) =>
+      line.timeMs === null ? line : { ...line, timeMs: Math.max(0, line.timeMs - offsetMs) }
+    );
+
+  // Drop blank lines at either end
+  const isBlank = (line: LyricLine | undefined) => !!line && !line.text && line.timeMs === null;
+  while (isBlank(lines[0])) lines.shift();
+  while (isBlank(lines[lines.length - 1])) lines.pop();
+
+  return { lines, isSynced: lines.some((line) => line.timeMs !== null) };
+}
+
 /**
- * Convert LRC (synced) lyrics format to plain text
- * LRC format: [00:12.34]Line of lyrics
+ * Format milliseconds as an LRC timestamp (mm:ss.xx)
  */
-function convertLrcToPlain(lrcLyrics: string): string {
-  return lrcLyrics
-    .split('\n')
-    .map(line => {
-      // Remove timestamp prefix like [00:12.34]
-      return line.replace(/^\[\d{2}:\d{2}\.\d{2,3}\]\s*/, '');
-    })
-    .filter(line => line.trim()) // Remove empty lines
+export function formatLrcTimestamp(ms: number): string {
+  const totalCentiseconds = Math.round(Math.max(0, ms) / 10);
+  const minutes = Math.floor(totalCentiseconds / 6000);
+  const seconds = Math.floor((totalCentiseconds % 6000) / 100);
+  const centiseconds = totalCentiseconds % 100;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+}
+
+/**
+ * Write lyrics back to text: LRC when synced, plain text otherwise
+ */
+export function serializeLyrics(lyrics: ParsedLyrics): string {
+  return lyrics.lines
+    .map((line) =>
+      line.timeMs === null ? line.text : `[${formatLrcTimestamp(line.timeMs)}]${line.text}`
+    )
     .join('\n');
 }
+
+/**
+ * Index of the line playing at a position (-1 before the first timed line)
+ */
+export function findCurrentLyricIndex(lines: LyricLine[], positionMs: number): number {
+  let current = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const timeMs = lines[i].timeMs;
+    if (timeMs === null) continue;
+    if (timeMs > positionMs) break;
+    current = i;
+  }
+  return current;
+}
+
+/**
+ * Index of the first line with text at or after fromIndex (lines.length if none)
+ * Tap-along skips stanza breaks.
+ */
+export function findNextLyricLine(lines: LyricLine[], fromIndex: number): number {
+  let index = Math.max(0, fromIndex);
+  while (index < lines.length && !lines[index].text) index++;
+  return index;
+}
+
+/**
+ * Remove every timestamp, keeping the text
+ */
+export function clearLyricTimestamps(lyrics: ParsedLyrics): ParsedLyrics {
+  return {
+    lines: lyrics.lines.map((line) => ({ ...line, timeMs: null })),
+    isSynced: false,
+  };
+}
+
+/**
+ * Set (or clear, with null) one line's timestamp
+ * Times never go backwards: a stamp earlier than a previous line's is moved up to it.
+ */
+export function stampLyricLine(
+  lyrics: ParsedLyrics,
+  index: number,
+  timeMs: number | null
+): ParsedLyrics {
+  if (index < 0 || index >= lyrics.lines.length) return lyrics;
+
+  let stampMs = timeMs === null ? null : Math.round(Math.max(0, timeMs));
+  if (stampMs !== null) {
+    for (let i = index - 1; i >= 0; i--) {
+      const previousMs = lyrics.lines[i].timeMs;
+      if (previousMs !== null) {
+        stampMs = Math.max(stampMs, previousMs);
+        break;
+      }
+    }
+  }
+
+  const lines = lyrics.lines.map((line, i) => (i === index ? { ...line, timeMs: stampMs } : line));
+  return { lines, isSynced: lines.some((line) => line.timeMs !== null) };
+}
@@ -0,0 +1,35 @@
+/**
+ * Metronome Utilities
+ *
+ * Meter, trainer and section helpers for the metronome audio engine and controls.
+ */
+
+export {
+  getDefaultAccents,
+  getNextAccentLevel,
+  parseTimeSignature,
+  getTimeSignaturePresetId,
+  formatTimeSignature,
+  getDefaultMeter,
+  getSecondsPerClick,
+  getClickSound,
+  getNextClick,
+} from './meter';
+export type { ScheduledClick } from './meter';
+export {
+  clampBpm,
+  parseTempo,
+  createTrainerSettings,
+  getTrainerBpm,
+  getTrainerBarsToTarget,
+  isBarMuted,
+} from './trainer';
+export {
+  toMetronomeSong,
+  getSongMetronomeSettings,
+  formatSongTempo,
+  getSetlistIndex,
+  getSetlistStep,
+  getSetlistRehearsalRoute,
+} from './setlist';
+export { toMetronomeSections, getSectionPosition } from './sections';
@@ -0,0 +1,148 @@
+/**
+ * Metronome Meter Tests
+ * Validates time signature parsing, accents and subdivision clicks
+ */
+
+import {
+  getDefaultAccents,
+  getNextAccentLevel,
+  parseTimeSignature,
+  getTimeSignaturePresetId,
+  formatTimeSignature,
+  getDefaultMeter,
+  getSecondsPerClick,
+  getClickSound,
+  getNextClick,
+} from './meter';
+import { TIME_SIGNATURE_PRESETS } from '@/constants/MetronomeConfig';
+import type { MeterSettings } from '@/types/metronome';
+
+// ============================================================================
+// TIME SIGNATURES
+// ============================================================================
+
+describe('TIME_SIGNATURE_PRESETS', () => {
+  test.each(TIME_SIGNATURE_PRESETS)('$label grouping sums to its beats', ({ timeSignature }) => {
+    const total = timeSignature.grouping.reduce((sum, group) => sum + group, 0);
+    expect(total).toBe(timeSignature.beats);
+  });
+});
+
+describe('parseTimeSignature', () => {
+  test('parses common meters', () => {
+    expect(parseTimeSignature('4/4')).toEqual({ beats: 4, noteValue: 4, grouping: [4] });
+    expect(parseTimeSignature('3/4')).toEqual({ beats: 3, noteValue: 4, grouping: [3] });
+    expect(parseTimeSignature('6/8')).toEqual({ beats: 6, noteValue: 8, grouping: [3, 3] });
+  });
+
+  test('uses the preset grouping for odd meters', () => {
+    expect(parseTimeSignature('7/8')?.grouping).toEqual([2, 2, 3]);
+  });
+
+  test('ignores surrounding text', () => {
+    expect(parseTimeSignature('12/8 (compound)')?.beats).toBe(12);
+    expect(parseTimeSignature(' 4 / 4 ')?.beats).toBe(4);
+  });
+
+  test('groups meters without a preset', () => {
+    expect(parseTimeSignature('11/8')?.grouping).toEqual([2, 2, 2, 2, 3]);
+    expect(parseTimeSignature('15/8')?.grouping).toEqual([3, 3, 3, 3, 3]);
+    expect(parseTimeSignature('7/4')?.grouping).toEqual([7]);
+  });
+
+  test('rejects unsupported meters', () => {
+    expect(parseTimeSignature('4/2')).toBeNull();
+    expect(parseTimeSignature('0/4')).toBeNull();
+    expect(parseTimeSignature('32/8')).toBeNull();
+    expect(parseTimeSignature('Unknown')).toBeNull();
+    expect(parseTimeSignature(undefined)).toBeNull();
+  });
+});
+
+describe('getTimeSignaturePresetId / formatTimeSignature', () => {
+  test('matches presets by grouping', () => {
+    expect(getTimeSignaturePresetId({ beats: 7, noteValue: 8, grouping: [3, 2, 2] })).toBe('7/8-322');
+    expect(getTimeSignaturePresetId({ beats: 11, noteValue: 8, grouping: [2, 2, 2, 2, 3] })).toBeNull();
+  });
+
+  test('spells out uneven groupings only', () => {
+    expect(formatTimeSignature({ beats: 7, noteValue: 8, grouping: [2, 2, 3] })).toBe('7/8 (2+2+3)');
+    expect(formatTimeSignature({ beats: 6, noteValue: 8, grouping: [3, 3] })).toBe('6/8');
+    expect(formatTimeSignature({ beats: 4, noteValue: 4, grouping: [4] })).toBe('4/4');
+  });
+});
+
+// ============================================================================
+// ACCENTS
+// ============================================================================
+
+describe('getDefaultAccents', () => {
+  test('accents beat 1 in simple meters', () => {
+    expect(getDefaultAccents({ beats: 4, noteValue: 4, grouping: [4] })).toEqual([
+      'accent', 'normal', 'normal', 'normal',
+    ]);
+  });
+
+  test('marks group starts in grouped meters', () => {
+    expect(getDefaultAccents({ beats: 7, noteValue: 8, grouping: [2, 2, 3] })).toEqual([
+      'accent', 'normal', 'medium', 'normal', 'medium', 'normal', 'normal',
+    ]);
+  });
+});
+
+describe('getNextAccentLevel', () => {
+  test('cycles through every level', () => {
+    expect(getNextAccentLevel('accent')).toBe('medium');
+    expect(getNextAccentLevel('medium')).toBe('normal');
+    expect(getNextAccentLevel('normal')).toBe('silent');
+    expect(getNextAccentLevel('silent')).toBe('accent');
+  });
+});
+
+// ============================================================================
+// CLICKS
+// ============================================================================
+
+describe('getSecondsPerClick', () => {
+  test('divides the beat by the subdivision', () => {
+    expect(getSecondsPerClick(120, 'quarter')).toBeCloseTo(0.5);
+    expect(getSecondsPerClick(120, 'eighth')).toBeCloseTo(0.25);
+    expect(getSecondsPerClick(120, 'triplet')).toBeCloseTo(1 / 6);
+    expect(getSecondsPerClick(120, 'sixteenth')).toBeCloseTo(0.125);
+  });
+});
+
+describe('getClickSound', () => {
+  const meter: MeterSettings = {
+    ...getDefaultMeter(),
+    accents: ['accent', 'medium', 'normal', 'silent'],
+  };
+
+  test('beats play their accent level', () => {
+    expect(getClickSound(meter, 0, 0)).toEqual({ sound: 'accent', gain: 1 });
+    expect(getClickSound(meter, 1, 0)?.sound).toBe('accent');
+    expect(getClickSound(meter, 1, 0)!.gain).toBeLessThan(1);
+    expect(getClickSound(meter, 2, 0)?.sound).toBe('tick');
+  });
+
+  test('silent beats play nothing', () => {
+    expect(getClickSound(meter, 3, 0)).toBeNull();
+  });
+
+  test('clicks between beats use the subdivision sound', () => {
+    expect(getClickSound(meter, 3, 1)?.sound).toBe('subdivision');
+  });
+});
+
+describe('getNextClick', () => {
+  test('steps through subdivisions before the next beat', () => {
+    const meter: MeterSettings = { ...getDefaultMeter(), subdivision: 'triplet' };
+    expect(getNextClick(meter, 0, 0)).toEqual({ beatIndex: 0, clickIndex: 1 });
+    expect(getNextClick(meter, 0, 2)).toEqual({ beatIndex: 1, clickIndex: 0 });
+  });
+
+  test('wraps at the end of the bar', () => {
+    const meter = getDefaultMeter(parseTimeSignature('7/8')!);
+    expect(getNextClick(meter, 6, 0)).toEqual({ beatIndex: 0, clickIndex: 0 });
+  });
+});
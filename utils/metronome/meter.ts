@@ -0,0 +1,163 @@
+/**
+ * Metronome Meter Utilities
+ *
+ * Time signatures, beat grouping, accent levels and subdivision clicks.
+ * Used by the audio engine to decide which sound (if any) each click plays.
+ */
+
+import {
+  ACCENT_GAIN,
+  DEFAULT_TIME_SIGNATURE,
+  SUBDIVISION_CLICKS,
+  SUBDIVISION_GAIN,
+  TIME_SIGNATURE_PRESETS,
+} from '@/constants/MetronomeConfig';
+import type {
+  AccentLevel,
+  MeterSettings,
+  Subdivision,
+  TimeSignature,
+} from '@/types/metronome';
+
+/** Largest supported beats per bar */
+const MAX_BEATS = 16;
+
+/** Order accent levels cycle through when a beat is tapped */
+const ACCENT_CYCLE: AccentLevel[] = ['accent', 'medium', 'normal', 'silent'];
+
+/** Sample slot and gain for a single click */
+export interface ScheduledClick {
+  sound: 'accent' | 'tick' | 'subdivision';
+  gain: number;
+}
+
+/**
+ * Default accents for a time signature
+ * Beat 1 is accented, the first beat of every other group gets a medium accent
+ * e.g., 7/8 (2+2+3) → accent, normal, medium, normal, medium, normal, normal
+ */
+export function getDefaultAccents(timeSignature: TimeSignature): AccentLevel[] {
+  const accents: AccentLevel[] = Array(timeSignature.beats).fill('normal');
+  let groupStart = 0;
+  for (const group of timeSignature.grouping) {
+    if (groupStart < accents.length) accents[groupStart] = 'medium';
+    groupStart += group;
+  }
+  accents[0] = 'accent';
+  return accents;
+}
+
+/**
+ * Next accent level in the tap cycle (accent → medium → normal → silent → accent)
+ */
+export function getNextAccentLevel(level: AccentLevel): AccentLevel {
+  return ACCENT_CYCLE[(ACCENT_CYCLE.indexOf(level) + 1) % ACCENT_CYCLE.length];
+}
+
+/**
+ * Default grouping for a meter without a preset
+ * Compound eighth meters group in threes; other eighth meters group in twos,
+ * ending with a three when the count is odd. Quarter meters are one group.
+ */
+function getDefaultGrouping(beats: number, noteValue: 4 | 8): number[] {
+  if (noteValue === 4 || beats <= 3) return [beats];
+  if (beats % 3 === 0) return Array(beats / 3).fill(3);
+  if (beats % 2 === 0) return Array(beats / 2).fill(2);
+  return [...Array((beats - 3) / 2).fill(2), 3];
+}
+
+/**
+ * Parse a time signature string (e.g., "4/4", "7/8", "12/8 (compound)")
+ * Known meters use their preset grouping; returns null for unsupported meters.
+ */
+export function parseTimeSignature(value: string | null | undefined): TimeSignature | null {
+  const match = value?.match(/(\d+)\s*\/\s*(\d+)/);
+  if (!match) return null;
+
+  const beats = parseInt(match[1], 10);
+  const noteValue = parseInt(match[2], 10);
+  if (beats < 1 || beats > MAX_BEATS || (noteValue !== 4 && noteValue !== 8)) return null;
+
+  const preset = TIME_SIGNATURE_PRESETS.find(
+    ({ timeSignature }) =>
+      timeSignature.beats === beats && timeSignature.noteValue === noteValue
+  );
+  if (preset) return preset.timeSignature;
+
+  return { beats, noteValue, grouping: getDefaultGrouping(beats, noteValue) };
+}
+
+/**
+ * Find the preset matching a time signature (including its grouping)
+ */
+export function getTimeSignaturePresetId(timeSignature: TimeSignature): string | null {
+  const preset = TIME_SIGNATURE_PRESETS.find(
+    (p) =>
+      p.timeSignature.beats === timeSignature.beats &&
+      p.timeSignature.noteValue === timeSignature.noteValue &&
+      p.timeSignature.grouping.join('+') === timeSignature.grouping.join('+')
+  );
+  return preset?.id ?? null;
+}
+
+/**
+ * Format a time signature for display
+ * Uneven groupings are spelled out, e.g., "7/8 (2+2+3)"; even ones are not ("6/8")
+ */
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+  const base = `${timeSignature.beats}/${timeSignature.noteValue}`;
+  const { grouping } = timeSignature;
+  const isEven = grouping.every((group) => group === grouping[0]);
+  return isEven ? base : `${base} (${grouping.join('+')})`;
+}
+
+/**
+ * Default meter settings (4/4, beats only, accent on 1)
+ */
+export function getDefaultMeter(timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE): MeterSettings {
+  return {
+    timeSignature,
+    subdivision: 'quarter',
+    accents: getDefaultAccents(timeSignature),
+  };
+}
+
+/**
+ * Seconds between clicks (beats divided by the subdivision)
+ */
+export function getSecondsPerClick(bpm: number, subdivision: Subdivision): number {
+  return 60 / bpm / SUBDIVISION_CLICKS[subdivision];
+}
+
+/**
+ * Sound for a click within the bar, or null when the click is silent
+ * Click 0 of a beat plays the beat's accent level; later clicks are subdivisions.
+ */
+export function getClickSound(
+  meter: MeterSettings,
+  beatIndex: number,
+  clickIndex: number
+): ScheduledClick | null {
+  if (clickIndex > 0) return { sound: 'subdivision', gain: SUBDIVISION_GAIN };
+
+  const accent = meter.accents[beatIndex] ?? 'normal';
+  if (accent === 'silent') return null;
+  return {
+    sound: accent === 'normal' ? 'tick' : 'accent',
+    gain: ACCENT_GAIN[accent],
+  };
+}
+
+/**
+ * Position of the click after (beatIndex, clickIndex), wrapping at the end of the bar
+ */
+export function getNextClick(
+  meter: MeterSettings,
+  beatIndex: number,
+  clickIndex: number
+): { beatIndex: number; clickIndex: number } {
+  if (clickIndex + 1 < SUBDIVISION_CLICKS[meter.subdivision]) {
+    return { beatIndex, clickIndex: clickIndex + 1 };
+  }
+  return { beatIndex: (beatIndex + 1) % meter.timeSignature.beats, clickIndex: 0 };
+}
@@ -0,0 +1,58 @@
+/**
+ * Metronome Section Tests
+ * Validates mapping arrangements to metronome sections and counting through them
+ */
+
+import { toMetronomeSections, getSectionPosition } from './sections';
+import type { SongArrangement } from '@/types/arrangement';
+import type { MetronomeSection } from '@/types/metronome';
+
+const sections: MetronomeSection[] = [
+  { name: 'Intro', bars: 4, bpm: null, timeSignature: null },
+  { name: 'Verse', bars: 8, bpm: null, timeSignature: null },
+  { name: 'Chorus', bars: 8, bpm: 132, timeSignature: null },
+];
+
+describe('toMetronomeSections', () => {
+  test('counts repeats into the bars and parses section meters', () => {
+    const arrangement: SongArrangement = {
+      startOffsetMs: 0,
+      sections: [
+        {
+          id: 's1',
+          type: 'verse',
+          name: 'Verse 1',
+          bars: 8,
+          repeats: 2,
+          chords: ['Am', 'F'],
+          tempoBpm: null,
+          timeSignature: '6/8',
+          notes: '',
+        },
+      ],
+    };
+
+    expect(toMetronomeSections(arrangement)).toEqual([
+      { name: 'Verse 1', bars: 16, bpm: null, timeSignature: { beats: 6, noteValue: 8, grouping: [3, 3] } },
+    ]);
+  });
+});
+
+describe('getSectionPosition', () => {
+  test('plays through from the start section', () => {
+    const playback = { sections, startIndex: 1, loop: false };
+    expect(getSectionPosition(playback, 0)).toEqual({ index: 1, bar: 0 });
+    expect(getSectionPosition(playback, 7)).toEqual({ index: 1, bar: 7 });
+    expect(getSectionPosition(playback, 8)).toEqual({ index: 2, bar: 0 });
+  });
+
+  test('ends after the last section', () => {
+    expect(getSectionPosition({ sections, startIndex: 2, loop: false }, 8)).toBeNull();
+  });
+
+  test('repeats the start section when looping', () => {
+    const playback = { sections, startIndex: 0, loop: true };
+    expect(getSectionPosition(playback, 5)).toEqual({ index: 0, bar: 1 });
+    expect(getSectionPosition(playback, 8)).toEqual({ index: 0, bar: 0 });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Metronome Section Utilities
+ *
+ * Counts through a song's arrangement: which section and bar is playing,
+ * with each section's own tempo and meter.
+ */
+
+import { parseTimeSignature } from './meter';
+import type { SongArrangement } from '@/types/arrangement';
+import type { MetronomeSection, SectionPlayback, SectionPosition } from '@/types/metronome';
+
+/**
+ * Map an arrangement's sections to the sections the metronome counts through
+ * Sections without their own tempo or meter keep whatever is playing.
+ */
+export function toMetronomeSections(arrangement: SongArrangement): MetronomeSection[] {
+  return arrangement.sections.map((section) => ({
+    name: section.name,
+    bars: section.bars * section.repeats,
+    bpm: section.tempoBpm,
+    timeSignature: parseTimeSignature(section.timeSignature),
+  }));
+}
+
+/**
+ * Section and bar for a bar of section playback (barsPlayed counts from its first bar)
+ * Returns null once playback has run past the last section.
+ */
+export function getSectionPosition(
+  playback: SectionPlayback,
+  barsPlayed: number
+): SectionPosition | null {
+  const { sections, startIndex, loop } = playback;
+  if (startIndex < 0 || startIndex >= sections.length || barsPlayed < 0) return null;
+
+  if (loop) {
+    return { index: startIndex, bar: barsPlayed % Math.max(1, sections[startIndex].bars) };
+  }
+
+  let bar = barsPlayed;
+  for (let index = startIndex; index < sections.length; index++) {
+    const bars = Math.max(1, sections[index].bars);
+    if (bar < bars) return { index, bar };
+    bar -= bars;
+  }
+  return null;
+}
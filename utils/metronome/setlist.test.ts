@@ -0,0 +1,113 @@
+/**
+ * Metronome Song Tests
+ * Validates reading metronome settings from songs and stepping through setlists
+ */
+
+import {
+  toMetronomeSong,
+  getSongMetronomeSettings,
+  formatSongTempo,
+  getSetlistIndex,
+  getSetlistStep,
+  getSetlistRehearsalRoute,
+} from './setlist';
+import type { SetlistSongWithDetails } from '@/types/band';
+import type { MetronomeSong } from '@/types/metronome';
+
+const song = (overrides: Partial<MetronomeSong> = {}): MetronomeSong => ({
+  id: 'song-1',
+  title: 'Song',
+  artist: 'Artist',
+  tempoBpm: 120,
+  timeSignature: '4/4',
+  ...overrides,
+});
+
+describe('toMetronomeSong', () => {
+  test('maps a setlist entry by song id and parses its tempo', () => {
+    const setlistSong: SetlistSongWithDetails = {
+      id: 'entry-1',
+      setlist_id: 'setlist-1',
+      song_id: 'song-7',
+      position: 2,
+      added_by: null,
+      added_at: '2026-01-01T00:00:00Z',
+      title: 'Seven',
+      artist: 'Band',
+      instrument: 'Bass',
+      artwork_url: null,
+      tempo: '~96 BPM',
+      time_signature: '6/8',
+    };
+
+    expect(toMetronomeSong(setlistSong)).toEqual({
+      id: 'song-7',
+      title: 'Seven',
+      artist: 'Band',
+      tempoBpm: 96,
+      timeSignature: '6/8',
+    });
+  });
+});
+
+describe('getSongMetronomeSettings', () => {
+  test('reads tempo and time signature', () => {
+    const settings = getSongMetronomeSettings(song({ timeSignature: '7/8' }));
+    expect(settings.bpm).toBe(120);
+    expect(settings.timeSignature).toMatchObject({ beats: 7, noteValue: 8 });
+  });
+
+  test('returns null for missing or unsupported values', () => {
+    const settings = getSongMetronomeSettings(song({ tempoBpm: null, timeSignature: '4/2' }));
+    expect(settings.bpm).toBeNull();
+    expect(settings.timeSignature).toBeNull();
+  });
+});
+
+describe('formatSongTempo', () => {
+  test('shows tempo and time signature', () => {
+    expect(formatSongTempo(song({ timeSignature: '6/8' }))).toBe('120 BPM · 6/8');
+  });
+
+  test('falls back when values are missing', () => {
+    expect(formatSongTempo(song({ timeSignature: null }))).toBe('120 BPM');
+    expect(formatSongTempo(song({ tempoBpm: null, timeSignature: null }))).toBe('No tempo');
+  });
+});
+
+describe('getSetlistIndex', () => {
+  test('steps forward and back', () => {
+    expect(getSetlistIndex(1, 1, 4)).toBe(2);
+    expect(getSetlistIndex(1, -1, 4)).toBe(0);
+  });
+
+  test('stays on the first and last song', () => {
+    expect(getSetlistIndex(0, -1, 4)).toBe(0);
+    expect(getSetlistIndex(3, 1, 4)).toBe(3);
+    expect(getSetlistIndex(0, 1, 0)).toBe(0);
+  });
+});
+
+describe('getSetlistStep', () => {
+  const songs = [song({ id: 'a' }), song({ id: 'b' }), song({ id: 'c' })];
+
+  test('moves to the next or previous song', () => {
+    expect(getSetlistStep(songs, 0, 1)).toEqual({ index: 1, song: songs[1] });
+    expect(getSetlistStep(songs, 2, -1)).toEqual({ index: 1, song: songs[1] });
+  });
+
+  test('stays put at either end or in an empty setlist', () => {
+    expect(getSetlistStep(songs, 0, -1)).toBeNull();
+    expect(getSetlistStep(songs, 2, 1)).toBeNull();
+    expect(getSetlistStep([], 0, 1)).toBeNull();
+  });
+});
+
+describe('getSetlistRehearsalRoute', () => {
+  test('opens the metronome with the setlist', () => {
+    expect(getSetlistRehearsalRoute('setlist-1')).toEqual({
+      pathname: '/metronome',
+      params: { setlistId: 'setlist-1' },
+    });
+  });
+});
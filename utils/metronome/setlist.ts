@@ -0,0 +1,75 @@
+/**
+ * Metronome Song Utilities
+ *
+ * Reads metronome settings from songs and steps through setlists in rehearsal.
+ */
+
+import { parseTempo } from './trainer';
+import { parseTimeSignature, formatTimeSignature } from './meter';
+import type { SetlistSongWithDetails } from '@/types/band';
+import type { MetronomeSong, SongMetronomeSettings } from '@/types/metronome';
+
+/**
+ * Map a setlist entry to the song details used by the metronome
+ */
+export function toMetronomeSong(setlistSong: SetlistSongWithDetails): MetronomeSong {
+  return {
+    id: setlistSong.song_id,
+    title: setlistSong.title,
+    artist: setlistSong.artist,
+    tempoBpm: parseTempo(setlistSong.tempo),
+    timeSignature: setlistSong.time_signature,
+  };
+}
+
+/**
+ * Tempo and time signature to load for a song
+ * Either is null when the song's analysis has no usable value.
+ */
+export function getSongMetronomeSettings(song: MetronomeSong): SongMetronomeSettings {
+  return {
+    bpm: song.tempoBpm,
+    timeSignature: parseTimeSignature(song.timeSignature),
+  };
+}
+
+/**
+ * Short tempo label for a song (e.g., "120 BPM · 6/8")
+ */
+export function formatSongTempo(song: MetronomeSong): string {
+  const { bpm, timeSignature } = getSongMetronomeSettings(song);
+  const parts = [
+    bpm !== null ? `${bpm} BPM` : 'No tempo',
+    ...(timeSignature ? [formatTimeSignature(timeSignature)] : []),
+  ];
+  return parts.join(' · ');
+}
+
+/**
+ * Move through a setlist, staying on the first/last song at either end
+ */
+export function getSetlistIndex(index: number, delta: number, songCount: number): number {
+  if (songCount === 0) return 0;
+  return Math.max(0, Math.min(songCount - 1, index + delta));
+}
+
+/**
+ * Song to move to when stepping through a setlist in rehearsal
+ * Null when the step stays on the current song (at either end of the setlist).
+ */
+export function getSetlistStep(
+  songs: MetronomeSong[],
+  index: number,
+  delta: number
+): { index: number; song: MetronomeSong } | null {
+  const nextIndex = getSetlistIndex(index, delta, songs.length);
+  const song = songs[nextIndex];
+  return nextIndex === index || !song ? null : { index: nextIndex, song };
+}
+
+/**
+ * Metronome route that rehearses a setlist
+ */
+export function getSetlistRehearsalRoute(setlistId: string) {
+  return { pathname: '/metronome' as const, params: { setlistId } };
+}
@@ -0,0 +1,131 @@
+/**
+ * Metronome Trainer Tests
+ * Validates tempo parsing, trainer ramps and gap click muting
+ */
+
+import {
+  clampBpm,
+  parseTempo,
+  createTrainerSettings,
+  getTrainerBpm,
+  getTrainerBarsToTarget,
+  isBarMuted,
+} from './trainer';
+import { DEFAULT_GAP_CLICK, METRONOME_CONFIG } from '@/constants/MetronomeConfig';
+import type { GapClickSettings, TempoTrainerSettings } from '@/types/metronome';
+
+// ============================================================================
+// TEMPO
+// ============================================================================
+
+describe('clampBpm', () => {
+  test('rounds and clamps to the metronome range', () => {
+    expect(clampBpm(119.6)).toBe(120);
+    expect(clampBpm(5)).toBe(METRONOME_CONFIG.bpmMin);
+    expect(clampBpm(500)).toBe(METRONOME_CONFIG.bpmMax);
+  });
+});
+
+describe('parseTempo', () => {
+  test('reads BPM from analysis strings', () => {
+    expect(parseTempo('120 BPM')).toBe(120);
+    expect(parseTempo('~96')).toBe(96);
+    expect(parseTempo('92.5 bpm')).toBe(93);
+  });
+
+  test('uses the first value of a range', () => {
+    expect(parseTempo('120-124 BPM')).toBe(120);
+  });
+
+  test('returns null for unknown or out-of-range tempos', () => {
+    expect(parseTempo('Unknown')).toBeNull();
+    expect(parseTempo('')).toBeNull();
+    expect(parseTempo(null)).toBeNull();
+    expect(parseTempo('5 BPM')).toBeNull();
+    expect(parseTempo('900 BPM')).toBeNull();
+  });
+});
+
+// ============================================================================
+// TEMPO TRAINER
+// ============================================================================
+
+describe('createTrainerSettings', () => {
+  test('starts at 60% of the song tempo and targets 100%', () => {
+    const trainer = createTrainerSettings(150, 100);
+    expect(trainer.startBpm).toBe(90);
+    expect(trainer.targetBpm).toBe(150);
+  });
+
+  test('ramps up from the current tempo without a song tempo', () => {
+    const trainer = createTrainerSettings(null, 100);
+    expect(trainer.startBpm).toBe(100);
+    expect(trainer.targetBpm).toBe(120);
+  });
+
+  test('keeps the start within the metronome range', () => {
+    const trainer = createTrainerSettings(30, 100);
+    expect(trainer.startBpm).toBe(METRONOME_CONFIG.bpmMin);
+    expect(trainer.targetBpm).toBe(30);
+  });
+});
+
+describe('getTrainerBpm', () => {
+  const trainer: TempoTrainerSettings = { startBpm: 60, targetBpm: 70, stepBpm: 2, barsPerStep: 4 };
+
+  test('holds the start tempo for the first step', () => {
+    expect(getTrainerBpm(trainer, 0)).toBe(60);
+    expect(getTrainerBpm(trainer, 3)).toBe(60);
+  });
+
+  test('adds a step every barsPerStep bars', () => {
+    expect(getTrainerBpm(trainer, 4)).toBe(62);
+    expect(getTrainerBpm(trainer, 11)).toBe(64);
+  });
+
+  test('stops at the target', () => {
+    expect(getTrainerBpm(trainer, 20)).toBe(70);
+    expect(getTrainerBpm(trainer, 400)).toBe(70);
+  });
+});
+
+describe('getTrainerBarsToTarget', () => {
+  test('counts bars until the target is reached', () => {
+    expect(getTrainerBarsToTarget({ startBpm: 60, targetBpm: 70, stepBpm: 2, barsPerStep: 4 })).toBe(20);
+    expect(getTrainerBarsToTarget({ startBpm: 60, targetBpm: 65, stepBpm: 2, barsPerStep: 1 })).toBe(3);
+  });
+
+  test('is zero when there is nothing to ramp', () => {
+    expect(getTrainerBarsToTarget({ startBpm: 80, targetBpm: 80, stepBpm: 2, barsPerStep: 4 })).toBe(0);
+  });
+});
+
+// ============================================================================
+// GAP CLICK
+// ============================================================================
+
+describe('isBarMuted', () => {
+  const pattern: GapClickSettings = { ...DEFAULT_GAP_CLICK, mode: 'pattern', playBars: 2, muteBars: 1 };
+
+  test('plays every bar when off', () => {
+    expect([0, 1, 2, 3].some((bar) => isBarMuted(DEFAULT_GAP_CLICK, bar))).toBe(false);
+  });
+
+  test('mutes the gap bars of a pattern', () => {
+    expect([0, 1, 2, 3, 4, 5].map((bar) => isBarMuted(pattern, bar))).toEqual([
+      false, false, true, false, false, true,
+    ]);
+  });
+
+  test('mutes random bars by chance', () => {
+    const random: GapClickSettings = { ...DEFAULT_GAP_CLICK, mode: 'random', muteChance: 0.3 };
+    expect(isBarMuted(random, 1, () => 0.1)).toBe(true);
+    expect(isBarMuted(random, 1, () => 0.5)).toBe(false);
+  });
+
+  test('always plays the first bar', () => {
+    const alwaysMute: GapClickSettings = { ...DEFAULT_GAP_CLICK, mode: 'random', muteChance: 1 };
+    expect(isBarMuted(alwaysMute, 0)).toBe(false);
+    expect(isBarMuted({ ...pattern, playBars: 0 }, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Metronome Trainer Utilities
+ *
+ * Tempo ramps for the speed trainer and bar muting for gap click mode.
+ */
+
+import {
+  METRONOME_CONFIG,
+  TRAINER_START_PERCENT,
+  TRAINER_DEFAULT_RANGE,
+  TRAINER_DEFAULT_STEP,
+  TRAINER_DEFAULT_BARS,
+} from '@/constants/MetronomeConfig';
+import type { GapClickSettings, TempoTrainerSettings } from '@/types/metronome';
+
+/**
+ * Clamp a BPM to the metronome's range
+ */
+export function clampBpm(bpm: number): number {
+  return Math.max(METRONOME_CONFIG.bpmMin, Math.min(METRONOME_CONFIG.bpmMax, Math.round(bpm)));
+}
+
+/**
+ * Read a BPM from a tempo string (e.g., "120 BPM", "~96", "120-124 BPM")
+ * Ranges use their first value. Returns null when there's no usable number.
+ */
+export function parseTempo(tempo: string | null | undefined): number | null {
+  const match = tempo?.match(/\d+(\.\d+)?/);
+  if (!match) return null;
+
+  const bpm = parseFloat(match[0]);
+  if (bpm < METRONOME_CONFIG.bpmMin || bpm > METRONOME_CONFIG.bpmMax) return null;
+  return Math.round(bpm);
+}
+
+/**
+ * Default trainer settings
+ * With a song tempo: start at 60% and ramp to 100%. Without one: ramp 20 BPM up from the current tempo.
+ */
+export function createTrainerSettings(
+  songBpm: number | null,
+  currentBpm: number
+): TempoTrainerSettings {
+  const startBpm = songBpm
+    ? clampBpm((songBpm * TRAINER_START_PERCENT) / 100)
+    : clampBpm(currentBpm);
+  const targetBpm = songBpm ? clampBpm(songBpm) : clampBpm(currentBpm + TRAINER_DEFAULT_RANGE);
+
+  return {
+    startBpm,
+    targetBpm: Math.max(startBpm, targetBpm),
+    stepBpm: TRAINER_DEFAULT_STEP,
+    barsPerStep: TRAINER_DEFAULT_BARS,
+  };
+}
+
+/**
+ * Trainer tempo for a bar (0-based), capped at the target
+ */
+export function getTrainerBpm(trainer: TempoTrainerSettings, barIndex: number): number {
+  const steps = Math.floor(barIndex / Math.max(1, trainer.barsPerStep));
+  return Math.min(trainer.targetBpm, trainer.startBpm + steps * trainer.stepBpm);
+}
+
+/**
+ * Number of bars the trainer takes to reach its target
+ */
+export function getTrainerBarsToTarget(trainer: TempoTrainerSettings): number {
+  if (trainer.stepBpm <= 0 || trainer.targetBpm <= trainer.startBpm) return 0;
+  const steps = Math.ceil((trainer.targetBpm - trainer.startBpm) / trainer.stepBpm);
+  return steps * Math.max(1, trainer.barsPerStep);
+}
+
+/**
+ * Whether a bar (0-based) is muted in gap click mode
+ * The first bar always plays so the tempo is set before the first gap.
+ */
+export function isBarMuted(
+  gapClick: GapClickSettings,
+  barIndex: number,
+  random: () => number = Math.random
+): boolean {
+  if (barIndex === 0) return false;
+
+  switch (gapClick.mode) {
+    case 'random':
+      return random() < gapClick.muteChance;
+    case 'pattern': {
+      const cycle = gapClick.playBars + gapClick.muteBars;
+      if (gapClick.muteBars <= 0 || cycle <= 0) return false;
+      return barIndex % cycle >= gapClick.playBars;
+    }
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Music Theory Utility Tests
+ * Validates scale name parsing and pattern-based note spelling
+ */
+
+import {
+  MODES,
+  getScaleNotes,
+  getPatternNotes,
+  parseScaleName,
+} from './musicTheory';
+
+// ============================================================================
+// SCALE NOTES
+// ============================================================================
+
+describe('getPatternNotes', () => {
+  test('matches getScaleNotes for modes', () => {
+    expect(getPatternNotes('D', MODES.dorian.pattern)).toEqual(getScaleNotes('D', 'dorian'));
+  });
+
+  test('spells flat keys with flats', () => {
+    expect(getPatternNotes('Bb', [0, 4, 7])).toEqual(['Bb', 'D', 'F']);
+  });
+
+  test('spells sharp keys with sharps', () => {
+    expect(getPatternNotes('E', [0, 4, 7])).toEqual(['E', 'G#', 'B']);
+  });
+});
+
+// ============================================================================
+// SCALE NAME PARSING
+// ============================================================================
+
+describe('parseScaleName', () => {
+  test.each([
+    ['A Minor Pentatonic', 'A', 'minorPentatonic'],
+    ['E Pentatonic Minor', 'E', 'minorPentatonic'],
+    ['G Major Pentatonic', 'G', 'majorPentatonic'],
+    ['E Blues', 'E', 'blues'],
+    ['A Blues Scale', 'A', 'blues'],
+    ['C Major', 'C', 'ionian'],
+    ['A Natural Minor', 'A', 'aeolian'],
+    ['F# Minor', 'F#', 'aeolian'],
+    ['A Harmonic Minor', 'A', 'harmonicMinor'],
+    ['D Dorian', 'D', 'dorian'],
+    ['G Mixolydian', 'G', 'mixolydian'],
+    ['F Lydian', 'F', 'lydian'],
+    ['Bb Ionian', 'Bb', 'ionian'],
+  ])('"%s" → %s %s', (name, root, type) => {
+    const parsed = parseScaleName(name);
+    expect(parsed?.root).toBe(root);
+    expect(parsed?.type).toBe(type);
+  });
+
+  test('Mixolydian is not read as Lydian', () => {
+    expect(parseScaleName('A Mixolydian')?.type).toBe('mixolydian');
+  });
+
+  test('names without a root use the fallback root', () => {
+    const parsed = parseScaleName('Dorian', 'E');
+    expect(parsed?.root).toBe('E');
+    expect(parsed?.type).toBe('dorian');
+  });
+
+  test('a bare root is a major scale', () => {
+    expect(parseScaleName('G')?.type).toBe('ionian');
+  });
+
+  test('unknown scales return null', () => {
+    expect(parseScaleName('Hungarian Gypsy')).toBeNull();
+  });
+
+  test('mode arpeggios stack thirds', () => {
+    expect(parseScaleName('C Major')?.arpeggio).toEqual([0, 4, 7, 11]);
+    expect(parseScaleName('A Minor')?.arpeggio).toEqual([0, 3, 7, 10]);
+    expect(parseScaleName('G Mixolydian')?.arpeggio).toEqual([0, 4, 7, 10]);
+  });
+
+  test('pentatonic scales have their own arpeggios', () => {
+    expect(parseScaleName('A Minor Pentatonic')?.arpeggio).toEqual([0, 3, 7, 10]);
+    expect(parseScaleName('C Major Pentatonic')?.arpeggio).toEqual([0, 4, 7]);
+  });
+
+  test('display names drop the mode alias', () => {
+    expect(parseScaleName('C Major')?.name).toBe('Major');
+    expect(parseScaleName('A Minor Pentatonic')?.name).toBe('Minor Pentatonic');
+  });
+});
@@ -180,7 +180,14 @@ export function getKeyRotation(root: string): number {
  * Get scale notes for a given root and mode
  */
 export function getScaleNotes(root: string, mode: ModeName = 'ionian'): string[] {
-  const modeData = MODES[mode];
+  return getPatternNotes(root, MODES[mode].pattern);
+}
+
+/**
+ * Get the notes for a root and interval pattern (semitones from root)
+ * Spelled with flats for flat roots and flat-side keys
+ */
+export function getPatternNotes(root: string, pattern: readonly number[]): string[] {
   const useFlats = root.includes('b') || ['F', 'Bb', 'Eb', 'Ab', 'Db', 'Gb'].includes(root);
   const chromatic = useFlats ? CHROMATIC_FLATS : CHROMATIC_SHARPS;
 
@@ -193,13 +200,111 @@ export function getScaleNotes(root: string, mode: ModeName = 'ionian'): string[]
     if (rootIndex === -1) rootIndex = 0;
   }
 
-  // Build scale from pattern
-  return modeData.pattern.map(interval => {
+  // Build notes from pattern
+  return pattern.map(interval => {
     const noteIndex = (rootIndex + interval) % 12;
     return chromatic[noteIndex];
   });
 }
 
+// Scales beyond the 7 modes (pentatonics, blues, minor variants)
+export const EXTRA_SCALES = {
+  majorPentatonic: {
+    name: 'Major Pentatonic',
+    pattern: [0, 2, 4, 7, 9],
+    arpeggio: [0, 4, 7], // Major triad
+  },
+  minorPentatonic: {
+    name: 'Minor Pentatonic',
+    pattern: [0, 3, 5, 7, 10],
+    arpeggio: [0, 3, 7, 10], // m7
+  },
+  blues: {
+    name: 'Blues',
+    pattern: [0, 3, 5, 6, 7, 10],
+    arpeggio: [0, 3, 7, 10], // m7
+  },
+  harmonicMinor: {
+    name: 'Harmonic Minor',
+    pattern: [0, 2, 3, 5, 7, 8, 11],
+    arpeggio: [0, 3, 7, 11], // mMaj7
+  },
+  melodicMinor: {
+    name: 'Melodic Minor',
+    pattern: [0, 2, 3, 5, 7, 9, 11],
+    arpeggio: [0, 3, 7, 11], // mMaj7
+  },
+} as const;
+
+export type ScaleType = ModeName | keyof typeof EXTRA_SCALES;
+
+/** A scale name resolved to its root and interval patterns */
+export interface ParsedScale {
+  root: string;
+  type: ScaleType;
+  name: string;                // Display name without root (e.g., "Minor Pentatonic")
+  pattern: readonly number[];  // Scale intervals
+  arpeggio: readonly number[]; // Tonic chord intervals
+}
+
+// Scale name keywords, most specific first (matched against lowercased names)
+const SCALE_KEYWORDS: [string, ScaleType][] = [
+  ['minor pentatonic', 'minorPentatonic'],
+  ['pentatonic minor', 'minorPentatonic'],
+  ['major pentatonic', 'majorPentatonic'],
+  ['pentatonic major', 'majorPentatonic'],
+  ['pentatonic', 'majorPentatonic'],
+  ['blues', 'blues'],
+  ['harmonic minor', 'harmonicMinor'],
+  ['melodic minor', 'melodicMinor'],
+  ['natural minor', 'aeolian'],
+  ['aeolian', 'aeolian'],
+  ['ionian', 'ionian'],
+  ['dorian', 'dorian'],
+  ['phrygian', 'phrygian'],
+  ['lydian', 'lydian'],
+  ['mixolydian', 'mixolydian'],
+  ['locrian', 'locrian'],
+  ['minor', 'aeolian'],
+  ['major', 'ionian'],
+];
+
+/**
+ * Parse a scale name into root and interval patterns
+ * e.g., "A Minor Pentatonic" -> { root: "A", type: "minorPentatonic", ... }
+ * Names without a root (e.g., "Dorian") use fallbackRoot (usually the song key's root)
+ * Returns null for unrecognized scale names
+ */
+export function parseScaleName(scaleName: string, fallbackRoot: string = 'C'): ParsedScale | null {
+  const trimmed = scaleName.trim();
+  const rootMatch = trimmed.match(/^([A-G][#b]?)(?=\s|$)/);
+  const root = rootMatch ? rootMatch[1] : fallbackRoot;
+  const rest = (rootMatch ? trimmed.slice(rootMatch[1].length) : trimmed).toLowerCase();
+
+  // Lydian must not match inside Mixolydian
+  const match = SCALE_KEYWORDS.find(([keyword]) =>
+    new RegExp(`(^|\\s)${keyword}(\\s|$)`).test(rest.trim())
+  );
+  const type: ScaleType | undefined = match?.[1] ?? (rest.trim() === '' ? 'ionian' : undefined);
+  if (!type) return null;
+
+  if (type in EXTRA_SCALES) {
+    const scale = EXTRA_SCALES[type as keyof typeof EXTRA_SCALES];
+    return { root, type, name: scale.name, pattern: scale.pattern, arpeggio: scale.arpeggio };
+  }
+
+  // Modes: arpeggio stacks thirds from the scale (1-3-5-7)
+  const mode = MODES[type as ModeName];
+  const pattern = mode.pattern;
+  return {
+    root,
+    type,
+    name: mode.name.split(' / ')[0],
+    pattern,
+    arpeggio: [pattern[0], pattern[2], pattern[4], pattern[6]],
+  };
+}
+
 /**
  * Get the relative key (major <-> minor)
  */
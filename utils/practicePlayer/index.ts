@@ -0,0 +1,12 @@
+/**
+ * Practice Player Utilities
+ *
+ * Speed ladder rungs and per-loop speed history for the practice player.
+ */
+
+export {
+  getLadderRates,
+  getNextLadderRate,
+  addLoopSpeedRecord,
+  getBestLoopRate,
+} from './speedLadder';
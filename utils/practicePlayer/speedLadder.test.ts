@@ -0,0 +1,86 @@
+/**
+ * Speed Ladder Tests
+ * Validates ladder rungs and per-loop speed history
+ */
+
+import {
+  getLadderRates,
+  getNextLadderRate,
+  addLoopSpeedRecord,
+  getBestLoopRate,
+} from './speedLadder';
+import type { SavedLoop } from '@/types/practicePlayer';
+
+const loop = (speedHistory?: SavedLoop['speedHistory']): SavedLoop => ({
+  id: 'loop_1',
+  name: 'solo',
+  startMs: 1000,
+  endMs: 5000,
+  speedHistory,
+});
+
+describe('getLadderRates', () => {
+  test('climbs the playback rates from 0.5× to 1×', () => {
+    expect(getLadderRates(0.5, 1.0)).toEqual([0.5, 0.6, 0.7, 0.75, 0.8, 0.9, 1.0]);
+  });
+
+  test('stops at a lower target', () => {
+    expect(getLadderRates(0.5, 0.75)).toEqual([0.5, 0.6, 0.7, 0.75]);
+  });
+
+  test('can go past 1×', () => {
+    expect(getLadderRates(0.5, 1.25).slice(-3)).toEqual([1.0, 1.1, 1.25]);
+  });
+
+  test('falls back to the start rate when the target is below it', () => {
+    expect(getLadderRates(0.5, 0.4)).toEqual([0.5]);
+  });
+});
+
+describe('getNextLadderRate', () => {
+  const rates = [0.5, 0.6, 0.7];
+
+  test('returns the next rung up', () => {
+    expect(getNextLadderRate(rates, 0.5)).toBe(0.6);
+  });
+
+  test('returns null at the top', () => {
+    expect(getNextLadderRate(rates, 0.7)).toBeNull();
+  });
+});
+
+describe('addLoopSpeedRecord', () => {
+  test('adds a new day in date order', () => {
+    const history = [{ date: '2026-10-12', rate: 0.7 }];
+    expect(addLoopSpeedRecord(history, 0.75, '2026-10-19')).toEqual([
+      { date: '2026-10-12', rate: 0.7 },
+      { date: '2026-10-19', rate: 0.75 },
+    ]);
+  });
+
+  test('keeps the fastest rate for a day', () => {
+    const history = [{ date: '2026-10-19', rate: 0.8 }];
+    expect(addLoopSpeedRecord(history, 0.7, '2026-10-19')).toBe(history);
+    expect(addLoopSpeedRecord(history, 0.9, '2026-10-19')).toEqual([
+      { date: '2026-10-19', rate: 0.9 },
+    ]);
+  });
+});
+
+describe('getBestLoopRate', () => {
+  test('returns the fastest rate ever recorded', () => {
+    expect(
+      getBestLoopRate(
+        loop([
+          { date: '2026-10-05', rate: 0.9 },
+          { date: '2026-10-12', rate: 0.8 },
+        ])
+      )
+    ).toBe(0.9);
+  });
+
+  test('returns null without history', () => {
+    expect(getBestLoopRate(loop())).toBeNull();
+    expect(getBestLoopRate(loop([]))).toBeNull();
+  });
+});
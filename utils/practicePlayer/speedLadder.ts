@@ -0,0 +1,51 @@
+/**
+ * Speed Ladder Utilities
+ *
+ * Rate rungs for progressive-speed loop practice and the per-loop
+ * history of the fastest clean rate each day.
+ */
+
+import { PLAYBACK_RATES } from '@/types/practicePlayer';
+import type { LoopSpeedRecord, SavedLoop } from '@/types/practicePlayer';
+
+/**
+ * Playback rates from the start rate up to the target, inclusive
+ */
+export function getLadderRates(startRate: number, targetRate: number): number[] {
+  const rates: number[] = PLAYBACK_RATES.filter(
+    (rate) => rate >= startRate && rate <= targetRate
+  );
+  return rates.length > 0 ? rates : [startRate];
+}
+
+/**
+ * Next rung above a rate, or null at the top
+ */
+export function getNextLadderRate(rates: number[], rate: number): number | null {
+  return rates.find((rung) => rung > rate) ?? null;
+}
+
+/**
+ * Add a clean rate to a loop's history, keeping the fastest per day (oldest first)
+ */
+export function addLoopSpeedRecord(
+  history: LoopSpeedRecord[],
+  rate: number,
+  date: string
+): LoopSpeedRecord[] {
+  const existing = history.find((record) => record.date === date);
+  if (existing && existing.rate >= rate) return history;
+
+  return [...history.filter((record) => record.date !== date), { date, rate }].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
+
+/**
+ * Fastest clean rate ever recorded for a loop (null when it has no history)
+ */
+export function getBestLoopRate(loop: SavedLoop): number | null {
+  const history = loop.speedHistory ?? [];
+  if (history.length === 0) return null;
+  return Math.max(...history.map((record) => record.rate));
+}
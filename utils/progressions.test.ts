@@ -0,0 +1,201 @@
+/**
+ * Progression Analysis Tests
+ * Validates Roman-numeral labels, chord functions and progression matching
+ */
+
+import {
+  analyzeChord,
+  analyzeProgression,
+  getChordCirclePosition,
+} from './progressions';
+import { CIRCLE_OF_FIFTHS_MAJOR, CIRCLE_OF_FIFTHS_MINOR } from './musicTheory';
+
+const romanOf = (chord: string, key: string) => analyzeChord(chord, key)?.roman;
+const functionOf = (chord: string, key: string) => analyzeChord(chord, key)?.function;
+
+// ============================================================================
+// ROMAN NUMERALS
+// ============================================================================
+
+describe('analyzeChord in a major key', () => {
+  test.each([
+    ['C', 'I'],
+    ['Dm', 'ii'],
+    ['Em', 'iii'],
+    ['F', 'IV'],
+    ['G', 'V'],
+    ['Am', 'vi'],
+    ['Bdim', 'vii°'],
+    ['G7', 'V7'],
+    ['Cmaj7', 'Imaj7'],
+    ['Dm7', 'ii7'],
+    ['Bm7b5', 'viiø7'],
+    ['G/B', 'V'],
+  ])('%s in C Major is %s', (chord, roman) => {
+    expect(romanOf(chord, 'C Major')).toBe(roman);
+    expect(functionOf(chord, 'C Major')).toBe('diatonic');
+  });
+
+  test.each([
+    ['Bb', 'bVII'],
+    ['Ab', 'bVI'],
+    ['Eb', 'bIII'],
+    ['Fm', 'iv'],
+  ])('%s in C Major is borrowed %s', (chord, roman) => {
+    expect(romanOf(chord, 'C Major')).toBe(roman);
+    expect(functionOf(chord, 'C Major')).toBe('borrowed');
+  });
+
+  test.each([
+    ['D', 'V/V'],
+    ['D7', 'V7/V'],
+    ['E7', 'V7/vi'],
+    ['A', 'V/ii'],
+    ['C7', 'V7/IV'],
+  ])('%s in C Major is secondary dominant %s', (chord, roman) => {
+    expect(romanOf(chord, 'C Major')).toBe(roman);
+    expect(functionOf(chord, 'C Major')).toBe('secondaryDominant');
+  });
+
+  test('other chords are chromatic', () => {
+    expect(functionOf('F#', 'C Major')).toBe('chromatic');
+    expect(romanOf('F#', 'C Major')).toBe('#IV');
+  });
+
+  test('works in flat and sharp keys', () => {
+    expect(romanOf('Eb', 'Bb Major')).toBe('IV');
+    expect(romanOf('C#m', 'E Major')).toBe('vi');
+    expect(romanOf('D#m', 'F# Major')).toBe('vi');
+  });
+
+  test('sus and power chords follow the key', () => {
+    expect(romanOf('Dsus4', 'C Major')).toBe('ii');
+    expect(romanOf('G5', 'C Major')).toBe('V');
+  });
+});
+
+describe('analyzeChord in a minor key', () => {
+  test.each([
+    ['Am', 'i'],
+    ['Bdim', 'ii°'],
+    ['C', 'III'],
+    ['Dm', 'iv'],
+    ['Em', 'v'],
+    ['F', 'VI'],
+    ['G', 'VII'],
+    ['E', 'V'],
+    ['E7', 'V7'],
+    ['G#dim', 'vii°'],
+  ])('%s in A Minor is %s', (chord, roman) => {
+    expect(romanOf(chord, 'A Minor')).toBe(roman);
+    expect(functionOf(chord, 'A Minor')).toBe('diatonic');
+  });
+
+  test('chords from the parallel major are borrowed', () => {
+    expect(romanOf('D', 'A Minor')).toBe('IV');
+    expect(functionOf('D', 'A Minor')).toBe('borrowed');
+    expect(functionOf('A', 'A Minor')).toBe('borrowed');
+  });
+
+  test('dominant of V', () => {
+    expect(romanOf('B7', 'A Minor')).toBe('V7/V');
+  });
+
+  test('major chord on the raised leading tone is #VII, not the diatonic VII', () => {
+    expect(romanOf('G#', 'A Minor')).toBe('#VII');
+    expect(functionOf('G#', 'A Minor')).toBe('chromatic');
+  });
+});
+
+describe('analyzeChord input handling', () => {
+  test('unknown key returns null', () => {
+    expect(analyzeChord('C', 'Unknown')).toBeNull();
+    expect(analyzeChord('C', '')).toBeNull();
+  });
+
+  test('unreadable chord returns null', () => {
+    expect(analyzeChord('N.C.', 'C Major')).toBeNull();
+  });
+});
+
+// ============================================================================
+// CIRCLE POSITIONS
+// ============================================================================
+
+describe('getChordCirclePosition', () => {
+  test.each(['C', 'G', 'D', 'A', 'E', 'B', 'Db', 'Ab', 'Eb', 'Bb', 'F'])(
+    '%s sits on its major segment',
+    (root) => {
+      const { circleIndex, isMinorRing } = getChordCirclePosition(root, 'major');
+      expect(isMinorRing).toBe(false);
+      expect(CIRCLE_OF_FIFTHS_MAJOR[circleIndex]).toBe(root);
+    },
+  );
+
+  test.each(['Am', 'Em', 'Bm', 'F#m', 'C#m', 'G#m', 'Bbm', 'Fm', 'Cm', 'Gm', 'Dm'])(
+    '%s sits on its minor segment',
+    (chord) => {
+      const { circleIndex, isMinorRing } = getChordCirclePosition(chord.slice(0, -1), 'minor');
+      expect(isMinorRing).toBe(true);
+      expect(CIRCLE_OF_FIFTHS_MINOR[circleIndex]).toBe(chord);
+    },
+  );
+
+  test('diminished chords use the minor ring', () => {
+    expect(getChordCirclePosition('B', 'diminished').isMinorRing).toBe(true);
+  });
+});
+
+// ============================================================================
+// PROGRESSIONS
+// ============================================================================
+
+describe('analyzeProgression', () => {
+  test('labels every chord and flags non-diatonic ones', () => {
+    const analysis = analyzeProgression(['C', 'D7', 'G', 'Bb', 'F'], 'C Major')!;
+    expect(analysis.chords.map((c) => c.roman)).toEqual(['I', 'V7/V', 'V', 'bVII', 'IV']);
+    expect(analysis.nonDiatonic.map((c) => c.chord)).toEqual(['D7', 'Bb']);
+  });
+
+  test('finds the pop progression', () => {
+    const analysis = analyzeProgression(['G', 'D', 'Em', 'C'], 'G Major')!;
+    expect(analysis.progressions.map((p) => p.name)).toContain('Pop Progression');
+  });
+
+  test('finds rotations of a looped progression', () => {
+    const analysis = analyzeProgression(['Em', 'C', 'G', 'D'], 'G Major')!;
+    const names = analysis.progressions.map((p) => p.name);
+    expect(names).toContain('Sensitive Progression');
+    expect(names).toContain('Pop Progression');
+  });
+
+  test('finds ii–V–I with sevenths', () => {
+    const analysis = analyzeProgression(['Dm7', 'G7', 'Cmaj7'], 'C Major')!;
+    const match = analysis.progressions.find((p) => p.name === 'ii–V–I');
+    expect(match?.chords).toEqual(['Dm7', 'G7', 'Cmaj7']);
+  });
+
+  test('finds the Andalusian cadence in minor', () => {
+    const analysis = analyzeProgression(['Am', 'G', 'F', 'E'], 'A Minor')!;
+    expect(analysis.progressions.map((p) => p.name)).toContain('Andalusian Cadence');
+  });
+
+  test('finds the minor ii–V–i with a half-diminished ii', () => {
+    const analysis = analyzeProgression(['Bm7b5', 'E7', 'Am'], 'A Minor')!;
+    expect(analysis.progressions.map((p) => p.name)).toContain('Minor ii–V–i');
+  });
+
+  test('major progressions are not matched in minor keys', () => {
+    const analysis = analyzeProgression(['Am', 'F', 'C', 'G'], 'A Minor')!;
+    expect(analysis.progressions.map((p) => p.name)).not.toContain('Sensitive Progression');
+  });
+
+  test('returns null without a key', () => {
+    expect(analyzeProgression(['C', 'G'], 'Unknown')).toBeNull();
+  });
+
+  test('skips unreadable chords', () => {
+    const analysis = analyzeProgression(['C', 'N.C.', 'G'], 'C Major')!;
+    expect(analysis.chords).toHaveLength(2);
+  });
+});
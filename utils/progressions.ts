@@ -0,0 +1,269 @@
+/**
+ * Chord Progression Analysis
+ * Roman-numeral labels, non-diatonic chord detection, and common progression matching
+ */
+
+import { getNoteIndex } from '@/data/chords/generator/music-theory';
+import { parseKey } from './musicTheory';
+
+/** Triad family of a chord symbol */
+export type TriadQuality = 'major' | 'minor' | 'diminished' | 'augmented';
+
+/** How a chord relates to the key */
+export type ChordFunction =
+  | 'diatonic'          // Belongs to the key (minor keys include harmonic-minor V and vii°)
+  | 'borrowed'          // From the parallel major/minor (e.g., bVII or iv in a major key)
+  | 'secondaryDominant' // Dominant of another diatonic chord (e.g., V/V)
+  | 'chromatic';        // None of the above
+
+/** A song chord labelled with its function in the key */
+export interface AnalyzedChord {
+  chord: string;
+  roman: string;         // e.g., "IV", "bVII", "V7/V", "iiø7"
+  triad: TriadQuality;
+  function: ChordFunction;
+  circleIndex: number;   // Position on the circle of fifths (0 = C / Am, clockwise)
+  isMinorRing: boolean;  // Minor and diminished chords sit on the inner ring
+}
+
+/** A named progression found in the song */
+export interface ProgressionMatch {
+  name: string;
+  numerals: string[];
+  chords: string[];
+}
+
+/** Full analysis of a song's chords in its key */
+export interface ProgressionAnalysis {
+  key: string;
+  quality: 'major' | 'minor';
+  chords: AnalyzedChord[];
+  nonDiatonic: AnalyzedChord[];
+  progressions: ProgressionMatch[];
+}
+
+// Chord symbol: root, suffix, optional slash bass (e.g., "F#m7/C#")
+const CHORD_PATTERN = /^([A-G][#b]?)([^/]*)(?:\/[A-G][#b]?)?$/;
+
+// Diatonic triads by semitone above the tonic
+const MAJOR_KEY_TRIADS: Record<number, TriadQuality> = {
+  0: 'major', 2: 'minor', 4: 'minor', 5: 'major', 7: 'major', 9: 'minor', 11: 'diminished',
+};
+const MINOR_KEY_TRIADS: Record<number, TriadQuality> = {
+  0: 'minor', 2: 'diminished', 3: 'major', 5: 'minor', 7: 'minor', 8: 'major', 10: 'major',
+};
+
+// Harmonic-minor chords treated as diatonic in minor keys (V and vii°)
+const MINOR_KEY_HARMONIC: Record<number, TriadQuality> = {
+  7: 'major', 11: 'diminished',
+};
+
+// Numeral for each semitone above the tonic (accidentals relative to the key's own scale)
+const MAJOR_KEY_NUMERALS = ['I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'];
+const MINOR_KEY_NUMERALS = ['I', 'bII', 'II', 'III', '#III', 'IV', '#IV', 'V', 'VI', '#VI', 'VII', '#VII'];
+// The harmonic-minor leading-tone chord keeps its usual spelling (vii°, not #vii°)
+const MINOR_KEY_LEADING_TONE = 11;
+
+// Common progressions (numerals without sevenths)
+const COMMON_PROGRESSIONS: { name: string; numerals: string[]; quality: 'major' | 'minor' }[] = [
+  { name: 'Pop Progression', numerals: ['I', 'V', 'vi', 'IV'], quality: 'major' },
+  { name: 'Sensitive Progression', numerals: ['vi', 'IV', 'I', 'V'], quality: 'major' },
+  { name: "'50s Progression", numerals: ['I', 'vi', 'IV', 'V'], quality: 'major' },
+  { name: 'ii–V–I', numerals: ['ii', 'V', 'I'], quality: 'major' },
+  { name: 'I–IV–V', numerals: ['I', 'IV', 'V'], quality: 'major' },
+  { name: 'Mixolydian Vamp', numerals: ['I', 'bVII', 'IV'], quality: 'major' },
+  { name: 'Andalusian Cadence', numerals: ['i', 'VII', 'VI', 'V'], quality: 'minor' },
+  { name: 'Aeolian Progression', numerals: ['i', 'VI', 'VII'], quality: 'minor' },
+  { name: 'Minor ii–V–i', numerals: ['ii°', 'V', 'i'], quality: 'minor' },
+  { name: 'Minor i–iv–v', numerals: ['i', 'iv', 'v'], quality: 'minor' },
+];
+
+/**
+ * Read a chord symbol's triad and seventh from its suffix
+ * e.g., "m7b5" → diminished + "ø7", "7" → major + "7", "maj9" → major + "maj7"
+ */
+function parseChordSuffix(suffix: string): {
+  triad: TriadQuality;
+  seventh: string;
+  isSuspended: boolean; // sus and power chords have no third
+} {
+  const s = suffix.trim();
+  const isSuspended = /^(sus|5$)/.test(s);
+
+  if (/^(m7b5|min7b5|ø)/.test(s)) return { triad: 'diminished', seventh: 'ø7', isSuspended };
+  if (/^(dim|°|o(?!\w))/.test(s)) {
+    return { triad: 'diminished', seventh: /7/.test(s) ? '°7' : '', isSuspended };
+  }
+  if (/^(aug|\+)/.test(s)) {
+    return { triad: 'augmented', seventh: /7/.test(s) ? '7' : '', isSuspended };
+  }
+
+  const isMinor = /^(m(?!aj)|min|-)/.test(s);
+  const hasMaj7 = /(maj|Maj|M|Δ)(7|9|11|13)/.test(s);
+  const hasSeventh = /(7|9|11|13)/.test(s.replace(/add(9|11|13)/, ''));
+  const seventh = hasMaj7 ? 'maj7' : hasSeventh ? '7' : '';
+
+  return { triad: isMinor ? 'minor' : 'major', seventh, isSuspended };
+}
+
+/**
+ * Format a numeral for a triad quality (lowercase for minor/diminished)
+ */
+function formatNumeral(numeral: string, triad: TriadQuality, seventh: string = ''): string {
+  const accidental = numeral.match(/^[b#]?/)?.[0] ?? '';
+  const degree = numeral.slice(accidental.length);
+  const isLower = triad === 'minor' || triad === 'diminished';
+  const base = `${accidental}${isLower ? degree.toLowerCase() : degree}`;
+
+  if (triad === 'diminished') return seventh === 'ø7' ? `${base}ø7` : `${base}°${seventh ? '7' : ''}`;
+  if (triad === 'augmented') return `${base}+${seventh}`;
+  return `${base}${seventh}`;
+}
+
+/**
+ * Position of a chord on the circle of fifths (matches CIRCLE_OF_FIFTHS_MAJOR/MINOR order)
+ * Minor and diminished chords sit on the inner ring beside their relative major
+ */
+export function getChordCirclePosition(
+  root: string,
+  triad: TriadQuality,
+): { circleIndex: number; isMinorRing: boolean } {
+  const pitch = getNoteIndex(root);
+  const isMinorRing = triad === 'minor' || triad === 'diminished';
+  const relativeMajor = isMinorRing ? (pitch + 3) % 12 : pitch;
+  return { circleIndex: (relativeMajor * 7) % 12, isMinorRing };
+}
+
+/**
+ * Label a single chord with its Roman numeral and function in a key
+ * Returns null when the chord or key can't be read
+ */
+export function analyzeChord(chord: string, key: string): AnalyzedChord | null {
+  const match = chord.trim().match(CHORD_PATTERN);
+  if (!match || !key.trim()) return null;
+
+  const { root: keyRoot, quality } = parseKey(key);
+  if (!/^[A-G][#b]?$/.test(keyRoot)) return null;
+
+  const [, root, suffix] = match;
+  const parsed = parseChordSuffix(suffix);
+  const { seventh } = parsed;
+  const interval = (getNoteIndex(root) - getNoteIndex(keyRoot) + 12) % 12;
+
+  const natural = quality === 'major' ? MAJOR_KEY_TRIADS : MINOR_KEY_TRIADS;
+  const parallel = quality === 'major' ? MINOR_KEY_TRIADS : MAJOR_KEY_TRIADS;
+  const numerals = quality === 'major' ? MAJOR_KEY_NUMERALS : MINOR_KEY_NUMERALS;
+  const isDiatonic = (i: number, t: TriadQuality) =>
+    natural[i] === t || (quality === 'minor' && MINOR_KEY_HARMONIC[i] === t);
+
+  // Sus and power chords take the key's triad on that degree (Dsus4 in C reads as ii)
+  const keyTriad = natural[interval];
+  const triad: TriadQuality =
+    parsed.isSuspended && (keyTriad === 'major' || keyTriad === 'minor') ? keyTriad : parsed.triad;
+  const position = getChordCirclePosition(root, triad);
+
+  const result = (roman: string, fn: ChordFunction): AnalyzedChord => ({
+    chord,
+    roman,
+    triad,
+    function: fn,
+    ...position,
+  });
+
+  // Secondary dominant: major triad (or dominant 7th) a fifth above a diatonic chord
+  // Dominant 7ths are checked first so C7 in C reads as V7/IV, not I7
+  const getSecondaryTarget = (): string | null => {
+    if (triad !== 'major' || seventh === 'maj7') return null;
+    const target = (interval + 5) % 12;
+    const targetTriad: TriadQuality | undefined =
+      quality === 'minor' && target === 7 ? 'major' : natural[target];
+    if (target === 0 || !targetTriad || targetTriad === 'diminished') return null;
+    return formatNumeral(numerals[target], targetTriad);
+  };
+
+  const isDominantSeventh = triad === 'major' && seventh === '7';
+  const isKeyDominant = interval === 7;
+
+  if (isDominantSeventh && !isKeyDominant) {
+    const target = getSecondaryTarget();
+    if (target) return result(`V7/${target}`, 'secondaryDominant');
+  }
+
+  if (isDiatonic(interval, triad)) {
+    const numeral =
+      quality === 'minor' && interval === MINOR_KEY_LEADING_TONE ? 'VII' : numerals[interval];
+    return result(formatNumeral(numeral, triad, seventh), 'diatonic');
+  }
+
+  if (parallel[interval] === triad) {
+    // Borrowed numerals are spelled against the home key's scale (bVII, bVI, bIII in major)
+    return result(formatNumeral(numerals[interval], triad, seventh), 'borrowed');
+  }
+
+  const target = getSecondaryTarget();
+  if (target) return result(`V${seventh}/${target}`, 'secondaryDominant');
+
+  return result(formatNumeral(numerals[interval], triad, seventh), 'chromatic');
+}
+
+/**
+ * Strip sevenths so numerals can be compared to progression templates
+ * e.g., "V7" → "V", "iiø7" → "ii°", "Imaj7" → "I"
+ */
+function toTriadNumeral(roman: string): string {
+  return roman.replace('ø7', '°').replace(/°7$/, '°').replace(/(maj7|7)$/, '');
+}
+
+/**
+ * Find named progressions in the song's chord order
+ * The chord list is treated as a loop, so rotations of a repeated progression still match
+ */
+export function findCommonProgressions(
+  chords: AnalyzedChord[],
+  quality: 'major' | 'minor',
+): ProgressionMatch[] {
+  const numerals = chords.map((c) => toTriadNumeral(c.roman));
+  const n = numerals.length;
+  const matches: ProgressionMatch[] = [];
+
+  for (const progression of COMMON_PROGRESSIONS) {
+    if (progression.quality !== quality || progression.numerals.length > n) continue;
+
+    for (let start = 0; start < n; start++) {
+      const fits = progression.numerals.every(
+        (numeral, i) => numerals[(start + i) % n] === numeral,
+      );
+      if (fits) {
+        matches.push({
+          name: progression.name,
+          numerals: progression.numerals,
+          chords: progression.numerals.map((_, i) => chords[(start + i) % n].chord),
+        });
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Analyze a song's chords against its key
+ * Returns null when the key is missing or unreadable (e.g., "Unknown")
+ */
+export function analyzeProgression(chords: string[], key: string): ProgressionAnalysis | null {
+  if (!key.trim() || !/^[A-G][#b]?$/.test(parseKey(key).root)) return null;
+
+  const analyzed = chords
+    .map((chord) => analyzeChord(chord, key))
+    .filter((c): c is AnalyzedChord => c !== null);
+  const { quality } = parseKey(key);
+
+  return {
+    key,
+    quality,
+    chords: analyzed,
+    nonDiatonic: analyzed.filter((c) => c.function !== 'diatonic'),
+    progressions: findCommonProgressions(analyzed, quality),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Song Details Tests
+ * Validates mapping loaded song rows to the metronome's and tuner's songs
+ */
+
+import { toMetronomeSongDetails, toTunerSong } from './songDetails';
+
+describe('toMetronomeSongDetails', () => {
+  const row = {
+    id: 'song-1',
+    title: 'Song',
+    artist: 'Artist',
+    tempo: '128 BPM',
+    time_signature: '6/8',
+    song_structure: null,
+  };
+
+  test('parses the tempo and keeps the time signature', () => {
+    expect(toMetronomeSongDetails(row)).toEqual({
+      id: 'song-1',
+      title: 'Song',
+      artist: 'Artist',
+      tempoBpm: 128,
+      timeSignature: '6/8',
+      sections: [],
+    });
+  });
+
+  test('maps the arrangement to sections', () => {
+    const song = toMetronomeSongDetails({
+      ...row,
+      song_structure: {
+        startOffsetMs: 0,
+        sections: [
+          {
+            id: 'a',
+            type: 'chorus',
+            name: 'Chorus',
+            bars: 4,
+            repeats: 2,
+            chords: [],
+            tempoBpm: null,
+            timeSignature: null,
+            notes: '',
+          },
+        ],
+      },
+    });
+
+    expect(song.sections).toEqual([
+      { name: 'Chorus', bars: 8, bpm: null, timeSignature: null },
+    ]);
+  });
+
+  test('leaves an unknown tempo empty', () => {
+    expect(toMetronomeSongDetails({ ...row, tempo: null }).tempoBpm).toBeNull();
+  });
+});
+
+describe('toTunerSong', () => {
+  test('defaults missing chords and scales to empty lists', () => {
+    expect(
+      toTunerSong({
+        id: 'song-1',
+        title: 'Song',
+        artist: 'Artist',
+        instrument: 'Bass',
+        tuning: 'Drop D',
+        chords: null,
+        key: 'A minor',
+        scales: null,
+      })
+    ).toEqual({
+      id: 'song-1',
+      title: 'Song',
+      artist: 'Artist',
+      instrument: 'Bass',
+      tuning: 'Drop D',
+      chords: [],
+      key: 'A minor',
+      scales: [],
+    });
+  });
+});
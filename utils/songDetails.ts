@@ -0,0 +1,69 @@
+/**
+ * Song Details Utilities
+ *
+ * Song columns each practice tool loads, and how they map to the tool's song type.
+ */
+
+import { parseTempo, toMetronomeSections } from './metronome';
+import { parseArrangement } from './arrangement';
+import type { DbSong } from '@/types/database';
+import type { MetronomeSong } from '@/types/metronome';
+import type { TunerSong } from '@/types/tuner';
+
+/** Columns the metronome loads (tempo, time signature, sections) */
+export const METRONOME_SONG_COLUMNS = [
+  'id',
+  'title',
+  'artist',
+  'tempo',
+  'time_signature',
+  'song_structure',
+] as const;
+
+/** Columns the tuner and pitch trainer load (tuning, chords, key, scales) */
+export const TUNER_SONG_COLUMNS = [
+  'id',
+  'title',
+  'artist',
+  'instrument',
+  'tuning',
+  'chords',
+  'key',
+  'scales',
+] as const;
+
+/** Columns the ear trainer loads (key, for progressions) */
+export const EAR_TRAINING_SONG_COLUMNS = ['id', 'title', 'artist', 'key'] as const;
+
+/**
+ * Map a song row to the metronome's song, with its arrangement's sections
+ */
+export function toMetronomeSongDetails(
+  row: Pick<DbSong, (typeof METRONOME_SONG_COLUMNS)[number]>
+): MetronomeSong {
+  const arrangement = parseArrangement(row.song_structure);
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    tempoBpm: parseTempo(row.tempo),
+    timeSignature: row.time_signature,
+    sections: arrangement ? toMetronomeSections(arrangement) : [],
+  };
+}
+
+/**
+ * Map a song row to the tuner's song
+ */
+export function toTunerSong(row: Pick<DbSong, (typeof TUNER_SONG_COLUMNS)[number]>): TunerSong {
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    instrument: row.instrument,
+    tuning: row.tuning,
+    chords: row.chords ?? [],
+    key: row.key,
+    scales: row.scales ?? [],
+  };
+}
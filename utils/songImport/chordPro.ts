@@ -0,0 +1,39 @@
+/**
+ * ChordPro Import
+ * Read a .cho/.pro chart, with its {tempo} and {time} directives
+ */
+
+import { parseChordPro } from '../chordSheet';
+import { toImportedSong } from './song';
+import type { ChordSheet } from '@/types/chordSheet';
+import type { ImportedSong } from '@/types/songImport';
+
+/**
+ * Value of the first directive with a name (e.g., {tempo: 96})
+ */
+function getDirectiveValue(sheet: ChordSheet, name: string): string | null {
+  for (const section of sheet.sections) {
+    for (const line of section.lines) {
+      if (line.type === 'directive' && line.name === name && line.value) return line.value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether text looks like ChordPro (title/key directives or section markers)
+ */
+export function isChordProText(text: string): boolean {
+  return /^\s*\{\s*(t|title|key|start_of_[a-z]+|so[cvbt])\s*[:}]/im.test(text);
+}
+
+/**
+ * Song details from a ChordPro chart
+ */
+export function importChordPro(text: string, fileName: string): ImportedSong {
+  const sheet = parseChordPro(text);
+  return toImportedSong(sheet, fileName, {
+    tempo: getDirectiveValue(sheet, 'tempo'),
+    timeSignature: getDirectiveValue(sheet, 'time'),
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Song Import Utilities
+ *
+ * Read ChordPro, chords-over-lyrics text and MusicXML chart files into songs,
+ * and preview them before they're added to the library.
+ */
+
+export {
+  getFileExtension,
+  parseFileName,
+  normalizeImportKey,
+  normalizeImportTempo,
+  normalizeImportTimeSignature,
+  getSectionTypeFromLabel,
+  toImportedSong,
+} from './song';
+export { importChordPro, isChordProText } from './chordPro';
+export { parseTextChart, importTextChart } from './textChart';
+export { importMusicXml } from './musicXml';
+export {
+  detectImportFormat,
+  importSongFile,
+  isSameSong,
+  buildImportPreview,
+  toImportedSongRow,
+} from './preview';
@@ -0,0 +1,70 @@
+/**
+ * MusicXML Import Tests
+ * Validates reading score details, chord symbols, sections and lyrics
+ */
+
+import { importMusicXml } from './musicXml';
+
+const note = (text: string, syllabic = 'single') =>
+  `<note><pitch><step>A</step><octave>4</octave></pitch><duration>4</duration>` +
+  `<lyric number="1"><syllabic>${syllabic}</syllabic><text>${text}</text></lyric></note>`;
+
+const harmony = (step: string, kind: string, alter = '') =>
+  `<harmony><root><root-step>${step}</root-step>${alter ? `<root-alter>${alter}</root-alter>` : ''}</root>` +
+  `<kind>${kind}</kind></harmony>`;
+
+const SCORE = `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <work><work-title>Rain &amp; Shine</work-title></work>
+  <identification><creator type="composer">The Band</creator></identification>
+  <part-list><score-part id="P1"><part-name>Guitar</part-name></score-part></part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><key><fifths>0</fifths><mode>minor</mode></key>
+        <time><beats>3</beats><beat-type>4</beat-type></time></attributes>
+      <direction><direction-type><rehearsal>Verse</rehearsal></direction-type><sound tempo="96"/></direction>
+      ${harmony('A', 'minor')}${note('Hel', 'begin')}${note('lo', 'end')}
+    </measure>
+    <measure number="2">
+      ${harmony('F', 'major-seventh')}${note('rain')}
+    </measure>
+    <measure number="3">
+      <direction><direction-type><words>Chorus</words></direction-type><sound tempo="120"/></direction>
+      ${harmony('B', 'dominant', '-1')}${note('shine')}
+    </measure>
+  </part>
+</score-partwise>`;
+
+describe('importMusicXml', () => {
+  test('reads the title, composer, key, meter and tempo', () => {
+    const song = importMusicXml(SCORE, 'score.musicxml');
+    expect(song).toMatchObject({
+      title: 'Rain & Shine',
+      artist: 'The Band',
+      key: 'A Minor',
+      tempo: '96 BPM',
+      timeSignature: '3/4',
+      chords: ['Am', 'Fmaj7', 'Bb7'],
+    });
+  });
+
+  test('measures sections from rehearsal marks and section words', () => {
+    const sections = importMusicXml(SCORE, 'score.musicxml').arrangement?.sections;
+    expect(sections?.map((section) => [section.name, section.type, section.bars, section.tempoBpm])).toEqual([
+      ['Verse', 'verse', 2, null],
+      ['Chorus', 'chorus', 1, 120],
+    ]);
+    expect(sections?.[0].chords).toEqual(['Am', 'Fmaj7']);
+  });
+
+  test('joins syllables into lyrics with chords over them', () => {
+    const song = importMusicXml(SCORE, 'score.musicxml');
+    expect(song.lyrics).toBe('Hello rain\n\nshine');
+    expect(song.chordSheet).toContain('[Am]Hello [Fmaj7]rain');
+  });
+
+  test('rejects files that are not part-wise scores', () => {
+    expect(() => importMusicXml('<score-timewise/>', 'a.xml')).toThrow('part-wise');
+    expect(() => importMusicXml('<html/>', 'a.xml')).toThrow('Not a MusicXML score');
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * MusicXML Import
+ * Read an uncompressed part-wise MusicXML score (as exported by Guitar Pro,
+ * MuseScore and most notation apps): title, composer, key, meter, tempo,
+ * chord symbols, rehearsal-mark sections and first-verse lyrics.
+ * Only the first part is read; repeats are counted as written.
+ */
+
+import { createArrangementSection } from '../arrangement';
+import {
+  getSectionTypeFromLabel,
+  normalizeImportTempo,
+  normalizeImportTimeSignature,
+  toImportedSong,
+} from './song';
+import { ARRANGEMENT_CONFIG } from '@/constants/ArrangementConfig';
+import type { ArrangementSection } from '@/types/arrangement';
+import type { ChordPlacement, ChordSheet, ChordSheetSection } from '@/types/chordSheet';
+import type { ImportedSong } from '@/types/songImport';
+
+// Key roots by number of sharps (+) or flats (-), from -7 to 7
+const MAJOR_KEYS_BY_FIFTHS = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const MINOR_KEYS_BY_FIFTHS = ['Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#'];
+
+/** Chord symbol suffixes for MusicXML harmony kinds */
+const HARMONY_KIND_SUFFIXES: Record<string, string> = {
+  major: '',
+  minor: 'm',
+  augmented: 'aug',
+  diminished: 'dim',
+  dominant: '7',
+  'major-seventh': 'maj7',
+  'minor-seventh': 'm7',
+  'diminished-seventh': 'dim7',
+  'augmented-seventh': 'aug7',
+  'half-diminished': 'm7b5',
+  'major-minor': 'm(maj7)',
+  'major-sixth': '6',
+  'minor-sixth': 'm6',
+  'dominant-ninth': '9',
+  'major-ninth': 'maj9',
+  'minor-ninth': 'm9',
+  'dominant-11th': '11',
+  'major-11th': 'maj11',
+  'minor-11th': 'm11',
+  'dominant-13th': '13',
+  'major-13th': 'maj13',
+  'minor-13th': 'm13',
+  'suspended-second': 'sus2',
+  'suspended-fourth': 'sus4',
+  power: '5',
+};
+
+// Elements read in document order within a measure
+const MEASURE_ELEMENT =
+  /<harmony\b[\s\S]*?<\/harmony>|<note(?:\s[^>]*)?>[\s\S]*?<\/note>|<rehearsal\b[^>]*>[\s\S]*?<\/rehearsal>|<words\b[^>]*>[\s\S]*?<\/words>|<print\b[^>]*>|<sound\b[^>]*>|<attributes(?:\s[^>]*)?>[\s\S]*?<\/attributes>|<per-minute>[\s\S]*?<\/per-minute>/g;
+
+/** A section started by a rehearsal mark or section word */
+interface ScoreSection {
+  label: string;
+  startMeasure: number;
+  chords: string[];
+  timeSignature: string | null;
+  tempo: string | null;
+}
+
+/**
+ * Replace XML entities with the characters they stand for
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Text of the first element with a tag name, or null
+ */
+function getElementText(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  const text = match ? decodeXml(match[1]).trim() : '';
+  return text || null;
+}
+
+/**
+ * Value of an attribute in an element's opening tag, or null
+ */
+function getAttribute(xml: string, name: string): string | null {
+  const match = xml.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * Accidental for an alter value (1 -> "#", -1 -> "b")
+ */
+function getAccidental(alter: string | null): string {
+  const semitones = alter ? Math.round(parseFloat(alter)) : 0;
+  if (semitones > 0) return '#'.repeat(semitones);
+  if (semitones < 0) return 'b'.repeat(-semitones);
+  return '';
+}
+
+/**
+ * Chord symbol for a <harmony> element (e.g., "F#m7/C#"), or null for "no chord"
+ */
+function readHarmony(xml: string): string | null {
+  const rootStep = getElementText(xml, 'root-step');
+  const kindMatch = xml.match(/<kind\b([^>]*)>([\s\S]*?)<\/kind>/);
+  const kind = kindMatch ? kindMatch[2].trim() : 'major';
+  if (!rootStep || kind === 'none') return null;
+
+  const kindText = kindMatch ? getAttribute(kindMatch[0], 'text') : null;
+  const suffix = HARMONY_KIND_SUFFIXES[kind] ?? kindText ?? '';
+  const root = rootStep + getAccidental(getElementText(xml, 'root-alter'));
+  const bassStep = getElementText(xml, 'bass-step');
+  const bass = bassStep ? `/${bassStep}${getAccidental(getElementText(xml, 'bass-alter'))}` : '';
+
+  return `${root}${suffix}${bass}`;
+}
+
+/**
+ * Key as a chart would write it ("Am", "Eb") from a <key> element
+ */
+function readKey(xml: string): string | null {
+  const fifths = parseInt(getElementText(xml, 'fifths') ?? '', 10);
+  if (Number.isNaN(fifths) || fifths < -7 || fifths > 7) return null;
+  const isMinor = getElementText(xml, 'mode') === 'minor';
+  const roots = isMinor ? MINOR_KEYS_BY_FIFTHS : MAJOR_KEYS_BY_FIFTHS;
+  return `${roots[fifths + 7]}${isMinor ? 'm' : ''}`;
+}
+
+/**
+ * First-verse lyric syllable of a <note>, if any
+ */
+function readLyric(
+  xml: string
+): { text: string; syllabic: string; endsLine: boolean } | null {
+  const lyricPattern = /<lyric\b([^>]*)>([\s\S]*?)<\/lyric>/g;
+  let match: RegExpExecArray | null;
+  while ((match = lyricPattern.exec(xml)) !== null) {
+    const number = getAttribute(match[1], 'number');
+    if (number && number !== '1') continue;
+
+    const text = getElementText(match[2], 'text');
+    if (!text) return null;
+    return {
+      text,
+      syllabic: getElementText(match[2], 'syllabic') ?? 'single',
+      endsLine: /<end-(line|paragraph)\s*\/?>/.test(match[2]),
+    };
+  }
+  return null;
+}
+
+/**
+ * Song details from a MusicXML score
+ * Throws when the file isn't a part-wise score.
+ */
+export function importMusicXml(text: string, fileName: string): ImportedSong {
+  if (!/<score-partwise\b/.test(text)) {
+    throw new Error(
+      /<score-timewise\b/.test(text)
+        ? 'Time-wise MusicXML isn\'t supported; export it part-wise'
+        : 'Not a MusicXML score'
+    );
+  }
+
+  const creator = text.match(/<creator\b[^>]*type="(?:composer|artist)"[^>]*>([\s\S]*?)<\/creator>/);
+  const sheet: ChordSheet = {
+    title: getElementText(text, 'work-title') ?? getElementText(text, 'movement-title'),
+    artist: creator ? decodeXml(creator[1]).trim() || null : null,
+    key: null,
+    capo: null,
+    sections: [],
+  };
+
+  const part = text.match(/<part(?:\s[^>]*)?>([\s\S]*?)<\/part>/)?.[1] ?? '';
+  const measures = [...part.matchAll(/<measure(?:\s[^>]*)?>([\s\S]*?)<\/measure>/g)].map(
+    (match) => match[1]
+  );
+
+  let songTempo: string | null = null;
+  let songTimeSignature: string | null = null;
+  let tempo: string | null = null;
+  let timeSignature: string | null = null;
+  const scoreSections: ScoreSection[] = [];
+
+  // Chart being built: lines of syllables with chords over them
+  let chartSection: ChordSheetSection = { kind: null, label: null, lines: [] };
+  let line: { text: string; chords: ChordPlacement[] } = { text: '', chords: [] };
+  let pendingChord: string | null = null;
+  let joinNextSyllable = false;
+
+  // A chord with no syllable under it goes after the line so far
+  const placeChordAtEnd = (chord: string) => {
+    const position = line.text.length === 0 || line.text.endsWith(' ') ? line.text.length : line.text.length + 1;
+    line.text = line.text.padEnd(position + chord.length + 1);
+    line.chords.push({ position, chord });
+  };
+
+  const endLine = () => {
+    if (pendingChord) placeChordAtEnd(pendingChord);
+    pendingChord = null;
+    joinNextSyllable = false;
+    if (line.text.trim() || line.chords.length > 0) {
+      chartSection.lines.push({ type: 'lyrics', text: line.text, chords: line.chords });
+    }
+    line = { text: '', chords: [] };
+  };
+
+  const startSection = (label: string, measureIndex: number) => {
+    endLine();
+    if (chartSection.lines.length > 0 || chartSection.label) sheet.sections.push(chartSection);
+    const type = getSectionTypeFromLabel(label);
+    chartSection = {
+      kind: type === 'chorus' || type === 'bridge' ? type : 'verse',
+      label,
+      lines: [],
+    };
+    scoreSections.push({ label, startMeasure: measureIndex, chords: [], timeSignature, tempo });
+  };
+
+  measures.forEach((measure, measureIndex) => {
+    const elements = measure.match(MEASURE_ELEMENT) ?? [];
+    let sectionStarted = false;
+
+    for (const element of elements) {
+      if (element.startsWith('<attributes')) {
+        const key = element.includes('<key') ? readKey(element) : null;
+        if (key && !sheet.key) sheet.key = key;
+        const beats = getElementText(element, 'beats');
+        const beatType = getElementText(element, 'beat-type');
+        const meter = beats && beatType ? normalizeImportTimeSignature(`${beats}/${beatType}`) : null;
+        if (meter) {
+          timeSignature = meter;
+          songTimeSignature = songTimeSignature ?? meter;
+        }
+      } else if (element.startsWith('<sound') || element.startsWith('<per-minute')) {
+        const value = element.startsWith('<sound')
+          ? getAttribute(element, 'tempo')
+          : getElementText(element, 'per-minute');
+        const bpm = normalizeImportTempo(value);
+        if (bpm) {
+          tempo = bpm;
+          songTempo = songTempo ?? bpm;
+        }
+      } else if (element.startsWith('<rehearsal') || element.startsWith('<words')) {
+        const label = decodeXml(element.replace(/<[^>]+>/g, '')).trim();
+        const isMark = element.startsWith('<rehearsal');
+        const isSectionWord =
+          label.length <= ARRANGEMENT_CONFIG.maxNameLength && getSectionTypeFromLabel(label) !== null;
+        if (label && (isMark || isSectionWord) && !sectionStarted) {
+          startSection(label, measureIndex);
+          sectionStarted = true;
+        }
+      } else if (element.startsWith('<print')) {
+        if (/new-(system|page)="yes"/.test(element)) endLine();
+      } else if (element.startsWith('<harmony')) {
+        const chord = readHarmony(element);
+        if (!chord) continue;
+        if (pendingChord) placeChordAtEnd(pendingChord);
+        pendingChord = chord;
+        scoreSections[scoreSections.length - 1]?.chords.push(chord);
+      } else {
+        const lyric = readLyric(element);
+        if (!lyric) continue;
+
+        if (line.text && !joinNextSyllable && !line.text.endsWith(' ')) line.text += ' ';
+        if (pendingChord) {
+          line.chords.push({ position: line.text.length, chord: pendingChord });
+          pendingChord = null;
+        }
+        line.text += lyric.text;
+        joinNextSyllable = lyric.syllabic === 'begin' || lyric.syllabic === 'middle';
+        if (lyric.endsLine) endLine();
+      }
+    }
+
+    // Tempo and meter marked anywhere in a section's first bar belong to it
+    if (sectionStarted) {
+      const scoreSection = scoreSections[scoreSections.length - 1];
+      scoreSection.tempo = tempo;
+      scoreSection.timeSignature = timeSignature;
+    }
+  });
+
+  endLine();
+  if (chartSection.lines.length > 0 || chartSection.label) sheet.sections.push(chartSection);
+
+  const song = toImportedSong(sheet, fileName, {
+    tempo: songTempo,
+    timeSignature: songTimeSignature,
+  });
+
+  // Sections from the score, measured in bars
+  const sections = scoreSections.reduce<ArrangementSection[]>((result, scoreSection, index) => {
+    const type = getSectionTypeFromLabel(scoreSection.label) ?? 'verse';
+    const endMeasure = scoreSections[index + 1]?.startMeasure ?? measures.length;
+    const section = createArrangementSection(type, result);
+    const chords = scoreSection.chords;
+    const sectionTempo = scoreSection.tempo ?? songTempo;
+    const sectionTimeSignature = scoreSection.timeSignature ?? songTimeSignature;
+
+    return [
+      ...result,
+      {
+        ...section,
+        name: scoreSection.label.slice(0, ARRANGEMENT_CONFIG.maxNameLength),
+        bars: Math.max(1, Math.min(endMeasure - scoreSection.startMeasure, ARRANGEMENT_CONFIG.maxBars)),
+        chords: chords.filter((chord, chordIndex) => chords.indexOf(chord) === chordIndex),
+        tempoBpm: sectionTempo !== songTempo ? parseInt(sectionTempo ?? '', 10) || null : null,
+        timeSignature: sectionTimeSignature !== songTimeSignature ? sectionTimeSignature : null,
+      },
+    ];
+  }, []);
+
+  return {
+    ...song,
+    arrangement: sections.length > 0 ? { sections, startOffsetMs: 0 } : song.arrangement,
+  };
+}
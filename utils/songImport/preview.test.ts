@@ -0,0 +1,127 @@
+/**
+ * Import Preview Tests
+ * Validates format detection, ChordPro files, duplicate flagging and song rows
+ */
+
+import {
+  detectImportFormat,
+  importSongFile,
+  isSameSong,
+  buildImportPreview,
+  toImportedSongRow,
+} from './preview';
+import { parseFileName, normalizeImportKey } from './song';
+
+const CHORDPRO = `{title: Hallelujah}
+{artist: Leonard Cohen}
+{key: C}
+{tempo: 56}
+{time: 6/8}
+{start_of_verse: Verse 1}
+I've [C]heard there was a [Am]secret chord
+{end_of_verse}
+{start_of_chorus}
+Halle[F]lujah
+{end_of_chorus}`;
+
+describe('detectImportFormat', () => {
+  test('uses the extension, checking .txt files for ChordPro', () => {
+    expect(detectImportFormat('song.cho', '')).toBe('chordpro');
+    expect(detectImportFormat('song.txt', CHORDPRO)).toBe('chordpro');
+    expect(detectImportFormat('song.txt', 'Am\nHello')).toBe('text');
+    expect(detectImportFormat('song.xml', '<score-partwise>')).toBe('musicxml');
+    expect(detectImportFormat('song.xml', '<svg/>')).toBeNull();
+    expect(detectImportFormat('song.pdf', '')).toBeNull();
+  });
+});
+
+describe('importSongFile', () => {
+  test('reads ChordPro details, sections and lyrics', () => {
+    const { format, song } = importSongFile({ name: 'hallelujah.cho', text: CHORDPRO });
+    expect(format).toBe('chordpro');
+    expect(song).toMatchObject({
+      title: 'Hallelujah',
+      artist: 'Leonard Cohen',
+      key: 'C Major',
+      tempo: '56 BPM',
+      timeSignature: '6/8',
+      chords: ['C', 'Am', 'F'],
+      lyrics: "I've heard there was a secret chord\n\nHallelujah",
+    });
+    expect(song.arrangement?.sections.map((section) => section.name)).toEqual(['Verse 1', 'Chorus']);
+  });
+
+  test('explains Guitar Pro files', () => {
+    expect(() => importSongFile({ name: 'riff.gp5', text: '' })).toThrow('MusicXML');
+  });
+});
+
+describe('parseFileName', () => {
+  test('reads "Artist - Title" names', () => {
+    expect(parseFileName('Oasis - Wonderwall.txt')).toEqual({ title: 'Wonderwall', artist: 'Oasis' });
+    expect(parseFileName('my_song.cho')).toEqual({ title: 'my song', artist: null });
+  });
+});
+
+describe('normalizeImportKey', () => {
+  test('spells keys the way the app stores them', () => {
+    expect(normalizeImportKey('F#m')).toBe('F# Minor');
+    expect(normalizeImportKey('bb')).toBe('Bb Major');
+    expect(normalizeImportKey('H')).toBeNull();
+  });
+});
+
+describe('isSameSong', () => {
+  test('ignores case, punctuation and a leading "The"', () => {
+    expect(
+      isSameSong(
+        { title: "Don't Stop Believin'", artist: 'Journey' },
+        { title: 'dont stop believin', artist: 'journey' }
+      )
+    ).toBe(true);
+    expect(
+      isSameSong({ title: 'Hey Jude', artist: 'The Beatles' }, { title: 'hey jude!', artist: 'Beatles' })
+    ).toBe(true);
+  });
+
+  test('matches on title alone when the artist is unknown', () => {
+    expect(
+      isSameSong({ title: 'Hey Jude', artist: 'Unknown Artist' }, { title: 'Hey Jude', artist: 'Beatles' })
+    ).toBe(true);
+  });
+});
+
+describe('buildImportPreview', () => {
+  test('flags library and batch duplicates and unreadable files', () => {
+    const items = buildImportPreview(
+      [
+        { name: 'hallelujah.cho', text: CHORDPRO },
+        { name: 'Oasis - Wonderwall.txt', text: 'Em7 G\nToday is gonna be the day' },
+        { name: 'Oasis - Wonderwall (2).txt', text: '{title: Wonderwall}\n{artist: Oasis}\n[G]Today' },
+        { name: 'notes.pdf', text: '' },
+      ],
+      [{ title: 'Hallelujah', artist: 'Leonard Cohen' }]
+    );
+
+    expect(items.map((item) => [item.duplicate, item.selected, item.error])).toEqual([
+      ['library', false, null],
+      [null, true, null],
+      ['batch', false, null],
+      [null, false, 'Not a chord chart or MusicXML file'],
+    ]);
+  });
+});
+
+describe('toImportedSongRow', () => {
+  test('maps song details onto song columns', () => {
+    const { song } = importSongFile({ name: 'hallelujah.cho', text: CHORDPRO });
+    expect(toImportedSongRow(song, 'user-1', 'Guitar')).toMatchObject({
+      user_id: 'user-1',
+      title: 'Hallelujah',
+      instrument: 'Guitar',
+      key: 'C Major',
+      time_signature: '6/8',
+      chords: ['C', 'Am', 'F'],
+    });
+  });
+});
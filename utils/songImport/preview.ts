@@ -0,0 +1,166 @@
+/**
+ * Import Preview
+ * Detect each picked file's format, read it, flag songs already in the
+ * library (or earlier in the batch) and turn the chosen ones into song rows
+ */
+
+import { getFileExtension } from './song';
+import { importChordPro, isChordProText } from './chordPro';
+import { importTextChart } from './textChart';
+import { importMusicXml } from './musicXml';
+import {
+  SONG_IMPORT_CONFIG,
+  SONG_IMPORT_EXTENSIONS,
+  SONG_IMPORT_UNSUPPORTED,
+} from '@/constants/SongImportConfig';
+import type { Song } from '@/types/song';
+import type {
+  ImportedSong,
+  ImportedSongRow,
+  SongImportFile,
+  SongImportFormat,
+  SongImportItem,
+} from '@/types/songImport';
+
+/**
+ * Format of a chart file from its name and contents
+ * Returns null for files that aren't charts.
+ */
+export function detectImportFormat(fileName: string, text: string): SongImportFormat | null {
+  const extension = getFileExtension(fileName);
+  if (SONG_IMPORT_UNSUPPORTED[extension]) return null;
+
+  const format = SONG_IMPORT_EXTENSIONS[extension];
+  if (format === 'musicxml') return /<score-(partwise|timewise)\b/.test(text) ? 'musicxml' : null;
+  if (format === 'text' || (!format && !extension)) {
+    return isChordProText(text) ? 'chordpro' : 'text';
+  }
+  return format ?? null;
+}
+
+/**
+ * Read a chart file into song details
+ * Throws with a message for the preview when the file can't be imported.
+ */
+export function importSongFile(file: SongImportFile): {
+  format: SongImportFormat;
+  song: ImportedSong;
+} {
+  const unsupported = SONG_IMPORT_UNSUPPORTED[getFileExtension(file.name)];
+  if (unsupported) throw new Error(unsupported);
+
+  const format = detectImportFormat(file.name, file.text);
+  if (!format) throw new Error('Not a chord chart or MusicXML file');
+
+  const song =
+    format === 'chordpro'
+      ? importChordPro(file.text, file.name)
+      : format === 'musicxml'
+        ? importMusicXml(file.text, file.name)
+        : importTextChart(file.text, file.name);
+
+  if (!song.title) throw new Error('No song title found');
+  if (!song.chordSheet && song.chords.length === 0 && !song.lyrics) {
+    throw new Error('No chords or lyrics found');
+  }
+  return { format, song };
+}
+
+/**
+ * Comparable form of a title or artist: lowercase, no accents, punctuation
+ * or leading "The"
+ */
+function normalizeMatchText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+/**
+ * Whether two songs are the same (same title and artist)
+ * A song with no artist matches on title alone.
+ */
+export function isSameSong(
+  a: Pick<Song, 'title' | 'artist'>,
+  b: Pick<Song, 'title' | 'artist'>
+): boolean {
+  if (normalizeMatchText(a.title) !== normalizeMatchText(b.title)) return false;
+
+  const unknown = normalizeMatchText(SONG_IMPORT_CONFIG.unknownArtist);
+  const artistA = normalizeMatchText(a.artist);
+  const artistB = normalizeMatchText(b.artist);
+  return artistA === artistB || !artistA || !artistB || artistA === unknown || artistB === unknown;
+}
+
+/**
+ * Preview of picked files: each parsed, with duplicates of library songs or
+ * of earlier files flagged and left unselected
+ */
+export function buildImportPreview(
+  files: SongImportFile[],
+  library: Pick<Song, 'title' | 'artist'>[]
+): SongImportItem[] {
+  const items: SongImportItem[] = [];
+
+  files.forEach((file, index) => {
+    const id = `${index}_${file.name}`;
+    try {
+      const { format, song } = importSongFile(file);
+      const duplicate = library.some((existing) => isSameSong(existing, song))
+        ? 'library'
+        : items.some((item) => item.song && isSameSong(item.song, song))
+          ? 'batch'
+          : null;
+      items.push({
+        id,
+        fileName: file.name,
+        format,
+        song,
+        error: null,
+        duplicate,
+        selected: duplicate === null,
+      });
+    } catch (err) {
+      items.push({
+        id,
+        fileName: file.name,
+        format: null,
+        song: null,
+        error: err instanceof Error ? err.message : 'Could not read this file',
+        duplicate: null,
+        selected: false,
+      });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Song row to insert for an imported song
+ */
+export function toImportedSongRow(
+  song: ImportedSong,
+  userId: string,
+  instrument: ImportedSongRow['instrument']
+): ImportedSongRow {
+  return {
+    user_id: userId,
+    title: song.title,
+    artist: song.artist,
+    instrument,
+    key: song.key,
+    tempo: song.tempo,
+    time_signature: song.timeSignature,
+    chords: song.chords.length > 0 ? song.chords : null,
+    lyrics: song.lyrics,
+    chord_sheet: song.chordSheet,
+    song_structure: song.arrangement,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Imported Song Details
+ * Shared helpers turning what a chart file says (file name, key, tempo, meter,
+ * sections) into the song fields the library stores
+ */
+
+import { parseKey, formatKey } from '../musicTheory';
+import { parseTempo, parseTimeSignature, formatTimeSignature } from '../metronome';
+import { createArrangementSection } from '../arrangement';
+import { getSheetChords, serializeChordPro } from '../chordSheet';
+import { ARRANGEMENT_CONFIG } from '@/constants/ArrangementConfig';
+import { SONG_IMPORT_CONFIG } from '@/constants/SongImportConfig';
+import type { ArrangementSection, ArrangementSectionType } from '@/types/arrangement';
+import type { ChordSheet, ChordSheetSection } from '@/types/chordSheet';
+import type { ImportedSong } from '@/types/songImport';
+
+// Key root as written in charts (e.g., "F#", "Bb")
+const KEY_ROOT_PATTERN = /^[A-G][#b]?$/;
+
+// Section kinds by words in a section label, checked in order
+const SECTION_LABEL_TYPES: { pattern: RegExp; type: ArrangementSectionType }[] = [
+  { pattern: /\bpre[-\s]?chorus\b/, type: 'preChorus' },
+  { pattern: /\b(chorus|refrain|hook)\b/, type: 'chorus' },
+  { pattern: /\b(bridge|middle 8)\b/, type: 'bridge' },
+  { pattern: /\bintro\b/, type: 'intro' },
+  { pattern: /\b(outro|ending|coda)\b/, type: 'outro' },
+  { pattern: /\bsolo\b/, type: 'solo' },
+  { pattern: /\b(interlude|instrumental|break)\b/, type: 'interlude' },
+  { pattern: /\bverse\b/, type: 'verse' },
+];
+
+/**
+ * File extension, lowercased ("" when there is none)
+ */
+export function getFileExtension(fileName: string): string {
+  const match = fileName.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Title and artist from a file name ("Artist - Title.cho")
+ */
+export function parseFileName(fileName: string): { title: string; artist: string | null } {
+  const base = fileName.replace(/\.[a-z0-9]+$/i, '').replace(/_/g, ' ').trim();
+  const dash = base.indexOf(' - ');
+  if (dash > 0) {
+    return { title: base.slice(dash + 3).trim(), artist: base.slice(0, dash).trim() };
+  }
+  return { title: base, artist: null };
+}
+
+/**
+ * Key in the app's format ("Am" -> "A Minor"), or null when it can't be read
+ */
+export function normalizeImportKey(value: string | null | undefined): string | null {
+  if (!value?.trim()) return null;
+  const { root, quality } = parseKey(value.replace(/♯/g, '#').replace(/♭/g, 'b'));
+  const normalizedRoot = root.charAt(0).toUpperCase() + root.slice(1);
+  return KEY_ROOT_PATTERN.test(normalizedRoot) ? formatKey(normalizedRoot, quality) : null;
+}
+
+/**
+ * Tempo in the app's format ("120" -> "120 BPM"), or null when out of range
+ */
+export function normalizeImportTempo(value: string | null | undefined): string | null {
+  const bpm = parseTempo(value);
+  return bpm !== null ? `${bpm} BPM` : null;
+}
+
+/**
+ * Time signature as "n/d", or null when it can't be read
+ */
+export function normalizeImportTimeSignature(value: string | null | undefined): string | null {
+  const timeSignature = parseTimeSignature(value?.replace(/\s+/g, ''));
+  return timeSignature ? formatTimeSignature(timeSignature) : null;
+}
+
+/**
+ * Section kind named by a label ("Pre-Chorus 2" -> preChorus)
+ */
+export function getSectionTypeFromLabel(label: string | null): ArrangementSectionType | null {
+  if (!label) return null;
+  const normalized = label.toLowerCase();
+  return SECTION_LABEL_TYPES.find(({ pattern }) => pattern.test(normalized))?.type ?? null;
+}
+
+/**
+ * Chords in a chart section, in order of appearance
+ */
+function getSectionChords(section: ChordSheetSection): string[] {
+  return section.lines.flatMap((line) =>
+    line.type === 'lyrics' ? line.chords.map((placement) => placement.chord) : []
+  );
+}
+
+/**
+ * Arrangement sections for a chart's labelled or marked sections
+ * Charts don't count bars, so a section gets one bar per chord change.
+ */
+function getSheetArrangementSections(sheet: ChordSheet): ArrangementSection[] {
+  return sheet.sections.reduce<ArrangementSection[]>((sections, chartSection) => {
+    if (chartSection.kind === 'tab' && !chartSection.label) return sections;
+
+    const type =
+      getSectionTypeFromLabel(chartSection.label) ??
+      (chartSection.kind === 'verse' || chartSection.kind === 'chorus' || chartSection.kind === 'bridge'
+        ? chartSection.kind
+        : null);
+    if (!type) return sections;
+
+    const chords = getSectionChords(chartSection);
+    const section = createArrangementSection(type, sections);
+    return [
+      ...sections,
+      {
+        ...section,
+        name: chartSection.label?.slice(0, ARRANGEMENT_CONFIG.maxNameLength) || section.name,
+        bars:
+          chords.length > 0
+            ? Math.min(chords.length, ARRANGEMENT_CONFIG.maxBars)
+            : ARRANGEMENT_CONFIG.defaultBars,
+        chords: chords.filter((chord, index) => chords.indexOf(chord) === index),
+      },
+    ];
+  }, []);
+}
+
+/**
+ * Lyrics of a chart: its lyric lines, a blank line between sections
+ */
+function getSheetLyrics(sheet: ChordSheet): string | null {
+  const blocks = sheet.sections
+    .filter((section) => section.kind !== 'tab')
+    .map((section) =>
+      section.lines
+        .map((line) => {
+          // Chord-only lines have no lyric
+          if (line.type === 'lyrics') return line.text.trim() || null;
+          return line.type === 'empty' ? '' : null;
+        })
+        .filter((text): text is string => text !== null)
+        .join('\n')
+        .trim()
+    )
+    .filter((block) => block.length > 0);
+
+  const lyrics = blocks.join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  return lyrics || null;
+}
+
+/**
+ * Song details from a parsed chart
+ * The file name stands in for a missing title and artist.
+ */
+export function toImportedSong(
+  sheet: ChordSheet,
+  fileName: string,
+  details: { tempo?: string | null; timeSignature?: string | null } = {}
+): ImportedSong {
+  const fromFileName = parseFileName(fileName);
+  const title = sheet.title?.trim() || fromFileName.title;
+  const artist = sheet.artist?.trim() || fromFileName.artist || SONG_IMPORT_CONFIG.unknownArtist;
+  const key = normalizeImportKey(sheet.key);
+  const sections = getSheetArrangementSections(sheet);
+  const hasChart = sheet.sections.some((section) => section.lines.length > 0);
+
+  return {
+    title,
+    artist,
+    key,
+    tempo: normalizeImportTempo(details.tempo),
+    timeSignature: normalizeImportTimeSignature(details.timeSignature),
+    chords: getSheetChords(sheet),
+    arrangement: sections.length > 0 ? { sections, startOffsetMs: 0 } : null,
+    lyrics: getSheetLyrics(sheet),
+    chordSheet: hasChart ? serializeChordPro({ ...sheet, title, artist }) : null,
+  };
+}
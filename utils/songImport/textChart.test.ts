@@ -0,0 +1,104 @@
+/**
+ * Text Chart Import Tests
+ * Validates reading chords-over-lyrics charts into chord sheets and song details
+ */
+
+import { parseTextChart, importTextChart } from './textChart';
+
+const CHART = `Wonderwall Chords by Oasis
+Capo: 2
+Key: Em
+Tempo: 87 bpm
+
+[Intro]
+Em7  G  Dsus4  A7sus4
+
+[Verse 1]
+Em7           G
+Today is gonna be the day
+      Dsus4               A7sus4
+That they're gonna throw it back to you
+
+[Chorus]
+C       D     Em
+Because maybe
+
+[Solo]
+e|-----0-----|
+B|---3---3---|
+`;
+
+describe('parseTextChart', () => {
+  test('reads the site title line and song details', () => {
+    const { sheet, tempo } = parseTextChart(CHART);
+    expect(sheet.title).toBe('Wonderwall');
+    expect(sheet.artist).toBe('Oasis');
+    expect(sheet.key).toBe('Em');
+    expect(sheet.capo).toBe(2);
+    expect(tempo).toBe('87 bpm');
+  });
+
+  test('places chords over the lyric below at their columns', () => {
+    const { sheet } = parseTextChart(CHART);
+    const verse = sheet.sections.find((section) => section.label === 'Verse 1');
+    expect(verse?.lines[0]).toEqual({
+      type: 'lyrics',
+      text: 'Today is gonna be the day',
+      chords: [
+        { position: 0, chord: 'Em7' },
+        { position: 14, chord: 'G' },
+      ],
+    });
+  });
+
+  test('groups bracketed sections and tab staves', () => {
+    const { sheet } = parseTextChart(CHART);
+    expect(sheet.sections.map((section) => [section.kind, section.label])).toEqual([
+      ['verse', 'Intro'],
+      ['verse', 'Verse 1'],
+      ['chorus', 'Chorus'],
+      ['tab', 'Solo'],
+    ]);
+  });
+
+  test('reads "Intro: Am G" headers with their chords', () => {
+    const { sheet } = parseTextChart('Intro: Am G\nHello there');
+    expect(sheet.sections[0].label).toBe('Intro');
+    expect(sheet.sections[0].lines[0]).toMatchObject({
+      chords: [
+        { position: 0, chord: 'Am' },
+        { position: 3, chord: 'G' },
+      ],
+    });
+  });
+
+  test('keeps lyric lines that start with chord-like words', () => {
+    const { sheet } = parseTextChart('Am I the one\nA day in the life');
+    expect(sheet.sections[0].lines).toEqual([
+      { type: 'lyrics', text: 'Am I the one', chords: [] },
+      { type: 'lyrics', text: 'A day in the life', chords: [] },
+    ]);
+  });
+});
+
+describe('importTextChart', () => {
+  test('maps the chart onto song fields', () => {
+    const song = importTextChart(CHART, 'wonderwall.txt');
+    expect(song).toMatchObject({
+      title: 'Wonderwall',
+      artist: 'Oasis',
+      key: 'E Minor',
+      tempo: '87 BPM',
+      chords: ['Em7', 'G', 'Dsus4', 'A7sus4', 'C', 'D', 'Em'],
+    });
+    expect(song.arrangement?.sections.map((section) => [section.type, section.bars])).toEqual([
+      ['intro', 4],
+      ['verse', 4],
+      ['chorus', 3],
+      ['solo', 8],
+    ]);
+    expect(song.lyrics).toBe(
+      "Today is gonna be the day\nThat they're gonna throw it back to you\n\nBecause maybe"
+    );
+  });
+});
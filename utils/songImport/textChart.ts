@@ -0,0 +1,245 @@
+/**
+ * Text Chart Import
+ * Read plain "chords over lyrics" charts, as copied from Ultimate Guitar and
+ * most songbook sites: chord lines above lyric lines, [Verse] style headers,
+ * "Key: Am" style details and tab staves
+ */
+
+import { getSectionTypeFromLabel, toImportedSong } from './song';
+import type { ChordPlacement, ChordSheet, ChordSheetSection } from '@/types/chordSheet';
+import type { ImportedSong } from '@/types/songImport';
+
+// Chord symbol as written over lyrics (e.g., "Am7", "F#m7b5", "D/F#", "(Gsus4)")
+const CHORD_TOKEN =
+  /^\(?[A-G][#b]?(?:maj|min|m|M|dim|aug|sus|add|\+|°|ø)?\d{0,2}(?:(?:maj|add|sus|dim|aug|b|#|\+|-)?\d{1,2})*(?:\/[A-G][#b]?)?\)?$/;
+
+// Tokens a chord line can hold besides chords (bar lines, repeats, no chord)
+const CHORD_LINE_FILLER = /^(\|+|-+|\/|%|\.+|x\d+|\(x\d+\)|\d+x|N\.?C\.?)$/i;
+
+// Ultimate Guitar markup ([ch]Am[/ch], [tab]...[/tab])
+const UG_MARKUP = /\[\/?(ch|tab)\]/gi;
+
+// Header naming a section, optionally followed by its chords ("Intro: Am G")
+const SECTION_HEADER =
+  /^((?:pre[-\s]?)?(?:intro|verse|chorus|bridge|solo|outro|interlude|instrumental|refrain|ending|coda|hook|break)(?:\s*\d+)?)\s*:?\s*(.*)$/i;
+
+// Bracketed header ("[Verse 1]")
+const BRACKET_HEADER = /^\[([^\]]+)\]$/;
+
+// Song detail line ("Key: Am", "Tempo: 96 bpm")
+const DETAIL_LINE =
+  /^(title|song|artist|band|key|tempo|bpm|time|time signature|capo)\s*:\s*(.+)$/i;
+
+// Site title line ("Wonderwall Chords by Oasis")
+const SITE_TITLE_LINE = /^(.+?)\s+(?:chords|tabs?|ukulele chords|bass tabs?)\s+by\s+(.+)$/i;
+
+// Tab staff line ("e|--0--3--|")
+const TAB_LINE = /^[A-Ga-g][#b]?\s*[|:][-\d|hpbrsxXt/\\~()^.*<>= ]*$/;
+
+/**
+ * A chord line's chords with the columns they sit over
+ * Returns null when the line holds anything that isn't a chord.
+ */
+function readChordLine(line: string): ChordPlacement[] | null {
+  const chords: ChordPlacement[] = [];
+  const tokenPattern = /\S+/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(line)) !== null) {
+    const token = match[0];
+    if (CHORD_TOKEN.test(token)) {
+      chords.push({ position: match.index, chord: token.replace(/^\(|\)$/g, '') });
+    } else if (!CHORD_LINE_FILLER.test(token)) {
+      return null;
+    }
+  }
+
+  return chords.length > 0 ? chords : null;
+}
+
+/**
+ * Whether a line is a tab staff
+ */
+function isTabLine(line: string): boolean {
+  return TAB_LINE.test(line.trim()) && line.includes('-');
+}
+
+/**
+ * Section label and chords from a header line, if it is one
+ */
+function readSectionHeader(line: string): { label: string; chords: ChordPlacement[] | null } | null {
+  const bracket = line.match(BRACKET_HEADER);
+  if (bracket) {
+    const label = bracket[1].trim();
+    // A bracketed chord ("[Am]") is ChordPro, not a header
+    return label && !CHORD_TOKEN.test(label) ? { label, chords: null } : null;
+  }
+
+  const header = line.match(SECTION_HEADER);
+  if (!header) return null;
+  const rest = header[2].trim();
+  if (!rest) return { label: header[1], chords: null };
+
+  const chords = readChordLine(rest);
+  return chords ? { label: header[1], chords } : null;
+}
+
+/**
+ * Section kind a header opens ([Chorus] -> chorus; anything else is a verse
+ * with the header as its label)
+ */
+function getHeaderKind(label: string): ChordSheetSection['kind'] {
+  const type = getSectionTypeFromLabel(label);
+  return type === 'chorus' || type === 'bridge' ? type : 'verse';
+}
+
+/**
+ * Place chord line chords over the lyric line below it
+ * Leading indent is dropped from the lyric and the chords move with it;
+ * chords past the end of the lyric pad it with spaces.
+ */
+function mergeChordsAndLyric(chords: ChordPlacement[], lyric: string) {
+  const indent = lyric.length - lyric.trimStart().length;
+  const placed = chords.map(({ position, chord }) => ({
+    position: Math.max(0, position - indent),
+    chord,
+  }));
+  const text = lyric.trim();
+  const lastPosition = placed[placed.length - 1].position;
+  return { text: text.padEnd(lastPosition + 1), chords: placed };
+}
+
+/**
+ * Parse a chords-over-lyrics chart into a chord sheet
+ */
+export function parseTextChart(text: string): {
+  sheet: ChordSheet;
+  tempo: string | null;
+  timeSignature: string | null;
+} {
+  const sheet: ChordSheet = { title: null, artist: null, key: null, capo: null, sections: [] };
+  let tempo: string | null = null;
+  let timeSignature: string | null = null;
+  let section: ChordSheetSection = { kind: null, label: null, lines: [] };
+  let hasContent = false;
+
+  const startSection = (kind: ChordSheetSection['kind'], label: string | null) => {
+    if (section.lines.length > 0 || section.kind !== null) sheet.sections.push(section);
+    section = { kind, label, lines: [] };
+  };
+
+  const lines = text.replace(UG_MARKUP, '').split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\t/g, '    ').trimEnd();
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      section.lines.push({ type: 'empty' });
+      continue;
+    }
+
+    if (isTabLine(line)) {
+      if (section.kind !== 'tab') {
+        // A header right above the staff labels it ("[Solo]")
+        if (section.lines.length === 0 && section.label) {
+          section.kind = 'tab';
+        } else {
+          startSection('tab', null);
+        }
+      }
+      section.lines.push({ type: 'tab', text: trimmed });
+      hasContent = true;
+      continue;
+    }
+    if (section.kind === 'tab') startSection(null, null);
+
+    if (!hasContent) {
+      const detail = trimmed.match(DETAIL_LINE);
+      if (detail) {
+        const value = detail[2].trim();
+        switch (detail[1].toLowerCase()) {
+          case 'title':
+          case 'song':
+            sheet.title = value;
+            break;
+          case 'artist':
+          case 'band':
+            sheet.artist = value;
+            break;
+          case 'key':
+            sheet.key = value;
+            break;
+          case 'tempo':
+          case 'bpm':
+            tempo = value;
+            break;
+          case 'capo': {
+            const capo = parseInt(value, 10);
+            sheet.capo = Number.isNaN(capo) ? null : capo;
+            break;
+          }
+          default:
+            timeSignature = value;
+        }
+        continue;
+      }
+
+      const siteTitle = sheet.title ? null : trimmed.match(SITE_TITLE_LINE);
+      if (siteTitle) {
+        sheet.title = siteTitle[1].trim();
+        sheet.artist = sheet.artist ?? siteTitle[2].trim();
+        continue;
+      }
+    }
+
+    const header = readSectionHeader(trimmed);
+    if (header) {
+      startSection(getHeaderKind(header.label), header.label);
+      if (header.chords) {
+        section.lines.push({ type: 'lyrics', ...mergeChordsAndLyric(header.chords, '') });
+      }
+      hasContent = true;
+      continue;
+    }
+
+    hasContent = true;
+    const chords = readChordLine(line);
+    if (!chords) {
+      section.lines.push({ type: 'lyrics', text: trimmed, chords: [] });
+      continue;
+    }
+
+    // Chords over the next line when it's a lyric
+    const next = lines[i + 1]?.replace(/\t/g, '    ').trimEnd() ?? '';
+    const nextIsLyric =
+      !!next.trim() && !readChordLine(next) && !readSectionHeader(next.trim()) && !isTabLine(next);
+    section.lines.push({
+      type: 'lyrics',
+      ...mergeChordsAndLyric(chords, nextIsLyric ? next : ''),
+    });
+    if (nextIsLyric) i++;
+  }
+
+  if (section.lines.length > 0 || section.kind !== null) sheet.sections.push(section);
+
+  // Drop blank lines left at the ends of sections
+  sheet.sections = sheet.sections
+    .map((chartSection) => {
+      const sectionLines = [...chartSection.lines];
+      while (sectionLines[0]?.type === 'empty') sectionLines.shift();
+      while (sectionLines[sectionLines.length - 1]?.type === 'empty') sectionLines.pop();
+      return { ...chartSection, lines: sectionLines };
+    })
+    .filter((chartSection) => chartSection.lines.length > 0 || chartSection.label !== null);
+
+  return { sheet, tempo, timeSignature };
+}
+
+/**
+ * Song details from a chords-over-lyrics chart
+ */
+export function importTextChart(text: string, fileName: string): ImportedSong {
+  const { sheet, tempo, timeSignature } = parseTextChart(text);
+  return toImportedSong(sheet, fileName, { tempo, timeSignature });
+}
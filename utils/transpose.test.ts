@@ -0,0 +1,191 @@
+/**
+ * Transposition Tests
+ * Validates key/chord/scale transposition, spelling and capo suggestions
+ */
+
+import {
+  normalizeSemitones,
+  keyUsesFlats,
+  transposeKey,
+  transposeChord,
+  transposeScale,
+  transposeSong,
+  isOpenChordShape,
+  suggestCapoPositions,
+} from './transpose';
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+describe('normalizeSemitones', () => {
+  test.each([
+    [0, 0],
+    [7, -5],
+    [6, 6],
+    [-7, 5],
+    [12, 0],
+    [13, 1],
+  ])('%i → %i', (input, expected) => {
+    expect(normalizeSemitones(input)).toBe(expected);
+  });
+});
+
+describe('keyUsesFlats', () => {
+  test.each([
+    ['F Major', true],
+    ['Bb Major', true],
+    ['C Minor', true],
+    ['G Major', false],
+    ['E Minor', false],
+    ['C Major', false],
+  ])('%s → %s', (key, expected) => {
+    expect(keyUsesFlats(key)).toBe(expected);
+  });
+});
+
+describe('transposeKey', () => {
+  test.each([
+    ['G Major', 3, 'Bb Major'],
+    ['C Major', 1, 'Db Major'],
+    ['C Major', 2, 'D Major'],
+    ['E Major', -2, 'D Major'],
+    ['A Minor', 1, 'Bb Minor'],
+    ['E Minor', 4, 'G# Minor'],
+    ['Bb Major', -3, 'G Major'],
+  ])('%s + %i → %s', (key, semitones, expected) => {
+    expect(transposeKey(key, semitones)).toBe(expected);
+  });
+
+  test('keeps sharps or flats for the F#/Gb tie', () => {
+    expect(transposeKey('D Major', 4)).toBe('F# Major');
+    expect(transposeKey('Db Major', 5)).toBe('Gb Major');
+  });
+
+  test('unknown keys are returned unchanged', () => {
+    expect(transposeKey('Unknown', 2)).toBe('Unknown');
+    expect(transposeKey('', 2)).toBe('');
+  });
+});
+
+// ============================================================================
+// CHORDS AND SCALES
+// ============================================================================
+
+describe('transposeChord', () => {
+  test('keeps the chord quality', () => {
+    expect(transposeChord('Am7', 2)).toBe('Bm7');
+    expect(transposeChord('Cmaj7', 5)).toBe('Fmaj7');
+  });
+
+  test('transposes slash bass notes', () => {
+    expect(transposeChord('F#m7/C#', 2)).toBe('G#m7/D#');
+    expect(transposeChord('G/B', 3, true)).toBe('Bb/D');
+  });
+
+  test('spells with flats when asked', () => {
+    expect(transposeChord('G', 3, true)).toBe('Bb');
+    expect(transposeChord('G', 3, false)).toBe('A#');
+  });
+
+  test('accepts flat input', () => {
+    expect(transposeChord('Bb', 2)).toBe('C');
+  });
+
+  test('unrecognized names are returned unchanged', () => {
+    expect(transposeChord('N.C.', 2)).toBe('N.C.');
+  });
+});
+
+describe('transposeScale', () => {
+  test('shifts the root and keeps the scale name', () => {
+    expect(transposeScale('A Minor Pentatonic', 5)).toBe('D Minor Pentatonic');
+    expect(transposeScale('E Dorian', 1, true)).toBe('F Dorian');
+    expect(transposeScale('G Major', 1, true)).toBe('Ab Major');
+  });
+
+  test('scales without a root are returned unchanged', () => {
+    expect(transposeScale('Blues', 2)).toBe('Blues');
+  });
+});
+
+describe('transposeSong', () => {
+  const song = {
+    key: 'G Major',
+    chords: ['G', 'D/F#', 'Em', 'C'],
+    scales: ['G Major', 'E Minor Pentatonic'],
+  };
+
+  test('spells everything for the new key', () => {
+    expect(transposeSong(song, 3)).toEqual({
+      key: 'Bb Major',
+      chords: ['Bb', 'F/A', 'Gm', 'Eb'],
+      scales: ['Bb Major', 'G Minor Pentatonic'],
+    });
+  });
+
+  test('uses sharps for sharp keys', () => {
+    expect(transposeSong(song, 4).chords).toEqual(['B', 'F#/A#', 'G#m', 'E']);
+  });
+
+  test('zero or octave shifts return the song as-is', () => {
+    expect(transposeSong(song, 0)).toBe(song);
+    expect(transposeSong(song, 12)).toBe(song);
+  });
+
+  test('without a key, accidentals follow the shift direction', () => {
+    const noKey = { key: 'Unknown', chords: ['C'], scales: [] };
+    expect(transposeSong(noKey, 1).chords).toEqual(['C#']);
+    expect(transposeSong(noKey, -1).chords).toEqual(['B']);
+    expect(transposeSong(noKey, -2).chords).toEqual(['Bb']);
+  });
+});
+
+// ============================================================================
+// CAPO SUGGESTIONS
+// ============================================================================
+
+describe('isOpenChordShape', () => {
+  test.each(['G', 'C', 'Em', 'D7', 'Am7', 'Cadd9', 'G/B'])('%s is open', (chord) => {
+    expect(isOpenChordShape(chord)).toBe(true);
+  });
+
+  test.each(['F', 'Bm', 'Bb', 'F#m', 'C#'])('%s is not open', (chord) => {
+    expect(isOpenChordShape(chord)).toBe(false);
+  });
+});
+
+describe('suggestCapoPositions', () => {
+  test('Bb song with capo 3 plays G-family shapes', () => {
+    const [best] = suggestCapoPositions(['Bb', 'Eb', 'F', 'Gm'], 'Bb Major');
+    expect(best).toEqual({
+      capo: 3,
+      shapeKey: 'G Major',
+      shapes: ['G', 'C', 'D', 'Em'],
+      openShapeCount: 4,
+    });
+  });
+
+  test('suggestions beat playing without a capo', () => {
+    const chords = ['Eb', 'Ab', 'Bb', 'Cm'];
+    suggestCapoPositions(chords).forEach((suggestion) => {
+      expect(suggestion.openShapeCount).toBeGreaterThan(0);
+    });
+  });
+
+  test('songs already in open shapes get no suggestions', () => {
+    expect(suggestCapoPositions(['G', 'C', 'D', 'Em'], 'G Major')).toEqual([]);
+  });
+
+  test('respects maxSuggestions and sorts best first', () => {
+    const suggestions = suggestCapoPositions(['F#', 'B', 'C#', 'D#m'], 'F# Major', 2);
+    expect(suggestions.length).toBeLessThanOrEqual(2);
+    for (let i = 1; i < suggestions.length; i++) {
+      expect(suggestions[i - 1].openShapeCount).toBeGreaterThanOrEqual(suggestions[i].openShapeCount);
+    }
+  });
+
+  test('empty chord list returns nothing', () => {
+    expect(suggestCapoPositions([])).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Transposition Utilities
+ * Shift a song's key, chords and scales by semitones, and suggest capo positions
+ */
+
+import { transposeNote } from '@/data/chords/generator/music-theory';
+import { KEY_SIGNATURES, parseKey, getEnharmonic, formatKey } from './musicTheory';
+
+/** Theory fields affected by transposition */
+export interface TransposableTheory {
+  key: string;
+  chords: string[];
+  scales: string[];
+}
+
+/** A capo position and the chord shapes played with it */
+export interface CapoSuggestion {
+  capo: number;
+  shapeKey: string;       // Key the shapes are in (e.g., "G Major" with capo 3 in Bb)
+  shapes: string[];       // Chord shapes, in song order
+  openShapeCount: number; // How many distinct shapes are open chords
+}
+
+/** Highest capo position worth suggesting */
+const MAX_CAPO = 7;
+
+// Chord name: root, suffix, optional slash bass (e.g., "F#m7/C#")
+const CHORD_PATTERN = /^([A-G][#b]?)([^/]*)(?:\/([A-G][#b]?))?$/;
+
+// Scale name starting with a root note (e.g., "E Minor Pentatonic", "Bb Dorian")
+const SCALE_PATTERN = /^([A-G][#b]?)(\s.*)?$/;
+
+// First-position chord shapes (no barre) in standard tuning
+const OPEN_CHORD_SHAPES = new Set([
+  'C', 'D', 'E', 'G', 'A',
+  'Am', 'Dm', 'Em',
+  'A7', 'B7', 'C7', 'D7', 'E7', 'G7',
+  'Am7', 'Dm7', 'Em7',
+  'Amaj7', 'Cmaj7', 'Dmaj7', 'Emaj7', 'Fmaj7',
+  'Asus2', 'Asus4', 'Dsus2', 'Dsus4', 'Esus4',
+  'Cadd9', 'A5', 'D5', 'E5',
+]);
+
+/**
+ * Wrap a semitone offset into the -5..+6 range (the shortest way round)
+ */
+export function normalizeSemitones(semitones: number): number {
+  const wrapped = ((semitones % 12) + 12) % 12;
+  return wrapped > 6 ? wrapped - 12 : wrapped;
+}
+
+/**
+ * Check if a key string names an actual root (not empty or "Unknown")
+ */
+function hasKeyRoot(key: string): boolean {
+  return !!key.trim() && /^[A-G][#b]?$/.test(parseKey(key).root);
+}
+
+/**
+ * Spell a note with flats or sharps
+ * Natural notes are never respelled (no Cb, Fb, B#, E#)
+ */
+function spellNote(note: string, useFlats: boolean): string {
+  if (useFlats && note.includes('#')) return getEnharmonic(note) ?? note;
+  if (!useFlats && note.includes('b')) return getEnharmonic(note) ?? note;
+  return note;
+}
+
+/**
+ * Check whether a key is written with flats (e.g., "Bb Major", "F Major", "C Minor")
+ */
+export function keyUsesFlats(key: string): boolean {
+  const { root, quality } = parseKey(key);
+  const signature = KEY_SIGNATURES[quality === 'minor' ? `${root}m` : root];
+  if (signature !== undefined) return signature < 0;
+  return root.includes('b');
+}
+
+/**
+ * Transpose a key by semitones, choosing the spelling with the fewest accidentals
+ * e.g., transposeKey("G Major", 3) → "Bb Major" (not "A# Major")
+ * Keys without a recognizable root (e.g., "Unknown") are returned unchanged
+ */
+export function transposeKey(key: string, semitones: number): string {
+  if (!hasKeyRoot(key)) return key;
+  const { root, quality } = parseKey(key);
+
+  const sharpRoot = transposeNote(root, semitones);
+  const candidates = [sharpRoot, getEnharmonic(sharpRoot)].filter(
+    (candidate): candidate is string => !!candidate,
+  );
+  const signatureOf = (candidate: string) =>
+    KEY_SIGNATURES[quality === 'minor' ? `${candidate}m` : candidate];
+
+  // Fewest accidentals wins; F#/Gb ties keep the original key's direction
+  const preferFlats = keyUsesFlats(key);
+  const best = candidates
+    .filter((candidate) => signatureOf(candidate) !== undefined)
+    .sort((a, b) => {
+      const diff = Math.abs(signatureOf(a)) - Math.abs(signatureOf(b));
+      if (diff !== 0) return diff;
+      return preferFlats ? signatureOf(a) - signatureOf(b) : signatureOf(b) - signatureOf(a);
+    })[0];
+
+  return formatKey(best ?? sharpRoot, quality);
+}
+
+/**
+ * Transpose a chord name by semitones, including any slash bass note
+ * e.g., transposeChord("F#m7/C#", 2) → "G#m7/D#"
+ * Unrecognized names are returned unchanged
+ */
+export function transposeChord(chord: string, semitones: number, useFlats: boolean = false): string {
+  const match = chord.trim().match(CHORD_PATTERN);
+  if (!match) return chord;
+
+  const [, root, suffix, bass] = match;
+  const newRoot = spellNote(transposeNote(root, semitones), useFlats);
+  const newBass = bass ? `/${spellNote(transposeNote(bass, semitones), useFlats)}` : '';
+  return `${newRoot}${suffix}${newBass}`;
+}
+
+/**
+ * Transpose a scale name by semitones
+ * e.g., transposeScale("A Minor Pentatonic", 5) → "D Minor Pentatonic"
+ */
+export function transposeScale(scale: string, semitones: number, useFlats: boolean = false): string {
+  const match = scale.trim().match(SCALE_PATTERN);
+  if (!match) return scale;
+
+  const [, root, rest = ''] = match;
+  return `${spellNote(transposeNote(root, semitones), useFlats)}${rest}`;
+}
+
+/**
+ * Transpose a song's key, chords and scales, spelled for the new key
+ * Without a known key, accidentals follow the direction of the shift
+ */
+export function transposeSong(theory: TransposableTheory, semitones: number): TransposableTheory {
+  if (normalizeSemitones(semitones) === 0) return theory;
+
+  const key = transposeKey(theory.key, semitones);
+  const useFlats = hasKeyRoot(theory.key) ? keyUsesFlats(key) : semitones < 0;
+
+  return {
+    key,
+    chords: theory.chords.map((chord) => transposeChord(chord, semitones, useFlats)),
+    scales: theory.scales.map((scale) => transposeScale(scale, semitones, useFlats)),
+  };
+}
+
+/**
+ * Check if a chord can be played as an open (first-position) shape
+ */
+export function isOpenChordShape(chord: string): boolean {
+  const match = chord.trim().match(CHORD_PATTERN);
+  if (!match) return false;
+  return OPEN_CHORD_SHAPES.has(`${spellNote(match[1], false)}${match[2]}`);
+}
+
+/**
+ * Suggest capo positions that turn a song's chords into open shapes
+ * Only positions with more open shapes than playing without a capo are returned,
+ * best first (ties go to the lower capo)
+ */
+export function suggestCapoPositions(
+  chords: string[],
+  key: string = '',
+  maxSuggestions: number = 3,
+): CapoSuggestion[] {
+  const uniqueChords = [...new Set(chords)];
+  if (uniqueChords.length === 0) return [];
+
+  const countOpen = (shapes: string[]) => shapes.filter(isOpenChordShape).length;
+  const baseline = countOpen(uniqueChords);
+
+  const suggestions: CapoSuggestion[] = [];
+  for (let capo = 1; capo <= MAX_CAPO; capo++) {
+    const openShapeCount = countOpen(uniqueChords.map((chord) => transposeChord(chord, -capo)));
+    if (openShapeCount <= baseline) continue;
+
+    suggestions.push({
+      capo,
+      shapeKey: transposeKey(key, -capo),
+      shapes: chords.map((chord) => transposeChord(chord, -capo)),
+      openShapeCount,
+    });
+  }
+
+  return suggestions
+    .sort((a, b) => b.openShapeCount - a.openShapeCount || a.capo - b.capo)
+    .slice(0, maxSuggestions);
+}
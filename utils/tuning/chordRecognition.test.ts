@@ -0,0 +1,193 @@
+/**
+ * Chord Recognition Tests
+ * Validates chroma extraction and chord template matching
+ */
+
+import {
+  getChordName,
+  getChordTemplate,
+  computeChroma,
+  smoothChroma,
+  getChordSimilarity,
+  matchChord,
+  scoreChord,
+  getPracticeChords,
+  getChordDiagramInstrument,
+} from './chordRecognition';
+import {
+  TUNER_SAMPLE_RATE,
+  SLOW_FFT_SIZE,
+  CHORD_RECOGNITION_CONFIG,
+  CHORD_PRACTICE_CONFIG,
+} from '@/constants/TunerConfig';
+
+const BIN_WIDTH = TUNER_SAMPLE_RATE / SLOW_FFT_SIZE;
+
+/** Frequency of a MIDI note at the given A4 */
+const midiToFrequency = (midi: number, a4 = 440) => a4 * Math.pow(2, (midi - 69) / 12);
+
+/**
+ * Byte spectrum of a chord: each partial is a parabolic peak (in dB)
+ * a few bins wide, like a windowed sinusoid's main lobe.
+ */
+function chordSpectrum(midiNotes: number[], harmonics = 4, a4 = 440): Uint8Array {
+  const spectrum = new Uint8Array(SLOW_FFT_SIZE / 2);
+  midiNotes.forEach((midi) => {
+    for (let h = 1; h <= harmonics; h++) {
+      const center = (midiToFrequency(midi, a4) * h) / BIN_WIDTH;
+      const peak = 220 - h * 12;
+      for (let bin = Math.floor(center) - 3; bin <= Math.ceil(center) + 3; bin++) {
+        const level = peak - 12 * Math.pow(bin - center, 2);
+        spectrum[bin] = Math.max(spectrum[bin], Math.max(0, Math.round(level)));
+      }
+    }
+  });
+  return spectrum;
+}
+
+// Open-position voicings (MIDI notes, low to high)
+const OPEN_C = [48, 52, 55, 60, 64]; // x32010
+const OPEN_AM = [45, 52, 57, 60, 64]; // x02210
+const OPEN_G7 = [43, 47, 50, 55, 59, 65]; // 320001
+const OPEN_E = [40, 47, 52, 56, 59, 64]; // 022100
+
+const chromaOf = (midiNotes: number[], a4?: number) =>
+  computeChroma(chordSpectrum(midiNotes, 4, a4), a4) as number[];
+
+describe('getChordName', () => {
+  test('writes common formulas the usual way', () => {
+    expect(getChordName('C', 'major')).toBe('C');
+    expect(getChordName('A', 'minor')).toBe('Am');
+    expect(getChordName('B', 'diminished')).toBe('Bdim');
+    expect(getChordName('F#', 'maj7')).toBe('F#maj7');
+  });
+});
+
+describe('getChordTemplate', () => {
+  test('weights chord tones above their overtones, wrapping past B', () => {
+    const template = getChordTemplate(9, [0, 3, 7]); // A minor
+    const chordTones = [template[9], template[0], template[4]];
+    expect(template).toHaveLength(12);
+    // B is only E's third harmonic
+    chordTones.forEach((weight) => expect(weight).toBeGreaterThan(template[11]));
+    expect(template[11]).toBeCloseTo(Math.pow(CHORD_RECOGNITION_CONFIG.harmonicDecay, 2));
+    expect(template[1]).toBe(0);
+  });
+
+  test('folds extensions into the octave', () => {
+    expect(getChordTemplate(0, [0, 4, 7, 14])[2]).toBeGreaterThan(1);
+  });
+});
+
+describe('computeChroma', () => {
+  test('returns null for silence', () => {
+    expect(computeChroma(new Uint8Array(SLOW_FFT_SIZE / 2))).toBeNull();
+  });
+
+  test('puts the energy on the played notes', () => {
+    const chroma = computeChroma(chordSpectrum([57], 1)) as number[]; // A3 alone
+    expect(chroma[9]).toBe(1);
+    expect(chroma.filter((v) => v > 0)).toHaveLength(1);
+  });
+
+  test('follows the calibrated reference', () => {
+    // A3 at A4=432 is still an A
+    const chroma = computeChroma(chordSpectrum([57], 1, 432), 432) as number[];
+    expect(chroma[9]).toBe(1);
+  });
+
+  test('ignores peaks below the level threshold', () => {
+    const spectrum = chordSpectrum([57], 1);
+    const quiet = spectrum.map((v) => Math.min(v, CHORD_RECOGNITION_CONFIG.minLevel - 1));
+    expect(computeChroma(quiet)).toBeNull();
+  });
+});
+
+describe('smoothChroma', () => {
+  test('starts from the first reading and keeps it through silence', () => {
+    const reading = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+    expect(smoothChroma(null, reading)).toEqual(reading);
+    expect(smoothChroma(reading, null)).toEqual(reading);
+  });
+
+  test('moves part way toward the new reading', () => {
+    const previous = new Array(12).fill(0);
+    const next = new Array(12).fill(1);
+    const smoothed = smoothChroma(previous, next) as number[];
+    expect(smoothed[0]).toBeCloseTo(CHORD_RECOGNITION_CONFIG.smoothing);
+  });
+});
+
+describe('getChordSimilarity', () => {
+  test('is 1 for an exact match and 0 for no shared notes', () => {
+    const template = getChordTemplate(0, [0, 4, 7]);
+    expect(getChordSimilarity(template, template)).toBeCloseTo(1);
+    expect(getChordSimilarity([0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], template)).toBe(0);
+    expect(getChordSimilarity(new Array(12).fill(0), template)).toBe(0);
+  });
+});
+
+describe('matchChord', () => {
+  test('recognizes open chords', () => {
+    expect(matchChord(chromaOf(OPEN_C))?.name).toBe('C');
+    expect(matchChord(chromaOf(OPEN_AM))?.name).toBe('Am');
+    expect(matchChord(chromaOf(OPEN_G7))?.name).toBe('G7');
+    expect(matchChord(chromaOf(OPEN_E))?.name).toBe('E');
+  });
+
+  test('reports root and formula', () => {
+    const match = matchChord(chromaOf(OPEN_AM));
+    expect(match?.root).toBe('A');
+    expect(match?.formula).toBe('minor');
+    expect(match?.score).toBeGreaterThanOrEqual(CHORD_RECOGNITION_CONFIG.minScore);
+  });
+
+  test('returns null when nothing matches well', () => {
+    const cluster = [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1];
+    expect(matchChord(cluster)).toBeNull();
+  });
+});
+
+describe('scoreChord', () => {
+  test('scores the played chord above others', () => {
+    const chroma = chromaOf(OPEN_C);
+    const c = scoreChord(chroma, 'C') as number;
+    expect(c).toBeGreaterThan(scoreChord(chroma, 'Am') as number);
+    expect(c).toBeGreaterThan(scoreChord(chroma, 'G') as number);
+  });
+
+  test('separates a practice hit from a neighbouring chord', () => {
+    const chroma = chromaOf(OPEN_C);
+    expect(scoreChord(chroma, 'C')).toBeGreaterThanOrEqual(CHORD_PRACTICE_CONFIG.hitScore);
+    expect(scoreChord(chroma, 'Am')).toBeLessThan(CHORD_PRACTICE_CONFIG.hitScore);
+    expect(scoreChord(chroma, 'Em')).toBeLessThan(CHORD_PRACTICE_CONFIG.hitScore);
+  });
+
+  test('accepts flats and aliases', () => {
+    const chroma = getChordTemplate(10, [0, 4, 7]);
+    expect(scoreChord(chroma, 'Bb')).toBeCloseTo(1);
+    expect(scoreChord(getChordTemplate(9, [0, 3, 7]), 'Amin')).toBeCloseTo(1);
+  });
+
+  test('returns null for names that are not chords', () => {
+    expect(scoreChord(new Array(12).fill(1), 'X')).toBeNull();
+  });
+});
+
+describe('getPracticeChords', () => {
+  test('keeps order and drops repeats, blanks and unknown names', () => {
+    expect(getPracticeChords(['G', 'Em', ' ', 'G', 'C', 'H', 'D '])).toEqual([
+      'G',
+      'Em',
+      'C',
+      'D',
+    ]);
+  });
+});
+
+describe('getChordDiagramInstrument', () => {
+  test('maps tuner instruments to diagram instruments', () => {
+    expect(getChordDiagramInstrument('guitar7')).toBe('guitar');
+    expect(getChordDiagramInstrument('bass5')).toBe('bass');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Chord Recognition Utilities
+ *
+ * "What chord am I playing": folds the spectral peaks of the analyser's byte
+ * frequency spectrum (SLOW_FFT_SIZE window) into a 12-note chroma vector and
+ * compares it with a template for every root and CHORD_FORMULAS entry.
+ * Templates include the overtones each chord tone adds to the chroma, so a
+ * plain triad isn't mistaken for a richer chord. Chords sharing the same notes
+ * (e.g., C6 and Am7) can't be told apart.
+ */
+
+import {
+  A4_FREQUENCY,
+  TUNER_SAMPLE_RATE,
+  SLOW_FFT_SIZE,
+  CHORD_RECOGNITION_CONFIG,
+  type InstrumentType,
+} from '@/constants/TunerConfig';
+import { NOTES, CHORD_FORMULAS } from '@/data/chords/generator/music-theory';
+import { parseChordName } from '@/data/chords/generator';
+import type { ChordMatch } from '@/types/tuner';
+
+/** Index of A in NOTES (chroma is ordered C to B) */
+const A_INDEX = 9;
+
+/** Chord name suffix for formula keys that aren't written as-is */
+const FORMULA_SUFFIXES: Record<string, string> = {
+  major: '',
+  minor: 'm',
+  diminished: 'dim',
+  augmented: 'aug',
+};
+
+/** Semitones above the fundamental of harmonics 1-4 (octave, twelfth, double octave) */
+const HARMONIC_SEMITONES = [0, 12, 19, 24];
+
+/**
+ * Chord name for a root and formula key (e.g., "A" + "minor" → "Am")
+ */
+export function getChordName(root: string, formula: string): string {
+  return `${root}${FORMULA_SUFFIXES[formula] ?? formula}`;
+}
+
+/**
+ * 12-note template (C to B) for a chord
+ * Each chord tone contributes its first harmonics, weaker by
+ * CHORD_RECOGNITION_CONFIG.harmonicDecay per harmonic.
+ */
+export function getChordTemplate(rootIndex: number, intervals: number[]): number[] {
+  const template = new Array<number>(12).fill(0);
+  new Set(intervals.map((interval) => (rootIndex + interval) % 12)).forEach((pitchClass) => {
+    HARMONIC_SEMITONES.forEach((semitones, i) => {
+      template[(pitchClass + semitones) % 12] += Math.pow(CHORD_RECOGNITION_CONFIG.harmonicDecay, i);
+    });
+  });
+  return template;
+}
+
+/**
+ * Chroma vector (C to B, strongest note = 1) from a byte frequency spectrum
+ * Each spectral peak adds its level above the threshold to its nearest note;
+ * the byte spectrum is already in dB, which keeps loud notes from drowning
+ * out the rest. Returns null when no peak is strong enough.
+ */
+export function computeChroma(
+  spectrum: Uint8Array,
+  referencePitch: number = A4_FREQUENCY,
+  sampleRate: number = TUNER_SAMPLE_RATE,
+  fftSize: number = SLOW_FFT_SIZE
+): number[] | null {
+  const binWidth = sampleRate / fftSize;
+  const low = Math.max(1, Math.floor(CHORD_RECOGNITION_CONFIG.minFrequency / binWidth));
+  const high = Math.min(
+    spectrum.length - 2,
+    Math.ceil(CHORD_RECOGNITION_CONFIG.maxFrequency / binWidth)
+  );
+  const chroma = new Array<number>(12).fill(0);
+
+  for (let bin = low; bin <= high; bin++) {
+    const level = spectrum[bin];
+    const before = spectrum[bin - 1];
+    const after = spectrum[bin + 1];
+    if (level < CHORD_RECOGNITION_CONFIG.minLevel || level <= before || level < after) continue;
+
+    // Parabolic interpolation through the peak and its neighbours
+    const curvature = before - 2 * level + after;
+    const offset = curvature === 0 ? 0 : (0.5 * (before - after)) / curvature;
+    const frequency = (bin + offset) * binWidth;
+
+    const semitones = Math.round(12 * Math.log2(frequency / referencePitch));
+    const pitchClass = (((semitones + A_INDEX) % 12) + 12) % 12;
+    chroma[pitchClass] += level - CHORD_RECOGNITION_CONFIG.minLevel + 1;
+  }
+
+  const max = Math.max(...chroma);
+  if (max === 0) return null;
+  return chroma.map((value) => value / max);
+}
+
+/**
+ * Blend a new chroma reading into the running one
+ * Silence keeps the last reading.
+ */
+export function smoothChroma(previous: number[] | null, next: number[] | null): number[] | null {
+  if (!next) return previous;
+  if (!previous) return next;
+  return previous.map(
+    (value, i) => value + CHORD_RECOGNITION_CONFIG.smoothing * (next[i] - value)
+  );
+}
+
+/**
+ * Cosine similarity between a chroma vector and a chord template (0-1)
+ */
+export function getChordSimilarity(chroma: number[], template: number[]): number {
+  let dot = 0;
+  let chromaNorm = 0;
+  let templateNorm = 0;
+  for (let i = 0; i < 12; i++) {
+    dot += chroma[i] * template[i];
+    chromaNorm += chroma[i] * chroma[i];
+    templateNorm += template[i] * template[i];
+  }
+  if (chromaNorm === 0 || templateNorm === 0) return 0;
+  return dot / Math.sqrt(chromaNorm * templateNorm);
+}
+
+/**
+ * Best-matching chord for a chroma vector
+ * Returns null below CHORD_RECOGNITION_CONFIG.minScore.
+ */
+export function matchChord(chroma: number[]): ChordMatch | null {
+  let best: ChordMatch | null = null;
+
+  for (const [formula, intervals] of Object.entries(CHORD_FORMULAS)) {
+    for (let rootIndex = 0; rootIndex < 12; rootIndex++) {
+      const score = getChordSimilarity(chroma, getChordTemplate(rootIndex, intervals));
+      if (!best || score > best.score) {
+        const root = NOTES[rootIndex];
+        best = { root, formula, name: getChordName(root, formula), score };
+      }
+    }
+  }
+
+  return best && best.score >= CHORD_RECOGNITION_CONFIG.minScore ? best : null;
+}
+
+/**
+ * Similarity between a chroma vector and a named chord (null if the name can't be parsed)
+ */
+export function scoreChord(chroma: number[], chordName: string): number | null {
+  const parsed = parseChordName(chordName);
+  const intervals = parsed ? CHORD_FORMULAS[parsed.quality] : undefined;
+  if (!parsed || !intervals) return null;
+
+  return getChordSimilarity(
+    chroma,
+    getChordTemplate(NOTES.indexOf(parsed.root), intervals)
+  );
+}
+
+/**
+ * Song chords to practice, in order, without repeats or names that can't be parsed
+ */
+export function getPracticeChords(chords: string[]): string[] {
+  const seen = new Set<string>();
+  return chords
+    .map((chord) => chord.trim())
+    .filter((chord) => {
+      if (!chord || seen.has(chord) || !parseChordName(chord)) return false;
+      seen.add(chord);
+      return true;
+    });
+}
+
+/**
+ * Chord diagram instrument for a tuner instrument
+ */
+export function getChordDiagramInstrument(instrument: InstrumentType): 'guitar' | 'bass' {
+  return instrument.startsWith('bass') ? 'bass' : 'guitar';
+}
@@ -17,7 +17,8 @@ import { Colors } from '@/constants/Colors';
 /**
  * Get color based on tuning deviation in cents
  *
- * @param cents - Deviation from target note in cents (positive = sharp, negative = flat)
+ * @param cents - Deviation from target note in cents (positive = sharp, negative = flat),
+ *   measured against the calibrated A4 reference (see getReferenceStrings / frequencyToNote)
  * @param isInTune - Override flag that returns green regardless of cents value
  * @returns Hex color string
  */
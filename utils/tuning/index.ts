@@ -5,3 +5,64 @@
  */
 
 export { getDeviationColor, getDeviationGlowColor } from './getDeviationColor';
+export {
+  getStandardTuning,
+  getTuningsForInstrument,
+  findTunerTuning,
+  getSongTunerInstrument,
+  getStringNotes,
+  formatTuningNotes,
+  transposeString,
+} from './tunings';
+export {
+  clampReferencePitch,
+  getReferenceStrings,
+  getCalibrationFrequency,
+  getCalibrationReference,
+} from './reference';
+export {
+  STROBE_PERIOD,
+  getStrobeSpeed,
+  advanceStrobeOffset,
+} from './strobe';
+export {
+  getIntonationOrder,
+  matchesIntonationString,
+  getIntonationCents,
+  getSaddleAdjustment,
+  getSaddleAdjustmentLabel,
+  formatIntonationCents,
+  getSteadyFrequency,
+  createIntonationResult,
+  groupIntonationChecks,
+} from './intonation';
+export {
+  findSpectralPeak,
+  getStrumHarmonics,
+  analyzeStrum,
+  smoothStrumResults,
+  getStrumStatus,
+} from './strum';
+export {
+  getChordName,
+  getChordTemplate,
+  computeChroma,
+  smoothChroma,
+  getChordSimilarity,
+  matchChord,
+  scoreChord,
+  getPracticeChords,
+  getChordDiagramInstrument,
+} from './chordRecognition';
+export {
+  createTrainerNote,
+  getTrainerNotes,
+  getScaleTrainerNotes,
+  getToneFrequency,
+  getTargetCents,
+  scorePitchHold,
+  getSessionAverage,
+  trimPitchTrace,
+  getPitchTraceSegments,
+  getTrainingProgress,
+} from './pitchTrainer';
@@ -0,0 +1,128 @@
+/**
+ * Intonation Tests
+ * Validates 12th-fret comparison, saddle advice and note capture
+ */
+
+import {
+  getIntonationOrder,
+  matchesIntonationString,
+  getIntonationCents,
+  getSaddleAdjustment,
+  getSaddleAdjustmentLabel,
+  formatIntonationCents,
+  getSteadyFrequency,
+  createIntonationResult,
+  groupIntonationChecks,
+} from './intonation';
+import { GUITAR_STANDARD, BASS_4_STANDARD, INTONATION_CONFIG } from '@/constants/TunerConfig';
+import type { IntonationCheck } from '@/types/tuner';
+
+const centsAbove = (frequency: number, cents: number) => frequency * Math.pow(2, cents / 1200);
+
+describe('getIntonationOrder', () => {
+  test('checks the lowest string first', () => {
+    expect(getIntonationOrder(GUITAR_STANDARD).map((str) => str.number)).toEqual([6, 5, 4, 3, 2, 1]);
+  });
+});
+
+describe('matchesIntonationString', () => {
+  const lowE = GUITAR_STANDARD[5];
+
+  test('accepts the 12th-fret octave of the string', () => {
+    expect(matchesIntonationString(164.81, lowE, GUITAR_STANDARD)).toBe(true);
+    expect(matchesIntonationString(centsAbove(164.81, 20), lowE, GUITAR_STANDARD)).toBe(true);
+  });
+
+  test('rejects the open string and other strings', () => {
+    expect(matchesIntonationString(220, lowE, GUITAR_STANDARD)).toBe(false);
+    expect(matchesIntonationString(0, lowE, GUITAR_STANDARD)).toBe(false);
+  });
+
+  test('works for bass', () => {
+    expect(matchesIntonationString(82.41, BASS_4_STANDARD[3], BASS_4_STANDARD)).toBe(true);
+  });
+});
+
+describe('getIntonationCents', () => {
+  test('is positive when the fretted note is sharp', () => {
+    expect(getIntonationCents(220, centsAbove(220, 4))).toBeCloseTo(4, 5);
+    expect(getIntonationCents(220, centsAbove(220, -3))).toBeCloseTo(-3, 5);
+  });
+});
+
+describe('getSaddleAdjustment', () => {
+  test('moves the saddle back when sharp and forward when flat', () => {
+    expect(getSaddleAdjustment(5)).toBe('back');
+    expect(getSaddleAdjustment(-5)).toBe('forward');
+  });
+
+  test('needs no adjustment within tolerance', () => {
+    expect(getSaddleAdjustment(INTONATION_CONFIG.toleranceCents)).toBe('none');
+    expect(getSaddleAdjustment(-1)).toBe('none');
+  });
+
+  test('labels each adjustment', () => {
+    expect(getSaddleAdjustmentLabel('back')).toMatch(/away from neck/);
+    expect(getSaddleAdjustmentLabel('forward')).toMatch(/toward neck/);
+    expect(getSaddleAdjustmentLabel('none')).toBe('Intonation OK');
+  });
+});
+
+describe('formatIntonationCents', () => {
+  test('shows a sign and one decimal', () => {
+    expect(formatIntonationCents(3.24)).toBe('+3.2¢');
+    expect(formatIntonationCents(-0.96)).toBe('-1.0¢');
+    expect(formatIntonationCents(0.01)).toBe('0.0¢');
+  });
+});
+
+describe('getSteadyFrequency', () => {
+  const sustain = (frequency: number, count = INTONATION_CONFIG.minSamples) =>
+    Array.from({ length: count }, (_, i) => centsAbove(frequency, i % 2 ? 0.5 : -0.5));
+
+  test('waits for enough samples', () => {
+    expect(getSteadyFrequency(sustain(220, INTONATION_CONFIG.minSamples - 1))).toBeNull();
+  });
+
+  test('captures a sustained note from the most recent samples', () => {
+    expect(getSteadyFrequency([...sustain(110, 5), ...sustain(220)])).toBeCloseTo(220, 0);
+  });
+
+  test('rejects unsteady pitch', () => {
+    const wobble = Array.from({ length: INTONATION_CONFIG.minSamples }, (_, i) =>
+      i % 2 ? 220 : 222
+    );
+    expect(getSteadyFrequency(wobble)).toBeNull();
+  });
+});
+
+describe('createIntonationResult', () => {
+  test('records both notes and the difference', () => {
+    const result = createIntonationResult(GUITAR_STANDARD[5], 164.81, centsAbove(164.81, 6));
+    expect(result).toMatchObject({ stringNumber: 6, note: 'E', octave: 2, harmonicFrequency: 164.81 });
+    expect(result.cents).toBe(6);
+  });
+});
+
+describe('groupIntonationChecks', () => {
+  const check = (id: string, instrumentName: string, checkedAt: string): IntonationCheck => ({
+    id,
+    instrumentName,
+    instrument: 'guitar',
+    tuningName: 'Standard',
+    referencePitch: 440,
+    results: [],
+    checkedAt,
+  });
+
+  test('groups by instrument name, newest first', () => {
+    const groups = groupIntonationChecks([
+      check('1', 'Strat', '2026-01-10T10:00:00Z'),
+      check('2', 'Les Paul', '2026-03-01T10:00:00Z'),
+      check('3', 'strat ', '2026-06-01T10:00:00Z'),
+    ]);
+
+    expect(groups.map((group) => group.instrumentName)).toEqual(['strat ', 'Les Paul']);
+    expect(groups[0].checks.map((c) => c.id)).toEqual(['3', '1']);
+  });
+});
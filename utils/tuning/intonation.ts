@@ -0,0 +1,125 @@
+/**
+ * Intonation Utilities
+ *
+ * Guided intonation check: for each string the fretted 12th-fret note is
+ * compared against the 12th-fret harmonic. A sharp fretted note means the
+ * saddle moves back (away from the neck); a flat one moves it forward.
+ */
+
+import {
+  INTONATION_CONFIG,
+  findClosestString,
+  type StringConfig,
+} from '@/constants/TunerConfig';
+import type { IntonationCheck, IntonationResult, SaddleAdjustment } from '@/types/tuner';
+
+/**
+ * Strings in check order (lowest string first)
+ */
+export function getIntonationOrder(strings: StringConfig[]): StringConfig[] {
+  return [...strings].sort((a, b) => b.number - a.number);
+}
+
+/**
+ * Whether a 12th-fret note (harmonic or fretted) belongs to the given string
+ * Compares the note an octave down against the open strings.
+ */
+export function matchesIntonationString(
+  frequency: number,
+  target: StringConfig,
+  strings: StringConfig[]
+): boolean {
+  if (frequency <= 0) return false;
+  return findClosestString(frequency / 2, strings)?.string.number === target.number;
+}
+
+/**
+ * Fretted note relative to the harmonic (cents, positive = sharp)
+ */
+export function getIntonationCents(harmonicFrequency: number, frettedFrequency: number): number {
+  return 1200 * Math.log2(frettedFrequency / harmonicFrequency);
+}
+
+/**
+ * Saddle adjustment for a fretted-vs-harmonic difference
+ */
+export function getSaddleAdjustment(cents: number): SaddleAdjustment {
+  if (Math.abs(cents) <= INTONATION_CONFIG.toleranceCents) return 'none';
+  return cents > 0 ? 'back' : 'forward';
+}
+
+/**
+ * Instruction for a saddle adjustment
+ */
+export function getSaddleAdjustmentLabel(adjustment: SaddleAdjustment): string {
+  switch (adjustment) {
+    case 'back':
+      return 'Move saddle back (away from neck)';
+    case 'forward':
+      return 'Move saddle forward (toward neck)';
+    default:
+      return 'Intonation OK';
+  }
+}
+
+/**
+ * Format an intonation difference (e.g., "+3.2¢")
+ */
+export function formatIntonationCents(cents: number): string {
+  const rounded = Math.round(cents * 10) / 10;
+  const sign = rounded > 0 ? '+' : '';
+  return `${sign}${rounded.toFixed(1)}¢`;
+}
+
+/**
+ * Captured frequency from a run of detected frequencies (most recent last)
+ * Returns null until the last INTONATION_CONFIG.minSamples frames are steady.
+ */
+export function getSteadyFrequency(samples: number[]): number | null {
+  if (samples.length < INTONATION_CONFIG.minSamples) return null;
+
+  const recent = samples.slice(-INTONATION_CONFIG.minSamples).sort((a, b) => a - b);
+  const spreadCents = 1200 * Math.log2(recent[recent.length - 1] / recent[0]);
+  if (spreadCents > INTONATION_CONFIG.maxSpreadCents) return null;
+
+  return recent[Math.floor(recent.length / 2)];
+}
+
+/**
+ * Build a string's result from its captured harmonic and fretted notes
+ */
+export function createIntonationResult(
+  string: StringConfig,
+  harmonicFrequency: number,
+  frettedFrequency: number
+): IntonationResult {
+  return {
+    stringNumber: string.number,
+    note: string.note,
+    octave: string.octave,
+    harmonicFrequency: Math.round(harmonicFrequency * 100) / 100,
+    frettedFrequency: Math.round(frettedFrequency * 100) / 100,
+    cents: Math.round(getIntonationCents(harmonicFrequency, frettedFrequency) * 10) / 10,
+  };
+}
+
+/**
+ * Group saved checks by instrument name so setups can be compared over time
+ * Instruments and their checks are ordered newest first.
+ */
+export function groupIntonationChecks(
+  checks: IntonationCheck[]
+): { instrumentName: string; checks: IntonationCheck[] }[] {
+  const sorted = [...checks].sort((a, b) => b.checkedAt.localeCompare(a.checkedAt));
+  const groups = new Map<string, IntonationCheck[]>();
+
+  sorted.forEach((check) => {
+    const key = check.instrumentName.trim().toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), check]);
+  });
+
+  return Array.from(groups.values()).map((group) => ({
+    instrumentName: group[0].instrumentName,
+    checks: group,
+  }));
+}
@@ -0,0 +1,226 @@
+/**
+ * Pitch Trainer Tests
+ * Validates trainer note ranges, song scale targets and hold scoring
+ */
+
+import {
+  createTrainerNote,
+  getTrainerNotes,
+  getScaleTrainerNotes,
+  getToneFrequency,
+  getTargetCents,
+  scorePitchHold,
+  getSessionAverage,
+  trimPitchTrace,
+  getPitchTraceSegments,
+  getTrainingProgress,
+} from './pitchTrainer';
+import { PITCH_TRAINER_CONFIG, PITCH_TRAINER_RANGES } from '@/constants/TunerConfig';
+import type { PitchAttempt, PitchTrainingSession } from '@/types/tuner';
+
+const A3 = createTrainerNote(57);
+
+const hold = (cents: number[], repeat = PITCH_TRAINER_CONFIG.minSamples) =>
+  Array.from({ length: repeat }, (_, i) => cents[i % cents.length]);
+
+const attempt = (score: number): PitchAttempt => ({
+  note: 'A',
+  octave: 3,
+  score,
+  meanCents: 0,
+  spreadCents: 0,
+  inWindowRatio: 1,
+});
+
+const session = (
+  instrument: PitchTrainingSession['instrument'],
+  averageScore: number,
+  practicedAt: string
+): PitchTrainingSession => ({
+  id: practicedAt,
+  instrument,
+  windowCents: 10,
+  referencePitch: 440,
+  songTitle: null,
+  attempts: [],
+  averageScore,
+  practicedAt,
+});
+
+describe('createTrainerNote', () => {
+  test('names the note and follows the reference', () => {
+    expect(A3).toMatchObject({ note: 'A', octave: 3, midi: 57 });
+    expect(A3.frequency).toBeCloseTo(220);
+    expect(createTrainerNote(57, 432).frequency).toBeCloseTo(216);
+  });
+});
+
+describe('getTrainerNotes', () => {
+  test('covers the instrument range chromatically', () => {
+    const notes = getTrainerNotes('vocals');
+    const { lowMidi, highMidi } = PITCH_TRAINER_RANGES.vocals;
+    expect(notes).toHaveLength(highMidi - lowMidi + 1);
+    expect(notes[0]).toMatchObject({ note: 'C', octave: 3 });
+    expect(notes[notes.length - 1]).toMatchObject({ note: 'C', octave: 5 });
+  });
+
+  test('starts fretless bass at low E', () => {
+    expect(getTrainerNotes('bass')[0]).toMatchObject({ note: 'E', octave: 1 });
+  });
+});
+
+describe('getScaleTrainerNotes', () => {
+  test('returns one octave of the scale from the lowest root', () => {
+    const notes = getScaleTrainerNotes('A Minor Pentatonic', null, 'vocals');
+    expect(notes.map((n) => `${n.note}${n.octave}`)).toEqual([
+      'A3',
+      'C4',
+      'D4',
+      'E4',
+      'G4',
+      'A4',
+    ]);
+  });
+
+  test('uses the song key for scales without a root', () => {
+    const notes = getScaleTrainerNotes('Dorian', 'D', 'vocals');
+    expect(notes[0]).toMatchObject({ note: 'D', octave: 3 });
+    expect(notes).toHaveLength(8);
+  });
+
+  test('reads flat roots', () => {
+    const notes = getScaleTrainerNotes('Bb Major', null, 'bass');
+    expect(notes[0].note).toBe('A#');
+    expect(notes.map((n) => n.note)).toContain('D#');
+  });
+
+  test('returns nothing for unknown scales', () => {
+    expect(getScaleTrainerNotes('Whole Tone Madness', null, 'vocals')).toEqual([]);
+  });
+});
+
+describe('getToneFrequency', () => {
+  test('plays bass targets an octave up', () => {
+    const lowE = createTrainerNote(28);
+    expect(getToneFrequency(lowE, 'bass')).toBeCloseTo(lowE.frequency * 2);
+    expect(getToneFrequency(A3, 'vocals')).toBeCloseTo(A3.frequency);
+  });
+});
+
+describe('getTargetCents', () => {
+  test('measures sharp and flat deviation', () => {
+    expect(getTargetCents(A3.frequency * Math.pow(2, 12 / 1200), A3)).toBeCloseTo(12);
+    expect(getTargetCents(A3.frequency * Math.pow(2, -30 / 1200), A3)).toBeCloseTo(-30);
+  });
+
+  test('ignores octave errors', () => {
+    expect(getTargetCents(A3.frequency * 2, A3)).toBeCloseTo(0);
+    expect(getTargetCents((A3.frequency / 2) * Math.pow(2, 5 / 1200), A3)).toBeCloseTo(5);
+  });
+});
+
+describe('scorePitchHold', () => {
+  test('needs enough pitch frames', () => {
+    expect(scorePitchHold([0, 0, 0], 10)).toBeNull();
+  });
+
+  test('gives a perfect, steady hold full marks', () => {
+    expect(scorePitchHold(hold([0]), 10)).toEqual({
+      score: 100,
+      meanCents: 0,
+      spreadCents: 0,
+      inWindowRatio: 1,
+    });
+  });
+
+  test('scores a wobbly hold below a steady one at the same average', () => {
+    const steady = scorePitchHold(hold([4]), 10);
+    const wobbly = scorePitchHold(hold([-16, 24]), 10);
+    expect(wobbly?.meanCents).toBeCloseTo(4);
+    expect(wobbly?.spreadCents).toBeCloseTo(20);
+    expect(wobbly!.score).toBeLessThan(steady!.score);
+  });
+
+  test('counts time inside the window', () => {
+    const result = scorePitchHold(hold([0, 0, 0, 30]), 10);
+    expect(result?.inWindowRatio).toBeCloseTo(0.77, 1);
+  });
+
+  test('a narrower window is harder', () => {
+    const cents = hold([7, -7]);
+    expect(scorePitchHold(cents, 5)!.score).toBeLessThan(scorePitchHold(cents, 10)!.score);
+  });
+});
+
+describe('getSessionAverage', () => {
+  test('averages attempt scores', () => {
+    expect(getSessionAverage([attempt(80), attempt(91)])).toBe(86);
+    expect(getSessionAverage([])).toBe(0);
+  });
+});
+
+describe('trimPitchTrace', () => {
+  test('keeps only the visible seconds', () => {
+    const now = 100000;
+    const span = PITCH_TRAINER_CONFIG.traceSeconds * 1000;
+    const trace = [
+      { time: now - span - 1, cents: 1 },
+      { time: now - span, cents: 2 },
+      { time: now, cents: null },
+    ];
+    expect(trimPitchTrace(trace, now).map((s) => s.cents)).toEqual([2, null]);
+  });
+});
+
+describe('getPitchTraceSegments', () => {
+  test('places the newest sample at the right edge and the target in the middle', () => {
+    const now = 10000;
+    const span = PITCH_TRAINER_CONFIG.traceSeconds * 1000;
+    const [segment] = getPitchTraceSegments(
+      [
+        { time: now - span / 2, cents: 50 },
+        { time: now, cents: 0 },
+      ],
+      200,
+      100,
+      50
+    );
+    expect(segment).toEqual([
+      { x: 100, y: 0 },
+      { x: 200, y: 50 },
+    ]);
+  });
+
+  test('breaks the line at silence and clamps to the range', () => {
+    const segments = getPitchTraceSegments(
+      [
+        { time: 0, cents: -80 },
+        { time: 10, cents: null },
+        { time: 20, cents: 10 },
+        { time: 30, cents: 10 },
+      ],
+      200,
+      100,
+      50
+    );
+    expect(segments).toHaveLength(2);
+    expect(segments[0][0].y).toBe(100);
+    expect(segments[1]).toHaveLength(2);
+  });
+
+  test('is empty without samples', () => {
+    expect(getPitchTraceSegments([], 200, 100, 50)).toEqual([]);
+  });
+});
+
+describe('getTrainingProgress', () => {
+  test('lists averages for one instrument, oldest first', () => {
+    const sessions = [
+      session('vocals', 70, '2026-10-03T10:00:00Z'),
+      session('bass', 50, '2026-10-02T10:00:00Z'),
+      session('vocals', 60, '2026-10-01T10:00:00Z'),
+    ];
+    expect(getTrainingProgress(sessions, 'vocals')).toEqual([60, 70]);
+    expect(getTrainingProgress(sessions, 'vocals', 1)).toEqual([70]);
+  });
+});
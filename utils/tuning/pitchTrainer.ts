@@ -0,0 +1,190 @@
+/**
+ * Pitch Trainer Utilities
+ *
+ * Pitch-accuracy training for singers and fretless bass: a target note is
+ * played, then scored on how closely (average deviation), how steadily
+ * (spread) and how much of the time it was held inside a cent window.
+ * Deviation is measured against the nearest octave of the target, so a
+ * singer pitching the note an octave away still scores.
+ */
+
+import {
+  A4_FREQUENCY,
+  NOTE_NAMES,
+  PITCH_TRAINER_CONFIG,
+  PITCH_TRAINER_RANGES,
+  midiToFrequency,
+} from '@/constants/TunerConfig';
+import { parseKey, parseScaleName } from '@/utils/musicTheory';
+import { getNoteIndex } from '@/data/chords/generator/music-theory';
+import type {
+  PitchAttempt,
+  PitchTraceSample,
+  PitchTrainingSession,
+  TrainerInstrument,
+  TrainerNote,
+} from '@/types/tuner';
+
+/**
+ * Trainer note for a MIDI note at the calibrated reference
+ */
+export function createTrainerNote(midi: number, a4Frequency: number = A4_FREQUENCY): TrainerNote {
+  return {
+    note: NOTE_NAMES[((midi % 12) + 12) % 12],
+    octave: Math.floor(midi / 12) - 1,
+    midi,
+    frequency: midiToFrequency(midi, a4Frequency),
+  };
+}
+
+/**
+ * Every chromatic note in an instrument's trainer range, lowest first
+ */
+export function getTrainerNotes(
+  instrument: TrainerInstrument,
+  a4Frequency: number = A4_FREQUENCY
+): TrainerNote[] {
+  const { lowMidi, highMidi } = PITCH_TRAINER_RANGES[instrument];
+  return Array.from({ length: highMidi - lowMidi + 1 }, (_, i) =>
+    createTrainerNote(lowMidi + i, a4Frequency)
+  );
+}
+
+/**
+ * One octave of a song scale (root to root) inside the instrument's range
+ * Scale names without a root use the song key's root. Falls back to every
+ * scale note in range when a full octave doesn't fit; empty for unknown scales.
+ */
+export function getScaleTrainerNotes(
+  scaleName: string,
+  songKey: string | null,
+  instrument: TrainerInstrument,
+  a4Frequency: number = A4_FREQUENCY
+): TrainerNote[] {
+  const fallbackRoot = songKey ? parseKey(songKey).root : 'C';
+  const scale = parseScaleName(scaleName, fallbackRoot);
+  if (!scale) return [];
+
+  const rootIndex = getNoteIndex(scale.root);
+  const pitchClasses = scale.pattern.map((interval) => (rootIndex + interval) % 12);
+  const inScale = getTrainerNotes(instrument, a4Frequency).filter((note) =>
+    pitchClasses.includes(note.midi % 12)
+  );
+
+  const firstRoot = inScale.find((note) => note.midi % 12 === rootIndex);
+  const octave = firstRoot
+    ? inScale.filter((note) => note.midi >= firstRoot.midi && note.midi <= firstRoot.midi + 12)
+    : [];
+  return octave.length === scale.pattern.length + 1 ? octave : inScale;
+}
+
+/**
+ * Reference tone frequency for a target (shifted up for instruments too low for a phone speaker)
+ */
+export function getToneFrequency(target: TrainerNote, instrument: TrainerInstrument): number {
+  return target.frequency * Math.pow(2, PITCH_TRAINER_RANGES[instrument].toneOctaveShift);
+}
+
+/**
+ * Deviation of a frequency from the nearest octave of the target (cents, positive = sharp)
+ */
+export function getTargetCents(frequency: number, target: TrainerNote): number {
+  const cents = 1200 * Math.log2(frequency / target.frequency);
+  return cents - 1200 * Math.round(cents / 1200);
+}
+
+/**
+ * Score a held note from its deviations (cents, in the order heard)
+ * Time in the window counts for half the score, closeness and steadiness a
+ * quarter each. Returns null with fewer than PITCH_TRAINER_CONFIG.minSamples.
+ */
+export function scorePitchHold(
+  cents: number[],
+  windowCents: number
+): Omit<PitchAttempt, 'note' | 'octave'> | null {
+  if (cents.length < PITCH_TRAINER_CONFIG.minSamples) return null;
+
+  const meanCents = cents.reduce((sum, value) => sum + value, 0) / cents.length;
+  const meanAbsCents = cents.reduce((sum, value) => sum + Math.abs(value), 0) / cents.length;
+  const spreadCents = Math.sqrt(
+    cents.reduce((sum, value) => sum + Math.pow(value - meanCents, 2), 0) / cents.length
+  );
+  const inWindowRatio = cents.filter((value) => Math.abs(value) <= windowCents).length / cents.length;
+
+  const closeness = Math.max(0, 1 - meanAbsCents / PITCH_TRAINER_CONFIG.maxMeanCents);
+  const steadiness = Math.max(0, 1 - spreadCents / PITCH_TRAINER_CONFIG.maxSpreadCents);
+
+  return {
+    score: Math.round(100 * (0.5 * inWindowRatio + 0.25 * closeness + 0.25 * steadiness)),
+    meanCents: Math.round(meanCents * 10) / 10,
+    spreadCents: Math.round(spreadCents * 10) / 10,
+    inWindowRatio: Math.round(inWindowRatio * 100) / 100,
+  };
+}
+
+/**
+ * Average attempt score (0 for no attempts)
+ */
+export function getSessionAverage(attempts: PitchAttempt[]): number {
+  if (attempts.length === 0) return 0;
+  return Math.round(attempts.reduce((sum, attempt) => sum + attempt.score, 0) / attempts.length);
+}
+
+/**
+ * Drop trace samples older than PITCH_TRAINER_CONFIG.traceSeconds
+ */
+export function trimPitchTrace(trace: PitchTraceSample[], now: number): PitchTraceSample[] {
+  const cutoff = now - PITCH_TRAINER_CONFIG.traceSeconds * 1000;
+  return trace.filter((sample) => sample.time >= cutoff);
+}
+
+/**
+ * Pitch trace as line segments in a width x height box
+ * Newest sample at the right edge, PITCH_TRAINER_CONFIG.traceSeconds across;
+ * the target runs through the middle and rangeCents reaches the top and bottom.
+ * Silence (null cents) breaks the line.
+ */
+export function getPitchTraceSegments(
+  trace: PitchTraceSample[],
+  width: number,
+  height: number,
+  rangeCents: number
+): { x: number; y: number }[][] {
+  if (trace.length === 0) return [];
+
+  const now = trace[trace.length - 1].time;
+  const spanMs = PITCH_TRAINER_CONFIG.traceSeconds * 1000;
+  const segments: { x: number; y: number }[][] = [];
+  let segment: { x: number; y: number }[] = [];
+
+  trace.forEach((sample) => {
+    if (sample.cents === null) {
+      if (segment.length > 0) segments.push(segment);
+      segment = [];
+      return;
+    }
+    const clamped = Math.max(-rangeCents, Math.min(rangeCents, sample.cents));
+    segment.push({
+      x: width - ((now - sample.time) / spanMs) * width,
+      y: height / 2 - (clamped / rangeCents) * (height / 2),
+    });
+  });
+  if (segment.length > 0) segments.push(segment);
+
+  return segments;
+}
+
+/**
+ * Session averages for an instrument, oldest first (for a progress chart)
+ */
+export function getTrainingProgress(
+  sessions: PitchTrainingSession[],
+  instrument: TrainerInstrument,
+  limit: number = 10
+): number[] {
+  return sessions
+    .filter((session) => session.instrument === instrument)
+    .sort((a, b) => a.practicedAt.localeCompare(b.practicedAt))
+    .slice(-limit)
+    .map((session) => session.averageScore);
+}
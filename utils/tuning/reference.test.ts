@@ -0,0 +1,87 @@
+/**
+ * Reference Pitch Tests
+ * Validates A4 calibration, string retargeting and auto-calibration
+ */
+
+import {
+  clampReferencePitch,
+  getReferenceStrings,
+  getCalibrationFrequency,
+  getCalibrationReference,
+} from './reference';
+import {
+  GUITAR_STANDARD,
+  CALIBRATION_CONFIG,
+  frequencyToNote,
+  midiToFrequency,
+} from '@/constants/TunerConfig';
+
+describe('clampReferencePitch', () => {
+  test('rounds to whole Hz within 415-466', () => {
+    expect(clampReferencePitch(441.6)).toBe(442);
+    expect(clampReferencePitch(400)).toBe(415);
+    expect(clampReferencePitch(480)).toBe(466);
+  });
+});
+
+describe('getReferenceStrings', () => {
+  test('leaves strings unchanged at 440', () => {
+    expect(getReferenceStrings(GUITAR_STANDARD, 440)).toBe(GUITAR_STANDARD);
+  });
+
+  test('scales targets to the reference', () => {
+    const strings = getReferenceStrings(GUITAR_STANDARD, 442);
+    expect(strings[4]).toMatchObject({ note: 'A', octave: 2, frequency: 110.5 });
+    expect(strings[0].frequency).toBeCloseTo(331.13, 2);
+  });
+});
+
+describe('reference-aware note math', () => {
+  test('a pianist at A4 = 442 reads in tune', () => {
+    expect(frequencyToNote(442, 442)).toMatchObject({ note: 'A', octave: 4 });
+    expect(frequencyToNote(442, 442).cents).toBeCloseTo(0, 5);
+    expect(frequencyToNote(442).cents).toBeCloseTo(7.85, 1);
+  });
+
+  test('midiToFrequency uses the reference', () => {
+    expect(midiToFrequency(69, 432)).toBe(432);
+    expect(midiToFrequency(57, 432)).toBe(216);
+  });
+});
+
+describe('getCalibrationFrequency', () => {
+  test('moves any A into the A4 octave', () => {
+    expect(getCalibrationFrequency(110.5)).toBeCloseTo(442, 5);
+    expect(getCalibrationFrequency(864)).toBeCloseTo(432, 5);
+  });
+
+  test('rejects notes that are not an A', () => {
+    expect(getCalibrationFrequency(329.63)).toBeNull();
+    expect(getCalibrationFrequency(0)).toBeNull();
+  });
+});
+
+describe('getCalibrationReference', () => {
+  const sustain = (frequency: number, count = CALIBRATION_CONFIG.minSamples) =>
+    Array.from({ length: count }, (_, i) => frequency * (1 + (i % 2 ? 0.0005 : -0.0005)));
+
+  test('waits for enough samples', () => {
+    expect(getCalibrationReference(sustain(442, CALIBRATION_CONFIG.minSamples - 1))).toBeNull();
+  });
+
+  test('sets the reference from a sustained A on any octave', () => {
+    expect(getCalibrationReference(sustain(442))).toBe(442);
+    expect(getCalibrationReference(sustain(108))).toBe(432);
+  });
+
+  test('uses only the most recent samples', () => {
+    expect(getCalibrationReference([...sustain(329.63, 5), ...sustain(441)])).toBe(441);
+  });
+
+  test('rejects unsteady pitch', () => {
+    const wobble = Array.from({ length: CALIBRATION_CONFIG.minSamples }, (_, i) =>
+      i % 2 ? 440 : 445
+    );
+    expect(getCalibrationReference(wobble)).toBeNull();
+  });
+});
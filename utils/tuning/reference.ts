@@ -0,0 +1,63 @@
+/**
+ * Reference Pitch Utilities
+ *
+ * Calibrated A4 reference (415-466 Hz): clamping, retargeting strings,
+ * and auto-calibration from a sustained A.
+ */
+
+import {
+  A4_FREQUENCY,
+  A4_MIN_FREQUENCY,
+  A4_MAX_FREQUENCY,
+  CALIBRATION_CONFIG,
+  type StringConfig,
+} from '@/constants/TunerConfig';
+
+/**
+ * Round and clamp a reference pitch to the supported range (whole Hz)
+ */
+export function clampReferencePitch(a4Frequency: number): number {
+  return Math.max(A4_MIN_FREQUENCY, Math.min(A4_MAX_FREQUENCY, Math.round(a4Frequency)));
+}
+
+/**
+ * Retarget strings (defined at A4 = 440) to a calibrated reference
+ */
+export function getReferenceStrings(strings: StringConfig[], a4Frequency: number): StringConfig[] {
+  if (a4Frequency === A4_FREQUENCY) return strings;
+
+  const ratio = a4Frequency / A4_FREQUENCY;
+  return strings.map((str) => ({
+    ...str,
+    frequency: Math.round(str.frequency * ratio * 100) / 100,
+  }));
+}
+
+/**
+ * Move a detected A into the A4 octave for calibration
+ * Returns null when the pitch isn't an A within the calibration range.
+ */
+export function getCalibrationFrequency(frequency: number): number | null {
+  if (frequency <= 0) return null;
+
+  const octaves = Math.round(Math.log2(A4_FREQUENCY / frequency));
+  const a4 = frequency * Math.pow(2, octaves);
+  return a4 >= A4_MIN_FREQUENCY && a4 <= A4_MAX_FREQUENCY ? a4 : null;
+}
+
+/**
+ * Reference pitch from a run of detected frequencies (most recent last)
+ * Returns null until the last CALIBRATION_CONFIG.minSamples frames are a steady A.
+ */
+export function getCalibrationReference(samples: number[]): number | null {
+  if (samples.length < CALIBRATION_CONFIG.minSamples) return null;
+
+  const recent = samples.slice(-CALIBRATION_CONFIG.minSamples).map(getCalibrationFrequency);
+  if (recent.some((value) => value === null)) return null;
+
+  const sorted = (recent as number[]).sort((a, b) => a - b);
+  const spreadCents = 1200 * Math.log2(sorted[sorted.length - 1] / sorted[0]);
+  if (spreadCents > CALIBRATION_CONFIG.maxSpreadCents) return null;
+
+  return clampReferencePitch(sorted[Math.floor(sorted.length / 2)]);
+}
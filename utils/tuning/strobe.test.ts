@@ -0,0 +1,50 @@
+/**
+ * Strobe Tuner Tests
+ * Validates band speed and scroll wrapping for the strobe display
+ */
+
+import { STROBE_PERIOD, getStrobeSpeed, advanceStrobeOffset } from './strobe';
+import { STROBE_CONFIG } from '@/constants/TunerConfig';
+
+describe('getStrobeSpeed', () => {
+  test('is proportional to the cents deviation', () => {
+    expect(getStrobeSpeed(1)).toBe(STROBE_CONFIG.pxPerSecondPerCent);
+    expect(getStrobeSpeed(10)).toBe(getStrobeSpeed(1) * 10);
+  });
+
+  test('drifts left when flat and right when sharp', () => {
+    expect(getStrobeSpeed(-3)).toBeLessThan(0);
+    expect(getStrobeSpeed(3)).toBeGreaterThan(0);
+  });
+
+  test('moves visibly within ±1 cent', () => {
+    expect(Math.abs(getStrobeSpeed(0.5))).toBeGreaterThan(0);
+    expect(getStrobeSpeed(0.25)).toBeCloseTo(STROBE_CONFIG.pxPerSecondPerCent / 4, 5);
+  });
+
+  test('stands still in tune or without pitch', () => {
+    expect(getStrobeSpeed(0)).toBe(0);
+    expect(getStrobeSpeed(null)).toBe(0);
+    expect(getStrobeSpeed(NaN)).toBe(0);
+  });
+
+  test('caps the speed far out of tune', () => {
+    expect(getStrobeSpeed(200)).toBe(getStrobeSpeed(STROBE_CONFIG.maxCents));
+    expect(getStrobeSpeed(-200)).toBe(getStrobeSpeed(-STROBE_CONFIG.maxCents));
+  });
+});
+
+describe('advanceStrobeOffset', () => {
+  test('moves by speed × elapsed time', () => {
+    expect(advanceStrobeOffset(0, 8, 500)).toBe(4);
+  });
+
+  test('wraps within one band period in both directions', () => {
+    expect(advanceStrobeOffset(STROBE_PERIOD - 1, 4, 500)).toBeCloseTo(1, 5);
+    expect(advanceStrobeOffset(1, -4, 500)).toBeCloseTo(STROBE_PERIOD - 1, 5);
+  });
+
+  test('holds position when stopped', () => {
+    expect(advanceStrobeOffset(5, 0, 16)).toBe(5);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Strobe Tuner Utilities
+ *
+ * Band speed and scroll position for the strobe display. Bands drift left
+ * when flat, right when sharp, and stand still only when exactly in tune.
+ */
+
+import { STROBE_CONFIG } from '@/constants/TunerConfig';
+
+/** Distance after which the band pattern repeats (px) */
+export const STROBE_PERIOD = STROBE_CONFIG.bandWidth * 2;
+
+/**
+ * Band scroll speed for a cents deviation (px/s, negative = flat)
+ * Returns 0 when there is no pitch.
+ */
+export function getStrobeSpeed(cents: number | null): number {
+  if (cents === null || !Number.isFinite(cents)) return 0;
+
+  const clamped = Math.max(-STROBE_CONFIG.maxCents, Math.min(STROBE_CONFIG.maxCents, cents));
+  return clamped * STROBE_CONFIG.pxPerSecondPerCent;
+}
+
+/**
+ * Advance a band offset by one frame, wrapped to [0, STROBE_PERIOD)
+ * Runs on the UI thread from the strobe's frame callback.
+ */
+export function advanceStrobeOffset(offset: number, speed: number, elapsedMs: number): number {
+  'worklet';
+  const next = (offset + (speed * elapsedMs) / 1000) % STROBE_PERIOD;
+  return next < 0 ? next + STROBE_PERIOD : next;
+}
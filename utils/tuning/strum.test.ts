@@ -0,0 +1,130 @@
+/**
+ * Strum Check Tests
+ * Validates polyphonic string detection from a byte frequency spectrum
+ */
+
+import {
+  findSpectralPeak,
+  getStrumHarmonics,
+  analyzeStrum,
+  smoothStrumResults,
+  getStrumStatus,
+} from './strum';
+import {
+  TUNER_SAMPLE_RATE,
+  SLOW_FFT_SIZE,
+  GUITAR_STANDARD,
+  BASS_4_STANDARD,
+  STRUM_CONFIG,
+  IN_TUNE_THRESHOLD,
+  type StringConfig,
+} from '@/constants/TunerConfig';
+
+const BIN_WIDTH = TUNER_SAMPLE_RATE / SLOW_FFT_SIZE;
+
+const detune = (frequency: number, cents: number) => frequency * Math.pow(2, cents / 1200);
+
+/**
+ * Byte spectrum of strummed strings: each partial is a parabolic peak (in dB)
+ * a few bins wide, like a windowed sinusoid's main lobe.
+ */
+function strumSpectrum(frequencies: number[], harmonics = STRUM_CONFIG.harmonics): Uint8Array {
+  const spectrum = new Uint8Array(SLOW_FFT_SIZE / 2);
+  frequencies.forEach((frequency) => {
+    for (let h = 1; h <= harmonics; h++) {
+      const center = (frequency * h) / BIN_WIDTH;
+      const peak = 220 - h * 8;
+      for (let bin = Math.floor(center) - 3; bin <= Math.ceil(center) + 3; bin++) {
+        const level = peak - 12 * Math.pow(bin - center, 2);
+        spectrum[bin] = Math.max(spectrum[bin], Math.max(0, Math.round(level)));
+      }
+    }
+  });
+  return spectrum;
+}
+
+const strumOf = (strings: StringConfig[], centsByString: Record<number, number> = {}) =>
+  strumSpectrum(strings.map((str) => detune(str.frequency, centsByString[str.number] ?? 0)));
+
+describe('findSpectralPeak', () => {
+  test('locates a peak between bins', () => {
+    const peak = findSpectralPeak(strumSpectrum([196], 1), 196);
+    expect(peak?.frequency).toBeCloseTo(196, 0);
+  });
+
+  test('ignores silence and peaks outside the window', () => {
+    expect(findSpectralPeak(new Uint8Array(SLOW_FFT_SIZE / 2), 196)).toBeNull();
+    expect(findSpectralPeak(strumSpectrum([220], 1), 196)).toBeNull();
+  });
+});
+
+describe('getStrumHarmonics', () => {
+  test('skips harmonics shared with other strings', () => {
+    const lowE = GUITAR_STANDARD[5];
+    const highE = GUITAR_STANDARD[0];
+    // Low E's 4th harmonic is the high E string
+    expect(getStrumHarmonics(lowE, GUITAR_STANDARD)).not.toContain(4);
+    expect(getStrumHarmonics(highE, GUITAR_STANDARD)).not.toContain(1);
+  });
+
+  test('uses every harmonic for a lone string', () => {
+    expect(getStrumHarmonics(GUITAR_STANDARD[0], [GUITAR_STANDARD[0]])).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('analyzeStrum', () => {
+  test('reads every string of an in-tune chord', () => {
+    const results = analyzeStrum(strumOf(GUITAR_STANDARD), GUITAR_STANDARD);
+
+    expect(results.map((r) => r.string.number)).toEqual([6, 5, 4, 3, 2, 1]);
+    results.forEach((result) => {
+      expect(result.isSounding).toBe(true);
+      expect(Math.abs(result.cents ?? Infinity)).toBeLessThan(2);
+    });
+  });
+
+  test('finds sharp and flat strings at once', () => {
+    const results = analyzeStrum(strumOf(GUITAR_STANDARD, { 3: -15, 5: 12 }), GUITAR_STANDARD);
+    const byNumber = (n: number) => results.find((r) => r.string.number === n);
+
+    expect(byNumber(3)?.cents).toBeCloseTo(-15, 0);
+    expect(byNumber(5)?.cents).toBeCloseTo(12, 0);
+    expect(Math.abs(byNumber(1)?.cents ?? Infinity)).toBeLessThan(2);
+  });
+
+  test('reads low bass strings to within the in-tune window', () => {
+    // Low E1 partials sit a couple of bins from A1's, so its reading is coarser
+    const results = analyzeStrum(strumOf(BASS_4_STANDARD, { 4: -20 }), BASS_4_STANDARD);
+    expect(getStrumStatus(results[0].cents)).toBe('flat');
+    expect(Math.abs((results[0].cents ?? 0) + 20)).toBeLessThan(IN_TUNE_THRESHOLD);
+  });
+
+  test('reports strings that are not sounding', () => {
+    const results = analyzeStrum(strumOf(GUITAR_STANDARD.slice(0, 3)), GUITAR_STANDARD);
+    expect(results.find((r) => r.string.number === 6)).toMatchObject({ cents: null, isSounding: false });
+  });
+});
+
+describe('smoothStrumResults', () => {
+  const lowE = GUITAR_STANDARD[5];
+  const reading = (cents: number | null) => ({ string: lowE, cents, level: 200, isSounding: cents !== null });
+
+  test('averages towards the new reading', () => {
+    const [smoothed] = smoothStrumResults([reading(0)], [reading(10)]);
+    expect(smoothed.cents).toBeCloseTo(10 * STRUM_CONFIG.smoothing, 5);
+  });
+
+  test('keeps the last reading when a string stops sounding', () => {
+    const [smoothed] = smoothStrumResults([reading(4)], [reading(null)]);
+    expect(smoothed).toMatchObject({ cents: 4, isSounding: false });
+  });
+});
+
+describe('getStrumStatus', () => {
+  test('classifies sharp, flat and in tune', () => {
+    expect(getStrumStatus(8)).toBe('sharp');
+    expect(getStrumStatus(-8)).toBe('flat');
+    expect(getStrumStatus(3)).toBe('inTune');
+    expect(getStrumStatus(null)).toBe('none');
+  });
+});
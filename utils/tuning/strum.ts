@@ -0,0 +1,159 @@
+/**
+ * Strum Check Utilities
+ *
+ * Polyphonic tuning check: finds every open string of a strummed chord in the
+ * analyser's byte frequency spectrum (SLOW_FFT_SIZE window). Each string is
+ * located from its first few harmonics, skipping any that overlap another
+ * string's, and refined with parabolic interpolation between bins.
+ */
+
+import {
+  TUNER_SAMPLE_RATE,
+  SLOW_FFT_SIZE,
+  IN_TUNE_THRESHOLD,
+  STRUM_CONFIG,
+  type StringConfig,
+} from '@/constants/TunerConfig';
+import type { StrumStringResult, StrumStringStatus } from '@/types/tuner';
+
+/**
+ * Interpolated spectral peak near a frequency
+ * Searches STRUM_CONFIG.searchCents either side; returns null when nothing
+ * reaches STRUM_CONFIG.minLevel or the peak lies outside the window.
+ */
+export function findSpectralPeak(
+  spectrum: Uint8Array,
+  frequency: number,
+  sampleRate: number = TUNER_SAMPLE_RATE,
+  fftSize: number = SLOW_FFT_SIZE
+): { frequency: number; level: number } | null {
+  const binWidth = sampleRate / fftSize;
+  const ratio = Math.pow(2, STRUM_CONFIG.searchCents / 1200);
+  const low = Math.max(1, Math.floor(frequency / ratio / binWidth));
+  const high = Math.min(spectrum.length - 2, Math.ceil((frequency * ratio) / binWidth));
+  if (low > high) return null;
+
+  let peakBin = low;
+  for (let bin = low + 1; bin <= high; bin++) {
+    if (spectrum[bin] > spectrum[peakBin]) peakBin = bin;
+  }
+
+  const level = spectrum[peakBin];
+  if (level < STRUM_CONFIG.minLevel) return null;
+
+  // Parabolic interpolation through the peak and its neighbours
+  const before = spectrum[peakBin - 1];
+  const after = spectrum[peakBin + 1];
+  const curvature = before - 2 * level + after;
+  const offset = curvature === 0 ? 0 : (0.5 * (before - after)) / curvature;
+  if (Math.abs(offset) > 1) return null;
+
+  const peakFrequency = (peakBin + offset) * binWidth;
+  const cents = 1200 * Math.log2(peakFrequency / frequency);
+  if (Math.abs(cents) > STRUM_CONFIG.searchCents) return null;
+
+  return { frequency: peakFrequency, level };
+}
+
+/**
+ * Harmonics of a string that don't overlap another string's harmonics
+ * When every harmonic sits near another string's (low bass strings), falls
+ * back to those that are at least outside the search window.
+ */
+export function getStrumHarmonics(
+  target: StringConfig,
+  strings: StringConfig[],
+  sampleRate: number = TUNER_SAMPLE_RATE,
+  fftSize: number = SLOW_FFT_SIZE
+): number[] {
+  const binWidth = sampleRate / fftSize;
+  const all = Array.from({ length: STRUM_CONFIG.harmonics }, (_, i) => i + 1);
+  const otherPartials = strings
+    .filter((other) => other.number !== target.number)
+    .flatMap((other) => all.map((k) => other.frequency * k));
+
+  const separation = (harmonic: number) => {
+    const partial = target.frequency * harmonic;
+    return otherPartials.reduce(
+      (closest, other) => ({
+        cents: Math.min(closest.cents, Math.abs(1200 * Math.log2(partial / other))),
+        bins: Math.min(closest.bins, Math.abs(partial - other) / binWidth),
+      }),
+      { cents: Infinity, bins: Infinity }
+    );
+  };
+
+  const outsideWindow = all.filter((h) => separation(h).cents > STRUM_CONFIG.searchCents);
+  const clear = outsideWindow.filter((h) => separation(h).bins > STRUM_CONFIG.minBinSeparation);
+  if (clear.length > 0) return clear;
+  return outsideWindow.length > 0 ? outsideWindow : all;
+}
+
+/**
+ * Read every string of a strummed chord from one spectrum (lowest string first)
+ * Higher harmonics carry more weight since a bin spans fewer cents there.
+ */
+export function analyzeStrum(
+  spectrum: Uint8Array,
+  strings: StringConfig[],
+  sampleRate: number = TUNER_SAMPLE_RATE,
+  fftSize: number = SLOW_FFT_SIZE
+): StrumStringResult[] {
+  return [...strings]
+    .sort((a, b) => b.number - a.number)
+    .map((str) => {
+      let weightedCents = 0;
+      let totalWeight = 0;
+      let level = 0;
+
+      getStrumHarmonics(str, strings, sampleRate, fftSize).forEach((harmonic) => {
+        const expected = str.frequency * harmonic;
+        const peak = findSpectralPeak(spectrum, expected, sampleRate, fftSize);
+        if (!peak) return;
+
+        weightedCents += harmonic * 1200 * Math.log2(peak.frequency / expected);
+        totalWeight += harmonic;
+        level = Math.max(level, peak.level);
+      });
+
+      const isSounding = totalWeight > 0;
+      return {
+        string: str,
+        cents: isSounding ? weightedCents / totalWeight : null,
+        level,
+        isSounding,
+      };
+    });
+}
+
+/**
+ * Blend a new strum reading into the running one
+ * Strings that stop sounding keep their last reading.
+ */
+export function smoothStrumResults(
+  previous: StrumStringResult[],
+  next: StrumStringResult[]
+): StrumStringResult[] {
+  return next.map((result) => {
+    const prev = previous.find((p) => p.string.number === result.string.number);
+    if (!prev || prev.string.frequency !== result.string.frequency || prev.cents === null) {
+      return result;
+    }
+    if (result.cents === null) {
+      return { ...result, cents: prev.cents };
+    }
+    return {
+      ...result,
+      cents: prev.cents + STRUM_CONFIG.smoothing * (result.cents - prev.cents),
+    };
+  });
+}
+
+/**
+ * Sharp/flat status for a strum reading
+ */
+export function getStrumStatus(cents: number | null): StrumStringStatus {
+  if (cents === null) return 'none';
+  if (Math.abs(cents) <= IN_TUNE_THRESHOLD) return 'inTune';
+  return cents > 0 ? 'sharp' : 'flat';
+}
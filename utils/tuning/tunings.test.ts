@@ -0,0 +1,144 @@
+/**
+ * Tuner Tuning Tests
+ * Validates the tuning library, song tuning lookup and custom tuning helpers
+ */
+
+import {
+  getStandardTuning,
+  getTuningsForInstrument,
+  findTunerTuning,
+  getSongTunerInstrument,
+  getStringNotes,
+  formatTuningNotes,
+  transposeString,
+} from './tunings';
+import {
+  GUITAR_STANDARD,
+  BASS_6_STANDARD,
+  INSTRUMENT_TYPES,
+  TUNING_LIBRARY,
+  createStrings,
+  type TunerTuning,
+} from '@/constants/TunerConfig';
+
+const openC: TunerTuning = {
+  id: 'custom-1',
+  name: 'Open C',
+  instrument: 'guitar',
+  strings: createStrings(['C2', 'G2', 'C3', 'G3', 'C4', 'E4']) ?? [],
+  isCustom: true,
+};
+
+// ============================================================================
+// LIBRARY
+// ============================================================================
+
+describe('tuning library', () => {
+  test('every instrument has a standard tuning listed first', () => {
+    INSTRUMENT_TYPES.forEach((instrument) => {
+      expect(getTuningsForInstrument(instrument)[0].id).toBe('standard');
+    });
+  });
+
+  test('library string counts match the instrument', () => {
+    const stringCounts = { guitar: 6, guitar7: 7, bass4: 4, bass5: 5, bass6: 6 };
+    TUNING_LIBRARY.forEach((tuning) => {
+      expect(tuning.strings).toHaveLength(stringCounts[tuning.instrument]);
+    });
+  });
+
+  test('includes the common alternate guitar tunings', () => {
+    const ids = getTuningsForInstrument('guitar').map((tuning) => tuning.id);
+    expect(ids).toEqual(
+      expect.arrayContaining([
+        'dropD', 'dropC', 'dadgad', 'openG', 'openD', 'openE', 'halfStepDown', 'wholeStepDown',
+      ])
+    );
+  });
+
+  test('lists custom tunings after the library for their instrument only', () => {
+    const guitar = getTuningsForInstrument('guitar', [openC]);
+    expect(guitar[guitar.length - 1]).toBe(openC);
+    expect(getTuningsForInstrument('bass4', [openC])).not.toContain(openC);
+  });
+
+  test('standard tunings use the standard string tables', () => {
+    expect(getStandardTuning('guitar').strings).toBe(GUITAR_STANDARD);
+    expect(getStandardTuning('bass6').strings).toBe(BASS_6_STANDARD);
+  });
+});
+
+describe('createStrings', () => {
+  test('numbers strings from the highest pitch', () => {
+    const strings = createStrings(['D2', 'A2', 'D3', 'G3', 'B3', 'E4']);
+    expect(strings?.[0]).toEqual({ number: 1, note: 'E', octave: 4, frequency: 329.63 });
+    expect(strings?.[5]).toEqual({ number: 6, note: 'D', octave: 2, frequency: 73.42 });
+  });
+
+  test('reads flats as sharps', () => {
+    expect(createStrings(['Eb2'])?.[0]).toMatchObject({ note: 'D#', octave: 2 });
+  });
+
+  test('returns null for unreadable notes', () => {
+    expect(createStrings(['H2'])).toBeNull();
+    expect(createStrings(['E'])).toBeNull();
+  });
+});
+
+// ============================================================================
+// SONG TUNING LOOKUP
+// ============================================================================
+
+describe('findTunerTuning', () => {
+  test('matches Gemini tuning descriptions to library tunings', () => {
+    expect(findTunerTuning('Drop D', 'guitar')?.id).toBe('dropD');
+    expect(findTunerTuning('Eb Standard', 'guitar')?.id).toBe('halfStepDown');
+    expect(findTunerTuning('DADGAD tuning', 'guitar')?.id).toBe('dadgad');
+  });
+
+  test('matches within the instrument', () => {
+    expect(findTunerTuning('Drop D', 'bass4')?.strings).toHaveLength(4);
+    expect(findTunerTuning('Open G', 'bass4')).toBeNull();
+  });
+
+  test('matches custom tunings by name', () => {
+    expect(findTunerTuning('Open C', 'guitar', [openC])).toBe(openC);
+    expect(findTunerTuning('open-c', 'guitar', [openC])).toBe(openC);
+  });
+
+  test('returns null for unknown or empty descriptions', () => {
+    expect(findTunerTuning('Nashville', 'guitar')).toBeNull();
+    expect(findTunerTuning(null, 'guitar')).toBeNull();
+  });
+});
+
+describe('getSongTunerInstrument', () => {
+  test('maps song instruments to tuner instruments', () => {
+    expect(getSongTunerInstrument('Bass')).toBe('bass4');
+    expect(getSongTunerInstrument('Guitar')).toBe('guitar');
+    expect(getSongTunerInstrument(null)).toBe('guitar');
+  });
+});
+
+// ============================================================================
+// CUSTOM TUNINGS
+// ============================================================================
+
+describe('getStringNotes / formatTuningNotes', () => {
+  test('lists strings low to high', () => {
+    expect(getStringNotes(GUITAR_STANDARD)).toEqual(['E2', 'A2', 'D3', 'G3', 'B3', 'E4']);
+    expect(formatTuningNotes(openC.strings)).toBe('C G C G C E');
+  });
+
+  test('round-trips through createStrings', () => {
+    expect(createStrings(getStringNotes(openC.strings))).toEqual(openC.strings);
+  });
+});
+
+describe('transposeString', () => {
+  test('retunes by semitones across octaves', () => {
+    const lowE = GUITAR_STANDARD[5];
+    expect(transposeString(lowE, -2)).toEqual({ number: 6, note: 'D', octave: 2, frequency: 73.42 });
+    expect(transposeString(GUITAR_STANDARD[2], 5)).toMatchObject({ note: 'C', octave: 4 });
+  });
+});
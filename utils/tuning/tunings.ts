@@ -0,0 +1,107 @@
+/**
+ * Tuner Tuning Utilities
+ *
+ * Lists and looks up tuner tunings (built-in library and user-defined),
+ * and edits open strings for custom tunings.
+ */
+
+import {
+  NOTE_NAMES,
+  TUNING_LIBRARY,
+  frequencyToMidi,
+  getInstrumentStrings,
+  midiToFrequency,
+  type InstrumentType,
+  type StringConfig,
+  type TunerTuning,
+} from '@/constants/TunerConfig';
+import { findTuning } from '@/data/chords/generator/tunings';
+
+/**
+ * Standard tuning for an instrument
+ */
+export function getStandardTuning(instrument: InstrumentType): TunerTuning {
+  return (
+    TUNING_LIBRARY.find((tuning) => tuning.instrument === instrument && tuning.id === 'standard') ?? {
+      id: 'standard',
+      name: 'Standard',
+      instrument,
+      strings: getInstrumentStrings(instrument),
+      isCustom: false,
+    }
+  );
+}
+
+/**
+ * Tunings available for an instrument: the library first, then custom tunings
+ */
+export function getTuningsForInstrument(
+  instrument: InstrumentType,
+  customTunings: TunerTuning[] = []
+): TunerTuning[] {
+  return [...TUNING_LIBRARY, ...customTunings].filter((tuning) => tuning.instrument === instrument);
+}
+
+/**
+ * Normalize a tuning name for comparison ("Open C#" → "openc#")
+ */
+function normalizeName(name: string): string {
+  return name.replace(/[^a-z0-9#]/gi, '').toLowerCase();
+}
+
+/**
+ * Find the tuning for a song's tuning description (e.g., theoryData.tuning "Drop D")
+ * Checks library aliases first, then custom tuning names. Returns null when nothing matches.
+ */
+export function findTunerTuning(
+  description: string | null | undefined,
+  instrument: InstrumentType,
+  customTunings: TunerTuning[] = []
+): TunerTuning | null {
+  if (!description) return null;
+
+  const tunings = getTuningsForInstrument(instrument, customTunings);
+  const libraryId = findTuning(description)?.id;
+  const libraryMatch = libraryId
+    ? tunings.find((tuning) => !tuning.isCustom && tuning.id === libraryId)
+    : undefined;
+  if (libraryMatch) return libraryMatch;
+
+  const name = normalizeName(description);
+  return tunings.find((tuning) => tuning.isCustom && normalizeName(tuning.name) === name) ?? null;
+}
+
+/**
+ * Tuner instrument for a song's instrument ("Guitar" | "Bass")
+ */
+export function getSongTunerInstrument(songInstrument: string | null | undefined): InstrumentType {
+  return songInstrument?.toLowerCase() === 'bass' ? 'bass4' : 'guitar';
+}
+
+/**
+ * Open-string notes in scientific pitch notation, low string to high (e.g., ['D2', 'A2', ...])
+ */
+export function getStringNotes(strings: StringConfig[]): string[] {
+  return [...strings].reverse().map((str) => `${str.note}${str.octave}`);
+}
+
+/**
+ * Tuning note names, low string to high (e.g., "D A D G B E")
+ */
+export function formatTuningNotes(strings: StringConfig[]): string {
+  return [...strings].reverse().map((str) => str.note).join(' ');
+}
+
+/**
+ * Retune a string by a number of semitones
+ */
+export function transposeString(str: StringConfig, semitones: number): StringConfig {
+  const midi = Math.round(frequencyToMidi(str.frequency)) + semitones;
+
+  return {
+    number: str.number,
+    note: NOTE_NAMES[((midi % 12) + 12) % 12],
+    octave: Math.floor(midi / 12) - 1,
+    frequency: Math.round(midiToFrequency(midi) * 100) / 100,
+  };
+}
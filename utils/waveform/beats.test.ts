@@ -0,0 +1,57 @@
+/**
+ * Beat Detection Tests
+ * Validates onset picking on synthetic click tracks
+ */
+
+import { detectBeats } from './beats';
+import { BEAT_DETECTION_CONFIG } from '@/constants/PracticePlayerConfig';
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * Quiet noise with a short decaying burst at each click time
+ */
+const renderClicks = (clickTimesMs: number[], durationMs: number, level = 0.8) => {
+  const samples = new Float32Array(Math.round((durationMs * SAMPLE_RATE) / 1000));
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    samples[i] = ((seed / 2147483647) * 2 - 1) * 0.01;
+  }
+
+  const burstLength = Math.round(SAMPLE_RATE * 0.08);
+  for (const timeMs of clickTimesMs) {
+    const start = Math.round((timeMs * SAMPLE_RATE) / 1000);
+    for (let i = 0; i < burstLength && start + i < samples.length; i++) {
+      samples[start + i] += level * Math.exp(-i / (burstLength / 4)) * Math.sin(i * 0.7);
+    }
+  }
+  return samples;
+};
+
+/** How far a detected beat may be from the click (one hop) */
+const TOLERANCE_MS = (BEAT_DETECTION_CONFIG.hopSize * 1000) / SAMPLE_RATE;
+
+describe('detectBeats', () => {
+  test('finds each click in a steady pulse', () => {
+    const clicks = [500, 1000, 1500, 2000, 2500, 3000];
+    const beats = detectBeats(renderClicks(clicks, 3500), SAMPLE_RATE);
+
+    expect(beats).toHaveLength(clicks.length);
+    beats.forEach((beat, i) => {
+      expect(Math.abs(beat - clicks[i])).toBeLessThanOrEqual(TOLERANCE_MS);
+    });
+  });
+
+  test('returns beats in ascending order, at least the minimum interval apart', () => {
+    const beats = detectBeats(renderClicks([400, 520, 1200, 1900], 2500), SAMPLE_RATE);
+
+    for (let i = 1; i < beats.length; i++) {
+      expect(beats[i] - beats[i - 1]).toBeGreaterThanOrEqual(BEAT_DETECTION_CONFIG.minIntervalMs);
+    }
+  });
+
+  test('finds nothing in silence', () => {
+    expect(detectBeats(new Float32Array(SAMPLE_RATE), SAMPLE_RATE)).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Beat Detection
+ *
+ * Finds beats in decoded audio from rises in frame energy (onsets),
+ * picked against a moving threshold so quiet and loud passages both register.
+ */
+
+import { BEAT_DETECTION_CONFIG, WAVEFORM_CONFIG } from '@/constants/PracticePlayerConfig';
+import { runSteps, type AnalysisSteps } from './steps';
+
+/**
+ * RMS energy of each hop-spaced frame, yielding between chunks
+ */
+function* getFrameEnergies(samples: Float32Array): AnalysisSteps<number[]> {
+  const { frameSize, hopSize } = BEAT_DETECTION_CONFIG;
+  const framesPerChunk = Math.max(1, Math.floor(WAVEFORM_CONFIG.chunkSamples / hopSize));
+  const energies: number[] = [];
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    let sum = 0;
+    for (let i = start; i < start + frameSize; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energies.push(Math.sqrt(sum / frameSize));
+    if (energies.length % framesPerChunk === 0) yield;
+  }
+
+  return energies;
+}
+
+/**
+ * Detect beat positions in milliseconds, ascending, yielding between chunks
+ */
+export function* detectBeatsSteps(samples: Float32Array, sampleRate: number): AnalysisSteps<number[]> {
+  const { frameSize, hopSize, thresholdFrames, thresholdRatio, minStrength, minIntervalMs } =
+    BEAT_DETECTION_CONFIG;
+
+  const energies = yield* getFrameEnergies(samples);
+  const strengths = energies.map((energy, i) =>
+    i === 0 ? 0 : Math.max(0, energy - energies[i - 1])
+  );
+  const strongest = strengths.reduce((max, strength) => Math.max(max, strength), 0);
+  if (strongest === 0) return [];
+
+  const beatsMs: number[] = [];
+  for (let i = 1; i < strengths.length - 1; i++) {
+    const strength = strengths[i];
+    if (strength < strongest * minStrength) continue;
+    if (strength < strengths[i - 1] || strength <= strengths[i + 1]) continue;
+
+    // Compare against the local average onset strength
+    const from = Math.max(0, i - thresholdFrames);
+    const to = Math.min(strengths.length, i + thresholdFrames + 1);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += strengths[j];
+    if (strength <= (sum / (to - from)) * thresholdRatio) continue;
+
+    // The rise came from the hop this frame added at its end
+    const timeMs = Math.round(((i * hopSize + frameSize - hopSize) * 1000) / sampleRate);
+    if (beatsMs.length > 0 && timeMs - beatsMs[beatsMs.length - 1] < minIntervalMs) continue;
+    beatsMs.push(timeMs);
+  }
+
+  return beatsMs;
+}
+
+/**
+ * Detect beat positions in milliseconds, ascending
+ */
+export function detectBeats(samples: Float32Array, sampleRate: number): number[] {
+  return runSteps(detectBeatsSteps(samples, sampleRate));
+}
@@ -0,0 +1,20 @@
+/**
+ * Waveform Utilities
+ *
+ * Peak overviews, zoom windows, snapping and beat detection for the practice player.
+ * The *Steps variants yield between chunks, for analysing long files with runStepsAsync.
+ */
+
+export {
+  mixToMono,
+  mixToMonoSteps,
+  computePeaks,
+  computePeaksSteps,
+  getViewWindow,
+  getWindowPeaks,
+  findNearestZeroCrossing,
+  findNearestBeat,
+} from './waveform';
+export { detectBeats, detectBeatsSteps } from './beats';
+export { runSteps, runStepsAsync } from './steps';
+export type { AnalysisSteps } from './steps';
@@ -0,0 +1,54 @@
+/**
+ * Stepped Analysis Tests
+ * Validates running chunked analyses in one go, across event loop turns and cancelled
+ */
+
+import { runSteps, runStepsAsync } from './steps';
+import { computePeaks, computePeaksSteps } from './waveform';
+import { WAVEFORM_CONFIG } from '@/constants/PracticePlayerConfig';
+
+function* countTo(total: number) {
+  let count = 0;
+  while (count < total) {
+    count++;
+    yield;
+  }
+  return count;
+}
+
+describe('runSteps', () => {
+  test('runs every step and returns the result', () => {
+    expect(runSteps(countTo(5))).toBe(5);
+  });
+});
+
+describe('runStepsAsync', () => {
+  test('returns the same result as running in one go', async () => {
+    const samples = new Float32Array(WAVEFORM_CONFIG.chunkSamples * 3).map((_, i) => Math.sin(i / 50));
+    const result = await runStepsAsync(computePeaksSteps(samples, 64), () => false);
+    expect(result).toEqual(computePeaks(samples, 64));
+  });
+
+  test('yields to the event loop between chunks', async () => {
+    const ticks: number[] = [];
+    const timer = setInterval(() => ticks.push(Date.now()), 0);
+    await runStepsAsync(countTo(20), () => false);
+    clearInterval(timer);
+    expect(ticks.length).toBeGreaterThan(0);
+  });
+
+  test('stops and returns null once cancelled', async () => {
+    let steps = 0;
+    const result = await runStepsAsync(
+      (function* () {
+        for (;;) {
+          steps++;
+          yield;
+        }
+      })(),
+      () => steps >= 3
+    );
+    expect(result).toBeNull();
+    expect(steps).toBe(3);
+  });
+});
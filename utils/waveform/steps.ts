@@ -0,0 +1,38 @@
+/**
+ * Stepped Analysis
+ *
+ * Long analyses are written as generators that yield between chunks of work,
+ * so they can run in one go (tests, short files) or spread across event loop
+ * turns to keep the UI responsive while a long track is analysed.
+ */
+
+/**
+ * Analysis that yields between chunks and returns its result
+ */
+export type AnalysisSteps<T> = Generator<void, T, void>;
+
+/**
+ * Run an analysis to completion without yielding
+ */
+export function runSteps<T>(steps: AnalysisSteps<T>): T {
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+}
+
+/**
+ * Run an analysis, letting the event loop run between chunks
+ * Returns null when it's cancelled part way.
+ */
+export async function runStepsAsync<T>(
+  steps: AnalysisSteps<T>,
+  isCancelled: () => boolean
+): Promise<T | null> {
+  let step = steps.next();
+  while (!step.done) {
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+    if (isCancelled()) return null;
+    step = steps.next();
+  }
+  return step.value;
+}
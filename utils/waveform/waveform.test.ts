@@ -0,0 +1,109 @@
+/**
+ * Waveform Utility Tests
+ * Validates peak overviews, zoom windows and loop-handle snapping
+ */
+
+import {
+  mixToMono,
+  computePeaks,
+  getViewWindow,
+  getWindowPeaks,
+  findNearestZeroCrossing,
+  findNearestBeat,
+} from './waveform';
+
+describe('mixToMono', () => {
+  test('returns a single channel as is', () => {
+    const channel = new Float32Array([0.1, -0.2]);
+    expect(mixToMono([channel])).toBe(channel);
+  });
+
+  test('averages stereo channels', () => {
+    const mono = mixToMono([new Float32Array([1, 0.5]), new Float32Array([0, -0.5])]);
+    expect(Array.from(mono)).toEqual([0.5, 0]);
+  });
+});
+
+describe('computePeaks', () => {
+  test('takes the loudest sample per bucket, normalized to 1', () => {
+    const samples = new Float32Array([0.1, -0.2, 0.4, 0.1]);
+    expect(computePeaks(samples, 2)).toEqual([0.5, 1]);
+  });
+
+  test('returns zeros for silence or an empty file', () => {
+    expect(computePeaks(new Float32Array(8), 4)).toEqual([0, 0, 0, 0]);
+    expect(computePeaks(new Float32Array(0), 3)).toEqual([0, 0, 0]);
+  });
+
+  test('fills every bucket when there are more buckets than samples', () => {
+    const peaks = computePeaks(new Float32Array([0.5, 1]), 4);
+    expect(peaks).toHaveLength(4);
+    expect(peaks[3]).toBe(1);
+  });
+});
+
+describe('getViewWindow', () => {
+  test('shows the whole file at 1×', () => {
+    expect(getViewWindow(60000, 1, 12000)).toEqual({ startMs: 0, endMs: 60000 });
+  });
+
+  test('centres the window on the position when zoomed', () => {
+    expect(getViewWindow(60000, 4, 30000)).toEqual({ startMs: 22500, endMs: 37500 });
+  });
+
+  test('keeps the window inside the file', () => {
+    expect(getViewWindow(60000, 4, 1000)).toEqual({ startMs: 0, endMs: 15000 });
+    expect(getViewWindow(60000, 4, 59000)).toEqual({ startMs: 45000, endMs: 60000 });
+  });
+});
+
+describe('getWindowPeaks', () => {
+  const peaks = [0.1, 0.2, 0.9, 0.3, 0.4, 0.5, 0.6, 1];
+
+  test('merges buckets into bars across the whole file', () => {
+    expect(getWindowPeaks(peaks, 8000, 0, 8000, 4)).toEqual([0.2, 0.9, 0.5, 1]);
+  });
+
+  test('only covers the visible window', () => {
+    expect(getWindowPeaks(peaks, 8000, 2000, 4000, 2)).toEqual([0.9, 0.3]);
+  });
+
+  test('repeats buckets when zoomed in past the resolution', () => {
+    expect(getWindowPeaks(peaks, 8000, 0, 2000, 4)).toEqual([0.1, 0.1, 0.2, 0.2]);
+  });
+
+  test('returns flat bars without peaks', () => {
+    expect(getWindowPeaks([], 8000, 0, 8000, 3)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('findNearestZeroCrossing', () => {
+  const samples = new Float32Array([0.5, 0.4, 0.3, -0.2, -0.4, -0.1, 0.2, 0.3]);
+
+  test('moves to the closest sign change', () => {
+    expect(findNearestZeroCrossing(samples, 1, 4)).toBe(3);
+    expect(findNearestZeroCrossing(samples, 5, 4)).toBe(6);
+  });
+
+  test('keeps the index when no crossing is within reach', () => {
+    expect(findNearestZeroCrossing(samples, 0, 1)).toBe(0);
+  });
+});
+
+describe('findNearestBeat', () => {
+  const beats = [500, 1000, 1500, 2000];
+
+  test('snaps to the closest beat', () => {
+    expect(findNearestBeat(beats, 1200)).toBe(1000);
+    expect(findNearestBeat(beats, 1300)).toBe(1500);
+  });
+
+  test('snaps to the first or last beat outside the range', () => {
+    expect(findNearestBeat(beats, 100)).toBe(500);
+    expect(findNearestBeat(beats, 9000)).toBe(2000);
+  });
+
+  test('leaves the position alone without beats', () => {
+    expect(findNearestBeat([], 1234)).toBe(1234);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Waveform Utilities
+ *
+ * Peak overviews, zoom windows and loop-handle snapping for the practice player.
+ */
+
+import { WAVEFORM_CONFIG } from '@/constants/PracticePlayerConfig';
+import { runSteps, type AnalysisSteps } from './steps';
+
+/**
+ * Average channels into one mono signal, yielding between chunks
+ */
+export function* mixToMonoSteps(channels: Float32Array[]): AnalysisSteps<Float32Array> {
+  if (channels.length === 1) return channels[0];
+
+  const length = Math.min(...channels.map((channel) => channel.length));
+  const mono = new Float32Array(length);
+  for (let start = 0; start < length; start += WAVEFORM_CONFIG.chunkSamples) {
+    const end = Math.min(length, start + WAVEFORM_CONFIG.chunkSamples);
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        mono[i] += channel[i] / channels.length;
+      }
+    }
+    yield;
+  }
+  return mono;
+}
+
+/**
+ * Average channels into one mono signal
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  return runSteps(mixToMonoSteps(channels));
+}
+
+/**
+ * Peak absolute level per bucket, normalized so the loudest bucket is 1,
+ * yielding between chunks
+ */
+export function* computePeaksSteps(samples: Float32Array, buckets: number): AnalysisSteps<number[]> {
+  const peaks = new Array<number>(buckets).fill(0);
+  if (samples.length === 0) return peaks;
+
+  let max = 0;
+  let sinceYield = 0;
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor((bucket * samples.length) / buckets);
+    const end = Math.max(start + 1, Math.floor(((bucket + 1) * samples.length) / buckets));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      const level = Math.abs(samples[i]);
+      if (level > peak) peak = level;
+    }
+    peaks[bucket] = peak;
+    if (peak > max) max = peak;
+
+    sinceYield += end - start;
+    if (sinceYield >= WAVEFORM_CONFIG.chunkSamples) {
+      sinceYield = 0;
+      yield;
+    }
+  }
+
+  return max > 0 ? peaks.map((peak) => peak / max) : peaks;
+}
+
+/**
+ * Peak absolute level per bucket, normalized so the loudest bucket is 1
+ */
+export function computePeaks(samples: Float32Array, buckets: number): number[] {
+  return runSteps(computePeaksSteps(samples, buckets));
+}
+
+/**
+ * Visible part of the file at a zoom level, centred on a position where possible
+ */
+export function getViewWindow(
+  durationMs: number,
+  zoom: number,
+  centerMs: number
+): { startMs: number; endMs: number } {
+  const spanMs = durationMs / Math.max(1, zoom);
+  const startMs = Math.min(Math.max(0, centerMs - spanMs / 2), durationMs - spanMs);
+  return { startMs, endMs: startMs + spanMs };
+}
+
+/**
+ * Resample whole-file peaks to bars for the visible window
+ * Each bar takes the loudest bucket it covers
+ */
+export function getWindowPeaks(
+  peaks: number[],
+  durationMs: number,
+  startMs: number,
+  endMs: number,
+  bars: number
+): number[] {
+  if (peaks.length === 0 || durationMs <= 0) return new Array<number>(bars).fill(0);
+
+  const startBucket = (startMs / durationMs) * peaks.length;
+  const bucketsPerBar = ((endMs - startMs) / durationMs) * peaks.length / bars;
+
+  return Array.from({ length: bars }, (_, bar) => {
+    const from = Math.floor(startBucket + bar * bucketsPerBar);
+    const to = Math.max(from + 1, Math.floor(startBucket + (bar + 1) * bucketsPerBar));
+    let peak = 0;
+    for (let i = Math.max(0, from); i < to && i < peaks.length; i++) {
+      if (peaks[i] > peak) peak = peaks[i];
+    }
+    return peak;
+  });
+}
+
+/**
+ * Nearest sample index where the signal changes sign
+ * Returns the original index when there is none within maxDistance samples
+ */
+export function findNearestZeroCrossing(
+  samples: Float32Array,
+  index: number,
+  maxDistance: number
+): number {
+  const crossesAt = (i: number) =>
+    i > 0 && i < samples.length && samples[i - 1] < 0 !== samples[i] < 0;
+
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    if (crossesAt(index - distance)) return index - distance;
+    if (crossesAt(index + distance)) return index + distance;
+  }
+  return index;
+}
+
+/**
+ * Nearest beat to a position (beats sorted ascending)
+ * Returns the position unchanged when there are no beats
+ */
+export function findNearestBeat(beatsMs: number[], positionMs: number): number {
+  if (beatsMs.length === 0) return positionMs;
+
+  // Binary search for the first beat at or after the position
+  let low = 0;
+  let high = beatsMs.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (beatsMs[mid] < positionMs) low = mid + 1;
+    else high = mid;
+  }
+
+  const after = beatsMs[Math.min(low, beatsMs.length - 1)];
+  const before = beatsMs[Math.max(low - 1, 0)];
+  return positionMs - before <= after - positionMs ? before : after;
+}